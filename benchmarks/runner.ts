@@ -10,6 +10,9 @@ import * as path from 'path';
 import express, { Express } from 'express';
 import { RouteDiscovery } from '../src/core/RouteDiscovery';
 import { SpecGenerator } from '../src/core/SpecGenerator';
+import { SnapshotStorage } from '../src/core/SnapshotStorage';
+import { runtimeCapture } from '../src/middleware/runtimeCapture';
+import type { RuntimeCaptureConfig } from '../src/middleware/runtimeCapture';
 
 interface BenchmarkResult {
   name: string;
@@ -223,6 +226,78 @@ async function runSpecGenerationBenchmarks(): Promise<void> {
   }
 }
 
+/**
+ * Push requests through runtimeCapture and res.end without a server, so the numbers
+ * show the middleware's own overhead. Snapshots go to an in-memory backend.
+ */
+function createCaptureRunner(config: RuntimeCaptureConfig | null, requestCount: number): () => Promise<void> {
+  const storage = new SnapshotStorage({
+    enabled: true,
+    maxSnapshots: 10,
+    backend: { name: 'memory', append: () => undefined, remove: () => undefined, load: () => [] },
+  });
+  const middleware = config ? runtimeCapture({ ...config, snapshotStorage: storage }) : null;
+  const body = { id: 1, name: 'Alice', email: 'alice@example.com', roles: ['admin', 'user'], profile: { age: 30 } };
+  const payload = JSON.stringify(body);
+
+  return async () => {
+    for (let i = 0; i < requestCount; i++) {
+      const req: any = {
+        method: 'POST',
+        path: `/api/resource${i % 50}`,
+        route: { path: '/api/:resource' },
+        query: { page: '1' },
+        headers: { 'content-type': 'application/json', authorization: 'Bearer token' },
+        body,
+      };
+      const headers = { 'content-type': 'application/json; charset=utf-8' };
+      const res: any = {
+        statusCode: 200,
+        end: (data: unknown) => data,
+        once: () => res,
+        getHeader: (name: string) => headers[name.toLowerCase() as keyof typeof headers],
+        getHeaders: () => headers,
+      };
+      if (middleware) {
+        middleware(req, res, () => undefined);
+      }
+      res.end(payload);
+    }
+    await middleware?.flush();
+  };
+}
+
+async function runRuntimeCaptureBenchmarks(): Promise<void> {
+  console.log('\n📊 Runtime Capture Overhead Benchmarks (1000 requests)\n');
+
+  const variants: Array<{ name: string; config: RuntimeCaptureConfig | null; threshold: number }> = [
+    { name: 'without capture', config: null, threshold: 5 },
+    { name: 'capture disabled', config: { enabled: false }, threshold: 10 },
+    { name: 'capture every request (sync)', config: { enabled: true, defer: false }, threshold: 200 },
+    { name: 'capture every request (deferred)', config: { enabled: true }, threshold: 200 },
+    { name: 'capture 10% of requests', config: { enabled: true, sampling: { rate: 0.1 } }, threshold: 50 },
+    { name: 'capture until 1 shape per route', config: { enabled: true, sampling: { uniqueShapes: 1 } }, threshold: 50 },
+    { name: 'capture budget 100/min', config: { enabled: true, sampling: { budgetPerMinute: 100 } }, threshold: 50 },
+  ];
+
+  for (const variant of variants) {
+    const result = await runBenchmark({
+      name: variant.name,
+      category: 'runtime-capture',
+      fn: createCaptureRunner(variant.config, 1000),
+      iterations: 10,
+      warmupIterations: 2,
+      threshold: variant.threshold,
+    });
+    results.push(result);
+
+    const status = result.passed ? '✅' : '❌';
+    console.log(
+      `  ${status} ${result.name}: ${formatDuration(result.avgDuration)} (threshold: ${formatDuration(result.threshold)})`
+    );
+  }
+}
+
 function generateReport(): string {
   const report: string[] = [
     '# Performance Benchmark Report',
@@ -260,6 +335,7 @@ async function main(): Promise<void> {
 
   await runRouteDiscoveryBenchmarks();
   await runSpecGenerationBenchmarks();
+  await runRuntimeCaptureBenchmarks();
 
   console.log('\n' + '='.repeat(60));
   console.log('\n📋 Results Summary\n');
@@ -216,6 +216,72 @@ paths:
         fs.unlinkSync(yamlSpec);
       }
     });
+
+    it('should reject --fix for multi-file specs', () => {
+      const splitDir = path.join(TEST_DIR, 'split');
+      fs.mkdirSync(path.join(splitDir, 'paths'), { recursive: true });
+      fs.writeFileSync(path.join(splitDir, 'openapi.yaml'), `
+openapi: 3.1.0
+info:
+  title: Split API
+  version: 1.0.0
+paths:
+  /users:
+    $ref: ./paths/users.yaml
+`);
+      fs.writeFileSync(path.join(splitDir, 'paths', 'users.yaml'), `
+get:
+  responses:
+    '200':
+      description: Success
+`);
+      try {
+        const strict = spawnSync('node', ['dist/cli.js', 'validate', path.join(splitDir, 'openapi.yaml'), '--strict', '--ci', '--ci-format', 'json']);
+        expect(JSON.parse(strict.stdout.toString()).operations).toBe(1);
+
+        for (const flag of ['--fix', '--fix-dry-run']) {
+          const result = spawnSync('node', ['dist/cli.js', 'validate', path.join(splitDir, 'openapi.yaml'), flag, '--ci', '--ci-format', 'json']);
+          expect(result.status).toBe(1);
+          expect(JSON.parse(result.stdout.toString())).toEqual({ success: false, error: '--fix does not support multi-file specs', files: 2 });
+        }
+      } finally {
+        fs.rmSync(splitDir, { recursive: true, force: true });
+      }
+    });
+
+    it('should run fixable rules with --fix without --strict', () => {
+      const fixSpecFile = path.join(TEST_DIR, 'fixable.json');
+      fs.writeFileSync(fixSpecFile, JSON.stringify({
+        openapi: '3.1.0',
+        info: { title: 'Fixable API', version: '1.0.0' },
+        paths: {
+          '/users': {
+            get: { operationId: 'users', tags: ['Users'], responses: { '200': { description: 'OK' } } },
+            post: { operationId: 'users', tags: ['Users'], responses: { '201': { description: 'Created' } } },
+          },
+          '/health': { get: { tags: ['Health'], responses: { '200': {} } } },
+        },
+      }, null, 2));
+      try {
+        const dryRun = spawnSync('node', ['dist/cli.js', 'validate', fixSpecFile, '--fix-dry-run', '--ci', '--ci-format', 'json']);
+        const output = JSON.parse(dryRun.stdout.toString());
+        expect(output.fixes.map((fix: any) => fix.ruleId).sort()).toEqual([
+          'operation-operationId',
+          'operation-operationId-unique',
+          'response-description',
+        ]);
+        expect(output.fixesWritten).toBe(false);
+
+        const result = spawnSync('node', ['dist/cli.js', 'validate', fixSpecFile, '--fix']);
+        expect(result.status).toBe(0);
+        const fixed = JSON.parse(fs.readFileSync(fixSpecFile, 'utf-8'));
+        expect(fixed.paths['/users'].post.operationId).not.toBe('users');
+        expect(fixed.paths['/health'].get.operationId).toBeDefined();
+        expect(fixed.paths['/health'].get.responses['200'].description).toBe('OK');
+      } finally {
+        fs.unlinkSync(fixSpecFile);
+      }
+    });
   });
 
   describe('SERVE Command', () => {
@@ -559,17 +625,17 @@ paths:
     });
 
     it('should support swagger-jsdoc migration', () => {
-      const result = spawnSync('node', ['dist/cli.js', 'migrate', 'swagger-jsdoc']);
+      const result = spawnSync('node', ['dist/cli.js', 'migrate', 'swagger-jsdoc', '--dry-run']);
       expect([0, 1]).toContain(result.status);
     });
 
     it('should support tsoa migration', () => {
-      const result = spawnSync('node', ['dist/cli.js', 'migrate', 'tsoa']);
+      const result = spawnSync('node', ['dist/cli.js', 'migrate', 'tsoa', '--dry-run']);
       expect([0, 1]).toContain(result.status);
     });
 
     it('should support express-oas-generator migration', () => {
-      const result = spawnSync('node', ['dist/cli.js', 'migrate', 'express-oas-generator']);
+      const result = spawnSync('node', ['dist/cli.js', 'migrate', 'express-oas-generator', '--dry-run']);
       expect([0, 1]).toContain(result.status);
     });
 
@@ -42,14 +42,19 @@ program
   .option('-i, --input <path>', 'Entry point file')
   .option('-o, --output <path>', 'Output path')
   .option('-f, --format <format>', 'Output format (json|yaml)')
+  .option('--spec-version <version>', 'OpenAPI version of the output (3.0|3.1)')
   .option('-w, --watch', 'Watch mode - regenerate on file changes', false)
   .option('--title <string>', 'API title')
   .option('--version <string>', 'API version')
   .option('--description <string>', 'API description')
   .option('--strategies <strategies...>', 'Generation strategies (jsdoc,decorator,runtime)')
+  .option('--snapshot-dir <path>', 'Runtime snapshot directory used by the runtime strategy')
   .option('--include-paths <patterns...>', 'Include only paths matching patterns')
   .option('--exclude-paths <patterns...>', 'Exclude paths matching patterns')
   .option('--tags <tags...>', 'Include only routes with specified tags')
+  .option('--extract-components', 'Hoist request/response schemas into components.schemas with $ref')
+  .option('--split-versions', 'Write one spec per API version (/v1, /v2 prefixes or @version) plus a version index')
+  .option('--version-header <name>', 'Request header selecting the version of routes tagged with @version')
   .option('--ci', 'CI mode: no colors, JSON output, strict errors', false)
   .option('--ci-format <format>', 'CI output format (text|json|sarif)', 'text')
   .action(async function (options: any) {
@@ -92,11 +97,19 @@ program
       const outputPath = mergedConfig.output || DEFAULT_CONFIG.output;
       const outputFormat = mergedConfig.format || 'json';
 
-      const generateSpec = async (): Promise<{ success: boolean; routes?: number; spec?: any }> => {
+      const generateSpec = async (): Promise<{ success: boolean; routes?: number; spec?: any; versions?: string[] }> => {
         // Load Express app dynamically with ESM/CommonJS fallback chain
         let app;
         const resolvedInput = path.resolve(inputPath!);
 
+        // Let body parsers and multer uploads the app creates record their options
+        const { instrumentInstalledBodyParsers } = await import('./core/BodyParserDetector');
+        instrumentInstalledBodyParsers(path.dirname(resolvedInput));
+
+        // Let Express 5 routers record mount paths such as app.use('/orgs/:org', router)
+        const { instrumentInstalledRouter } = await import('./core/RouteDiscovery');
+        instrumentInstalledRouter(path.dirname(resolvedInput));
+
         // Try loading the app using a smart loader with multiple strategies
         const loadResult = await loadApp(resolvedInput);
 
@@ -119,7 +132,14 @@ program
         // Create generator config
         const generatorConfig = {
           info: apiInfo,
+          specVersion: mergedConfig.specVersion,
+          jsonSchemaDialect: mergedConfig.jsonSchemaDialect,
+          webhooks: mergedConfig.webhooks,
           servers: mergedConfig.servers,
+          schemas: mergedConfig.components?.schemas,
+          extractComponents: mergedConfig.components?.extract
+            ? { minOccurrences: mergedConfig.components.minOccurrences }
+            : false,
         };
 
         // Discover routes with strategy options
@@ -133,48 +153,129 @@ program
         const discovery = new RouteDiscovery(discoveryOptions);
         let routes = discovery.discover(app);
 
+        // Read handler types with the TypeScript compiler when enabled
+        if (mergedConfig.typescript?.enabled) {
+          const { HandlerTypeAnalyzer } = await import('./inference/HandlerTypeAnalyzer');
+          const tsConfig = mergedConfig.typescript;
+          const analyzer = new HandlerTypeAnalyzer({
+            include: tsConfig.include,
+            exclude: tsConfig.exclude,
+            tsconfig: tsConfig.tsconfig,
+            cacheFile: tsConfig.cacheFile === false
+              ? undefined
+              : tsConfig.cacheFile || path.join('node_modules', '.cache', 'express-swagger-auto', 'handler-types.json'),
+          });
+          const analysis = analyzer.analyze();
+          routes = analyzer.annotateRoutes(routes, analysis);
+          generatorConfig.schemas = { ...analysis.schemas, ...generatorConfig.schemas };
+          log.dim(`Inferred types for ${analysis.handlers.length} handler(s) with the TypeScript compiler\n`);
+        }
+
+        // Merge captured runtime snapshots into the discovered routes
+        if (mergedConfig.strategies?.includes('runtime')) {
+          const { SnapshotStorage } = await import('./core/SnapshotStorage');
+          const { detectSnapshotBackend } = await import('./core/SnapshotBackends');
+          const { RuntimeSpecMerger } = await import('./core/RuntimeSpecMerger');
+          const snapshotDir = path.resolve(mergedConfig.runtime?.snapshotDir || './data/runtime-snapshots');
+
+          if (fs.existsSync(snapshotDir)) {
+            const storage = new SnapshotStorage({
+              enabled: true,
+              outputDir: snapshotDir,
+              backend: detectSnapshotBackend(snapshotDir),
+              maxSnapshots: Number.MAX_SAFE_INTEGER,
+            });
+            storage.loadSnapshots();
+            const snapshots = [...storage.getAllSnapshots().values()].flat();
+            storage.close();
+
+            const merged = new RuntimeSpecMerger({
+              prefer: mergedConfig.runtime?.prefer,
+              minSamples: mergedConfig.runtime?.minSamples,
+              inference: mergedConfig.runtime?.inference,
+            }).annotateRoutes(routes, snapshots);
+            routes = merged.routes;
+            log.dim(`Merged ${snapshots.length} runtime snapshot(s) into ${merged.annotated.length} route(s)\n`);
+            if (merged.unmatched.length > 0) {
+              log.warn(`⚠ ${merged.unmatched.length} snapshot path(s) match no discovered route\n`);
+            }
+          } else {
+            log.warn(`⚠ No runtime snapshots found in ${snapshotDir}\n`);
+          }
+        }
+
         // Apply route filtering
         if (mergedConfig.routes?.include || mergedConfig.routes?.exclude || mergedConfig.routes?.tags) {
           routes = filterRoutes(routes, mergedConfig.routes);
         }
 
-        // Generate spec
-        const generator = new SpecGenerator(generatorConfig);
-        const spec = generator.generate(routes);
-
         // Ensure output directory exists
         const outputDir = path.dirname(outputPath!);
         if (!fs.existsSync(outputDir)) {
           fs.mkdirSync(outputDir, { recursive: true });
         }
 
-        // Write spec to file in appropriate format
-        let outputContent: string;
-        let actualOutputPath = outputPath!;
-        
-        // Detect format from file extension if not explicitly set
-        const detectedFormat = actualOutputPath.endsWith('.yaml') || actualOutputPath.endsWith('.yml') 
-          ? 'yaml' 
-          : outputFormat;
+        // Write a document to file in appropriate format, returning its size
+        const writeDocument = (document: any, filePath: string): number => {
+          let outputContent: string;
+          let actualOutputPath = filePath;
 
-        if (detectedFormat === 'yaml') {
-          // Dynamic import yaml package
-          try {
-            const yaml = require('js-yaml');
-            outputContent = yaml.dump(spec, { indent: 2, lineWidth: 120, noRefs: true });
-          } catch {
-            log.warn('⚠ js-yaml not installed, falling back to JSON output');
-            outputContent = JSON.stringify(spec, null, 2);
-            if (actualOutputPath.endsWith('.yaml') || actualOutputPath.endsWith('.yml')) {
-              actualOutputPath = actualOutputPath.replace(/\.(yaml|yml)$/, '.json');
+          // Detect format from file extension if not explicitly set
+          const detectedFormat = actualOutputPath.endsWith('.yaml') || actualOutputPath.endsWith('.yml')
+            ? 'yaml'
+            : outputFormat;
+
+          if (detectedFormat === 'yaml') {
+            // Dynamic import yaml package
+            try {
+              const yaml = require('js-yaml');
+              outputContent = yaml.dump(document, { indent: 2, lineWidth: 120, noRefs: true });
+            } catch {
+              log.warn('⚠ js-yaml not installed, falling back to JSON output');
+              outputContent = JSON.stringify(document, null, 2);
+              if (actualOutputPath.endsWith('.yaml') || actualOutputPath.endsWith('.yml')) {
+                actualOutputPath = actualOutputPath.replace(/\.(yaml|yml)$/, '.json');
+              }
             }
+          } else {
+            outputContent = JSON.stringify(document, null, 2);
           }
-        } else {
-          outputContent = JSON.stringify(spec, null, 2);
+
+          fs.writeFileSync(actualOutputPath, outputContent);
+          return outputContent.length;
+        };
+
+        // One spec per API version next to the output path, plus an index listing them
+        if (mergedConfig.versioning?.enabled) {
+          const { VersionedSpecGenerator } = await import('./core/VersionedSpecGenerator');
+          const versionedGenerator = new VersionedSpecGenerator(generatorConfig, mergedConfig.versioning);
+          const versioned = versionedGenerator.generate(routes);
+
+          if (versioned.versions.length > 0) {
+            const extension = path.extname(outputPath!) || (outputFormat === 'yaml' ? '.yaml' : '.json');
+            const base = outputPath!.slice(0, outputPath!.length - path.extname(outputPath!).length);
+            const fileFor = (name: string) => `${base}.${name}${extension}`;
+
+            for (const version of versioned.versions) {
+              const size = writeDocument(version.spec, fileFor(version.name));
+              log.success(`✓ Updated ${version.name} spec (${Object.keys(version.spec.paths).length} paths, ${(size / 1024).toFixed(2)}KB): ${fileFor(version.name)}`);
+            }
+
+            const index = versionedGenerator.createIndex(versioned, (name) => path.basename(fileFor(name)));
+            writeDocument(index, fileFor('versions'));
+            log.success(`✓ Updated version index (${versioned.versions.length} versions, default ${versioned.default}): ${fileFor('versions')}\n`);
+
+            return { success: true, routes: routes.length, versions: versioned.versions.map((version) => version.name) };
+          }
+
+          log.warn('⚠ No versioned routes found, writing a single spec\n');
         }
 
-        fs.writeFileSync(actualOutputPath, outputContent);
-        const specSize = (outputContent.length / 1024).toFixed(2);
+        // Generate spec
+        const generator = new SpecGenerator(generatorConfig);
+        const spec = generator.generate(routes);
+
+        const specSize = (writeDocument(spec, outputPath!) / 1024).toFixed(2);
         
         if (!isCiMode) {
           log.success(`✓ Updated spec (${routes.length} routes, ${specSize}KB)\n`);
@@ -220,6 +321,7 @@ program
             success: true,
             routes: result.routes,
             outputPath: outputPath,
+            ...(result.versions ? { versions: result.versions } : {}),
             format: outputPath?.endsWith('.yaml') || outputPath?.endsWith('.yml') ? 'yaml' : 'json',
             duration,
             config: configResult.filepath || null,
@@ -280,6 +382,9 @@ program
   .option('--ci-format <format>', 'CI output format (text|json|sarif|checkstyle|junit|github-actions|stylish|codeclimate|markdown|gitlab)', 'text')
   .option('--fail-on-warnings', 'Exit with error code on warnings', false)
   .option('--security-audit', 'Check for security best practices', false)
+  .option('-c, --config <path>', 'Path to config file with lint rule settings')
+  .option('--fix', 'Apply deterministic fixes to the spec file in place', false)
+  .option('--fix-dry-run', 'Show the fixes --fix would apply without writing them', false)
   .action(async function (specPath: any, options: any) {
     const startTime = Date.now();
     const isCiMode = options.ci || process.env.CI === 'true';
@@ -303,16 +408,14 @@ program
         process.exit(1);
       }
 
-      // Parse spec file (JSON or YAML)
+      // Parse spec file (JSON or YAML), resolving refs to other files
       let spec;
+      let specFiles = 1;
       try {
-        const content = fs.readFileSync(specPath, 'utf-8');
-        if (specPath.endsWith('.yaml') || specPath.endsWith('.yml')) {
-          const yaml = require('js-yaml');
-          spec = yaml.load(content);
-        } else {
-          spec = JSON.parse(content);
-        }
+        const { bundleSpec } = await import('./cli/bundle');
+        const bundled = bundleSpec(specPath);
+        spec = bundled.spec;
+        specFiles = bundled.files.length;
       } catch (error) {
         log.error(`✗ Failed to parse spec: ${(error as any).message}`);
         if (isCiMode && options.ciFormat === 'json') {
@@ -321,75 +424,90 @@ program
         process.exit(1);
       }
 
-      const errors: Array<{ path: string; message: string; severity: 'error' | 'warning' }> = [];
-      const warnings: Array<{ path: string; message: string; severity: 'error' | 'warning' }> = [];
-
-      // Basic structure validation
-      if (!spec.openapi) {
-        errors.push({ path: '/openapi', message: 'Missing required field: openapi', severity: 'error' });
-      } else if (!spec.openapi.startsWith('3.')) {
-        errors.push({ path: '/openapi', message: `Unsupported OpenAPI version: ${spec.openapi}. Expected 3.x`, severity: 'error' });
+      // Fixes edit the entry file's text, which cannot reach operations in other files
+      if ((options.fix || options.fixDryRun) && specFiles > 1) {
+        log.error(`✗ --fix does not support multi-file specs (${specFiles} files). Bundle first: express-swagger-auto bundle <spec> -o <file>`);
+        if (isCiMode && options.ciFormat === 'json') {
+          console.log(JSON.stringify({ success: false, error: '--fix does not support multi-file specs', files: specFiles }));
+        }
+        process.exit(1);
       }
 
-      if (!spec.info) {
-        errors.push({ path: '/info', message: 'Missing required field: info', severity: 'error' });
-      } else {
-        if (!spec.info.title) {
-          errors.push({ path: '/info/title', message: 'Missing required field: info.title', severity: 'error' });
-        }
-        if (!spec.info.version) {
-          errors.push({ path: '/info/version', message: 'Missing required field: info.version', severity: 'error' });
+      const upgraded = upgradeSwagger2(spec);
+      if (upgraded !== spec) {
+        if (options.fix || options.fixDryRun) {
+          log.error('✗ --fix does not support Swagger 2.0 files. Convert first: express-swagger-auto convert <spec> --to 3.0');
+          process.exit(1);
         }
+        log.info('→ Swagger 2.0 spec upgraded to OpenAPI 3.0 for validation\n');
+        spec = upgraded;
       }
 
-      if (!spec.paths) {
-        errors.push({ path: '/paths', message: 'Missing required field: paths', severity: 'error' });
+      // Load lint rule settings and custom rules from config
+      const { lintSpec, loadCustomRules, validateLintConfig, builtinRules } = await import('./cli/lint');
+      const configResult = await configLoader.load(options.config);
+      const lintConfig = configResult.config.lint || {};
+      const configDir = configResult.filepath ? path.dirname(configResult.filepath) : process.cwd();
+      const rules = [...builtinRules, ...loadCustomRules(lintConfig.plugins || [], configDir)];
+
+      const configErrors = validateLintConfig(lintConfig, rules);
+      if (configErrors.length > 0) {
+        for (const error of configErrors) {
+          log.error(`✗ Config error: ${error}`);
+        }
+        process.exit(1);
       }
 
-      // Strict mode validation using ajv
-      if (options.strict && errors.length === 0) {
+      const groups: Array<'recommended' | 'strict' | 'security'> = ['recommended'];
+      if (options.strict) {
         log.info('→ Running strict schema validation...\n');
-        
-        const Ajv = require('ajv');
-        const addFormats = require('ajv-formats');
-        
-        const ajv = new Ajv({ 
-          allErrors: true, 
-          strict: false,
-          validateFormats: true,
+        groups.push('strict');
+      }
+      if (options.securityAudit) {
+        log.info('→ Running security audit...\n');
+        groups.push('security');
+      }
+
+      // Apply deterministic fixes before reporting what is left
+      let fixes: Array<{ ruleId: string; path: string; message: string }> = [];
+      if (options.fix || options.fixDryRun) {
+        const { fixSpec, describeEdit } = await import('./cli/fix');
+        const format = /\.ya?ml$/.test(specPath) ? 'yaml' : 'json';
+        // Every rule with a fix runs unless configured off; --strict and --security-audit only widen the report
+        const fixResult = fixSpec(fs.readFileSync(specPath, 'utf-8'), format, {
+          groups: ['recommended', 'strict', 'security'],
+          config: lintConfig,
+          rules,
         });
-        addFormats(ajv);
+        const dryRun = !options.fix;
 
-        // Validate schema references
-        const schemaErrors = validateSchemaReferences(spec);
-        for (const error of schemaErrors) {
-          errors.push({ path: error.path, message: error.message, severity: 'error' });
+        if (!dryRun && fixResult.applied.length > 0) {
+          fs.writeFileSync(specPath, fixResult.content);
         }
+        spec = fixResult.spec;
+        fixes = fixResult.applied.map(f => ({ ruleId: f.ruleId, path: f.path, message: f.message }));
 
-        // Validate operations
-        const operationErrors = validateOperations(spec, options.strict);
-        for (const error of operationErrors) {
-          if (error.severity === 'error') {
-            errors.push(error);
-          } else {
-            warnings.push(error);
+        if (fixResult.applied.length === 0) {
+          log.info('🔧 No fixable issues found\n');
+        } else {
+          log.success(`🔧 ${dryRun ? 'Would apply' : 'Applied'} ${fixResult.applied.length} fix(es)${dryRun ? ' (dry run)' : ` to ${specPath}`}:\n`);
+          if (!isCiMode) {
+            for (const finding of fixResult.applied) {
+              const edits = finding.fix!.map(describeEdit).join(', ');
+              console.log(`  • ${finding.path}: ${finding.message} → ${edits}` + colors.dim(` (${finding.ruleId})`));
+            }
+            console.log('');
           }
         }
       }
 
-      // Security audit
-      if (options.securityAudit) {
-        log.info('→ Running security audit...\n');
-        
-        const securityIssues = runSecurityAudit(spec);
-        for (const issue of securityIssues) {
-          if (issue.severity === 'error') {
-            errors.push(issue);
-          } else {
-            warnings.push(issue);
-          }
-        }
+      const findings = lintSpec(spec, { groups, config: lintConfig, rules });
+      if ((options.fix || options.fixDryRun) && findings.length > 0) {
+        log.warn(`⚠ ${findings.length} issue(s) cannot be fixed automatically\n`);
       }
+      const errors = findings.filter(f => f.severity === 'error');
+      const warnings = findings.filter(f => f.severity === 'warning');
+      const infos = findings.filter(f => f.severity === 'info');
 
       // Count paths and operations
       let pathCount = 0;
@@ -415,16 +533,19 @@ program
 
       if (isCiMode) {
         // Convert to ValidationResult format for formatters
-        const allResults = [
-          ...errors.map(e => ({ ruleId: 'openapi-validation', severity: 'error' as const, message: e.message, path: e.path })),
-          ...warnings.map(w => ({ ruleId: 'openapi-validation', severity: 'warning' as const, message: w.message, path: w.path })),
-        ];
-        
         const formatterOptions = {
           specPath,
-          results: allResults,
-          stats: { errors: errors.length, warnings: warnings.length, infos: 0 },
+          results: findings.map(f => ({
+            ruleId: f.ruleId,
+            severity: f.severity,
+            message: f.message,
+            path: f.path,
+            suggestion: f.hint,
+          })),
+          stats: { errors: errors.length, warnings: warnings.length, infos: infos.length },
           duration,
+          rules: rules.filter(rule => findings.some(f => f.ruleId === rule.id)),
+          toolVersion: packageJson.version,
         };
 
         if (options.ciFormat === 'json') {
@@ -436,45 +557,14 @@ program
             version: spec.info?.version,
             paths: pathCount,
             operations: operationCount,
-            errors: errors.map(e => ({ path: e.path, message: e.message })),
-            warnings: warnings.map(w => ({ path: w.path, message: w.message })),
+            errors: errors.map(e => ({ ruleId: e.ruleId, path: e.path, message: e.message })),
+            warnings: warnings.map(w => ({ ruleId: w.ruleId, path: w.path, message: w.message })),
+            infos: infos.map(i => ({ ruleId: i.ruleId, path: i.path, message: i.message })),
+            ...(options.fix || options.fixDryRun ? { fixes, fixesWritten: !!options.fix } : {}),
             duration,
           };
           console.log(JSON.stringify(output, null, 2));
-        } else if (options.ciFormat === 'sarif') {
-          // SARIF format for code quality tools
-          const sarif = {
-            $schema: 'https://raw.githubusercontent.com/oasis-tcs/sarif-spec/master/Schemata/sarif-schema-2.1.0.json',
-            version: '2.1.0',
-            runs: [{
-              tool: {
-                driver: {
-                  name: 'express-swagger-auto',
-                  version: packageJson.version,
-                  rules: [
-                    { id: 'openapi-structure', shortDescription: { text: 'OpenAPI structure validation' } },
-                    { id: 'openapi-security', shortDescription: { text: 'Security best practices' } },
-                  ],
-                },
-              },
-              results: [
-                ...errors.map(e => ({
-                  ruleId: 'openapi-structure',
-                  level: 'error',
-                  message: { text: e.message },
-                  locations: [{ physicalLocation: { artifactLocation: { uri: specPath }, region: { startLine: 1 } } }],
-                })),
-                ...warnings.map(w => ({
-                  ruleId: 'openapi-structure',
-                  level: 'warning',
-                  message: { text: w.message },
-                  locations: [{ physicalLocation: { artifactLocation: { uri: specPath }, region: { startLine: 1 } } }],
-                })),
-              ],
-            }],
-          };
-          console.log(JSON.stringify(sarif, null, 2));
-        } else if (['checkstyle', 'junit', 'github-actions', 'stylish', 'codeclimate', 'markdown', 'gitlab'].includes(options.ciFormat)) {
+        } else if (['sarif', 'checkstyle', 'junit', 'github-actions', 'stylish', 'codeclimate', 'markdown', 'gitlab'].includes(options.ciFormat)) {
           // Use extended formatters
           const { getFormatter } = await import('./cli/formatters');
           const formatter = getFormatter(options.ciFormat);
@@ -492,7 +582,7 @@ program
         if (errors.length > 0) {
           log.error('✗ Validation errors:\n');
           for (const error of errors) {
-            console.log(colors.red(`  • ${error.path}: ${error.message}`));
+            console.log(colors.red(`  • ${error.path}: ${error.message}`) + colors.dim(` (${error.ruleId})`));
           }
           console.log('');
         }
@@ -500,7 +590,15 @@ program
         if (warnings.length > 0) {
           log.warn('⚠ Warnings:\n');
           for (const warning of warnings) {
-            console.log(colors.yellow(`  • ${warning.path}: ${warning.message}`));
+            console.log(colors.yellow(`  • ${warning.path}: ${warning.message}`) + colors.dim(` (${warning.ruleId})`));
+          }
+          console.log('');
+        }
+
+        if (infos.length > 0) {
+          log.info('ℹ Suggestions:\n');
+          for (const info of infos) {
+            console.log(colors.blue(`  • ${info.path}: ${info.message}`) + colors.dim(` (${info.ruleId})`));
           }
           console.log('');
         }
@@ -533,155 +631,6 @@ program
     }
   });
 
-/**
- * Validate schema references ($ref)
- */
-function validateSchemaReferences(spec: any): Array<{ path: string; message: string }> {
-  const errors: Array<{ path: string; message: string }> = [];
-  const definedSchemas = new Set<string>();
-
-  // Collect defined schemas
-  if (spec.components?.schemas) {
-    for (const schemaName of Object.keys(spec.components.schemas)) {
-      definedSchemas.add(`#/components/schemas/${schemaName}`);
-    }
-  }
-
-  // Helper to find $ref recursively
-  function findRefs(obj: any, path: string): void {
-    if (!obj || typeof obj !== 'object') return;
-
-    if (obj.$ref && typeof obj.$ref === 'string') {
-      if (obj.$ref.startsWith('#/') && !definedSchemas.has(obj.$ref)) {
-        // Check if it's a local reference
-        const refParts = obj.$ref.split('/');
-        let target = spec;
-        for (let i = 1; i < refParts.length && target; i++) {
-          target = target[refParts[i]];
-        }
-        if (!target) {
-          errors.push({ path, message: `Unresolved reference: ${obj.$ref}` });
-        }
-      }
-    }
-
-    for (const [key, value] of Object.entries(obj)) {
-      if (Array.isArray(value)) {
-        value.forEach((item, index) => findRefs(item, `${path}/${key}/${index}`));
-      } else if (typeof value === 'object' && value !== null) {
-        findRefs(value, `${path}/${key}`);
-      }
-    }
-  }
-
-  findRefs(spec, '');
-  return errors;
-}
-
-/**
- * Validate operations for best practices
- */
-function validateOperations(spec: any, strict: boolean): Array<{ path: string; message: string; severity: 'error' | 'warning' }> {
-  const issues: Array<{ path: string; message: string; severity: 'error' | 'warning' }> = [];
-  const methods = ['get', 'post', 'put', 'delete', 'patch', 'head', 'options'];
-  const operationIds = new Set<string>();
-
-  for (const [pathKey, pathItem] of Object.entries(spec.paths || {})) {
-    if (typeof pathItem !== 'object' || pathItem === null) continue;
-
-    for (const method of methods) {
-      const operation = (pathItem as any)[method];
-      if (!operation) continue;
-
-      const opPath = `/paths/${pathKey}/${method}`;
-
-      // Check for operationId
-      if (operation.operationId) {
-        if (operationIds.has(operation.operationId)) {
-          issues.push({ path: opPath, message: `Duplicate operationId: ${operation.operationId}`, severity: 'error' });
-        }
-        operationIds.add(operation.operationId);
-      } else if (strict) {
-        issues.push({ path: opPath, message: 'Missing operationId', severity: 'warning' });
-      }
-
-      // Check for responses
-      if (!operation.responses || Object.keys(operation.responses).length === 0) {
-        issues.push({ path: opPath, message: 'Operation must have at least one response', severity: 'error' });
-      }
-
-      // Strict mode checks
-      if (strict) {
-        if (!operation.summary && !operation.description) {
-          issues.push({ path: opPath, message: 'Missing summary or description', severity: 'warning' });
-        }
-
-        if (!operation.tags || operation.tags.length === 0) {
-          issues.push({ path: opPath, message: 'Missing tags', severity: 'warning' });
-        }
-      }
-    }
-  }
-
-  return issues;
-}
-
-/**
- * Run security audit on the spec
- */
-function runSecurityAudit(spec: any): Array<{ path: string; message: string; severity: 'error' | 'warning' }> {
-  const issues: Array<{ path: string; message: string; severity: 'error' | 'warning' }> = [];
-  const methods = ['get', 'post', 'put', 'delete', 'patch'];
-
-  // Check for security schemes
-  const hasSecuritySchemes = spec.components?.securitySchemes && Object.keys(spec.components.securitySchemes).length > 0;
-  const hasGlobalSecurity = spec.security && spec.security.length > 0;
-
-  if (!hasSecuritySchemes) {
-    issues.push({ path: '/components/securitySchemes', message: 'No security schemes defined', severity: 'warning' });
-  }
-
-  // Check operations for security
-  let unsecuredOperations = 0;
-  const sensitivePatterns = ['/users', '/admin', '/account', '/auth', '/profile', '/settings'];
-
-  for (const [pathKey, pathItem] of Object.entries(spec.paths || {})) {
-    if (typeof pathItem !== 'object' || pathItem === null) continue;
-
-    const isSensitivePath = sensitivePatterns.some(p => pathKey.toLowerCase().includes(p));
-
-    for (const method of methods) {
-      const operation = (pathItem as any)[method];
-      if (!operation) continue;
-
-      const hasSecurity = operation.security !== undefined 
-        ? operation.security.length > 0 
-        : hasGlobalSecurity;
-
-      if (!hasSecurity) {
-        unsecuredOperations++;
-        if (isSensitivePath && method !== 'get') {
-          issues.push({ 
-            path: `/paths/${pathKey}/${method}`, 
-            message: `Sensitive endpoint without security: ${method.toUpperCase()} ${pathKey}`, 
-            severity: 'warning' 
-          });
-        }
-      }
-    }
-  }
-
-  if (unsecuredOperations > 0 && !hasGlobalSecurity) {
-    issues.push({ 
-      path: '/security', 
-      message: `${unsecuredOperations} operation(s) have no security requirements`, 
-      severity: 'warning' 
-    });
-  }
-
-  return issues;
-}
-
 // ============================================================
 // SERVE COMMAND
 // ============================================================
@@ -711,11 +660,11 @@ program
         process.exit(1);
       }
 
-      // Parse spec file
+      // Parse spec file, resolving refs to other files
       let spec;
       try {
-        const content = fs.readFileSync(specPath, 'utf-8');
-        spec = JSON.parse(content);
+        const { loadSpec } = require('./cli/bundle');
+        spec = upgradeSwagger2(loadSpec(specPath));
       } catch (error) {
         console.error(colors.red(`✗ Failed to parse specification file:`));
         console.error(colors.yellow(`  ${(error as any).message}\n`));
@@ -801,6 +750,101 @@ program
     }
   });
 
+// ============================================================
+// MOCK COMMAND
+// ============================================================
+
+program
+  .command('mock')
+  .description('Serve mock responses for every operation in a spec')
+  .option('-s, --spec <path>', 'OpenAPI spec file (default: ./openapi.json)', './openapi.json')
+  .option('-p, --port <number>', 'Port number (default: 4010)', '4010')
+  .option('--host <address>', 'Host address (default: localhost)', 'localhost')
+  .option('--seed <number>', 'Seed for deterministic generated responses')
+  .option('--base-path <path>', 'Base path the API is served under (default: path of the first server URL)')
+  .option('--no-validate', 'Answer requests that do not match the spec')
+  .option('--no-cors', 'Do not send CORS headers')
+  .action(async function (options: any) {
+    try {
+      const port = parseInt(options.port, 10);
+      const host = options.host;
+
+      if (isNaN(port) || port < 1 || port > 65535) {
+        console.error(colors.red(`✗ Invalid port number: ${options.port}`));
+        console.error(colors.yellow('Port must be between 1 and 65535\n'));
+        process.exit(1);
+      }
+
+      const seed = options.seed !== undefined ? parseInt(options.seed, 10) : undefined;
+      if (seed !== undefined && isNaN(seed)) {
+        console.error(colors.red(`✗ Invalid seed: ${options.seed}`));
+        process.exit(1);
+      }
+
+      const spec = upgradeSwagger2(readSpecFile(options.spec));
+      if (!spec || !spec.openapi || !spec.paths) {
+        console.error(colors.red(`✗ Invalid OpenAPI specification`));
+        console.error(colors.yellow('Spec must contain "openapi" and "paths" fields\n'));
+        process.exit(1);
+      }
+
+      const { createMockApp } = await import('./cli/mock');
+      const app = createMockApp(spec, {
+        seed,
+        validate: options.validate,
+        cors: options.cors,
+        basePath: options.basePath,
+        logger: (entry) => {
+          const color = entry.status >= 500 ? colors.red : entry.status >= 400 ? colors.yellow : colors.green;
+          const source = entry.source ? colors.dim(` (${entry.source})`) : '';
+          console.log(`${color(String(entry.status))} ${entry.method} ${entry.path}${source}`);
+        },
+      });
+
+      const methods = ['get', 'post', 'put', 'delete', 'patch', 'head', 'options'];
+      const operationCount = Object.values<any>(spec.paths).reduce(
+        (count: number, pathItem: any) => count + Object.keys(pathItem || {}).filter((key) => methods.includes(key)).length,
+        0
+      );
+
+      const server = app.listen(port, host, () => {
+        console.log(colors.blue('🎭 Mock server started\n'));
+        console.log(colors.green(`✓ Mocking ${operationCount} operation(s) from ${options.spec}`));
+        console.log(colors.green(`✓ Listening on ${colors.blue(`http://${host}:${port}`)}`));
+        if (seed !== undefined) console.log(colors.green(`✓ Seed: ${seed}`));
+        if (options.validate === false) console.log(colors.yellow('⚠ Request validation disabled'));
+        console.log(colors.dim('\nUse "Prefer: code=404" or "Prefer: example=<name>" to pick a response'));
+        console.log(colors.yellow('Press Ctrl+C to stop server\n'));
+      });
+
+      process.on('SIGINT', () => {
+        console.log('\n' + colors.yellow('👋 Shutting down server...\n'));
+        server.close(() => {
+          console.log(colors.green('✓ Server stopped\n'));
+          process.exit(0);
+        });
+
+        setTimeout(() => {
+          console.error(colors.red('✗ Server did not shut down gracefully, forcing exit\n'));
+          process.exit(1);
+        }, 5000);
+      });
+
+      server.on('error', (error: any) => {
+        if (error.code === 'EADDRINUSE') {
+          console.error(colors.red(`✗ Port ${port} is already in use`));
+          console.error(colors.yellow(`Try using a different port: npx express-swagger-auto mock --port ${port + 1}\n`));
+        } else {
+          console.error(colors.red(`✗ Server error: ${error.message}\n`));
+        }
+        process.exit(1);
+      });
+    } catch (error) {
+      console.error(colors.red(`✗ Error: ${(error as any).message}`));
+      process.exit(1);
+    }
+  });
+
 // ============================================================
 // MIGRATE COMMAND
 // ============================================================
@@ -808,25 +852,116 @@ program
 program
   .command('migrate <source>')
   .description('Migrate from other OpenAPI tools')
-  .option('--config <path>', 'Config file path')
-  .action(function (source: any) {
-    try {
-      console.log(colors.blue('🔄 Starting migration tool...\n'));
+  .option('--config <path>', 'Config file of the tool being migrated from')
+  .option('-s, --src <patterns...>', 'Source file globs to migrate')
+  .option('--dry-run', 'Print a diff of the changes without writing files', false)
+  .option('--config-output <path>', 'Path for the generated config file', '.swagger-autorc')
+  .option('--force', 'Overwrite an existing config file', false)
+  .option('--ci', 'CI mode with structured output', false)
+  .action(async function (source: any, options: any) {
+    const isCiMode = options.ci || process.env.CI === 'true';
 
-      const supportedSources = ['swagger-jsdoc', 'tsoa', 'express-oas-generator'];
-      if (!supportedSources.includes(source)) {
+    try {
+      const {
+        MIGRATION_SOURCES,
+        migrateSource,
+        migrateConfig,
+        getDefaultSourcePatterns,
+        createUnifiedDiff,
+        formatMigrationReport,
+      } = await import('./cli/migrate');
+
+      if (!MIGRATION_SOURCES.includes(source)) {
         console.error(colors.red(`✗ Unsupported source: ${source}`));
-        console.error(colors.yellow(`   Supported: ${supportedSources.join(', ')}\n`));
+        console.error(colors.yellow(`   Supported: ${MIGRATION_SOURCES.join(', ')}\n`));
         process.exit(1);
       }
 
-      console.log(colors.yellow('⚠️  Migration command implementation coming in Phase 4\n'));
-      console.log(colors.yellow(`   To migrate from ${source}:`));
-      console.log(colors.yellow(`   1. Review your existing config`));
-      console.log(colors.yellow(`   2. Map decorators/JSDoc to express-swagger-auto format`));
-      console.log(colors.yellow(`   3. Run: express-swagger-auto generate\n`));
+      if (!isCiMode) {
+        console.log(colors.blue('🔄 Starting migration tool...\n'));
+      }
+
+      // Load the legacy tool config (tsoa.json is picked up automatically)
+      const legacyConfigPath = options.config || (source === 'tsoa' && fs.existsSync('tsoa.json') ? 'tsoa.json' : null);
+      let legacyConfig: Record<string, any> = {};
+      if (legacyConfigPath) {
+        const resolvedConfig = path.resolve(legacyConfigPath);
+        if (!fs.existsSync(resolvedConfig)) {
+          throw new Error(`Config file not found: ${resolvedConfig}`);
+        }
+        if (/\.ya?ml$/.test(resolvedConfig)) {
+          const yaml = require('js-yaml');
+          legacyConfig = yaml.load(fs.readFileSync(resolvedConfig, 'utf-8')) || {};
+        } else if (resolvedConfig.endsWith('.json')) {
+          legacyConfig = JSON.parse(fs.readFileSync(resolvedConfig, 'utf-8'));
+        } else {
+          const loaded = require(resolvedConfig);
+          legacyConfig = loaded.default || loaded;
+        }
+      }
+
+      const { globSync } = require('glob');
+      const patterns = options.src || getDefaultSourcePatterns(source, legacyConfig);
+      const files: string[] = Array.from(new Set<string>(patterns.flatMap((pattern: string) =>
+        globSync(pattern, { ignore: ['**/node_modules/**', '**/dist/**', '**/build/**'], nodir: true })
+      ))).sort();
+
+      const migrations = files.map((file) => migrateSource(source, fs.readFileSync(file, 'utf-8'), file));
+      const changed = migrations.filter((m) => m.changed);
+
+      for (const migration of changed) {
+        if (options.dryRun) {
+          if (!isCiMode) {
+            console.log(createUnifiedDiff(migration.file, migration.original, migration.migrated));
+            console.log('');
+          }
+        } else {
+          fs.writeFileSync(migration.file, migration.migrated, 'utf-8');
+        }
+      }
+
+      // Options found in source (express-oas-generator) act as its config
+      for (const migration of migrations) {
+        legacyConfig = { ...migration.legacyOptions, ...legacyConfig };
+      }
+
+      const configMigration = migrateConfig(source, legacyConfig, legacyConfigPath || options.configOutput);
+      const configOutput = path.resolve(options.configOutput);
+      const writeConfig = !options.dryRun && (options.force || !fs.existsSync(configOutput));
+      if (writeConfig) {
+        fs.writeFileSync(configOutput, JSON.stringify(configMigration.config, null, 2) + '\n', 'utf-8');
+      } else if (options.dryRun && !isCiMode) {
+        console.log(colors.dim(`# ${options.configOutput}`));
+        console.log(JSON.stringify(configMigration.config, null, 2));
+        console.log('');
+      }
+
+      const report = {
+        source,
+        dryRun: options.dryRun,
+        files: migrations,
+        config: { ...configMigration, path: options.configOutput, written: writeConfig },
+      };
+
+      if (isCiMode) {
+        console.log(formatMigrationReport(report, 'json'));
+      } else {
+        console.log(formatMigrationReport(report));
+        console.log('');
+        if (changed.length === 0) {
+          console.log(colors.yellow(`⚠ No ${source} constructs found in: ${patterns.join(', ')}\n`));
+        } else if (options.dryRun) {
+          console.log(colors.dim('Run without --dry-run to apply changes\n'));
+        } else {
+          console.log(colors.green('✓ Migration complete! Run: express-swagger-auto generate\n'));
+        }
+      }
     } catch (error) {
-      console.error(colors.red(`✗ Error: ${(error as any).message}`));
+      if (isCiMode) {
+        console.log(JSON.stringify({ success: false, error: (error as any).message }));
+      } else {
+        console.error(colors.red(`✗ Error: ${(error as any).message}`));
+      }
       process.exit(1);
     }
   });
@@ -842,7 +977,6 @@ program
   .option('-f, --format <format>', 'Output format (text|json|markdown)', 'text')
   .option('--ci', 'CI mode with structured output', false)
   .action(async function (specPath: string, options: any) {
-    const yaml = await import('js-yaml');
     const { calculateStats, formatStatsText, formatStatsMarkdown } = await import('./cli/stats');
     
     const isCiMode = options.ci || process.env.CI === 'true';
@@ -863,15 +997,9 @@ program
         process.exit(1);
       }
       
-      // Read and parse spec
-      const content = fs.readFileSync(resolvedPath, 'utf-8');
-      let spec: any;
-      
-      if (resolvedPath.endsWith('.yaml') || resolvedPath.endsWith('.yml')) {
-        spec = yaml.load(content);
-      } else {
-        spec = JSON.parse(content);
-      }
+      // Read and parse spec, resolving refs to other files
+      const { loadSpec } = await import('./cli/bundle');
+      const spec = upgradeSwagger2(loadSpec(resolvedPath));
       
       // Calculate stats
       const stats = calculateStats(spec);
@@ -899,24 +1027,442 @@ program
   });
 
 // ============================================================
-// COMPLETION COMMAND
+// DIFF COMMAND
 // ============================================================
 
 program
-  .command('completion')
-  .description('Generate shell completion script')
-  .argument('[shell]', 'Shell type (bash|zsh|fish|powershell)', 'bash')
-  .action(async function (shell: string) {
-    const { getCompletionScript } = await import('./cli/completion');
-    
-    const supportedShells = ['bash', 'zsh', 'fish', 'powershell'];
-    
-    if (!supportedShells.includes(shell)) {
-      console.error(colors.red(`✗ Unsupported shell: ${shell}`));
-      console.error(colors.yellow(`   Supported shells: ${supportedShells.join(', ')}\n`));
-      process.exit(1);
-    }
-    
+  .command('diff <oldSpec> <newSpec>')
+  .description('Compare two OpenAPI specs and classify breaking changes')
+  .option('-f, --format <format>', 'Output format (text|json|sarif|junit|github-actions|markdown|gitlab|checkstyle|codeclimate|stylish)', 'text')
+  .option('--fail-on-breaking', 'Exit with error code when breaking changes are found', false)
+  .option('--ci', 'CI mode: no colors, JSON output', false)
+  .action(async function (oldSpecPath: string, newSpecPath: string, options: any) {
+    const startTime = Date.now();
+    const isCiMode = options.ci || process.env.CI === 'true';
+    const format = isCiMode && options.format === 'text' ? 'json' : options.format;
+
+    try {
+      const { diffSpecs, toFormatterOptions, formatDiffText } = await import('./cli/diff');
+
+      const oldSpec = readSpecFile(oldSpecPath);
+      const newSpec = readSpecFile(newSpecPath);
+      const result = diffSpecs(oldSpec, newSpec);
+      const duration = Date.now() - startTime;
+      const failed = options.failOnBreaking && result.summary.breaking > 0;
+
+      if (format === 'json') {
+        console.log(JSON.stringify({ success: !failed, oldSpec: oldSpecPath, newSpec: newSpecPath, ...result, duration }, null, 2));
+      } else if (format === 'text') {
+        const output = formatDiffText(result, oldSpecPath, newSpecPath);
+        console.log(
+          output
+            .replace(/^(Breaking changes.*)$/m, colors.red('$1'))
+            .replace(/^(Non-breaking changes.*)$/m, colors.yellow('$1'))
+            .replace(/^(Informational.*)$/m, colors.blue('$1'))
+        );
+        if (failed) {
+          console.error(colors.red(`\n✗ Found ${result.summary.breaking} breaking change(s)`));
+        }
+      } else {
+        const { getFormatter } = await import('./cli/formatters');
+        const formatter = getFormatter(format);
+        console.log(formatter(toFormatterOptions(result, newSpecPath, duration)));
+      }
+
+      process.exit(failed ? 1 : 0);
+    } catch (error) {
+      if (isCiMode) {
+        console.log(JSON.stringify({ success: false, error: (error as any).message }));
+      } else {
+        console.error(colors.red(`✗ Error: ${(error as any).message}`));
+      }
+      process.exit(1);
+    }
+  });
+
+/**
+ * Read a JSON or YAML spec file, throwing a readable error when missing or malformed
+ */
+function readSpecFile(specPath: string): any {
+  const resolvedPath = path.resolve(specPath);
+  if (!fs.existsSync(resolvedPath)) {
+    throw new Error(`Spec file not found: ${resolvedPath}`);
+  }
+
+  // Refs to other files are resolved, so multi-file specs read like single files
+  const { loadSpec } = require('./cli/bundle');
+  try {
+    return loadSpec(resolvedPath);
+  } catch (error) {
+    const name = (error as any).name;
+    if (name === 'SyntaxError' || name === 'YAMLException') {
+      throw new Error(`Failed to parse ${specPath}: ${(error as any).message}`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Serialize a spec as YAML when the output path says so, JSON otherwise
+ */
+function serializeSpec(spec: any, outputPath?: string): string {
+  if (outputPath && (outputPath.endsWith('.yaml') || outputPath.endsWith('.yml'))) {
+    const yaml = require('js-yaml');
+    return yaml.dump(spec, { indent: 2, lineWidth: 120, noRefs: true });
+  }
+  return JSON.stringify(spec, null, 2) + '\n';
+}
+
+/**
+ * Upgrade Swagger 2.0 documents to OpenAPI 3.0 so commands only deal with 3.x specs
+ */
+function upgradeSwagger2(spec: any): any {
+  const { Swagger2Converter } = require('./core/Swagger2Converter');
+  return Swagger2Converter.isSwagger2(spec) ? new Swagger2Converter().fromSwagger2(spec).spec : spec;
+}
+
+// ============================================================
+// CONVERT COMMAND
+// ============================================================
+
+program
+  .command('convert <specPath>')
+  .description('Convert a spec between Swagger 2.0, OpenAPI 3.0 and OpenAPI 3.1')
+  .requiredOption('--to <version>', 'Target version (2.0|3.0|3.1)')
+  .option('-o, --output <path>', 'Output path (default: print to stdout)')
+  .option('--ci', 'CI mode: no colors, JSON output', false)
+  .action(async function (specPath: string, options: any) {
+    const startTime = Date.now();
+    const isCiMode = options.ci || process.env.CI === 'true';
+    const target = String(options.to).split('.').slice(0, 2).join('.');
+
+    try {
+      const { SpecVersionConverter } = await import('./core/SpecVersionConverter');
+      const { Swagger2Converter } = await import('./core/Swagger2Converter');
+
+      if (target !== '2.0' && target !== '3.0' && target !== '3.1') {
+        throw new Error(`Unsupported target version: ${options.to}. Must be 2.0, 3.0 or 3.1`);
+      }
+
+      const spec = readSpecFile(specPath);
+      const isSwagger2 = Swagger2Converter.isSwagger2(spec);
+      if (!isSwagger2 && !SpecVersionConverter.detectVersion(spec)) {
+        throw new Error(`Not an OpenAPI 3.x or Swagger 2.0 spec: ${spec.swagger ? `Swagger ${spec.swagger}` : 'missing "openapi" field'}`);
+      }
+
+      const warnings: string[] = [];
+      let converted: any = spec;
+      if (isSwagger2 && target !== '2.0') {
+        const imported = new Swagger2Converter().fromSwagger2(spec);
+        converted = imported.spec;
+        warnings.push(...imported.warnings);
+      }
+      if (target === '2.0' && !isSwagger2) {
+        const exported = new Swagger2Converter().toSwagger2(converted);
+        converted = exported.spec;
+        warnings.push(...exported.warnings);
+      } else if (target !== '2.0') {
+        const result = new SpecVersionConverter().convert(converted, target);
+        converted = result.spec;
+        warnings.push(...result.warnings);
+      }
+
+      const outputPath = options.output || specPath;
+      let content: string;
+      if (outputPath.endsWith('.yaml') || outputPath.endsWith('.yml')) {
+        const yaml = require('js-yaml');
+        content = yaml.dump(converted, { indent: 2, lineWidth: 120, noRefs: true });
+      } else {
+        content = JSON.stringify(converted, null, 2) + '\n';
+      }
+
+      if (options.output) {
+        fs.mkdirSync(path.dirname(path.resolve(options.output)), { recursive: true });
+        fs.writeFileSync(options.output, content);
+      }
+
+      if (isCiMode) {
+        console.log(JSON.stringify({
+          success: true,
+          from: spec.openapi || '2.0',
+          to: converted.openapi || '2.0',
+          output: options.output || null,
+          warnings,
+          ...(options.output ? {} : { spec: converted }),
+          duration: Date.now() - startTime,
+        }, null, 2));
+        return;
+      }
+
+      // Without --output the converted spec goes to stdout, so keep status messages on stderr
+      if (!options.output) process.stdout.write(content);
+      const status = options.output ? console.log : console.error;
+      for (const warning of warnings) {
+        status(colors.yellow(`⚠ ${warning}`));
+      }
+      status(colors.green(`✓ Converted ${specLabel(spec)} → ${specLabel(converted)}${options.output ? `: ${options.output}` : ''}`));
+    } catch (error) {
+      if (isCiMode) {
+        console.log(JSON.stringify({ success: false, error: (error as any).message }));
+      } else {
+        console.error(colors.red(`✗ Error: ${(error as any).message}`));
+      }
+      process.exit(1);
+    }
+  });
+
+function specLabel(spec: any): string {
+  return spec.swagger !== undefined ? 'Swagger 2.0' : `OpenAPI ${spec.openapi}`;
+}
+
+// ============================================================
+// MERGE COMMAND
+// ============================================================
+
+program
+  .command('merge [specs...]')
+  .description('Merge the specs of several services into one spec (spec[=prefix] or merge.services in the config)')
+  .option('-c, --config <path>', 'Path to config file listing the services')
+  .option('-o, --output <path>', 'Output path (default: merge.output from the config, else stdout)')
+  .option('--title <title>', 'Title of the merged spec')
+  .option('--server <urls...>', 'Top-level server URLs of the merged spec')
+  .option('--fail-on-conflict', 'Exit with error code when conflicts are found', false)
+  .option('--ci', 'CI mode: no colors, JSON output', false)
+  .action(async function (specArgs: string[], options: any) {
+    const startTime = Date.now();
+    const isCiMode = options.ci || process.env.CI === 'true';
+
+    try {
+      const { mergeSpecs, parseServiceArgument, formatMergeConflicts } = await import('./cli/merge');
+
+      const configResult = await configLoader.load(options.config);
+      const mergeConfig = configResult.config.merge || {};
+      const validation = configLoader.validate(configResult.config);
+      if (!validation.valid) {
+        throw new Error(validation.errors.join('; '));
+      }
+
+      // Spec arguments replace the services listed in the config file
+      const configDir = configResult.filepath ? path.dirname(configResult.filepath) : process.cwd();
+      const entries = specArgs.length > 0
+        ? specArgs.map((arg) => parseServiceArgument(arg))
+        : (mergeConfig.services || []).map((service: any) => ({ ...service, spec: path.resolve(configDir, service.spec) }));
+      if (entries.length === 0) {
+        throw new Error('No specs to merge: pass spec files or list merge.services in the config file');
+      }
+
+      const services = entries.map((entry: any) => {
+        const spec = upgradeSwagger2(readSpecFile(entry.spec));
+        return {
+          name: entry.name || spec.info?.title || path.basename(entry.spec, path.extname(entry.spec)),
+          spec,
+          prefix: entry.prefix,
+          servers: entry.servers,
+        };
+      });
+
+      const result = mergeSpecs(services, {
+        info: { ...mergeConfig.info, ...(options.title ? { title: options.title } : {}) },
+        servers: options.server ? options.server.map((url: string) => ({ url })) : mergeConfig.servers,
+      });
+
+      const output = options.output || mergeConfig.output;
+      const content = serializeSpec(result.spec, output);
+
+      if (output) {
+        fs.mkdirSync(path.dirname(path.resolve(output)), { recursive: true });
+        fs.writeFileSync(output, content);
+      }
+
+      const failed = options.failOnConflict && result.conflicts.length > 0;
+
+      if (isCiMode) {
+        console.log(JSON.stringify({
+          success: !failed,
+          output: output || null,
+          services: services.map((service: any) => ({ name: service.name, prefix: service.prefix || null })),
+          conflicts: result.conflicts,
+          summary: result.summary,
+          ...(output ? {} : { spec: result.spec }),
+          duration: Date.now() - startTime,
+        }, null, 2));
+        process.exit(failed ? 1 : 0);
+      }
+
+      // Without an output path the merged spec goes to stdout, so keep status messages on stderr
+      if (!output) process.stdout.write(content);
+      const status = output ? console.log : console.error;
+      for (const line of formatMergeConflicts(result.conflicts)) {
+        status(colors.yellow(`⚠ ${line}`));
+      }
+      status(colors.green(
+        `✓ Merged ${result.summary.services} specs: ${result.summary.paths} paths, ${result.summary.operations} operations, ` +
+        `${result.summary.components} components${output ? `: ${output}` : ''}`
+      ));
+
+      if (failed) {
+        console.error(colors.red(`✗ Found ${result.conflicts.length} conflict(s)`));
+        process.exit(1);
+      }
+    } catch (error) {
+      if (isCiMode) {
+        console.log(JSON.stringify({ success: false, error: (error as any).message }));
+      } else {
+        console.error(colors.red(`✗ Error: ${(error as any).message}`));
+      }
+      process.exit(1);
+    }
+  });
+
+// ============================================================
+// BUNDLE / DEREFERENCE / SPLIT COMMANDS
+// ============================================================
+
+program
+  .command('bundle <specPath>')
+  .description('Resolve refs to other files into one spec with internal refs')
+  .option('-o, --output <path>', 'Output path (default: print to stdout)')
+  .option('--dereference', 'Also inline every internal ref', false)
+  .option('--ci', 'CI mode: no colors, JSON output', false)
+  .action(async function (specPath: string, options: any) {
+    await writeResolvedSpec('bundle', specPath, options);
+  });
+
+program
+  .command('dereference <specPath>')
+  .description('Inline every ref, including refs to other files; circular refs are kept')
+  .option('-o, --output <path>', 'Output path (default: print to stdout)')
+  .option('--ci', 'CI mode: no colors, JSON output', false)
+  .action(async function (specPath: string, options: any) {
+    await writeResolvedSpec('dereference', specPath, { ...options, dereference: true });
+  });
+
+/**
+ * Bundle a multi-file spec, optionally dereference it, and write or print the result
+ */
+async function writeResolvedSpec(command: string, specPath: string, options: any): Promise<void> {
+  const startTime = Date.now();
+  const isCiMode = options.ci || process.env.CI === 'true';
+
+  try {
+    const { bundleSpec, dereferenceSpec } = await import('./cli/bundle');
+
+    if (!fs.existsSync(path.resolve(specPath))) {
+      throw new Error(`Spec file not found: ${path.resolve(specPath)}`);
+    }
+
+    const bundled = bundleSpec(specPath);
+    const dereferenced = options.dereference ? dereferenceSpec(bundled.spec) : undefined;
+    const spec = dereferenced ? dereferenced.spec : bundled.spec;
+    const warnings = [
+      ...bundled.warnings,
+      ...(dereferenced?.circular || []).map((ref) => `Circular $ref kept: ${ref}`),
+    ];
+
+    const content = serializeSpec(spec, options.output);
+    if (options.output) {
+      fs.mkdirSync(path.dirname(path.resolve(options.output)), { recursive: true });
+      fs.writeFileSync(options.output, content);
+    }
+
+    if (isCiMode) {
+      console.log(JSON.stringify({
+        success: true,
+        command,
+        files: bundled.files.map((file) => path.relative(process.cwd(), file)),
+        output: options.output || null,
+        warnings,
+        ...(options.output ? {} : { spec }),
+        duration: Date.now() - startTime,
+      }, null, 2));
+      return;
+    }
+
+    // Without --output the spec goes to stdout, so keep status messages on stderr
+    if (!options.output) process.stdout.write(content);
+    const status = options.output ? console.log : console.error;
+    for (const warning of warnings) {
+      status(colors.yellow(`⚠ ${warning}`));
+    }
+    const verb = command === 'dereference' || options.dereference ? 'Dereferenced' : 'Bundled';
+    status(colors.green(`✓ ${verb} ${bundled.files.length} file(s)${options.output ? `: ${options.output}` : ''}`));
+  } catch (error) {
+    if (isCiMode) {
+      console.log(JSON.stringify({ success: false, error: (error as any).message }));
+    } else {
+      console.error(colors.red(`✗ Error: ${(error as any).message}`));
+    }
+    process.exit(1);
+  }
+}
+
+program
+  .command('split <specPath>')
+  .description('Split a spec into paths/ and components/ files with relative refs')
+  .requiredOption('-o, --output <dir>', 'Output directory')
+  .option('-f, --format <format>', 'File format (yaml|json)', 'yaml')
+  .option('--ci', 'CI mode: no colors, JSON output', false)
+  .action(async function (specPath: string, options: any) {
+    const startTime = Date.now();
+    const isCiMode = options.ci || process.env.CI === 'true';
+
+    try {
+      const { splitSpec } = await import('./cli/bundle');
+
+      if (options.format !== 'yaml' && options.format !== 'json') {
+        throw new Error(`Unsupported format: ${options.format}. Must be yaml or json`);
+      }
+
+      const spec = readSpecFile(specPath);
+      const { root, files } = splitSpec(spec, { format: options.format });
+      const outputDir = path.resolve(options.output);
+
+      for (const [file, content] of Object.entries(files)) {
+        const target = path.join(outputDir, file);
+        fs.mkdirSync(path.dirname(target), { recursive: true });
+        fs.writeFileSync(target, serializeSpec(content, target));
+      }
+
+      if (isCiMode) {
+        console.log(JSON.stringify({
+          success: true,
+          root: path.join(options.output, root),
+          files: Object.keys(files).sort(),
+          duration: Date.now() - startTime,
+        }, null, 2));
+        return;
+      }
+
+      console.log(colors.green(`✓ Split into ${Object.keys(files).length} files: ${path.join(options.output, root)}`));
+    } catch (error) {
+      if (isCiMode) {
+        console.log(JSON.stringify({ success: false, error: (error as any).message }));
+      } else {
+        console.error(colors.red(`✗ Error: ${(error as any).message}`));
+      }
+      process.exit(1);
+    }
+  });
+
+// ============================================================
+// COMPLETION COMMAND
+// ============================================================
+
+program
+  .command('completion')
+  .description('Generate shell completion script')
+  .argument('[shell]', 'Shell type (bash|zsh|fish|powershell)', 'bash')
+  .action(async function (shell: string) {
+    const { getCompletionScript } = await import('./cli/completion');
+    
+    const supportedShells = ['bash', 'zsh', 'fish', 'powershell'];
+    
+    if (!supportedShells.includes(shell)) {
+      console.error(colors.red(`✗ Unsupported shell: ${shell}`));
+      console.error(colors.yellow(`   Supported shells: ${supportedShells.join(', ')}\n`));
+      process.exit(1);
+    }
+    
     try {
       const script = getCompletionScript(program, shell as 'bash' | 'zsh' | 'fish' | 'powershell');
       console.log(script);
@@ -967,7 +1513,6 @@ program
   .option('--group-by <strategy>', 'Grouping strategy (tags|paths|none)', 'tags')
   .option('--ci', 'CI mode with structured output', false)
   .action(async function (specPath: string, options: any) {
-    const yaml = await import('js-yaml');
     const {
       exportSpec,
       exportSpecWithEnv,
@@ -1011,15 +1556,9 @@ program
         process.exit(1);
       }
       
-      // Read and parse spec
-      const content = fs.readFileSync(resolvedPath, 'utf-8');
-      let spec: any;
-      
-      if (resolvedPath.endsWith('.yaml') || resolvedPath.endsWith('.yml')) {
-        spec = yaml.load(content);
-      } else {
-        spec = JSON.parse(content);
-      }
+      // Read and parse spec, resolving refs to other files
+      const { loadSpec } = await import('./cli/bundle');
+      const spec = upgradeSwagger2(loadSpec(resolvedPath));
 
       // Parse variables
       const variables: Record<string, string> = {};
@@ -1101,6 +1640,104 @@ program
     }
   });
 
+// ============================================================
+// CODEGEN COMMAND
+// ============================================================
+
+program
+  .command('codegen')
+  .description('Generate a typed TypeScript client or Zod/Joi/Yup validators from an OpenAPI spec')
+  .argument('[specPath]', 'Path to OpenAPI spec file', './openapi.json')
+  .option('-t, --target <target>', 'Output flavour (typescript-fetch|typescript-axios|zod|joi|yup)', 'typescript-fetch')
+  .option('-o, --output <path>', 'Output file path (default: ./api-client.ts, or ./schemas.ts for validators)')
+  .option('-n, --name <name>', 'Client class name (default: derived from info.title)')
+  .option('--ci', 'CI mode with structured output', false)
+  .action(async function (specPath: string, options: any) {
+    const { generateClient, resolveCodegenTarget } = await import('./cli/codegen');
+    const { generateValidators, resolveValidatorLibrary } = await import('./cli/schemagen');
+    const isCiMode = options.ci || process.env.CI === 'true';
+
+    try {
+      const target = resolveCodegenTarget(options.target);
+      const library = resolveValidatorLibrary(options.target);
+      if (!target && !library) {
+        throw new Error(`Unsupported target: ${options.target}. Supported: typescript-fetch, typescript-axios, zod, joi, yup`);
+      }
+
+      const spec = upgradeSwagger2(readSpecFile(specPath));
+      const specName = path.basename(specPath);
+
+      if (library) {
+        const validators = generateValidators(spec, { library, specName });
+
+        const outputPath = path.resolve(options.output || './schemas.ts');
+        fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+        fs.writeFileSync(outputPath, validators.code, 'utf-8');
+
+        if (isCiMode) {
+          console.log(JSON.stringify({
+            success: true,
+            output: outputPath,
+            target: library,
+            schemas: validators.schemas,
+            operations: validators.operations,
+            warnings: validators.warnings,
+          }));
+        } else {
+          console.log(colors.green(`✓ Generated ${library} validators\n`));
+          console.log(`  Schemas:    ${validators.schemas}`);
+          console.log(`  Requests:   ${validators.operations}`);
+          console.log(`  Output:     ${outputPath}\n`);
+          for (const warning of validators.warnings) {
+            console.log(colors.yellow(`  ⚠ ${warning}`));
+          }
+          console.log(colors.dim(`The module imports ${library}; install it in the consuming project\n`));
+        }
+        return;
+      }
+
+      const client = generateClient(spec, {
+        target: target || 'typescript-fetch',
+        clientName: options.name,
+        specName,
+      });
+
+      const outputPath = path.resolve(options.output || './api-client.ts');
+      fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+      fs.writeFileSync(outputPath, client.code, 'utf-8');
+
+      if (isCiMode) {
+        console.log(JSON.stringify({
+          success: true,
+          output: outputPath,
+          target,
+          client: client.clientName,
+          schemas: client.schemas,
+          operations: client.operations,
+          warnings: client.warnings,
+        }));
+      } else {
+        console.log(colors.green(`✓ Generated ${client.clientName} (${target})\n`));
+        console.log(`  Schemas:    ${client.schemas}`);
+        console.log(`  Operations: ${client.operations}`);
+        console.log(`  Output:     ${outputPath}\n`);
+        for (const warning of client.warnings) {
+          console.log(colors.yellow(`  ⚠ ${warning}`));
+        }
+        if (target === 'typescript-axios') {
+          console.log(colors.dim('The client imports axios; install it in the consuming project\n'));
+        }
+      }
+    } catch (error) {
+      if (isCiMode) {
+        console.log(JSON.stringify({ success: false, error: (error as any).message }));
+      } else {
+        console.error(colors.red(`✗ Error: ${(error as any).message}`));
+      }
+      process.exit(1);
+    }
+  });
+
 // ============================================================
 // EXAMPLES COMMAND
 // ============================================================
@@ -1231,6 +1868,228 @@ program
     }
   });
 
+// ============================================================
+// GENERATE-TESTS COMMAND
+// ============================================================
+
+program
+  .command('generate-tests')
+  .description('Generate a supertest contract test suite for every operation in a spec')
+  .option('-c, --config <path>', 'Path to config file')
+  .option('-s, --spec <path>', 'OpenAPI spec file (default: output from config, or ./openapi.json)')
+  .option('-i, --input <path>', 'Express app entry point (default: input from config, or ./src/app.ts)')
+  .option('-o, --output <path>', 'Output test file', './test/contract.test.ts')
+  .option('-f, --framework <framework>', 'Test framework (vitest|jest)', 'vitest')
+  .option('--base-path <path>', 'Base path the API is mounted under (default: path of the first server URL)')
+  .option('--seed <number>', 'Seed for generated request values', '1')
+  .option('--ci', 'CI mode with structured output', false)
+  .action(async function (options: any) {
+    const isCiMode = options.ci || process.env.CI === 'true';
+
+    try {
+      if (options.framework !== 'vitest' && options.framework !== 'jest') {
+        throw new Error(`Unsupported test framework: ${options.framework}. Must be vitest or jest`);
+      }
+
+      const configResult = await configLoader.load(options.config);
+      const specPath = options.spec || configResult.config.output || DEFAULT_CONFIG.output;
+      const appPath = options.input || configResult.config.input || DEFAULT_CONFIG.input;
+      const outputPath = path.resolve(options.output);
+
+      if (!fs.existsSync(path.resolve(appPath))) {
+        throw new Error(`App entry point not found: ${path.resolve(appPath)}`);
+      }
+
+      const spec = upgradeSwagger2(readSpecFile(specPath));
+      const { generateContractTests, toAppImport } = await import('./cli/testgen');
+      const suite = generateContractTests(spec, {
+        appImport: toAppImport(appPath, outputPath),
+        framework: options.framework,
+        typescript: /\.(ts|mts|cts)$/.test(outputPath),
+        basePath: options.basePath,
+        seed: parseInt(options.seed, 10),
+        specName: path.basename(specPath),
+      });
+
+      fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+      fs.writeFileSync(outputPath, suite.code, 'utf-8');
+
+      if (isCiMode) {
+        console.log(JSON.stringify({
+          success: true,
+          output: outputPath,
+          operations: suite.operations,
+          tests: suite.tests,
+        }));
+      } else {
+        console.log(colors.green(`✓ Generated ${suite.tests} contract tests for ${suite.operations} operations\n`));
+        console.log(`  Output: ${outputPath}`);
+        console.log(`  App:    ${path.resolve(appPath)}\n`);
+        console.log(colors.dim(`Run with: npx ${options.framework === 'jest' ? 'jest' : 'vitest run'} ${path.relative(process.cwd(), outputPath)}\n`));
+      }
+    } catch (error) {
+      if (isCiMode) {
+        console.log(JSON.stringify({ success: false, error: (error as any).message }));
+      } else {
+        console.error(colors.red(`✗ Error: ${(error as any).message}`));
+      }
+      process.exit(1);
+    }
+  });
+
+// ============================================================
+// SNAPSHOTS COMMAND
+// ============================================================
+
+program
+  .command('snapshots')
+  .description('List, prune, export or import runtime capture snapshots')
+  .argument('<action>', 'Action to perform (list|prune|export|import)')
+  .argument('[file]', 'File to export to (default: stdout) or import from')
+  .option('-d, --dir <path>', 'Snapshot directory', './data/runtime-snapshots')
+  .option('-b, --backend <backend>', 'Storage backend (filesystem|ndjson|sqlite, default: detected from the directory)')
+  .option('--route <pattern>', "Only include routes matching a pattern such as 'GET /users/*'")
+  .option('--older-than <duration>', 'Prune snapshots older than a duration such as 30m, 12h or 7d')
+  .option('--max-per-route <count>', 'Prune all but the newest snapshots of each route')
+  .option('--dry-run', 'Show what prune would remove without removing it', false)
+  .option('-f, --format <format>', 'Output format (text|json for list, json|ndjson for export)')
+  .option('--ci', 'CI mode with structured output', false)
+  .action(async function (action: string, file: string | undefined, options: any) {
+    const isCiMode = options.ci || process.env.CI === 'true';
+    const { SnapshotStorage, matchesRoute } = await import('./core/SnapshotStorage');
+    const { createSnapshotBackend, detectSnapshotBackend } = await import('./core/SnapshotBackends');
+    const { summarizeSnapshots, formatSnapshotSummaryText, parseDuration, parseSnapshotFile, serializeSnapshots } =
+      await import('./cli/snapshots');
+
+    let storage: InstanceType<typeof SnapshotStorage> | undefined;
+
+    try {
+      if (!['list', 'prune', 'export', 'import'].includes(action)) {
+        throw new Error(`Unknown action: ${action}. Must be list, prune, export or import`);
+      }
+
+      const outputDir = path.resolve(options.dir);
+      const backend = options.backend || detectSnapshotBackend(outputDir);
+      if (!['filesystem', 'ndjson', 'sqlite'].includes(backend)) {
+        throw new Error(`Unsupported backend: ${backend}. Must be filesystem, ndjson or sqlite`);
+      }
+      const maxPerRoute = options.maxPerRoute !== undefined ? parseInt(options.maxPerRoute, 10) : undefined;
+      if (maxPerRoute !== undefined && !(maxPerRoute >= 0)) {
+        throw new Error(`Invalid --max-per-route: ${options.maxPerRoute}`);
+      }
+      const inRoute = (snapshot: { method: string; path: string }) =>
+        !options.route || matchesRoute(options.route, snapshot.method, snapshot.path);
+
+      // Maintenance works on everything on disk, whatever caps the app runs with. The
+      // backend is opened here so a missing SQLite driver fails the command.
+      const store = new SnapshotStorage({
+        enabled: true,
+        outputDir,
+        backend: createSnapshotBackend(backend, outputDir),
+        maxSnapshots: Number.MAX_SAFE_INTEGER,
+      });
+      storage = store;
+      store.loadSnapshots();
+      const all = () => [...store.getAllSnapshots().values()].flat();
+
+      if (action === 'list') {
+        const summaries = summarizeSnapshots(all().filter(inRoute));
+        if (options.format === 'json' || isCiMode) {
+          console.log(JSON.stringify({ success: true, backend, directory: outputDir, routes: summaries }, null, 2));
+        } else {
+          console.log(colors.blue(`Snapshots in ${outputDir} (${backend})\n`));
+          console.log(formatSnapshotSummaryText(summaries));
+        }
+      } else if (action === 'prune') {
+        if (options.olderThan === undefined && maxPerRoute === undefined) {
+          throw new Error('Nothing to prune: pass --older-than and/or --max-per-route');
+        }
+        const pruneOptions = {
+          olderThanMs: options.olderThan !== undefined ? parseDuration(options.olderThan) : 0,
+          maxPerRoute: maxPerRoute ?? Number.MAX_SAFE_INTEGER,
+          route: options.route,
+        };
+
+        // A dry run prunes a copy held in memory so nothing on disk changes
+        const snapshots = all();
+        const target = options.dryRun
+          ? new SnapshotStorage({
+            enabled: true,
+            maxSnapshots: Number.MAX_SAFE_INTEGER,
+            backend: { name: 'dry-run', append: () => undefined, remove: () => undefined, load: () => snapshots },
+          })
+          : store;
+        if (options.dryRun) target.loadSnapshots();
+        const removed = target.prune(pruneOptions);
+
+        if (isCiMode) {
+          console.log(JSON.stringify({
+            success: true,
+            dryRun: options.dryRun,
+            removed: removed.length,
+            remaining: snapshots.length - removed.length,
+          }));
+        } else {
+          const verb = options.dryRun ? 'Would remove' : 'Removed';
+          console.log(colors.green(`✓ ${verb} ${removed.length} snapshot(s)`));
+          for (const summary of summarizeSnapshots(removed)) {
+            console.log(colors.dim(`  ${summary.method} ${summary.path}: ${summary.count}`));
+          }
+        }
+      } else if (action === 'export') {
+        const format = options.format || (file?.endsWith('.ndjson') ? 'ndjson' : 'json');
+        if (format !== 'json' && format !== 'ndjson') {
+          throw new Error(`Unsupported export format: ${format}. Must be json or ndjson`);
+        }
+        const snapshots = all()
+          .filter(inRoute)
+          .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+        const output = serializeSnapshots(snapshots, format);
+
+        if (!file) {
+          process.stdout.write(output);
+        } else {
+          const outputPath = path.resolve(file);
+          fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+          fs.writeFileSync(outputPath, output, 'utf-8');
+          if (isCiMode) {
+            console.log(JSON.stringify({ success: true, output: outputPath, snapshots: snapshots.length }));
+          } else {
+            console.log(colors.green(`✓ Exported ${snapshots.length} snapshot(s) to ${outputPath}`));
+          }
+        }
+      } else {
+        if (!file) {
+          throw new Error('Missing file to import');
+        }
+        const inputPath = path.resolve(file);
+        if (!fs.existsSync(inputPath)) {
+          throw new Error(`Snapshot file not found: ${inputPath}`);
+        }
+        const snapshots = parseSnapshotFile(fs.readFileSync(inputPath, 'utf-8')).filter(inRoute);
+        const added = store.importSnapshots(snapshots);
+
+        if (isCiMode) {
+          console.log(JSON.stringify({ success: true, imported: added, skipped: snapshots.length - added }));
+        } else {
+          console.log(colors.green(`✓ Imported ${added} snapshot(s) into ${outputDir} (${backend})`));
+          if (added < snapshots.length) {
+            console.log(colors.dim(`  Skipped ${snapshots.length - added} already present`));
+          }
+        }
+      }
+    } catch (error) {
+      if (isCiMode) {
+        console.log(JSON.stringify({ success: false, error: (error as any).message }));
+      } else {
+        console.error(colors.red(`✗ Error: ${(error as any).message}`));
+      }
+      process.exit(1);
+    } finally {
+      storage?.close();
+    }
+  });
+
 // ============================================================
 // INIT COMMAND
 // ============================================================
@@ -0,0 +1,455 @@
+/**
+ * Multi-file Spec Resolver
+ * Resolves `$ref`s to other files so a spec split over several files can be used as
+ * one document: bundling pulls referenced files into components with internal refs,
+ * dereferencing inlines every ref, and splitting writes a spec back out as
+ * `paths/` and `components/` files with relative refs.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface BundleResult {
+  spec: any;
+  /** Every file the spec was read from, the entry file first */
+  files: string[];
+  /** Refs left as they are, e.g. to URLs */
+  warnings: string[];
+}
+
+export interface DereferenceResult {
+  spec: any;
+  /** Refs kept because inlining them would recurse forever, e.g. '#/components/schemas/Node' */
+  circular: string[];
+}
+
+export interface SplitOptions {
+  /** File format of the written files (default: 'yaml') */
+  format?: 'json' | 'yaml';
+  /** Name of the root file (default: 'openapi.yaml' / 'openapi.json') */
+  rootFile?: string;
+}
+
+export interface SplitResult {
+  /** Root file name, relative to the output directory */
+  root: string;
+  /** File contents keyed by path relative to the output directory */
+  files: Record<string, any>;
+}
+
+/** Component sections, in the order bundled components are written */
+const COMPONENT_TYPES = [
+  'schemas',
+  'responses',
+  'parameters',
+  'examples',
+  'requestBodies',
+  'headers',
+  'securitySchemes',
+  'links',
+  'callbacks',
+  'pathItems',
+];
+
+/** Keys whose values are schemas, so refs below them are schema refs */
+const SCHEMA_KEYS = new Set(['schema', 'schemas', 'properties', 'items', 'allOf', 'anyOf', 'oneOf', 'not', 'additionalProperties', 'prefixItems']);
+
+/** Collection key -> component section for refs directly inside it */
+const COLLECTION_TYPES: Record<string, string> = {
+  parameters: 'parameters',
+  responses: 'responses',
+  headers: 'headers',
+  examples: 'examples',
+  links: 'links',
+  callbacks: 'callbacks',
+  securitySchemes: 'securitySchemes',
+};
+
+// ============================================================
+// Loading
+// ============================================================
+
+/**
+ * Parse a JSON or YAML file
+ */
+export function parseSpecFile(filePath: string): any {
+  const content = fs.readFileSync(filePath, 'utf-8');
+  if (/\.ya?ml$/i.test(filePath)) {
+    const yaml = require('js-yaml');
+    return yaml.load(content);
+  }
+  return JSON.parse(content);
+}
+
+/**
+ * Read a spec and resolve refs to other files, so single- and multi-file specs
+ * load the same way
+ */
+export function loadSpec(specPath: string): any {
+  return bundleSpec(specPath).spec;
+}
+
+// ============================================================
+// Bundle
+// ============================================================
+
+/**
+ * Resolve external relative-file refs into one document. Referenced files and
+ * fragments become components (schemas, responses, parameters, ... by where they
+ * are referenced from) with internal refs; referenced path items are inlined.
+ */
+export function bundleSpec(specPath: string): BundleResult {
+  return new Bundler(path.resolve(specPath)).bundle();
+}
+
+class Bundler {
+  private documents = new Map<string, any>();
+  /** 'file#pointer' of every bundled target -> its internal ref */
+  private bundled = new Map<string, string>();
+  private added: Record<string, Record<string, any>> = {};
+  private reserved: Record<string, Set<string>> = {};
+  /** Targets being inlined, to stop circular path item refs */
+  private inlining: string[] = [];
+  private warnings = new Set<string>();
+
+  constructor(private entryFile: string) {}
+
+  bundle(): BundleResult {
+    const root = this.load(this.entryFile);
+
+    // Root components that point at files keep their names for every ref to those files
+    for (const type of COMPONENT_TYPES) {
+      const section = root?.components?.[type] || {};
+      this.reserved[type] = new Set(Object.keys(section));
+      for (const [name, value] of Object.entries<any>(section)) {
+        const target = typeof value?.$ref === 'string' ? this.target(value.$ref, this.entryFile) : undefined;
+        if (target && target.file !== this.entryFile) {
+          this.bundled.set(target.key, `#/components/${type}/${escapePointer(name)}`);
+        }
+      }
+    }
+
+    const spec = this.walk(root, this.entryFile, []);
+
+    for (const type of COMPONENT_TYPES) {
+      if (!this.added[type]) continue;
+      spec.components = spec.components || {};
+      spec.components[type] = { ...spec.components[type], ...this.added[type] };
+    }
+
+    return { spec, files: [...this.documents.keys()], warnings: [...this.warnings] };
+  }
+
+  private walk(value: any, file: string, at: string[]): any {
+    if (Array.isArray(value)) {
+      return value.map((item, index) => this.walk(item, file, [...at, String(index)]));
+    }
+    if (!value || typeof value !== 'object') {
+      return value;
+    }
+
+    if (typeof value.$ref === 'string') {
+      return this.resolveRef(value, file, at);
+    }
+
+    const copy: any = {};
+    for (const [key, child] of Object.entries(value)) {
+      if (at[at.length - 1] === 'discriminator' && key === 'mapping' && child && typeof child === 'object') {
+        // Mapping values are refs too, unless they are plain schema names
+        copy[key] = Object.fromEntries(
+          Object.entries(child).map(([name, ref]) => [
+            name,
+            typeof ref === 'string' && /[#/]|\.(json|ya?ml)$/i.test(ref) ? this.resolveRef({ $ref: ref }, file, [...at, key, name]).$ref : ref,
+          ])
+        );
+      } else {
+        copy[key] = this.walk(child, file, [...at, key]);
+      }
+    }
+    return copy;
+  }
+
+  private resolveRef(value: any, file: string, at: string[]): any {
+    const { $ref, ...siblings } = value;
+    const extra = this.walk(siblings, file, at);
+
+    if (isUrl($ref)) {
+      this.warnings.add(`Remote $ref left as is: ${$ref}`);
+      return { $ref, ...extra };
+    }
+
+    const target = this.target($ref, file);
+    if (target.file === this.entryFile) {
+      return { $ref: `#${target.pointer}`, ...extra };
+    }
+
+    const slot = slotFor(at, target.pointer);
+    const existing = this.bundled.get(target.key);
+    if (existing && slot !== 'inline') {
+      return { $ref: existing, ...extra };
+    }
+
+    const content = resolvePointer(this.load(target.file), target.pointer, $ref);
+
+    if (slot === 'inline') {
+      if (this.inlining.includes(target.key)) {
+        throw new Error(`Circular $ref: ${[...this.inlining, target.key].map((key) => this.relative(key)).join(' -> ')}`);
+      }
+      this.inlining.push(target.key);
+      const inlined = this.walk(content, target.file, at);
+      this.inlining.pop();
+      return { ...inlined, ...extra };
+    }
+
+    // Reserve the name before walking, so refs back to the target resolve to it
+    const name = this.reserve(slot, target.pointer ? lastSegment(target.pointer) : path.basename(target.file, path.extname(target.file)));
+    const ref = `#/components/${slot}/${escapePointer(name)}`;
+    this.bundled.set(target.key, ref);
+    (this.added[slot] = this.added[slot] || {})[name] = this.walk(content, target.file, ['components', slot, name]);
+
+    return { $ref: ref, ...extra };
+  }
+
+  private target(ref: string, file: string): { file: string; pointer: string; key: string } {
+    const [refFile, fragment = ''] = ref.split('#');
+    const targetFile = refFile ? path.resolve(path.dirname(file), decodeURI(refFile)) : file;
+    const pointer = decodeURIComponent(fragment);
+    return { file: targetFile, pointer, key: `${targetFile}#${pointer}` };
+  }
+
+  private load(file: string): any {
+    if (!this.documents.has(file)) {
+      if (!fs.existsSync(file)) {
+        throw new Error(file === this.entryFile ? `Spec file not found: ${file}` : `Referenced file not found: ${this.relative(file)}`);
+      }
+      try {
+        this.documents.set(file, parseSpecFile(file));
+      } catch (error) {
+        // The entry file keeps the parser's own message
+        if (file === this.entryFile) throw error;
+        throw new Error(`Failed to parse ${this.relative(file)}: ${(error as any).message}`);
+      }
+    }
+    return this.documents.get(file);
+  }
+
+  private reserve(type: string, preferred: string): string {
+    const names = (this.reserved[type] = this.reserved[type] || new Set());
+    const base = preferred.replace(/[^A-Za-z0-9._-]/g, '_') || type;
+    let name = base;
+    for (let i = 2; names.has(name); i++) {
+      name = `${base}${i}`;
+    }
+    names.add(name);
+    return name;
+  }
+
+  private relative(fileOrKey: string): string {
+    return path.relative(path.dirname(this.entryFile), fileOrKey) || fileOrKey;
+  }
+}
+
+/**
+ * Where a ref found at `at` belongs: a component section, or 'inline' for path items
+ * and refs that already fill a component slot
+ */
+function slotFor(at: string[], pointer: string): string {
+  const fromPointer = /^\/components\/([^/]+)\/[^/]+$/.exec(pointer);
+  if (fromPointer && COMPONENT_TYPES.includes(fromPointer[1]) && fromPointer[1] !== 'pathItems') {
+    return at.length === 3 && at[0] === 'components' ? 'inline' : fromPointer[1];
+  }
+
+  if ((at.length === 2 && (at[0] === 'paths' || at[0] === 'webhooks')) || (at.length === 3 && at[0] === 'components')) {
+    return 'inline';
+  }
+  if (at.some((key) => SCHEMA_KEYS.has(key))) {
+    return 'schemas';
+  }
+
+  const last = at[at.length - 1];
+  const parent = at[at.length - 2];
+  if (last === 'requestBody') return 'requestBodies';
+  if (parent && COLLECTION_TYPES[parent]) return COLLECTION_TYPES[parent];
+  // Callback expressions hold path items
+  if (at.length >= 2 && at[at.length - 3] === 'callbacks') return 'inline';
+  return 'schemas';
+}
+
+// ============================================================
+// Dereference
+// ============================================================
+
+/**
+ * Inline every internal ref. Refs that would recurse into themselves are kept and
+ * reported, so the components they point at stay in the document.
+ */
+export function dereferenceSpec(spec: any): DereferenceResult {
+  const circular = new Set<string>();
+  const cache = new Map<string, any>();
+
+  const walk = (value: any, stack: string[]): any => {
+    if (Array.isArray(value)) {
+      return value.map((item) => walk(item, stack));
+    }
+    if (!value || typeof value !== 'object') {
+      return value;
+    }
+
+    if (typeof value.$ref === 'string' && value.$ref.startsWith('#')) {
+      const { $ref, ...siblings } = value;
+      const extra = walk(siblings, stack);
+
+      if (stack.includes($ref)) {
+        circular.add($ref);
+        return { $ref, ...extra };
+      }
+
+      if (!cache.has($ref)) {
+        cache.set($ref, walk(resolvePointer(spec, decodeURIComponent($ref.slice(1)), $ref), [...stack, $ref]));
+      }
+      const resolved = cache.get($ref);
+      return Object.keys(extra).length > 0 ? { ...resolved, ...extra } : resolved;
+    }
+
+    const copy: any = {};
+    for (const [key, child] of Object.entries(value)) {
+      copy[key] = walk(child, stack);
+    }
+    return copy;
+  };
+
+  const dereferenced = walk(spec, []);
+  return { spec: dereferenced, circular: [...circular].sort() };
+}
+
+// ============================================================
+// Split
+// ============================================================
+
+/**
+ * Break a spec into a root file, one file per path item under `paths/` and one per
+ * component under `components/<section>/`, linked with relative refs. Security
+ * schemes stay in the root file.
+ */
+export function splitSpec(spec: any, options: SplitOptions = {}): SplitResult {
+  const format = options.format || 'yaml';
+  const ext = format === 'json' ? 'json' : 'yaml';
+  const rootFile = options.rootFile || `openapi.${ext}`;
+  const files: Record<string, any> = {};
+  const used = new Set<string>([rootFile]);
+
+  const unique = (dir: string, name: string): string => {
+    const base = `${dir}/${name.replace(/[^A-Za-z0-9._{}-]/g, '_') || 'root'}`;
+    let file = `${base}.${ext}`;
+    for (let i = 2; used.has(file); i++) {
+      file = `${base}_${i}.${ext}`;
+    }
+    used.add(file);
+    return file;
+  };
+
+  // File of every split component, by its internal ref
+  const componentFiles = new Map<string, string>();
+  for (const type of COMPONENT_TYPES) {
+    if (type === 'securitySchemes') continue;
+    for (const name of Object.keys(spec.components?.[type] || {})) {
+      componentFiles.set(`#/components/${type}/${escapePointer(name)}`, unique(`components/${type}`, name));
+    }
+  }
+
+  const rewrite = (value: any, fromFile: string): any => {
+    const relativeRef = (ref: string): string => {
+      if (!ref.startsWith('#')) return ref;
+      const match = /^(#\/components\/[^/]+\/[^/]+)(\/.*)?$/.exec(ref);
+      const file = match ? componentFiles.get(match[1]) : undefined;
+      const [targetFile, fragment] = file ? [file, match?.[2] ? `#${match[2]}` : ''] : [rootFile, ref];
+      if (targetFile === fromFile) return fragment || '#';
+      const relative = path.posix.relative(path.posix.dirname(fromFile), targetFile);
+      return `${relative.startsWith('.') ? '' : './'}${relative}${fragment}`;
+    };
+
+    const visit = (node: any, key?: string): any => {
+      if (Array.isArray(node)) return node.map((item) => visit(item));
+      if (!node || typeof node !== 'object') return node;
+
+      const copy: any = {};
+      for (const [childKey, child] of Object.entries(node)) {
+        if (childKey === '$ref' && typeof child === 'string') {
+          copy[childKey] = relativeRef(child);
+        } else if (key === 'discriminator' && childKey === 'mapping' && child && typeof child === 'object') {
+          copy[childKey] = Object.fromEntries(
+            Object.entries(child).map(([name, ref]) => [name, typeof ref === 'string' ? relativeRef(ref) : ref])
+          );
+        } else {
+          copy[childKey] = visit(child, childKey);
+        }
+      }
+      return copy;
+    };
+
+    return visit(value);
+  };
+
+  const root: any = { ...spec };
+
+  if (spec.paths) {
+    root.paths = {};
+    for (const [pathKey, pathItem] of Object.entries<any>(spec.paths)) {
+      const file = unique('paths', pathKey.replace(/^\/+/, '').replace(/\//g, '_'));
+      files[file] = rewrite(pathItem, file);
+      root.paths[pathKey] = { $ref: `./${file}` };
+    }
+  }
+
+  if (spec.components) {
+    root.components = { ...spec.components };
+    for (const type of COMPONENT_TYPES) {
+      if (type === 'securitySchemes' || !spec.components[type]) continue;
+      root.components[type] = {};
+      for (const [name, component] of Object.entries<any>(spec.components[type])) {
+        const file = componentFiles.get(`#/components/${type}/${escapePointer(name)}`) as string;
+        files[file] = rewrite(component, file);
+        root.components[type][name] = { $ref: `./${file}` };
+      }
+    }
+  }
+
+  files[rootFile] = root;
+  return { root: rootFile, files };
+}
+
+// ============================================================
+// Helpers
+// ============================================================
+
+function isUrl(ref: string): boolean {
+  return /^[a-z][a-z0-9+.-]*:\/\//i.test(ref);
+}
+
+function escapePointer(segment: string): string {
+  return segment.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function lastSegment(pointer: string): string {
+  const segments = pointer.split('/');
+  return segments[segments.length - 1].replace(/~1/g, '/').replace(/~0/g, '~');
+}
+
+/**
+ * Value at a JSON pointer ('' is the whole document)
+ */
+function resolvePointer(document: any, pointer: string, ref: string): any {
+  let value = document;
+  for (const segment of pointer.split('/').slice(1)) {
+    const key = segment.replace(/~1/g, '/').replace(/~0/g, '~');
+    if (value === null || typeof value !== 'object' || !(key in value)) {
+      throw new Error(`Unresolved $ref: ${ref}`);
+    }
+    value = value[key];
+  }
+  return value;
+}
@@ -0,0 +1,624 @@
+/**
+ * Client Code Generation
+ * Generates a typed TypeScript client (fetch or axios) from an OpenAPI spec:
+ * interfaces for component schemas, one method per operation, discriminated union
+ * responses per status code and credentials per security scheme.
+ */
+
+import type { OpenAPISpec, OpenAPIPath, OpenAPIParameter, OpenAPISchema } from '../types';
+
+// ============================================================
+// Types
+// ============================================================
+
+export type CodegenTarget = 'typescript-fetch' | 'typescript-axios';
+
+export interface CodegenOptions {
+  target: CodegenTarget;
+  /** Name of the generated client class (default: derived from info.title) */
+  clientName?: string;
+  /** Spec file name shown in the header comment */
+  specName?: string;
+}
+
+export interface GeneratedClient {
+  code: string;
+  clientName: string;
+  schemas: number;
+  operations: number;
+  warnings: string[];
+}
+
+interface OperationModel {
+  name: string;
+  typeName: string;
+  method: string;
+  path: string;
+  operation: OpenAPIPath;
+  parameters: OpenAPIParameter[];
+  body?: { contentType: string; schema?: OpenAPISchema; required: boolean };
+  security: string[][];
+}
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+
+const TARGET_ALIASES: Record<string, CodegenTarget> = {
+  fetch: 'typescript-fetch',
+  'typescript-fetch': 'typescript-fetch',
+  axios: 'typescript-axios',
+  'typescript-axios': 'typescript-axios',
+};
+
+/**
+ * Normalize a --target value, accepting `fetch` and `axios` as short forms
+ */
+export function resolveCodegenTarget(target: string): CodegenTarget | null {
+  return TARGET_ALIASES[target.trim().toLowerCase()] ?? null;
+}
+
+// ============================================================
+// Generator
+// ============================================================
+
+/**
+ * Generate a TypeScript client for a spec. The output only depends on the spec and
+ * options, so it can be committed and diffed.
+ */
+export function generateClient(spec: OpenAPISpec, options: CodegenOptions): GeneratedClient {
+  const warnings: string[] = [];
+  const clientName = options.clientName || `${pascalCase(spec.info?.title || 'Api').replace(/Api$/i, '')}ApiClient`;
+  const schemaNames = Object.keys(spec.components?.schemas || {}).sort();
+  const operations = collectOperations(spec, warnings);
+
+  const sections = [
+    emitHeader(spec, options),
+    section('Schemas'),
+    ...schemaNames.map((name) => emitSchema(name, spec.components!.schemas![name])),
+    section('Operations'),
+    ...operations.map((operation) => emitOperationTypes(spec, operation)),
+    section('Client'),
+    emitRuntimeTypes(spec, options.target),
+    emitClient(spec, clientName, operations, options.target),
+  ];
+
+  return {
+    code: sections.join('\n\n') + '\n',
+    clientName,
+    schemas: schemaNames.length,
+    operations: operations.length,
+    warnings,
+  };
+}
+
+function collectOperations(spec: OpenAPISpec, warnings: string[]): OperationModel[] {
+  const operations: OperationModel[] = [];
+  const usedNames = new Set<string>();
+
+  for (const [path, pathItem] of Object.entries(spec.paths || {})) {
+    for (const method of HTTP_METHODS) {
+      const operation = (pathItem as Record<string, any>)[method] as OpenAPIPath | undefined;
+      if (!operation) continue;
+
+      let name = camelCase(operation.operationId || fallbackName(method, path));
+      if (usedNames.has(name)) {
+        let suffix = 2;
+        while (usedNames.has(`${name}${suffix}`)) suffix++;
+        warnings.push(`Renamed ${method.toUpperCase()} ${path} to ${name}${suffix}: ${name} is already used`);
+        name = `${name}${suffix}`;
+      }
+      usedNames.add(name);
+
+      const parameters: OpenAPIParameter[] = [];
+      const merged = new Map<string, OpenAPIParameter>();
+      for (const raw of [...((pathItem as any).parameters || []), ...(operation.parameters || [])]) {
+        const parameter = resolveRef(spec, raw) as OpenAPIParameter;
+        if (parameter.name && parameter.in) merged.set(`${parameter.in}:${parameter.name}`, parameter);
+      }
+      for (const parameter of merged.values()) {
+        if (parameter.in === 'cookie') {
+          warnings.push(`Skipped cookie parameter ${parameter.name} of ${name}: browsers do not let clients set cookies`);
+          continue;
+        }
+        parameters.push(parameter);
+      }
+
+      const requestBody = resolveRef(spec, operation.requestBody);
+      const contentTypes = Object.keys(requestBody.content || {});
+      const contentType = contentTypes.find(isJsonMediaType) || contentTypes[0];
+      const body = contentType
+        ? { contentType, schema: requestBody.content[contentType].schema, required: requestBody.required === true }
+        : undefined;
+
+      const security = (operation.security ?? spec.security ?? []).map((requirement) => Object.keys(requirement));
+
+      operations.push({ name, typeName: pascalCase(name), method, path, operation, parameters, body, security });
+    }
+  }
+
+  return operations;
+}
+
+// ============================================================
+// Schema types
+// ============================================================
+
+/**
+ * Interface or type alias declaration for a component schema
+ */
+export function emitSchema(name: string, schema: OpenAPISchema): string {
+  const typeName = pascalCase(name);
+  const doc = docComment([schema.description, (schema as any).deprecated ? '@deprecated' : undefined], '');
+
+  if (isObjectSchema(schema) && !schema.allOf && !schema.oneOf && !schema.anyOf && !isNullable(schema)) {
+    return `${doc}export interface ${typeName} ${objectType(schema, '')}`;
+  }
+  return `${doc}export type ${typeName} = ${typeFor(schema, '')};`;
+}
+
+/**
+ * TypeScript type for a schema, at the given indentation for multi-line object types
+ */
+export function typeFor(schema: OpenAPISchema | undefined, indent: string): string {
+  if (!schema || typeof schema !== 'object') return 'unknown';
+
+  if (schema.$ref) {
+    const match = /^#\/components\/schemas\/(.+)$/.exec(schema.$ref);
+    return withNull(match ? pascalCase(decodePointer(match[1])) : 'unknown', schema);
+  }
+  if (schema.allOf) {
+    return withNull(schema.allOf.map((part) => wrap(typeFor(part, indent))).join(' & '), schema);
+  }
+  const variants = schema.oneOf || schema.anyOf;
+  if (variants) {
+    return withNull(unique(variants.map((variant) => typeFor(variant, indent))).join(' | '), schema);
+  }
+  if (schema.const !== undefined) return literalType(schema.const);
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+    return withNull(unique(schema.enum.map(literalType)).join(' | '), schema);
+  }
+
+  const types = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+  if (types.length > 1) {
+    return unique(types.map((type) => typeFor({ ...schema, type, nullable: false }, indent))).join(' | ');
+  }
+
+  let type: string;
+  switch (types[0]) {
+    case 'string':
+      type = schema.format === 'binary' ? 'Blob' : 'string';
+      break;
+    case 'integer':
+    case 'number':
+      type = 'number';
+      break;
+    case 'boolean':
+      type = 'boolean';
+      break;
+    case 'null':
+      return 'null';
+    case 'array':
+      type = `${wrap(typeFor(schema.items, indent))}[]`;
+      break;
+    case 'object':
+      type = objectType(schema, indent);
+      break;
+    default:
+      type = schema.properties ? objectType(schema, indent) : 'unknown';
+  }
+  return withNull(type, schema);
+}
+
+function objectType(schema: OpenAPISchema, indent: string): string {
+  const properties = Object.entries(schema.properties || {});
+  const additional = schema.additionalProperties;
+
+  if (properties.length === 0) {
+    if (additional === false) return 'Record<string, never>';
+    return `Record<string, ${additional && additional !== true ? typeFor(additional, indent) : 'unknown'}>`;
+  }
+
+  const inner = `${indent}  `;
+  const required = new Set(schema.required || []);
+  const lines = properties.map(([name, property]) => {
+    const doc = docComment([property.description, (property as any).deprecated ? '@deprecated' : undefined], inner);
+    return `${doc}${inner}${propertyKey(name)}${required.has(name) ? '' : '?'}: ${typeFor(property, inner)};`;
+  });
+  if (additional && additional !== true) {
+    lines.push(`${inner}[key: string]: ${typeFor(additional, inner)} | undefined;`);
+  }
+  return `{\n${lines.join('\n')}\n${indent}}`;
+}
+
+// ============================================================
+// Operation types
+// ============================================================
+
+function emitOperationTypes(spec: OpenAPISpec, model: OperationModel): string {
+  const blocks: string[] = [];
+
+  const fields = model.parameters.map((parameter) => {
+    const doc = docComment([parameter.description], '  ');
+    return `${doc}  ${propertyKey(parameter.name)}${parameter.required || parameter.in === 'path' ? '' : '?'}: ${typeFor(parameter.schema, '  ')};`;
+  });
+  if (model.body) {
+    fields.push(`  body${model.body.required ? '' : '?'}: ${typeFor(model.body.schema, '  ')};`);
+  }
+  if (fields.length > 0) {
+    blocks.push(`export interface ${model.typeName}Params {\n${fields.join('\n')}\n}`);
+  }
+
+  const members = Object.entries(model.operation.responses || {}).map(([status, value]) => {
+    const response = resolveRef(spec, value);
+    const contentTypes = Object.keys(response.content || {});
+    const contentType = contentTypes.find(isJsonMediaType) || contentTypes[0];
+    const data = !contentType
+      ? 'undefined'
+      : isJsonMediaType(contentType)
+        ? typeFor(response.content[contentType].schema, '    ')
+        : 'string';
+    const statusType = /^\d{3}$/.test(status) ? status : 'number';
+    return `  | { status: ${statusType}; data: ${data}; headers: ResponseHeaders }`;
+  });
+  if (members.length === 0) {
+    members.push('  | { status: number; data: unknown; headers: ResponseHeaders }');
+  }
+  blocks.push(`export type ${model.typeName}Response =\n${members.join('\n')};`);
+
+  return blocks.join('\n\n');
+}
+
+// ============================================================
+// Client
+// ============================================================
+
+function emitRuntimeTypes(spec: OpenAPISpec, target: CodegenTarget): string {
+  const schemes = Object.entries<any>(spec.components?.securitySchemes || {}).map(([name, value]) => [name, resolveRef(spec, value)]);
+  const credentialFields = schemes.map(([name, scheme]) => {
+    const type = scheme.type === 'http' && scheme.scheme?.toLowerCase() === 'basic' ? '{ username: string; password: string }' : 'Credential';
+    const doc = docComment([describeScheme(scheme)], '  ');
+    return `${doc}  ${propertyKey(name)}?: ${type};`;
+  });
+
+  const lines = [
+    target === 'typescript-axios'
+      ? "export type ResponseHeaders = AxiosResponse['headers'];"
+      : 'export type ResponseHeaders = Headers;',
+    '',
+    '/** A token or API key, or a function returning one (e.g. to refresh tokens) */',
+    'export type Credential = string | (() => string | Promise<string>);',
+    '',
+    '/** Credentials per security scheme; operations use the first requirement that is fully provided */',
+    credentialFields.length > 0 ? `export interface ApiCredentials {\n${credentialFields.join('\n')}\n}` : 'export type ApiCredentials = Record<string, never>;',
+    '',
+    'export interface ClientOptions {',
+    `  /** Base URL of the API (default: ${quote(spec.servers?.[0]?.url || '')}) */`,
+    '  baseUrl?: string;',
+    '  credentials?: ApiCredentials;',
+    '  /** Headers sent with every request */',
+    '  headers?: Record<string, string>;',
+  ];
+  if (target === 'typescript-axios') {
+    lines.push('  /** Axios instance to send requests with (default: axios.create()) */', '  axios?: AxiosInstance;');
+  } else {
+    lines.push('  /** fetch implementation (default: globalThis.fetch) */', '  fetch?: typeof fetch;');
+  }
+  lines.push(
+    '}',
+    '',
+    'export interface RequestOptions {',
+    '  signal?: AbortSignal;',
+    '  headers?: Record<string, string>;',
+    '}',
+    '',
+    'interface RequestConfig {',
+    '  method: string;',
+    '  path: string;',
+    '  query?: Record<string, unknown>;',
+    '  headers?: Record<string, unknown>;',
+    '  body?: unknown;',
+    '  contentType?: string;',
+    '  security: string[][];',
+    '}'
+  );
+  return lines.join('\n');
+}
+
+function emitClient(spec: OpenAPISpec, clientName: string, operations: OperationModel[], target: CodegenTarget): string {
+  const methods = operations.map((model) => emitMethod(model));
+  const title = [spec.info?.title, spec.info?.version].filter(Boolean).join(' ');
+
+  const constructorBody = target === 'typescript-axios'
+    ? ['    this.http = options.axios ?? axios.create();']
+    : ['    this.fetchImpl = options.fetch ?? ((input, init) => globalThis.fetch(input, init));'];
+  const fields = target === 'typescript-axios'
+    ? ['  private readonly http: AxiosInstance;']
+    : ['  private readonly fetchImpl: typeof fetch;'];
+
+  return [
+    `/**\n * Client for ${title || 'the API'}\n */`,
+    `export class ${clientName} {`,
+    '  private readonly baseUrl: string;',
+    ...fields,
+    '',
+    '  constructor(private readonly options: ClientOptions = {}) {',
+    `    this.baseUrl = (options.baseUrl ?? ${quote(spec.servers?.[0]?.url || '')}).replace(/\\/+$/, '');`,
+    ...constructorBody,
+    '  }',
+    '',
+    methods.join('\n\n'),
+    '',
+    emitSend(target),
+    '',
+    emitApplySecurity(spec),
+    '}',
+  ].join('\n');
+}
+
+function emitMethod(model: OperationModel): string {
+  const { operation } = model;
+  const doc = docComment(
+    [operation.summary, operation.description, `${model.method.toUpperCase()} ${model.path}`, (operation as any).deprecated ? '@deprecated' : undefined],
+    '  '
+  );
+  const hasParams = model.parameters.length > 0 || model.body !== undefined;
+  const paramsRequired = model.parameters.some((p) => p.required || p.in === 'path') || model.body?.required;
+  const signature = hasParams
+    ? `params: ${model.typeName}Params${paramsRequired ? '' : ' = {}'}, options?: RequestOptions`
+    : 'options?: RequestOptions';
+
+  const path = model.path.replace(/\{([^}]+)\}/g, (_match, name: string) => `\${encodeURIComponent(String(params${accessor(name)}))}`);
+  const config = [
+    `      method: ${quote(model.method.toUpperCase())},`,
+    `      path: ${path.includes('${') ? `\`${path}\`` : quote(model.path)},`,
+  ];
+  const byLocation = (location: string) => model.parameters.filter((p) => p.in === location);
+  for (const [location, key] of [['query', 'query'], ['header', 'headers']] as const) {
+    const parameters = byLocation(location);
+    if (parameters.length === 0) continue;
+    const entries = parameters.map((p) => `${propertyKey(p.name)}: params${accessor(p.name)}`);
+    config.push(`      ${key}: { ${entries.join(', ')} },`);
+  }
+  if (model.body) {
+    config.push('      body: params.body,', `      contentType: ${quote(model.body.contentType)},`);
+  }
+  config.push(`      security: [${model.security.map((schemes) => `[${schemes.map(quote).join(', ')}]`).join(', ')}],`);
+
+  return [
+    `${doc}  async ${model.name}(${signature}): Promise<${model.typeName}Response> {`,
+    '    return (await this.send({',
+    ...config,
+    `    }, options)) as ${model.typeName}Response;`,
+    '  }',
+  ].join('\n');
+}
+
+function emitSend(target: CodegenTarget): string {
+  const prepare = [
+    '  private async send(config: RequestConfig, options: RequestOptions = {}) {',
+    '    const query = new URLSearchParams();',
+    '    for (const [name, value] of Object.entries(config.query || {})) {',
+    '      if (value === undefined || value === null) continue;',
+    '      for (const item of Array.isArray(value) ? value : [value]) query.append(name, String(item));',
+    '    }',
+    '    const headers: Record<string, string> = { ...this.options.headers };',
+    '    for (const [name, value] of Object.entries(config.headers || {})) {',
+    '      if (value !== undefined && value !== null) headers[name] = String(value);',
+    '    }',
+    '    Object.assign(headers, options.headers);',
+    '    await this.applySecurity(config.security, { headers, query });',
+    '',
+    '    let body: any = config.body;',
+    "    if (body !== undefined && config.contentType === 'multipart/form-data') {",
+    '      const form = new FormData();',
+    '      for (const [name, value] of Object.entries(body as Record<string, unknown>)) {',
+    '        if (value === undefined || value === null) continue;',
+    "        form.append(name, value instanceof Blob ? value : typeof value === 'object' ? JSON.stringify(value) : String(value));",
+    '      }',
+    '      body = form;',
+    "    } else if (body !== undefined && config.contentType === 'application/x-www-form-urlencoded') {",
+    '      body = new URLSearchParams(Object.entries(body as Record<string, unknown>).map(([name, value]) => [name, String(value)]));',
+    '    } else if (body !== undefined && config.contentType) {',
+    "      headers['Content-Type'] = config.contentType;",
+    '      if (/json/i.test(config.contentType)) body = JSON.stringify(body);',
+    '    }',
+    '',
+    '    const search = query.toString();',
+    "    const url = `${this.baseUrl}${config.path}${search ? `?${search}` : ''}`;",
+  ];
+
+  const dispatch = target === 'typescript-axios'
+    ? [
+        '    const response = await this.http.request({',
+        '      method: config.method,',
+        '      url,',
+        '      headers,',
+        '      data: body,',
+        '      signal: options.signal,',
+        '      validateStatus: () => true,',
+        '    });',
+        '    return { status: response.status, data: response.data, headers: response.headers };',
+        '  }',
+      ]
+    : [
+        '    const response = await this.fetchImpl(url, { method: config.method, headers, body, signal: options.signal });',
+        '    const text = await response.text();',
+        "    const data = text && /json/i.test(response.headers.get('content-type') || '') ? JSON.parse(text) : text || undefined;",
+        '    return { status: response.status, data, headers: response.headers };',
+        '  }',
+      ];
+
+  return [...prepare, ...dispatch].join('\n');
+}
+
+function emitApplySecurity(spec: OpenAPISpec): string {
+  const cases: string[] = [];
+  for (const [name, value] of Object.entries<any>(spec.components?.securitySchemes || {})) {
+    const scheme = resolveRef(spec, value);
+    const credential = `credentials${accessor(name)}`;
+    let apply: string;
+
+    if (scheme.type === 'http' && scheme.scheme?.toLowerCase() === 'basic') {
+      apply = `target.headers.Authorization = \`Basic \${btoa(\`\${${credential}!.username}:\${${credential}!.password}\`)}\`;`;
+    } else if (scheme.type === 'http' || scheme.type === 'oauth2' || scheme.type === 'openIdConnect') {
+      apply = `target.headers.Authorization = \`Bearer \${await resolveCredential(${credential}!)}\`;`;
+    } else if (scheme.type === 'apiKey' && scheme.in === 'query') {
+      apply = `target.query.set(${quote(scheme.name)}, await resolveCredential(${credential}!));`;
+    } else if (scheme.type === 'apiKey' && scheme.in === 'cookie') {
+      apply = `target.headers.Cookie = \`${scheme.name}=\${await resolveCredential(${credential}!)}\`;`;
+    } else if (scheme.type === 'apiKey') {
+      apply = `target.headers[${quote(scheme.name)}] = await resolveCredential(${credential}!);`;
+    } else {
+      continue;
+    }
+    cases.push(`        case ${quote(name)}:\n          ${apply}\n          break;`);
+  }
+
+  const lines = [
+    '  private async applySecurity(requirements: string[][], target: { headers: Record<string, string>; query: URLSearchParams }) {',
+  ];
+  if (cases.length === 0) {
+    lines.push('    void requirements;', '    void target;', '  }');
+    return lines.join('\n');
+  }
+  lines.push(
+    '    const credentials: Record<string, any> = this.options.credentials || {};',
+    '    const requirement = requirements.find((schemes) => schemes.every((scheme) => credentials[scheme] !== undefined));',
+    '    for (const scheme of requirement || []) {',
+    '      switch (scheme) {',
+    ...cases,
+    '      }',
+    '    }',
+    '  }'
+  );
+  return lines.join('\n');
+}
+
+function emitHeader(spec: OpenAPISpec, options: CodegenOptions): string {
+  const title = [spec.info?.title, spec.info?.version].filter(Boolean).join(' ') || 'API';
+  const source = options.specName ? ` from ${options.specName}` : '';
+  const lines = [
+    '/**',
+    ` * ${title} client`,
+    ` * Generated by express-swagger-auto codegen${source}. Regenerate instead of editing.`,
+    ' */',
+    '/* eslint-disable */',
+  ];
+  if (options.target === 'typescript-axios') {
+    lines.push("import axios from 'axios';", "import type { AxiosInstance, AxiosResponse } from 'axios';");
+  }
+  lines.push(
+    '',
+    'async function resolveCredential(credential: string | (() => string | Promise<string>)): Promise<string> {',
+    "  return typeof credential === 'function' ? credential() : credential;",
+    '}'
+  );
+  return lines.join('\n');
+}
+
+// ============================================================
+// Helpers
+// ============================================================
+
+function section(title: string): string {
+  return `// ============================================================\n// ${title}\n// ============================================================`;
+}
+
+function docComment(lines: Array<string | undefined>, indent: string): string {
+  const text = lines.filter((line): line is string => !!line && line.trim().length > 0).flatMap((line) => line.trim().split('\n'));
+  if (text.length === 0) return '';
+  if (text.length === 1) return `${indent}/** ${escapeComment(text[0])} */\n`;
+  return `${indent}/**\n${text.map((line) => `${indent} * ${escapeComment(line)}`.trimEnd()).join('\n')}\n${indent} */\n`;
+}
+
+function escapeComment(text: string): string {
+  return text.replace(/\*\//g, '*\\/');
+}
+
+function describeScheme(scheme: any): string {
+  if (scheme.type === 'http') return `HTTP ${scheme.scheme || 'bearer'} authentication`;
+  if (scheme.type === 'apiKey') return `API key sent in the ${scheme.name} ${scheme.in}`;
+  if (scheme.type === 'oauth2') return 'OAuth 2.0 access token';
+  if (scheme.type === 'openIdConnect') return 'OpenID Connect access token';
+  return scheme.type;
+}
+
+function isObjectSchema(schema: OpenAPISchema): boolean {
+  return (schema.type === 'object' || (!schema.type && !!schema.properties)) && Object.keys(schema.properties || {}).length > 0;
+}
+
+function isNullable(schema: OpenAPISchema): boolean {
+  return schema.nullable === true || (Array.isArray(schema.type) && schema.type.includes('null'));
+}
+
+function withNull(type: string, schema: OpenAPISchema): string {
+  return schema.nullable && type !== 'null' && !type.split(' | ').includes('null') ? `${type} | null` : type;
+}
+
+function wrap(type: string): string {
+  return /[|&]/.test(type) && !type.startsWith('{') ? `(${type})` : type;
+}
+
+function unique(values: string[]): string[] {
+  return [...new Set(values)];
+}
+
+function isJsonMediaType(contentType: string): boolean {
+  return /^application\/(.+\+)?json$/i.test(contentType.split(';')[0].trim());
+}
+
+function fallbackName(method: string, path: string): string {
+  const segments = path
+    .split('/')
+    .filter(Boolean)
+    .map((segment) => (segment.startsWith('{') ? `By ${segment.slice(1, -1)}` : segment));
+  return [method, ...segments].join(' ');
+}
+
+function words(value: string): string[] {
+  return value
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean);
+}
+
+export function pascalCase(value: string): string {
+  const result = words(value)
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join('');
+  return /^[0-9]/.test(result) ? `_${result}` : result || 'Unnamed';
+}
+
+function camelCase(value: string): string {
+  const pascal = pascalCase(value);
+  return pascal.startsWith('_') ? pascal : pascal[0].toLowerCase() + pascal.slice(1);
+}
+
+function quote(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+function literalType(value: unknown): string {
+  return typeof value === 'string' ? quote(value) : JSON.stringify(value);
+}
+
+function propertyKey(key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : quote(key);
+}
+
+function accessor(key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `.${key}` : `[${quote(key)}]`;
+}
+
+function decodePointer(segment: string): string {
+  return segment.replace(/~1/g, '/').replace(/~0/g, '~');
+}
+
+function resolveRef(spec: OpenAPISpec, node: any, depth: number = 0): any {
+  if (!node || typeof node.$ref !== 'string' || !node.$ref.startsWith('#/') || depth > 10) return node || {};
+  const target = node.$ref
+    .slice(2)
+    .split('/')
+    .map(decodePointer)
+    .reduce((value: any, segment: string) => value?.[segment], spec);
+  return resolveRef(spec, target, depth + 1);
+}
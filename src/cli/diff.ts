@@ -0,0 +1,545 @@
+/**
+ * OpenAPI Spec Diff
+ * Compares two OpenAPI documents and classifies every change as breaking,
+ * non-breaking or informational from the point of view of existing clients.
+ */
+
+import type { ValidationResult, FormatterOptions } from './formatters';
+
+// ============================================================
+// Types
+// ============================================================
+
+export type ChangeSeverity = 'breaking' | 'non-breaking' | 'info';
+
+export interface SpecChange {
+  /** Stable rule identifier, e.g. 'operation-removed' */
+  id: string;
+  severity: ChangeSeverity;
+  message: string;
+  /** Location of the change, e.g. 'GET /users > query.page' */
+  path: string;
+}
+
+export interface DiffResult {
+  changes: SpecChange[];
+  summary: {
+    breaking: number;
+    nonBreaking: number;
+    info: number;
+  };
+}
+
+/** Requests flow client → server, responses server → client; compatibility rules are mirrored */
+type Direction = 'request' | 'response';
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+const MAX_SCHEMA_DEPTH = 20;
+
+// ============================================================
+// Diff
+// ============================================================
+
+/**
+ * Compare two specs and return all detected changes
+ */
+export function diffSpecs(oldSpec: any, newSpec: any): DiffResult {
+  const changes: SpecChange[] = [];
+  const ctx = new DiffContext(oldSpec, newSpec, changes);
+
+  if (oldSpec?.info?.version !== newSpec?.info?.version) {
+    ctx.add('api-version-changed', 'info', 'info.version', `API version changed from ${oldSpec?.info?.version} to ${newSpec?.info?.version}`);
+  }
+
+  const oldPaths = oldSpec?.paths || {};
+  const newPaths = newSpec?.paths || {};
+  const oldKeys = indexPaths(oldPaths);
+  const newKeys = indexPaths(newPaths);
+
+  for (const [normalized, oldPath] of oldKeys) {
+    const newPath = newKeys.get(normalized);
+    for (const method of HTTP_METHODS) {
+      const oldOp = oldPaths[oldPath]?.[method];
+      if (!oldOp) continue;
+
+      const label = `${method.toUpperCase()} ${newPath || oldPath}`;
+      const newOp = newPath ? newPaths[newPath]?.[method] : undefined;
+
+      if (!newOp) {
+        ctx.add('operation-removed', 'breaking', label, `Operation ${label} was removed`);
+      } else {
+        diffOperation(ctx, label, oldOp, newOp, oldPaths[oldPath], newPaths[newPath!]);
+      }
+    }
+  }
+
+  for (const [normalized, newPath] of newKeys) {
+    const oldPath = oldKeys.get(normalized);
+    for (const method of HTTP_METHODS) {
+      if (newPaths[newPath]?.[method] && !(oldPath && oldPaths[oldPath]?.[method])) {
+        const label = `${method.toUpperCase()} ${newPath}`;
+        ctx.add('operation-added', 'non-breaking', label, `Operation ${label} was added`);
+      }
+    }
+  }
+
+  return {
+    changes,
+    summary: {
+      breaking: changes.filter((c) => c.severity === 'breaking').length,
+      nonBreaking: changes.filter((c) => c.severity === 'non-breaking').length,
+      info: changes.filter((c) => c.severity === 'info').length,
+    },
+  };
+}
+
+class DiffContext {
+  constructor(
+    readonly oldSpec: any,
+    readonly newSpec: any,
+    private changes: SpecChange[]
+  ) {}
+
+  add(id: string, severity: ChangeSeverity, path: string, message: string): void {
+    this.changes.push({ id, severity, path, message });
+  }
+
+  resolveOld(schema: any): any {
+    return resolveRef(this.oldSpec, schema);
+  }
+
+  resolveNew(schema: any): any {
+    return resolveRef(this.newSpec, schema);
+  }
+}
+
+/**
+ * Map path templates to a parameter-name-agnostic key so /users/{id} and /users/{userId} match
+ */
+function indexPaths(paths: Record<string, any>): Map<string, string> {
+  const index = new Map<string, string>();
+  for (const path of Object.keys(paths)) {
+    index.set(path.replace(/\{[^}]+\}|:\w+/g, '{}'), path);
+  }
+  return index;
+}
+
+function diffOperation(ctx: DiffContext, label: string, oldOp: any, newOp: any, oldItem: any, newItem: any): void {
+  if (!oldOp.deprecated && newOp.deprecated) {
+    ctx.add('operation-deprecated', 'info', label, `Operation ${label} is now deprecated`);
+  }
+  if (oldOp.operationId && oldOp.operationId !== newOp.operationId) {
+    ctx.add('operation-id-changed', 'info', label, `operationId changed from "${oldOp.operationId}" to "${newOp.operationId}"`);
+  }
+  if ((oldOp.summary || '') !== (newOp.summary || '') || (oldOp.description || '') !== (newOp.description || '')) {
+    ctx.add('operation-docs-changed', 'info', label, 'Summary or description changed');
+  }
+
+  diffParameters(ctx, label, mergeParameters(ctx.oldSpec, oldItem, oldOp), mergeParameters(ctx.newSpec, newItem, newOp));
+  diffRequestBody(ctx, label, ctx.resolveOld(oldOp.requestBody), ctx.resolveNew(newOp.requestBody));
+  diffResponses(ctx, label, oldOp.responses || {}, newOp.responses || {});
+}
+
+// ============================================================
+// Parameters
+// ============================================================
+
+function mergeParameters(spec: any, pathItem: any, operation: any): Map<string, any> {
+  const params = new Map<string, any>();
+  for (const raw of [...(pathItem?.parameters || []), ...(operation.parameters || [])]) {
+    const param = resolveRef(spec, raw);
+    if (param?.name && param.in) {
+      params.set(`${param.in}.${param.in === 'header' ? param.name.toLowerCase() : param.name}`, param);
+    }
+  }
+  return params;
+}
+
+function diffParameters(ctx: DiffContext, label: string, oldParams: Map<string, any>, newParams: Map<string, any>): void {
+  // Path parameters are positional, so renames are not changes
+  const positional = (params: Map<string, any>) => [...params.values()].filter((p) => p.in === 'path');
+  const oldPathParams = positional(oldParams);
+  const newPathParams = positional(newParams);
+
+  oldPathParams.forEach((oldParam, index) => {
+    const newParam = newPathParams[index];
+    if (newParam) {
+      diffSchema(ctx, `${label} > path.${newParam.name}`, oldParam.schema, newParam.schema, 'request', 0);
+    }
+  });
+
+  for (const [key, oldParam] of oldParams) {
+    if (oldParam.in === 'path') continue;
+    const where = `${label} > ${key}`;
+    const newParam = newParams.get(key);
+
+    if (!newParam) {
+      ctx.add('parameter-removed', 'breaking', where, `Parameter "${oldParam.name}" (${oldParam.in}) was removed`);
+      continue;
+    }
+
+    if (!oldParam.required && newParam.required) {
+      ctx.add('parameter-became-required', 'breaking', where, `Parameter "${oldParam.name}" is now required`);
+    } else if (oldParam.required && !newParam.required) {
+      ctx.add('parameter-became-optional', 'non-breaking', where, `Parameter "${oldParam.name}" is now optional`);
+    }
+    if ((oldParam.description || '') !== (newParam.description || '')) {
+      ctx.add('parameter-description-changed', 'info', where, `Description of parameter "${oldParam.name}" changed`);
+    }
+
+    diffSchema(ctx, where, oldParam.schema, newParam.schema, 'request', 0);
+  }
+
+  for (const [key, newParam] of newParams) {
+    if (newParam.in === 'path' || oldParams.has(key)) continue;
+    const where = `${label} > ${key}`;
+
+    if (newParam.required) {
+      ctx.add('required-parameter-added', 'breaking', where, `Required parameter "${newParam.name}" (${newParam.in}) was added`);
+    } else {
+      ctx.add('optional-parameter-added', 'non-breaking', where, `Optional parameter "${newParam.name}" (${newParam.in}) was added`);
+    }
+  }
+}
+
+// ============================================================
+// Request bodies and responses
+// ============================================================
+
+function diffRequestBody(ctx: DiffContext, label: string, oldBody: any, newBody: any): void {
+  const where = `${label} > requestBody`;
+
+  if (!oldBody && !newBody) return;
+  if (!oldBody) {
+    ctx.add(
+      newBody.required ? 'required-request-body-added' : 'optional-request-body-added',
+      newBody.required ? 'breaking' : 'non-breaking',
+      where,
+      `${newBody.required ? 'Required' : 'Optional'} request body was added`
+    );
+    return;
+  }
+  if (!newBody) {
+    ctx.add('request-body-removed', 'breaking', where, 'Request body was removed');
+    return;
+  }
+
+  if (!oldBody.required && newBody.required) {
+    ctx.add('request-body-became-required', 'breaking', where, 'Request body is now required');
+  } else if (oldBody.required && !newBody.required) {
+    ctx.add('request-body-became-optional', 'non-breaking', where, 'Request body is now optional');
+  }
+
+  diffContent(ctx, where, oldBody.content || {}, newBody.content || {}, 'request');
+}
+
+function diffResponses(ctx: DiffContext, label: string, oldResponses: any, newResponses: any): void {
+  for (const code of Object.keys(oldResponses)) {
+    const where = `${label} > responses.${code}`;
+    if (!(code in newResponses)) {
+      ctx.add('response-removed', 'breaking', where, `Response ${code} was removed`);
+      continue;
+    }
+    const oldResponse = ctx.resolveOld(oldResponses[code]);
+    const newResponse = ctx.resolveNew(newResponses[code]);
+    diffContent(ctx, where, oldResponse?.content || {}, newResponse?.content || {}, 'response');
+  }
+
+  for (const code of Object.keys(newResponses)) {
+    if (!(code in oldResponses)) {
+      ctx.add('response-added', 'non-breaking', `${label} > responses.${code}`, `Response ${code} was added`);
+    }
+  }
+}
+
+function diffContent(ctx: DiffContext, where: string, oldContent: any, newContent: any, direction: Direction): void {
+  for (const media of Object.keys(oldContent)) {
+    if (!(media in newContent)) {
+      ctx.add('media-type-removed', 'breaking', `${where} > ${media}`, `Media type ${media} was removed`);
+      continue;
+    }
+    diffSchema(ctx, `${where} > ${media}`, oldContent[media]?.schema, newContent[media]?.schema, direction, 0);
+  }
+
+  for (const media of Object.keys(newContent)) {
+    if (!(media in oldContent)) {
+      ctx.add('media-type-added', 'non-breaking', `${where} > ${media}`, `Media type ${media} was added`);
+    }
+  }
+}
+
+// ============================================================
+// Schemas
+// ============================================================
+
+/**
+ * Compare two schemas. `visited` holds the (old, new) $ref pairs on the way to this schema,
+ * so a recursive schema stops at its first repeat while a $ref used by several properties
+ * is compared, and its changes reported, under each of them.
+ */
+function diffSchema(
+  ctx: DiffContext,
+  where: string,
+  rawOld: any,
+  rawNew: any,
+  direction: Direction,
+  depth: number,
+  visited: Set<string> = new Set()
+): void {
+  if (depth > MAX_SCHEMA_DEPTH) return;
+
+  const oldRef = typeof rawOld?.$ref === 'string' ? rawOld.$ref : undefined;
+  const newRef = typeof rawNew?.$ref === 'string' ? rawNew.$ref : undefined;
+  if (oldRef || newRef) {
+    const pair = `${oldRef || ''} -> ${newRef || ''}`;
+    if (visited.has(pair)) return;
+    visited = new Set(visited).add(pair);
+  }
+
+  const oldSchema = mergeAllOf(ctx.resolveOld(rawOld), (schema) => ctx.resolveOld(schema));
+  const newSchema = mergeAllOf(ctx.resolveNew(rawNew), (schema) => ctx.resolveNew(schema));
+  if (!oldSchema || !newSchema) return;
+
+  const oldType = normalizeType(oldSchema);
+  const newType = normalizeType(newSchema);
+  if (oldType && newType && oldType !== newType) {
+    ctx.add('type-changed', 'breaking', where, `Type changed from ${oldType} to ${newType}`);
+    return;
+  }
+
+  if (oldSchema.format !== newSchema.format && (oldSchema.format || newSchema.format)) {
+    ctx.add('format-changed', 'breaking', where, `Format changed from ${oldSchema.format || 'none'} to ${newSchema.format || 'none'}`);
+  }
+
+  if ((oldSchema.description || '') !== (newSchema.description || '')) {
+    ctx.add('description-changed', 'info', where, 'Description changed');
+  }
+
+  diffEnum(ctx, where, oldSchema.enum, newSchema.enum, direction);
+
+  if (isNullable(oldSchema) !== isNullable(newSchema)) {
+    // Accepting null is looser for requests, returning null is a surprise for clients
+    const loosened = isNullable(newSchema);
+    const breaking = loosened === (direction === 'response');
+    ctx.add(loosened ? 'became-nullable' : 'became-non-nullable', breaking ? 'breaking' : 'non-breaking', where, loosened ? 'Value may now be null' : 'Value may no longer be null');
+  }
+
+  if (oldSchema.items || newSchema.items) {
+    diffSchema(ctx, `${where}[]`, oldSchema.items, newSchema.items, direction, depth + 1, visited);
+  }
+
+  // oneOf/anyOf variants are compared by position
+  for (const keyword of ['oneOf', 'anyOf'] as const) {
+    const oldMembers: any[] = Array.isArray(oldSchema[keyword]) ? oldSchema[keyword] : [];
+    const newMembers: any[] = Array.isArray(newSchema[keyword]) ? newSchema[keyword] : [];
+    for (let i = 0; i < Math.min(oldMembers.length, newMembers.length); i++) {
+      diffSchema(ctx, `${where} (${keyword} ${i})`, oldMembers[i], newMembers[i], direction, depth + 1, visited);
+    }
+  }
+
+  diffProperties(ctx, where, oldSchema, newSchema, direction, depth, visited);
+}
+
+/**
+ * Fold allOf members into the schema, so properties of composed schemas (Zod
+ * intersections, `allOf: [$ref Base, {...}]`) are compared like its own
+ */
+function mergeAllOf(schema: any, resolve: (schema: any) => any, depth: number = 0): any {
+  if (!Array.isArray(schema?.allOf) || depth > MAX_SCHEMA_DEPTH) return schema;
+
+  const { allOf, ...merged } = schema;
+  const properties: Record<string, any> = {};
+  const required = new Set<string>();
+  for (const raw of allOf) {
+    const member = mergeAllOf(resolve(raw), resolve, depth + 1);
+    if (!member || typeof member !== 'object') continue;
+    merged.type ??= member.type;
+    Object.assign(properties, member.properties);
+    (member.required || []).forEach((name: string) => required.add(name));
+  }
+
+  Object.assign(properties, schema.properties);
+  (schema.required || []).forEach((name: string) => required.add(name));
+  return { ...merged, properties, required: [...required] };
+}
+
+function diffProperties(
+  ctx: DiffContext,
+  where: string,
+  oldSchema: any,
+  newSchema: any,
+  direction: Direction,
+  depth: number,
+  visited: Set<string>
+): void {
+  const oldProps = oldSchema.properties || {};
+  const newProps = newSchema.properties || {};
+  const oldRequired = new Set<string>(oldSchema.required || []);
+  const newRequired = new Set<string>(newSchema.required || []);
+
+  for (const name of Object.keys(oldProps)) {
+    const propPath = `${where}.${name}`;
+    if (!(name in newProps)) {
+      // Clients may rely on response fields; servers simply ignore unknown request fields
+      ctx.add(
+        'property-removed',
+        direction === 'response' ? 'breaking' : 'non-breaking',
+        propPath,
+        `Property "${name}" was removed`
+      );
+      continue;
+    }
+
+    if (!oldRequired.has(name) && newRequired.has(name)) {
+      ctx.add('property-became-required', direction === 'request' ? 'breaking' : 'non-breaking', propPath, `Property "${name}" is now required`);
+    } else if (oldRequired.has(name) && !newRequired.has(name)) {
+      ctx.add('property-became-optional', direction === 'response' ? 'breaking' : 'non-breaking', propPath, `Property "${name}" is now optional`);
+    }
+
+    diffSchema(ctx, propPath, oldProps[name], newProps[name], direction, depth + 1, visited);
+  }
+
+  for (const name of Object.keys(newProps)) {
+    if (name in oldProps) continue;
+    const propPath = `${where}.${name}`;
+
+    if (direction === 'request' && newRequired.has(name)) {
+      ctx.add('required-property-added', 'breaking', propPath, `Required property "${name}" was added`);
+    } else {
+      ctx.add(
+        direction === 'request' ? 'optional-property-added' : 'property-added',
+        'non-breaking',
+        propPath,
+        `${direction === 'request' ? 'Optional property' : 'Property'} "${name}" was added`
+      );
+    }
+  }
+}
+
+function diffEnum(ctx: DiffContext, where: string, oldEnum: unknown[] | undefined, newEnum: unknown[] | undefined, direction: Direction): void {
+  if (!oldEnum && !newEnum) return;
+
+  const oldValues = new Set((oldEnum || []).map((v) => JSON.stringify(v)));
+  const newValues = new Set((newEnum || []).map((v) => JSON.stringify(v)));
+
+  // A missing enum means "any value"; adding one restricts, removing one relaxes
+  if (!oldEnum) {
+    ctx.add('enum-added', direction === 'request' ? 'breaking' : 'non-breaking', where, 'Values are now restricted to an enum');
+    return;
+  }
+  if (!newEnum) {
+    ctx.add('enum-removed', direction === 'response' ? 'breaking' : 'non-breaking', where, 'Values are no longer restricted to an enum');
+    return;
+  }
+
+  const removed = [...oldValues].filter((v) => !newValues.has(v));
+  const added = [...newValues].filter((v) => !oldValues.has(v));
+
+  if (removed.length > 0) {
+    ctx.add('enum-value-removed', direction === 'request' ? 'breaking' : 'non-breaking', where, `Enum values removed: ${removed.join(', ')}`);
+  }
+  if (added.length > 0) {
+    ctx.add('enum-value-added', direction === 'response' ? 'breaking' : 'non-breaking', where, `Enum values added: ${added.join(', ')}`);
+  }
+}
+
+// ============================================================
+// Helpers
+// ============================================================
+
+function resolveRef(spec: any, value: any, seen: Set<string> = new Set()): any {
+  if (!value || typeof value !== 'object' || typeof value.$ref !== 'string') {
+    return value;
+  }
+  if (!value.$ref.startsWith('#/') || seen.has(value.$ref)) {
+    return undefined;
+  }
+  seen.add(value.$ref);
+
+  const target = value.$ref
+    .slice(2)
+    .split('/')
+    .map((segment: string) => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+    .reduce((node: any, segment: string) => node?.[segment], spec);
+
+  return resolveRef(spec, target, seen);
+}
+
+/** `nullable: true` in OpenAPI 3.0, 'null' in a type array in 3.1 */
+function isNullable(schema: any): boolean {
+  return !!schema.nullable || (Array.isArray(schema.type) && schema.type.includes('null'));
+}
+
+function normalizeType(schema: any): string | undefined {
+  if (Array.isArray(schema.type)) {
+    return schema.type.filter((t: string) => t !== 'null').sort().join('|') || undefined;
+  }
+  if (schema.type) return schema.type;
+  if (schema.properties) return 'object';
+  return undefined;
+}
+
+// ============================================================
+// Output
+// ============================================================
+
+const SEVERITY_MAP: Record<ChangeSeverity, ValidationResult['severity']> = {
+  breaking: 'error',
+  'non-breaking': 'warning',
+  info: 'info',
+};
+
+/**
+ * Convert a diff into formatter input so the CI formatters can render it
+ */
+export function toFormatterOptions(result: DiffResult, specPath: string, duration?: number): FormatterOptions {
+  return {
+    specPath,
+    results: result.changes.map((change) => ({
+      ruleId: change.id,
+      severity: SEVERITY_MAP[change.severity],
+      message: `[${change.severity}] ${change.path}: ${change.message}`,
+      path: change.path,
+    })),
+    stats: {
+      errors: result.summary.breaking,
+      warnings: result.summary.nonBreaking,
+      infos: result.summary.info,
+    },
+    duration,
+  };
+}
+
+/**
+ * Human-readable diff report
+ */
+export function formatDiffText(result: DiffResult, oldPath: string, newPath: string): string {
+  const lines: string[] = [`Comparing ${oldPath} → ${newPath}`, ''];
+
+  if (result.changes.length === 0) {
+    lines.push('No changes detected');
+    return lines.join('\n');
+  }
+
+  const groups: Array<[ChangeSeverity, string]> = [
+    ['breaking', 'Breaking changes'],
+    ['non-breaking', 'Non-breaking changes'],
+    ['info', 'Informational'],
+  ];
+
+  for (const [severity, title] of groups) {
+    const changes = result.changes.filter((c) => c.severity === severity);
+    if (changes.length === 0) continue;
+
+    lines.push(`${title} (${changes.length}):`);
+    for (const change of changes) {
+      lines.push(`  • ${change.path}: ${change.message}`);
+    }
+    lines.push('');
+  }
+
+  const { breaking, nonBreaking, info } = result.summary;
+  lines.push(`${breaking} breaking, ${nonBreaking} non-breaking, ${info} informational`);
+
+  return lines.join('\n');
+}
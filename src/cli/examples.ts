@@ -34,12 +34,21 @@ interface FieldPattern {
   generator: () => unknown;
 }
 
+// Dates of seeded examples count back from here instead of the current time
+const SEEDED_EPOCH = Date.UTC(2024, 0, 1);
+
 // Seeded random number generator for reproducibility
 class SeededRandom {
   private seed: number;
+  private seeded: boolean;
 
   constructor(seed?: number) {
     this.seed = seed ?? Date.now();
+    this.seeded = seed !== undefined;
+  }
+
+  now(): number {
+    return this.seeded ? SEEDED_EPOCH : Date.now();
   }
 
   next(): number {
@@ -116,9 +125,8 @@ function generateImageUrl(): string {
 }
 
 function generateDateTime(): string {
-  const now = new Date();
   const daysAgo = random.int(0, 365);
-  const date = new Date(now.getTime() - daysAgo * 24 * 60 * 60 * 1000);
+  const date = new Date(random.now() - daysAgo * 24 * 60 * 60 * 1000);
   return date.toISOString();
 }
 
@@ -277,16 +285,37 @@ function matchFieldPattern(fieldName: string): (() => unknown) | null {
   return null;
 }
 
-function generateExampleForSchema(
+function matchesType(value: unknown, type: string | undefined): boolean {
+  switch (type) {
+    case undefined:
+      return true;
+    case 'integer':
+      return Number.isInteger(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+/**
+ * Generate an example value for a schema: explicit examples first, then enum values,
+ * field-name patterns and finally type/format-based values
+ */
+export function generateExampleForSchema(
   schema: OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject | undefined,
   fieldName: string,
   spec: OpenAPIV3.Document,
   depth: number = 0
 ): unknown {
-  if (!schema || depth > 10) return null;
-  
+  if (!schema) return null;
+
   // Resolve $ref
   if ('$ref' in schema) {
+    // Recursive schemas stop here: arrays stay short and optional properties are left out
+    if (depth > 10) return undefined;
     const refPath = (schema as OpenAPIV3.ReferenceObject).$ref.replace('#/components/schemas/', '');
     const resolved = spec.components?.schemas?.[refPath] as OpenAPIV3.SchemaObject;
     return generateExampleForSchema(resolved, fieldName, spec, depth + 1);
@@ -294,22 +323,28 @@ function generateExampleForSchema(
 
   const s = schema as OpenAPIV3.SchemaObject;
 
-  // Use existing example if present
+  // Use existing example if present (OpenAPI 3.1 schemas use examples arrays and const)
   if (s.example !== undefined) return s.example;
+  const { examples, const: constValue } = s as { examples?: unknown[]; const?: unknown };
+  if (Array.isArray(examples) && examples.length > 0) return examples[0];
+  if (constValue !== undefined) return constValue;
 
   // Check enum FIRST - always use enum values if specified
   if (s.enum && s.enum.length > 0) {
     return random.pick(s.enum as unknown[]);
   }
 
-  // Check if field name matches a known pattern
+  // Handle by type, using the first non-null type of an OpenAPI 3.1 type array
+  const type = Array.isArray(s.type) ? (s.type as string[]).find((t) => t !== 'null') : s.type;
+
+  // Check if field name matches a known pattern, keeping only values of the declared type
   const patternGenerator = matchFieldPattern(fieldName);
   if (patternGenerator) {
-    return patternGenerator();
+    const value = patternGenerator();
+    if (matchesType(value, type)) return value;
   }
 
-  // Handle by type
-  switch (s.type) {
+  switch (type) {
     case 'string':
       // Check format first
       if (s.format === 'email') return generateEmail();
@@ -336,7 +371,7 @@ function generateExampleForSchema(
     case 'number':
       const min = s.minimum ?? 0;
       const max = s.maximum ?? 1000;
-      const num = s.type === 'integer' 
+      const num = type === 'integer' 
         ? random.int(Math.ceil(min), Math.floor(max))
         : Math.round((min + random.next() * (max - min)) * 100) / 100;
       return num;
@@ -349,7 +384,8 @@ function generateExampleForSchema(
       const count = random.int(1, 3);
       const items: unknown[] = [];
       for (let i = 0; i < count; i++) {
-        items.push(generateExampleForSchema(itemSchema, fieldName, spec, depth + 1));
+        const item = generateExampleForSchema(itemSchema, fieldName, spec, depth + 1);
+        if (item !== undefined) items.push(item);
       }
       return items;
 
@@ -357,12 +393,17 @@ function generateExampleForSchema(
       const obj: Record<string, unknown> = {};
       if (s.properties) {
         for (const [key, propSchema] of Object.entries(s.properties)) {
-          obj[key] = generateExampleForSchema(
+          const value = generateExampleForSchema(
             propSchema as OpenAPIV3.SchemaObject,
             key,
             spec,
             depth + 1
           );
+          if (value !== undefined) {
+            obj[key] = value;
+          } else if (s.required?.includes(key)) {
+            obj[key] = null;
+          }
         }
       }
       return obj;
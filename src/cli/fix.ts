@@ -0,0 +1,114 @@
+/**
+ * Spec Auto-Fix
+ * Applies the edits attached to lint findings to a spec file's content.
+ * JSON keeps its indentation and key order; YAML keeps comments, key order and styles.
+ */
+
+import * as YAML from 'yaml';
+import { lintSpec, LintFinding, LintOptions, SpecEdit } from './lint';
+
+export interface FixResult {
+  /** Updated file content */
+  content: string;
+  /** Updated spec object */
+  spec: any;
+  /** Findings resolved by an applied fix */
+  applied: LintFinding[];
+  /** Findings left after fixing */
+  remaining: LintFinding[];
+}
+
+/** Fixes can expose new findings (e.g. a generated operationId colliding), so re-lint a few times */
+const MAX_PASSES = 5;
+
+// ============================================================================
+// Edits
+// ============================================================================
+
+/**
+ * Apply an edit to a plain object, creating intermediate objects as needed
+ */
+export function applyEdit(target: any, edit: SpecEdit): void {
+  const parents = edit.path.slice(0, -1);
+  const key = edit.path[edit.path.length - 1];
+  let node = target;
+
+  for (const segment of parents) {
+    if (node[segment] === undefined || node[segment] === null) {
+      if (edit.op === 'delete') return;
+      node[segment] = {};
+    }
+    node = node[segment];
+  }
+
+  if (edit.op === 'delete') {
+    delete node[key];
+  } else {
+    node[key] = edit.value;
+  }
+}
+
+function applyYamlEdit(doc: YAML.Document, edit: SpecEdit): void {
+  if (edit.op === 'delete') {
+    doc.deleteIn(edit.path);
+  } else {
+    doc.setIn(edit.path, doc.createNode(edit.value));
+  }
+}
+
+/**
+ * Describe an edit for summaries, e.g. "set operationId = \"getUsers\""
+ */
+export function describeEdit(edit: SpecEdit): string {
+  const key = edit.path[edit.path.length - 1];
+  return edit.op === 'delete' ? `remove ${key}` : `set ${key} = ${JSON.stringify(edit.value)}`;
+}
+
+// ============================================================================
+// Fixing
+// ============================================================================
+
+function detectIndent(content: string): string | number {
+  const match = content.match(/^[ \t]+(?=["}\]])/m);
+  return match ? match[0] : 2;
+}
+
+/**
+ * Lint the spec content and apply every available fix.
+ * Only rules selected by `options` (groups and config) are fixed.
+ */
+export function fixSpec(content: string, format: 'json' | 'yaml', options: LintOptions = {}): FixResult {
+  const doc = format === 'yaml' ? YAML.parseDocument(content) : null;
+  if (doc && doc.errors.length > 0) {
+    throw new Error(doc.errors[0].message);
+  }
+  const spec = doc ? doc.toJS() : JSON.parse(content);
+  const applied: LintFinding[] = [];
+
+  for (let pass = 0; pass < MAX_PASSES; pass++) {
+    const fixable = lintSpec(spec, options).filter((finding) => finding.fix && finding.fix.length > 0);
+    if (fixable.length === 0) break;
+
+    for (const finding of fixable) {
+      for (const edit of finding.fix!) {
+        applyEdit(spec, edit);
+        if (doc) applyYamlEdit(doc, edit);
+      }
+    }
+    applied.push(...fixable);
+  }
+
+  let updated = content;
+  if (applied.length > 0) {
+    updated = doc
+      ? doc.toString()
+      : JSON.stringify(spec, null, detectIndent(content)) + (content.endsWith('\n') ? '\n' : '');
+  }
+
+  return {
+    content: updated,
+    spec,
+    applied,
+    remaining: lintSpec(spec, options),
+  };
+}
@@ -22,6 +22,10 @@ export interface FormatterOptions {
     infos: number;
   };
   duration?: number;
+  /** Descriptions of the rules that produced the results (used by SARIF) */
+  rules?: Array<{ id: string; description: string; hint?: string }>;
+  /** Tool version reported by SARIF */
+  toolVersion?: string;
 }
 
 /**
@@ -301,6 +305,50 @@ export function formatGitLabCodeQuality(options: FormatterOptions): string {
   return JSON.stringify(issues, null, 2);
 }
 
+/**
+ * Format results as SARIF 2.1.0
+ * Compatible with GitHub code scanning and other static analysis dashboards
+ */
+export function formatSarif(options: FormatterOptions): string {
+  const { specPath, results, rules = [] } = options;
+  const ruleIds = Array.from(new Set(results.map(r => r.ruleId)));
+  const describeRule = (id: string) => {
+    const rule = rules.find(r => r.id === id);
+    return {
+      id,
+      shortDescription: { text: rule?.description || id },
+      ...(rule?.hint ? { help: { text: rule.hint } } : {}),
+    };
+  };
+
+  const sarif = {
+    $schema: 'https://raw.githubusercontent.com/oasis-tcs/sarif-spec/master/Schemata/sarif-schema-2.1.0.json',
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: 'express-swagger-auto',
+          ...(options.toolVersion ? { version: options.toolVersion } : {}),
+          rules: ruleIds.map(describeRule),
+        },
+      },
+      results: results.map(result => ({
+        ruleId: result.ruleId,
+        level: result.severity === 'info' ? 'note' : result.severity,
+        message: { text: result.message },
+        locations: [{
+          physicalLocation: {
+            artifactLocation: { uri: specPath },
+            region: { startLine: result.line || 1, startColumn: result.column || 1 },
+          },
+        }],
+      })),
+    }],
+  };
+
+  return JSON.stringify(sarif, null, 2);
+}
+
 /**
  * Get formatter by name
  */
@@ -313,6 +361,7 @@ export function getFormatter(format: string): (options: FormatterOptions) => str
     codeclimate: formatCodeClimate,
     markdown: formatMarkdown,
     gitlab: formatGitLabCodeQuality,
+    sarif: formatSarif,
   };
   
   const formatter = formatters[format.toLowerCase()];
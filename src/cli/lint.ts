@@ -0,0 +1,728 @@
+/**
+ * Spec Lint Rule Engine
+ * Runs built-in and custom rules against an OpenAPI specification.
+ * Rules are configured from .swagger-autorc under `lint.rules`.
+ */
+
+import * as path from 'path';
+import { STATUS_CODES } from 'http';
+
+export type LintSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * Rule setting from config: a severity, 'off', or [severity, options]
+ */
+export type LintRuleSetting =
+  | LintSeverity
+  | 'off'
+  | [LintSeverity | 'off']
+  | [LintSeverity | 'off', Record<string, unknown>];
+
+/**
+ * Rule groups decide when a rule runs without explicit configuration:
+ * 'recommended' always, 'strict' with --strict, 'security' with --security-audit.
+ * Rules without a group (e.g. custom rules) always run.
+ */
+export type LintRuleGroup = 'recommended' | 'strict' | 'security';
+
+export interface LintConfig {
+  /** Per-rule settings keyed by rule id */
+  rules?: Record<string, LintRuleSetting>;
+  /** Local JS modules exporting custom rules */
+  plugins?: string[];
+}
+
+/**
+ * A deterministic change to the spec, addressed by key path (e.g. ['paths', '/users', 'get', 'operationId'])
+ */
+export type SpecEdit =
+  | { op: 'set'; path: Array<string | number>; value: unknown }
+  | { op: 'delete'; path: Array<string | number> };
+
+export interface LintReport {
+  path: string;
+  message: string;
+  /** Edits that resolve the problem, applied by `validate --fix` */
+  fix?: SpecEdit[];
+}
+
+export interface LintContext {
+  /** Rule options merged over the rule's defaults */
+  options: Record<string, any>;
+  /** Report a problem at a JSON pointer-like path */
+  report(issue: LintReport): void;
+}
+
+export interface LintRule {
+  id: string;
+  description: string;
+  /** Severity used when the config does not override it */
+  severity: LintSeverity;
+  /** How to fix a reported problem */
+  hint?: string;
+  group?: LintRuleGroup;
+  defaultOptions?: Record<string, unknown>;
+  check(spec: any, context: LintContext): void;
+}
+
+export interface LintFinding {
+  ruleId: string;
+  severity: LintSeverity;
+  path: string;
+  message: string;
+  hint?: string;
+  fix?: SpecEdit[];
+}
+
+export interface LintOptions {
+  /** Groups to run in addition to explicitly configured rules (default: ['recommended']) */
+  groups?: LintRuleGroup[];
+  config?: LintConfig;
+  /** Rules to lint with (default: builtinRules) */
+  rules?: LintRule[];
+}
+
+const SEVERITIES = ['error', 'warning', 'info', 'off'];
+const HTTP_METHODS = ['get', 'post', 'put', 'delete', 'patch', 'head', 'options'];
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+interface OperationEntry {
+  pathKey: string;
+  method: string;
+  operation: any;
+  pointer: string;
+}
+
+function eachOperation(spec: any, methods: string[] = HTTP_METHODS): OperationEntry[] {
+  const entries: OperationEntry[] = [];
+
+  for (const [pathKey, pathItem] of Object.entries(spec?.paths || {})) {
+    if (typeof pathItem !== 'object' || pathItem === null) continue;
+
+    for (const method of methods) {
+      const operation = (pathItem as any)[method];
+      if (!operation) continue;
+      entries.push({ pathKey, method, operation, pointer: `/paths/${pathKey}/${method}` });
+    }
+  }
+
+  return entries;
+}
+
+const CASING_PATTERNS: Record<string, RegExp> = {
+  camelCase: /^[a-z][a-zA-Z0-9]*$/,
+  PascalCase: /^[A-Z][a-zA-Z0-9]*$/,
+  snake_case: /^[a-z][a-z0-9]*(_[a-z0-9]+)*$/,
+  'kebab-case': /^[a-z][a-z0-9]*(-[a-z0-9]+)*$/,
+};
+
+/**
+ * Whether a name follows a casing style, or any of several styles
+ */
+function matchesCasing(value: string, style: string | string[]): boolean {
+  const patterns = ([] as string[]).concat(style).map((name) => CASING_PATTERNS[name]).filter(Boolean);
+  return patterns.length === 0 || patterns.some((pattern) => pattern.test(value));
+}
+
+function casingName(style: string | string[]): string {
+  return ([] as string[]).concat(style).join(' or ');
+}
+
+function isPathParameter(segment: string): boolean {
+  return /^\{.+\}$/.test(segment) || segment.startsWith(':');
+}
+
+function toPascalCase(value: string): string {
+  return value
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join('');
+}
+
+/**
+ * Build a camelCase operationId from method and path, e.g. GET /users/{id} -> getUsersById
+ */
+function generateOperationId(method: string, pathKey: string): string {
+  const segments = pathKey
+    .split('/')
+    .filter(Boolean)
+    .map((segment) => (isPathParameter(segment) ? `By${toPascalCase(segment)}` : toPascalCase(segment)));
+
+  return `${method.toLowerCase()}${segments.join('') || 'Root'}`;
+}
+
+function uniqueName(base: string, used: Set<string>): string {
+  let name = base;
+  for (let index = 2; used.has(name); index++) {
+    name = `${base}${index}`;
+  }
+  used.add(name);
+  return name;
+}
+
+/**
+ * Derive a tag from the first meaningful path segment, e.g. /api/user-profiles -> "User Profiles"
+ */
+function tagFromPath(pathKey: string): string {
+  const segments = pathKey.split('/').filter((segment) => segment && !isPathParameter(segment));
+  const segment = segments.find((part) => !/^(api|v\d+)$/i.test(part));
+  if (!segment) return 'default';
+
+  return segment
+    .split(/[-_]/)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
+    .join(' ');
+}
+
+function statusDescription(code: string): string {
+  if (code === 'default') return 'Unexpected error';
+  if (/^[1-5]XX$/i.test(code)) {
+    return { '1': 'Informational', '2': 'Success', '3': 'Redirection', '4': 'Client error', '5': 'Server error' }[code[0]]!;
+  }
+  return STATUS_CODES[code] || 'Response';
+}
+
+function resolveRef(spec: any, schema: any): any {
+  if (!schema?.$ref || typeof schema.$ref !== 'string' || !schema.$ref.startsWith('#/')) {
+    return schema;
+  }
+  return schema.$ref
+    .slice(2)
+    .split('/')
+    .reduce((target: any, key: string) => target?.[key], spec);
+}
+
+// ============================================================================
+// Built-in Rules
+// ============================================================================
+
+const openapiStructure: LintRule = {
+  id: 'openapi-structure',
+  description: 'Spec declares openapi 3.x, info.title, info.version and paths',
+  severity: 'error',
+  hint: 'Add the missing top-level fields required by the OpenAPI 3 specification',
+  group: 'recommended',
+  check(spec, { report }) {
+    if (!spec.openapi) {
+      report({ path: '/openapi', message: 'Missing required field: openapi' });
+    } else if (!String(spec.openapi).startsWith('3.')) {
+      report({ path: '/openapi', message: `Unsupported OpenAPI version: ${spec.openapi}. Expected 3.x` });
+    }
+
+    if (!spec.info) {
+      report({ path: '/info', message: 'Missing required field: info' });
+    } else {
+      if (!spec.info.title) {
+        report({ path: '/info/title', message: 'Missing required field: info.title' });
+      }
+      if (!spec.info.version) {
+        report({ path: '/info/version', message: 'Missing required field: info.version' });
+      }
+    }
+
+    if (!spec.paths) {
+      report({ path: '/paths', message: 'Missing required field: paths' });
+    }
+  },
+};
+
+const noUnresolvedRefs: LintRule = {
+  id: 'no-unresolved-refs',
+  description: 'Every local $ref points at an existing definition',
+  severity: 'error',
+  hint: 'Define the referenced schema under components or fix the $ref path',
+  group: 'strict',
+  check(spec, { report }) {
+    const visit = (node: any, pointer: string): void => {
+      if (!node || typeof node !== 'object') return;
+
+      if (typeof node.$ref === 'string' && node.$ref.startsWith('#/') && !resolveRef(spec, node)) {
+        report({ path: pointer, message: `Unresolved reference: ${node.$ref}` });
+      }
+
+      for (const [key, value] of Object.entries(node)) {
+        if (Array.isArray(value)) {
+          value.forEach((item, index) => visit(item, `${pointer}/${key}/${index}`));
+        } else if (typeof value === 'object' && value !== null) {
+          visit(value, `${pointer}/${key}`);
+        }
+      }
+    };
+
+    visit(spec, '');
+  },
+};
+
+const operationIdUnique: LintRule = {
+  id: 'operation-operationId-unique',
+  description: 'operationId values are unique across the spec',
+  severity: 'error',
+  hint: 'Rename one of the operations so each operationId is unique',
+  group: 'strict',
+  check(spec, { report }) {
+    const operations = eachOperation(spec);
+    const used = new Set<string>(operations.map(({ operation }) => operation.operationId).filter(Boolean));
+    const seen = new Set<string>();
+
+    for (const { pathKey, method, operation, pointer } of operations) {
+      if (!operation.operationId) continue;
+      if (seen.has(operation.operationId)) {
+        const renamed = uniqueName(generateOperationId(method, pathKey), used);
+        report({
+          path: pointer,
+          message: `Duplicate operationId: ${operation.operationId}`,
+          fix: [{ op: 'set', path: ['paths', pathKey, method, 'operationId'], value: renamed }],
+        });
+      }
+      seen.add(operation.operationId);
+    }
+  },
+};
+
+const operationIdPresent: LintRule = {
+  id: 'operation-operationId',
+  description: 'Operations declare an operationId',
+  severity: 'warning',
+  hint: 'Add an operationId such as getUsers',
+  group: 'strict',
+  check(spec, { report }) {
+    const operations = eachOperation(spec);
+    const used = new Set<string>(operations.map(({ operation }) => operation.operationId).filter(Boolean));
+
+    for (const { pathKey, method, operation, pointer } of operations) {
+      if (!operation.operationId) {
+        report({
+          path: pointer,
+          message: 'Missing operationId',
+          fix: [{ op: 'set', path: ['paths', pathKey, method, 'operationId'], value: uniqueName(generateOperationId(method, pathKey), used) }],
+        });
+      }
+    }
+  },
+};
+
+const operationResponses: LintRule = {
+  id: 'operation-responses',
+  description: 'Operations document at least one response',
+  severity: 'error',
+  hint: 'Add a responses entry, e.g. "200": { "description": "OK" }',
+  group: 'strict',
+  check(spec, { report }) {
+    for (const { operation, pointer } of eachOperation(spec)) {
+      if (!operation.responses || Object.keys(operation.responses).length === 0) {
+        report({ path: pointer, message: 'Operation must have at least one response' });
+      }
+    }
+  },
+};
+
+const operationDescription: LintRule = {
+  id: 'operation-description',
+  description: 'Operations have a summary or description',
+  severity: 'warning',
+  hint: 'Add a summary describing what the operation does',
+  group: 'strict',
+  check(spec, { report }) {
+    for (const { operation, pointer } of eachOperation(spec)) {
+      if (!operation.summary && !operation.description) {
+        report({ path: pointer, message: 'Missing summary or description' });
+      }
+    }
+  },
+};
+
+const operationTags: LintRule = {
+  id: 'operation-tags',
+  description: 'Operations are grouped with at least one tag',
+  severity: 'warning',
+  hint: 'Add a tags array, e.g. ["Users"]',
+  group: 'strict',
+  check(spec, { report }) {
+    for (const { pathKey, method, operation, pointer } of eachOperation(spec)) {
+      if (!operation.tags || operation.tags.length === 0) {
+        report({
+          path: pointer,
+          message: 'Missing tags',
+          fix: [{ op: 'set', path: ['paths', pathKey, method, 'tags'], value: [tagFromPath(pathKey)] }],
+        });
+      }
+    }
+  },
+};
+
+const responseDescription: LintRule = {
+  id: 'response-description',
+  description: 'Responses have a description, as required by OpenAPI',
+  severity: 'warning',
+  hint: 'Add a description to the response, e.g. "Not Found"',
+  group: 'strict',
+  check(spec, { report }) {
+    for (const { pathKey, method, operation, pointer } of eachOperation(spec)) {
+      for (const [code, response] of Object.entries(operation.responses || {})) {
+        if (!response || typeof response !== 'object' || (response as any).$ref || (response as any).description) {
+          continue;
+        }
+        report({
+          path: `${pointer}/responses/${code}`,
+          message: `Response ${code} has no description`,
+          fix: [{ op: 'set', path: ['paths', pathKey, method, 'responses', code, 'description'], value: statusDescription(code) }],
+        });
+      }
+    }
+  },
+};
+
+const pathKebabCase: LintRule = {
+  id: 'path-kebab-case',
+  description: 'Static path segments are lowercase kebab-case',
+  severity: 'warning',
+  hint: 'Rename path segments like /userProfiles or /user_profiles to /user-profiles',
+  group: 'strict',
+  check(spec, { report }) {
+    for (const pathKey of Object.keys(spec.paths || {})) {
+      const invalid = pathKey
+        .split('/')
+        .filter((segment) => segment && !isPathParameter(segment))
+        .filter((segment) => !matchesCasing(segment, 'kebab-case'));
+
+      if (invalid.length > 0) {
+        report({ path: `/paths/${pathKey}`, message: `Path segment "${invalid[0]}" is not kebab-case` });
+      }
+    }
+  },
+};
+
+const operationIdCasing: LintRule = {
+  id: 'operation-id-casing',
+  description: 'operationId values follow one casing style',
+  severity: 'warning',
+  hint: 'Rename the operationId to match the configured style (camelCase or snake_case by default)',
+  group: 'strict',
+  // snake_case is what SpecGenerator names operations (get_users_id)
+  defaultOptions: { style: ['camelCase', 'snake_case'] },
+  check(spec, { report, options }) {
+    for (const { operation, pointer } of eachOperation(spec)) {
+      const id = operation.operationId;
+      if (typeof id === 'string' && !matchesCasing(id, options.style)) {
+        report({ path: pointer, message: `operationId "${id}" is not ${casingName(options.style)}` });
+      }
+    }
+  },
+};
+
+const schemaPropertyNaming: LintRule = {
+  id: 'schema-property-naming',
+  description: 'Component schema property names follow one casing style',
+  severity: 'warning',
+  hint: 'Rename the property to match the configured style (camelCase by default)',
+  group: 'strict',
+  defaultOptions: { style: 'camelCase' },
+  check(spec, { report, options }) {
+    const visit = (schema: any, pointer: string, depth: number): void => {
+      if (!schema || typeof schema !== 'object' || depth > 16) return;
+
+      for (const [name, child] of Object.entries(schema.properties || {})) {
+        if (!matchesCasing(name, options.style)) {
+          report({ path: `${pointer}/properties/${name}`, message: `Property "${name}" is not ${casingName(options.style)}` });
+        }
+        visit(child, `${pointer}/properties/${name}`, depth + 1);
+      }
+      if (schema.items) {
+        visit(schema.items, `${pointer}/items`, depth + 1);
+      }
+      for (const keyword of ['allOf', 'oneOf', 'anyOf']) {
+        (schema[keyword] || []).forEach((member: any, index: number) =>
+          visit(member, `${pointer}/${keyword}/${index}`, depth + 1)
+        );
+      }
+    };
+
+    for (const [name, schema] of Object.entries(spec.components?.schemas || {})) {
+      visit(schema, `/components/schemas/${name}`, 0);
+    }
+  },
+};
+
+const paginationParams: LintRule = {
+  id: 'pagination-params',
+  description: 'GET operations returning arrays accept pagination parameters',
+  severity: 'info',
+  hint: 'Add query parameters such as limit and offset (or cursor) to list endpoints',
+  group: 'strict',
+  defaultOptions: { parameters: ['page', 'limit', 'offset', 'cursor', 'pageSize', 'perPage', 'per_page'] },
+  check(spec, { report, options }) {
+    const names = new Set<string>(options.parameters);
+
+    for (const { pathKey, operation, pointer } of eachOperation(spec, ['get'])) {
+      const returnsArray = Object.entries(operation.responses || {}).some(
+        ([code, response]: [string, any]) =>
+          code.startsWith('2') &&
+          Object.values(resolveRef(spec, response)?.content || {}).some(
+            (media: any) => resolveRef(spec, media?.schema)?.type === 'array'
+          )
+      );
+      if (!returnsArray) continue;
+
+      const parameters = [
+        ...((spec.paths[pathKey] as any).parameters || []),
+        ...(operation.parameters || []),
+      ].map((parameter) => resolveRef(spec, parameter));
+
+      if (!parameters.some((parameter) => parameter?.in === 'query' && names.has(parameter.name))) {
+        report({ path: pointer, message: `List endpoint GET ${pathKey} has no pagination parameters` });
+      }
+    }
+  },
+};
+
+const errorResponses: LintRule = {
+  id: 'error-responses',
+  description: 'Operations document at least one 4xx, 5xx or default response',
+  severity: 'warning',
+  hint: 'Document the error responses clients should handle, e.g. "400" or "default"',
+  group: 'strict',
+  check(spec, { report }) {
+    for (const { operation, pointer } of eachOperation(spec)) {
+      const codes = Object.keys(operation.responses || {});
+      if (codes.length === 0) continue;
+
+      if (!codes.some((code) => code === 'default' || code.startsWith('4') || code.startsWith('5'))) {
+        report({ path: pointer, message: 'No error responses documented' });
+      }
+    }
+  },
+};
+
+const descriptionQuality: LintRule = {
+  id: 'description-quality',
+  description: 'Summaries and descriptions are meaningful, not placeholders',
+  severity: 'info',
+  hint: 'Write a sentence explaining the behaviour instead of a placeholder',
+  group: 'strict',
+  defaultOptions: { minLength: 10, placeholders: ['todo', 'tbd', 'fixme', 'description', 'summary', 'n/a'] },
+  check(spec, { report, options }) {
+    const placeholders = new Set<string>(options.placeholders.map((value: string) => value.toLowerCase()));
+    const checkText = (text: unknown, pointer: string, label: string): void => {
+      if (typeof text !== 'string') return;
+      const trimmed = text.trim();
+
+      if (placeholders.has(trimmed.toLowerCase())) {
+        report({ path: pointer, message: `${label} is a placeholder: "${trimmed}"` });
+      } else if (trimmed.length < options.minLength) {
+        report({ path: pointer, message: `${label} is shorter than ${options.minLength} characters` });
+      }
+    };
+
+    checkText(spec.info?.description, '/info/description', 'API description');
+
+    for (const { operation, pointer } of eachOperation(spec)) {
+      checkText(operation.description, `${pointer}/description`, 'Description');
+      if (
+        typeof operation.description === 'string' &&
+        operation.description.trim() === operation.summary?.trim()
+      ) {
+        report({ path: `${pointer}/description`, message: 'Description repeats the summary' });
+      }
+    }
+  },
+};
+
+const securitySchemesDefined: LintRule = {
+  id: 'security-schemes-defined',
+  description: 'Spec defines at least one security scheme',
+  severity: 'warning',
+  hint: 'Add components.securitySchemes, e.g. a bearer token scheme',
+  group: 'security',
+  check(spec, { report }) {
+    if (!spec.components?.securitySchemes) {
+      report({ path: '/components/securitySchemes', message: 'No security schemes defined' });
+    }
+  },
+};
+
+const noEmptySecuritySchemes: LintRule = {
+  id: 'no-empty-security-schemes',
+  description: 'components.securitySchemes is not an empty object',
+  severity: 'warning',
+  hint: 'Define a security scheme or remove the empty securitySchemes object',
+  group: 'security',
+  check(spec, { report }) {
+    const schemes = spec.components?.securitySchemes;
+    if (schemes && typeof schemes === 'object' && Object.keys(schemes).length === 0) {
+      report({
+        path: '/components/securitySchemes',
+        message: 'Security schemes object is empty',
+        fix: [{ op: 'delete', path: ['components', 'securitySchemes'] }],
+      });
+    }
+  },
+};
+
+const SENSITIVE_PATHS = ['/users', '/admin', '/account', '/auth', '/profile', '/settings'];
+const AUDITED_METHODS = ['get', 'post', 'put', 'delete', 'patch'];
+
+function findUnsecuredOperations(spec: any): OperationEntry[] {
+  const hasGlobalSecurity = Array.isArray(spec.security) && spec.security.length > 0;
+
+  return eachOperation(spec, AUDITED_METHODS).filter(({ operation }) =>
+    operation.security !== undefined ? operation.security.length === 0 : !hasGlobalSecurity
+  );
+}
+
+const securitySensitiveEndpoints: LintRule = {
+  id: 'security-sensitive-endpoints',
+  description: 'Mutating operations on sensitive paths require security',
+  severity: 'warning',
+  hint: 'Add a security requirement to the operation or globally',
+  group: 'security',
+  check(spec, { report }) {
+    for (const { pathKey, method, pointer } of findUnsecuredOperations(spec)) {
+      const isSensitive = SENSITIVE_PATHS.some((pattern) => pathKey.toLowerCase().includes(pattern));
+      if (isSensitive && method !== 'get') {
+        report({ path: pointer, message: `Sensitive endpoint without security: ${method.toUpperCase()} ${pathKey}` });
+      }
+    }
+  },
+};
+
+const securityOperationsCovered: LintRule = {
+  id: 'security-operations-covered',
+  description: 'Operations are covered by a security requirement',
+  severity: 'warning',
+  hint: 'Declare a global security requirement or one per operation',
+  group: 'security',
+  check(spec, { report }) {
+    const hasGlobalSecurity = Array.isArray(spec.security) && spec.security.length > 0;
+    const unsecured = findUnsecuredOperations(spec).length;
+
+    if (unsecured > 0 && !hasGlobalSecurity) {
+      report({ path: '/security', message: `${unsecured} operation(s) have no security requirements` });
+    }
+  },
+};
+
+export const builtinRules: LintRule[] = [
+  openapiStructure,
+  noUnresolvedRefs,
+  operationIdUnique,
+  operationIdPresent,
+  operationResponses,
+  operationDescription,
+  operationTags,
+  responseDescription,
+  pathKebabCase,
+  operationIdCasing,
+  schemaPropertyNaming,
+  paginationParams,
+  errorResponses,
+  descriptionQuality,
+  securitySchemesDefined,
+  noEmptySecuritySchemes,
+  securitySensitiveEndpoints,
+  securityOperationsCovered,
+];
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/**
+ * Normalize a rule setting into severity and options
+ */
+function parseSetting(setting: LintRuleSetting): { severity: LintSeverity | 'off'; options: Record<string, unknown> } {
+  if (Array.isArray(setting)) {
+    return { severity: setting[0], options: setting[1] || {} };
+  }
+  return { severity: setting, options: {} };
+}
+
+/**
+ * Check lint config against the known rules
+ */
+export function validateLintConfig(config: LintConfig, rules: LintRule[] = builtinRules): string[] {
+  const errors: string[] = [];
+  const known = new Set(rules.map((rule) => rule.id));
+
+  for (const [id, setting] of Object.entries(config.rules || {})) {
+    if (!known.has(id)) {
+      errors.push(`Unknown lint rule: ${id}`);
+      continue;
+    }
+    const severity = Array.isArray(setting) ? setting[0] : setting;
+    if (!SEVERITIES.includes(severity as string)) {
+      errors.push(`Invalid severity for lint rule ${id}: ${severity}. Must be one of: ${SEVERITIES.join(', ')}`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Load custom rules from local JS modules.
+ * A module exports an array of rules, `{ rules: [...] }`, or a single rule.
+ */
+export function loadCustomRules(modulePaths: string[], baseDir: string = process.cwd()): LintRule[] {
+  const rules: LintRule[] = [];
+
+  for (const modulePath of modulePaths) {
+    const resolved = path.resolve(baseDir, modulePath);
+    let exported: any;
+    try {
+      exported = require(resolved);
+    } catch (error) {
+      throw new Error(`Failed to load lint rules from ${modulePath}: ${(error as Error).message}`);
+    }
+
+    const candidate = exported?.default ?? exported;
+    const list = Array.isArray(candidate) ? candidate : candidate?.rules ?? [candidate];
+
+    for (const rule of list) {
+      if (!rule || typeof rule.id !== 'string' || typeof rule.check !== 'function') {
+        throw new Error(`Invalid lint rule in ${modulePath}: rules need a string id and a check function`);
+      }
+      rules.push({
+        description: rule.id,
+        severity: 'warning',
+        ...rule,
+      });
+    }
+  }
+
+  return rules;
+}
+
+// ============================================================================
+// Engine
+// ============================================================================
+
+/**
+ * Run lint rules against a spec.
+ * Explicitly configured rules always run; the rest run when their group is active.
+ */
+export function lintSpec(spec: any, options: LintOptions = {}): LintFinding[] {
+  const { groups = ['recommended'], config = {}, rules = builtinRules } = options;
+  const findings: LintFinding[] = [];
+
+  for (const rule of rules) {
+    const setting = config.rules?.[rule.id];
+    const parsed = setting !== undefined ? parseSetting(setting) : null;
+
+    if (parsed ? parsed.severity === 'off' : rule.group && !groups.includes(rule.group)) {
+      continue;
+    }
+
+    const severity = (parsed?.severity as LintSeverity) || rule.severity;
+    rule.check(spec, {
+      options: { ...rule.defaultOptions, ...parsed?.options },
+      report: ({ path: pointer, message, fix }) => {
+        findings.push({ ruleId: rule.id, severity, path: pointer, message, hint: rule.hint, ...(fix ? { fix } : {}) });
+      },
+    });
+  }
+
+  return findings;
+}
@@ -0,0 +1,353 @@
+/**
+ * OpenAPI Spec Merge
+ * Combines the specs of several services into one document, e.g. a portal spec for
+ * services behind a gateway: paths are prefixed per service, colliding component
+ * names are deduplicated or namespaced, tags and security schemes are merged and
+ * conflicts are reported.
+ */
+
+import { SpecVersionConverter } from '../core/SpecVersionConverter';
+import type { OpenAPIVersionTarget } from '../core/SpecVersionConverter';
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface MergeServer {
+  url: string;
+  description?: string;
+}
+
+/**
+ * A service as listed in the `merge` section of the config file
+ */
+export interface MergeServiceConfig {
+  /** Path to the service spec (JSON or YAML), relative to the config file */
+  spec: string;
+  /** Service name used to namespace colliding names (default: spec info.title) */
+  name?: string;
+  /** Prefix for every path of the service, e.g. '/billing' */
+  prefix?: string;
+  /** Servers the service's paths are reached at, written to its path items */
+  servers?: MergeServer[];
+}
+
+export interface MergeService {
+  name: string;
+  spec: any;
+  prefix?: string;
+  servers?: MergeServer[];
+}
+
+export interface MergeOptions {
+  /** Info of the merged spec (default: a generic title and version 1.0.0) */
+  info?: { title?: string; version?: string; description?: string };
+  /** Top-level servers (default: the servers every service shares) */
+  servers?: MergeServer[];
+}
+
+export type MergeConflictType = 'path' | 'operationId' | 'component' | 'securityScheme';
+
+export interface MergeConflict {
+  type: MergeConflictType;
+  /** Colliding name, e.g. 'GET /users', 'listUsers' or 'schemas/User' */
+  name: string;
+  /** Services that define it, in merge order */
+  services: string[];
+  /** What the merge did about it */
+  resolution: string;
+}
+
+export interface MergeResult {
+  spec: any;
+  conflicts: MergeConflict[];
+  summary: {
+    services: number;
+    paths: number;
+    operations: number;
+    components: number;
+  };
+}
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+
+/** Component sections whose names are shared across services */
+const COMPONENT_TYPES = [
+  'schemas',
+  'responses',
+  'parameters',
+  'examples',
+  'requestBodies',
+  'headers',
+  'links',
+  'callbacks',
+  'pathItems',
+];
+
+// ============================================================
+// Merge
+// ============================================================
+
+/**
+ * Merge service specs in order. Earlier services win path collisions; components
+ * with the same name and content are kept once, different ones are renamed with the
+ * service name (User -> BillingUser) and their references rewritten.
+ */
+export function mergeSpecs(services: MergeService[], options: MergeOptions = {}): MergeResult {
+  if (services.length === 0) {
+    throw new Error('No specs to merge');
+  }
+
+  const target = targetVersion(services);
+  const converter = new SpecVersionConverter();
+  const conflicts: MergeConflict[] = [];
+
+  const merged: any = {
+    openapi: target === '3.1' ? '3.1.0' : '3.0.3',
+    info: {
+      title: options.info?.title || 'Merged API',
+      version: options.info?.version || '1.0.0',
+      ...(options.info?.description ? { description: options.info.description } : {}),
+    },
+    servers: options.servers ?? sharedServers(services),
+    paths: {},
+    components: {},
+    tags: [],
+  };
+
+  // Owner of every merged name, for conflict reports
+  const componentOwners = new Map<string, string>();
+  const operationOwners = new Map<string, string>();
+  const pathOwners = new Map<string, string>();
+
+  for (const service of services) {
+    const spec = SpecVersionConverter.detectVersion(service.spec) === target
+      ? service.spec
+      : converter.convert(service.spec, target).spec;
+    const namespace = pascalCase(service.name);
+
+    // Component names: keep, share with an identical earlier one, or namespace
+    const added: Array<{ type: string; name: string; mergedName: string }> = [];
+    const renames = new Map<string, string>();
+    for (const type of [...COMPONENT_TYPES, 'securitySchemes']) {
+      const section = merged.components[type] || {};
+
+      for (const [name, value] of Object.entries<any>(spec.components?.[type] || {})) {
+        const key = `${type}/${name}`;
+        if (section[name] === undefined) {
+          added.push({ type, name, mergedName: name });
+          continue;
+        }
+        if (sameContent(section[name], value)) {
+          continue;
+        }
+
+        let renamed = `${namespace}${name}`;
+        for (let i = 2; section[renamed] !== undefined; i++) {
+          renamed = `${namespace}${name}${i}`;
+        }
+        added.push({ type, name, mergedName: renamed });
+        renames.set(`#/components/${type}/${name}`, `#/components/${type}/${renamed}`);
+        conflicts.push({
+          type: type === 'securitySchemes' ? 'securityScheme' : 'component',
+          name: key,
+          services: [componentOwners.get(key) || '', service.name],
+          resolution: `renamed to ${renamed} in ${service.name}`,
+        });
+      }
+    }
+
+    // Added components are taken after rewriting, so they reference renamed ones
+    const rewritten = rewriteRefs(spec, renames);
+    for (const { type, name, mergedName } of added) {
+      merged.components[type] ??= {};
+      merged.components[type][mergedName] = rewritten.components[type][name];
+      componentOwners.set(`${type}/${mergedName}`, service.name);
+    }
+
+    // Service-wide security moves onto operations that do not set their own
+    const serviceSecurity = rewritten.security;
+
+    for (const [specPath, pathItem] of Object.entries<any>(rewritten.paths || {})) {
+      const mergedPath = joinPath(service.prefix, specPath);
+      const mergedItem = (merged.paths[mergedPath] ??= {});
+
+      for (const [key, value] of Object.entries<any>(pathItem)) {
+        if (!HTTP_METHODS.includes(key)) {
+          if (key !== 'servers' && mergedItem[key] === undefined) mergedItem[key] = value;
+          continue;
+        }
+
+        const operationKey = `${key.toUpperCase()} ${mergedPath}`;
+        if (mergedItem[key] !== undefined) {
+          conflicts.push({
+            type: 'path',
+            name: operationKey,
+            services: [pathOwners.get(operationKey) || '', service.name],
+            resolution: `kept the operation from ${pathOwners.get(operationKey)}`,
+          });
+          continue;
+        }
+
+        const operation = { ...value };
+        if (serviceSecurity && operation.security === undefined) {
+          operation.security = serviceSecurity;
+        }
+        if (operation.operationId) {
+          const owner = operationOwners.get(operation.operationId);
+          if (owner !== undefined) {
+            const renamed = namespaceOperationId(namespace, operation.operationId);
+            conflicts.push({
+              type: 'operationId',
+              name: operation.operationId,
+              services: [owner, service.name],
+              resolution: `renamed to ${renamed} in ${service.name}`,
+            });
+            operation.operationId = renamed;
+          }
+          operationOwners.set(operation.operationId, service.name);
+        }
+
+        mergedItem[key] = operation;
+        pathOwners.set(operationKey, service.name);
+      }
+
+      const servers = service.servers ?? pathItem.servers;
+      if (servers?.length && !sameContent(servers, merged.servers) && mergedItem.servers === undefined) {
+        mergedItem.servers = servers;
+      }
+    }
+
+    for (const tag of rewritten.tags || []) {
+      const existing = merged.tags.find((t: any) => t.name === tag.name);
+      if (!existing) {
+        merged.tags.push(tag);
+      } else if (!existing.description && tag.description) {
+        existing.description = tag.description;
+      }
+    }
+  }
+
+  if (merged.servers.length === 0) delete merged.servers;
+  if (Object.keys(merged.components).length === 0) delete merged.components;
+  if (merged.tags.length === 0) delete merged.tags;
+
+  return {
+    spec: merged,
+    conflicts,
+    summary: {
+      services: services.length,
+      paths: Object.keys(merged.paths).length,
+      operations: Object.values<any>(merged.paths).reduce(
+        (count, pathItem) => count + Object.keys(pathItem).filter((key) => HTTP_METHODS.includes(key)).length,
+        0
+      ),
+      components: Object.values<any>(merged.components || {}).reduce((count, section) => count + Object.keys(section).length, 0),
+    },
+  };
+}
+
+/**
+ * Parse a command line service argument: 'billing.json' or 'billing.json=/billing'
+ */
+export function parseServiceArgument(argument: string): { spec: string; prefix?: string } {
+  const index = argument.lastIndexOf('=');
+  if (index <= 0) {
+    return { spec: argument };
+  }
+  return { spec: argument.slice(0, index), prefix: argument.slice(index + 1) };
+}
+
+/**
+ * Format conflicts as text lines
+ */
+export function formatMergeConflicts(conflicts: MergeConflict[]): string[] {
+  return conflicts.map(
+    (conflict) => `${conflict.type} ${conflict.name} (${conflict.services.join(', ')}): ${conflict.resolution}`
+  );
+}
+
+// ============================================================
+// Helpers
+// ============================================================
+
+/** 3.1 as soon as one service uses it, so no 3.1 schema is downgraded */
+function targetVersion(services: MergeService[]): OpenAPIVersionTarget {
+  return services.some((service) => SpecVersionConverter.detectVersion(service.spec) === '3.1') ? '3.1' : '3.0';
+}
+
+function sharedServers(services: MergeService[]): MergeServer[] {
+  const [first, ...rest] = services.map((service) => service.spec.servers || []);
+  return first.length > 0 && rest.every((servers) => sameContent(servers, first)) ? first : [];
+}
+
+function joinPath(prefix: string | undefined, specPath: string): string {
+  if (!prefix) return specPath;
+  const joined = `${prefix.replace(/\/+$/, '')}/${specPath.replace(/^\/+/, '')}`;
+  return joined.length > 1 ? joined.replace(/\/$/, '') : joined;
+}
+
+/** listUsers in Billing -> billingListUsers */
+function namespaceOperationId(namespace: string, operationId: string): string {
+  const prefix = namespace.charAt(0).toLowerCase() + namespace.slice(1);
+  return prefix + operationId.charAt(0).toUpperCase() + operationId.slice(1);
+}
+
+function pascalCase(name: string): string {
+  return name
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join('');
+}
+
+/**
+ * Copy of a spec with renamed components: $refs, discriminator mappings and the
+ * keys of security requirements
+ */
+function rewriteRefs(spec: any, renames: Map<string, string>): any {
+  if (renames.size === 0) return spec;
+
+  const schemeRenames = new Map<string, string>();
+  for (const [from, to] of renames) {
+    if (from.startsWith('#/components/securitySchemes/')) {
+      schemeRenames.set(from.split('/')[3], to.split('/')[3]);
+    }
+  }
+
+  const renameRequirements = (requirements: any) =>
+    Array.isArray(requirements)
+      ? requirements.map((requirement) =>
+          Object.fromEntries(Object.entries(requirement).map(([name, scopes]) => [schemeRenames.get(name) ?? name, scopes]))
+        )
+      : requirements;
+
+  const visit = (value: any, key?: string): any => {
+    if (Array.isArray(value)) {
+      return key === 'security' ? renameRequirements(value) : value.map((item) => visit(item));
+    }
+    if (!value || typeof value !== 'object') {
+      return value;
+    }
+
+    const copy: any = {};
+    for (const [childKey, child] of Object.entries(value)) {
+      if (childKey === '$ref' && typeof child === 'string') {
+        copy[childKey] = renames.get(child) ?? child;
+      } else if (key === 'discriminator' && childKey === 'mapping' && child && typeof child === 'object') {
+        copy[childKey] = Object.fromEntries(
+          Object.entries(child).map(([name, ref]) => [name, typeof ref === 'string' ? renames.get(ref) ?? ref : ref])
+        );
+      } else {
+        copy[childKey] = visit(child, childKey);
+      }
+    }
+    return copy;
+  };
+
+  return visit(spec);
+}
+
+function sameContent(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
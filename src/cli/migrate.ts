@@ -0,0 +1,1163 @@
+/**
+ * Migration Tool
+ * Rewrites swagger-jsdoc, tsoa and express-oas-generator sources into
+ * express-swagger-auto JSDoc tags, decorators and runtime capture
+ */
+
+import * as path from 'path';
+import yaml from 'js-yaml';
+import { parse as parseComments } from 'comment-parser';
+import type { SwaggerAutoConfig } from '../config/ConfigLoader';
+
+// ============================================================
+// Types
+// ============================================================
+
+export type MigrationSource = 'swagger-jsdoc' | 'tsoa' | 'express-oas-generator';
+
+export interface MigrationIssue {
+  file: string;
+  line: number;
+  construct: string;
+  message: string;
+}
+
+export interface FileMigration {
+  file: string;
+  original: string;
+  migrated: string;
+  changed: boolean;
+  /** Number of operations (or setup calls) that were converted */
+  converted: number;
+  issues: MigrationIssue[];
+  /** Literal options found in source that feed config migration */
+  legacyOptions?: Record<string, unknown>;
+}
+
+export interface ConfigMigration {
+  config: SwaggerAutoConfig;
+  issues: MigrationIssue[];
+}
+
+export interface MigrationReport {
+  source: MigrationSource;
+  dryRun: boolean;
+  files: FileMigration[];
+  config?: ConfigMigration & { path: string; written: boolean };
+}
+
+export const MIGRATION_SOURCES: MigrationSource[] = ['swagger-jsdoc', 'tsoa', 'express-oas-generator'];
+
+const HTTP_METHODS = ['get', 'post', 'put', 'patch', 'delete', 'head', 'options', 'trace'];
+
+// ============================================================
+// Shared helpers
+// ============================================================
+
+function lineAt(content: string, offset: number): number {
+  let line = 1;
+  for (let i = 0; i < offset && i < content.length; i++) {
+    if (content[i] === '\n') line++;
+  }
+  return line;
+}
+
+function indentAt(content: string, offset: number): string {
+  const lineStart = content.lastIndexOf('\n', offset - 1) + 1;
+  const match = content.slice(lineStart, offset).match(/^[ \t]*/);
+  return match ? match[0] : '';
+}
+
+function oneLine(text: unknown): string {
+  return String(text).replace(/\s+/g, ' ').replace(/\*\//g, '*\\/').trim();
+}
+
+/**
+ * Convert OpenAPI `{param}` templates to Express `:param` tokens so the
+ * migrated `@route` tags match the paths RouteDiscovery reports
+ */
+function toExpressPath(openApiPath: string): string {
+  return openApiPath.replace(/\{([^}]+)\}/g, ':$1');
+}
+
+function applyEdits(content: string, edits: Array<{ start: number; end: number; text: string }>): string {
+  let result = content;
+  for (const edit of [...edits].sort((a, b) => b.start - a.start)) {
+    result = result.slice(0, edit.start) + edit.text + result.slice(edit.end);
+  }
+  return result;
+}
+
+/**
+ * Find the index of the bracket closing the one at `openIndex`, skipping strings
+ */
+function findClosing(content: string, openIndex: number, open = '(', close = ')'): number {
+  let depth = 0;
+  let quote: string | null = null;
+
+  for (let i = openIndex; i < content.length; i++) {
+    const char = content[i];
+    if (quote) {
+      if (char === '\\') i++;
+      else if (char === quote) quote = null;
+      continue;
+    }
+    if (char === '"' || char === "'" || char === '`') {
+      quote = char;
+    } else if (char === open) {
+      depth++;
+    } else if (char === close) {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+
+  return -1;
+}
+
+/**
+ * Split a comma separated argument list at the top nesting level
+ */
+function splitTopLevel(text: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let current = '';
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      current += char;
+      if (char === '\\') current += text[++i] ?? '';
+      else if (char === quote) quote = null;
+      continue;
+    }
+    if (char === '"' || char === "'" || char === '`') quote = char;
+    else if ('([{<'.includes(char)) depth++;
+    else if (')]}>'.includes(char) && !(char === '>' && text[i - 1] === '=')) depth--;
+
+    if (char === ',' && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+}
+
+function parseLiteral(text: string | undefined): unknown {
+  if (text === undefined) return undefined;
+  const trimmed = text.trim();
+  const stringMatch = trimmed.match(/^(['"`])([\s\S]*)\1$/);
+  if (stringMatch) return stringMatch[2];
+  if (/^-?\d+(\.\d+)?$/.test(trimmed)) return Number(trimmed);
+  if (trimmed === 'true' || trimmed === 'false') return trimmed === 'true';
+  if (trimmed.startsWith('[') && trimmed.endsWith(']')) {
+    return splitTopLevel(trimmed.slice(1, -1)).map((item) => parseLiteral(item));
+  }
+  return undefined;
+}
+
+/**
+ * Serialize a value as a TypeScript object literal in the repo's quote style
+ */
+export function formatLiteral(value: unknown): string {
+  if (value === undefined || value === null) return String(value);
+  if (typeof value === 'string') return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+  if (typeof value !== 'object') return String(value);
+  if (Array.isArray(value)) return `[${value.map((item) => formatLiteral(item)).join(', ')}]`;
+
+  const entries = Object.entries(value as Record<string, unknown>).filter(([, v]) => v !== undefined);
+  if (entries.length === 0) return '{}';
+
+  const body = entries
+    .map(([key, v]) => `${/^[A-Za-z_$][\w$]*$/.test(key) ? key : formatLiteral(key)}: ${formatLiteral(v)}`)
+    .join(', ');
+  return `{ ${body} }`;
+}
+
+// ============================================================
+// swagger-jsdoc
+// ============================================================
+
+const JSDOC_BLOCK_PATTERN = /\/\*\*[\s\S]*?\*\//g;
+
+/**
+ * Rewrite swagger-jsdoc `@swagger` / `@openapi` YAML blocks into the
+ * tag-based format understood by JsDocTransformer
+ */
+export function migrateSwaggerJsdoc(content: string, file: string): FileMigration {
+  const issues: MigrationIssue[] = [];
+  let converted = 0;
+
+  const migrated = content.replace(JSDOC_BLOCK_PATTERN, (block: string, offset: number) => {
+    const result = convertSwaggerBlock(block, indentAt(content, offset), file, lineAt(content, offset), issues);
+    if (!result) return block;
+    converted += result.operations;
+    return result.text;
+  });
+
+  return { file, original: content, migrated, changed: migrated !== content, converted, issues };
+}
+
+function convertSwaggerBlock(
+  block: string,
+  indent: string,
+  file: string,
+  line: number,
+  issues: MigrationIssue[]
+): { text: string; operations: number } | null {
+  const lines = block
+    .split('\n')
+    .map((l) => l.replace(/^\s*\/\*\*\s?/, '').replace(/\s*\*\/\s*$/, '').replace(/^\s*\* ?/, ''));
+
+  const tagIndex = lines.findIndex((l) => /^\s*@(swagger|openapi)\s*$/.test(l));
+  if (tagIndex === -1 || lines.some((l) => /^\s*@route\b/.test(l))) {
+    return null;
+  }
+
+  const prose = lines.slice(0, tagIndex).filter((l) => l.trim());
+  let yamlLines = lines.slice(tagIndex + 1);
+  const nextTag = yamlLines.findIndex((l) => /^\s*@\w+/.test(l));
+  if (nextTag !== -1) {
+    yamlLines = yamlLines.slice(0, nextTag);
+  }
+
+  const indents = yamlLines.filter((l) => l.trim()).map((l) => l.match(/^ */)![0].length);
+  const minIndent = indents.length > 0 ? Math.min(...indents) : 0;
+
+  let document: unknown;
+  try {
+    document = yaml.load(yamlLines.map((l) => l.slice(minIndent)).join('\n'));
+  } catch (error) {
+    issues.push({ file, line, construct: 'yaml', message: `Could not parse YAML block: ${(error as Error).message.split('\n')[0]}` });
+    return null;
+  }
+
+  if (!document || typeof document !== 'object' || Array.isArray(document)) {
+    return null;
+  }
+
+  const blocks: string[][] = [];
+
+  for (const [key, pathItem] of Object.entries(document as Record<string, any>)) {
+    if (!key.startsWith('/')) {
+      issues.push({
+        file,
+        line,
+        construct: key,
+        message: `Top-level \`${key}\` definitions are not read from JSDoc; move them into components or the generator config`,
+      });
+      continue;
+    }
+
+    if (!pathItem || typeof pathItem !== 'object') continue;
+
+    for (const pathKey of Object.keys(pathItem)) {
+      if (!HTTP_METHODS.includes(pathKey) && pathKey !== 'parameters') {
+        issues.push({ file, line, construct: pathKey, message: `Path-level \`${pathKey}\` on ${key} was not migrated` });
+      }
+    }
+
+    for (const method of HTTP_METHODS) {
+      const operation = pathItem[method];
+      if (!operation || typeof operation !== 'object') continue;
+
+      const context = { file, line, operation: `${method.toUpperCase()} ${key}` };
+      blocks.push(operationToTags(method, key, operation, pathItem.parameters || [], context, issues));
+    }
+  }
+
+  if (blocks.length === 0) {
+    return null;
+  }
+
+  if (prose.length > 0) {
+    blocks[0] = [...prose, ...blocks[0]];
+  }
+
+  const text = blocks
+    .map((tags) => ['/**', ...tags.map((t) => ` * ${t}`.trimEnd()), ' */'].join(`\n${indent}`))
+    .join(`\n${indent}`);
+
+  return { text, operations: blocks.length };
+}
+
+function operationToTags(
+  method: string,
+  openApiPath: string,
+  operation: Record<string, any>,
+  sharedParameters: any[],
+  context: { file: string; line: number; operation: string },
+  issues: MigrationIssue[]
+): string[] {
+  const { file, line } = context;
+  const report = (construct: string, message: string) =>
+    issues.push({ file, line, construct, message: `${context.operation}: ${message}` });
+
+  const tags: string[] = ['@openapi', `@route ${method.toUpperCase()} ${toExpressPath(openApiPath)}`];
+
+  if (operation.summary) {
+    tags.push(`@summary ${oneLine(operation.summary)}`);
+  }
+
+  if (operation.description) {
+    const [first, ...rest] = String(operation.description).trim().split('\n');
+    tags.push(`@description ${first.replace(/\*\//g, '*\\/')}`);
+    tags.push(...rest.map((l) => l.replace(/\*\//g, '*\\/')));
+  }
+
+  if (Array.isArray(operation.tags) && operation.tags.length > 0) {
+    tags.push(`@tags ${operation.tags.join(', ')}`);
+  }
+
+  // Operation-level parameters override shared path-level ones
+  const parameters = new Map<string, any>();
+  for (const param of [...sharedParameters, ...(operation.parameters || [])]) {
+    if (param?.$ref) {
+      report('parameter-ref', `Parameter reference ${param.$ref} cannot be expressed as @param`);
+      continue;
+    }
+    if (param?.name) {
+      parameters.set(`${param.in}:${param.name}`, param);
+    }
+  }
+
+  for (const param of parameters.values()) {
+    if (!['path', 'query', 'header', 'cookie'].includes(param.in)) {
+      report('parameter', `Swagger 2.0 \`in: ${param.in}\` parameter "${param.name}" was not migrated`);
+      continue;
+    }
+
+    const schema = param.schema || param;
+    const type = schema.type || 'string';
+    const defaultValue = schema.default;
+    const name = defaultValue !== undefined ? `[${param.name}=${defaultValue}]` : param.name;
+    const location = `${param.in}${param.required ? '.required' : ''}`;
+    const description = param.description ? ` - ${oneLine(param.description)}` : '';
+    tags.push(`@param {${type}} ${name}.${location}${description}`);
+
+    const dropped = Object.keys(schema).filter((k) =>
+      ['enum', 'format', 'items', 'pattern', 'minimum', 'maximum', 'minLength', 'maxLength', '$ref'].includes(k)
+    );
+    if (dropped.length > 0) {
+      report('parameter-schema', `Only the type of parameter "${param.name}" is kept; dropped ${dropped.join(', ')}`);
+    }
+  }
+
+  if (operation.requestBody) {
+    const body = operation.requestBody;
+    if (body.$ref) {
+      report('requestBody-ref', `Request body reference ${body.$ref} cannot be expressed as @bodyContent`);
+    } else {
+      const contentTypes = Object.keys(body.content || {});
+      const contentType = contentTypes[0] || 'application/json';
+      const schema = body.content?.[contentType]?.schema;
+      const ref = typeof schema?.$ref === 'string' ? schema.$ref : '';
+      const schemaName = ref.startsWith('#/components/schemas/') ? ref.split('/').pop() : '';
+
+      tags.push(`@bodyContent {${contentType}}${schemaName ? ` ${schemaName}` : ''}`);
+
+      if (schema && !schemaName) {
+        report('requestBody-schema', 'Inline request body schema dropped; reference a component schema instead');
+      }
+      if (contentTypes.length > 1) {
+        report('requestBody-content', `Only ${contentType} is kept; dropped ${contentTypes.slice(1).join(', ')}`);
+      }
+      if (body.required === false) {
+        report('requestBody-required', '@bodyContent always marks the body as required');
+      }
+    }
+  }
+
+  for (const [statusCode, response] of Object.entries<any>(operation.responses || {})) {
+    if (response?.$ref) {
+      tags.push(`@response ${statusCode} - ${String(response.$ref).split('/').pop()}`);
+      report('response-ref', `Response reference ${response.$ref} replaced by its name`);
+      continue;
+    }
+
+    tags.push(`@response ${statusCode} - ${oneLine(response?.description || `Response ${statusCode}`)}`);
+
+    const dropped = ['content', 'headers', 'links'].filter((k) => response?.[k]);
+    if (dropped.length > 0) {
+      report('response-content', `Response ${statusCode} ${dropped.join(', ')} dropped; only the description is kept`);
+    }
+  }
+
+  if (Array.isArray(operation.security)) {
+    if (operation.security.length === 0) {
+      report('security', 'Explicit `security: []` (public operation) cannot be expressed');
+    }
+    for (const requirement of operation.security) {
+      for (const [scheme, scopes] of Object.entries<any>(requirement || {})) {
+        tags.push(`@security ${scheme}`);
+        if (Array.isArray(scopes) && scopes.length > 0) {
+          report('security-scopes', `Scopes for ${scheme} dropped (${scopes.join(', ')})`);
+        }
+      }
+    }
+  }
+
+  const handled = ['summary', 'description', 'tags', 'parameters', 'requestBody', 'responses', 'security'];
+  for (const key of Object.keys(operation)) {
+    if (!handled.includes(key)) {
+      report(key, `\`${key}\` has no JSDoc tag equivalent`);
+    }
+  }
+
+  return tags;
+}
+
+// ============================================================
+// tsoa
+// ============================================================
+
+interface DecoratorCall {
+  name: string;
+  typeArg?: string;
+  args: string[];
+  start: number;
+  end: number;
+}
+
+const TSOA_VERBS = ['Get', 'Post', 'Put', 'Patch', 'Delete', 'Head', 'Options'];
+const TSOA_CONVERTED = new Set([...TSOA_VERBS, 'Route', 'Tags', 'SuccessResponse', 'Response', 'Path', 'Query', 'Header', 'Body', 'Request']);
+const TSOA_UNSUPPORTED_METHOD = new Set(['Security', 'NoSecurity', 'OperationId', 'Deprecated', 'Hidden', 'Example', 'Produces', 'Middlewares', 'Extension']);
+
+/**
+ * Read consecutive decorator calls starting at `position`
+ */
+function readDecorators(content: string, position: number): { decorators: DecoratorCall[]; end: number } {
+  const decorators: DecoratorCall[] = [];
+  let cursor = position;
+
+  for (;;) {
+    const whitespace = content.slice(cursor).match(/^\s*/)![0].length;
+    const start = cursor + whitespace;
+    const nameMatch = content.slice(start).match(/^@(\w+)/);
+    if (!nameMatch) break;
+
+    let end = start + nameMatch[0].length;
+    let typeArg: string | undefined;
+    if (content[end] === '<') {
+      const closing = findClosing(content, end, '<', '>');
+      if (closing === -1) break;
+      typeArg = content.slice(end + 1, closing).trim();
+      end = closing + 1;
+    }
+
+    let args: string[] = [];
+    if (content[end] === '(') {
+      const closing = findClosing(content, end);
+      if (closing === -1) break;
+      args = splitTopLevel(content.slice(end + 1, closing));
+      end = closing + 1;
+    }
+
+    decorators.push({ name: nameMatch[1], typeArg, args, start, end });
+    cursor = end;
+  }
+
+  return { decorators, end: cursor };
+}
+
+/**
+ * Map a TypeScript type annotation onto an OpenAPI schema
+ */
+export function tsTypeToSchema(typeText: string): { schema?: Record<string, unknown>; exact: boolean } {
+  let type = typeText.trim();
+
+  const promise = type.match(/^Promise<([\s\S]+)>$/);
+  if (promise) type = promise[1].trim();
+
+  const members = splitUnion(type).filter((m) => m !== 'undefined');
+  const nullable = members.includes('null');
+  const nonNull = members.filter((m) => m !== 'null');
+
+  if (nonNull.length === 0 || (nonNull.length === 1 && nonNull[0] === 'void')) {
+    return { schema: undefined, exact: true };
+  }
+
+  if (nonNull.length > 1) {
+    if (nonNull.every((m) => /^(['"]).*\1$/.test(m))) {
+      return { schema: { type: 'string', enum: nonNull.map((m) => m.slice(1, -1)) }, exact: true };
+    }
+    return { schema: { type: 'object' }, exact: false };
+  }
+
+  const single = nonNull[0];
+  const result = singleTypeToSchema(single);
+  if (result.schema && nullable) {
+    result.schema.nullable = true;
+  }
+  return result;
+}
+
+function splitUnion(type: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of type) {
+    if ('<({['.includes(char)) depth++;
+    else if ('>)}]'.includes(char)) depth--;
+    if (char === '|' && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+}
+
+function singleTypeToSchema(type: string): { schema?: Record<string, unknown>; exact: boolean } {
+  const primitives: Record<string, Record<string, unknown>> = {
+    string: { type: 'string' },
+    number: { type: 'number' },
+    boolean: { type: 'boolean' },
+    Date: { type: 'string', format: 'date-time' },
+  };
+
+  if (primitives[type]) {
+    return { schema: { ...primitives[type] }, exact: true };
+  }
+
+  const array = type.match(/^(.+)\[\]$/) || type.match(/^Array<(.+)>$/);
+  if (array) {
+    const items = tsTypeToSchema(array[1]);
+    return { schema: { type: 'array', items: items.schema || {} }, exact: items.exact };
+  }
+
+  if (/^[A-Z]\w*$/.test(type)) {
+    return { schema: { $ref: `#/components/schemas/${type}` }, exact: true };
+  }
+
+  return { schema: { type: 'object' }, exact: false };
+}
+
+/**
+ * Convert tsoa controller decorators into express-swagger-auto decorators
+ */
+export function migrateTsoa(content: string, file: string): FileMigration {
+  const issues: MigrationIssue[] = [];
+  const edits: Array<{ start: number; end: number; text: string }> = [];
+  const usedDecorators = new Set<string>();
+  let converted = 0;
+
+  let classBase = '';
+  let classTags: string[] = [];
+
+  const decoratorLine = /^[ \t]*@\w+/gm;
+  let match: RegExpExecArray | null;
+
+  while ((match = decoratorLine.exec(content)) !== null) {
+    const { decorators, end } = readDecorators(content, match.index);
+    if (decorators.length === 0) continue;
+
+    const rest = content.slice(end);
+    const classMatch = rest.match(/^\s*(?:export\s+)?(?:default\s+)?(?:abstract\s+)?class\s+(\w+)/);
+    const methodMatch = rest.match(/^\s*(?:(?:public|private|protected|static|async)\s+)*(\w+)\s*\(/);
+
+    if (classMatch) {
+      const line = lineAt(content, match.index);
+      const route = decorators.find((d) => d.name === 'Route');
+      classBase = route ? String(parseLiteral(route.args[0]) ?? '') : '';
+      classTags = decorators.filter((d) => d.name === 'Tags').flatMap((d) => d.args.map((a) => String(parseLiteral(a))));
+
+      for (const decorator of decorators) {
+        if (decorator.name === 'Security') {
+          issues.push({ file, line, construct: 'Security', message: `${classMatch[1]}: class-level @Security has no decorator equivalent; configure securitySchemes instead` });
+        } else if (!['Route', 'Tags'].includes(decorator.name)) {
+          issues.push({ file, line, construct: decorator.name, message: `${classMatch[1]}: class decorator @${decorator.name} was not migrated` });
+        }
+      }
+
+      if (route) {
+        issues.push({ file, line, construct: 'Route', message: `${classMatch[1]}: mount the handlers under /${classBase.replace(/^\//, '')} on an Express router` });
+      }
+
+      edits.push({ start: lineStart(content, decorators[0].start), end: lineStart(content, end + rest.match(/^\s*/)![0].length), text: '' });
+      decoratorLine.lastIndex = end;
+      continue;
+    }
+
+    if (!methodMatch || !decorators.some((d) => TSOA_VERBS.includes(d.name))) {
+      continue;
+    }
+
+    const openParen = end + methodMatch[0].length - 1;
+    const closeParen = findClosing(content, openParen);
+    if (closeParen === -1) continue;
+
+    const line = lineAt(content, match.index);
+    const returnType = content.slice(closeParen + 1).match(/^\s*:\s*([^{]+?)\s*\{/);
+    const method = convertTsoaMethod({
+      file,
+      line,
+      name: methodMatch[1],
+      decorators,
+      params: content.slice(openParen + 1, closeParen),
+      returnType: returnType ? returnType[1] : undefined,
+      jsDoc: precedingJsDoc(content, decorators[0].start),
+      classBase,
+      classTags,
+      indent: indentAt(content, decorators[0].start),
+      issues,
+    });
+
+    method.used.forEach((name) => usedDecorators.add(name));
+    edits.push({ start: lineStart(content, decorators[0].start), end: lineStart(content, end + rest.match(/^\s*/)![0].length), text: method.decorators });
+    edits.push({ start: openParen + 1, end: closeParen, text: method.params });
+    converted++;
+    decoratorLine.lastIndex = closeParen;
+  }
+
+  if (converted > 0) {
+    edits.push(...rewriteTsoaImport(content, usedDecorators));
+  }
+
+  const migrated = converted > 0 ? applyEdits(content, edits) : content;
+  return { file, original: content, migrated, changed: migrated !== content, converted, issues };
+}
+
+function lineStart(content: string, offset: number): number {
+  return content.lastIndexOf('\n', offset - 1) + 1;
+}
+
+function precedingJsDoc(content: string, offset: number): string | undefined {
+  const before = content.slice(0, offset).replace(/\s*$/, '');
+  if (!before.endsWith('*/')) return undefined;
+  const start = before.lastIndexOf('/**');
+  return start === -1 ? undefined : before.slice(start);
+}
+
+function convertTsoaMethod(input: {
+  file: string;
+  line: number;
+  name: string;
+  decorators: DecoratorCall[];
+  params: string;
+  returnType?: string;
+  jsDoc?: string;
+  classBase: string;
+  classTags: string[];
+  indent: string;
+  issues: MigrationIssue[];
+}): { decorators: string; params: string; used: string[] } {
+  const { file, line, name, decorators, indent, issues } = input;
+  const report = (construct: string, message: string) => issues.push({ file, line, construct, message: `${name}: ${message}` });
+
+  const verb = decorators.find((d) => TSOA_VERBS.includes(d.name))!;
+  const subPath = String(parseLiteral(verb.args[0]) ?? '');
+  const fullPath = toExpressPath(`/${[input.classBase, subPath].filter(Boolean).join('/')}`.replace(/\/+/g, '/'));
+
+  const doc = input.jsDoc ? parseComments(input.jsDoc)[0] : undefined;
+  const paramDocs = new Map<string, string>();
+  for (const tag of doc?.tags || []) {
+    if (tag.tag === 'param') paramDocs.set(tag.name, tag.description.replace(/^-\s*/, ''));
+  }
+
+  const tags = [...input.classTags, ...decorators.filter((d) => d.name === 'Tags').flatMap((d) => d.args.map((a) => String(parseLiteral(a))))];
+  const description = doc?.description?.trim();
+  const routeOptions = {
+    summary: description ? description.split('\n')[0] : undefined,
+    description: description && description.includes('\n') ? description.replace(/\s*\n\s*/g, ' ') : undefined,
+    tags: tags.length > 0 ? tags : undefined,
+  };
+
+  const lines: string[] = [`// ${verb.name.toUpperCase()} ${fullPath}`, `@Route(${formatLiteral(routeOptions)})`];
+  const used = ['Route'];
+
+  const keptParams: string[] = [];
+  for (const param of splitTopLevel(input.params)) {
+    const { decorators: paramDecorators, end } = readDecorators(param, 0);
+    const declaration = param.slice(end).trim();
+    keptParams.push(declaration);
+    if (paramDecorators.length === 0) continue;
+
+    const decl = declaration.match(/^(\w+)(\?)?\s*(?::\s*([^=]+?))?\s*(?:=\s*(.+))?$/);
+    if (!decl) continue;
+    const [, paramName, optional, paramType = 'string', defaultText] = decl;
+    const decorator = paramDecorators[0];
+    const typed = tsTypeToSchema(paramType);
+    if (!typed.exact) {
+      report('type', `Type \`${paramType.trim()}\` of "${paramName}" approximated as object`);
+    }
+
+    const location = ({ Path: 'path', Query: 'query', Header: 'header' } as Record<string, string>)[decorator.name];
+    if (location) {
+      const schema = { ...(typed.schema || { type: 'string' }) };
+      const defaultValue = parseLiteral(defaultText);
+      if (defaultValue !== undefined) schema.default = defaultValue;
+
+      lines.push(`@Parameter(${formatLiteral({
+        name: String(parseLiteral(decorator.args[0]) ?? paramName),
+        in: location,
+        description: paramDocs.get(paramName),
+        required: location === 'path' || (!optional && defaultText === undefined) ? true : undefined,
+        schema,
+      })})`);
+      used.push('Parameter');
+    } else if (decorator.name === 'Body') {
+      lines.push(`@RequestBody(${formatLiteral({
+        description: paramDocs.get(paramName),
+        required: !optional,
+        content: { 'application/json': { schema: typed.schema || {} } },
+      })})`);
+      used.push('RequestBody');
+    } else if (decorator.name !== 'Request') {
+      report(decorator.name, `Parameter decorator @${decorator.name} on "${paramName}" was not migrated`);
+    }
+  }
+
+  const success = decorators.find((d) => d.name === 'SuccessResponse');
+  const returned = input.returnType ? tsTypeToSchema(input.returnType) : { schema: undefined, exact: true };
+  if (!returned.exact) {
+    report('type', `Return type \`${input.returnType}\` approximated as object`);
+  }
+  const successCode = success ? Number(parseLiteral(success.args[0])) : returned.schema ? 200 : 204;
+  const responses = [{
+    statusCode: successCode,
+    description: String(parseLiteral(success?.args[1]) ?? (successCode === 204 ? 'No Content' : 'Success')),
+    schema: returned.schema,
+  }];
+
+  for (const decorator of decorators.filter((d) => d.name === 'Response')) {
+    const statusCode = Number(parseLiteral(decorator.args[0]));
+    if (Number.isNaN(statusCode)) {
+      report('Response', `Non-numeric status ${decorator.args[0]} was not migrated`);
+      continue;
+    }
+    responses.push({
+      statusCode,
+      description: String(parseLiteral(decorator.args[1]) ?? `Response ${statusCode}`),
+      schema: decorator.typeArg ? tsTypeToSchema(decorator.typeArg).schema : undefined,
+    });
+  }
+
+  for (const response of responses) {
+    lines.push(`@Response(${formatLiteral(response)})`);
+  }
+  used.push('Response');
+
+  for (const decorator of decorators) {
+    if (TSOA_UNSUPPORTED_METHOD.has(decorator.name) || !TSOA_CONVERTED.has(decorator.name)) {
+      report(decorator.name, `@${decorator.name} has no express-swagger-auto decorator equivalent`);
+    }
+  }
+
+  const multiline = input.params.includes('\n');
+  const paramIndent = multiline ? (input.params.match(/\n([ \t]*)\S/)?.[1] ?? `${indent}  `) : '';
+  const params = multiline
+    ? `\n${keptParams.map((p) => `${paramIndent}${p}`).join(',\n')}\n${indent}`
+    : keptParams.join(', ');
+
+  return {
+    decorators: lines.map((l) => `${indent}${l}\n`).join(''),
+    params,
+    used,
+  };
+}
+
+function rewriteTsoaImport(content: string, used: Set<string>): Array<{ start: number; end: number; text: string }> {
+  const importMatch = content.match(/import\s*\{([^}]*)\}\s*from\s*['"]tsoa['"];?/);
+  const ours = ['Route', 'Parameter', 'RequestBody', 'Response'].filter((name) => used.has(name));
+  const replacement = `import { ${ours.join(', ')} } from 'express-swagger-auto/decorators';`;
+
+  if (!importMatch || importMatch.index === undefined) {
+    return [{ start: 0, end: 0, text: `${replacement}\n` }];
+  }
+
+  const remaining = importMatch[1]
+    .split(',')
+    .map((name) => name.trim())
+    .filter((name) => name && !TSOA_CONVERTED.has(name) && !TSOA_UNSUPPORTED_METHOD.has(name));
+
+  const text = remaining.length > 0
+    ? `import { ${remaining.join(', ')} } from 'tsoa';\n${replacement}`
+    : replacement;
+
+  return [{ start: importMatch.index, end: importMatch.index + importMatch[0].length, text }];
+}
+
+// ============================================================
+// express-oas-generator
+// ============================================================
+
+const OAS_GENERATOR_OPTION_NOTES: Record<string, string> = {
+  swaggerUiServePath: 'mount createSwaggerUIMiddleware({ routePrefix }) to serve the docs',
+  predefinedSpec: 'merge the predefined spec into your JSDoc or decorators',
+  mongooseModels: 'Mongoose model schemas are not read; add component schemas manually',
+  ignoredNodeEnvironments: 'runtimeCapture is enabled only in development by default; pass { enabled } to change it',
+  alwaysServeDocs: 'serve the generated spec with createSwaggerUIMiddleware',
+  specOutputFileBehavior: 'generate always rewrites the output file',
+  swaggerDocumentOptions: 'pass Swagger UI options to createSwaggerUIMiddleware',
+  writeIntervalMs: 'snapshots are flushed by SnapshotStorage',
+  tags: 'add @tags to your JSDoc blocks instead',
+};
+
+/**
+ * Replace express-oas-generator setup calls with runtimeCapture middleware
+ */
+export function migrateExpressOasGenerator(content: string, file: string): FileMigration {
+  const issues: MigrationIssue[] = [];
+  const edits: Array<{ start: number; end: number; text: string }> = [];
+  const legacyOptions: Record<string, unknown> = {};
+  let converted = 0;
+
+  const requirePattern = /^([ \t]*)(?:const|let|var)\s+(\w+|\{[^}]*\})\s*=\s*require\(\s*['"]express-oas-generator['"]\s*\);?/m;
+  const importPattern = /^([ \t]*)import\s+(?:\*\s+as\s+)?(\w+|\{[^}]*\})\s+from\s+['"]express-oas-generator['"];?/m;
+  const requireMatch = content.match(requirePattern);
+  const importMatch = content.match(importPattern);
+  const binding = requireMatch || importMatch;
+
+  if (!binding || binding.index === undefined) {
+    return { file, original: content, migrated: content, changed: false, converted, issues };
+  }
+
+  edits.push({
+    start: binding.index,
+    end: binding.index + binding[0].length,
+    text: requireMatch
+      ? `${binding[1]}const { runtimeCapture } = require('express-swagger-auto');`
+      : `${binding[1]}import { runtimeCapture } from 'express-swagger-auto';`,
+  });
+
+  const prefix = binding[2].startsWith('{') ? '' : `${binding[2]}\\s*\\.\\s*`;
+  const callPattern = new RegExp(`^([ \\t]*)${prefix}(handleResponses|handleRequests|init)\\s*\\(`, 'gm');
+  let match: RegExpExecArray | null;
+
+  while ((match = callPattern.exec(content)) !== null) {
+    const openParen = match.index + match[0].length - 1;
+    const closeParen = findClosing(content, openParen);
+    if (closeParen === -1) continue;
+
+    const statementEnd = content[closeParen + 1] === ';' ? closeParen + 2 : closeParen + 1;
+    const line = lineAt(content, match.index);
+    const args = splitTopLevel(content.slice(openParen + 1, closeParen));
+
+    if (match[2] === 'handleRequests') {
+      const lineEnd = content[statementEnd] === '\n' ? statementEnd + 1 : statementEnd;
+      edits.push({ start: match.index, end: lineEnd, text: '' });
+      converted++;
+      continue;
+    }
+
+    const appName = args[0] || 'app';
+    edits.push({ start: match.index, end: statementEnd, text: `${match[1]}${appName}.use(runtimeCapture());` });
+    converted++;
+
+    const options = args[1];
+    if (options && options.startsWith('{')) {
+      for (const entry of splitTopLevel(options.slice(1, -1))) {
+        const [key, ...valueParts] = entry.split(':');
+        const optionName = key.trim().replace(/^['"]|['"]$/g, '');
+        if (!optionName) continue;
+
+        const value = parseLiteral(valueParts.join(':'));
+        if (value !== undefined) legacyOptions[optionName] = value;
+
+        if (optionName !== 'specOutputPath') {
+          const note = OAS_GENERATOR_OPTION_NOTES[optionName] || 'no equivalent option';
+          issues.push({ file, line, construct: optionName, message: `Option \`${optionName}\` was not migrated: ${note}` });
+        }
+      }
+    } else if (options) {
+      issues.push({ file, line, construct: 'options', message: 'Options passed by reference could not be read; review them manually' });
+    }
+  }
+
+  const migrated = applyEdits(content, edits);
+  return {
+    file,
+    original: content,
+    migrated,
+    changed: migrated !== content,
+    converted,
+    issues,
+    legacyOptions: Object.keys(legacyOptions).length > 0 ? legacyOptions : undefined,
+  };
+}
+
+/**
+ * Migrate a single source file for the given tool
+ */
+export function migrateSource(source: MigrationSource, content: string, file: string): FileMigration {
+  switch (source) {
+    case 'swagger-jsdoc':
+      return migrateSwaggerJsdoc(content, file);
+    case 'tsoa':
+      return migrateTsoa(content, file);
+    case 'express-oas-generator':
+      return migrateExpressOasGenerator(content, file);
+  }
+}
+
+// ============================================================
+// Config migration
+// ============================================================
+
+type SecuritySchemeName = 'bearer' | 'apiKey' | 'basic' | 'oauth2';
+
+function mapSecuritySchemes(definitions: Record<string, any> | undefined): SecuritySchemeName[] {
+  const schemes = new Set<SecuritySchemeName>();
+
+  for (const definition of Object.values(definitions || {})) {
+    const type = String(definition?.type || '');
+    const scheme = String(definition?.scheme || '').toLowerCase();
+    if (type === 'http' && scheme === 'bearer') schemes.add('bearer');
+    else if ((type === 'http' && scheme === 'basic') || type === 'basic') schemes.add('basic');
+    else if (type === 'apiKey') schemes.add('apiKey');
+    else if (type === 'oauth2') schemes.add('oauth2');
+  }
+
+  return Array.from(schemes);
+}
+
+function serverFromSwagger2(definition: Record<string, any>): Array<{ url: string }> | undefined {
+  if (!definition.host) return undefined;
+  const scheme = Array.isArray(definition.schemes) && definition.schemes[0] ? definition.schemes[0] : 'http';
+  return [{ url: `${scheme}://${definition.host}${definition.basePath || ''}` }];
+}
+
+function pickInfo(info: Record<string, any> | undefined): SwaggerAutoConfig['info'] | undefined {
+  if (!info) return undefined;
+  const picked: NonNullable<SwaggerAutoConfig['info']> = {};
+  if (info.title) picked.title = info.title;
+  if (info.version) picked.version = String(info.version);
+  if (info.description) picked.description = info.description;
+  if (info.contact) picked.contact = info.contact;
+  if (info.license) picked.license = typeof info.license === 'string' ? { name: info.license } : info.license;
+  return Object.keys(picked).length > 0 ? picked : undefined;
+}
+
+/**
+ * Translate a legacy tool configuration into a `.swagger-autorc` config
+ */
+export function migrateConfig(
+  source: MigrationSource,
+  legacy: Record<string, any>,
+  file = '<config>'
+): ConfigMigration {
+  const issues: MigrationIssue[] = [];
+  const report = (construct: string, message: string) => issues.push({ file, line: 1, construct, message });
+  const config: SwaggerAutoConfig = {};
+
+  if (source === 'swagger-jsdoc') {
+    config.strategies = ['jsdoc'];
+    const definition = legacy.definition || legacy.swaggerDefinition || {};
+
+    config.info = pickInfo(definition.info);
+    config.servers = definition.servers || serverFromSwagger2(definition);
+
+    const schemes = mapSecuritySchemes(definition.components?.securitySchemes || definition.securityDefinitions);
+    if (schemes.length > 0) config.security = { detect: true, schemes };
+
+    if (Array.isArray(legacy.apis) && legacy.apis.length > 0) {
+      config.watch = { paths: legacy.apis };
+    }
+
+    for (const key of ['paths', 'tags', 'externalDocs', 'security']) {
+      if (definition[key]) report(key, `definition.${key} is not carried over; document it in JSDoc instead`);
+    }
+    for (const key of Object.keys(definition.components || {})) {
+      if (key !== 'securitySchemes') report(`components.${key}`, `definition.components.${key} is not carried over`);
+    }
+    if (definition.definitions) {
+      report('definitions', 'Swagger 2.0 definitions are not carried over');
+    }
+  } else if (source === 'tsoa') {
+    config.strategies = ['decorator'];
+    const spec = legacy.spec || {};
+
+    if (legacy.entryFile) config.input = legacy.entryFile;
+    if (spec.outputDirectory) {
+      const extension = spec.yaml ? '.yaml' : '.json';
+      config.output = `./${path.posix.join(spec.outputDirectory, `${spec.specFileBaseName || 'openapi'}${extension}`)}`.replace(/^\.\/\.\//, './');
+      config.format = spec.yaml ? 'yaml' : 'json';
+    }
+
+    config.info = pickInfo({ title: spec.name, version: spec.version, description: spec.description, license: spec.license, contact: spec.contact });
+    config.servers = serverFromSwagger2(spec);
+
+    const schemes = mapSecuritySchemes(spec.securityDefinitions);
+    if (schemes.length > 0) config.security = { detect: true, schemes };
+
+    if (Array.isArray(legacy.controllerPathGlobs)) config.watch = { paths: legacy.controllerPathGlobs };
+
+    if (legacy.routes) report('routes', 'tsoa route generation has no equivalent; register handlers on Express routers');
+    if (spec.specVersion && Number(spec.specVersion) < 3) report('specVersion', 'OpenAPI 3.x is generated; run `express-swagger-auto convert <spec> --to 2.0` for Swagger 2.0 output');
+    for (const key of ['spec', 'specMerging', 'tags', 'rootSecurity']) {
+      if (spec[key]) report(`spec.${key}`, `spec.${key} is not carried over`);
+    }
+    if (legacy.noImplicitAdditionalProperties) {
+      report('noImplicitAdditionalProperties', 'additionalProperties handling is not configurable');
+    }
+  } else {
+    config.strategies = ['runtime'];
+    if (typeof legacy.specOutputPath === 'string') {
+      config.output = legacy.specOutputPath;
+      config.format = /\.ya?ml$/.test(legacy.specOutputPath) ? 'yaml' : 'json';
+    }
+  }
+
+  for (const key of Object.keys(config) as Array<keyof SwaggerAutoConfig>) {
+    if (config[key] === undefined) delete config[key];
+  }
+
+  return { config, issues };
+}
+
+/**
+ * Default source globs for each tool when the legacy config does not list any
+ */
+export function getDefaultSourcePatterns(source: MigrationSource, legacy: Record<string, any> = {}): string[] {
+  if (source === 'swagger-jsdoc' && Array.isArray(legacy.apis)) return legacy.apis;
+  if (source === 'tsoa' && Array.isArray(legacy.controllerPathGlobs)) return legacy.controllerPathGlobs;
+  return source === 'tsoa' ? ['src/**/*.ts'] : ['src/**/*.js', 'src/**/*.ts'];
+}
+
+// ============================================================
+// Reporting
+// ============================================================
+
+/**
+ * Create a unified diff between two versions of a file
+ */
+export function createUnifiedDiff(file: string, before: string, after: string, context = 3): string {
+  if (before === after) return '';
+
+  const a = before.split('\n');
+  const b = after.split('\n');
+  const ops = diffLines(a, b);
+
+  const output = [`--- a/${file}`, `+++ b/${file}`];
+  let index = 0;
+
+  while (index < ops.length) {
+    if (ops[index].type === ' ') {
+      index++;
+      continue;
+    }
+
+    const start = Math.max(0, index - context);
+    let end = index;
+    // Extend the hunk while changes are within 2 * context lines of each other
+    for (let i = index; i < ops.length; i++) {
+      if (ops[i].type !== ' ') end = i;
+      else if (i - end > context * 2) break;
+    }
+    end = Math.min(ops.length - 1, end + context);
+
+    const hunk = ops.slice(start, end + 1);
+    const oldStart = ops[start].oldLine;
+    const newStart = ops[start].newLine;
+    const oldCount = hunk.filter((op) => op.type !== '+').length;
+    const newCount = hunk.filter((op) => op.type !== '-').length;
+
+    output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    output.push(...hunk.map((op) => `${op.type}${op.text}`));
+
+    index = end + 1;
+  }
+
+  return output.join('\n');
+}
+
+function diffLines(a: string[], b: string[]): Array<{ type: ' ' | '-' | '+'; text: string; oldLine: number; newLine: number }> {
+  const ops: Array<{ type: ' ' | '-' | '+'; text: string; oldLine: number; newLine: number }> = [];
+
+  // Trim the common prefix and suffix so the LCS table stays small
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++;
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+  const table: number[][] = Array.from({ length: midA.length + 1 }, () => new Array(midB.length + 1).fill(0));
+
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      table[i][j] = midA[i] === midB[j] ? table[i + 1][j + 1] + 1 : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+
+  let oldLine = 1;
+  let newLine = 1;
+  const push = (type: ' ' | '-' | '+', text: string) => {
+    ops.push({ type, text, oldLine, newLine });
+    if (type !== '+') oldLine++;
+    if (type !== '-') newLine++;
+  };
+
+  for (let i = 0; i < prefix; i++) push(' ', a[i]);
+
+  let i = 0;
+  let j = 0;
+  while (i < midA.length || j < midB.length) {
+    if (i < midA.length && j < midB.length && midA[i] === midB[j]) {
+      push(' ', midA[i]);
+      i++;
+      j++;
+    } else if (i < midA.length && (j >= midB.length || table[i + 1][j] >= table[i][j + 1])) {
+      push('-', midA[i++]);
+    } else {
+      push('+', midB[j++]);
+    }
+  }
+
+  for (let k = a.length - suffix; k < a.length; k++) push(' ', a[k]);
+
+  return ops;
+}
+
+/**
+ * Format a migration report for terminal or JSON output
+ */
+export function formatMigrationReport(report: MigrationReport, format: 'text' | 'json' = 'text'): string {
+  const changed = report.files.filter((f) => f.changed);
+  const issues = [...report.files.flatMap((f) => f.issues), ...(report.config?.issues || [])];
+
+  if (format === 'json') {
+    return JSON.stringify({
+      success: true,
+      source: report.source,
+      dryRun: report.dryRun,
+      files: changed.map((f) => ({ file: f.file, converted: f.converted, issues: f.issues.length })),
+      config: report.config ? { path: report.config.path, written: report.config.written, config: report.config.config } : null,
+      untranslated: issues,
+    }, null, 2);
+  }
+
+  const lines: string[] = [];
+  const converted = changed.reduce((sum, f) => sum + f.converted, 0);
+  const verb = report.dryRun ? 'Would migrate' : 'Migrated';
+
+  lines.push(`🔄 ${verb} ${converted} construct(s) in ${changed.length} file(s) from ${report.source}`);
+  lines.push('');
+
+  for (const file of changed) {
+    lines.push(`  ✓ ${file.file} (${file.converted})`);
+  }
+
+  if (report.config) {
+    const state = report.config.written ? 'written' : report.dryRun ? 'would be written' : 'skipped (already exists, use --force)';
+    lines.push(`  ✓ Config ${report.config.path} ${state}`);
+  }
+
+  if (issues.length > 0) {
+    lines.push('');
+    lines.push(`⚠ ${issues.length} construct(s) could not be translated:`);
+    for (const issue of issues) {
+      lines.push(`  • ${issue.file}:${issue.line} [${issue.construct}] ${issue.message}`);
+    }
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,301 @@
+/**
+ * Mock Server
+ * Answers every documented operation of a spec with an example response.
+ * Explicit examples (media type example/examples, then schema examples) win over values
+ * from the field-pattern generator of the examples command.
+ */
+
+import type { Application, Request, Response, NextFunction } from 'express';
+import type { OpenAPISpec, OpenAPIPath } from '../types';
+import { compileRoutes, matchRoute, stripBasePath, isJsonMediaType } from '../middleware/specRoutes';
+import { validateRequests } from '../middleware/validateRequests';
+import { generateExampleForSchema, setSeed } from './examples';
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface MockServerOptions {
+  /** Seed for generated values; identical requests then get identical responses */
+  seed?: number;
+  /** Reject requests that do not match the spec with a 400/415 problem (default: true) */
+  validate?: boolean;
+  /** Base path the API is served under (default: path of the first server URL) */
+  basePath?: string;
+  /** Answer CORS preflights and allow any origin (default: true) */
+  cors?: boolean;
+  /** Called after every response */
+  logger?: (entry: MockLogEntry) => void;
+}
+
+export interface MockLogEntry {
+  method: string;
+  path: string;
+  status: number;
+  /** Where the body came from; undefined for requests rejected before mocking */
+  source?: MockResponse['source'];
+}
+
+/**
+ * Preferences from the `Prefer` request header, e.g. `Prefer: code=404, example=notFound`
+ */
+export interface MockPreferences {
+  code?: string;
+  example?: string;
+}
+
+export interface MockResponse {
+  status: number;
+  headers: Record<string, string>;
+  contentType?: string;
+  body?: unknown;
+  source: 'example' | 'generated' | 'empty';
+}
+
+export interface BuildMockResponseOptions {
+  preferences?: MockPreferences;
+  /** Pick the best of the documented media types for the request, false when none is acceptable */
+  accepts?: (types: string[]) => string | false;
+  /** Seed for generated values, combined with `key` so each operation gets its own sequence */
+  seed?: number;
+  key?: string;
+}
+
+/**
+ * A request the mock cannot answer from the spec
+ */
+export class MockError extends Error {
+  constructor(public status: number, public title: string, message: string) {
+    super(message);
+    this.name = 'MockError';
+  }
+}
+
+// ============================================================
+// Response selection
+// ============================================================
+
+export function parsePrefer(header: string | undefined): MockPreferences {
+  const preferences: MockPreferences = {};
+  for (const part of (header || '').split(/[,;]/)) {
+    const [name, ...rest] = part.trim().split('=');
+    const value = rest.join('=').trim().replace(/^"(.*)"$/, '$1');
+    if (!value) continue;
+    if (name.trim().toLowerCase() === 'code') preferences.code = value;
+    if (name.trim().toLowerCase() === 'example') preferences.example = value;
+  }
+  return preferences;
+}
+
+/**
+ * Pick the documented response key: the preferred code (or its NXX range / default),
+ * otherwise the lowest 2xx, then default, then the first documented response
+ */
+function selectResponseKey(responses: Record<string, unknown>, preferred?: string): string {
+  const keys = Object.keys(responses);
+
+  if (preferred) {
+    const range = `${preferred[0]}XX`;
+    const key = keys.find((k) => k === preferred) || keys.find((k) => k.toUpperCase() === range) || keys.find((k) => k === 'default');
+    if (!key) {
+      throw new MockError(500, 'No documented response', `No response documented for status ${preferred}. Documented: ${keys.join(', ')}`);
+    }
+    return key;
+  }
+
+  const success = keys.filter((k) => /^2(\d\d|XX)$/i.test(k)).sort();
+  if (success.length > 0) return success[0];
+  if (keys.includes('default')) return 'default';
+  if (keys.length > 0) return keys[0];
+  throw new MockError(500, 'No documented response', 'The operation documents no responses');
+}
+
+function statusFor(key: string, preferred?: string): number {
+  if (/^\d{3}$/.test(key)) return Number(key);
+  if (preferred && /^\d{3}$/.test(preferred)) return Number(preferred);
+  if (/^\dXX$/i.test(key)) return Number(key[0]) * 100;
+  return 200;
+}
+
+/**
+ * Build the mock response for an operation
+ */
+export function buildMockResponse(
+  spec: OpenAPISpec,
+  operation: OpenAPIPath,
+  options: BuildMockResponseOptions = {}
+): MockResponse {
+  const { preferences = {}, accepts = (types) => types[0] } = options;
+  const document = spec as unknown as Parameters<typeof generateExampleForSchema>[2];
+  const responses = operation.responses || {};
+
+  const key = selectResponseKey(responses, preferences.code);
+  const response = resolveRef(spec, (responses as Record<string, any>)[key]);
+  const status = statusFor(key, preferences.code);
+
+  if (options.seed !== undefined) {
+    setSeed(hashSeed(`${options.seed}:${options.key || ''}:${key}`));
+  }
+
+  const headers: Record<string, string> = {};
+  for (const [name, header] of Object.entries<any>(response.headers || {})) {
+    const resolved = resolveRef(spec, header);
+    const value = resolved.example ?? generateExampleForSchema(resolved.schema, name, document);
+    if (value !== null && value !== undefined) headers[name] = String(value);
+  }
+
+  const mediaTypes = Object.keys(response.content || {});
+  if (mediaTypes.length === 0 || status === 204 || status === 304) {
+    return { status, headers, source: 'empty' };
+  }
+
+  const contentType = accepts(mediaTypes);
+  if (!contentType) {
+    throw new MockError(406, 'Not Acceptable', `None of the documented media types is acceptable: ${mediaTypes.join(', ')}`);
+  }
+  const media = response.content[contentType];
+
+  if (preferences.example) {
+    const named = media.examples?.[preferences.example];
+    if (!named) {
+      const available = Object.keys(media.examples || {});
+      throw new MockError(
+        500,
+        'No documented example',
+        `No example named ${preferences.example} for ${status} ${contentType}${available.length > 0 ? `. Documented: ${available.join(', ')}` : ''}`
+      );
+    }
+    return { status, headers, contentType, body: resolveRef(spec, named).value, source: 'example' };
+  }
+
+  if (media.example !== undefined) {
+    return { status, headers, contentType, body: media.example, source: 'example' };
+  }
+  const [first] = Object.values<any>(media.examples || {});
+  if (first) {
+    return { status, headers, contentType, body: resolveRef(spec, first).value, source: 'example' };
+  }
+
+  const body = media.schema ? generateExampleForSchema(media.schema, 'response', document) : null;
+  return { status, headers, contentType, body, source: 'generated' };
+}
+
+// ============================================================
+// Express app
+// ============================================================
+
+/**
+ * Create an Express app answering every documented operation with a mock response
+ */
+export function createMockApp(spec: OpenAPISpec, options: MockServerOptions = {}): Application {
+  const express = require('express');
+  const app: Application = express();
+  const basePath = options.basePath ?? basePathFromServers(spec);
+  const routes = compileRoutes(spec);
+
+  app.use((req: Request, res: Response, next: NextFunction) => {
+    if (options.logger) {
+      res.on('finish', () => {
+        options.logger!({ method: req.method, path: req.originalUrl, status: res.statusCode, source: res.locals.mockSource });
+      });
+    }
+    if (options.cors !== false) {
+      res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*');
+      res.setHeader('Vary', 'Origin');
+      if (req.method === 'OPTIONS' && req.headers['access-control-request-method']) {
+        res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, PATCH, DELETE, HEAD, OPTIONS');
+        res.setHeader('Access-Control-Allow-Headers', req.headers['access-control-request-headers'] || '*');
+        res.status(204).end();
+        return;
+      }
+    }
+    next();
+  });
+
+  app.use(express.json({ type: ['application/json', 'application/*+json'] }));
+  app.use(express.urlencoded({ extended: true }));
+
+  if (options.validate !== false) {
+    app.use(validateRequests(spec, { basePath }));
+  }
+
+  app.use((req: Request, res: Response) => {
+    const requestPath = stripBasePath(req.path, basePath);
+    const match = matchRoute(routes, requestPath, req.method.toLowerCase());
+
+    try {
+      if (!match) {
+        throw new MockError(404, 'Not Found', `No documented operation for ${req.method} ${requestPath}`);
+      }
+
+      const mock = buildMockResponse(spec, match.operation, {
+        preferences: parsePrefer(req.get('prefer')),
+        accepts: (types) => req.accepts(types),
+        seed: options.seed,
+        key: `${req.method} ${req.originalUrl}`,
+      });
+
+      res.locals.mockSource = mock.source;
+      res.status(mock.status);
+      for (const [name, value] of Object.entries(mock.headers)) {
+        res.setHeader(name, value);
+      }
+      if (mock.contentType === undefined) {
+        res.end();
+      } else {
+        const serialized = typeof mock.body === 'string' && !isJsonMediaType(mock.contentType)
+          ? mock.body
+          : JSON.stringify(mock.body);
+        res.setHeader('Content-Type', mock.contentType);
+        res.send(serialized);
+      }
+    } catch (error) {
+      if (!(error instanceof MockError)) throw error;
+      res.status(error.status);
+      res.setHeader('Content-Type', 'application/problem+json');
+      res.send(JSON.stringify({
+        type: 'about:blank',
+        title: error.title,
+        status: error.status,
+        detail: error.message,
+        instance: req.originalUrl,
+      }));
+    }
+  });
+
+  return app;
+}
+
+// ============================================================
+// Helpers
+// ============================================================
+
+function basePathFromServers(spec: OpenAPISpec): string {
+  const url = spec.servers?.[0]?.url;
+  if (!url) return '';
+  try {
+    return new URL(url, 'http://localhost').pathname.replace(/\/+$/, '');
+  } catch {
+    return '';
+  }
+}
+
+function resolveRef(spec: OpenAPISpec, node: any, depth: number = 0): any {
+  if (!node || typeof node.$ref !== 'string' || !node.$ref.startsWith('#/') || depth > 10) return node || {};
+  const target = node.$ref
+    .slice(2)
+    .split('/')
+    .map((segment: string) => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+    .reduce((value: any, segment: string) => value?.[segment], spec);
+  return resolveRef(spec, target, depth + 1);
+}
+
+/** FNV-1a, so every seed/operation pair gets a stable generator state */
+function hashSeed(value: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return (hash >>> 0) % 233280;
+}
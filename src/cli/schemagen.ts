@@ -0,0 +1,817 @@
+/**
+ * Validator Code Generation
+ * Generates Zod, Joi or Yup schema modules from an OpenAPI spec: one schema per
+ * component plus one request schema per operation (params, query, headers, cookies
+ * and body), each with a matching TypeScript type. This is the reverse of the
+ * validator adapters, so spec-first projects can validate requests with the spec.
+ */
+
+import type { OpenAPISpec, OpenAPIPath, OpenAPIParameter, OpenAPISchema } from '../types';
+import { emitSchema, typeFor, pascalCase } from './codegen';
+
+// ============================================================
+// Types
+// ============================================================
+
+export type ValidatorLibrary = 'zod' | 'joi' | 'yup';
+
+export interface ValidatorCodegenOptions {
+  library: ValidatorLibrary;
+  /** Spec file name shown in the header comment */
+  specName?: string;
+}
+
+export interface GeneratedValidators {
+  code: string;
+  library: ValidatorLibrary;
+  schemas: number;
+  operations: number;
+  warnings: string[];
+}
+
+interface EmitContext {
+  spec: OpenAPISpec;
+  library: ValidatorLibrary;
+  /** Components whose schema constant is already declared */
+  declared: Set<string>;
+  /** Components that reference themselves, directly or through other components */
+  cyclic: Set<string>;
+  warnings: string[];
+  /** Component or request being emitted, for warnings */
+  location: string;
+}
+
+interface ObjectEntry {
+  key: string;
+  expression: string;
+  required: boolean;
+  /** The schema has a default, which already makes the key optional */
+  defaulted?: boolean;
+}
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+
+const LIBRARY_NAMES: Record<ValidatorLibrary, string> = { zod: 'Zod', joi: 'Joi', yup: 'Yup' };
+
+/** Express request properties each parameter location is read from */
+const REQUEST_LOCATIONS: Array<[OpenAPIParameter['in'], string]> = [
+  ['path', 'params'],
+  ['query', 'query'],
+  ['header', 'headers'],
+  ['cookie', 'cookies'],
+];
+
+/**
+ * Normalize a --target value naming a validator library
+ */
+export function resolveValidatorLibrary(target: string): ValidatorLibrary | null {
+  const library = target.trim().toLowerCase();
+  return library in LIBRARY_NAMES ? (library as ValidatorLibrary) : null;
+}
+
+// ============================================================
+// Generator
+// ============================================================
+
+/**
+ * Generate a validator module for a spec. Schemas are declared dependencies first;
+ * references that close a cycle are deferred (z.lazy, yup.lazy or Joi.link).
+ */
+export function generateValidators(spec: OpenAPISpec, options: ValidatorCodegenOptions): GeneratedValidators {
+  const schemas = spec.components?.schemas || {};
+  const ctx: EmitContext = {
+    spec,
+    library: options.library,
+    declared: new Set(),
+    cyclic: findCycles(schemas),
+    warnings: [],
+    location: '',
+  };
+
+  const components = orderComponents(schemas).map((name) => {
+    ctx.location = `schema ${name}`;
+    const block = emitComponent(name, schemas[name], ctx);
+    ctx.declared.add(name);
+    return block;
+  });
+  const requests = emitRequests(spec, ctx);
+
+  const sections = [emitHeader(spec, options), section('Schemas'), ...components, section('Requests'), ...requests];
+
+  return {
+    code: sections.join('\n\n') + '\n',
+    library: options.library,
+    schemas: components.length,
+    operations: requests.length,
+    warnings: ctx.warnings,
+  };
+}
+
+function emitComponent(name: string, schema: OpenAPISchema, ctx: EmitContext): string {
+  const typeName = pascalCase(name);
+  let expression = schemaFor(schema, ctx, '');
+  const cyclic = ctx.cyclic.has(name);
+
+  if (ctx.library === 'joi') {
+    if (cyclic) expression += `.id(${quote(typeName)})`;
+    return `export const ${typeName}Schema = ${expression};\n${emitSchema(name, schema)}`;
+  }
+  if (ctx.library === 'yup') {
+    // Self-referencing initializers need an explicit type
+    const annotation = cyclic ? ': yup.Schema<any, any, any, any>' : '';
+    return `export const ${typeName}Schema${annotation} = ${expression};\n${emitSchema(name, schema)}`;
+  }
+  if (cyclic) {
+    return [
+      emitSchema(name, schema),
+      `export const ${typeName}Schema: z.ZodType<${typeName}, z.ZodTypeDef, unknown> = ${expression};`,
+    ].join('\n');
+  }
+  return `export const ${typeName}Schema = ${expression};\nexport type ${typeName} = z.infer<typeof ${typeName}Schema>;`;
+}
+
+function emitRequests(spec: OpenAPISpec, ctx: EmitContext): string[] {
+  const blocks: string[] = [];
+  const usedNames = new Set<string>();
+
+  for (const [path, pathItem] of Object.entries(spec.paths || {})) {
+    for (const method of HTTP_METHODS) {
+      const operation = (pathItem as Record<string, any>)[method] as OpenAPIPath | undefined;
+      if (!operation) continue;
+
+      let name = pascalCase(operation.operationId || fallbackName(method, path));
+      if (usedNames.has(name)) {
+        let suffix = 2;
+        while (usedNames.has(`${name}${suffix}`)) suffix++;
+        ctx.warnings.push(`Renamed ${method.toUpperCase()} ${path} to ${name}${suffix}: ${name} is already used`);
+        name = `${name}${suffix}`;
+      }
+      usedNames.add(name);
+      ctx.location = `${method.toUpperCase()} ${path}`;
+
+      const merged = new Map<string, OpenAPIParameter>();
+      for (const raw of [...((pathItem as any).parameters || []), ...(operation.parameters || [])]) {
+        const parameter = resolveRef(spec, raw) as OpenAPIParameter;
+        if (parameter.name && parameter.in) merged.set(`${parameter.in}:${parameter.name}`, parameter);
+      }
+
+      const entries: ObjectEntry[] = [];
+      const typeSchema: OpenAPISchema = { type: 'object', properties: {}, required: [] };
+      for (const [location, key] of REQUEST_LOCATIONS) {
+        const parameters = [...merged.values()].filter((parameter) => parameter.in === location);
+        if (parameters.length === 0) continue;
+
+        // Express lower-cases header names
+        const fieldName = (parameter: OpenAPIParameter) => (location === 'header' ? parameter.name.toLowerCase() : parameter.name);
+        const fields = parameters.map((parameter) => ({
+          key: fieldName(parameter),
+          expression: schemaFor(parameter.schema, ctx, '    ', true),
+          required: parameter.required === true || location === 'path',
+          defaulted: parameter.schema?.default !== undefined,
+        }));
+        entries.push({ key, expression: objectFor(fields, ctx, '  ', true), required: true });
+        typeSchema.properties![key] = {
+          type: 'object',
+          properties: Object.fromEntries(parameters.map((parameter) => [fieldName(parameter), parameter.schema || {}])),
+          required: fields.filter((field) => field.required).map((field) => field.key),
+        };
+        typeSchema.required!.push(key);
+      }
+
+      const requestBody = resolveRef(spec, operation.requestBody);
+      const contentTypes = Object.keys(requestBody.content || {});
+      const contentType = contentTypes.find(isJsonMediaType) || contentTypes[0];
+      if (contentType) {
+        const schema = requestBody.content[contentType].schema;
+        entries.push({ key: 'body', expression: schemaFor(schema, ctx, '  '), required: requestBody.required === true });
+        typeSchema.properties!.body = schema || {};
+        if (requestBody.required === true) typeSchema.required!.push('body');
+      }
+
+      if (entries.length === 0) continue;
+
+      const doc = `/** ${method.toUpperCase()} ${path} */\n`;
+      const expression = objectFor(entries, ctx, '', true);
+      const type = ctx.library === 'zod'
+        ? `export type ${name}Request = z.infer<typeof ${name}RequestSchema>;`
+        : `export type ${name}Request = ${typeFor(typeSchema, '')};`;
+      blocks.push(`${doc}export const ${name}RequestSchema = ${expression};\n${type}`);
+    }
+  }
+
+  return blocks;
+}
+
+// ============================================================
+// Schemas
+// ============================================================
+
+/**
+ * Validator expression for a schema. `coerce` converts the strings Express parses
+ * path, query, header and cookie values into.
+ */
+function schemaFor(schema: OpenAPISchema | undefined, ctx: EmitContext, indent: string, coerce: boolean = false): string {
+  if (!schema || typeof schema !== 'object') return unknownFor(ctx.library);
+  if (schema.$ref) return refFor(schema.$ref, ctx);
+
+  switch (ctx.library) {
+    case 'joi':
+      return joiFor(schema, ctx, indent, coerce);
+    case 'yup':
+      return yupFor(schema, ctx, indent, coerce);
+    default:
+      return zodFor(schema, ctx, indent, coerce);
+  }
+}
+
+function refFor(ref: string, ctx: EmitContext): string {
+  const match = /^#\/components\/schemas\/(.+)$/.exec(ref);
+  const name = match ? decodePointer(match[1]) : undefined;
+  if (!name || !ctx.spec.components?.schemas?.[name]) {
+    ctx.warnings.push(`Unresolved reference ${ref} in ${ctx.location}: accepted any value`);
+    return unknownFor(ctx.library);
+  }
+
+  const constName = `${pascalCase(name)}Schema`;
+  if (ctx.declared.has(name)) return constName;
+
+  // Only references inside a cycle point at schemas that are not declared yet
+  if (ctx.library === 'zod') return `z.lazy(() => ${constName})`;
+  if (ctx.library === 'yup') return `yup.lazy(() => ${constName})`;
+  if (!ctx.location.endsWith(` ${name}`)) {
+    ctx.warnings.push(`Joi.link('#${pascalCase(name)}') in ${ctx.location} only resolves when validating through ${constName}`);
+  }
+  return `Joi.link(${quote(`#${pascalCase(name)}`)})`;
+}
+
+function zodFor(schema: OpenAPISchema, ctx: EmitContext, indent: string, coerce: boolean): string {
+  const { types, nullable } = typesOf(schema);
+  let expression: string;
+
+  const variants = schema.oneOf || schema.anyOf;
+  if (schema.allOf) {
+    expression = parts(schema)
+      .map((part) => schemaFor(part, ctx, indent))
+      .reduce((left, right) => `z.intersection(${left}, ${right})`);
+  } else if (variants) {
+    const members = variants.map((variant) => schemaFor(variant, ctx, indent));
+    const discriminator = schema.discriminator?.propertyName;
+    if (members.length === 1) {
+      expression = members[0];
+    } else if (discriminator && variants.every((variant) => isDiscriminable(variant, discriminator, ctx))) {
+      expression = `z.discriminatedUnion(${quote(discriminator)}, [${members.join(', ')}])`;
+    } else {
+      expression = `z.union([${members.join(', ')}])`;
+    }
+  } else if (enumValues(schema)) {
+    const values = enumValues(schema)!.filter((value) => value !== null);
+    if (values.length === 0) return 'z.null()';
+    if (values.length === 1) {
+      expression = `z.literal(${literal(values[0])})`;
+    } else if (values.every((value) => typeof value === 'string')) {
+      expression = `z.enum([${values.map(literal).join(', ')}])`;
+    } else {
+      expression = `z.union([${values.map((value) => `z.literal(${literal(value)})`).join(', ')}])`;
+    }
+  } else if (types.length > 1) {
+    expression = `z.union([${types.map((type) => zodFor(single(schema, type), ctx, indent, coerce)).join(', ')}])`;
+  } else {
+    switch (types[0]) {
+      case 'string':
+        expression = schema.format === 'binary' ? 'z.any()' : `z.string()${zodStringChecks(schema)}`;
+        break;
+      case 'integer':
+      case 'number':
+        expression = `${coerce ? 'z.coerce.number()' : 'z.number()'}${types[0] === 'integer' ? '.int()' : ''}${zodNumberChecks(schema)}`;
+        break;
+      case 'boolean':
+        expression = coerce
+          ? "z.preprocess((value) => (value === 'true' ? true : value === 'false' ? false : value), z.boolean())"
+          : 'z.boolean()';
+        break;
+      case 'null':
+        return 'z.null()';
+      case 'array': {
+        expression = `z.array(${schemaFor(schema.items, ctx, indent, coerce)})`;
+        if (schema.minItems !== undefined) expression += `.min(${schema.minItems})`;
+        if (schema.maxItems !== undefined) expression += `.max(${schema.maxItems})`;
+        if (schema.uniqueItems) {
+          expression += ".refine((items) => new Set(items.map((item) => JSON.stringify(item))).size === items.length, 'Items must be unique')";
+        }
+        if (coerce) {
+          // A single query value arrives as a string rather than an array
+          expression = `z.preprocess((value) => (value === undefined || Array.isArray(value) ? value : [value]), ${expression})`;
+        }
+        break;
+      }
+      case 'object':
+        expression = zodObject(schema, ctx, indent);
+        break;
+      default:
+        expression = 'z.unknown()';
+    }
+  }
+
+  if (nullable) expression += '.nullable()';
+  if (schema.default !== undefined) expression += `.default(${literal(schema.default)})`;
+  return withDescription(expression, schema, ctx.library);
+}
+
+function zodStringChecks(schema: OpenAPISchema): string {
+  const formats: Record<string, string> = {
+    email: '.email()',
+    uuid: '.uuid()',
+    uri: '.url()',
+    url: '.url()',
+    'date-time': '.datetime({ offset: true })',
+    date: '.date()',
+    time: '.time()',
+    ipv4: ".ip({ version: 'v4' })",
+    ipv6: ".ip({ version: 'v6' })",
+  };
+  let checks = (schema.format && formats[schema.format]) || '';
+  if (schema.minLength !== undefined) checks += `.min(${schema.minLength})`;
+  if (schema.maxLength !== undefined) checks += `.max(${schema.maxLength})`;
+  if (schema.pattern) checks += `.regex(new RegExp(${quote(schema.pattern)}))`;
+  return checks;
+}
+
+function zodNumberChecks(schema: OpenAPISchema): string {
+  const { lower, upper } = bounds(schema);
+  let checks = '';
+  if (lower) checks += `.${lower.exclusive ? 'gt' : 'min'}(${lower.value})`;
+  if (upper) checks += `.${upper.exclusive ? 'lt' : 'max'}(${upper.value})`;
+  if (schema.multipleOf !== undefined) checks += `.multipleOf(${schema.multipleOf})`;
+  return checks;
+}
+
+function zodObject(schema: OpenAPISchema, ctx: EmitContext, indent: string): string {
+  const properties = Object.entries(schema.properties || {});
+  const additional = schema.additionalProperties;
+
+  if (properties.length === 0) {
+    if (additional === false) return 'z.object({}).strict()';
+    return `z.record(${additional && additional !== true ? schemaFor(additional, ctx, indent) : 'z.unknown()'})`;
+  }
+
+  let expression = objectFor(propertyEntries(schema, ctx, indent), ctx, indent);
+  if (additional === false) expression += '.strict()';
+  else if (additional === true) expression += '.passthrough()';
+  else if (additional) expression += `.catchall(${schemaFor(additional, ctx, indent)})`;
+  return expression;
+}
+
+function joiFor(schema: OpenAPISchema, ctx: EmitContext, indent: string, coerce: boolean): string {
+  const { types, nullable } = typesOf(schema);
+  let expression: string;
+
+  const variants = schema.oneOf || schema.anyOf;
+  if (schema.allOf) {
+    const members = parts(schema).map((part) => schemaFor(part, ctx, indent));
+    expression = members.length === 1 ? members[0] : `Joi.alternatives().match('all').try(${members.join(', ')})`;
+  } else if (variants) {
+    const members = variants.map((variant) => schemaFor(variant, ctx, indent));
+    expression = members.length === 1
+      ? members[0]
+      : `Joi.alternatives()${schema.oneOf ? ".match('one')" : ''}.try(${members.join(', ')})`;
+  } else if (enumValues(schema)) {
+    const values = enumValues(schema)!;
+    const base = types.length === 1 && ['string', 'number', 'integer', 'boolean'].includes(types[0])
+      ? `Joi.${types[0] === 'integer' ? 'number' : types[0]}()`
+      : 'Joi';
+    expression = `${base}.valid(${values.map(literal).join(', ')})`;
+  } else if (types.length > 1) {
+    expression = `Joi.alternatives().try(${types.map((type) => joiFor(single(schema, type), ctx, indent, coerce)).join(', ')})`;
+  } else {
+    switch (types[0]) {
+      case 'string':
+        expression = schema.format === 'binary' ? 'Joi.any()' : `Joi.string()${joiStringChecks(schema)}`;
+        break;
+      case 'integer':
+      case 'number': {
+        const { lower, upper } = bounds(schema);
+        expression = `Joi.number()${types[0] === 'integer' ? '.integer()' : ''}`;
+        if (lower) expression += `.${lower.exclusive ? 'greater' : 'min'}(${lower.value})`;
+        if (upper) expression += `.${upper.exclusive ? 'less' : 'max'}(${upper.value})`;
+        if (schema.multipleOf !== undefined) expression += `.multiple(${schema.multipleOf})`;
+        break;
+      }
+      case 'boolean':
+        expression = 'Joi.boolean()';
+        break;
+      case 'null':
+        return 'Joi.valid(null)';
+      case 'array':
+        expression = `Joi.array().items(${schemaFor(schema.items, ctx, indent, coerce)})`;
+        if (schema.minItems !== undefined) expression += `.min(${schema.minItems})`;
+        if (schema.maxItems !== undefined) expression += `.max(${schema.maxItems})`;
+        if (schema.uniqueItems) expression += '.unique()';
+        // A single query value arrives as a string rather than an array
+        if (coerce) expression += '.single()';
+        break;
+      case 'object': {
+        const properties = Object.entries(schema.properties || {});
+        const additional = schema.additionalProperties;
+        if (properties.length === 0) {
+          expression = additional === false ? 'Joi.object({})' : 'Joi.object()';
+        } else {
+          // Joi rejects undeclared keys unless told otherwise; JSON Schema allows them
+          expression = objectFor(propertyEntries(schema, ctx, indent), ctx, indent, additional === undefined || additional === true);
+        }
+        if (additional && additional !== true) expression += `.pattern(Joi.string(), ${schemaFor(additional, ctx, indent)})`;
+        break;
+      }
+      default:
+        expression = 'Joi.any()';
+    }
+  }
+
+  if (nullable && !enumValues(schema)?.includes(null)) expression += '.allow(null)';
+  if (schema.default !== undefined) expression += `.default(${literal(schema.default)})`;
+  return withDescription(expression, schema, ctx.library);
+}
+
+function joiStringChecks(schema: OpenAPISchema): string {
+  const formats: Record<string, string> = {
+    email: '.email()',
+    uuid: '.uuid()',
+    uri: '.uri()',
+    url: '.uri()',
+    'date-time': '.isoDate()',
+    date: '.isoDate()',
+    hostname: '.hostname()',
+    byte: '.base64()',
+    ipv4: ".ip({ version: ['ipv4'] })",
+    ipv6: ".ip({ version: ['ipv6'] })",
+  };
+  const format = (schema.format && formats[schema.format]) || '';
+  let checks = format;
+  if (schema.minLength !== undefined) checks += `.min(${schema.minLength})`;
+  if (schema.maxLength !== undefined) checks += `.max(${schema.maxLength})`;
+  if (schema.pattern) checks += `.pattern(new RegExp(${quote(schema.pattern)}))`;
+  // Joi rejects empty strings by default; JSON Schema only does with minLength
+  if (!format && !schema.pattern && !schema.minLength) checks += ".allow('')";
+  return checks;
+}
+
+function yupFor(schema: OpenAPISchema, ctx: EmitContext, indent: string, coerce: boolean): string {
+  const { types, nullable } = typesOf(schema);
+  let expression: string;
+
+  const variants = schema.oneOf || schema.anyOf;
+  if (schema.allOf) {
+    const allParts = parts(schema);
+    const members = allParts.map((part) => schemaFor(part, ctx, indent));
+    if (members.length > 1 && !allParts.every((part) => isObjectLike(part, ctx))) {
+      ctx.warnings.push(`allOf in ${ctx.location} mixes non-object schemas: Yup only validates the first`);
+      expression = members[0];
+    } else {
+      expression = members.reduce((left, right) => `${left}.concat(${right})`);
+    }
+  } else if (variants) {
+    const members = variants.map((variant) => schemaFor(variant, ctx, indent));
+    expression = members.length === 1 ? members[0] : yupUnion(members, !!schema.oneOf);
+  } else if (enumValues(schema)) {
+    // Yup only accepts null when it is listed
+    const values = nullable && !enumValues(schema)!.includes(null) ? [...enumValues(schema)!, null] : enumValues(schema)!;
+    const base = types.length === 1 && ['string', 'number', 'integer', 'boolean'].includes(types[0])
+      ? `yup.${types[0] === 'integer' ? 'number' : types[0]}()`
+      : 'yup.mixed()';
+    expression = `${base}${nullable ? '.nullable()' : ''}.oneOf([${values.map(literal).join(', ')}])`;
+  } else if (types.length > 1) {
+    expression = yupUnion(types.map((type) => yupFor(single(schema, type), ctx, indent, coerce)), false);
+  } else {
+    switch (types[0]) {
+      case 'string':
+        expression = schema.format === 'binary' ? 'yup.mixed()' : `yup.string()${yupStringChecks(schema)}`;
+        break;
+      case 'integer':
+      case 'number': {
+        const { lower, upper } = bounds(schema);
+        expression = `yup.number()${types[0] === 'integer' ? '.integer()' : ''}`;
+        if (lower) expression += `.${lower.exclusive ? 'moreThan' : 'min'}(${lower.value})`;
+        if (upper) expression += `.${upper.exclusive ? 'lessThan' : 'max'}(${upper.value})`;
+        if (schema.multipleOf !== undefined) {
+          expression += `.test('multiple-of', 'Must be a multiple of ${schema.multipleOf}', (value) => value === undefined || value % ${schema.multipleOf} === 0)`;
+        }
+        break;
+      }
+      case 'boolean':
+        expression = 'yup.boolean()';
+        break;
+      case 'null':
+        return 'yup.mixed().nullable().oneOf([null])';
+      case 'array':
+        expression = `yup.array().of(${schemaFor(schema.items, ctx, indent, coerce)})`;
+        if (schema.minItems !== undefined) expression += `.min(${schema.minItems})`;
+        if (schema.maxItems !== undefined) expression += `.max(${schema.maxItems})`;
+        if (schema.uniqueItems) {
+          expression += ".test('unique', 'Items must be unique', (items) => !items || new Set(items.map((item) => JSON.stringify(item))).size === items.length)";
+        }
+        if (coerce) {
+          // A single query value arrives as a string rather than an array
+          expression += '.transform((value, original) => (original === undefined || Array.isArray(original) ? value : [original]))';
+        }
+        break;
+      case 'object': {
+        const properties = Object.entries(schema.properties || {});
+        const additional = schema.additionalProperties;
+        if (additional && additional !== true) {
+          ctx.warnings.push(`additionalProperties schema in ${ctx.location} is not enforced by Yup`);
+        }
+        expression = properties.length === 0 ? 'yup.object()' : objectFor(propertyEntries(schema, ctx, indent), ctx, indent);
+        if (additional === false) expression += '.noUnknown()';
+        // Yup builds missing objects from their fields' defaults, which never ends for recursive schemas
+        if (properties.length > 0 && schema.default === undefined) expression += '.default(undefined)';
+        break;
+      }
+      default:
+        expression = 'yup.mixed()';
+    }
+  }
+
+  if (nullable && !enumValues(schema)) expression += '.nullable()';
+  if (schema.default !== undefined) expression += `.default(${literal(schema.default)})`;
+  return withDescription(expression, schema, ctx.library);
+}
+
+function yupStringChecks(schema: OpenAPISchema): string {
+  const formats: Record<string, string> = {
+    email: '.email()',
+    uuid: '.uuid()',
+    uri: '.url()',
+    url: '.url()',
+    'date-time': '.datetime()',
+    date: ".matches(/^\\d{4}-\\d{2}-\\d{2}$/, 'Must be a date (YYYY-MM-DD)')",
+  };
+  let checks = (schema.format && formats[schema.format]) || '';
+  if (schema.minLength !== undefined) checks += `.min(${schema.minLength})`;
+  if (schema.maxLength !== undefined) checks += `.max(${schema.maxLength})`;
+  if (schema.pattern) checks += `.matches(new RegExp(${quote(schema.pattern)}))`;
+  return checks;
+}
+
+/**
+ * Yup has no union type, so unions test the value against each member
+ */
+function yupUnion(members: string[], exactlyOne: boolean): string {
+  const check = exactlyOne
+    ? '.filter((schema) => schema.isValidSync(value)).length === 1'
+    : '.some((schema) => schema.isValidSync(value))';
+  const message = exactlyOne ? 'Must match exactly one schema' : 'Must match at least one schema';
+  return `yup.mixed().test('union', ${quote(message)}, (value) => value === undefined || [${members.join(', ')}]${check})`;
+}
+
+// ============================================================
+// Objects
+// ============================================================
+
+function propertyEntries(schema: OpenAPISchema, ctx: EmitContext, indent: string): ObjectEntry[] {
+  const required = new Set(schema.required || []);
+  return Object.entries(schema.properties || {}).map(([key, property]) => ({
+    key,
+    expression: schemaFor(property, ctx, `${indent}  `),
+    required: required.has(key),
+    defaulted: property.default !== undefined,
+  }));
+}
+
+/**
+ * Object schema from its entries. `open` keeps undeclared keys (Joi only; Zod strips
+ * them and Yup keeps them by default).
+ */
+function objectFor(entries: ObjectEntry[], ctx: EmitContext, indent: string, open: boolean = false): string {
+  const inner = `${indent}  `;
+  const lines = entries.map((entry) => `${inner}${propertyKey(entry.key)}: ${entry.expression}${presence(entry, ctx.library)},`);
+  const body = `{\n${lines.join('\n')}\n${indent}}`;
+
+  if (ctx.library === 'joi') return `Joi.object(${body})${open ? '.unknown(true)' : ''}`;
+  if (ctx.library === 'yup') return `yup.object(${body})`;
+  return `z.object(${body})`;
+}
+
+function presence(entry: ObjectEntry, library: ValidatorLibrary): string {
+  if (library === 'joi') return entry.required ? '.required()' : '.optional()';
+  if (library === 'yup') return entry.required ? '.defined()' : '';
+  return entry.required || entry.defaulted ? '' : '.optional()';
+}
+
+// ============================================================
+// Ordering
+// ============================================================
+
+/**
+ * Component names in declaration order: every schema after the schemas it references
+ */
+function orderComponents(schemas: Record<string, OpenAPISchema>): string[] {
+  const order: string[] = [];
+  const visited = new Set<string>();
+
+  const visit = (name: string) => {
+    if (visited.has(name)) return;
+    visited.add(name);
+    for (const dependency of [...referencedComponents(schemas[name])].sort()) {
+      if (schemas[dependency]) visit(dependency);
+    }
+    order.push(name);
+  };
+
+  for (const name of Object.keys(schemas).sort()) visit(name);
+  return order;
+}
+
+function findCycles(schemas: Record<string, OpenAPISchema>): Set<string> {
+  const cyclic = new Set<string>();
+
+  for (const name of Object.keys(schemas)) {
+    const stack = [...referencedComponents(schemas[name])];
+    const seen = new Set<string>();
+    while (stack.length > 0) {
+      const current = stack.pop()!;
+      if (current === name) {
+        cyclic.add(name);
+        break;
+      }
+      if (seen.has(current) || !schemas[current]) continue;
+      seen.add(current);
+      stack.push(...referencedComponents(schemas[current]));
+    }
+  }
+
+  return cyclic;
+}
+
+function referencedComponents(node: unknown, names: Set<string> = new Set()): Set<string> {
+  if (Array.isArray(node)) {
+    for (const item of node) referencedComponents(item, names);
+  } else if (node && typeof node === 'object') {
+    for (const [key, value] of Object.entries(node)) {
+      const match = key === '$ref' && typeof value === 'string' ? /^#\/components\/schemas\/(.+)$/.exec(value) : null;
+      if (match) names.add(decodePointer(match[1]));
+      else referencedComponents(value, names);
+    }
+  }
+  return names;
+}
+
+// ============================================================
+// Helpers
+// ============================================================
+
+function emitHeader(spec: OpenAPISpec, options: ValidatorCodegenOptions): string {
+  const title = [spec.info?.title, spec.info?.version].filter(Boolean).join(' ') || 'API';
+  const source = options.specName ? ` from ${options.specName}` : '';
+  const imports: Record<ValidatorLibrary, string> = {
+    zod: "import { z } from 'zod';",
+    joi: "import Joi from 'joi';",
+    yup: "import * as yup from 'yup';",
+  };
+  return [
+    '/**',
+    ` * ${title} ${LIBRARY_NAMES[options.library]} schemas`,
+    ` * Generated by express-swagger-auto codegen${source}. Regenerate instead of editing.`,
+    ' */',
+    '/* eslint-disable */',
+    imports[options.library],
+  ].join('\n');
+}
+
+function section(title: string): string {
+  return `// ============================================================\n// ${title}\n// ============================================================`;
+}
+
+function unknownFor(library: ValidatorLibrary): string {
+  return library === 'joi' ? 'Joi.any()' : library === 'yup' ? 'yup.mixed()' : 'z.unknown()';
+}
+
+function withDescription(expression: string, schema: OpenAPISchema, library: ValidatorLibrary): string {
+  if (!schema.description) return expression;
+  if (library === 'joi') return `${expression}.description(${quote(schema.description)})`;
+  if (library === 'yup') return `${expression}.meta({ description: ${quote(schema.description)} })`;
+  return `${expression}.describe(${quote(schema.description)})`;
+}
+
+/**
+ * Non-null types of a schema, inferred from its keywords when `type` is missing
+ */
+function typesOf(schema: OpenAPISchema): { types: string[]; nullable: boolean } {
+  const declared = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+  let types = declared.filter((type) => type !== 'null');
+  const nullable = schema.nullable === true || types.length < declared.length || (enumValues(schema) || []).includes(null);
+
+  if (declared.length === 0) {
+    const valueTypes = new Set((enumValues(schema) || []).filter((value) => value !== null).map((value) => typeof value));
+    if (schema.properties || schema.additionalProperties !== undefined) types = ['object'];
+    else if (schema.items) types = ['array'];
+    else if (valueTypes.size === 1 && ['string', 'number', 'boolean'].includes([...valueTypes][0])) types = [...valueTypes];
+  } else if (types.length === 0) {
+    types = ['null'];
+  }
+  return { types, nullable };
+}
+
+function enumValues(schema: OpenAPISchema): unknown[] | undefined {
+  if (schema.const !== undefined) return [schema.const];
+  return Array.isArray(schema.enum) && schema.enum.length > 0 ? schema.enum : undefined;
+}
+
+/**
+ * One member of a multi-type schema, e.g. the string branch of ['string', 'number']
+ */
+function single(schema: OpenAPISchema, type: string): OpenAPISchema {
+  const member: OpenAPISchema = { ...schema, type };
+  delete member.description;
+  delete member.default;
+  delete member.nullable;
+  return member;
+}
+
+/**
+ * allOf members, plus the schema's own properties when it declares any next to allOf
+ */
+function parts(schema: OpenAPISchema): OpenAPISchema[] {
+  const allOf = schema.allOf || [];
+  if (!schema.properties) return allOf;
+
+  const own: OpenAPISchema = { type: 'object', ...schema };
+  for (const key of ['allOf', 'description', 'nullable', 'default'] as const) delete own[key];
+  return [...allOf, own];
+}
+
+function bounds(schema: OpenAPISchema): {
+  lower?: { value: number; exclusive: boolean };
+  upper?: { value: number; exclusive: boolean };
+} {
+  const result: ReturnType<typeof bounds> = {};
+  if (typeof schema.exclusiveMinimum === 'number') result.lower = { value: schema.exclusiveMinimum, exclusive: true };
+  else if (schema.minimum !== undefined) result.lower = { value: schema.minimum, exclusive: schema.exclusiveMinimum === true };
+  if (typeof schema.exclusiveMaximum === 'number') result.upper = { value: schema.exclusiveMaximum, exclusive: true };
+  else if (schema.maximum !== undefined) result.upper = { value: schema.maximum, exclusive: schema.exclusiveMaximum === true };
+  return result;
+}
+
+/**
+ * z.discriminatedUnion only accepts plain object schemas that declare the discriminator
+ */
+function isDiscriminable(schema: OpenAPISchema, propertyName: string, ctx: EmitContext): boolean {
+  const match = schema.$ref ? /^#\/components\/schemas\/(.+)$/.exec(schema.$ref) : null;
+  const name = match ? decodePointer(match[1]) : undefined;
+  if (name && (!ctx.declared.has(name) || ctx.cyclic.has(name))) return false;
+
+  const target = resolveRef(ctx.spec, schema) as OpenAPISchema;
+  const { types, nullable } = typesOf(target);
+  return (
+    types.length === 1 &&
+    types[0] === 'object' &&
+    !nullable &&
+    !target.allOf &&
+    target.default === undefined &&
+    !!target.properties?.[propertyName] &&
+    (target.required || []).includes(propertyName)
+  );
+}
+
+function isObjectLike(schema: OpenAPISchema, ctx: EmitContext): boolean {
+  const match = schema.$ref ? /^#\/components\/schemas\/(.+)$/.exec(schema.$ref) : null;
+  if (match && !ctx.declared.has(decodePointer(match[1]))) return false;
+  const target = resolveRef(ctx.spec, schema) as OpenAPISchema;
+  return typesOf(target).types[0] === 'object' && !target.oneOf && !target.anyOf;
+}
+
+function isJsonMediaType(contentType: string): boolean {
+  return /^application\/(.+\+)?json$/i.test(contentType.split(';')[0].trim());
+}
+
+function fallbackName(method: string, path: string): string {
+  const segments = path
+    .split('/')
+    .filter(Boolean)
+    .map((segment) => (segment.startsWith('{') ? `By ${segment.slice(1, -1)}` : segment));
+  return [method, ...segments].join(' ');
+}
+
+function quote(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n')}'`;
+}
+
+function literal(value: unknown): string {
+  return typeof value === 'string' ? quote(value) : JSON.stringify(value);
+}
+
+function propertyKey(key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : quote(key);
+}
+
+function decodePointer(segment: string): string {
+  return segment.replace(/~1/g, '/').replace(/~0/g, '~');
+}
+
+function resolveRef(spec: OpenAPISpec, node: any, depth: number = 0): any {
+  if (!node || typeof node.$ref !== 'string' || !node.$ref.startsWith('#/') || depth > 10) return node || {};
+  const target = node.$ref
+    .slice(2)
+    .split('/')
+    .map(decodePointer)
+    .reduce((value: any, segment: string) => value?.[segment], spec);
+  return resolveRef(spec, target, depth + 1);
+}
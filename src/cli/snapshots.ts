@@ -0,0 +1,127 @@
+/**
+ * Runtime Snapshot Maintenance
+ * Helpers for the snapshots command: route summaries, durations for pruning and
+ * reading/writing exported snapshots as a JSON array or NDJSON.
+ */
+
+import type { RuntimeSnapshot } from '../core/SnapshotStorage';
+
+export interface SnapshotRouteSummary {
+  method: string;
+  path: string;
+  count: number;
+  oldest: string;
+  newest: string;
+}
+
+export type SnapshotExportFormat = 'json' | 'ndjson';
+
+/**
+ * One entry per captured route, sorted by path then method
+ */
+export function summarizeSnapshots(snapshots: RuntimeSnapshot[]): SnapshotRouteSummary[] {
+  const routes = new Map<string, SnapshotRouteSummary>();
+
+  for (const snapshot of snapshots) {
+    const key = `${snapshot.method}:${snapshot.path}`;
+    const summary = routes.get(key);
+    if (!summary) {
+      routes.set(key, {
+        method: snapshot.method,
+        path: snapshot.path,
+        count: 1,
+        oldest: snapshot.timestamp,
+        newest: snapshot.timestamp,
+      });
+      continue;
+    }
+    summary.count++;
+    if (snapshot.timestamp < summary.oldest) summary.oldest = snapshot.timestamp;
+    if (snapshot.timestamp > summary.newest) summary.newest = snapshot.timestamp;
+  }
+
+  return [...routes.values()].sort((a, b) => a.path.localeCompare(b.path) || a.method.localeCompare(b.method));
+}
+
+export function formatSnapshotSummaryText(summaries: SnapshotRouteSummary[]): string {
+  if (summaries.length === 0) {
+    return 'No snapshots captured';
+  }
+
+  const total = summaries.reduce((sum, summary) => sum + summary.count, 0);
+  const lines = [`${total} snapshot(s) across ${summaries.length} route(s)`, ''];
+  const width = Math.max(...summaries.map((summary) => `${summary.method} ${summary.path}`.length));
+
+  for (const summary of summaries) {
+    const route = `${summary.method} ${summary.path}`.padEnd(width);
+    lines.push(`  ${route}  ${String(summary.count).padStart(4)}  newest ${summary.newest}`);
+  }
+
+  return lines.join('\n');
+}
+
+const DURATION_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Parse a duration such as '7d', '12h', '30m' or a plain number of milliseconds
+ */
+export function parseDuration(value: string): number {
+  const match = /^(\d+(?:\.\d+)?)\s*(ms|s|m|h|d|w)?$/i.exec(value.trim());
+  if (!match) {
+    throw new Error(`Invalid duration: ${value}. Use e.g. 30m, 12h or 7d`);
+  }
+  return Math.round(Number(match[1]) * DURATION_UNITS[(match[2] || 'ms').toLowerCase()]);
+}
+
+/**
+ * Read exported snapshots from a JSON array or NDJSON document
+ */
+export function parseSnapshotFile(content: string): RuntimeSnapshot[] {
+  const trimmed = content.trim();
+  if (!trimmed) return [];
+
+  const records: unknown[] = trimmed.startsWith('[')
+    ? JSON.parse(trimmed)
+    : trimmed
+        .split('\n')
+        .filter((line) => line.trim())
+        .map((line, index) => {
+          try {
+            return JSON.parse(line);
+          } catch {
+            throw new Error(`Invalid JSON on line ${index + 1}`);
+          }
+        });
+
+  return records.map((record, index) => {
+    if (!isSnapshot(record)) {
+      throw new Error(`Entry ${index + 1} is not a snapshot: method, path and timestamp are required`);
+    }
+    return record;
+  });
+}
+
+export function serializeSnapshots(snapshots: RuntimeSnapshot[], format: SnapshotExportFormat): string {
+  if (format === 'ndjson') {
+    return snapshots.map((snapshot) => `${JSON.stringify(snapshot)}\n`).join('');
+  }
+  return `${JSON.stringify(snapshots, null, 2)}\n`;
+}
+
+function isSnapshot(record: unknown): record is RuntimeSnapshot {
+  const candidate = record as RuntimeSnapshot;
+  return (
+    !!candidate &&
+    typeof candidate === 'object' &&
+    typeof candidate.method === 'string' &&
+    typeof candidate.path === 'string' &&
+    typeof candidate.timestamp === 'string'
+  );
+}
@@ -0,0 +1,502 @@
+/**
+ * Contract Test Generator
+ * Emits a supertest-based vitest or jest suite for every operation in a spec:
+ * a happy-path request built from examples, response schema assertions, negative tests
+ * for missing required parameters and body fields, and auth-required tests.
+ */
+
+import * as path from 'path';
+import type { OpenAPISpec, OpenAPIPath, OpenAPIParameter } from '../types';
+import { generateExampleForSchema, setSeed } from './examples';
+
+// ============================================================
+// Types
+// ============================================================
+
+export type TestFramework = 'vitest' | 'jest';
+
+export interface GenerateTestsOptions {
+  /** Import specifier of the app entry point, relative to the generated file */
+  appImport: string;
+  /** Test framework of the generated suite (default: 'vitest') */
+  framework?: TestFramework;
+  /** Emit TypeScript; JavaScript otherwise (default: true) */
+  typescript?: boolean;
+  /** Base path the API is mounted under (default: path of the first server URL) */
+  basePath?: string;
+  /** Seed for generated request values, so regenerating gives the same suite (default: 1) */
+  seed?: number;
+  /** Spec file name shown in the header comment */
+  specName?: string;
+}
+
+export interface GeneratedTestSuite {
+  code: string;
+  operations: number;
+  tests: number;
+}
+
+interface RequestPlan {
+  path: string;
+  query: Record<string, unknown>;
+  headers: Record<string, unknown>;
+  body?: unknown;
+  contentType?: string;
+  auth: string[];
+}
+
+interface TestCase {
+  title: string;
+  request: RequestPlan;
+  expectation: 'documented' | 'client-error' | 'unauthorized';
+}
+
+const HTTP_METHODS = ['get', 'post', 'put', 'patch', 'delete', 'head', 'options'];
+
+// ============================================================
+// Generator
+// ============================================================
+
+/**
+ * Generate a contract test suite for every operation in a spec
+ */
+export function generateContractTests(spec: OpenAPISpec, options: GenerateTestsOptions): GeneratedTestSuite {
+  const framework = options.framework ?? 'vitest';
+  const typed = options.typescript !== false;
+  const basePath = options.basePath ?? basePathFromServers(spec);
+  const credentials = collectCredentials(spec);
+  const t = (annotation: string) => (typed ? annotation : '');
+
+  setSeed(options.seed ?? 1);
+
+  const blocks: string[] = [];
+  let operations = 0;
+  let tests = 0;
+
+  for (const [template, pathItem] of Object.entries(spec.paths || {})) {
+    for (const method of HTTP_METHODS) {
+      const operation = (pathItem as Record<string, any>)[method] as OpenAPIPath | undefined;
+      if (!operation) continue;
+
+      const cases = buildTestCases(spec, template, pathItem as Record<string, any>, operation, credentials);
+      const responses = responseSchemas(spec, operation);
+      operations++;
+      tests += cases.length;
+
+      const title = operation.operationId ? `${method.toUpperCase()} ${template} (${operation.operationId})` : `${method.toUpperCase()} ${template}`;
+      const lines = [`describe(${quote(title)}, () => {`];
+      if (cases.some((c) => c.expectation === 'documented')) {
+        lines.push(`  const responses${t(': Record<string, any>')} = ${literal(responses, '  ')};`, '');
+      }
+      lines.push(cases.map((c) => emitTestCase(method, c)).join('\n\n'));
+      lines.push('});');
+      blocks.push(lines.join('\n'));
+    }
+  }
+
+  const code = [
+    emitHeader(spec, options, framework),
+    emitSetup(spec, options.appImport, basePath, credentials, t),
+    ...blocks,
+  ].join('\n\n') + '\n';
+
+  return { code, operations, tests };
+}
+
+/**
+ * Import specifier for the app entry point as seen from the generated test file
+ */
+export function toAppImport(appPath: string, outputPath: string): string {
+  const relative = path.relative(path.dirname(path.resolve(outputPath)), path.resolve(appPath)).split(path.sep).join('/');
+  const specifier = relative.startsWith('.') ? relative : `./${relative}`;
+  return specifier.replace(/\.(ts|tsx|mts|cts)$/, '');
+}
+
+// ============================================================
+// Test cases
+// ============================================================
+
+function buildTestCases(
+  spec: OpenAPISpec,
+  template: string,
+  pathItem: Record<string, any>,
+  operation: OpenAPIPath,
+  credentials: Record<string, string>
+): TestCase[] {
+  const parameters = mergeParameters(spec, pathItem.parameters || [], operation.parameters || []);
+  const security = operation.security ?? spec.security ?? [];
+  const usable = security.find((requirement) => Object.keys(requirement).every((scheme) => scheme in credentials));
+  const auth = usable ? Object.keys(usable) : [];
+  const authRequired = security.length > 0 && !security.some((requirement) => Object.keys(requirement).length === 0);
+
+  const request: RequestPlan = { path: template, query: {}, headers: {}, auth };
+  for (const parameter of parameters) {
+    if (parameter.in === 'cookie') continue;
+    const value = parameterExample(spec, parameter);
+    if (parameter.in === 'path') {
+      request.path = request.path.replace(`{${parameter.name}}`, encodeURIComponent(String(value)));
+    } else if (parameter.required || parameter.example !== undefined) {
+      const target = parameter.in === 'query' ? request.query : request.headers;
+      target[parameter.name] = value;
+    }
+  }
+
+  const requestBody = resolveRef(spec, operation.requestBody);
+  const bodyType = Object.keys(requestBody.content || {})[0];
+  let bodySchema: any;
+  if (bodyType) {
+    const media = requestBody.content[bodyType];
+    bodySchema = resolveRef(spec, media.schema);
+    request.contentType = bodyType;
+    request.body = mediaExample(spec, media, 'body');
+  }
+
+  const cases: TestCase[] = [{ title: 'responds with a documented status and body', request, expectation: 'documented' }];
+
+  for (const parameter of parameters) {
+    if (!parameter.required || (parameter.in !== 'query' && parameter.in !== 'header')) continue;
+    const without = cloneRequest(request);
+    delete (parameter.in === 'query' ? without.query : without.headers)[parameter.name];
+    cases.push({ title: `rejects a missing ${parameter.in} parameter ${parameter.name}`, request: without, expectation: 'client-error' });
+  }
+
+  if (requestBody.required && request.body !== undefined) {
+    const without = cloneRequest(request);
+    delete without.body;
+    cases.push({ title: 'rejects a missing request body', request: without, expectation: 'client-error' });
+  }
+
+  if (isPlainObject(request.body) && bodySchema) {
+    for (const field of requiredFields(spec, bodySchema)) {
+      if (!(field in (request.body as Record<string, unknown>))) continue;
+      const without = cloneRequest(request);
+      delete (without.body as Record<string, unknown>)[field];
+      cases.push({ title: `rejects a request body without ${field}`, request: without, expectation: 'client-error' });
+    }
+  }
+
+  if (authRequired) {
+    cases.push({ title: 'requires authentication', request: { ...cloneRequest(request), auth: [] }, expectation: 'unauthorized' });
+  }
+
+  return cases;
+}
+
+/**
+ * Required properties of an object schema, including those of its allOf members
+ */
+function requiredFields(spec: OpenAPISpec, schema: any, seen: Set<any> = new Set()): string[] {
+  const resolved = resolveRef(spec, schema);
+  if (seen.has(resolved)) return [];
+  seen.add(resolved);
+
+  const fields = new Set<string>(Array.isArray(resolved.required) ? resolved.required : []);
+  for (const member of Array.isArray(resolved.allOf) ? resolved.allOf : []) {
+    requiredFields(spec, member, seen).forEach((field) => fields.add(field));
+  }
+  return [...fields];
+}
+
+function parameterExample(spec: OpenAPISpec, parameter: OpenAPIParameter): unknown {
+  if (parameter.example !== undefined) return parameter.example;
+  const [first] = Object.values<any>((parameter as any).examples || {});
+  if (first) return resolveRef(spec, first).value;
+  const value = generateExampleForSchema(parameter.schema as any, parameter.name, spec as any);
+  return value ?? 'example';
+}
+
+function mediaExample(spec: OpenAPISpec, media: any, fieldName: string): unknown {
+  if (media.example !== undefined) return media.example;
+  const [first] = Object.values<any>(media.examples || {});
+  if (first) return resolveRef(spec, first).value;
+  return media.schema ? generateExampleForSchema(media.schema, fieldName, spec as any) : undefined;
+}
+
+/**
+ * JSON response schemas by status key; null for documented responses without a JSON body
+ */
+function responseSchemas(spec: OpenAPISpec, operation: OpenAPIPath): Record<string, unknown> {
+  const schemas: Record<string, unknown> = {};
+  for (const [status, value] of Object.entries<any>(operation.responses || {})) {
+    const response = resolveRef(spec, value);
+    const jsonType = Object.keys(response.content || {}).find((type) => /^application\/(.+\+)?json/i.test(type));
+    schemas[/^\dxx$/i.test(status) ? status.toUpperCase() : status] = jsonType ? response.content[jsonType].schema ?? null : null;
+  }
+  return schemas;
+}
+
+function mergeParameters(spec: OpenAPISpec, pathLevel: unknown[], operationLevel: unknown[]): OpenAPIParameter[] {
+  const merged = new Map<string, OpenAPIParameter>();
+  for (const raw of [...pathLevel, ...operationLevel]) {
+    const parameter = resolveRef(spec, raw) as OpenAPIParameter;
+    if (parameter.name && parameter.in) merged.set(`${parameter.in}:${parameter.name}`, parameter);
+  }
+  return [...merged.values()];
+}
+
+/**
+ * Environment-backed credential expressions for each usable security scheme
+ */
+function collectCredentials(spec: OpenAPISpec): Record<string, string> {
+  const credentials: Record<string, string> = {};
+  for (const [name, value] of Object.entries<any>(spec.components?.securitySchemes || {})) {
+    const scheme = resolveRef(spec, value);
+    const env = `process.env.${envName(name)}`;
+
+    if (scheme.type === 'http' && scheme.scheme?.toLowerCase() === 'basic') {
+      credentials[name] = `{ in: 'header', name: 'Authorization', value: \`Basic \${Buffer.from(${env} ?? 'user:password').toString('base64')}\` }`;
+    } else if (scheme.type === 'http' || scheme.type === 'oauth2' || scheme.type === 'openIdConnect') {
+      credentials[name] = `{ in: 'header', name: 'Authorization', value: \`Bearer \${${env} ?? 'test-token'}\` }`;
+    } else if (scheme.type === 'apiKey') {
+      credentials[name] = `{ in: ${quote(scheme.in)}, name: ${quote(scheme.name)}, value: ${env} ?? 'test-api-key' }`;
+    }
+  }
+  return credentials;
+}
+
+function envName(schemeName: string): string {
+  return `API_${schemeName.replace(/([a-z0-9])([A-Z])/g, '$1_$2').replace(/[^A-Za-z0-9]+/g, '_').toUpperCase()}`;
+}
+
+// ============================================================
+// Emitters
+// ============================================================
+
+function emitHeader(spec: OpenAPISpec, options: GenerateTestsOptions, framework: TestFramework): string {
+  const source = options.specName ? ` from ${options.specName}` : '';
+  const lines = [
+    '/**',
+    ` * Contract tests for ${spec.info?.title || 'API'} ${spec.info?.version || ''}`.trimEnd(),
+    ` * Generated by express-swagger-auto generate-tests${source}. Regenerate instead of editing.`,
+    ' */',
+  ];
+  if (framework === 'vitest') {
+    lines.push("import { describe, it, expect, beforeAll } from 'vitest';");
+  }
+  lines.push("import request from 'supertest';");
+  return lines.join('\n');
+}
+
+function emitSetup(
+  spec: OpenAPISpec,
+  appImport: string,
+  basePath: string,
+  credentials: Record<string, string>,
+  t: (annotation: string) => string
+): string {
+  const credentialLines = Object.entries(credentials).map(([name, expression]) => `  ${propertyKey(name)}: ${expression},`);
+
+  return `const BASE_PATH = ${quote(basePath)};
+
+/** components.schemas, for resolving $refs in response assertions */
+const schemas${t(': Record<string, any>')} = ${literal(spec.components?.schemas || {}, '')};
+
+/** Credentials per security scheme, overridable through the environment */
+const credentials${t(": Record<string, { in: string; name: string; value: string }>")} = {
+${credentialLines.join('\n')}
+};
+
+let app${t(': any')};
+
+// Load the app the same way \`generate\` does: default export or module, calling app factories
+beforeAll(async () => {
+  const loaded${t(': any')} = await import(${quote(appImport)});
+  let candidate = loaded.default || loaded;
+  if (typeof candidate === 'function' && typeof candidate.use !== 'function') {
+    candidate = await candidate();
+  }
+  if (!candidate || typeof candidate.use !== 'function') {
+    throw new Error(${quote(`${appImport} does not export an Express app or app factory`)});
+  }
+  app = candidate;
+});
+
+function send(method${t(': string')}, path${t(': string')}, options${t(': { query?: Record<string, any>; headers?: Record<string, any>; body?: any; contentType?: string; auth?: string[] }')} = {}) {
+  const query = { ...options.query };
+  const headers${t(': Record<string, string>')} = {};
+  for (const [name, value] of Object.entries(options.headers || {})) headers[name] = String(value);
+  for (const scheme of options.auth || []) {
+    const credential = credentials[scheme];
+    if (credential.in === 'query') query[credential.name] = credential.value;
+    else if (credential.in === 'cookie') headers.Cookie = \`\${credential.name}=\${credential.value}\`;
+    else headers[credential.name] = credential.value;
+  }
+
+  let req = (request(app)${t(' as any')})[method](BASE_PATH + path).query(query).set(headers);
+  if (options.body === undefined) return req;
+
+  const contentType = options.contentType || 'application/json';
+  if (contentType === 'application/x-www-form-urlencoded') return req.type('form').send(options.body);
+  if (contentType === 'multipart/form-data') {
+    for (const [name, value] of Object.entries(options.body)) {
+      req = req.field(name, typeof value === 'object' ? JSON.stringify(value) : String(value));
+    }
+    return req;
+  }
+  req = req.set('Content-Type', contentType);
+  return req.send(/json/i.test(contentType) ? JSON.stringify(options.body) : String(options.body));
+}
+
+function expectDocumentedResponse(response${t(': any')}, responses${t(': Record<string, any>')}) {
+  const status = String(response.status);
+  const key = [status, \`\${status[0]}XX\`, 'default'].find((candidate) => candidate in responses);
+  expect(key ? response.status : \`undocumented status \${status}\`).toBe(response.status);
+  if (!key || !responses[key] || !/json/i.test(response.headers['content-type'] || '')) return;
+  expect(schemaErrors(response.body, responses[key])).toEqual([]);
+}
+
+function expectClientError(response${t(': any')}) {
+  expect(response.status).toBeGreaterThanOrEqual(400);
+  expect(response.status).toBeLessThan(500);
+}
+
+/** Check a value against the OpenAPI schema subset used in responses, one message per mismatch */
+function schemaErrors(value${t(': any')}, schema${t(': any')}, at = '$')${t(': string[]')} {
+  if (!schema) return [];
+  if (schema.$ref) return schemaErrors(value, schemas[schema.$ref.split('/').pop()], at);
+  if (schema.allOf) return schema.allOf.flatMap((part${t(': any')}) => schemaErrors(value, part, at));
+
+  const types${t(': string[]')} = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+  if (value === null && (schema.nullable || types.includes('null'))) return [];
+  const variants = schema.oneOf || schema.anyOf;
+  if (variants) {
+    return variants.some((variant${t(': any')}) => schemaErrors(value, variant, at).length === 0)
+      ? []
+      : [\`\${at} matches none of the documented variants\`];
+  }
+  if (types.length > 0 && !types.some((type) => matchesType(value, type))) {
+    return [\`\${at} should be \${types.join(' or ')}\`];
+  }
+
+  const errors${t(': string[]')} = [];
+  if (schema.enum && !schema.enum.some((option${t(': any')}) => JSON.stringify(option) === JSON.stringify(value))) {
+    errors.push(\`\${at} should be one of \${JSON.stringify(schema.enum)}\`);
+  }
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    for (const name of schema.required || []) {
+      if (value[name] === undefined) errors.push(\`\${at}.\${name} is required\`);
+    }
+    for (const [name, property] of Object.entries(schema.properties || {})) {
+      if (value[name] !== undefined) errors.push(...schemaErrors(value[name], property, \`\${at}.\${name}\`));
+    }
+  }
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item${t(': any')}, index${t(': number')}) => errors.push(...schemaErrors(item, schema.items, \`\${at}[\${index}]\`)));
+  }
+  return errors;
+}
+
+function matchesType(value${t(': any')}, type${t(': string')}) {
+  switch (type) {
+    case 'integer':
+      return Number.isInteger(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return value !== null && typeof value === 'object' && !Array.isArray(value);
+    case 'null':
+      return value === null;
+    default:
+      return typeof value === type;
+  }
+}`;
+}
+
+function emitTestCase(method: string, testCase: TestCase): string {
+  const { request } = testCase;
+  const options: string[] = [];
+  if (Object.keys(request.query).length > 0) options.push(`query: ${literal(request.query, '    ')}`);
+  if (Object.keys(request.headers).length > 0) options.push(`headers: ${literal(request.headers, '    ')}`);
+  if (request.body !== undefined) {
+    options.push(`body: ${literal(request.body, '    ')}`);
+    if (request.contentType && request.contentType !== 'application/json') options.push(`contentType: ${quote(request.contentType)}`);
+  }
+  if (request.auth.length > 0) options.push(`auth: ${inlineLiteral(request.auth)}`);
+
+  const args = [quote(method), quote(request.path)];
+  if (options.length > 0) args.push(`{ ${options.join(', ')} }`);
+
+  const assertion = {
+    documented: 'expectDocumentedResponse(response, responses);',
+    'client-error': 'expectClientError(response);',
+    unauthorized: 'expect([401, 403]).toContain(response.status);',
+  }[testCase.expectation];
+
+  return [
+    `  it(${quote(testCase.title)}, async () => {`,
+    `    const response = await send(${args.join(', ')});`,
+    `    ${assertion}`,
+    '  });',
+  ].join('\n');
+}
+
+// ============================================================
+// Helpers
+// ============================================================
+
+function quote(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n').replace(/\r/g, '\\r')}'`;
+}
+
+/**
+ * JavaScript literal for a JSON value, on one line when it fits and otherwise
+ * expanded to sit at the given indentation
+ */
+function literal(value: unknown, indent: string): string {
+  const inline = inlineLiteral(value);
+  if (inline.length <= 80) return inline;
+
+  const inner = `${indent}  `;
+  if (Array.isArray(value)) {
+    return `[\n${value.map((item) => `${inner}${literal(item, inner)}`).join(',\n')},\n${indent}]`;
+  }
+  if (isPlainObject(value)) {
+    const entries = Object.entries(value).filter(([, item]) => item !== undefined);
+    return `{\n${entries.map(([key, item]) => `${inner}${propertyKey(key)}: ${literal(item, inner)}`).join(',\n')},\n${indent}}`;
+  }
+  return inline;
+}
+
+function inlineLiteral(value: unknown): string {
+  if (value === undefined || value === null) return 'null';
+  if (typeof value === 'string') return quote(value);
+  if (Array.isArray(value)) return `[${value.map(inlineLiteral).join(', ')}]`;
+  if (isPlainObject(value)) {
+    const entries = Object.entries(value).filter(([, item]) => item !== undefined);
+    if (entries.length === 0) return '{}';
+    return `{ ${entries.map(([key, item]) => `${propertyKey(key)}: ${inlineLiteral(item)}`).join(', ')} }`;
+  }
+  return JSON.stringify(value);
+}
+
+function propertyKey(key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : quote(key);
+}
+
+function cloneRequest(request: RequestPlan): RequestPlan {
+  return JSON.parse(JSON.stringify(request));
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function basePathFromServers(spec: OpenAPISpec): string {
+  const url = spec.servers?.[0]?.url;
+  if (!url) return '';
+  try {
+    return new URL(url, 'http://localhost').pathname.replace(/\/+$/, '');
+  } catch {
+    return '';
+  }
+}
+
+function resolveRef(spec: OpenAPISpec, node: any, depth: number = 0): any {
+  if (!node || typeof node.$ref !== 'string' || !node.$ref.startsWith('#/') || depth > 10) return node || {};
+  const target = node.$ref
+    .slice(2)
+    .split('/')
+    .map((segment: string) => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+    .reduce((value: any, segment: string) => value?.[segment], spec);
+  return resolveRef(spec, target, depth + 1);
+}
@@ -153,6 +153,41 @@ describe('ConfigLoader', () => {
       expect(result.errors[0]).toContain('Invalid strategy: invalid-strategy');
     });
 
+    it('should reject invalid runtime precedence', () => {
+      const config: SwaggerAutoConfig = {
+        runtime: { prefer: 'snapshots' as any },
+      };
+
+      const result = configLoader.validate(config);
+
+      expect(result.valid).toBe(false);
+      expect(result.errors[0]).toContain('Invalid runtime.prefer: snapshots');
+    });
+
+    it('should reject merge services without spec or with a relative prefix', () => {
+      const config: SwaggerAutoConfig = {
+        merge: { services: [{ spec: './users.json', prefix: 'users' }, {} as any] },
+      };
+
+      const result = configLoader.validate(config);
+
+      expect(result.errors).toEqual([
+        "Invalid merge.services[0].prefix: users. Must start with '/'",
+        'Invalid merge.services[1]: missing spec path',
+      ]);
+    });
+
+    it('should reject an invalid versioning prefix pattern', () => {
+      const config: SwaggerAutoConfig = {
+        versioning: { enabled: true, prefixPattern: '^v(\\d+$' },
+      };
+
+      const result = configLoader.validate(config);
+
+      expect(result.valid).toBe(false);
+      expect(result.errors[0]).toContain('Invalid versioning.prefixPattern: ^v(\\d+$');
+    });
+
     it('should reject invalid CI output format', () => {
       const config: SwaggerAutoConfig = {
         ci: { outputFormat: 'html' as any },
@@ -9,6 +9,9 @@
  */
 
 import { cosmiconfig, CosmiconfigResult } from 'cosmiconfig';
+import type { LintRuleSetting } from '../cli/lint';
+import type { MergeServer, MergeServiceConfig } from '../cli/merge';
+import type { ExampleMergerOptions } from '../core/ExampleMerger';
 
 export interface SwaggerAutoConfig {
   /** Entry point file for Express app */
@@ -17,6 +20,12 @@ export interface SwaggerAutoConfig {
   output?: string;
   /** Output format: 'json' or 'yaml' */
   format?: 'json' | 'yaml';
+  /** OpenAPI version of the generated spec (default: '3.1.0') */
+  specVersion?: '3.0.0' | '3.1.0';
+  /** Default JSON Schema dialect written to the spec (3.1 only) */
+  jsonSchemaDialect?: string;
+  /** Webhook path items keyed by name (3.1 only) */
+  webhooks?: Record<string, Record<string, any>>;
   /** Generation strategies to use */
   strategies?: Array<'jsdoc' | 'decorator' | 'runtime'>;
   /** API info configuration */
@@ -71,6 +80,70 @@ export interface SwaggerAutoConfig {
     /** Include only routes with these tags */
     tags?: string[];
   };
+  /** Component schema extraction */
+  components?: {
+    /** Hoist request/response schemas into components.schemas and use $ref */
+    extract?: boolean;
+    /** Minimum occurrences before a nested object schema is hoisted (default: 2) */
+    minOccurrences?: number;
+    /** Named schemas (OpenAPI, Zod, Joi or Yup) added to components.schemas */
+    schemas?: Record<string, unknown>;
+  };
+  /** TypeScript compiler-backed inference of handler request/response types */
+  typescript?: {
+    /** Read Request/Response generics and res.json() argument types (requires `typescript`) */
+    enabled?: boolean;
+    /** Handler files to analyze (default: ['src/**\/*.ts']) */
+    include?: string[];
+    /** Patterns to exclude */
+    exclude?: string[];
+    /** tsconfig.json providing compiler options */
+    tsconfig?: string;
+    /** Per-file-hash result cache (default: node_modules/.cache/express-swagger-auto/handler-types.json), false to disable */
+    cacheFile?: string | false;
+  };
+  /** How the `runtime` strategy merges captured snapshots into the spec */
+  runtime?: {
+    /** Directory runtimeCapture wrote snapshots to (default: ./data/runtime-snapshots) */
+    snapshotDir?: string;
+    /** Source that wins where static analysis and snapshots both describe a body (default: 'static') */
+    prefer?: 'static' | 'runtime';
+    /** Snapshots a route and status code need before they are used (default: 1) */
+    minSamples?: number;
+    /** Thresholds for formats, enums, ranges and required properties inferred from samples */
+    inference?: ExampleMergerOptions;
+  };
+  /** Spec lint settings used by `validate` */
+  lint?: {
+    /** Rule settings keyed by rule id: 'error' | 'warning' | 'info' | 'off' or [severity, options] */
+    rules?: Record<string, LintRuleSetting>;
+    /** Local JS modules exporting custom rules, relative to the config file */
+    plugins?: string[];
+  };
+  /** One spec per API version instead of a single spec (`generate --split-versions`) */
+  versioning?: {
+    /** Generate one spec per detected version */
+    enabled?: boolean;
+    /** Pattern of a path segment naming a version (default: '^v\\d+(\\.\\d+)*$') */
+    prefixPattern?: string;
+    /** Request header selecting the version of routes tagged with @version, e.g. 'Accept-Version' */
+    header?: string;
+    /** Version the index and Swagger UI open first (default: the highest) */
+    default?: string;
+    /** info.version and description per version, e.g. { v1: { version: '1.8.0' } } */
+    info?: Record<string, { version?: string; description?: string }>;
+  };
+  /** Services combined by `merge` */
+  merge?: {
+    /** Service specs in merge order; earlier services win path collisions */
+    services?: MergeServiceConfig[];
+    /** Output path of the merged spec */
+    output?: string;
+    /** Info of the merged spec */
+    info?: { title?: string; version?: string; description?: string };
+    /** Top-level servers of the merged spec, e.g. the gateway */
+    servers?: MergeServer[];
+  };
   /** CI mode settings */
   ci?: {
     /** Enable CI mode (no colors, JSON output) */
@@ -224,6 +297,9 @@ export class ConfigLoader {
     if (cliOptions.input) merged.input = cliOptions.input;
     if (cliOptions.output) merged.output = cliOptions.output;
     if (cliOptions.format) merged.format = cliOptions.format;
+    if (cliOptions.specVersion) {
+      merged.specVersion = /^3\.[01]$/.test(cliOptions.specVersion) ? `${cliOptions.specVersion}.0` : cliOptions.specVersion;
+    }
     if (cliOptions.title) {
       merged.info = { ...merged.info, title: cliOptions.title };
     }
@@ -236,6 +312,9 @@ export class ConfigLoader {
     if (cliOptions.strategies) {
       merged.strategies = cliOptions.strategies;
     }
+    if (cliOptions.snapshotDir) {
+      merged.runtime = { ...merged.runtime, snapshotDir: cliOptions.snapshotDir };
+    }
     if (cliOptions.ci !== undefined) {
       merged.ci = { ...merged.ci, enabled: cliOptions.ci };
     }
@@ -251,6 +330,15 @@ export class ConfigLoader {
     if (cliOptions.tags) {
       merged.routes = { ...merged.routes, tags: cliOptions.tags };
     }
+    if (cliOptions.extractComponents !== undefined) {
+      merged.components = { ...merged.components, extract: cliOptions.extractComponents };
+    }
+    if (cliOptions.splitVersions) {
+      merged.versioning = { ...merged.versioning, enabled: true };
+    }
+    if (cliOptions.versionHeader) {
+      merged.versioning = { ...merged.versioning, header: cliOptions.versionHeader };
+    }
 
     return merged;
   }
@@ -266,6 +354,11 @@ export class ConfigLoader {
       errors.push(`Invalid format: ${config.format}. Must be 'json' or 'yaml'`);
     }
 
+    // Validate spec version
+    if (config.specVersion && !['3.0.0', '3.1.0'].includes(config.specVersion)) {
+      errors.push(`Invalid specVersion: ${config.specVersion}. Must be '3.0.0' or '3.1.0'`);
+    }
+
     // Validate strategies
     if (config.strategies) {
       const validStrategies = ['jsdoc', 'decorator', 'runtime'];
@@ -276,6 +369,36 @@ export class ConfigLoader {
       }
     }
 
+    // Validate runtime merge settings
+    if (config.runtime?.prefer && !['static', 'runtime'].includes(config.runtime.prefer)) {
+      errors.push(`Invalid runtime.prefer: ${config.runtime.prefer}. Must be 'static' or 'runtime'`);
+    }
+
+    // Validate versioning settings
+    if (config.versioning?.prefixPattern !== undefined) {
+      try {
+        new RegExp(config.versioning.prefixPattern);
+      } catch {
+        errors.push(`Invalid versioning.prefixPattern: ${config.versioning.prefixPattern}. Must be a regular expression`);
+      }
+    }
+
+    // Validate merge services
+    if (config.merge?.services !== undefined) {
+      if (!Array.isArray(config.merge.services)) {
+        errors.push('Invalid merge.services: must be an array');
+      } else {
+        config.merge.services.forEach((service, index) => {
+          if (typeof service?.spec !== 'string') {
+            errors.push(`Invalid merge.services[${index}]: missing spec path`);
+          }
+          if (service?.prefix !== undefined && !String(service.prefix).startsWith('/')) {
+            errors.push(`Invalid merge.services[${index}].prefix: ${service.prefix}. Must start with '/'`);
+          }
+        });
+      }
+    }
+
     // Validate CI output format
     if (config.ci?.outputFormat && !['text', 'json', 'sarif'].includes(config.ci.outputFormat)) {
       errors.push(`Invalid CI output format: ${config.ci.outputFormat}. Must be 'text', 'json', or 'sarif'`);
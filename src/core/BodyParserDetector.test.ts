@@ -0,0 +1,184 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import express from 'express';
+import { applyBodyParsers, detectBodyParser, instrumentBodyParsers } from './BodyParserDetector';
+import { RouteDiscovery } from './RouteDiscovery';
+import { MiddlewareAnalyzer } from './MiddlewareAnalyzer';
+
+/**
+ * Stand-in for multer: its instance methods return a `multerMiddleware` function
+ */
+class Multer {
+  limits?: { fileSize?: number };
+
+  constructor(options: { limits?: { fileSize?: number } } = {}) {
+    this.limits = options.limits;
+  }
+
+  single(_name: string) {
+    return this.middleware();
+  }
+
+  array(_name: string, _maxCount?: number) {
+    return this.middleware();
+  }
+
+  fields(_fields: Array<{ name: string; maxCount?: number }>) {
+    return this.middleware();
+  }
+
+  any() {
+    return this.middleware();
+  }
+
+  none() {
+    return this.middleware();
+  }
+
+  private middleware() {
+    return function multerMiddleware(_req: any, _res: any, next: () => void) {
+      next();
+    };
+  }
+}
+
+const multer = (options?: { limits?: { fileSize?: number } }) => new Multer(options);
+
+const userBody = { content: { 'application/json': { schema: { type: 'object', properties: { name: { type: 'string' } } } } } };
+
+function documented(handler: (req: any, res: any) => void, requestBody = userBody) {
+  (handler as any).__openapi_metadata = { requestBody, responses: { '200': { description: 'OK' } } };
+  return handler;
+}
+
+describe('BodyParserDetector', () => {
+  beforeAll(() => {
+    instrumentBodyParsers({ express, multer });
+  });
+
+  describe('detectBodyParser', () => {
+    it('reads the options of instrumented parsers', () => {
+      expect(detectBodyParser(express.json({ limit: '1mb' }))).toEqual({ kind: 'json', contentTypes: ['application/json'], limit: '1mb' });
+      expect(detectBodyParser(express.text({ type: ['text/csv', '*/*'] }))).toMatchObject({ kind: 'text', contentTypes: ['text/csv'], limit: '100kb' });
+      expect(detectBodyParser(multer({ limits: { fileSize: 1024 } }).array('photos', 3))).toEqual({
+        kind: 'multipart',
+        contentTypes: ['multipart/form-data'],
+        files: [{ name: 'photos', maxCount: 3 }],
+        maxFileSize: 1024,
+      });
+    });
+
+    it('recognises uninstrumented parsers by name', () => {
+      function urlencodedParser() {}
+      function multerMiddleware() {}
+
+      expect(detectBodyParser(urlencodedParser)).toEqual({ kind: 'urlencoded', contentTypes: ['application/x-www-form-urlencoded'] });
+      expect(detectBodyParser(multerMiddleware)?.kind).toBe('multipart');
+      expect(detectBodyParser(function auth() {})).toBeUndefined();
+    });
+
+    it('does not wrap twice', () => {
+      const json = express.json;
+      instrumentBodyParsers({ express, multer });
+
+      expect(express.json).toBe(json);
+    });
+  });
+
+  describe('applyBodyParsers', () => {
+    const json = { kind: 'json' as const, contentTypes: ['application/json'], limit: '100kb' };
+    const urlencoded = { kind: 'urlencoded' as const, contentTypes: ['application/x-www-form-urlencoded'] };
+
+    it('re-keys an implicit JSON body under every form parser', () => {
+      const body = applyBodyParsers(userBody, [
+        { parser: json, routeLevel: false },
+        { parser: urlencoded, routeLevel: false },
+      ]);
+
+      expect(Object.keys(body?.content ?? {})).toEqual(['application/json', 'application/x-www-form-urlencoded']);
+      expect(body?.content['application/json']['x-body-size-limit']).toBe('100kb');
+      expect(body?.content['application/x-www-form-urlencoded'].schema).toBe(userBody.content['application/json'].schema);
+    });
+
+    it('keeps explicitly documented media types', () => {
+      const xml = { content: { 'application/xml': { schema: { type: 'string' } } } };
+
+      expect(applyBodyParsers(xml, [{ parser: json, routeLevel: true }])).toBe(xml);
+    });
+
+    it('only adds bodies for parsers on the route itself', () => {
+      expect(applyBodyParsers(undefined, [{ parser: json, routeLevel: false }])).toBeUndefined();
+      expect(applyBodyParsers(undefined, [{ parser: { kind: 'raw', contentTypes: ['application/octet-stream'] }, routeLevel: true }])).toEqual({
+        content: { 'application/octet-stream': { schema: { type: 'string', format: 'binary' } } },
+      });
+    });
+  });
+
+  describe('route discovery', () => {
+    const discover = (app: express.Express) => {
+      const routes = new RouteDiscovery().discover(app);
+      return Object.fromEntries(routes.map((route) => [`${route.method} ${route.path}`, route.metadata?.requestBody]));
+    };
+
+    it('documents multipart uploads with binary file fields', () => {
+      const upload = multer({ limits: { fileSize: 5_000_000 } });
+      const app = express();
+      app.post('/avatar', upload.single('avatar'), documented((_req, res) => res.end()));
+      app.post('/gallery', upload.fields([{ name: 'cover', maxCount: 1 }, { name: 'photos', maxCount: 8 }]), (_req, res) => res.end());
+
+      const bodies = discover(app);
+      const file = { type: 'string', format: 'binary', description: 'Maximum file size: 5000000 bytes' };
+
+      expect(bodies['POST /avatar']?.content).toEqual({
+        'multipart/form-data': {
+          schema: { type: 'object', properties: { name: { type: 'string' }, avatar: file } },
+        },
+      });
+      expect(bodies['POST /gallery']?.content['multipart/form-data'].schema.properties).toEqual({
+        cover: file,
+        photos: { type: 'array', items: file, maxItems: 8 },
+      });
+    });
+
+    it('applies parsers registered before a route under its prefix', () => {
+      const app = express();
+      app.post('/early', documented((_req, res) => res.end()));
+      app.use('/api', express.urlencoded({ extended: false, limit: '10kb' }));
+      const api = express.Router();
+      api.post('/users', documented((_req, res) => res.end()));
+      app.use('/api', api);
+      app.post('/other', documented((_req, res) => res.end()));
+
+      const bodies = discover(app);
+
+      expect(bodies['POST /early']).toBe(userBody);
+      expect(bodies['POST /other']).toBe(userBody);
+      expect(bodies['POST /api/users']?.content).toEqual({
+        'application/x-www-form-urlencoded': { ...userBody.content['application/json'], 'x-body-size-limit': '10kb' },
+      });
+    });
+
+    it('adds bodies for route-level text parsers and leaves GET routes alone', () => {
+      const app = express();
+      app.use(express.json());
+      app.get('/users', (_req, res) => res.end());
+      app.post('/import', express.text({ type: 'text/csv' }), (_req, res) => res.end());
+
+      const bodies = discover(app);
+
+      expect(bodies['GET /users']).toBeUndefined();
+      expect(bodies['POST /import']).toEqual({
+        content: { 'text/csv': { schema: { type: 'string' }, 'x-body-size-limit': '100kb' } },
+      });
+    });
+
+    it('classifies parsers in the middleware analysis', () => {
+      const app = express();
+      app.post('/files', multer().any(), (_req, res) => res.end());
+      const layer = (app as any).router.stack.find((entry: any) => entry.route);
+
+      const [middleware] = new MiddlewareAnalyzer().analyzeRouteMiddleware(layer);
+
+      expect(middleware).toMatchObject({ type: 'body-parser', bodyParser: { kind: 'multipart', files: 'any' } });
+    });
+  });
+});
@@ -0,0 +1,291 @@
+/**
+ * Detects body parser middleware (express.json, express.urlencoded, express.text,
+ * express.raw and multer) so request bodies are documented with the media types a
+ * route actually accepts instead of implicitly as JSON
+ */
+
+import { createRequire } from 'module';
+import * as path from 'path';
+import type { OpenAPIMediaType, OpenAPIRequestBody, OpenAPISchema } from '../types';
+
+export type BodyParserKind = 'json' | 'urlencoded' | 'text' | 'raw' | 'multipart';
+
+export interface UploadField {
+  name: string;
+  maxCount?: number;
+}
+
+export interface BodyParserMetadata {
+  kind: BodyParserKind;
+  /** Media types the parser reads */
+  contentTypes: string[];
+  /** Body size limit from the parser options, e.g. '100kb' or 1048576 */
+  limit?: string | number;
+  /** multer file fields, 'any' for upload.any(), undefined when unknown */
+  files?: UploadField[] | 'any';
+  /** multer limits.fileSize in bytes */
+  maxFileSize?: number;
+}
+
+/**
+ * A parser that applies to a route, and whether it was registered on the route
+ * itself rather than with app.use()/router.use()
+ */
+export interface AppliedBodyParser {
+  parser: BodyParserMetadata;
+  routeLevel: boolean;
+}
+
+/** Property instrumented parser middleware carries its metadata on */
+const METADATA_KEY = '__openapi_body_parser';
+const INSTRUMENTED = Symbol.for('express-swagger-auto.bodyParsers');
+
+/** body-parser's default limit */
+const DEFAULT_LIMIT = '100kb';
+
+const DEFAULT_CONTENT_TYPES: Record<BodyParserKind, string> = {
+  json: 'application/json',
+  urlencoded: 'application/x-www-form-urlencoded',
+  text: 'text/plain',
+  raw: 'application/octet-stream',
+  multipart: 'multipart/form-data',
+};
+
+/** Function names of the middleware body-parser and multer return */
+const PARSER_NAMES: Record<string, BodyParserKind> = {
+  jsonParser: 'json',
+  urlencodedParser: 'urlencoded',
+  textParser: 'text',
+  rawParser: 'raw',
+  multerMiddleware: 'multipart',
+};
+
+const MULTER_METHODS = ['single', 'array', 'fields', 'any', 'none'] as const;
+
+/**
+ * Recognise a body parser. Instrumented parsers carry their options; others are
+ * recognised by function name only.
+ */
+export function detectBodyParser(handle: unknown): BodyParserMetadata | undefined {
+  if (typeof handle !== 'function') {
+    return undefined;
+  }
+
+  const tagged = (handle as any)[METADATA_KEY];
+  if (tagged) {
+    return tagged;
+  }
+
+  const kind = PARSER_NAMES[handle.name];
+  return kind ? { kind, contentTypes: [DEFAULT_CONTENT_TYPES[kind]] } : undefined;
+}
+
+/**
+ * Wrap the parser factories of express/body-parser modules and multer so the
+ * middleware they return carries its options. Must run before the app creates
+ * its parsers; wrapping twice is a no-op.
+ */
+export function instrumentBodyParsers(modules: { express?: any; bodyParser?: any; multer?: any }): void {
+  for (const mod of [modules.express, modules.bodyParser]) {
+    if (!mod || mod[INSTRUMENTED]) continue;
+
+    for (const kind of ['json', 'urlencoded', 'text', 'raw'] as const) {
+      const factory = mod[kind];
+      if (typeof factory !== 'function') continue;
+
+      Object.defineProperty(mod, kind, {
+        configurable: true,
+        enumerable: true,
+        writable: true,
+        value: function (this: unknown, options?: any, ...rest: any[]) {
+          const middleware = factory.call(this, options, ...rest);
+          return tag(middleware, {
+            kind,
+            contentTypes: contentTypesFromOption(options?.type, kind),
+            limit: options?.limit ?? DEFAULT_LIMIT,
+          });
+        },
+      });
+    }
+    mod[INSTRUMENTED] = true;
+  }
+
+  const multer = modules.multer;
+  if (typeof multer === 'function') {
+    const prototype = Object.getPrototypeOf(multer());
+    if (!prototype || prototype[INSTRUMENTED]) return;
+
+    for (const method of MULTER_METHODS) {
+      const original = prototype[method];
+      if (typeof original !== 'function') continue;
+
+      prototype[method] = function (this: any, ...args: any[]) {
+        const middleware = original.apply(this, args);
+        return tag(middleware, {
+          kind: 'multipart',
+          contentTypes: [DEFAULT_CONTENT_TYPES.multipart],
+          files: multerFields(method, args),
+          maxFileSize: this.limits?.fileSize,
+        });
+      };
+    }
+    prototype[INSTRUMENTED] = true;
+  }
+}
+
+/**
+ * Instrument the express, body-parser and multer copies an app in `directory`
+ * resolves, skipping those that are not installed
+ */
+export function instrumentInstalledBodyParsers(directory: string): void {
+  const requireFrom = createRequire(path.join(directory, 'noop.js'));
+  const load = (name: string): unknown => {
+    try {
+      return requireFrom(name);
+    } catch {
+      return undefined;
+    }
+  };
+
+  instrumentBodyParsers({ express: load('express'), bodyParser: load('body-parser'), multer: load('multer') });
+}
+
+/**
+ * Document a request body with the media types of the parsers that read it.
+ * A documented body whose only media type is the implicit 'application/json' is
+ * re-keyed under every JSON, urlencoded and multipart parser of the route; other
+ * documented media types are kept and only get size limits. Routes without a
+ * documented body get one from parsers registered on the route itself.
+ */
+export function applyBodyParsers(
+  requestBody: OpenAPIRequestBody | undefined,
+  parsers: AppliedBodyParser[]
+): OpenAPIRequestBody | undefined {
+  if (parsers.length === 0) {
+    return requestBody;
+  }
+
+  const documentedTypes = Object.keys(requestBody?.content ?? {});
+  if (requestBody && !(documentedTypes.length === 1 && documentedTypes[0] === 'application/json')) {
+    return withLimits(requestBody, parsers);
+  }
+
+  const documented = requestBody?.content['application/json'];
+  const content: Record<string, OpenAPIMediaType> = {};
+
+  for (const { parser, routeLevel } of parsers) {
+    if (!requestBody && !routeLevel) continue;
+
+    const schema = bodySchema(parser, documented?.schema, routeLevel);
+    if (!schema) continue;
+
+    for (const contentType of parser.contentTypes) {
+      const mediaType: OpenAPIMediaType = parser.kind === 'multipart' ? { schema } : { ...documented, schema };
+      if (parser.limit !== undefined) {
+        mediaType['x-body-size-limit'] = parser.limit;
+      }
+      content[contentType] = mediaType;
+    }
+  }
+
+  if (Object.keys(content).length === 0) {
+    return requestBody;
+  }
+
+  return { ...requestBody, content };
+}
+
+function bodySchema(parser: BodyParserMetadata, documented: OpenAPISchema | undefined, routeLevel: boolean): OpenAPISchema | undefined {
+  switch (parser.kind) {
+    case 'json':
+    case 'urlencoded':
+      return documented ?? { type: 'object' };
+    case 'multipart':
+      return multipartSchema(parser, documented);
+    case 'text':
+      // app-wide text/raw parsers do not make every body text
+      return routeLevel ? { type: 'string' } : undefined;
+    case 'raw':
+      return routeLevel ? { type: 'string', format: 'binary' } : undefined;
+  }
+}
+
+/**
+ * Form fields from the documented body plus the uploaded files
+ */
+function multipartSchema(parser: BodyParserMetadata, documented: OpenAPISchema | undefined): OpenAPISchema {
+  const file: OpenAPISchema = { type: 'string', format: 'binary' };
+  if (parser.maxFileSize !== undefined) {
+    file.description = `Maximum file size: ${parser.maxFileSize} bytes`;
+  }
+
+  const files: Record<string, OpenAPISchema> = {};
+  if (Array.isArray(parser.files)) {
+    for (const field of parser.files) {
+      files[field.name] = field.maxCount === 1
+        ? file
+        : { type: 'array', items: file, ...(field.maxCount !== undefined ? { maxItems: field.maxCount } : {}) };
+    }
+  }
+  const anyFiles = parser.files === 'any' ? { additionalProperties: file } : {};
+
+  // A referenced body cannot be extended in place
+  if (documented?.$ref) {
+    return { allOf: [documented, { type: 'object', properties: files, ...anyFiles }] };
+  }
+
+  return {
+    ...documented,
+    type: 'object',
+    properties: { ...documented?.properties, ...files },
+    ...anyFiles,
+  };
+}
+
+function withLimits(requestBody: OpenAPIRequestBody, parsers: AppliedBodyParser[]): OpenAPIRequestBody {
+  let content: Record<string, OpenAPIMediaType> | undefined;
+
+  for (const { parser } of parsers) {
+    if (parser.limit === undefined) continue;
+    for (const contentType of parser.contentTypes) {
+      const mediaType = (content ?? requestBody.content)[contentType];
+      if (!mediaType || mediaType['x-body-size-limit'] !== undefined) continue;
+      content = content ?? { ...requestBody.content };
+      content[contentType] = { ...mediaType, 'x-body-size-limit': parser.limit };
+    }
+  }
+
+  return content ? { ...requestBody, content } : requestBody;
+}
+
+function tag(middleware: unknown, metadata: BodyParserMetadata): unknown {
+  if (typeof middleware === 'function') {
+    Object.defineProperty(middleware, METADATA_KEY, { value: metadata, enumerable: false });
+  }
+  return middleware;
+}
+
+/**
+ * Media types from a parser's `type` option; functions and wildcards fall back to the default
+ */
+function contentTypesFromOption(type: unknown, kind: BodyParserKind): string[] {
+  const types = (Array.isArray(type) ? type : [type]).filter(
+    (value): value is string => typeof value === 'string' && /^[\w.+-]+\/[\w.+-]+$/.test(value)
+  );
+  return types.length > 0 ? types : [DEFAULT_CONTENT_TYPES[kind]];
+}
+
+function multerFields(method: (typeof MULTER_METHODS)[number], args: any[]): BodyParserMetadata['files'] {
+  switch (method) {
+    case 'single':
+      return [{ name: String(args[0]), maxCount: 1 }];
+    case 'array':
+      return [{ name: String(args[0]), maxCount: args[1] }];
+    case 'fields':
+      return Array.isArray(args[0]) ? args[0].map((field: UploadField) => ({ name: field.name, maxCount: field.maxCount })) : undefined;
+    case 'any':
+      return 'any';
+    case 'none':
+      return [];
+  }
+}
@@ -0,0 +1,267 @@
+import { describe, it, expect } from 'vitest';
+import { ComponentExtractor } from './ComponentExtractor';
+import type { OpenAPISpec, OpenAPISchema } from '../types';
+
+const address: OpenAPISchema = {
+  type: 'object',
+  properties: {
+    street: { type: 'string' },
+    city: { type: 'string' },
+  },
+};
+
+function createSpec(paths: OpenAPISpec['paths']): OpenAPISpec {
+  return {
+    openapi: '3.1.0',
+    info: { title: 'Test API', version: '1.0.0' },
+    paths,
+    components: { schemas: {} },
+  };
+}
+
+function jsonBody(schema: OpenAPISchema) {
+  return { content: { 'application/json': { schema } } };
+}
+
+describe('ComponentExtractor', () => {
+  it('should hoist request and response bodies into components', () => {
+    const spec = createSpec({
+      '/users': {
+        post: {
+          operationId: 'post_users',
+          requestBody: jsonBody({ type: 'object', properties: { name: { type: 'string' } } }),
+          responses: {
+            '201': {
+              description: 'Created',
+              ...jsonBody({
+                type: 'object',
+                properties: { id: { type: 'string' }, name: { type: 'string' } },
+              }),
+            },
+          },
+        },
+      },
+    });
+
+    const result = new ComponentExtractor().extract(spec);
+    const operation = result.paths['/users'].post;
+
+    expect(operation.requestBody.content['application/json'].schema).toEqual({
+      $ref: '#/components/schemas/PostUsersRequest',
+    });
+    expect(operation.responses['201'].content['application/json'].schema).toEqual({
+      $ref: '#/components/schemas/PostUsersResponse',
+    });
+    expect(result.components?.schemas?.PostUsersRequest.properties).toHaveProperty('name');
+    expect(result.components?.schemas?.PostUsersResponse.properties).toHaveProperty('id');
+  });
+
+  it('should share one component between structurally equal schemas', () => {
+    const user = { type: 'object', properties: { id: { type: 'string' } } };
+    const spec = createSpec({
+      '/users/:id': {
+        get: { operationId: 'get_users_id', responses: { '200': { description: 'OK', ...jsonBody(user) } } },
+        put: {
+          operationId: 'put_users_id',
+          responses: {
+            '200': { description: 'OK', ...jsonBody({ ...user, description: 'Updated user' }) },
+          },
+        },
+      },
+    });
+
+    const result = new ComponentExtractor().extract(spec);
+
+    expect(Object.keys(result.components!.schemas!)).toEqual(['GetUsersIdResponse']);
+    expect(result.paths['/users/:id'].put.responses['200'].content['application/json'].schema).toEqual({
+      $ref: '#/components/schemas/GetUsersIdResponse',
+    });
+  });
+
+  it('should keep equal schemas with different titles as separate components', () => {
+    const user = { type: 'object', properties: { name: { type: 'string' } } };
+    const spec = createSpec({
+      '/users': {
+        post: {
+          operationId: 'post_users',
+          requestBody: jsonBody({ ...user, title: 'CreateUserRequest' }),
+          responses: { '201': { description: 'Created' } },
+        },
+      },
+      '/users/:id': {
+        put: {
+          operationId: 'put_users_id',
+          requestBody: jsonBody({ ...user, title: 'UpdateUserRequest' }),
+          responses: { '200': { description: 'OK' } },
+        },
+        patch: {
+          operationId: 'patch_users_id',
+          requestBody: jsonBody({ ...user, title: 'UpdateUserRequest' }),
+          responses: { '200': { description: 'OK' } },
+        },
+      },
+    });
+
+    const result = new ComponentExtractor().extract(spec);
+
+    expect(Object.keys(result.components!.schemas!)).toEqual(['CreateUserRequest', 'UpdateUserRequest']);
+    expect(result.paths['/users/:id'].put.requestBody.content['application/json'].schema).toEqual({
+      $ref: '#/components/schemas/UpdateUserRequest',
+    });
+    expect(result.paths['/users/:id'].patch.requestBody.content['application/json'].schema).toEqual({
+      $ref: '#/components/schemas/UpdateUserRequest',
+    });
+  });
+
+  it('should name components from titles and identifier-like descriptions', () => {
+    const spec = createSpec({
+      '/users': {
+        get: {
+          operationId: 'get_users',
+          responses: {
+            '200': {
+              description: 'OK',
+              ...jsonBody({
+                type: 'array',
+                items: { type: 'object', description: 'User', properties: { id: { type: 'string' } } },
+              }),
+            },
+          },
+        },
+        post: {
+          operationId: 'post_users',
+          requestBody: jsonBody({ type: 'object', title: 'create user', properties: { name: { type: 'string' } } }),
+          responses: { '201': { description: 'Created' } },
+        },
+      },
+    });
+
+    const result = new ComponentExtractor().extract(spec);
+
+    expect(result.paths['/users'].get.responses['200'].content['application/json'].schema).toEqual({
+      type: 'array',
+      items: { $ref: '#/components/schemas/User' },
+    });
+    expect(result.components?.schemas).toHaveProperty('CreateUser');
+  });
+
+  it('should hoist nested objects only when repeated', () => {
+    const spec = createSpec({
+      '/orders': {
+        post: {
+          operationId: 'post_orders',
+          requestBody: jsonBody({
+            type: 'object',
+            properties: { billing: address, shipping: address, meta: { type: 'object', properties: { a: { type: 'string' } } } },
+          }),
+          responses: { '201': { description: 'Created' } },
+        },
+      },
+    });
+
+    const result = new ComponentExtractor().extract(spec);
+    const body = result.components!.schemas!.PostOrdersRequest;
+
+    expect(body.properties!.billing).toEqual({ $ref: '#/components/schemas/Billing' });
+    expect(body.properties!.shipping).toEqual({ $ref: '#/components/schemas/Billing' });
+    expect(body.properties!.meta.type).toBe('object');
+    expect(result.components!.schemas).not.toHaveProperty('Meta');
+  });
+
+  it('should respect minOccurrences', () => {
+    const spec = createSpec({
+      '/orders': {
+        post: {
+          operationId: 'post_orders',
+          requestBody: jsonBody({ type: 'object', properties: { billing: address, shipping: address } }),
+          responses: { '201': { description: 'Created' } },
+        },
+      },
+    });
+
+    const result = new ComponentExtractor({ minOccurrences: 3 }).extract(spec);
+
+    expect(result.components!.schemas!.PostOrdersRequest.properties!.billing.type).toBe('object');
+  });
+
+  it('should reuse caller-provided names and resolve collisions with suffixes', () => {
+    const spec = createSpec({
+      '/addresses': {
+        post: {
+          operationId: 'post_addresses',
+          requestBody: jsonBody(address),
+          responses: {
+            '201': {
+              description: 'Created',
+              ...jsonBody({ type: 'object', title: 'Address', properties: { id: { type: 'string' } } }),
+            },
+          },
+        },
+      },
+    });
+
+    const result = new ComponentExtractor().extract(spec, { Address: address });
+
+    expect(result.paths['/addresses'].post.requestBody.content['application/json'].schema).toEqual({
+      $ref: '#/components/schemas/Address',
+    });
+    expect(result.paths['/addresses'].post.responses['201'].content['application/json'].schema).toEqual({
+      $ref: '#/components/schemas/Address2',
+    });
+  });
+
+  it('should not mutate the input spec', () => {
+    const body = { type: 'object', properties: { name: { type: 'string' } } };
+    const spec = createSpec({
+      '/users': {
+        post: {
+          operationId: 'post_users',
+          requestBody: jsonBody(body),
+          responses: { '201': { description: 'Created' } },
+        },
+      },
+    });
+
+    new ComponentExtractor().extract(spec);
+
+    expect(spec.paths['/users'].post.requestBody.content['application/json'].schema).toBe(body);
+    expect(spec.components?.schemas).toEqual({});
+  });
+
+  it('should leave primitive bodies and existing refs inline', () => {
+    const spec = createSpec({
+      '/health': {
+        get: {
+          operationId: 'get_health',
+          responses: {
+            '200': { description: 'OK', ...jsonBody({ type: 'string' }) },
+            '500': { description: 'Error', ...jsonBody({ $ref: '#/components/schemas/Error' }) },
+          },
+        },
+      },
+    });
+
+    const result = new ComponentExtractor().extract(spec);
+
+    expect(result.components!.schemas).toEqual({});
+    expect(result.paths['/health'].get.responses['200'].content['application/json'].schema).toEqual({
+      type: 'string',
+    });
+  });
+
+  describe('fingerprint', () => {
+    it('should ignore key order and documentation keywords', () => {
+      const a = { type: 'object', properties: { a: { type: 'string' }, b: { type: 'number' } } };
+      const b = { properties: { b: { type: 'number' }, a: { type: 'string', example: 'x' } }, type: 'object', title: 'B' };
+
+      expect(ComponentExtractor.fingerprint(a)).toBe(ComponentExtractor.fingerprint(b));
+    });
+
+    it('should keep property names that match documentation keywords', () => {
+      const a = { type: 'object', properties: { title: { type: 'string' } } };
+      const b = { type: 'object', properties: { name: { type: 'string' } } };
+
+      expect(ComponentExtractor.fingerprint(a)).not.toBe(ComponentExtractor.fingerprint(b));
+    });
+  });
+});
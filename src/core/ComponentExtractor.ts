@@ -0,0 +1,344 @@
+import type {
+  OpenAPISpec,
+  OpenAPIPath,
+  OpenAPISchema,
+  OpenAPIRequestBody,
+  OpenAPIResponse,
+  ComponentExtractionOptions,
+} from '../types';
+
+/**
+ * ComponentExtractor hoists request/response schemas into components.schemas
+ * and replaces the inline copies with $ref pointers.
+ *
+ * Hoisted schemas:
+ * - root request/response body objects (and the items of root arrays)
+ * - schemas carrying a title (Joi/Yup labels) or an identifier-like description (Zod .describe('User'))
+ * - nested objects that occur at least `minOccurrences` times across the spec
+ * - schemas structurally equal to a named schema supplied by the caller
+ *
+ * Structurally equal schemas share a component unless their titles name them differently.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface SchemaCandidate {
+  key: string;
+  schema: OpenAPISchema;
+  hint: string;
+  count: number;
+  root: boolean;
+  name?: string;
+}
+
+const DEFAULT_MIN_OCCURRENCES = 2;
+
+/**
+ * Documentation-only keywords ignored when comparing schemas structurally
+ */
+const IGNORED_KEYS = new Set(['description', 'example', 'examples', 'title']);
+
+// ============================================================================
+// ComponentExtractor
+// ============================================================================
+
+export class ComponentExtractor {
+  private minOccurrences: number;
+  private candidates: Map<string, SchemaCandidate> = new Map();
+
+  constructor(options: ComponentExtractionOptions = {}) {
+    this.minOccurrences = Math.max(1, options.minOccurrences ?? DEFAULT_MIN_OCCURRENCES);
+  }
+
+  /**
+   * Return a copy of the spec with body schemas moved into components.schemas.
+   * Named schemas are always emitted under their exact names.
+   */
+  extract(spec: OpenAPISpec, namedSchemas: Record<string, OpenAPISchema> = {}): OpenAPISpec {
+    this.candidates = new Map();
+    const usedNames = new Set<string>(Object.keys(spec.components?.schemas || {}));
+
+    // Named schemas claim their keys first so matching untitled or same-titled inline schemas reuse them
+    for (const [name, schema] of Object.entries(namedSchemas)) {
+      usedNames.add(name);
+      for (const key of [ComponentExtractor.fingerprint(schema), ComponentExtractor.candidateKey(schema, name)]) {
+        if (!this.candidates.has(key)) {
+          this.candidates.set(key, { key, schema, hint: name, count: 0, root: true, name });
+        }
+      }
+    }
+
+    for (const [, methods] of Object.entries(spec.paths)) {
+      for (const [, operation] of Object.entries(methods)) {
+        this.collectOperation(operation);
+      }
+    }
+
+    this.assignNames(usedNames);
+
+    const schemas: Record<string, OpenAPISchema> = { ...(spec.components?.schemas || {}) };
+    for (const [name, schema] of Object.entries(namedSchemas)) {
+      schemas[name] = this.rewrite(schema, true);
+    }
+    for (const candidate of this.candidates.values()) {
+      if (candidate.name && !schemas[candidate.name]) {
+        schemas[candidate.name] = this.rewrite(candidate.schema, true);
+      }
+    }
+
+    const paths: OpenAPISpec['paths'] = {};
+    for (const [path, methods] of Object.entries(spec.paths)) {
+      paths[path] = {};
+      for (const [method, operation] of Object.entries(methods)) {
+        paths[path][method] = this.rewriteOperation(operation);
+      }
+    }
+
+    return {
+      ...spec,
+      paths,
+      components: {
+        ...spec.components,
+        schemas,
+      },
+    };
+  }
+
+  // ==========================================================================
+  // Collection
+  // ==========================================================================
+
+  private collectOperation(operation: OpenAPIPath): void {
+    const base = ComponentExtractor.toPascalCase(operation.operationId || 'Operation');
+
+    for (const media of Object.values(operation.requestBody?.content || {})) {
+      this.visit(media.schema, `${base}Request`, true);
+    }
+
+    let primaryNamed = false;
+    for (const [code, response] of Object.entries(operation.responses || {})) {
+      const isPrimary = !primaryNamed && /^2\d\d$/.test(code);
+      const hint = isPrimary ? `${base}Response` : `${base}Response${code}`;
+      if (isPrimary && response.content) {
+        primaryNamed = true;
+      }
+
+      for (const media of Object.values(response.content || {})) {
+        this.visit(media.schema, hint, true);
+      }
+    }
+  }
+
+  private visit(schema: OpenAPISchema | undefined, hint: string, root: boolean): void {
+    if (!schema || typeof schema !== 'object' || schema.$ref) {
+      return;
+    }
+
+    if (schema.type === 'array') {
+      this.visit(schema.items, `${hint}Item`, root);
+      return;
+    }
+
+    for (const key of ['allOf', 'oneOf', 'anyOf'] as const) {
+      schema[key]?.forEach((member) => this.visit(member, hint, false));
+    }
+
+    if (!ComponentExtractor.isObjectSchema(schema)) {
+      return;
+    }
+
+    const key = ComponentExtractor.candidateKey(schema);
+    const existing = this.candidates.get(key);
+
+    if (existing) {
+      existing.count++;
+      existing.root = existing.root || root;
+      return;
+    }
+
+    this.candidates.set(key, { key, schema, hint, count: 1, root });
+
+    for (const [key, property] of Object.entries(schema.properties || {})) {
+      this.visit(property, ComponentExtractor.toPascalCase(key), false);
+    }
+    if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+      this.visit(schema.additionalProperties, `${hint}Value`, false);
+    }
+  }
+
+  private assignNames(usedNames: Set<string>): void {
+    for (const candidate of this.candidates.values()) {
+      if (candidate.name || !this.shouldHoist(candidate)) {
+        continue;
+      }
+
+      const base = ComponentExtractor.preferredName(candidate.schema) || candidate.hint;
+      let name = base;
+      let suffix = 2;
+      while (usedNames.has(name)) {
+        name = `${base}${suffix++}`;
+      }
+
+      usedNames.add(name);
+      candidate.name = name;
+    }
+  }
+
+  private shouldHoist(candidate: SchemaCandidate): boolean {
+    return (
+      candidate.root ||
+      ComponentExtractor.preferredName(candidate.schema) !== undefined ||
+      candidate.count >= this.minOccurrences
+    );
+  }
+
+  // ==========================================================================
+  // Rewriting
+  // ==========================================================================
+
+  private rewriteOperation(operation: OpenAPIPath): OpenAPIPath {
+    const rewritten: OpenAPIPath = { ...operation };
+
+    if (operation.requestBody) {
+      rewritten.requestBody = {
+        ...operation.requestBody,
+        content: this.rewriteContent(operation.requestBody.content),
+      } as OpenAPIRequestBody;
+    }
+
+    if (operation.responses) {
+      const responses: Record<string, OpenAPIResponse> = {};
+      for (const [code, response] of Object.entries(operation.responses)) {
+        responses[code] = response.content
+          ? { ...response, content: this.rewriteContent(response.content) }
+          : response;
+      }
+      rewritten.responses = responses;
+    }
+
+    return rewritten;
+  }
+
+  private rewriteContent(
+    content: Record<string, { schema: OpenAPISchema }>
+  ): Record<string, { schema: OpenAPISchema }> {
+    const result: Record<string, { schema: OpenAPISchema }> = {};
+    for (const [contentType, media] of Object.entries(content)) {
+      result[contentType] = { ...media, schema: this.rewrite(media.schema, false) };
+    }
+    return result;
+  }
+
+  /**
+   * Clone a schema, replacing hoisted objects with $ref pointers.
+   * `isComponent` keeps the top-level schema inline when emitting its own component body.
+   */
+  private rewrite(schema: OpenAPISchema, isComponent: boolean): OpenAPISchema {
+    if (!schema || typeof schema !== 'object' || schema.$ref) {
+      return schema;
+    }
+
+    if (!isComponent && ComponentExtractor.isObjectSchema(schema)) {
+      const candidate = this.candidates.get(ComponentExtractor.candidateKey(schema));
+      if (candidate?.name) {
+        return { $ref: `#/components/schemas/${candidate.name}` };
+      }
+    }
+
+    const clone: OpenAPISchema = { ...schema };
+
+    if (schema.properties) {
+      clone.properties = {};
+      for (const [key, property] of Object.entries(schema.properties)) {
+        clone.properties[key] = this.rewrite(property, false);
+      }
+    }
+    if (schema.items) {
+      clone.items = this.rewrite(schema.items, false);
+    }
+    if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+      clone.additionalProperties = this.rewrite(schema.additionalProperties, false);
+    }
+    for (const key of ['allOf', 'oneOf', 'anyOf'] as const) {
+      if (schema[key]) {
+        clone[key] = schema[key]!.map((member) => this.rewrite(member, false));
+      }
+    }
+
+    return clone;
+  }
+
+  // ==========================================================================
+  // Helpers
+  // ==========================================================================
+
+  private static isObjectSchema(schema: OpenAPISchema): boolean {
+    return (
+      (schema.type === 'object' || (!schema.type && !!schema.properties)) &&
+      Object.keys(schema.properties || {}).length > 0
+    );
+  }
+
+  private static preferredName(schema: OpenAPISchema): string | undefined {
+    if (schema.title) {
+      const name = ComponentExtractor.toPascalCase(schema.title);
+      if (name) return name;
+    }
+    if (schema.description && /^[A-Z][A-Za-z0-9]*$/.test(schema.description)) {
+      return schema.description;
+    }
+    return undefined;
+  }
+
+  /**
+   * Structural key qualified by the name a title gives the schema, so CreateUser and
+   * UpdateUser bodies of the same shape stay separate components
+   */
+  private static candidateKey(schema: OpenAPISchema, name = ComponentExtractor.preferredName(schema)): string {
+    const fingerprint = ComponentExtractor.fingerprint(schema);
+    return name ? `${name}:${fingerprint}` : fingerprint;
+  }
+
+  /**
+   * Stable structural key, ignoring documentation-only keywords
+   */
+  static fingerprint(schema: unknown): string {
+    if (Array.isArray(schema)) {
+      return `[${schema.map((item) => ComponentExtractor.fingerprint(item)).join(',')}]`;
+    }
+    if (schema && typeof schema === 'object') {
+      const entries = Object.keys(schema as Record<string, unknown>)
+        .filter((key) => !IGNORED_KEYS.has(key) && (schema as any)[key] !== undefined)
+        .sort()
+        .map((key) => {
+          const value = (schema as Record<string, unknown>)[key];
+          // Property maps may legitimately contain keys named like ignored keywords
+          const encoded =
+            key === 'properties' && value && typeof value === 'object'
+              ? ComponentExtractor.fingerprintMap(value as Record<string, unknown>)
+              : ComponentExtractor.fingerprint(value);
+          return `${JSON.stringify(key)}:${encoded}`;
+        });
+      return `{${entries.join(',')}}`;
+    }
+    return JSON.stringify(schema);
+  }
+
+  private static fingerprintMap(map: Record<string, unknown>): string {
+    const entries = Object.keys(map)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${ComponentExtractor.fingerprint(map[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+
+  static toPascalCase(value: string): string {
+    return value
+      .split(/[^a-zA-Z0-9]+/)
+      .filter(Boolean)
+      .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+      .join('')
+      .replace(/^[0-9]+/, '');
+  }
+}
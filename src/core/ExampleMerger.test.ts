@@ -226,6 +226,7 @@ describe('ExampleMerger', () => {
 
   describe('number constraints', () => {
     it('detects min/max for numbers', () => {
+      const merger = new ExampleMerger({ minRangeSamples: 3 });
       const snapshots: RuntimeSnapshot[] = [
         {
           method: 'GET',
@@ -268,7 +269,7 @@ describe('ExampleMerger', () => {
       const result = merger.mergeSnapshots(snapshots);
       const countSchema = result.responseSchema?.properties?.count;
 
-      expect(countSchema?.type).toBe('number');
+      expect(countSchema?.type).toBe('integer'); // Only whole numbers seen
       expect(countSchema?.minimum).toBe(5);
       expect(countSchema?.maximum).toBe(15);
     });
@@ -424,4 +425,125 @@ describe('ExampleMerger', () => {
       expect(addressSchema.required).toEqual(['city']); // zipCode is optional
     });
   });
+
+  describe('value inference', () => {
+    const sampled = (values: Record<string, unknown>[]): RuntimeSnapshot[] =>
+      values.map((value, i) => ({
+        method: 'GET',
+        path: '/samples',
+        responseSchema: {
+          type: 'object',
+          properties: Object.fromEntries(
+            Object.entries(value).map(([key, example]) => [
+              key,
+              example === null ? null : Array.isArray(example)
+                ? { type: 'array', items: { type: typeof example[0], example: example[0] }, example }
+                : { type: typeof example, example },
+            ])
+          ),
+        },
+        timestamp: '2025-01-01T00:00:00Z',
+        hash: `s${i}`,
+      }));
+
+    it('infers string formats every sample matches', () => {
+      const result = merger.mergeSnapshots(
+        sampled([
+          { id: '3f2b8c1e-4a5d-4e6f-9a0b-1c2d3e4f5a6b', email: 'a@example.com', at: '2025-01-01T10:00:00Z', day: '2025-01-01', site: 'https://example.com/a', ip: '10.0.0.1', ip6: '::1', host: 'api.example.com' },
+          { id: '7c9e6679-7425-40de-944b-e07fc1f90ae7', email: 'b@example.org', at: '2025-01-02T10:00:00.123+02:00', day: '2025-01-02', site: 'http://example.org', ip: '192.168.1.1', ip6: 'fe80::1', host: 'example.org' },
+          { id: 'a8098c1a-f86e-11da-bd1a-00112444be1e', email: 'c@example.net', at: '2025-01-03 08:30Z', day: '2025-01-03', site: 'ftp://files.example.net/x', ip: '127.0.0.1', ip6: '2001:db8::1', host: 'www.example.net' },
+        ])
+      );
+      const properties = result.responseSchema?.properties;
+
+      expect(properties?.id.format).toBe('uuid');
+      expect(properties?.email.format).toBe('email');
+      expect(properties?.at.format).toBe('date-time');
+      expect(properties?.day.format).toBe('date');
+      expect(properties?.site.format).toBe('uri');
+      expect(properties?.ip.format).toBe('ipv4');
+      expect(properties?.ip6.format).toBe('ipv6');
+      expect(properties?.host.format).toBe('hostname');
+    });
+
+    it('does not infer a format unless every sample matches', () => {
+      const result = merger.mergeSnapshots(sampled([{ contact: 'a@example.com' }, { contact: 'call me' }]));
+
+      expect(result.responseSchema?.properties?.contact.format).toBeUndefined();
+    });
+
+    it('needs several samples before inferring formats and integers', () => {
+      const single = merger.mergeSnapshots(sampled([{ email: 'a@example.com', count: 3, price: 9.5 }])).responseSchema?.properties;
+      const result = merger.mergeSnapshots(
+        sampled([
+          { email: 'a@example.com', count: 3, price: 9.5 },
+          { email: 'b@example.com', count: 4, price: 2 },
+          { email: 'c@example.com', count: 5, price: 7.25 },
+        ])
+      );
+      const properties = result.responseSchema?.properties;
+
+      expect(single?.email).toEqual({ type: 'string', example: 'a@example.com' });
+      expect(single?.count.type).toBe('number');
+      expect(properties?.email).toEqual({ type: 'string', format: 'email', example: 'a@example.com' });
+      expect(properties?.count.type).toBe('integer');
+      expect(properties?.price.type).toBe('number');
+    });
+
+    it('does not set a range from a small sample set', () => {
+      const result = merger.mergeSnapshots(sampled(Array.from({ length: 10 }, (_, i) => ({ count: i }))));
+
+      expect(result.responseSchema?.properties?.count).toEqual({ type: 'integer', example: 0 });
+    });
+
+    it('keeps number when any sample has a fraction', () => {
+      const result = merger.mergeSnapshots(sampled([{ price: 10 }, { price: 10.5 }]));
+
+      expect(result.responseSchema?.properties?.price.type).toBe('number');
+      expect(result.responseSchema?.properties?.price.minimum).toBeUndefined(); // Too few samples for a range
+    });
+
+    it('does not enumerate values that rarely repeat', () => {
+      const result = merger.mergeSnapshots(sampled([{ name: 'Alice' }, { name: 'Bob' }, { name: 'Carol' }]));
+
+      expect(result.responseSchema?.properties?.name.enum).toBeUndefined();
+      expect(result.responseSchema?.properties?.name.example).toBe('Alice');
+    });
+
+    it('marks fields seen as null nullable and keeps them required', () => {
+      const result = merger.mergeSnapshots(
+        sampled([{ deletedAt: null }, { deletedAt: '2025-01-01T00:00:00Z' }, { deletedAt: '2025-01-02T00:00:00Z' }, { deletedAt: '2025-01-03T00:00:00Z' }])
+      );
+
+      expect(result.responseSchema?.properties?.deletedAt).toMatchObject({ type: 'string', format: 'date-time', nullable: true });
+      expect(result.responseSchema?.required).toEqual(['deletedAt']);
+    });
+
+    it('requires properties by presence ratio', () => {
+      const lenient = new ExampleMerger({ requiredRatio: 0.75 });
+      const result = lenient.mergeSnapshots(sampled([{ a: 1, b: 1 }, { a: 1, b: 1 }, { a: 1, b: 1 }, { a: 1 }, { a: 1 }]));
+
+      expect(result.responseSchema?.required).toEqual(['a']);
+      expect(new ExampleMerger({ requiredRatio: 0.5 }).mergeSnapshots(sampled([{ a: 1, b: 1 }, { a: 1 }])).responseSchema?.required).toEqual(['a', 'b']);
+    });
+
+    it('sets uniqueItems when captured arrays never repeat items', () => {
+      const unique = merger.mergeSnapshots(sampled([{ tags: ['a', 'b'] }, { tags: ['b', 'c', 'd'] }]));
+      const repeated = merger.mergeSnapshots(sampled([{ tags: ['a', 'b'] }, { tags: ['a', 'a'] }]));
+
+      expect(unique.responseSchema?.properties?.tags).toMatchObject({ type: 'array', uniqueItems: true, items: { type: 'string' } });
+      expect(repeated.responseSchema?.properties?.tags.uniqueItems).toBeUndefined();
+      expect(repeated.responseSchema?.properties?.tags.items?.enum).toEqual(['a', 'b']);
+    });
+
+    it('uses the configured thresholds', () => {
+      const strict = new ExampleMerger({ minFormatSamples: 3, minRangeSamples: 2, maxEnumValues: 1 });
+      const result = strict.mergeSnapshots(sampled([{ email: 'a@example.com', n: 1, s: 'x' }, { email: 'b@example.com', n: 2, s: 'y' }]));
+      const properties = result.responseSchema?.properties;
+
+      expect(properties?.email.format).toBeUndefined();
+      expect(properties?.n).toMatchObject({ type: 'number', minimum: 1, maximum: 2 });
+      expect(properties?.s.enum).toBeUndefined();
+    });
+  });
 });
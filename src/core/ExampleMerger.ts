@@ -1,11 +1,67 @@
+import { isIPv4, isIPv6 } from 'net';
 import type { RuntimeSnapshot } from './SnapshotStorage';
 import type { OpenAPISchema } from '../types';
 
+/**
+ * Thresholds for what runtime samples are trusted to say about a field. Higher values
+ * need more traffic before a constraint is written, so a handful of samples does not
+ * turn into an over-tight schema.
+ */
+export interface ExampleMergerOptions {
+  /** Samples a value needs before a string format or integer type is inferred (default: 3) */
+  minFormatSamples?: number;
+  /** Most distinct strings that still become an enum (default: 10) */
+  maxEnumValues?: number;
+  /** Times each distinct string must be seen on average to become an enum, so names and ids are not enumerated (default: 1.5) */
+  minEnumOccurrences?: number;
+  /** Samples a number needs before minimum/maximum are set (default: 30) */
+  minRangeSamples?: number;
+  /** Share of samples a property must appear in to be required (default: 1) */
+  requiredRatio?: number;
+  /** Arrays of two or more items that must be seen before uniqueItems is set (default: 2) */
+  minUniqueSamples?: number;
+}
+
+const DEFAULT_OPTIONS: Required<ExampleMergerOptions> = {
+  minFormatSamples: 3,
+  maxEnumValues: 10,
+  minEnumOccurrences: 1.5,
+  minRangeSamples: 30,
+  requiredRatio: 1,
+  minUniqueSamples: 2,
+};
+
+/**
+ * String formats recognised in sample values, most specific first
+ */
+const STRING_FORMATS: Array<[format: string, test: (value: string) => boolean]> = [
+  ['uuid', (value) => /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value)],
+  [
+    'date-time',
+    (value) => /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})$/i.test(value) && !isNaN(Date.parse(value)),
+  ],
+  ['date', (value) => /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value))],
+  ['email', (value) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value)],
+  ['uri', (value) => /^[a-z][a-z0-9+.-]*:\/\/[^\s]+$/i.test(value)],
+  ['ipv4', (value) => isIPv4(value)],
+  ['ipv6', (value) => isIPv6(value)],
+  [
+    'hostname',
+    (value) => value.length <= 253 && /^(?!-)[a-z0-9-]{1,63}(?<!-)(\.(?!-)[a-z0-9-]{1,63}(?<!-))*\.[a-z]{2,63}$/i.test(value),
+  ],
+];
+
 /**
  * ExampleMerger combines multiple runtime snapshots to build comprehensive OpenAPI schemas
  * Phase 3: Enhanced schema inference with example values and optional field detection
  */
 export class ExampleMerger {
+  private options: Required<ExampleMergerOptions>;
+
+  constructor(options: ExampleMergerOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
   /**
    * Merge multiple snapshots for a route into a single comprehensive schema
    */
@@ -33,19 +89,28 @@ export class ExampleMerger {
   }
 
   /**
-   * Merge multiple schemas into one comprehensive schema with examples
+   * Merge multiple schemas into one comprehensive schema with examples. Null values
+   * (captured as null schemas) make the result nullable.
    */
   private mergeSchemas(schemas: any[]): OpenAPISchema {
-    if (schemas.length === 0) {
-      return {};
+    const present = schemas.filter((s) => s != null);
+    const nullable = present.length < schemas.length;
+
+    if (present.length === 0) {
+      return nullable ? { nullable: true } : {};
     }
 
+    const merged = this.mergePresentSchemas(present);
+    return nullable ? { ...merged, nullable: true } : merged;
+  }
+
+  private mergePresentSchemas(schemas: any[]): OpenAPISchema {
     if (schemas.length === 1) {
       return this.enrichSchemaWithExamples(schemas[0]);
     }
 
-    // Group by type
-    const types = new Set(schemas.map((s) => s.type).filter(Boolean));
+    // Group by type; integers are numbers that happen to be whole
+    const types = new Set(schemas.map((s) => (s.type === 'integer' ? 'number' : s.type)).filter(Boolean));
 
     // If all same type, merge properties/items
     if (types.size === 1) {
@@ -70,20 +135,20 @@ export class ExampleMerger {
   }
 
   /**
-   * Merge object schemas, making fields optional if they don't appear in all snapshots
+   * Merge object schemas, making fields optional if they appear in fewer snapshots
+   * than the required ratio
    */
   private mergeObjectSchemas(schemas: any[]): OpenAPISchema {
     const allProperties = new Map<string, any[]>();
     const totalSchemas = schemas.length;
 
-    // Collect all property schemas across snapshots
+    // Collect all property schemas across snapshots; null values count as present
     for (const schema of schemas) {
       if (schema.properties) {
         for (const [key, propSchema] of Object.entries(schema.properties)) {
-          if (!allProperties.has(key)) {
-            allProperties.set(key, []);
-          }
-          allProperties.get(key)!.push(propSchema);
+          const propSchemas = allProperties.get(key) || [];
+          propSchemas.push(propSchema);
+          allProperties.set(key, propSchemas);
         }
       }
     }
@@ -95,8 +160,7 @@ export class ExampleMerger {
     for (const [key, propSchemas] of allProperties.entries()) {
       mergedProperties[key] = this.mergeSchemas(propSchemas);
 
-      // Mark as required only if present in ALL snapshots
-      if (propSchemas.length === totalSchemas) {
+      if (propSchemas.length / totalSchemas >= this.options.requiredRatio) {
         required.push(key);
       }
     }
@@ -114,68 +178,128 @@ export class ExampleMerger {
   }
 
   /**
-   * Merge array schemas by merging item schemas
+   * Merge array schemas by merging item schemas. Arrays captured with their values
+   * add every item as a sample and show whether items repeat.
    */
   private mergeArraySchemas(schemas: any[]): OpenAPISchema {
-    const itemSchemas = schemas
-      .map((s) => s.items)
-      .filter((items): items is NonNullable<typeof items> => items != null);
+    const itemSchemas: any[] = [];
+    const observed: unknown[][] = [];
+
+    for (const schema of schemas) {
+      if (Array.isArray(schema.example)) {
+        observed.push(schema.example);
+        itemSchemas.push(...schema.example.map(primitiveSchema));
+      } else if (schema.items != null) {
+        itemSchemas.push(schema.items);
+      }
+    }
 
     if (itemSchemas.length === 0) {
       return { type: 'array' };
     }
 
-    return {
+    const result: OpenAPISchema = {
       type: 'array',
       items: this.mergeSchemas(itemSchemas),
     };
+
+    const multiItem = observed.filter((values) => values.length >= 2);
+    if (
+      multiItem.length >= this.options.minUniqueSamples &&
+      multiItem.every((values) => new Set(values.map((value) => JSON.stringify(value))).size === values.length)
+    ) {
+      result.uniqueItems = true;
+    }
+
+    return result;
   }
 
   /**
-   * Merge primitive type schemas and detect enum patterns
+   * Merge primitive type schemas and detect formats, integers, enums and ranges
    */
   private mergePrimitiveSchemas(schemas: any[], type: string): OpenAPISchema {
-    const examples = new Set<any>();
+    // Collect all example values, keeping repeats for enum detection
+    const samples = schemas.map((schema) => schema.example).filter((example) => example !== undefined);
+    const examples = new Set<any>(samples);
 
-    // Collect all example values
-    for (const schema of schemas) {
-      if (schema.example !== undefined) {
-        examples.add(schema.example);
+    const result: OpenAPISchema = { type };
+
+    if (type === 'string') {
+      const format = this.inferFormat(samples);
+      if (format) {
+        result.format = format;
+      }
+
+      // Enums only for free-form strings seen repeatedly
+      const { maxEnumValues, minEnumOccurrences } = this.options;
+      if (!format && examples.size >= 2 && examples.size <= maxEnumValues && samples.length / examples.size >= minEnumOccurrences) {
+        result.enum = Array.from(examples).sort();
       }
     }
 
-    const result: OpenAPISchema = { type };
+    if (type === 'number') {
+      const numbers = samples.filter((sample): sample is number => typeof sample === 'number');
+      if (this.isInteger(numbers) || (numbers.length === 0 && schemas.every((schema) => schema.type === 'integer'))) {
+        result.type = 'integer';
+      }
 
-    // Detect enum pattern for strings (if we have 2-10 distinct values)
-    if (type === 'string' && examples.size >= 2 && examples.size <= 10) {
-      result.enum = Array.from(examples).sort();
-    } else if (examples.size > 0) {
-      // Add first example as representative
-      result.example = Array.from(examples)[0];
+      // Detect number constraints
+      if (numbers.length >= this.options.minRangeSamples) {
+        result.minimum = Math.min(...numbers);
+        result.maximum = Math.max(...numbers);
+      }
     }
 
-    // Detect number constraints
-    if (type === 'number' && examples.size > 0) {
-      const numbers = Array.from(examples) as number[];
-      result.minimum = Math.min(...numbers);
-      result.maximum = Math.max(...numbers);
+    if (!result.enum && examples.size > 0) {
+      // Add first example as representative
+      result.example = samples[0];
     }
 
     return result;
   }
 
+  /**
+   * The format every string sample matches, if there are enough samples
+   */
+  private inferFormat(samples: unknown[]): string | undefined {
+    const strings = samples.filter((sample): sample is string => typeof sample === 'string' && sample.length > 0);
+    if (strings.length === 0 || strings.length < this.options.minFormatSamples) {
+      return undefined;
+    }
+
+    return STRING_FORMATS.find(([, test]) => strings.every(test))?.[0];
+  }
+
+  private isInteger(numbers: number[]): boolean {
+    return numbers.length > 0 && numbers.length >= this.options.minFormatSamples && numbers.every(Number.isInteger);
+  }
+
   /**
    * Add example values to schema based on inferred type
    */
   private enrichSchemaWithExamples(schema: any): OpenAPISchema {
-    if (!schema || typeof schema !== 'object') {
+    if (schema == null) {
+      return { nullable: true };
+    }
+
+    if (typeof schema !== 'object') {
       return schema;
     }
 
     const enriched = { ...schema };
 
+    // Formats and integer types from the sampled value
+    if (enriched.example !== undefined && !enriched.format) {
+      if (enriched.type === 'string') {
+        const format = this.inferFormat([enriched.example]);
+        if (format) enriched.format = format;
+      } else if (enriched.type === 'number' && this.isInteger([enriched.example])) {
+        enriched.type = 'integer';
+      }
+    }
+
     // Add examples for primitives if not already present
-    if (!enriched.example && !enriched.enum) {
+    if (enriched.example === undefined && !enriched.enum) {
       switch (enriched.type) {
         case 'string':
           enriched.example = 'example';
@@ -282,3 +406,10 @@ export class ExampleMerger {
     }
   }
 }
+
+/**
+ * Schema of one captured array item
+ */
+function primitiveSchema(value: unknown): any {
+  return value === null || value === undefined ? null : { type: typeof value, example: value };
+}
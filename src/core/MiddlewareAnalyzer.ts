@@ -3,10 +3,14 @@
  * Particularly useful for detecting authentication guards and custom middleware
  */
 
+import { detectBodyParser, type BodyParserMetadata } from './BodyParserDetector';
+
 export interface MiddlewareMetadata {
   name: string;
-  type: 'auth' | 'validation' | 'error-handler' | 'logging' | 'cors' | 'custom' | 'unknown';
+  type: 'auth' | 'validation' | 'error-handler' | 'logging' | 'cors' | 'body-parser' | 'custom' | 'unknown';
   description: string;
+  /** Media types and limits of a body parser */
+  bodyParser?: BodyParserMetadata;
   security?: {
     type: 'jwt' | 'bearer' | 'api-key' | 'custom';
     scheme: string;
@@ -65,6 +69,17 @@ export class MiddlewareAnalyzer {
     const name = layer.name || 'anonymous';
     const fnString = layer.handle?.toString() || '';
 
+    // Body parsers first: their source mentions 'check', 'type' and similar words
+    const bodyParser = detectBodyParser(layer.handle);
+    if (bodyParser) {
+      return {
+        name,
+        type: 'body-parser',
+        description: `Parses ${bodyParser.contentTypes.join(', ')} request bodies`,
+        bodyParser,
+      };
+    }
+
     // Detect common middleware patterns
     if (this.isAuthGuard(name, fnString)) {
       return this.createAuthMiddleware(name, fnString);
@@ -22,6 +22,31 @@ export interface ParsedPath {
   pattern: string;
 }
 
+/**
+ * One concrete OpenAPI path an Express route path stands for. Optional segments
+ * make a route stand for several.
+ */
+export interface PathTemplate {
+  /** OpenAPI path template, e.g. /users/{id} */
+  path: string;
+  /** Path parameters with schemas taken from the path syntax only */
+  parameters: Array<PathParameter & { wildcard: boolean }>;
+}
+
+/**
+ * Express route path tokens: path-to-regexp 0.1 (Express 4) `:id(\\d+)`, `:id?`, `*`
+ * and path-to-regexp 8 (Express 5) `{/:optional}`, `*splat`, `:"quoted"`
+ */
+type PathToken =
+  | { type: 'text'; value: string }
+  | { type: 'param'; name: string; regex?: string; wildcard: boolean }
+  | { type: 'group'; tokens: PathToken[] };
+
+type ParamToken = Extract<PathToken, { type: 'param' }>;
+
+/** Cap on the paths optional segments expand into */
+const MAX_PATH_VARIANTS = 32;
+
 export class PathParameterExtractor {
   /**
    * Extract parameters from an Express path pattern
@@ -35,32 +60,58 @@ export class PathParameterExtractor {
       return this.extractFromRegex(pattern);
     }
 
-    const normalized = this.normalizePath(path);
+    const variants = renderVariants(path);
     const parameters: PathParameter[] = [];
 
-    // Extract named parameters like :id, :userId, etc.
-    const paramPattern = /:([a-zA-Z_][a-zA-Z0-9_]*)/g;
-    let match;
-
-    while ((match = paramPattern.exec(path)) !== null) {
-      const paramName = match[1];
+    for (const variant of variants) {
+      for (const param of variant.params) {
+        // Avoid duplicates
+        if (parameters.find(p => p.name === param.name)) continue;
 
-      // Avoid duplicates
-      if (!parameters.find(p => p.name === paramName)) {
-        parameters.push(
-          this.createPathParameter(paramName, path)
-        );
+        // Inline regexes and wildcards say more than the parameter name
+        parameters.push(param.regex || param.wildcard ? this.createSyntaxParameter(param) : this.createPathParameter(param.name, path));
       }
     }
 
     return {
-      normalized,
+      normalized: fullVariant(variants).path,
       parameters,
       isRegex: false,
       pattern: path,
     };
   }
 
+  /**
+   * Convert an Express 4 or Express 5 route path into OpenAPI path templates, one
+   * per combination of optional segments, shortest first:
+   * - `/users/:id` -> `/users/{id}`
+   * - `/files/:name?` and `/files{/:name}` -> `/files`, `/files/{name}`
+   * - `/users/:id(\\d+)` -> `/users/{id}` with an integer schema
+   * - `/assets/*path` and `/assets/*` -> `/assets/{path}`, `/assets/{0}`
+   * Paths already written as OpenAPI templates (`/users/{id}`) are kept.
+   */
+  expandPath(path: string): PathTemplate[] {
+    return renderVariants(path).map((variant) => ({
+      path: variant.path,
+      parameters: variant.params.map((param) => ({ ...this.createSyntaxParameter(param), wildcard: param.wildcard })),
+    }));
+  }
+
+  /**
+   * Path parameter typed by its inline regex; wildcards may span segments
+   */
+  private createSyntaxParameter(param: ParamToken): PathParameter {
+    return {
+      name: param.name,
+      in: 'path',
+      required: true,
+      schema: param.regex ? regexSchema(param.regex) : { type: 'string' },
+      description: param.wildcard
+        ? `The remaining ${/^\d+$/.test(param.name) ? 'path' : this.readableName(param.name)}, which may contain '/'`
+        : this.generateParameterDescription(param.name),
+    };
+  }
+
   /**
    * Create a PathParameter for a given parameter name
    */
@@ -136,13 +187,17 @@ export class PathParameterExtractor {
    * Generate human-readable parameter description
    */
   private generateParameterDescription(paramName: string): string {
-    // Convert camelCase to readable description
-    const readableName = paramName
+    return `The ${this.readableName(paramName)} identifier`;
+  }
+
+  /**
+   * Convert camelCase to readable words
+   */
+  private readableName(paramName: string): string {
+    return paramName
       .replace(/([A-Z])/g, ' $1')
       .toLowerCase()
       .trim();
-
-    return `The ${readableName} identifier`;
   }
 
   /**
@@ -195,7 +250,7 @@ export class PathParameterExtractor {
    */
   normalizePath(path: string): string {
     if (typeof path === 'string') {
-      return path.replace(/:([a-zA-Z_][a-zA-Z0-9_]*)/g, '{$1}');
+      return fullVariant(renderVariants(path)).path;
     }
     return '';
   }
@@ -308,3 +363,214 @@ export class PathParameterExtractor {
     return openAPIParam;
   }
 }
+
+/**
+ * Tokenize an Express route path. Both path-to-regexp dialects are accepted since
+ * they do not overlap: braces group optional segments in Express 5, while `?`,
+ * `(regex)` and `+` only mean something in Express 4.
+ */
+function parseExpressPath(path: string): PathToken[] {
+  let index = 0;
+  let unnamed = 0;
+
+  const readName = (): string => {
+    if (path[index] === '"') {
+      const end = path.indexOf('"', index + 1);
+      const name = path.slice(index + 1, end === -1 ? path.length : end);
+      index = end === -1 ? path.length : end + 1;
+      return name;
+    }
+    const match = /^[A-Za-z_$][\w$]*/.exec(path.slice(index));
+    index += match ? match[0].length : 0;
+    return match ? match[0] : '';
+  };
+
+  // Balanced `( ... )` starting at index; returns the inner regex
+  const readRegex = (): string => {
+    let depth = 0;
+    const start = index;
+    for (; index < path.length; index++) {
+      const char = path[index];
+      if (char === '\\') {
+        index++;
+      } else if (char === '(') {
+        depth++;
+      } else if (char === ')' && --depth === 0) {
+        index++;
+        return path.slice(start + 1, index - 1);
+      }
+    }
+    return path.slice(start + 1);
+  };
+
+  const parse = (closing?: string): PathToken[] => {
+    const tokens: PathToken[] = [];
+    const text = (value: string) => {
+      const last = tokens[tokens.length - 1];
+      if (last?.type === 'text') last.value += value;
+      else tokens.push({ type: 'text', value });
+    };
+    // Express 4 `?` and `*` modifiers make the parameter and the slash before it optional
+    const optional = (param: ParamToken) => {
+      const last = tokens[tokens.length - 1];
+      if (last?.type === 'text' && last.value.endsWith('/')) {
+        last.value = last.value.slice(0, -1);
+        if (last.value === '') tokens.pop();
+        tokens.push({ type: 'group', tokens: [{ type: 'text', value: '/' }, param] });
+      } else {
+        tokens.push({ type: 'group', tokens: [param] });
+      }
+    };
+    const modifiers = (param: ParamToken) => {
+      const modifier = path[index];
+      if (modifier === '?' || modifier === '*' || modifier === '+') {
+        index++;
+        if (modifier !== '?') param.wildcard = true;
+        if (modifier !== '+') return optional(param);
+      }
+      tokens.push(param);
+    };
+
+    while (index < path.length) {
+      const char = path[index];
+
+      if (char === '\\') {
+        text(path[index + 1] ?? '');
+        index += 2;
+      } else if (closing && char === closing) {
+        index++;
+        return tokens;
+      } else if (char === '{') {
+        const close = path.indexOf('}', index);
+        const inner = path.slice(index + 1, close);
+        if (close !== -1 && /^[A-Za-z_$][\w$]*$/.test(inner)) {
+          // Already an OpenAPI template parameter
+          tokens.push({ type: 'param', name: inner, wildcard: false });
+          index = close + 1;
+        } else {
+          index++;
+          tokens.push({ type: 'group', tokens: parse('}') });
+        }
+      } else if (char === ':' || char === '*') {
+        index++;
+        const name = readName();
+        if (!name && char === ':') {
+          text(':');
+          continue;
+        }
+        const param: ParamToken = { type: 'param', name: name || String(unnamed++), wildcard: char === '*' };
+        if (char === ':' && path[index] === '(') {
+          param.regex = readRegex();
+        }
+        if (char === ':') modifiers(param);
+        else tokens.push(param);
+      } else if (char === '(') {
+        // Express 4 unnamed capture group, exposed as req.params[0], [1], ...
+        modifiers({ type: 'param', name: String(unnamed++), regex: readRegex(), wildcard: false });
+      } else {
+        text(char);
+        index++;
+      }
+    }
+
+    return tokens;
+  };
+
+  return parse();
+}
+
+/**
+ * Render each combination of optional segments as an OpenAPI path, dropping duplicates
+ */
+function renderVariants(path: string): Array<{ path: string; params: ParamToken[] }> {
+  const variants = new Map<string, ParamToken[]>();
+
+  for (const tokens of expandTokens(parseExpressPath(path))) {
+    let rendered = '';
+    const params: ParamToken[] = [];
+
+    for (const token of tokens) {
+      if (token.type === 'text') {
+        rendered += token.value;
+      } else if (token.type === 'param') {
+        rendered += `{${token.name}}`;
+        if (!params.find((param) => param.name === token.name)) params.push(token);
+      }
+    }
+
+    // An optional segment right after the root leaves nothing behind
+    if (rendered === '' && path !== '') {
+      rendered = '/';
+    }
+    if (!variants.has(rendered)) {
+      variants.set(rendered, params);
+    }
+  }
+
+  const rendered = [...variants].map(([variantPath, params]) => ({ path: variantPath, params }));
+
+  // Express fills optional groups left to right, so of variants with the same shape
+  // (/search/{q} and /search/{page}) only the one using the earliest parameters matches
+  const order = fullVariant(rendered).params.map((param) => param.name);
+  const positions = (variant: { params: ParamToken[] }) => variant.params.map((param) => order.indexOf(param.name));
+  const shapes = new Map<string, { path: string; params: ParamToken[] }>();
+  for (const variant of rendered) {
+    const shape = variant.path.replace(/\{[^}]+\}/g, '{}');
+    const current = shapes.get(shape);
+    if (!current || comparePositions(positions(variant), positions(current)) < 0) {
+      shapes.set(shape, variant);
+    }
+  }
+
+  return rendered.filter((variant) => shapes.get(variant.path.replace(/\{[^}]+\}/g, '{}')) === variant);
+}
+
+function comparePositions(a: number[], b: number[]): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return a.length - b.length;
+}
+
+/**
+ * The variant with every optional segment present
+ */
+function fullVariant<T extends { path: string; params: ParamToken[] }>(variants: T[]): T {
+  return variants.reduce((full, variant) => (variant.params.length > full.params.length ? variant : full));
+}
+
+/**
+ * Every combination of optional groups present or absent, groups flattened away
+ */
+function expandTokens(tokens: PathToken[]): PathToken[][] {
+  let variants: PathToken[][] = [[]];
+
+  for (const token of tokens) {
+    if (token.type === 'group') {
+      const inner = expandTokens(token.tokens);
+      variants = variants.flatMap((variant) => [variant, ...inner.map((tail) => [...variant, ...tail])]);
+    } else {
+      variants = variants.map((variant) => [...variant, token]);
+    }
+    variants = variants.slice(0, MAX_PATH_VARIANTS);
+  }
+
+  return variants;
+}
+
+/**
+ * Schema for an inline parameter regex: digits become integers, word alternatives an
+ * enum, anything else an anchored pattern
+ */
+function regexSchema(regex: string): PathParameter['schema'] {
+  if (/^(\\d|\[0-9\])(\+|\{\d+(,\d*)?\})?$/.test(regex)) {
+    return { type: 'integer' };
+  }
+
+  const alternatives = regex.replace(/^\(\?:(.*)\)$/, '$1').split('|');
+  if (alternatives.length > 1 && alternatives.every((alternative) => /^[\w-]+$/.test(alternative))) {
+    return { type: 'string', enum: alternatives };
+  }
+
+  return { type: 'string', pattern: `^(?:${regex})$` };
+}
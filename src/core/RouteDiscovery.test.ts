@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { RouteDiscovery } from './RouteDiscovery';
+import { RouteDiscovery, instrumentRouter } from './RouteDiscovery';
 import express from 'express';
 
 describe('RouteDiscovery', () => {
@@ -157,4 +157,33 @@ describe('RouteDiscovery', () => {
       expect(methods).toContain('DELETE');
     });
   });
+
+  describe('Route Path Syntax', () => {
+    it('should recover Express 5 mount paths with parameters when instrumented', () => {
+      instrumentRouter(express);
+      const app = express();
+      const repos = express.Router();
+      repos.get('/repos{/:repo}', (_req, res) => res.json([]));
+      app.use('/orgs/:org', repos);
+
+      const routes = new RouteDiscovery().discover(app);
+
+      expect(routes.map((route) => route.path)).toEqual(['/orgs/:org/repos{/:repo}']);
+    });
+
+    it('should restore parameters from Express 4 mount regexps', () => {
+      const router = { stack: [{ route: { path: '/members', methods: { get: true }, stack: [] } }] };
+      const app = {
+        _router: {
+          stack: [
+            { name: 'router', handle: router, regexp: /^\/teams\/(?:(\d+))(?:\/([^\/]+?))?\/?(?=\/|$)/i, keys: [{ name: 'team' }, { name: 'tab' }] },
+          ],
+        },
+      };
+
+      const routes = new RouteDiscovery().discover(app as any);
+
+      expect(routes[0].path).toBe('/teams/:team(\\d+)/:tab?/members');
+    });
+  });
 });
@@ -1,3 +1,5 @@
+import { createRequire } from 'module';
+import * as path from 'path';
 import type { ExpressApp, RouteMetadata, OpenAPIParameter } from '../types';
 import type { JsDocParser } from '../parsers/JsDocParser';
 import type { JsDocMetadata } from '../parsers/JsDocTransformer';
@@ -5,6 +7,61 @@ import { MiddlewareAnalyzer, type MiddlewareMetadata } from './MiddlewareAnalyze
 import { PathParameterExtractor, type PathParameter } from './PathParameterExtractor';
 import { RouteMetadataEnricher, type EnrichedRouteMetadata } from './RouteMetadataEnricher';
 import { SchemaExtractor } from '../schema/SchemaExtractor';
+import { applyBodyParsers, detectBodyParser, type AppliedBodyParser, type BodyParserMetadata } from './BodyParserDetector';
+
+/** Property instrumented Express 5 layers carry their app.use()/router.use() path on */
+const MOUNT_PATH_KEY = '__openapi_mount_path';
+const ROUTER_INSTRUMENTED = Symbol.for('express-swagger-auto.router');
+
+/**
+ * Record the path router.use() was called with on the layers it creates. Express 5
+ * layers only keep a compiled matcher, so mount paths with parameters
+ * (app.use('/orgs/:org', router)) cannot be recovered otherwise. Express 4 layers
+ * keep their regexp and keys and need no instrumentation; wrapping twice is a no-op.
+ */
+export function instrumentRouter(express: any): void {
+  const prototype = express?.Router?.prototype;
+  if (!prototype || typeof prototype.use !== 'function' || prototype[ROUTER_INSTRUMENTED]) {
+    return;
+  }
+
+  const use = prototype.use;
+  prototype.use = function (this: any, ...args: any[]) {
+    const start = Array.isArray(this.stack) ? this.stack.length : 0;
+    const result = use.apply(this, args);
+
+    let mountPath = args[0];
+    while (Array.isArray(mountPath) && mountPath.length > 0) {
+      mountPath = mountPath[0];
+    }
+    if (typeof mountPath === 'string' && Array.isArray(this.stack)) {
+      for (const layer of this.stack.slice(start)) {
+        Object.defineProperty(layer, MOUNT_PATH_KEY, { value: mountPath, enumerable: false });
+      }
+    }
+    return result;
+  };
+  prototype[ROUTER_INSTRUMENTED] = true;
+}
+
+/**
+ * Instrument the router of the express copy an app in `directory` resolves, if installed
+ */
+export function instrumentInstalledRouter(directory: string): void {
+  try {
+    instrumentRouter(createRequire(path.join(directory, 'noop.js'))('express'));
+  } catch {
+    // Not installed; probing the layer matchers remains
+  }
+}
+
+/**
+ * A body parser registered with app.use()/router.use() under a path prefix
+ */
+interface MountedBodyParser {
+  parser: BodyParserMetadata;
+  prefix: string;
+}
 
 export interface RouteDiscoveryOptions {
   /**
@@ -62,7 +119,8 @@ export class RouteDiscovery {
   private routes: RouteMetadata[] = [];
   private enrichedRoutes: EnrichedRouteMetadata[] = [];
   private visitedLayers = new Set<any>();
-  private jsDocMetadataMap: Map<string, JsDocMetadata> = new Map();
+  private jsDocMetadataMap: Map<string, JsDocMetadata[]> = new Map();
+  private jsDocMatches: Map<string, number> = new Map();
 
   // Phase 1 & 2 analyzers
   private middlewareAnalyzer: MiddlewareAnalyzer;
@@ -83,6 +141,7 @@ export class RouteDiscovery {
     this.enrichedRoutes = [];
     this.visitedLayers.clear();
     this.jsDocMetadataMap.clear();
+    this.jsDocMatches.clear();
     this.options = options || {};
 
     // Parse JSDoc comments if enabled
@@ -120,7 +179,9 @@ export class RouteDiscovery {
   }
 
   /**
-   * Parse JSDoc comments and build metadata map
+   * Parse JSDoc comments and build metadata map. A route registered more than once on
+   * the same method and path (versions selected by a header) takes the comments for
+   * it in source order.
    */
   private parseJsDocMetadata(parser: JsDocParser): void {
     const parsedRoutes = parser.parse();
@@ -128,11 +189,26 @@ export class RouteDiscovery {
     for (const { metadata } of parsedRoutes) {
       if (metadata.method && metadata.path) {
         const key = this.makeRouteKey(metadata.method, metadata.path);
-        this.jsDocMetadataMap.set(key, metadata);
+        const comments = this.jsDocMetadataMap.get(key) || [];
+        comments.push(metadata);
+        this.jsDocMetadataMap.set(key, comments);
       }
     }
   }
 
+  /**
+   * JSDoc comment for the next route registered under a key; routes beyond the
+   * number of comments reuse the last one
+   */
+  private nextJsDocMetadata(routeKey: string): JsDocMetadata | undefined {
+    const comments = this.jsDocMetadataMap.get(routeKey);
+    if (!comments) return undefined;
+
+    const match = this.jsDocMatches.get(routeKey) || 0;
+    this.jsDocMatches.set(routeKey, match + 1);
+    return comments[Math.min(match, comments.length - 1)];
+  }
+
   /**
    * Create a unique key for route lookup
    */
@@ -140,7 +216,7 @@ export class RouteDiscovery {
     return `${method.toUpperCase()}:${this.normalizePath(path)}`;
   }
 
-  private extractRoutes(app: ExpressApp, basePath = ''): void {
+  private extractRoutes(app: ExpressApp, basePath = '', mountedParsers: MountedBodyParser[] = []): void {
     // Phase 2: Enhanced route extraction with nested router support
     // TODO(Phase 3): Extract middleware metadata and decorator information
 
@@ -158,6 +234,9 @@ export class RouteDiscovery {
       return;
     }
 
+    // Parsers registered in this stack only apply to routes registered after them
+    const parsers = [...mountedParsers];
+
     for (const layer of stack) {
       // Avoid infinite loops by tracking visited layers
       if (this.visitedLayers.has(layer)) {
@@ -167,7 +246,7 @@ export class RouteDiscovery {
 
       // Handle regular routes
       if (layer.route) {
-        this.extractRoute(layer, basePath);
+        this.extractRoute(layer, basePath, parsers);
         continue;
       }
 
@@ -175,7 +254,7 @@ export class RouteDiscovery {
       if (layer.name === 'router' && layer.handle) {
         const nestedPath = this.extractPathFromLayer(layer);
         const fullBasePath = this.normalizePath(basePath + nestedPath);
-        this.extractRoutes(layer.handle, fullBasePath);
+        this.extractRoutes(layer.handle, fullBasePath, parsers);
         continue;
       }
 
@@ -183,12 +262,19 @@ export class RouteDiscovery {
       if (layer.handle && typeof layer.handle === 'function' && layer.handle.stack) {
         const nestedPath = this.extractPathFromLayer(layer);
         const fullBasePath = this.normalizePath(basePath + nestedPath);
-        this.extractRoutes(layer.handle, fullBasePath);
+        this.extractRoutes(layer.handle, fullBasePath, parsers);
+        continue;
+      }
+
+      // Track body parsers (app.use(express.json()))
+      const parser = detectBodyParser(layer.handle);
+      if (parser) {
+        parsers.push({ parser, prefix: this.normalizePath(basePath + this.extractPathFromLayer(layer)) });
       }
     }
   }
 
-  private extractRoute(layer: any, basePath: string): void {
+  private extractRoute(layer: any, basePath: string, mountedParsers: MountedBodyParser[] = []): void {
     const route = layer.route;
     if (!route) return;
 
@@ -206,10 +292,19 @@ export class RouteDiscovery {
 
       // Get JSDoc metadata if available
       const routeKey = this.makeRouteKey(method, fullPath);
-      const jsDocMetadata = this.jsDocMetadataMap.get(routeKey);
+      const jsDocMetadata = this.nextJsDocMetadata(routeKey);
 
       // Merge metadata from both sources
-      const mergedMetadata = this.mergeMetadata(decoratorMetadata, jsDocMetadata);
+      let mergedMetadata = this.mergeMetadata(decoratorMetadata, jsDocMetadata);
+
+      // Document the body with the media types its parsers read
+      const requestBody = applyBodyParsers(
+        mergedMetadata?.requestBody,
+        this.bodyParsersFor(fullPath, mountedParsers, handlers)
+      );
+      if (requestBody !== mergedMetadata?.requestBody) {
+        mergedMetadata = { ...mergedMetadata, requestBody };
+      }
 
       const baseRoute: RouteMetadata = {
         method: method.toUpperCase(),
@@ -228,6 +323,25 @@ export class RouteDiscovery {
     }
   }
 
+  /**
+   * Body parsers that run for a route: those mounted on a prefix of its path, then
+   * those in its own handler chain
+   */
+  private bodyParsersFor(fullPath: string, mountedParsers: MountedBodyParser[], handlers: any[]): AppliedBodyParser[] {
+    const applied: AppliedBodyParser[] = mountedParsers
+      .filter(({ prefix }) => prefix === '/' || fullPath === prefix || fullPath.startsWith(`${prefix}/`))
+      .map(({ parser }) => ({ parser, routeLevel: false }));
+
+    for (const handler of handlers) {
+      const parser = detectBodyParser(handler.handle);
+      if (parser) {
+        applied.push({ parser, routeLevel: true });
+      }
+    }
+
+    return applied;
+  }
+
   /**
    * Enrich a route with Phase 1 & 2 analyzers
    */
@@ -298,9 +412,14 @@ export class RouteDiscovery {
   }
 
   private extractPathFromLayer(layer: any): string {
+    // Express 5 with instrumentRouter(): the path router.use() was called with
+    if (typeof layer[MOUNT_PATH_KEY] === 'string') {
+      return layer[MOUNT_PATH_KEY] === '/' ? '' : layer[MOUNT_PATH_KEY];
+    }
+
     // Express 4: Use layer.regexp
     if (layer.regexp) {
-      const extracted = this.extractPathFromRegexp(layer.regexp);
+      const extracted = this.extractPathFromRegexp(layer.regexp, layer.keys);
       if (extracted) return extracted;
     }
 
@@ -441,7 +560,7 @@ export class RouteDiscovery {
     return '';
   }
 
-  private extractPathFromRegexp(regexp: RegExp): string {
+  private extractPathFromRegexp(regexp: RegExp, keys: Array<{ name: string | number }> = []): string {
     // Extract path from Express router regex patterns
     // Express generates regexes like:
     // - /^\/path\/?(?=\/|$)/i for routers (lookahead pattern)
@@ -457,13 +576,29 @@ export class RouteDiscovery {
 
     if (match && match[1]) {
       // Unescape the path: \/ -> /
-      const path = match[1].replace(/\\\//g, '/');
+      const path = this.restoreRegexpParams(match[1], keys).replace(/\\\//g, '/');
       return path || '';
     }
 
     return '';
   }
 
+  /**
+   * Turn the capture groups path-to-regexp 0.1 compiles parameters into back into
+   * :name, :name? and :name(regex), in key order
+   */
+  private restoreRegexpParams(source: string, keys: Array<{ name: string | number }>): string {
+    let index = 0;
+
+    return source.replace(/(\\\/)?\(\?:(\\\/)?\((.*?)\)\)(\?)?/g, (group, slash, innerSlash, regex, optional) => {
+      const key = keys[index++];
+      if (!key) return group;
+
+      const custom = regex === '[^\\/]+?' ? '' : `(${regex})`;
+      return `${slash || innerSlash || ''}:${key.name}${custom}${optional || ''}`;
+    });
+  }
+
   private normalizePath(path: string): string {
     return path.replace(/\/+/g, '/').replace(/\/$/, '') || '/';
   }
@@ -510,6 +645,9 @@ export class RouteDiscovery {
       parameters: this.mergeParameters(decoratorMetadata.parameters, jsDocMetadata.parameters),
       requestBody: jsDocMetadata.requestBody || decoratorMetadata.requestBody,
       responses: this.mergeResponses(decoratorMetadata.responses, jsDocMetadata.responses),
+      ...(jsDocMetadata.version || decoratorMetadata.version
+        ? { version: jsDocMetadata.version || decoratorMetadata.version }
+        : {}),
     };
   }
 
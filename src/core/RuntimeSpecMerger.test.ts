@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'vitest';
+import { RuntimeSpecMerger } from './RuntimeSpecMerger';
+import type { RuntimeSnapshot } from './SnapshotStorage';
+import type { RouteMetadata } from '../types';
+
+function route(method: string, path: string, metadata?: RouteMetadata['metadata']): RouteMetadata {
+  return { method, path, handler: () => undefined, metadata };
+}
+
+function snapshot(overrides: Partial<RuntimeSnapshot>): RuntimeSnapshot {
+  return { method: 'GET', path: '/', timestamp: '2025-01-01T00:00:00Z', hash: 'h', ...overrides };
+}
+
+const userSchema = (id: number, name: string) => ({
+  type: 'object',
+  properties: { id: { type: 'number', example: id }, name: { type: 'string', example: name } },
+});
+
+describe('RuntimeSpecMerger', () => {
+  describe('matchPath', () => {
+    const routes = [route('GET', '/users/:id'), route('GET', '/users/me'), route('GET', '/files/*'), route('GET', '/orgs/{org}/repos')];
+    const merger = new RuntimeSpecMerger();
+
+    it('maps concrete paths onto templates', () => {
+      expect(merger.matchPath(routes, 'GET', '/users/42')?.path).toBe('/users/:id');
+      expect(merger.matchPath(routes, 'get', '/orgs/acme/repos')?.path).toBe('/orgs/{org}/repos');
+      expect(merger.matchPath(routes, 'GET', '/files/a/b.txt')?.path).toBe('/files/*');
+    });
+
+    it('matches each path an optional segment expands into', () => {
+      const withOptional = [route('GET', '/docs{/:page}'), route('GET', '/reports/:year(\\d+)?')];
+
+      expect(merger.matchPath(withOptional, 'GET', '/docs')?.path).toBe('/docs{/:page}');
+      expect(merger.matchPath(withOptional, 'GET', '/docs/intro')?.path).toBe('/docs{/:page}');
+      expect(merger.matchPath(withOptional, 'GET', '/reports/2024')?.path).toBe('/reports/:year(\\d+)?');
+    });
+
+    it('prefers literal segments over parameters', () => {
+      expect(merger.matchPath(routes, 'GET', '/users/me')?.path).toBe('/users/me');
+    });
+
+    it('does not match other methods or lengths', () => {
+      expect(merger.matchPath(routes, 'POST', '/users/42')).toBeUndefined();
+      expect(merger.matchPath(routes, 'GET', '/users/42/posts')).toBeUndefined();
+    });
+  });
+
+  describe('annotateRoutes', () => {
+    it('adds runtime schemas, examples and confidence per status code', () => {
+      const snapshots = [
+        snapshot({ path: '/users/1', statusCode: 200, responseSchema: userSchema(1, 'Alice'), timestamp: '2025-01-01T00:00:00Z' }),
+        snapshot({ path: '/users/2', statusCode: 200, responseSchema: userSchema(2, 'Bob'), timestamp: '2025-01-02T00:00:00Z' }),
+        snapshot({ path: '/users/9', statusCode: 404, responseSchema: { type: 'object', properties: { error: { type: 'string', example: 'Not found' } } } }),
+      ];
+
+      const result = new RuntimeSpecMerger().annotateRoutes([route('GET', '/users/:id')], snapshots);
+      const responses = result.routes[0].metadata?.responses;
+
+      expect(result.annotated).toEqual(['GET /users/:id']);
+      expect(responses?.['200']).toMatchObject({
+        description: 'Successful response',
+        'x-inferred-from': 'runtime',
+        'x-sample-count': 2,
+        content: { 'application/json': { schema: { type: 'object' }, example: { id: 2, name: 'Bob' } } },
+      });
+      expect(responses?.['404']).toMatchObject({
+        description: 'Not found',
+        'x-sample-count': 1,
+        content: { 'application/json': { example: { error: 'Not found' } } },
+      });
+    });
+
+    it('adds request bodies and reports unmatched snapshots', () => {
+      const snapshots = [
+        snapshot({ method: 'POST', path: '/users', statusCode: 201, requestSchema: { type: 'object', properties: { name: { type: 'string', example: 'Alice' } } } }),
+        snapshot({ method: 'GET', path: '/unknown' }),
+      ];
+
+      const result = new RuntimeSpecMerger().annotateRoutes([route('POST', '/users')], snapshots);
+      const metadata = result.routes[0].metadata;
+
+      expect(metadata?.requestBody).toMatchObject({
+        required: true,
+        'x-inferred-from': 'runtime',
+        'x-sample-count': 1,
+        content: { 'application/json': { example: { name: 'Alice' } } },
+      });
+      expect(metadata?.responses?.['201']).toEqual({ description: 'Created', 'x-inferred-from': 'runtime', 'x-sample-count': 1 });
+      expect(result.unmatched).toEqual(['GET /unknown']);
+    });
+
+    it('keeps static schemas by default and only adds examples', () => {
+      const staticSchema = { type: 'object', properties: { id: { type: 'integer' } } };
+      const routes = [
+        route('GET', '/users/:id', {
+          requestBody: { content: { 'application/json': { schema: { type: 'object' } } } },
+          responses: { '200': { description: 'A user', content: { 'application/json': { schema: staticSchema } } } },
+        }),
+      ];
+      const snapshots = [snapshot({ path: '/users/1', requestSchema: { type: 'string' }, responseSchema: userSchema(1, 'Alice') })];
+
+      const metadata = new RuntimeSpecMerger().annotateRoutes(routes, snapshots).routes[0].metadata;
+
+      expect(metadata?.requestBody).toEqual({ content: { 'application/json': { schema: { type: 'object' } } } });
+      expect(metadata?.responses?.['200']).toEqual({
+        description: 'A user',
+        content: { 'application/json': { schema: staticSchema, example: { id: 1, name: 'Alice' } } },
+      });
+    });
+
+    it('replaces static schemas when runtime is preferred', () => {
+      const routes = [
+        route('GET', '/users/:id', {
+          responses: { '200': { description: 'A user', content: { 'application/json': { schema: { type: 'string' } } } } },
+        }),
+      ];
+      const snapshots = [snapshot({ path: '/users/1', responseSchema: userSchema(1, 'Alice') })];
+
+      const response = new RuntimeSpecMerger({ prefer: 'runtime' }).annotateRoutes(routes, snapshots).routes[0].metadata?.responses?.['200'];
+
+      expect(response?.description).toBe('A user');
+      expect(response?.content?.['application/json'].schema.type).toBe('object');
+      expect(response?.['x-inferred-from']).toBe('runtime');
+    });
+
+    it('ignores statuses below minSamples and keeps binary bodies without examples', () => {
+      const snapshots = [
+        snapshot({ path: '/logo', contentType: 'image/png', responseSchema: { type: 'string', format: 'binary' } }),
+        snapshot({ path: '/logo', contentType: 'image/png', responseSchema: { type: 'string', format: 'binary' } }),
+        snapshot({ path: '/logo', statusCode: 500 }),
+      ];
+
+      const result = new RuntimeSpecMerger({ minSamples: 2 }).annotateRoutes([route('GET', '/logo')], snapshots);
+      const responses = result.routes[0].metadata?.responses;
+
+      expect(Object.keys(responses || {})).toEqual(['200']);
+      expect(responses?.['200'].content).toEqual({ 'image/png': { schema: { type: 'string', format: 'binary' } } });
+    });
+
+    it('leaves routes without snapshots untouched', () => {
+      const routes = [route('GET', '/health')];
+
+      const result = new RuntimeSpecMerger().annotateRoutes(routes, []);
+
+      expect(result.routes[0]).toBe(routes[0]);
+      expect(result.annotated).toEqual([]);
+    });
+  });
+});
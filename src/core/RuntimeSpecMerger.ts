@@ -0,0 +1,314 @@
+/**
+ * Runtime Spec Merger
+ * Feeds runtime snapshots back into discovered routes: concrete request paths are
+ * mapped onto route templates (/users/42 onto /users/:id), snapshots are merged per
+ * route and status code, and the results become request/response schemas with real
+ * examples for SpecGenerator.
+ */
+
+import type { OpenAPIMediaType, OpenAPIResponse, OpenAPISchema, RouteMetadata } from '../types';
+import type { RuntimeSnapshot } from './SnapshotStorage';
+import { ExampleMerger } from './ExampleMerger';
+import type { ExampleMergerOptions } from './ExampleMerger';
+import { PathParameterExtractor } from './PathParameterExtractor';
+
+/**
+ * Which source wins where static analysis (JSDoc, decorators, validators, TypeScript)
+ * and runtime snapshots both describe a body. 'static' only fills what static sources
+ * left undocumented; 'runtime' replaces static schemas with observed ones.
+ */
+export type RuntimePrecedence = 'static' | 'runtime';
+
+export interface RuntimeMergeOptions {
+  /** Source that wins for bodies described by both (default: 'static') */
+  prefer?: RuntimePrecedence;
+  /** Snapshots a route and status code need before they are used (default: 1) */
+  minSamples?: number;
+  /** Thresholds for formats, enums, ranges and required properties inferred from samples */
+  inference?: ExampleMergerOptions;
+}
+
+export interface RuntimeMergeResult {
+  routes: RouteMetadata[];
+  /** Routes that received runtime schemas, as 'METHOD /template' */
+  annotated: string[];
+  /** Snapshot routes that match no discovered route, as 'METHOD /path' */
+  unmatched: string[];
+}
+
+const STATUS_DESCRIPTIONS: Record<string, string> = {
+  '200': 'Successful response',
+  '201': 'Created',
+  '202': 'Accepted',
+  '204': 'No content',
+  '400': 'Bad request',
+  '401': 'Unauthorized',
+  '403': 'Forbidden',
+  '404': 'Not found',
+  '409': 'Conflict',
+  '422': 'Unprocessable entity',
+  '500': 'Internal server error',
+};
+
+interface RouteTemplate {
+  route: RouteMetadata;
+  segments: Array<{ literal: string } | { param: string } | { rest: true }>;
+  literals: number;
+}
+
+export class RuntimeSpecMerger {
+  private options: Required<Omit<RuntimeMergeOptions, 'inference'>>;
+  private merger: ExampleMerger;
+  private pathExtractor = new PathParameterExtractor();
+
+  constructor(options: RuntimeMergeOptions = {}) {
+    this.options = {
+      prefer: options.prefer ?? 'static',
+      minSamples: options.minSamples ?? 1,
+    };
+    this.merger = new ExampleMerger(options.inference);
+  }
+
+  /**
+   * Add runtime request/response schemas and examples to the routes the snapshots
+   * were captured from
+   */
+  annotateRoutes(routes: RouteMetadata[], snapshots: RuntimeSnapshot[]): RuntimeMergeResult {
+    const templates = routes.flatMap((route) => this.compileTemplates(route));
+    const byRoute = new Map<RouteMetadata, RuntimeSnapshot[]>();
+    const unmatched = new Set<string>();
+
+    for (const snapshot of snapshots) {
+      const route = this.matchRoute(templates, snapshot.method, snapshot.path);
+      if (!route) {
+        unmatched.add(`${snapshot.method.toUpperCase()} ${snapshot.path}`);
+        continue;
+      }
+      const list = byRoute.get(route) || [];
+      list.push(snapshot);
+      byRoute.set(route, list);
+    }
+
+    const annotated: string[] = [];
+    const result = routes.map((route) => {
+      const routeSnapshots = byRoute.get(route);
+      if (!routeSnapshots) return route;
+
+      const annotatedRoute = this.annotateRoute(route, routeSnapshots);
+      if (annotatedRoute !== route) {
+        annotated.push(`${route.method.toUpperCase()} ${route.path}`);
+      }
+      return annotatedRoute;
+    });
+
+    return { routes: result, annotated, unmatched: [...unmatched].sort() };
+  }
+
+  /**
+   * Find the route a concrete request path was served by. Literal segments beat
+   * parameters, so /users/me matches /users/me before /users/:id.
+   */
+  matchPath(routes: RouteMetadata[], method: string, path: string): RouteMetadata | undefined {
+    return this.matchRoute(
+      routes.flatMap((route) => this.compileTemplates(route)),
+      method,
+      path
+    );
+  }
+
+  private matchRoute(templates: RouteTemplate[], method: string, path: string): RouteMetadata | undefined {
+    const segments = splitPath(path);
+    let best: RouteTemplate | undefined;
+
+    for (const template of templates) {
+      if (template.route.method.toUpperCase() !== method.toUpperCase()) continue;
+      if (!matchesSegments(template, segments)) continue;
+      if (!best || template.literals > best.literals) best = template;
+    }
+
+    return best?.route;
+  }
+
+  /**
+   * One template per path the route stands for; optional segments make several
+   */
+  private compileTemplates(route: RouteMetadata): RouteTemplate[] {
+    return this.pathExtractor.expandPath(route.path).map((template) => {
+      const wildcards = new Set(template.parameters.filter((param) => param.wildcard).map((param) => param.name));
+      const segments = splitPath(template.path).map((segment) => {
+        const param = /^\{([^}]+)\}$/.exec(segment);
+        if (param && wildcards.has(param[1])) {
+          return { rest: true as const };
+        }
+        return param ? { param: param[1] } : { literal: segment };
+      });
+
+      return { route, segments, literals: segments.filter((segment) => 'literal' in segment).length };
+    });
+  }
+
+  private annotateRoute(route: RouteMetadata, snapshots: RuntimeSnapshot[]): RouteMetadata {
+    const { prefer, minSamples } = this.options;
+    const metadata = { ...route.metadata };
+    let changed = false;
+
+    // Request body from every snapshot of the route
+    const withRequest = snapshots.filter((snapshot) => snapshot.requestSchema != null);
+    if (withRequest.length >= minSamples && (!metadata.requestBody || prefer === 'runtime')) {
+      const schema = this.merger.mergeSnapshots(withRequest).requestSchema;
+      if (schema) {
+        const mediaType = this.mediaType(schema, latest(withRequest).requestSchema);
+        metadata.requestBody = {
+          ...metadata.requestBody,
+          required: true,
+          content: { 'application/json': mediaType },
+          'x-inferred-from': 'runtime',
+          'x-sample-count': withRequest.length,
+        };
+        changed = true;
+      }
+    }
+
+    // Responses per status code
+    const responses: Record<string, OpenAPIResponse> = { ...metadata.responses };
+    for (const [status, statusSnapshots] of groupByStatus(snapshots)) {
+      if (statusSnapshots.length < minSamples) continue;
+
+      const existing = responses[status];
+      const hasStaticBody = !!existing?.content && Object.keys(existing.content).length > 0;
+      if (hasStaticBody && prefer === 'static') {
+        // Static schemas win, but real examples still help
+        responses[status] = this.addExamples(existing, statusSnapshots);
+        changed = changed || responses[status] !== existing;
+        continue;
+      }
+
+      const content = this.responseContent(statusSnapshots);
+      responses[status] = {
+        ...existing,
+        description: existing?.description || STATUS_DESCRIPTIONS[status] || `Response ${status}`,
+        ...(content ? { content } : {}),
+        'x-inferred-from': 'runtime',
+        'x-sample-count': statusSnapshots.length,
+      };
+      changed = true;
+    }
+
+    if (!changed) return route;
+
+    // A route without documented responses gets SpecGenerator's generic 200 unless runtime saw one
+    if (Object.keys(responses).length > 0) {
+      metadata.responses = responses;
+    }
+    return { ...route, metadata };
+  }
+
+  private responseContent(snapshots: RuntimeSnapshot[]): Record<string, OpenAPIMediaType> | undefined {
+    const content: Record<string, OpenAPIMediaType> = {};
+
+    for (const [contentType, typed] of groupBy(snapshots, (snapshot) => snapshot.contentType || 'application/json')) {
+      const withBody = typed.filter((snapshot) => snapshot.responseSchema != null);
+      if (withBody.length === 0) continue;
+
+      // Binary bodies have no shape to merge
+      if (withBody.every((snapshot) => snapshot.responseSchema.format === 'binary')) {
+        content[contentType] = { schema: { type: 'string', format: 'binary' } };
+        continue;
+      }
+
+      const schema = this.merger.mergeSnapshots(withBody).responseSchema;
+      if (schema) {
+        content[contentType] = this.mediaType(schema, latest(withBody).responseSchema);
+      }
+    }
+
+    return Object.keys(content).length > 0 ? content : undefined;
+  }
+
+  private addExamples(response: OpenAPIResponse, snapshots: RuntimeSnapshot[]): OpenAPIResponse {
+    let content: Record<string, OpenAPIMediaType> | undefined;
+
+    for (const [contentType, mediaType] of Object.entries(response.content || {})) {
+      if (mediaType.example !== undefined || mediaType.examples) continue;
+
+      const observed = snapshots.filter(
+        (snapshot) => snapshot.responseSchema != null && (snapshot.contentType || 'application/json') === contentType
+      );
+      const example = observed.length > 0 ? exampleFromSchema(latest(observed).responseSchema) : undefined;
+      if (example === undefined) continue;
+
+      content = content || { ...response.content };
+      content[contentType] = { ...mediaType, example };
+    }
+
+    return content ? { ...response, content } : response;
+  }
+
+  private mediaType(schema: OpenAPISchema, latestSchema: unknown): OpenAPIMediaType {
+    const example = exampleFromSchema(latestSchema);
+    return example === undefined ? { schema } : { schema, example };
+  }
+}
+
+function splitPath(path: string): string[] {
+  return path.split('/').filter(Boolean);
+}
+
+function matchesSegments(template: RouteTemplate, segments: string[]): boolean {
+  for (let i = 0; i < template.segments.length; i++) {
+    const segment = template.segments[i];
+    if ('rest' in segment) return segments.length > i;
+    if (i >= segments.length) return false;
+    if ('literal' in segment && segment.literal !== segments[i]) return false;
+  }
+  return template.segments.length === segments.length;
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const name = key(item);
+    const group = groups.get(name) || [];
+    group.push(item);
+    groups.set(name, group);
+  }
+  return groups;
+}
+
+function groupByStatus(snapshots: RuntimeSnapshot[]): Map<string, RuntimeSnapshot[]> {
+  // Snapshots captured before status codes were recorded count as 200
+  return new Map([...groupBy(snapshots, (snapshot) => String(snapshot.statusCode ?? 200))].sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function latest(snapshots: RuntimeSnapshot[]): RuntimeSnapshot {
+  return snapshots.reduce((newest, snapshot) => (snapshot.timestamp > newest.timestamp ? snapshot : newest));
+}
+
+/**
+ * Rebuild the value a captured schema was inferred from, using its example values
+ */
+function exampleFromSchema(schema: any): unknown {
+  if (!schema || typeof schema !== 'object' || schema.format === 'binary') {
+    return undefined;
+  }
+
+  if (schema.example !== undefined) {
+    return schema.example;
+  }
+
+  if (schema.type === 'object' && schema.properties) {
+    const value: Record<string, unknown> = {};
+    for (const [key, property] of Object.entries(schema.properties)) {
+      const example = exampleFromSchema(property);
+      value[key] = example === undefined ? null : example;
+    }
+    return value;
+  }
+
+  if (schema.type === 'array') {
+    const item = exampleFromSchema(schema.items);
+    return item === undefined ? [] : [item];
+  }
+
+  return undefined;
+}
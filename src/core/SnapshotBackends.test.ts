@@ -0,0 +1,168 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { appendFileSync, existsSync, mkdtempSync, readFileSync, readdirSync, rmSync, utimesSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  FileSystemSnapshotBackend,
+  NdjsonSnapshotBackend,
+  SqliteSnapshotBackend,
+  createSnapshotBackend,
+  detectSnapshotBackend,
+  isSqliteAvailable,
+} from './SnapshotBackends';
+import type { RuntimeSnapshot } from './SnapshotStorage';
+
+function snapshot(hash: string, path = '/users'): RuntimeSnapshot {
+  return { method: 'GET', path, hash, timestamp: `2024-01-01T00:00:0${hash.length}.000Z`, responseSchema: { type: 'object' } };
+}
+
+describe('SnapshotBackends', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'snapshot-backends-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('FileSystemSnapshotBackend', () => {
+    it('should write one file per snapshot and remove evicted ones', () => {
+      const backend = new FileSystemSnapshotBackend(dir);
+
+      backend.append(snapshot('a'));
+      backend.append(snapshot('b'));
+      backend.remove([snapshot('a')]);
+
+      expect(readdirSync(dir)).toEqual(['GET__users_b.json']);
+      expect(backend.load().map((s) => s.hash)).toEqual(['b']);
+    });
+
+    it('should compact to exactly the given snapshots', () => {
+      const backend = new FileSystemSnapshotBackend(dir);
+      backend.append(snapshot('a'));
+
+      backend.compact([snapshot('b')]);
+
+      expect(backend.load().map((s) => s.hash)).toEqual(['b']);
+    });
+  });
+
+  describe('NdjsonSnapshotBackend', () => {
+    it('should replay appends and deletes from the log', () => {
+      const backend = new NdjsonSnapshotBackend(dir);
+
+      backend.append(snapshot('a'));
+      backend.append(snapshot('b'));
+      backend.remove([snapshot('a')]);
+
+      expect(backend.load().map((s) => s.hash)).toEqual(['b']);
+    });
+
+    it('should skip torn lines left by a crashed writer', () => {
+      const backend = new NdjsonSnapshotBackend(dir);
+      backend.append(snapshot('a'));
+      appendFileSync(backend.activeFile, '{"method":"GET","pa');
+
+      expect(backend.load().map((s) => s.hash)).toEqual(['a']);
+    });
+
+    it('should rotate full logs and compact when segments pile up', () => {
+      const backend = new NdjsonSnapshotBackend(dir, { maxFileBytes: 1, maxSegments: 2 });
+
+      backend.append(snapshot('a'));
+      backend.append(snapshot('b'));
+      expect(backend.segments().map((file) => file.slice(dir.length + 1))).toEqual(['snapshots.1.ndjson', 'snapshots.2.ndjson']);
+
+      backend.remove([snapshot('a')]);
+      expect(backend.segments().map((file) => file.slice(dir.length + 1))).toEqual(['snapshots.4.ndjson']);
+      expect(backend.load().map((s) => s.hash)).toEqual(['b']);
+    });
+
+    it('should compact into a new segment without rewriting the active log', () => {
+      const backend = new NdjsonSnapshotBackend(dir);
+      backend.append(snapshot('a'));
+      backend.append(snapshot('b'));
+      const active = readFileSync(backend.activeFile, 'utf-8');
+
+      backend.compact([snapshot('b')]);
+
+      expect(readdirSync(dir).sort()).toEqual(['snapshots.1.ndjson', 'snapshots.ndjson']);
+      expect(readFileSync(backend.activeFile, 'utf-8').startsWith(active)).toBe(true);
+      expect(backend.load().map((s) => s.hash)).toEqual(['b']);
+    });
+
+    it('should skip rotation while another process holds the lock', () => {
+      const backend = new NdjsonSnapshotBackend(dir, { maxFileBytes: 1 });
+      const lockFile = join(dir, 'snapshots.ndjson.lock');
+      writeFileSync(lockFile, '');
+
+      backend.append(snapshot('a'));
+      expect(backend.segments()).toEqual([]);
+      expect(existsSync(lockFile)).toBe(true);
+
+      // A lock left by a crashed process is taken over
+      const stale = new Date(Date.now() - 5 * 60 * 1000);
+      utimesSync(lockFile, stale, stale);
+      backend.append(snapshot('b'));
+      expect(backend.segments().map((file) => file.slice(dir.length + 1))).toEqual(['snapshots.1.ndjson']);
+      expect(existsSync(lockFile)).toBe(false);
+      expect(backend.load().map((s) => s.hash)).toEqual(['a', 'b']);
+    });
+  });
+
+  describe.skipIf(!isSqliteAvailable())('SqliteSnapshotBackend', () => {
+    it('should store, remove and compact snapshots', () => {
+      const backend = new SqliteSnapshotBackend(join(dir, 'snapshots.db'));
+
+      backend.append(snapshot('a'));
+      backend.append(snapshot('bb'));
+      backend.append(snapshot('a'));
+      backend.remove([snapshot('a')]);
+      expect(backend.load().map((s) => s.hash)).toEqual(['bb']);
+
+      backend.compact([snapshot('ccc')]);
+      expect(backend.load().map((s) => s.hash)).toEqual(['ccc']);
+      backend.close();
+    });
+
+    it('should share snapshots between connections', () => {
+      const writer = new SqliteSnapshotBackend(join(dir, 'snapshots.db'));
+      const reader = new SqliteSnapshotBackend(join(dir, 'snapshots.db'));
+
+      writer.append(snapshot('a'));
+
+      expect(reader.load().map((s) => s.hash)).toEqual(['a']);
+      writer.close();
+      reader.close();
+    });
+  });
+
+  describe('createSnapshotBackend', () => {
+    it('should create backends by type', () => {
+      expect(createSnapshotBackend('filesystem', dir).name).toBe('filesystem');
+      expect(createSnapshotBackend('ndjson', dir).name).toBe('ndjson');
+      expect(() => createSnapshotBackend('redis' as any, dir)).toThrow('Unknown snapshot backend: redis');
+    });
+
+    it.runIf(!isSqliteAvailable())('should explain how to enable sqlite when no driver is installed', () => {
+      expect(() => createSnapshotBackend('sqlite', dir)).toThrow('better-sqlite3');
+    });
+  });
+
+  describe('detectSnapshotBackend', () => {
+    it('should detect the backend from the files in a directory', () => {
+      expect(detectSnapshotBackend(dir)).toBe('filesystem');
+
+      writeFileSync(join(dir, 'snapshots.1.ndjson'), '');
+      expect(detectSnapshotBackend(dir)).toBe('ndjson');
+
+      writeFileSync(join(dir, 'snapshots.ndjson'), '');
+      expect(detectSnapshotBackend(dir)).toBe('ndjson');
+
+      writeFileSync(join(dir, 'snapshots.db'), '');
+      expect(detectSnapshotBackend(dir)).toBe('sqlite');
+    });
+  });
+});
@@ -0,0 +1,451 @@
+/**
+ * Snapshot Storage Backends
+ * Where SnapshotStorage persists runtime snapshots: one JSON file per snapshot, an
+ * append-only NDJSON log with rotation and compaction, or a SQLite database that
+ * several processes can share.
+ */
+
+import {
+  appendFileSync,
+  closeSync,
+  existsSync,
+  mkdirSync,
+  openSync,
+  readFileSync,
+  readdirSync,
+  renameSync,
+  statSync,
+  unlinkSync,
+  writeFileSync,
+} from 'fs';
+import { basename, dirname, join } from 'path';
+import type { RuntimeSnapshot } from './SnapshotStorage';
+
+export type SnapshotBackendType = 'filesystem' | 'ndjson' | 'sqlite';
+
+export interface SnapshotBackend {
+  readonly name: string;
+  /** Persist a newly stored snapshot */
+  append(snapshot: RuntimeSnapshot): void;
+  /** Forget snapshots evicted by caps, TTL or pruning */
+  remove(snapshots: RuntimeSnapshot[]): void;
+  /** Every persisted snapshot, in no particular order */
+  load(): RuntimeSnapshot[];
+  /** Rewrite the storage so it holds exactly these snapshots */
+  compact?(snapshots: RuntimeSnapshot[]): void;
+  close?(): void;
+}
+
+export interface NdjsonBackendOptions {
+  /** Rotate the active log once it grows past this size (default: 10 MB) */
+  maxFileBytes?: number;
+  /** Compact once this many rotated logs exist (default: 5) */
+  maxSegments?: number;
+}
+
+export interface SqliteBackendOptions {
+  /** Database file (default: snapshots.db in the output directory) */
+  filename?: string;
+}
+
+const NDJSON_FILE = 'snapshots.ndjson';
+const NDJSON_LOCK = 'snapshots.ndjson.lock';
+/** A lock older than this was left by a process that died while holding it */
+const LOCK_STALE_MS = 60 * 1000;
+const SQLITE_FILE = 'snapshots.db';
+
+/**
+ * Create the backend for a type, persisting under outputDir
+ */
+export function createSnapshotBackend(
+  type: SnapshotBackendType,
+  outputDir: string,
+  options: { ndjson?: NdjsonBackendOptions; sqlite?: SqliteBackendOptions } = {}
+): SnapshotBackend {
+  switch (type) {
+    case 'ndjson':
+      return new NdjsonSnapshotBackend(outputDir, options.ndjson);
+    case 'sqlite':
+      return new SqliteSnapshotBackend(options.sqlite?.filename ?? join(outputDir, SQLITE_FILE));
+    case 'filesystem':
+      return new FileSystemSnapshotBackend(outputDir);
+    default:
+      throw new Error(`Unknown snapshot backend: ${type}. Supported: filesystem, ndjson, sqlite`);
+  }
+}
+
+/**
+ * Guess which backend wrote an output directory from the files in it
+ */
+export function detectSnapshotBackend(outputDir: string): SnapshotBackendType {
+  if (existsSync(join(outputDir, SQLITE_FILE))) return 'sqlite';
+  if (existsSync(join(outputDir, NDJSON_FILE))) return 'ndjson';
+  if (existsSync(outputDir) && readdirSync(outputDir).some((file) => segmentIndex(file) > 0)) return 'ndjson';
+  return 'filesystem';
+}
+
+function snapshotId(snapshot: Pick<RuntimeSnapshot, 'method' | 'path' | 'hash'>): string {
+  return `${snapshot.method}:${snapshot.path}:${snapshot.hash}`;
+}
+
+// ============================================================
+// Filesystem
+// ============================================================
+
+/**
+ * One pretty-printed JSON file per snapshot, named after its route and hash
+ */
+export class FileSystemSnapshotBackend implements SnapshotBackend {
+  readonly name = 'filesystem';
+
+  constructor(private readonly outputDir: string) {}
+
+  append(snapshot: RuntimeSnapshot): void {
+    if (!existsSync(this.outputDir)) {
+      mkdirSync(this.outputDir, { recursive: true });
+    }
+    writeFileSync(this.filePath(snapshot), JSON.stringify(snapshot, null, 2), 'utf-8');
+  }
+
+  remove(snapshots: RuntimeSnapshot[]): void {
+    for (const snapshot of snapshots) {
+      const filepath = this.filePath(snapshot);
+      if (existsSync(filepath)) unlinkSync(filepath);
+    }
+  }
+
+  load(): RuntimeSnapshot[] {
+    if (!existsSync(this.outputDir)) return [];
+
+    return readdirSync(this.outputDir)
+      .filter((file) => file.endsWith('.json'))
+      .map((file) => JSON.parse(readFileSync(join(this.outputDir, file), 'utf-8')) as RuntimeSnapshot);
+  }
+
+  compact(snapshots: RuntimeSnapshot[]): void {
+    const keep = new Set(snapshots.map(snapshotId));
+    this.remove(this.load().filter((snapshot) => !keep.has(snapshotId(snapshot))));
+    for (const snapshot of snapshots) this.append(snapshot);
+  }
+
+  private filePath(snapshot: RuntimeSnapshot): string {
+    // Create safe filename from route key
+    const safeKey = `${snapshot.method}:${snapshot.path}`.replace(/[^a-zA-Z0-9]/g, '_');
+    return join(this.outputDir, `${safeKey}_${snapshot.hash}.json`);
+  }
+}
+
+// ============================================================
+// NDJSON log
+// ============================================================
+
+interface DeleteRecord {
+  op: 'delete';
+  method: string;
+  path: string;
+  hash: string;
+}
+
+/**
+ * Append-only log: stored snapshots are written as lines and evictions as delete
+ * records, so concurrent processes only ever append. Full logs are rotated into
+ * numbered segments, and segments are compacted into a new segment of live snapshots.
+ * Rotation and compaction take a lock file and never rewrite the active log, so lines
+ * other processes append meanwhile are kept.
+ */
+export class NdjsonSnapshotBackend implements SnapshotBackend {
+  readonly name = 'ndjson';
+  private readonly maxFileBytes: number;
+  private readonly maxSegments: number;
+
+  constructor(private readonly outputDir: string, options: NdjsonBackendOptions = {}) {
+    this.maxFileBytes = options.maxFileBytes ?? 10 * 1024 * 1024;
+    this.maxSegments = options.maxSegments ?? 5;
+  }
+
+  /** The log currently appended to */
+  get activeFile(): string {
+    return join(this.outputDir, NDJSON_FILE);
+  }
+
+  append(snapshot: RuntimeSnapshot): void {
+    this.write([snapshot]);
+  }
+
+  remove(snapshots: RuntimeSnapshot[]): void {
+    if (snapshots.length === 0) return;
+    this.write(snapshots.map(deleteRecord));
+  }
+
+  load(): RuntimeSnapshot[] {
+    return replay([...this.segments(), this.activeFile]);
+  }
+
+  /**
+   * Replace the rotated segments with one holding these snapshots. Anything else still
+   * live gets a delete record appended to the active log, which replays after the
+   * segments. Skipped while another process holds the lock.
+   */
+  compact(snapshots: RuntimeSnapshot[]): void {
+    this.withLock(() => {
+      const keep = new Set(snapshots.map(snapshotId));
+      const stale = this.load().filter((snapshot) => !keep.has(snapshotId(snapshot)));
+      if (stale.length > 0) appendFileSync(this.activeFile, lines(stale.map(deleteRecord)), 'utf-8');
+      this.replaceSegments(this.segments(), snapshots);
+    });
+  }
+
+  /**
+   * Rotated logs, oldest first
+   */
+  segments(): string[] {
+    if (!existsSync(this.outputDir)) return [];
+
+    return readdirSync(this.outputDir)
+      .map((file) => ({ file, index: segmentIndex(file) }))
+      .filter((entry) => entry.index > 0)
+      .sort((a, b) => a.index - b.index)
+      .map((entry) => join(this.outputDir, entry.file));
+  }
+
+  private write(records: Array<RuntimeSnapshot | DeleteRecord>): void {
+    mkdirSync(this.outputDir, { recursive: true });
+    appendFileSync(this.activeFile, lines(records), 'utf-8');
+
+    if (statSync(this.activeFile).size <= this.maxFileBytes) return;
+
+    // Another process holding the lock is rotating; the next write tries again
+    this.withLock(() => {
+      // The log may have been rotated between the size check and taking the lock
+      if (!existsSync(this.activeFile) || statSync(this.activeFile).size <= this.maxFileBytes) return;
+
+      // Writers that opened the log before the rename append to the segment instead
+      renameSync(this.activeFile, this.nextSegment());
+
+      const segments = this.segments();
+      if (segments.length > this.maxSegments) {
+        this.replaceSegments(segments, replay(segments));
+      }
+    });
+  }
+
+  /**
+   * Write snapshots to a new segment after `segments`, then delete only those segments
+   */
+  private replaceSegments(segments: string[], snapshots: RuntimeSnapshot[]): void {
+    mkdirSync(this.outputDir, { recursive: true });
+    const target = this.nextSegment();
+    const temporary = `${target}.tmp`;
+    writeFileSync(temporary, lines(snapshots), 'utf-8');
+    renameSync(temporary, target);
+    for (const segment of segments) unlinkSync(segment);
+  }
+
+  private nextSegment(): string {
+    const segments = this.segments();
+    const last = segments.length > 0 ? segmentIndex(basename(segments[segments.length - 1])) : 0;
+    return join(this.outputDir, `snapshots.${last + 1}.ndjson`);
+  }
+
+  /**
+   * Run `task` holding the lock file shared by every process writing to outputDir.
+   * Returns false without running it when another process holds the lock.
+   */
+  private withLock(task: () => void): boolean {
+    mkdirSync(this.outputDir, { recursive: true });
+    const lockFile = join(this.outputDir, NDJSON_LOCK);
+
+    let fd: number;
+    try {
+      fd = openSync(lockFile, 'wx');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+      if (!isStale(lockFile)) return false;
+      unlinkSync(lockFile);
+      try {
+        fd = openSync(lockFile, 'wx');
+      } catch {
+        return false;
+      }
+    }
+
+    try {
+      task();
+      return true;
+    } finally {
+      closeSync(fd);
+      unlinkSync(lockFile);
+    }
+  }
+}
+
+/**
+ * Live snapshots after replaying logs in order
+ */
+function replay(files: string[]): RuntimeSnapshot[] {
+  const live = new Map<string, RuntimeSnapshot>();
+
+  for (const file of files) {
+    if (!existsSync(file)) continue;
+    for (const line of readFileSync(file, 'utf-8').split('\n')) {
+      const record = parseLine(line);
+      if (!record) continue;
+      if ((record as DeleteRecord).op === 'delete') {
+        live.delete(snapshotId(record));
+      } else {
+        live.set(snapshotId(record), record as RuntimeSnapshot);
+      }
+    }
+  }
+
+  return [...live.values()];
+}
+
+function deleteRecord({ method, path, hash }: RuntimeSnapshot): DeleteRecord {
+  return { op: 'delete', method, path, hash };
+}
+
+function lines(records: Array<RuntimeSnapshot | DeleteRecord>): string {
+  return records.map((record) => `${JSON.stringify(record)}\n`).join('');
+}
+
+function isStale(lockFile: string): boolean {
+  try {
+    return Date.now() - statSync(lockFile).mtimeMs > LOCK_STALE_MS;
+  } catch {
+    // Released meanwhile
+    return true;
+  }
+}
+
+/** Number of a rotated log file name, or 0 for other files */
+function segmentIndex(file: string): number {
+  const match = /^snapshots\.(\d+)\.ndjson$/.exec(file);
+  return match ? Number(match[1]) : 0;
+}
+
+function parseLine(line: string): (RuntimeSnapshot | DeleteRecord) | null {
+  if (!line.trim()) return null;
+  try {
+    const record = JSON.parse(line);
+    return record && typeof record.method === 'string' && typeof record.hash === 'string' ? record : null;
+  } catch {
+    // A process may have died mid-write; skip the torn line
+    return null;
+  }
+}
+
+// ============================================================
+// SQLite
+// ============================================================
+
+/** The subset of node:sqlite and better-sqlite3 the backend uses */
+interface SqliteDatabase {
+  exec(sql: string): void;
+  prepare(sql: string): {
+    run(...params: unknown[]): unknown;
+    all(...params: unknown[]): unknown[];
+  };
+  close(): void;
+}
+
+/**
+ * Snapshots in a SQLite table. WAL mode lets several app instances write to the same
+ * file. Uses node:sqlite (Node.js 22.5+) or the optional better-sqlite3 package.
+ */
+export class SqliteSnapshotBackend implements SnapshotBackend {
+  readonly name = 'sqlite';
+  private db: SqliteDatabase;
+
+  constructor(readonly filename: string) {
+    const directory = dirname(filename);
+    if (!existsSync(directory)) mkdirSync(directory, { recursive: true });
+
+    this.db = openDatabase(filename);
+    this.db.exec('PRAGMA journal_mode = WAL');
+    this.db.exec('PRAGMA busy_timeout = 5000');
+    this.db.exec(
+      `CREATE TABLE IF NOT EXISTS snapshots (
+        method TEXT NOT NULL,
+        path TEXT NOT NULL,
+        hash TEXT NOT NULL,
+        timestamp TEXT NOT NULL,
+        data TEXT NOT NULL,
+        PRIMARY KEY (method, path, hash)
+      )`
+    );
+  }
+
+  append(snapshot: RuntimeSnapshot): void {
+    this.db
+      .prepare('INSERT OR REPLACE INTO snapshots (method, path, hash, timestamp, data) VALUES (?, ?, ?, ?, ?)')
+      .run(snapshot.method, snapshot.path, snapshot.hash, snapshot.timestamp, JSON.stringify(snapshot));
+  }
+
+  remove(snapshots: RuntimeSnapshot[]): void {
+    const statement = this.db.prepare('DELETE FROM snapshots WHERE method = ? AND path = ? AND hash = ?');
+    this.transaction(() => {
+      for (const snapshot of snapshots) statement.run(snapshot.method, snapshot.path, snapshot.hash);
+    });
+  }
+
+  load(): RuntimeSnapshot[] {
+    return this.db
+      .prepare('SELECT data FROM snapshots ORDER BY timestamp')
+      .all()
+      .map((row) => JSON.parse((row as { data: string }).data) as RuntimeSnapshot);
+  }
+
+  compact(snapshots: RuntimeSnapshot[]): void {
+    this.transaction(() => {
+      this.db.exec('DELETE FROM snapshots');
+      for (const snapshot of snapshots) this.append(snapshot);
+    });
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private transaction(work: () => void): void {
+    this.db.exec('BEGIN');
+    try {
+      work();
+      this.db.exec('COMMIT');
+    } catch (error) {
+      this.db.exec('ROLLBACK');
+      throw error;
+    }
+  }
+}
+
+function openDatabase(filename: string): SqliteDatabase {
+  return loadSqliteDriver()(filename);
+}
+
+function loadSqliteDriver(): (filename: string) => SqliteDatabase {
+  try {
+    const { DatabaseSync } = require('node:sqlite');
+    return (filename) => new DatabaseSync(filename);
+  } catch {
+    // node:sqlite needs Node.js 22.5+ (and --experimental-sqlite before 22.13)
+  }
+  try {
+    const Database = require('better-sqlite3');
+    return (filename) => new Database(filename);
+  } catch {
+    throw new Error('The sqlite snapshot backend needs Node.js 22.5+ (node:sqlite) or the better-sqlite3 package');
+  }
+}
+
+/**
+ * Whether a SQLite driver can be loaded in this process
+ */
+export function isSqliteAvailable(): boolean {
+  try {
+    loadSqliteDriver();
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -1,5 +1,5 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { SnapshotStorage } from './SnapshotStorage';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { SnapshotStorage, matchesRoute } from './SnapshotStorage';
 import { existsSync, rmSync } from 'fs';
 
 describe('SnapshotStorage', () => {
@@ -216,4 +216,165 @@ describe('SnapshotStorage', () => {
       expect(snapshots).toHaveLength(0);
     });
   });
+
+  describe('ttl', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should evict expired snapshots when a route is stored to', () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date('2024-01-01T00:00:00Z'));
+      const ttlStorage = new SnapshotStorage({ enabled: true, outputDir: testDir, ttlMs: 60_000 });
+
+      ttlStorage.store({ method: 'GET', path: '/users', responseSchema: { type: 'array' } });
+      vi.setSystemTime(new Date('2024-01-01T00:02:00Z'));
+      ttlStorage.store({ method: 'GET', path: '/users', responseSchema: { type: 'object' } });
+
+      expect(ttlStorage.getSnapshots('GET', '/users').map((s) => s.responseSchema.type)).toEqual(['object']);
+
+      const reloaded = new SnapshotStorage({ enabled: true, outputDir: testDir });
+      reloaded.loadSnapshots();
+      expect(reloaded.getSnapshots('GET', '/users')).toHaveLength(1);
+    });
+
+    it('should skip expired snapshots when loading', () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date('2024-01-01T00:00:00Z'));
+      storage.store({ method: 'GET', path: '/users' });
+
+      vi.setSystemTime(new Date('2024-01-02T00:00:00Z'));
+      const ttlStorage = new SnapshotStorage({ enabled: true, outputDir: testDir, ttlMs: 60_000 });
+      ttlStorage.loadSnapshots();
+
+      expect(ttlStorage.getSnapshots('GET', '/users')).toHaveLength(0);
+    });
+  });
+
+  describe('route limits', () => {
+    it('should apply the first matching route cap', () => {
+      const limited = new SnapshotStorage({
+        enabled: true,
+        outputDir: testDir,
+        maxSnapshots: 5,
+        routeLimits: { 'GET /health': 0, '/users/*': 2 },
+      });
+
+      for (let i = 0; i < 4; i++) {
+        limited.store({ method: 'GET', path: '/health', responseSchema: { i } });
+        limited.store({ method: 'POST', path: '/users/:id', responseSchema: { i } });
+        limited.store({ method: 'GET', path: '/orders', responseSchema: { i } });
+      }
+
+      expect(limited.getSnapshots('GET', '/health')).toHaveLength(0);
+      expect(limited.getSnapshots('POST', '/users/:id').map((s) => s.responseSchema.i)).toEqual([2, 3]);
+      expect(limited.getSnapshots('GET', '/orders')).toHaveLength(4);
+    });
+
+    it('should remove evicted snapshots from disk', () => {
+      for (let i = 0; i < 7; i++) {
+        storage.store({ method: 'GET', path: '/users', responseSchema: { i } });
+      }
+
+      const reloaded = new SnapshotStorage({ enabled: true, outputDir: testDir });
+      reloaded.loadSnapshots();
+
+      expect(reloaded.getSnapshots('GET', '/users').map((s) => s.responseSchema.i).sort()).toEqual([2, 3, 4, 5, 6]);
+    });
+
+    it('should match routes by method and path pattern', () => {
+      expect(matchesRoute('GET /users/*', 'get', '/users/:id')).toBe(true);
+      expect(matchesRoute('GET /users/*', 'GET', '/users/:id/posts')).toBe(false);
+      expect(matchesRoute('/api/**', 'DELETE', '/api/v1/users/:id')).toBe(true);
+      expect(matchesRoute('* /users', 'PATCH', '/users')).toBe(true);
+      expect(matchesRoute('POST /users', 'GET', '/users')).toBe(false);
+    });
+  });
+
+  describe('reservoir retention', () => {
+    it('should keep a sample spanning the whole history of a route', () => {
+      const random = vi.spyOn(Math, 'random').mockReturnValueOnce(0.99).mockReturnValueOnce(0.99).mockReturnValueOnce(0.1);
+      const sampled = new SnapshotStorage({ enabled: true, outputDir: testDir, maxSnapshots: 3, retention: 'reservoir' });
+
+      for (let i = 0; i < 6; i++) {
+        sampled.store({ method: 'GET', path: '/users', responseSchema: { i } });
+      }
+      random.mockRestore();
+
+      // The 4th and 5th snapshots lose the draw and the 6th replaces the oldest kept one
+      expect(sampled.getSnapshots('GET', '/users').map((s) => s.responseSchema.i)).toEqual([1, 2, 5]);
+    });
+
+    it('should reject snapshots that lose the draw', () => {
+      const random = vi.spyOn(Math, 'random').mockReturnValue(0.99);
+      const sampled = new SnapshotStorage({ enabled: true, outputDir: testDir, maxSnapshots: 2, retention: 'reservoir' });
+
+      for (let i = 0; i < 4; i++) {
+        sampled.store({ method: 'GET', path: '/users', responseSchema: { i } });
+      }
+      random.mockRestore();
+
+      expect(sampled.getSnapshots('GET', '/users').map((s) => s.responseSchema.i)).toEqual([0, 1]);
+    });
+  });
+
+  describe('prune', () => {
+    it('should remove old snapshots and trim routes', () => {
+      const old = { method: 'GET', path: '/users', timestamp: '2020-01-01T00:00:00.000Z', hash: 'old' };
+      storage.importSnapshots([old]);
+      for (let i = 0; i < 3; i++) {
+        storage.store({ method: 'GET', path: '/orders', responseSchema: { i } });
+      }
+
+      const removed = storage.prune({ olderThanMs: 24 * 60 * 60 * 1000, maxPerRoute: 1 });
+
+      expect(removed.map((s) => s.path).sort()).toEqual(['/orders', '/orders', '/users']);
+      expect(storage.getSnapshots('GET', '/users')).toHaveLength(0);
+      expect(storage.getSnapshots('GET', '/orders').map((s) => s.responseSchema.i)).toEqual([2]);
+    });
+
+    it('should only prune matching routes', () => {
+      for (let i = 0; i < 3; i++) {
+        storage.store({ method: 'GET', path: '/users', responseSchema: { i } });
+        storage.store({ method: 'GET', path: '/orders', responseSchema: { i } });
+      }
+
+      storage.prune({ maxPerRoute: 1, route: '/orders' });
+
+      expect(storage.getSnapshots('GET', '/users')).toHaveLength(3);
+      expect(storage.getSnapshots('GET', '/orders')).toHaveLength(1);
+    });
+  });
+
+  describe('importSnapshots', () => {
+    it('should keep timestamps and skip snapshots already stored', () => {
+      const snapshot = { method: 'GET', path: '/users', timestamp: '2024-01-01T00:00:00.000Z', hash: 'abc' };
+
+      expect(storage.importSnapshots([snapshot, { ...snapshot }])).toBe(1);
+      expect(storage.getSnapshots('GET', '/users')[0].timestamp).toBe(snapshot.timestamp);
+    });
+  });
+
+  describe('backends', () => {
+    it('should persist through the ndjson backend', () => {
+      const ndjson = new SnapshotStorage({ enabled: true, outputDir: testDir, backend: 'ndjson', maxSnapshots: 2 });
+      for (let i = 0; i < 3; i++) {
+        ndjson.store({ method: 'GET', path: '/users', responseSchema: { i } });
+      }
+
+      const reloaded = new SnapshotStorage({ enabled: true, outputDir: testDir, backend: 'ndjson' });
+      reloaded.loadSnapshots();
+
+      expect(existsSync(`${testDir}/snapshots.ndjson`)).toBe(true);
+      expect(reloaded.getSnapshots('GET', '/users').map((s) => s.responseSchema.i)).toEqual([1, 2]);
+    });
+
+    it('should not touch the backend while disabled', () => {
+      const disabled = new SnapshotStorage({ enabled: false, outputDir: testDir, backend: 'sqlite' });
+
+      disabled.store({ method: 'GET', path: '/users' });
+
+      expect(existsSync(testDir)).toBe(false);
+    });
+  });
 });
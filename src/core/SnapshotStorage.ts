@@ -1,25 +1,63 @@
-import { writeFileSync, readFileSync, existsSync, mkdirSync } from 'fs';
-import { join } from 'path';
 import { createHash } from 'crypto';
+import { createSnapshotBackend } from './SnapshotBackends';
+import type { SnapshotBackend, SnapshotBackendType, NdjsonBackendOptions, SqliteBackendOptions } from './SnapshotBackends';
 
 export interface RuntimeSnapshot {
   method: string;
   path: string;
   requestSchema?: any;
   responseSchema?: any;
+  statusCode?: number;
+  /** Response media type without parameters */
+  contentType?: string;
+  /** Response headers as sent, with sensitive values redacted */
+  responseHeaders?: Record<string, string>;
   timestamp: string;
   hash: string;
 }
 
+/**
+ * Which snapshots a route keeps once it reaches its cap: the newest ones, or a
+ * uniform random sample of every distinct snapshot seen (reservoir sampling), so
+ * rarely seen shapes are not pushed out by frequent ones
+ */
+export type SnapshotRetention = 'newest' | 'reservoir';
+
 export interface SnapshotStorageConfig {
   enabled?: boolean;
   outputDir?: string;
+  /** Snapshots kept per route (default: 100) */
   maxSnapshots?: number;
+  /** Where snapshots are persisted (default: 'filesystem'), or a custom backend */
+  backend?: SnapshotBackendType | SnapshotBackend;
+  /** Evict snapshots older than this many milliseconds (default: 0, never) */
+  ttlMs?: number;
+  /**
+   * Caps for specific routes, keyed by 'METHOD /path' or '/path'. `*` matches one
+   * path segment or any method and `**` any number of segments; the first matching
+   * key wins. A cap of 0 stops capturing the route.
+   */
+  routeLimits?: Record<string, number>;
+  retention?: SnapshotRetention;
+  ndjson?: NdjsonBackendOptions;
+  sqlite?: SqliteBackendOptions;
+}
+
+export interface SnapshotPruneOptions {
+  /** Remove snapshots older than this many milliseconds (default: ttlMs) */
+  olderThanMs?: number;
+  /** Keep at most this many snapshots per route (default: the route's cap) */
+  maxPerRoute?: number;
+  /** Only prune routes matching this 'METHOD /path' pattern */
+  route?: string;
 }
 
 export class SnapshotStorage {
   private config: Required<SnapshotStorageConfig>;
   private snapshots: Map<string, RuntimeSnapshot[]> = new Map();
+  /** Distinct snapshots offered per route, for reservoir sampling */
+  private seen: Map<string, number> = new Map();
+  private backendInstance?: SnapshotBackend;
 
   /** Public options accessor for external use */
   public get options(): Required<SnapshotStorageConfig> {
@@ -31,45 +69,161 @@ export class SnapshotStorage {
       enabled: config.enabled ?? process.env.NODE_ENV === 'development',
       outputDir: config.outputDir ?? './data/runtime-snapshots',
       maxSnapshots: config.maxSnapshots ?? 100,
+      backend: config.backend ?? 'filesystem',
+      ttlMs: config.ttlMs ?? 0,
+      routeLimits: config.routeLimits ?? {},
+      retention: config.retention ?? 'newest',
+      ndjson: config.ndjson ?? {},
+      sqlite: config.sqlite ?? {},
     };
   }
 
+  /**
+   * The persistence backend, created on first use so disabled storage never touches disk
+   */
+  get backend(): SnapshotBackend {
+    if (!this.backendInstance) {
+      const { backend, outputDir, ndjson, sqlite } = this.config;
+      this.backendInstance = typeof backend === 'string' ? createSnapshotBackend(backend, outputDir, { ndjson, sqlite }) : backend;
+    }
+    return this.backendInstance;
+  }
+
   store(snapshot: Omit<RuntimeSnapshot, 'hash' | 'timestamp'>): void {
     if (!this.config.enabled) {
       return;
     }
 
-    const key = `${snapshot.method}:${snapshot.path}`;
-    const hash = this.generateHash(snapshot);
-    const timestamp = new Date().toISOString();
-
-    const fullSnapshot: RuntimeSnapshot = {
+    this.add({
       ...snapshot,
-      hash,
-      timestamp,
-    };
+      hash: this.generateHash(snapshot),
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Add snapshots captured elsewhere (e.g. exported from another instance), keeping
+   * their timestamps. Returns how many were new.
+   */
+  importSnapshots(snapshots: RuntimeSnapshot[]): number {
+    let added = 0;
+    const ordered = [...snapshots].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    for (const snapshot of ordered) {
+      if (this.add({ ...snapshot, hash: snapshot.hash || this.generateHash(snapshot) })) added++;
+    }
+    return added;
+  }
+
+  /**
+   * Remove expired snapshots and trim routes to their caps. Returns the removed snapshots.
+   */
+  prune(options: SnapshotPruneOptions = {}): RuntimeSnapshot[] {
+    const olderThanMs = options.olderThanMs ?? this.config.ttlMs;
+    const removed: RuntimeSnapshot[] = [];
+
+    for (const [key, existing] of this.snapshots) {
+      const [method, ...rest] = key.split(':');
+      const path = rest.join(':');
+      if (options.route && !matchesRoute(options.route, method, path)) continue;
+
+      const kept = olderThanMs > 0 ? existing.filter((snapshot) => !this.isExpired(snapshot, olderThanMs)) : [...existing];
+      removed.push(...existing.filter((snapshot) => !kept.includes(snapshot)));
+
+      const limit = options.maxPerRoute ?? this.limitFor(method, path);
+      if (kept.length > limit) {
+        removed.push(...kept.splice(0, kept.length - limit));
+      }
+
+      if (kept.length > 0) {
+        this.snapshots.set(key, kept);
+      } else {
+        this.snapshots.delete(key);
+      }
+    }
+
+    if (removed.length > 0) {
+      this.backend.remove(removed);
+    }
+    this.compact();
+    return removed;
+  }
+
+  /**
+   * Rewrite the backend so it only holds the snapshots currently kept
+   */
+  compact(): void {
+    this.backend.compact?.([...this.snapshots.values()].flat());
+  }
+
+  close(): void {
+    this.backendInstance?.close?.();
+    this.backendInstance = undefined;
+  }
+
+  private add(fullSnapshot: RuntimeSnapshot): boolean {
+    const key = `${fullSnapshot.method}:${fullSnapshot.path}`;
+    const limit = this.limitFor(fullSnapshot.method, fullSnapshot.path);
+    if (limit <= 0) {
+      return false;
+    }
 
     // Get existing snapshots for this route
     const existing = this.snapshots.get(key) || [];
+    const evicted: RuntimeSnapshot[] = [];
+
+    if (this.config.ttlMs > 0) {
+      const live = existing.filter((s) => !this.isExpired(s, this.config.ttlMs));
+      evicted.push(...existing.filter((s) => !live.includes(s)));
+      existing.splice(0, existing.length, ...live);
+    }
 
     // Check if we already have this exact snapshot (by hash)
-    const duplicate = existing.find((s) => s.hash === hash);
+    const duplicate = existing.find((s) => s.hash === fullSnapshot.hash);
     if (duplicate) {
-      return; // Skip duplicate
+      this.persistEvictions(evicted);
+      return false; // Skip duplicate
     }
 
-    // Add new snapshot
-    existing.push(fullSnapshot);
-
-    // Limit number of snapshots per route
-    if (existing.length > this.config.maxSnapshots) {
-      existing.shift(); // Remove oldest
+    const seen = (this.seen.get(key) ?? existing.length) + 1;
+    this.seen.set(key, seen);
+
+    let accepted = true;
+    if (existing.length < limit) {
+      existing.push(fullSnapshot);
+    } else if (this.config.retention === 'reservoir') {
+      // Algorithm R: the new snapshot replaces a random one with probability limit / seen
+      const slot = Math.floor(Math.random() * seen);
+      if (slot < limit) {
+        evicted.push(...existing.splice(slot, 1));
+        existing.push(fullSnapshot);
+      } else {
+        accepted = false;
+      }
+    } else {
+      // Limit number of snapshots per route
+      existing.push(fullSnapshot);
+      evicted.push(...existing.splice(0, existing.length - limit)); // Remove oldest
     }
 
     this.snapshots.set(key, existing);
 
     // Persist to disk
-    this.persistSnapshot(key, fullSnapshot);
+    if (accepted) {
+      this.persistSnapshot(fullSnapshot);
+    }
+    this.persistEvictions(evicted);
+    return accepted;
+  }
+
+  private limitFor(method: string, path: string): number {
+    for (const [pattern, limit] of Object.entries(this.config.routeLimits)) {
+      if (matchesRoute(pattern, method, path)) return limit;
+    }
+    return this.config.maxSnapshots;
+  }
+
+  private isExpired(snapshot: RuntimeSnapshot, ttlMs: number): boolean {
+    return Date.now() - new Date(snapshot.timestamp).getTime() > ttlMs;
   }
 
   getSnapshots(method: string, path: string): RuntimeSnapshot[] {
@@ -83,6 +237,7 @@ export class SnapshotStorage {
 
   clear(): void {
     this.snapshots.clear();
+    this.seen.clear();
   }
 
   private generateHash(snapshot: Omit<RuntimeSnapshot, 'hash' | 'timestamp'>): string {
@@ -91,53 +246,60 @@ export class SnapshotStorage {
       path: snapshot.path,
       requestSchema: snapshot.requestSchema,
       responseSchema: snapshot.responseSchema,
+      statusCode: snapshot.statusCode,
+      contentType: snapshot.contentType,
     });
 
     return createHash('sha256').update(content).digest('hex').substring(0, 16);
   }
 
-  private persistSnapshot(key: string, snapshot: RuntimeSnapshot): void {
+  private persistSnapshot(snapshot: RuntimeSnapshot): void {
     try {
-      // Ensure output directory exists
-      if (!existsSync(this.config.outputDir)) {
-        mkdirSync(this.config.outputDir, { recursive: true });
-      }
+      this.backend.append(snapshot);
+    } catch (error) {
+      console.error('[SnapshotStorage] Failed to persist snapshot:', error);
+    }
+  }
 
-      // Create safe filename from route key
-      const safeKey = key.replace(/[^a-zA-Z0-9]/g, '_');
-      const filename = `${safeKey}_${snapshot.hash}.json`;
-      const filepath = join(this.config.outputDir, filename);
+  private persistEvictions(snapshots: RuntimeSnapshot[]): void {
+    if (snapshots.length === 0) {
+      return;
+    }
 
-      // Write snapshot to file
-      writeFileSync(filepath, JSON.stringify(snapshot, null, 2), 'utf-8');
+    try {
+      this.backend.remove(snapshots);
     } catch (error) {
-      console.error('[SnapshotStorage] Failed to persist snapshot:', error);
+      console.error('[SnapshotStorage] Failed to remove evicted snapshots:', error);
     }
   }
 
   loadSnapshots(): void {
     try {
-      if (!existsSync(this.config.outputDir)) {
-        return;
-      }
-
-      const fs = require('fs');
-      const files = fs.readdirSync(this.config.outputDir);
-
-      for (const file of files) {
-        if (!file.endsWith('.json')) {
-          continue;
-        }
-
-        const filepath = join(this.config.outputDir, file);
-        const content = readFileSync(filepath, 'utf-8');
-        const snapshot: RuntimeSnapshot = JSON.parse(content);
+      const snapshots = this.backend
+        .load()
+        .filter((snapshot) => !(this.config.ttlMs > 0 && this.isExpired(snapshot, this.config.ttlMs)))
+        .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
 
+      for (const snapshot of snapshots) {
         const key = `${snapshot.method}:${snapshot.path}`;
         const existing = this.snapshots.get(key) || [];
+        if (existing.some((s) => s.hash === snapshot.hash)) {
+          continue;
+        }
         existing.push(snapshot);
         this.snapshots.set(key, existing);
       }
+
+      // Keep the newest snapshots of routes over their cap
+      for (const [key, existing] of this.snapshots) {
+        const limit = this.limitFor(existing[0].method, existing[0].path);
+        if (existing.length > limit) {
+          existing.splice(0, existing.length - limit);
+        }
+        if (existing.length === 0) {
+          this.snapshots.delete(key);
+        }
+      }
     } catch (error) {
       console.error('[SnapshotStorage] Failed to load snapshots:', error);
     }
@@ -191,3 +353,23 @@ export class SnapshotStorage {
     return merged;
   }
 }
+
+/**
+ * Match a route against a 'METHOD /path' or '/path' pattern, where `*` matches one
+ * path segment (or any method) and `**` any number of segments
+ */
+export function matchesRoute(pattern: string, method: string, path: string): boolean {
+  const [first, second] = pattern.trim().split(/\s+/, 2);
+  const methodPattern = second === undefined ? '*' : first;
+  const pathPattern = second === undefined ? first : second;
+
+  if (methodPattern !== '*' && methodPattern.toUpperCase() !== method.toUpperCase()) {
+    return false;
+  }
+
+  const source = pathPattern
+    .split('**')
+    .map((part) => part.split('*').map((text) => text.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('[^/]*'))
+    .join('.*');
+  return new RegExp(`^${source}$`).test(path);
+}
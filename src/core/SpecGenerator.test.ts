@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import { SpecGenerator } from './SpecGenerator';
 import type { GeneratorConfig } from '../types';
+import { z } from 'zod';
 
 describe('SpecGenerator', () => {
   const config: GeneratorConfig = {
@@ -42,3 +43,86 @@ describe('SpecGenerator', () => {
     expect(spec.paths['/users'].get.summary).toContain('GET');
   });
 });
+
+describe('SpecGenerator components', () => {
+  const config: GeneratorConfig = {
+    info: { title: 'Test API', version: '1.0.0' },
+  };
+
+  const routes = [
+    {
+      method: 'POST',
+      path: '/users',
+      handler: () => {},
+      metadata: {
+        requestBody: {
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: { name: { type: 'string' } },
+                required: ['name'],
+              },
+            },
+          },
+        },
+        responses: { '201': { description: 'Created' } },
+      },
+    },
+  ];
+
+  it('should keep schemas inline by default', () => {
+    const spec = new SpecGenerator(config).generate(routes);
+
+    expect(spec.components?.schemas).toEqual({});
+    expect(spec.paths['/users'].post.requestBody.content['application/json'].schema.type).toBe('object');
+  });
+
+  it('should extract components when enabled', () => {
+    const spec = new SpecGenerator({ ...config, extractComponents: true }).generate(routes);
+
+    expect(spec.paths['/users'].post.requestBody.content['application/json'].schema).toEqual({
+      $ref: '#/components/schemas/PostUsersRequest',
+    });
+    expect(routes[0].metadata.requestBody.content['application/json'].schema.type).toBe('object');
+  });
+
+  it('should add named validator schemas to components', () => {
+    const spec = new SpecGenerator({
+      ...config,
+      schemas: { User: z.object({ name: z.string() }) },
+      extractComponents: true,
+    }).generate(routes);
+
+    expect(spec.components?.schemas?.User.type).toBe('object');
+    expect(spec.paths['/users'].post.requestBody.content['application/json'].schema).toEqual({
+      $ref: '#/components/schemas/User',
+    });
+  });
+});
+
+describe('SpecGenerator spec versions', () => {
+  const info = { title: 'Test API', version: '1.0.0' };
+  const schemas = { Profile: z.object({ bio: z.string().nullable() }) };
+  const webhooks = { userCreated: { post: { responses: { '200': { description: 'OK' } } } } };
+
+  it('should emit the OpenAPI 3.1 dialect by default', () => {
+    const spec = new SpecGenerator({
+      info,
+      schemas,
+      webhooks,
+      jsonSchemaDialect: 'https://spec.openapis.org/oas/3.1/dialect/base',
+    }).generate([]);
+
+    expect(Object.keys(spec)).toEqual(['openapi', 'info', 'jsonSchemaDialect', 'servers', 'paths', 'webhooks', 'components', 'tags']);
+    expect(spec.components?.schemas?.Profile.properties?.bio).toEqual({ type: ['string', 'null'] });
+  });
+
+  it('should emit valid OpenAPI 3.0 when selected', () => {
+    const spec = new SpecGenerator({ info, schemas, webhooks, specVersion: '3.0.0' }).generate([]);
+
+    expect(spec.openapi).toBe('3.0.0');
+    expect(spec.webhooks).toBeUndefined();
+    expect(spec.components?.schemas?.Profile.properties?.bio).toEqual({ type: 'string', nullable: true });
+  });
+});
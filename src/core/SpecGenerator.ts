@@ -3,11 +3,18 @@ import type {
   GeneratorConfig,
   RouteMetadata,
   OpenAPIPath,
+  OpenAPISchema,
 } from '../types';
+import { ComponentExtractor } from './ComponentExtractor';
+import { PathParameterExtractor } from './PathParameterExtractor';
+import type { PathTemplate } from './PathParameterExtractor';
+import { SpecVersionConverter } from './SpecVersionConverter';
+import { validatorRegistry } from '../validators/ValidatorRegistry';
 
 export class SpecGenerator {
   private config: GeneratorConfig;
   private cachedSpec: OpenAPISpec | null = null;
+  private pathExtractor = new PathParameterExtractor();
 
   constructor(config: GeneratorConfig) {
     this.config = {
@@ -19,15 +26,18 @@ export class SpecGenerator {
 
   generate(routes: RouteMetadata[]): OpenAPISpec {
     // Phase 1: Basic spec generation with paths and info
-    // TODO(Phase 2): Add component schema extraction and refs
     // TODO(Phase 3): Include examples and enhanced type inference
     // TODO(Phase 4): Implement caching and watch mode optimization
 
-    const spec: OpenAPISpec = {
-      openapi: this.config.specVersion || '3.1.0',
+    const specVersion = this.config.specVersion || '3.1.0';
+
+    let spec: OpenAPISpec = {
+      openapi: specVersion,
       info: this.config.info,
+      ...(this.config.jsonSchemaDialect ? { jsonSchemaDialect: this.config.jsonSchemaDialect } : {}),
       servers: this.config.servers || [],
       paths: {},
+      ...(this.config.webhooks ? { webhooks: this.config.webhooks } : {}),
       components: {
         schemas: {},
         securitySchemes: this.config.securitySchemes || {},
@@ -40,32 +50,66 @@ export class SpecGenerator {
     for (const [path, methods] of pathsMap.entries()) {
       spec.paths[path] = {};
 
-      for (const [method, route] of methods.entries()) {
-        spec.paths[path][method] = this.createPathItem(route);
+      for (const [method, { route, template }] of methods.entries()) {
+        spec.paths[path][method] = this.createPathItem(route, template);
       }
     }
 
+    const namedSchemas = this.resolveNamedSchemas();
+    const extraction = this.config.extractComponents;
+
+    if (extraction) {
+      const extractor = new ComponentExtractor(extraction === true ? {} : extraction);
+      spec = extractor.extract(spec, namedSchemas);
+    } else {
+      spec.components!.schemas = namedSchemas;
+    }
+
+    // Adapters and inference emit the 3.0 dialect (nullable, example); rewrite it for the selected version
+    spec = new SpecVersionConverter().convert(spec, specVersion.startsWith('3.0') ? '3.0' : '3.1').spec;
+    spec.openapi = specVersion;
+
     this.cachedSpec = spec;
     return spec;
   }
 
+  /**
+   * Convert configured schemas to OpenAPI, accepting Zod/Joi/Yup instances or plain OpenAPI objects
+   */
+  private resolveNamedSchemas(): Record<string, OpenAPISchema> {
+    const resolved: Record<string, OpenAPISchema> = {};
+
+    for (const [name, schema] of Object.entries(this.config.schemas || {})) {
+      resolved[name] =
+        validatorRegistry.detectAndConvert(schema) || (schema as OpenAPISchema);
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Group routes by OpenAPI path template. Express paths with optional segments
+   * (/files/:name?, /files{/:name}) appear under each path they match.
+   */
   private groupRoutesByPath(
     routes: RouteMetadata[]
-  ): Map<string, Map<string, RouteMetadata>> {
-    const pathsMap = new Map<string, Map<string, RouteMetadata>>();
+  ): Map<string, Map<string, { route: RouteMetadata; template: PathTemplate }>> {
+    const pathsMap = new Map<string, Map<string, { route: RouteMetadata; template: PathTemplate }>>();
 
     for (const route of routes) {
-      if (!pathsMap.has(route.path)) {
-        pathsMap.set(route.path, new Map());
-      }
+      for (const template of this.pathExtractor.expandPath(route.path)) {
+        if (!pathsMap.has(template.path)) {
+          pathsMap.set(template.path, new Map());
+        }
 
-      pathsMap.get(route.path)!.set(route.method.toLowerCase(), route);
+        pathsMap.get(template.path)!.set(route.method.toLowerCase(), { route, template });
+      }
     }
 
     return pathsMap;
   }
 
-  private createPathItem(route: RouteMetadata): OpenAPIPath {
+  private createPathItem(route: RouteMetadata, template: PathTemplate): OpenAPIPath {
     // Phase 1: Basic path item with minimal fields
     // TODO(Phase 2): Add parameter extraction from path params
     // TODO(Phase 3): Enhance with decorator and JSDoc metadata
@@ -73,9 +117,9 @@ export class SpecGenerator {
     const pathItem: OpenAPIPath = {
       summary: route.metadata?.summary || `${route.method} ${route.path}`,
       description: route.metadata?.description,
-      operationId: this.generateOperationId(route),
+      operationId: this.generateOperationId(route.method, template.path),
       tags: route.metadata?.tags || [],
-      parameters: route.metadata?.parameters || this.extractPathParameters(route.path),
+      parameters: this.createParameters(route.metadata?.parameters, template),
       responses: route.metadata?.responses || {
         '200': {
           description: 'Successful response',
@@ -90,32 +134,37 @@ export class SpecGenerator {
     return pathItem;
   }
 
-  private generateOperationId(route: RouteMetadata): string {
-    const pathSegments = route.path
+  private generateOperationId(method: string, path: string): string {
+    const pathSegments = path
       .split('/')
       .filter(Boolean)
       .map((seg) => seg.replace(/[^a-zA-Z0-9]/g, ''))
       .join('_');
 
-    return `${route.method.toLowerCase()}_${pathSegments || 'root'}`;
+    return `${method.toLowerCase()}_${pathSegments || 'root'}`;
   }
 
-  private extractPathParameters(path: string): any[] {
-    // TODO(Phase 2): Robust path parameter extraction with type inference
-    const paramRegex = /:(\w+)/g;
-    const params: any[] = [];
-    let match;
+  /**
+   * Documented parameters, minus path parameters the template does not have, plus
+   * the template's own path parameters typed from inline regexes
+   */
+  private createParameters(documented: any[] | undefined, template: PathTemplate): any[] {
+    const names = new Set(template.parameters.map((param) => param.name));
+    const parameters = (documented || []).filter((param) => param.in !== 'path' || names.has(param.name));
+
+    for (const param of template.parameters) {
+      if (parameters.some((existing) => existing.in === 'path' && existing.name === param.name)) continue;
 
-    while ((match = paramRegex.exec(path)) !== null) {
-      params.push({
-        name: match[1],
+      parameters.push({
+        name: param.name,
         in: 'path',
         required: true,
-        schema: { type: 'string' },
+        schema: param.schema,
+        ...(param.wildcard ? { description: param.description } : {}),
       });
     }
 
-    return params;
+    return parameters;
   }
 
   getCachedSpec(): OpenAPISpec | null {
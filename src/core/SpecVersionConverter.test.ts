@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest';
+import { SpecVersionConverter } from './SpecVersionConverter';
+import type { OpenAPISpec, OpenAPISchema } from '../types';
+
+function createSpec(schema: OpenAPISchema, extra: Partial<OpenAPISpec> = {}): OpenAPISpec {
+  return {
+    openapi: '3.0.3',
+    info: { title: 'Test API', version: '1.0.0' },
+    paths: {
+      '/users': {
+        get: {
+          parameters: [{ name: 'limit', in: 'query', schema: { type: 'integer', minimum: 0, exclusiveMinimum: true } }],
+          responses: {
+            '200': { description: 'OK', content: { 'application/json': { schema } } },
+          },
+        },
+      },
+    },
+    components: { schemas: {} },
+    ...extra,
+  };
+}
+
+describe('SpecVersionConverter', () => {
+  const converter = new SpecVersionConverter();
+
+  describe('upgrade to 3.1', () => {
+    it('should rewrite nullable, example and boolean exclusive bounds', () => {
+      const spec = createSpec({
+        type: 'object',
+        properties: {
+          name: { type: 'string', nullable: true, example: 'Ada' },
+          role: { type: 'string', enum: ['admin', 'member'], nullable: true },
+          nothing: { nullable: true, enum: [null] },
+        },
+      });
+
+      const { spec: converted, warnings } = converter.convert(spec, '3.1');
+      const schema = converted.paths['/users'].get.responses['200'].content!['application/json'].schema;
+
+      expect(converted.openapi).toBe('3.1.0');
+      expect(warnings).toEqual([]);
+      expect(schema.properties).toEqual({
+        name: { type: ['string', 'null'], examples: ['Ada'] },
+        role: { type: ['string', 'null'], enum: ['admin', 'member', null] },
+        nothing: { type: 'null' },
+      });
+      expect(converted.paths['/users'].get.parameters![0].schema).toEqual({ type: 'integer', exclusiveMinimum: 0 });
+      // The input is left untouched
+      expect(spec.openapi).toBe('3.0.3');
+    });
+
+    it('should add a null branch to references and compositions', () => {
+      const spec = createSpec({ type: 'object' });
+      spec.components!.schemas = {
+        Owner: { allOf: [{ $ref: '#/components/schemas/User' }], nullable: true, description: 'Owner' },
+        Pet: { oneOf: [{ $ref: '#/components/schemas/Cat' }, { $ref: '#/components/schemas/Dog' }], nullable: true },
+      };
+
+      const schemas = converter.convert(spec, '3.1').spec.components!.schemas!;
+
+      expect(schemas.Owner).toEqual({
+        description: 'Owner',
+        anyOf: [{ $ref: '#/components/schemas/User' }, { type: 'null' }],
+      });
+      expect(schemas.Pet.oneOf).toHaveLength(3);
+      expect(schemas.Pet.oneOf![2]).toEqual({ type: 'null' });
+    });
+  });
+
+  describe('downgrade to 3.0', () => {
+    it('should rewrite type arrays, const, examples and numeric exclusive bounds', () => {
+      const spec = createSpec({
+        $schema: 'https://json-schema.org/draft/2020-12/schema',
+        type: 'object',
+        properties: {
+          name: { type: ['string', 'null'], examples: ['Ada', 'Grace'] },
+          kind: { const: 'user' },
+          score: { type: 'number', exclusiveMaximum: 100 },
+          id: { type: ['string', 'integer'] },
+          manager: { anyOf: [{ $ref: '#/components/schemas/User' }, { type: 'null' }] },
+        },
+      });
+      spec.openapi = '3.1.0';
+
+      const { spec: converted } = converter.convert(spec, '3.0');
+      const schema = converted.paths['/users'].get.responses['200'].content!['application/json'].schema;
+
+      expect(converted.openapi).toBe('3.0.3');
+      expect(schema.$schema).toBeUndefined();
+      expect(schema.properties).toEqual({
+        name: { type: 'string', nullable: true, example: 'Ada' },
+        kind: { enum: ['user'] },
+        score: { type: 'number', maximum: 100, exclusiveMaximum: true },
+        id: { anyOf: [{ type: 'string' }, { type: 'integer' }] },
+        manager: { allOf: [{ $ref: '#/components/schemas/User' }], nullable: true },
+      });
+    });
+
+    it('should drop 3.1-only constructs with warnings', () => {
+      const spec = createSpec(
+        { type: 'array', prefixItems: [{ type: 'string' }] },
+        {
+          openapi: '3.1.0',
+          jsonSchemaDialect: 'https://spec.openapis.org/oas/3.1/dialect/base',
+          webhooks: { newUser: { post: { responses: { '200': { description: 'OK' } } } } },
+        }
+      );
+
+      const { spec: converted, warnings } = converter.convert(spec, '3.0');
+
+      expect(converted.webhooks).toBeUndefined();
+      expect(converted.jsonSchemaDialect).toBeUndefined();
+      expect(warnings).toEqual([
+        'Removed 1 webhook(s): webhooks require OpenAPI 3.1',
+        'Removed jsonSchemaDialect: OpenAPI 3.0 always uses its own schema dialect',
+        "Removed prefixItems at #/paths/~1users/get/responses/200/content/application~1json/schema: not supported in OpenAPI 3.0",
+      ]);
+    });
+
+    it('should round-trip 3.0 schemas through 3.1', () => {
+      const schema: OpenAPISchema = {
+        type: 'object',
+        properties: {
+          name: { type: 'string', nullable: true, example: 'Ada' },
+          age: { type: 'integer', minimum: 0, exclusiveMinimum: true },
+          owner: { allOf: [{ $ref: '#/components/schemas/User' }], nullable: true },
+        },
+      };
+
+      const upgraded = converter.convertSchema(schema, '3.1');
+      expect(converter.convertSchema(upgraded, '3.0')).toEqual(schema);
+    });
+  });
+
+  it('should detect the version of a spec', () => {
+    expect(SpecVersionConverter.detectVersion({ openapi: '3.0.3' })).toBe('3.0');
+    expect(SpecVersionConverter.detectVersion({ openapi: '3.1.0' })).toBe('3.1');
+    expect(SpecVersionConverter.detectVersion({ swagger: '2.0' })).toBeNull();
+  });
+});
@@ -0,0 +1,416 @@
+import type { OpenAPISpec, OpenAPISchema } from '../types';
+
+/**
+ * SpecVersionConverter rewrites a spec between the OpenAPI 3.0 and 3.1 schema dialects.
+ *
+ * Upgrading to 3.1 (JSON Schema 2020-12):
+ * - nullable → 'null' in a type array (or an extra { type: 'null' } branch)
+ * - example → examples array
+ * - boolean exclusiveMinimum/exclusiveMaximum → numeric bounds
+ *
+ * Downgrading to 3.0 reverses these and drops what 3.0 cannot express
+ * (webhooks, jsonSchemaDialect, const, $schema, prefixItems, ...), reporting each drop as a warning.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type OpenAPIVersionTarget = '3.0' | '3.1';
+
+export interface SpecConversionResult {
+  /** Converted copy of the spec; the input is never modified */
+  spec: OpenAPISpec;
+  /** Constructs that were dropped or approximated */
+  warnings: string[];
+}
+
+/** Version written to `openapi` for each target */
+export const OPENAPI_VERSIONS: Record<OpenAPIVersionTarget, string> = {
+  '3.0': '3.0.3',
+  '3.1': '3.1.0',
+};
+
+/** Subschema keywords holding a single schema */
+const SCHEMA_KEYWORDS = [
+  'items',
+  'additionalProperties',
+  'not',
+  'if',
+  'then',
+  'else',
+  'contains',
+  'propertyNames',
+  'unevaluatedItems',
+  'unevaluatedProperties',
+  'contentSchema',
+];
+
+/** Subschema keywords holding an array of schemas */
+const SCHEMA_ARRAY_KEYWORDS = ['allOf', 'anyOf', 'oneOf', 'prefixItems'];
+
+/** Subschema keywords holding a map of schemas */
+const SCHEMA_MAP_KEYWORDS = ['properties', 'patternProperties', '$defs', 'definitions', 'dependentSchemas'];
+
+/** JSON Schema keywords with no OpenAPI 3.0 equivalent */
+const UNSUPPORTED_IN_30 = [
+  'prefixItems',
+  'if',
+  'then',
+  'else',
+  'contains',
+  'minContains',
+  'maxContains',
+  'propertyNames',
+  'patternProperties',
+  'dependentRequired',
+  'dependentSchemas',
+  'unevaluatedItems',
+  'unevaluatedProperties',
+  '$defs',
+  '$anchor',
+  '$dynamicRef',
+  '$dynamicAnchor',
+  'contentSchema',
+];
+
+/** Keywords that stay on the outer schema when a $ref or composition is wrapped */
+const ANNOTATION_KEYWORDS = new Set(['title', 'description', 'default', 'examples', 'readOnly', 'writeOnly', 'deprecated']);
+
+// ============================================================================
+// SpecVersionConverter
+// ============================================================================
+
+export class SpecVersionConverter {
+  private warnings: string[] = [];
+
+  /**
+   * Return a copy of the spec converted to the target OpenAPI version
+   */
+  convert(spec: OpenAPISpec, target: OpenAPIVersionTarget): SpecConversionResult {
+    this.warnings = [];
+    const converted: any = JSON.parse(JSON.stringify(spec));
+    converted.openapi = OPENAPI_VERSIONS[target];
+
+    if (target === '3.0') {
+      this.downgradeDocument(converted);
+    }
+
+    this.visitDocument(converted, target, []);
+
+    return { spec: converted, warnings: this.warnings };
+  }
+
+  /**
+   * Convert a single schema to the target dialect
+   */
+  convertSchema(schema: OpenAPISchema, target: OpenAPIVersionTarget): OpenAPISchema {
+    const copy = JSON.parse(JSON.stringify(schema));
+    return target === '3.1' ? this.upgradeSchema(copy) : this.downgradeSchema(copy, '#');
+  }
+
+  /**
+   * Detect the target a spec is written for from its `openapi` field
+   */
+  static detectVersion(spec: { openapi?: string; swagger?: string }): OpenAPIVersionTarget | null {
+    if (typeof spec.openapi !== 'string') return null;
+    if (spec.openapi.startsWith('3.1')) return '3.1';
+    if (spec.openapi.startsWith('3.0')) return '3.0';
+    return null;
+  }
+
+  // ==========================================================================
+  // Document walking
+  // ==========================================================================
+
+  /**
+   * Convert every schema in the document: components.schemas plus every `schema` field
+   * of parameters, headers and media types (paths, webhooks, callbacks and components).
+   */
+  private visitDocument(node: any, target: OpenAPIVersionTarget, location: string[]): void {
+    if (!node || typeof node !== 'object') return;
+
+    for (const key of Object.keys(node)) {
+      const value = node[key];
+      if (!value || typeof value !== 'object') continue;
+      // Example values and extensions are user data, not spec structure
+      if (key === 'example' || key === 'examples' || key.startsWith('x-')) continue;
+
+      const path = [...location, key];
+      if (key === 'schema' && !Array.isArray(value)) {
+        node[key] = this.convertAt(value, target, path);
+      } else if (key === 'schemas' && location.length === 1 && location[0] === 'components') {
+        for (const name of Object.keys(value)) {
+          value[name] = this.convertAt(value[name], target, [...path, name]);
+        }
+      } else {
+        this.visitDocument(value, target, path);
+      }
+    }
+  }
+
+  private convertAt(schema: any, target: OpenAPIVersionTarget, path: string[]): any {
+    return target === '3.1' ? this.upgradeSchema(schema) : this.downgradeSchema(schema, pointer(path));
+  }
+
+  private downgradeDocument(spec: any): void {
+    if (spec.webhooks) {
+      this.warn(`Removed ${Object.keys(spec.webhooks).length} webhook(s): webhooks require OpenAPI 3.1`);
+      delete spec.webhooks;
+    }
+    if (spec.jsonSchemaDialect !== undefined) {
+      this.warn('Removed jsonSchemaDialect: OpenAPI 3.0 always uses its own schema dialect');
+      delete spec.jsonSchemaDialect;
+    }
+    if (spec.info?.summary !== undefined) {
+      this.warn('Removed info.summary: not supported in OpenAPI 3.0');
+      delete spec.info.summary;
+    }
+    if (spec.info?.license?.identifier !== undefined) {
+      this.warn('Removed info.license.identifier: not supported in OpenAPI 3.0');
+      delete spec.info.license.identifier;
+    }
+    if (spec.components?.pathItems) {
+      this.warn('Removed components.pathItems: not supported in OpenAPI 3.0');
+      delete spec.components.pathItems;
+    }
+    for (const [name, scheme] of Object.entries<any>(spec.components?.securitySchemes || {})) {
+      if (scheme?.type === 'mutualTLS') {
+        this.warn(`Removed security scheme ${name}: mutualTLS requires OpenAPI 3.1`);
+        delete spec.components.securitySchemes[name];
+      }
+    }
+    // paths is optional in 3.1 but required in 3.0
+    if (!spec.paths) spec.paths = {};
+  }
+
+  // ==========================================================================
+  // 3.0 → 3.1
+  // ==========================================================================
+
+  private upgradeSchema(schema: any): any {
+    if (!schema || typeof schema !== 'object' || Array.isArray(schema)) return schema;
+
+    this.eachSubschema(schema, (child) => this.upgradeSchema(child));
+
+    if ('example' in schema) {
+      if (schema.examples === undefined) schema.examples = [schema.example];
+      delete schema.example;
+    }
+
+    for (const [bound, limit] of [['exclusiveMinimum', 'minimum'], ['exclusiveMaximum', 'maximum']] as const) {
+      if (schema[bound] === true && typeof schema[limit] === 'number') {
+        schema[bound] = schema[limit];
+        delete schema[limit];
+      } else if (typeof schema[bound] === 'boolean') {
+        delete schema[bound];
+      }
+    }
+
+    const nullable = schema.nullable === true;
+    delete schema.nullable;
+    return nullable ? this.makeNullable(schema) : schema;
+  }
+
+  private makeNullable(schema: any): any {
+    if (Array.isArray(schema.enum) && !schema.enum.includes(null)) {
+      schema.enum.push(null);
+    }
+
+    if (typeof schema.type === 'string') {
+      schema.type = schema.type === 'null' ? 'null' : [schema.type, 'null'];
+      return schema;
+    }
+    if (Array.isArray(schema.type)) {
+      if (!schema.type.includes('null')) schema.type.push('null');
+      return schema;
+    }
+    if (Array.isArray(schema.enum)) {
+      // { nullable: true, enum: [null] } is the 3.0 spelling of the null type
+      if (schema.enum.length === 1) {
+        delete schema.enum;
+        schema.type = 'null';
+      }
+      return schema;
+    }
+
+    for (const keyword of ['oneOf', 'anyOf']) {
+      if (Array.isArray(schema[keyword]) && schema.$ref === undefined) {
+        if (!schema[keyword].some(isNullSchema)) schema[keyword].push({ type: 'null' });
+        return schema;
+      }
+    }
+
+    // $ref, allOf or an untyped schema: wrap it in an anyOf with a null branch
+    const outer: any = {};
+    let inner: any = {};
+    for (const [key, value] of Object.entries(schema)) {
+      if (ANNOTATION_KEYWORDS.has(key)) outer[key] = value;
+      else inner[key] = value;
+    }
+    if (Object.keys(inner).length === 0) return schema;
+    if (Array.isArray(inner.allOf) && inner.allOf.length === 1 && Object.keys(inner).length === 1) {
+      inner = inner.allOf[0];
+    }
+    return { ...outer, anyOf: [inner, { type: 'null' }] };
+  }
+
+  // ==========================================================================
+  // 3.1 → 3.0
+  // ==========================================================================
+
+  private downgradeSchema(schema: any, location: string): any {
+    if (!schema || typeof schema !== 'object' || Array.isArray(schema)) return schema;
+
+    this.eachSubschema(schema, (child, key) => this.downgradeSchema(child, `${location}/${key}`));
+
+    for (const keyword of ['$schema', '$id', '$comment']) {
+      delete schema[keyword];
+    }
+
+    if (typeof schema.contentEncoding === 'string') {
+      if (schema.contentEncoding === 'base64' && !schema.format) schema.format = 'byte';
+      delete schema.contentEncoding;
+    }
+    if (typeof schema.contentMediaType === 'string') {
+      if (schema.type === 'string' && !schema.format) schema.format = 'binary';
+      delete schema.contentMediaType;
+    }
+
+    for (const keyword of UNSUPPORTED_IN_30) {
+      if (schema[keyword] !== undefined) {
+        this.warn(`Removed ${keyword} at ${location}: not supported in OpenAPI 3.0`);
+        delete schema[keyword];
+      }
+    }
+
+    if ('const' in schema) {
+      if (schema.enum === undefined) schema.enum = [schema.const];
+      delete schema.const;
+    }
+
+    if (Array.isArray(schema.examples)) {
+      if (schema.example === undefined && schema.examples.length > 0) schema.example = schema.examples[0];
+      delete schema.examples;
+    }
+
+    for (const [bound, limit] of [['exclusiveMinimum', 'minimum'], ['exclusiveMaximum', 'maximum']] as const) {
+      if (typeof schema[bound] !== 'number') continue;
+      const current = schema[limit];
+      const stricter = typeof current !== 'number' || (bound === 'exclusiveMinimum' ? schema[bound] >= current : schema[bound] <= current);
+      if (stricter) {
+        schema[limit] = schema[bound];
+        schema[bound] = true;
+      } else {
+        delete schema[bound];
+      }
+    }
+
+    let nullable = false;
+
+    if (Array.isArray(schema.type)) {
+      const types = schema.type.filter((type: string) => type !== 'null');
+      nullable = types.length < schema.type.length;
+      if (types.length === 1) {
+        schema.type = types[0];
+      } else {
+        delete schema.type;
+        if (types.length > 1) {
+          schema.anyOf = [...types.map((type: string) => ({ type })), ...(schema.anyOf || [])];
+        }
+      }
+    }
+    if (schema.type === 'null') {
+      delete schema.type;
+      nullable = true;
+      if (schema.enum === undefined && schema.anyOf === undefined) schema.enum = [null];
+    }
+
+    for (const keyword of ['anyOf', 'oneOf']) {
+      if (!Array.isArray(schema[keyword]) || !schema[keyword].some(isDowngradedNull)) continue;
+      nullable = true;
+      const branches = schema[keyword].filter((branch: any) => !isDowngradedNull(branch));
+      if (branches.length === 1) {
+        delete schema[keyword];
+        const [branch] = branches;
+        if (branch.$ref !== undefined) {
+          schema.allOf = [...(schema.allOf || []), branch];
+        } else {
+          for (const [key, value] of Object.entries(branch)) {
+            if (schema[key] === undefined) schema[key] = value;
+          }
+        }
+      } else {
+        schema[keyword] = branches;
+      }
+    }
+
+    if (nullable) {
+      schema.nullable = true;
+      if (Array.isArray(schema.enum) && !schema.enum.includes(null)) schema.enum.push(null);
+    }
+
+    // 3.0 ignores every sibling of $ref
+    if (schema.$ref !== undefined && Object.keys(schema).length > 1) {
+      const { $ref, ...siblings } = schema;
+      const onlyAnnotations = Object.keys(siblings).every((key) => key === 'description' || key === 'summary');
+      if (!onlyAnnotations) {
+        return { ...siblings, allOf: [{ $ref }, ...(siblings.allOf || [])] };
+      }
+    }
+
+    return schema;
+  }
+
+  // ==========================================================================
+  // Helpers
+  // ==========================================================================
+
+  /**
+   * Replace every direct subschema with the visitor's result
+   */
+  private eachSubschema(schema: any, visit: (child: any, key: string) => any): void {
+    for (const keyword of SCHEMA_KEYWORDS) {
+      const value = schema[keyword];
+      if (Array.isArray(value)) {
+        schema[keyword] = value.map((child, index) => visit(child, `${keyword}/${index}`));
+      } else if (value && typeof value === 'object') {
+        schema[keyword] = visit(value, keyword);
+      }
+    }
+    for (const keyword of SCHEMA_ARRAY_KEYWORDS) {
+      if (Array.isArray(schema[keyword])) {
+        schema[keyword] = schema[keyword].map((child: any, index: number) => visit(child, `${keyword}/${index}`));
+      }
+    }
+    for (const keyword of SCHEMA_MAP_KEYWORDS) {
+      const value = schema[keyword];
+      if (value && typeof value === 'object' && !Array.isArray(value)) {
+        for (const name of Object.keys(value)) {
+          value[name] = visit(value[name], `${keyword}/${escapePointer(name)}`);
+        }
+      }
+    }
+  }
+
+  private warn(message: string): void {
+    this.warnings.push(message);
+  }
+}
+
+function isNullSchema(schema: any): boolean {
+  return schema?.type === 'null' && Object.keys(schema).length === 1;
+}
+
+/** A { type: 'null' } branch after its own downgrade */
+function isDowngradedNull(schema: any): boolean {
+  return !!schema && schema.nullable === true && Array.isArray(schema.enum) && schema.enum.length === 1 && schema.enum[0] === null && Object.keys(schema).length === 2;
+}
+
+function escapePointer(segment: string): string {
+  return segment.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function pointer(path: string[]): string {
+  return `#/${path.map(escapePointer).join('/')}`;
+}
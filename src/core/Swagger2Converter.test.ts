@@ -0,0 +1,230 @@
+import { describe, it, expect } from 'vitest';
+import { Swagger2Converter, type SwaggerSpec } from './Swagger2Converter';
+import type { OpenAPISpec } from '../types';
+
+const openapi: OpenAPISpec = {
+  openapi: '3.1.0',
+  info: { title: 'Pets', version: '1.0.0' },
+  servers: [{ url: 'https://api.example.com/v1' }, { url: 'http://api.example.com/v1' }],
+  paths: {
+    '/pets': {
+      get: {
+        operationId: 'listPets',
+        parameters: [
+          { name: 'tags', in: 'query', schema: { type: 'array', items: { type: 'string' } } } as any,
+          { name: 'session', in: 'cookie', schema: { type: 'string' } },
+        ],
+        responses: {
+          '200': {
+            description: 'Pets',
+            content: { 'application/json': { schema: { type: 'array', items: { $ref: '#/components/schemas/Pet' } } } },
+          },
+        },
+      },
+      post: {
+        operationId: 'createPet',
+        requestBody: {
+          required: true,
+          content: { 'application/json': { schema: { $ref: '#/components/schemas/Pet' } } },
+        },
+        responses: {
+          '201': { description: 'Created', content: { 'application/json': { schema: { $ref: '#/components/schemas/Pet' } } } },
+        },
+        security: [{ bearerAuth: [] }],
+      },
+    },
+    '/pets/{id}/photo': {
+      put: {
+        operationId: 'uploadPhoto',
+        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'integer' } }],
+        requestBody: {
+          content: {
+            'multipart/form-data': {
+              schema: {
+                type: 'object',
+                properties: { file: { type: 'string', format: 'binary' }, caption: { type: 'string' } },
+                required: ['file'],
+              },
+            },
+          },
+        },
+        responses: { '204': { description: 'Uploaded' } },
+      },
+    },
+  },
+  components: {
+    schemas: {
+      Pet: {
+        type: 'object',
+        properties: { id: { type: 'integer' }, name: { type: ['string', 'null'] } as any },
+        required: ['id'],
+      },
+    },
+    securitySchemes: {
+      bearerAuth: { type: 'http', scheme: 'bearer' },
+      basicAuth: { type: 'http', scheme: 'basic' },
+    },
+  },
+};
+
+describe('Swagger2Converter', () => {
+  const converter = new Swagger2Converter();
+
+  describe('toSwagger2', () => {
+    const { spec: swagger, warnings } = converter.toSwagger2(openapi);
+
+    it('should map servers to host, basePath and schemes', () => {
+      expect(swagger.swagger).toBe('2.0');
+      expect(swagger.host).toBe('api.example.com');
+      expect(swagger.basePath).toBe('/v1');
+      expect(swagger.schemes).toEqual(['https', 'http']);
+    });
+
+    it('should move components to definitions and rewrite references', () => {
+      expect(swagger.definitions!.Pet.properties.name).toEqual({ type: 'string', 'x-nullable': true });
+      expect(swagger.paths['/pets'].get.responses['200'].schema).toEqual({
+        type: 'array',
+        items: { $ref: '#/definitions/Pet' },
+      });
+    });
+
+    it('should convert request bodies to body and formData parameters', () => {
+      expect(swagger.paths['/pets'].post.parameters).toEqual([
+        { in: 'body', name: 'body', required: true, schema: { $ref: '#/definitions/Pet' } },
+      ]);
+      expect(swagger.paths['/pets/{id}/photo'].put.parameters).toEqual([
+        { name: 'id', in: 'path', required: true, type: 'integer' },
+        { name: 'file', in: 'formData', required: true, type: 'file' },
+        { name: 'caption', in: 'formData', type: 'string' },
+      ]);
+      expect(swagger.paths['/pets/{id}/photo'].put.consumes).toEqual(['multipart/form-data']);
+    });
+
+    it('should derive collection formats and drop cookie parameters', () => {
+      expect(swagger.paths['/pets'].get.parameters).toEqual([
+        { name: 'tags', in: 'query', type: 'array', items: { type: 'string' }, collectionFormat: 'multi' },
+      ]);
+      expect(warnings).toContain('Removed cookie parameter session from GET /pets: not supported in Swagger 2.0');
+    });
+
+    it('should convert security schemes to securityDefinitions', () => {
+      expect(swagger.securityDefinitions).toEqual({
+        bearerAuth: { type: 'apiKey', name: 'Authorization', in: 'header' },
+        basicAuth: { type: 'basic' },
+      });
+    });
+
+    it('should hoist consumes and produces only when every operation shares them', () => {
+      expect(swagger.paths['/pets'].get.produces).toEqual(['application/json']);
+      expect(swagger.produces).toBeUndefined();
+
+      const single = converter.toSwagger2({ ...openapi, paths: { '/pets': { get: openapi.paths['/pets'].get } } }).spec;
+      expect(single.produces).toEqual(['application/json']);
+      expect(single.paths['/pets'].get.produces).toBeUndefined();
+      expect(Object.keys(single).indexOf('produces')).toBeLessThan(Object.keys(single).indexOf('paths'));
+    });
+  });
+
+  describe('fromSwagger2', () => {
+    const swagger: SwaggerSpec = {
+      swagger: '2.0',
+      info: { title: 'Legacy', version: '2.1.0' },
+      host: 'legacy.example.com',
+      basePath: '/api',
+      schemes: ['https'],
+      consumes: ['application/json'],
+      produces: ['application/json'],
+      paths: {
+        '/users': {
+          parameters: [{ $ref: '#/parameters/Limit' }],
+          get: {
+            responses: {
+              '200': {
+                description: 'Users',
+                schema: { type: 'array', items: { $ref: '#/definitions/User' } },
+                headers: { 'X-Total': { type: 'integer' } },
+              },
+            },
+          },
+          post: {
+            parameters: [{ in: 'body', name: 'user', required: true, schema: { $ref: '#/definitions/User' } }],
+            responses: { '201': { description: 'Created' } },
+          },
+        },
+        '/avatar': {
+          post: {
+            consumes: ['multipart/form-data'],
+            parameters: [
+              { in: 'formData', name: 'image', type: 'file', required: true },
+              { in: 'query', name: 'ids', type: 'array', items: { type: 'integer' }, collectionFormat: 'csv' },
+            ],
+            responses: { '204': { description: 'Saved' } },
+          },
+        },
+      },
+      definitions: {
+        User: { type: 'object', properties: { nickname: { type: 'string', 'x-nullable': true } }, discriminator: 'kind' },
+      },
+      parameters: { Limit: { in: 'query', name: 'limit', type: 'integer' } },
+      securityDefinitions: {
+        oauth: { type: 'oauth2', flow: 'accessCode', authorizationUrl: 'https://a', tokenUrl: 'https://t', scopes: { read: 'Read' } },
+      },
+    };
+    const { spec } = converter.fromSwagger2(swagger);
+
+    it('should build servers and components', () => {
+      expect(spec.openapi).toBe('3.0.3');
+      expect(spec.servers).toEqual([{ url: 'https://legacy.example.com/api' }]);
+      expect(spec.components!.schemas!.User).toEqual({
+        type: 'object',
+        properties: { nickname: { type: 'string', nullable: true } },
+        discriminator: { propertyName: 'kind' },
+      });
+      expect((spec.components as any).parameters.Limit).toEqual({ name: 'limit', in: 'query', schema: { type: 'integer' } });
+      expect((spec.components!.securitySchemes as any).oauth).toEqual({
+        type: 'oauth2',
+        flows: { authorizationCode: { scopes: { read: 'Read' }, authorizationUrl: 'https://a', tokenUrl: 'https://t' } },
+      });
+    });
+
+    it('should convert body and formData parameters to request bodies', () => {
+      expect(spec.paths['/users'].post.requestBody).toEqual({
+        required: true,
+        'x-codegen-request-body-name': 'user',
+        content: { 'application/json': { schema: { $ref: '#/components/schemas/User' } } },
+      });
+      expect(spec.paths['/avatar'].post.requestBody).toEqual({
+        required: true,
+        content: {
+          'multipart/form-data': {
+            schema: { type: 'object', properties: { image: { type: 'string', format: 'binary' } }, required: ['image'] },
+          },
+        },
+      });
+      expect(spec.paths['/avatar'].post.parameters).toEqual([
+        { name: 'ids', in: 'query', style: 'form', explode: false, schema: { type: 'array', items: { type: 'integer' } } },
+      ]);
+    });
+
+    it('should convert responses with produces and headers', () => {
+      const response = spec.paths['/users'].get.responses['200'] as any;
+
+      expect(response.content['application/json'].schema.items).toEqual({ $ref: '#/components/schemas/User' });
+      expect(response.headers['X-Total']).toEqual({ schema: { type: 'integer' } });
+      expect((spec.paths['/users'] as any).parameters).toEqual([{ $ref: '#/components/parameters/Limit' }]);
+    });
+
+    it('should round-trip exported specs', () => {
+      const exported = converter.toSwagger2(spec).spec;
+
+      expect(exported.paths['/users'].post.parameters).toEqual(swagger.paths['/users'].post.parameters);
+      expect(exported.definitions).toEqual(swagger.definitions);
+      expect(exported.securityDefinitions).toEqual(swagger.securityDefinitions);
+    });
+  });
+
+  it('should detect Swagger 2.0 documents', () => {
+    expect(Swagger2Converter.isSwagger2({ swagger: '2.0' })).toBe(true);
+    expect(Swagger2Converter.isSwagger2({ openapi: '3.0.3' })).toBe(false);
+  });
+});
@@ -0,0 +1,804 @@
+import type { OpenAPISpec } from '../types';
+import { SpecVersionConverter } from './SpecVersionConverter';
+
+/**
+ * Swagger2Converter translates between Swagger 2.0 and OpenAPI 3.x documents.
+ *
+ * Export (3.x → 2.0) maps servers to host/basePath/schemes, request bodies to body or
+ * formData parameters, media types to consumes/produces, components to definitions,
+ * parameters and responses, and security schemes to securityDefinitions.
+ * Import (2.0 → 3.0) reverses the mapping. Anything without an equivalent is reported as a warning.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SwaggerSpec {
+  swagger: '2.0';
+  info: { title: string; version: string; [key: string]: unknown };
+  host?: string;
+  basePath?: string;
+  schemes?: string[];
+  consumes?: string[];
+  produces?: string[];
+  paths: Record<string, Record<string, any>>;
+  definitions?: Record<string, any>;
+  parameters?: Record<string, any>;
+  responses?: Record<string, any>;
+  securityDefinitions?: Record<string, any>;
+  security?: Array<Record<string, string[]>>;
+  tags?: Array<{ name: string; description?: string }>;
+  externalDocs?: { url: string; description?: string };
+  [extension: `x-${string}`]: unknown;
+}
+
+export interface Swagger2ConversionResult<T> {
+  spec: T;
+  /** Constructs that were dropped or approximated */
+  warnings: string[];
+}
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch'];
+const FORM_MEDIA_TYPES = ['application/x-www-form-urlencoded', 'multipart/form-data'];
+const DEFAULT_MEDIA_TYPE = 'application/json';
+
+/** Keeps the name of a Swagger 2.0 body parameter, which has no place in an OpenAPI 3 request body */
+const BODY_NAME_EXTENSION = 'x-codegen-request-body-name';
+
+/** Schema keywords allowed directly on non-body Swagger 2.0 parameters and headers */
+const SIMPLE_SCHEMA_KEYWORDS = [
+  'type',
+  'format',
+  'items',
+  'default',
+  'maximum',
+  'exclusiveMaximum',
+  'minimum',
+  'exclusiveMinimum',
+  'maxLength',
+  'minLength',
+  'pattern',
+  'maxItems',
+  'minItems',
+  'uniqueItems',
+  'enum',
+  'multipleOf',
+];
+
+const COLLECTION_FORMATS: Record<string, string> = {
+  spaceDelimited: 'ssv',
+  pipeDelimited: 'pipes',
+};
+
+const OAUTH2_FLOWS: Record<string, string> = {
+  implicit: 'implicit',
+  password: 'password',
+  clientCredentials: 'application',
+  authorizationCode: 'accessCode',
+};
+
+// ============================================================================
+// Swagger2Converter
+// ============================================================================
+
+export class Swagger2Converter {
+  private warnings: string[] = [];
+  /** Document being exported, for resolving $refs that Swagger 2.0 parameters cannot hold */
+  private source: any = {};
+
+  /**
+   * Detect Swagger 2.0 documents
+   */
+  static isSwagger2(spec: unknown): spec is SwaggerSpec {
+    // Unquoted `swagger: 2.0` in YAML loads as the number 2
+    return !!spec && typeof spec === 'object' && /^2(\.0)?$/.test(String((spec as any).swagger));
+  }
+
+  // ==========================================================================
+  // OpenAPI 3.x → Swagger 2.0
+  // ==========================================================================
+
+  /**
+   * Return a Swagger 2.0 copy of an OpenAPI 3.0 or 3.1 spec
+   */
+  toSwagger2(spec: OpenAPISpec): Swagger2ConversionResult<SwaggerSpec> {
+    // 2.0 schemas are a subset of the 3.0 dialect, so downgrade 3.1 constructs first
+    const downgrade = new SpecVersionConverter().convert(spec, '3.0');
+    this.warnings = [...downgrade.warnings];
+    const source: any = downgrade.spec;
+    this.source = source;
+    const components = source.components || {};
+
+    const result: any = { swagger: '2.0', info: source.info };
+    Object.assign(result, this.serversToHost(source.servers || []));
+
+    const operations: Array<{ consumes?: string[]; produces?: string[] }> = [];
+    // Reserve the root consumes/produces slots ahead of paths; hoistMediaTypes removes unused ones
+    result.consumes = undefined;
+    result.produces = undefined;
+    result.paths = {};
+    for (const [route, pathItem] of Object.entries<any>(source.paths || {})) {
+      const item: any = {};
+      for (const [key, value] of Object.entries<any>(pathItem)) {
+        if (HTTP_METHODS.includes(key)) {
+          item[key] = this.operationToSwagger2(value, source, `${key.toUpperCase()} ${route}`);
+          operations.push(item[key]);
+        } else if (key === 'parameters') {
+          item.parameters = this.parametersToSwagger2(value, source, route);
+        } else if (key === 'trace' || key === 'servers') {
+          this.warn(`Removed ${key} from ${route}: not supported in Swagger 2.0`);
+        } else if (key !== 'summary' && key !== 'description') {
+          item[key] = value;
+        }
+      }
+      result.paths[route] = item;
+    }
+    this.hoistMediaTypes(result, operations);
+
+    if (components.schemas && Object.keys(components.schemas).length > 0) {
+      result.definitions = {};
+      for (const [name, schema] of Object.entries<any>(components.schemas)) {
+        result.definitions[name] = this.schemaToSwagger2(schema, `#/components/schemas/${name}`);
+      }
+    }
+    if (components.parameters) {
+      result.parameters = {};
+      for (const [name, parameter] of Object.entries<any>(components.parameters)) {
+        result.parameters[name] = this.parameterToSwagger2(parameter, `#/components/parameters/${name}`);
+      }
+    }
+    if (components.responses) {
+      result.responses = {};
+      for (const [name, response] of Object.entries<any>(components.responses)) {
+        result.responses[name] = this.responseToSwagger2(response, source, `#/components/responses/${name}`).response;
+      }
+    }
+    // requestBodies and headers are inlined where they are used
+    for (const key of ['examples', 'links', 'callbacks']) {
+      if (components[key]) this.warn(`Removed components.${key}: not supported in Swagger 2.0`);
+    }
+
+    const securityDefinitions = this.securitySchemesToSwagger2(components.securitySchemes || {});
+    if (Object.keys(securityDefinitions).length > 0) result.securityDefinitions = securityDefinitions;
+    if (source.security) result.security = source.security;
+    if (source.tags && source.tags.length > 0) result.tags = source.tags;
+    if (source.externalDocs) result.externalDocs = source.externalDocs;
+    copyExtensions(source, result);
+
+    return { spec: rewriteRefs(result, swagger2RefMap) as SwaggerSpec, warnings: this.warnings };
+  }
+
+  private serversToHost(servers: any[]): Partial<SwaggerSpec> {
+    if (servers.length === 0) return {};
+
+    const urls = servers.map((server) => expandServerUrl(server));
+    const parsed = urls.map((url) => {
+      const match = url.match(/^([a-z][a-z0-9+.-]*):\/\/([^/]+)(\/.*)?$/i);
+      return match
+        ? { scheme: match[1].toLowerCase(), host: match[2], basePath: match[3] }
+        : { scheme: undefined, host: undefined, basePath: url };
+    });
+    const [first] = parsed;
+    const sameLocation = parsed.filter((entry) => entry.host === first.host && entry.basePath === first.basePath);
+    if (sameLocation.length < parsed.length) {
+      this.warn(`Kept the first of ${servers.length} servers: Swagger 2.0 supports a single host and basePath`);
+    }
+
+    const result: Partial<SwaggerSpec> = {};
+    if (first.host) result.host = first.host;
+    const basePath = (first.basePath || '').replace(/\/+$/, '');
+    if (basePath) result.basePath = basePath.startsWith('/') ? basePath : `/${basePath}`;
+    const schemes = [...new Set(sameLocation.map((entry) => entry.scheme).filter(Boolean))] as string[];
+    if (schemes.length > 0) result.schemes = schemes;
+    return result;
+  }
+
+  private operationToSwagger2(operation: any, spec: any, where: string): any {
+    const result: any = {};
+    for (const key of ['tags', 'summary', 'description', 'externalDocs', 'operationId', 'deprecated', 'security']) {
+      if (operation[key] !== undefined) result[key] = operation[key];
+    }
+
+    const parameters = this.parametersToSwagger2(operation.parameters || [], spec, where);
+
+    if (operation.requestBody) {
+      const requestBody = resolveLocalRef(spec, operation.requestBody);
+      const mediaTypes = Object.keys(requestBody.content || {});
+      const formType = mediaTypes.find((type) => FORM_MEDIA_TYPES.includes(type));
+
+      if (formType) {
+        parameters.push(...this.formParameters(requestBody.content[formType].schema, spec, formType, where));
+        result.consumes = [formType];
+      } else if (mediaTypes.length > 0) {
+        const mediaType = preferJson(mediaTypes);
+        const name = requestBody[BODY_NAME_EXTENSION] || 'body';
+        const body: any = { in: 'body', name, required: !!requestBody.required };
+        if (requestBody.description) body.description = requestBody.description;
+        body.schema = this.schemaToSwagger2(requestBody.content[mediaType].schema || {}, `${where} request body`);
+        parameters.push(body);
+        result.consumes = mediaTypes;
+      }
+    }
+    if (parameters.length > 0) result.parameters = parameters;
+
+    const produces = new Set<string>();
+    result.responses = {};
+    for (const [status, response] of Object.entries<any>(operation.responses || {})) {
+      const converted = this.responseToSwagger2(response, spec, `${where} ${status}`);
+      converted.mediaTypes.forEach((type) => produces.add(type));
+      result.responses[status] = converted.response;
+    }
+    if (produces.size > 0) result.produces = [...produces];
+
+    if (operation.callbacks) this.warn(`Removed callbacks from ${where}: not supported in Swagger 2.0`);
+    if (operation.servers) this.warn(`Removed servers from ${where}: not supported in Swagger 2.0`);
+    copyExtensions(operation, result);
+    return result;
+  }
+
+  private parametersToSwagger2(parameters: any[], spec: any, where: string): any[] {
+    const result: any[] = [];
+    for (const parameter of parameters) {
+      if (parameter.$ref) {
+        const target = resolveLocalRef(spec, parameter);
+        if (target?.in === 'cookie') {
+          this.warn(`Removed cookie parameter ${target.name} from ${where}: not supported in Swagger 2.0`);
+        } else {
+          result.push(parameter);
+        }
+        continue;
+      }
+      if (parameter.in === 'cookie') {
+        this.warn(`Removed cookie parameter ${parameter.name} from ${where}: not supported in Swagger 2.0`);
+        continue;
+      }
+      result.push(this.parameterToSwagger2(parameter, `${where} ${parameter.in}.${parameter.name}`));
+    }
+    return result;
+  }
+
+  private parameterToSwagger2(parameter: any, where: string): any {
+    const result: any = { name: parameter.name, in: parameter.in };
+    if (parameter.description) result.description = parameter.description;
+    if (parameter.required || parameter.in === 'path') result.required = true;
+    if (parameter.deprecated) this.warn(`Dropped deprecated flag of ${where}: not supported on Swagger 2.0 parameters`);
+
+    const schema = parameter.schema || firstMediaSchema(parameter.content) || { type: 'string' };
+    Object.assign(result, this.simpleSchema(schema, where));
+
+    if (result.type === 'array') {
+      const format = COLLECTION_FORMATS[parameter.style];
+      if (format) result.collectionFormat = format;
+      else if (parameter.in === 'query' && parameter.explode !== false) result.collectionFormat = 'multi';
+      else result.collectionFormat = 'csv';
+    }
+    if (parameter.allowEmptyValue) result.allowEmptyValue = true;
+    copyExtensions(parameter, result);
+    return result;
+  }
+
+  private formParameters(schema: any, spec: any, mediaType: string, where: string): any[] {
+    const resolved = resolveLocalRef(spec, schema || {});
+    const required: string[] = resolved.required || [];
+
+    return Object.entries<any>(resolved.properties || {}).map(([name, property]) => {
+      const propertySchema = resolveLocalRef(spec, property);
+      const parameter: any = { name, in: 'formData' };
+      if (propertySchema.description) parameter.description = propertySchema.description;
+      if (required.includes(name)) parameter.required = true;
+
+      if (propertySchema.type === 'string' && propertySchema.format === 'binary') {
+        parameter.type = 'file';
+        if (mediaType !== 'multipart/form-data') {
+          this.warn(`File field ${name} in ${where} requires multipart/form-data`);
+        }
+      } else {
+        Object.assign(parameter, this.simpleSchema(propertySchema, `${where} formData.${name}`));
+        if (parameter.type === 'array') parameter.collectionFormat = 'multi';
+      }
+      return parameter;
+    });
+  }
+
+  private responseToSwagger2(response: any, spec: any, where: string): { response: any; mediaTypes: string[] } {
+    if (response.$ref) return { response, mediaTypes: Object.keys(resolveLocalRef(spec, response)?.content || {}) };
+
+    const result: any = { description: response.description || '' };
+    const mediaTypes = Object.keys(response.content || {});
+
+    if (mediaTypes.length > 0) {
+      const media = response.content[preferJson(mediaTypes)];
+      if (media.schema) result.schema = this.schemaToSwagger2(media.schema, `${where} response`);
+
+      const examples: Record<string, unknown> = {};
+      for (const type of mediaTypes) {
+        const example = response.content[type].example ?? firstExampleValue(response.content[type].examples);
+        if (example !== undefined) examples[type] = example;
+      }
+      if (Object.keys(examples).length > 0) result.examples = examples;
+    }
+
+    if (response.headers) {
+      result.headers = {};
+      for (const [name, header] of Object.entries<any>(response.headers)) {
+        const resolved = resolveLocalRef(spec, header);
+        const converted: any = this.simpleSchema(resolved.schema || { type: 'string' }, `${where} header ${name}`);
+        if (resolved.description) converted.description = resolved.description;
+        result.headers[name] = converted;
+      }
+    }
+    if (response.links) this.warn(`Removed links from ${where}: not supported in Swagger 2.0`);
+    copyExtensions(response, result);
+
+    return { response: result, mediaTypes };
+  }
+
+  /**
+   * Flatten a schema into the keywords allowed on non-body parameters and headers
+   */
+  private simpleSchema(schema: any, where: string): any {
+    schema = resolveLocalRef(this.source, schema);
+    if (schema.$ref || !schema.type || schema.type === 'object') {
+      this.warn(`Simplified ${where} to a string: Swagger 2.0 parameters cannot reference or hold objects`);
+      return { type: 'string' };
+    }
+
+    const result: any = {};
+    for (const keyword of SIMPLE_SCHEMA_KEYWORDS) {
+      if (schema[keyword] === undefined) continue;
+      result[keyword] = keyword === 'items' ? this.simpleSchema(schema.items, `${where}[]`) : schema[keyword];
+    }
+    if (schema.nullable) result['x-nullable'] = true;
+    return result;
+  }
+
+  private schemaToSwagger2(schema: any, where: string): any {
+    if (!schema || typeof schema !== 'object' || Array.isArray(schema)) return schema;
+
+    const result: any = {};
+    for (const [key, value] of Object.entries<any>(schema)) {
+      if (key === 'nullable') {
+        if (value) result['x-nullable'] = true;
+      } else if (key === 'oneOf' || key === 'anyOf') {
+        const branches = value.map((branch: any) => this.schemaToSwagger2(branch, where));
+        if (branches.length === 1) {
+          Object.assign(result, branches[0]);
+        } else {
+          this.warn(`Moved ${key} in ${where} to x-${key}: not supported in Swagger 2.0`);
+          result[`x-${key}`] = branches;
+        }
+      } else if (key === 'not' || key === 'writeOnly' || key === 'deprecated') {
+        this.warn(`Removed ${key} from ${where}: not supported in Swagger 2.0`);
+      } else if (key === 'discriminator') {
+        result.discriminator = typeof value === 'object' ? value.propertyName : value;
+      } else if (key === 'properties' && value && typeof value === 'object') {
+        result.properties = {};
+        for (const [name, property] of Object.entries<any>(value)) {
+          result.properties[name] = this.schemaToSwagger2(property, where);
+        }
+      } else if (key === 'items' || key === 'additionalProperties') {
+        result[key] = this.schemaToSwagger2(value, where);
+      } else if (key === 'allOf') {
+        result.allOf = value.map((branch: any) => this.schemaToSwagger2(branch, where));
+      } else {
+        result[key] = value;
+      }
+    }
+    return result;
+  }
+
+  private securitySchemesToSwagger2(schemes: Record<string, any>): Record<string, any> {
+    const result: Record<string, any> = {};
+
+    for (const [name, scheme] of Object.entries<any>(schemes)) {
+      const description = scheme.description ? { description: scheme.description } : {};
+
+      if (scheme.type === 'http' && scheme.scheme?.toLowerCase() === 'basic') {
+        result[name] = { type: 'basic', ...description };
+      } else if (scheme.type === 'http') {
+        // Swagger 2.0 has no bearer type; the Authorization header is the closest match
+        result[name] = { type: 'apiKey', name: 'Authorization', in: 'header', ...description };
+        this.warn(`Converted ${scheme.scheme || 'http'} security scheme ${name} to an Authorization header apiKey`);
+      } else if (scheme.type === 'apiKey' && scheme.in !== 'cookie') {
+        result[name] = { type: 'apiKey', name: scheme.name, in: scheme.in, ...description };
+      } else if (scheme.type === 'oauth2' && scheme.flows) {
+        const flowNames = Object.keys(scheme.flows).filter((flow) => OAUTH2_FLOWS[flow]);
+        if (flowNames.length === 0) continue;
+        if (flowNames.length > 1) {
+          this.warn(`Kept the ${flowNames[0]} flow of security scheme ${name}: Swagger 2.0 supports one flow per scheme`);
+        }
+        const flow = scheme.flows[flowNames[0]];
+        result[name] = {
+          type: 'oauth2',
+          flow: OAUTH2_FLOWS[flowNames[0]],
+          ...(flow.authorizationUrl ? { authorizationUrl: flow.authorizationUrl } : {}),
+          ...(flow.tokenUrl ? { tokenUrl: flow.tokenUrl } : {}),
+          scopes: flow.scopes || {},
+          ...description,
+        };
+      } else {
+        this.warn(`Removed security scheme ${name}: ${scheme.type}${scheme.in ? ` in ${scheme.in}` : ''} is not supported in Swagger 2.0`);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Move consumes/produces to the root when every operation agrees on them
+   */
+  private hoistMediaTypes(result: any, operations: Array<{ consumes?: string[]; produces?: string[] }>): void {
+    for (const key of ['consumes', 'produces'] as const) {
+      const lists = operations.map((operation) => operation[key]).filter(Boolean) as string[][];
+      const shared = JSON.stringify(lists[0]);
+      if (lists.length > 0 && lists.length === operations.length && lists.every((list) => JSON.stringify(list) === shared)) {
+        result[key] = lists[0];
+        for (const operation of operations) delete operation[key];
+      } else {
+        delete result[key];
+      }
+    }
+  }
+
+  // ==========================================================================
+  // Swagger 2.0 → OpenAPI 3.0
+  // ==========================================================================
+
+  /**
+   * Return an OpenAPI 3.0 copy of a Swagger 2.0 spec
+   */
+  fromSwagger2(swagger: SwaggerSpec): Swagger2ConversionResult<OpenAPISpec> {
+    this.warnings = [];
+    const source: any = JSON.parse(JSON.stringify(swagger));
+    const result: any = { openapi: '3.0.3', info: source.info };
+
+    const servers = this.hostToServers(source);
+    if (servers.length > 0) result.servers = servers;
+
+    const components: any = {};
+    const consumes: string[] = source.consumes || [DEFAULT_MEDIA_TYPE];
+    const produces: string[] = source.produces || [DEFAULT_MEDIA_TYPE];
+
+    result.paths = {};
+    for (const [route, pathItem] of Object.entries<any>(source.paths || {})) {
+      const item: any = {};
+      const shared = pathItem.parameters || [];
+      for (const [key, value] of Object.entries<any>(pathItem)) {
+        if (HTTP_METHODS.includes(key)) {
+          item[key] = this.operationFromSwagger2(value, shared, source, consumes, produces, `${key.toUpperCase()} ${route}`);
+        } else if (key === 'parameters') {
+          const parameters = value.filter((parameter: any) => !isBodyOrForm(parameter, source));
+          if (parameters.length > 0) item.parameters = parameters.map((parameter: any) => this.parameterFromSwagger2(parameter));
+        } else {
+          item[key] = value;
+        }
+      }
+      result.paths[route] = item;
+    }
+
+    if (source.definitions) {
+      components.schemas = {};
+      for (const [name, schema] of Object.entries<any>(source.definitions)) {
+        components.schemas[name] = schemaFromSwagger2(schema);
+      }
+    }
+    for (const [name, parameter] of Object.entries<any>(source.parameters || {})) {
+      if (parameter.in === 'body') {
+        components.requestBodies = components.requestBodies || {};
+        components.requestBodies[name] = this.bodyFromSwagger2([parameter], consumes);
+      } else if (parameter.in === 'formData') {
+        this.warn(`Inlined formData parameter #/parameters/${name} into the operations that use it`);
+      } else {
+        components.parameters = components.parameters || {};
+        components.parameters[name] = this.parameterFromSwagger2(parameter);
+      }
+    }
+    for (const [name, response] of Object.entries<any>(source.responses || {})) {
+      components.responses = components.responses || {};
+      components.responses[name] = this.responseFromSwagger2(response, produces);
+    }
+    if (source.securityDefinitions) {
+      components.securitySchemes = {};
+      for (const [name, scheme] of Object.entries<any>(source.securityDefinitions)) {
+        components.securitySchemes[name] = securitySchemeFromSwagger2(scheme);
+      }
+    }
+    if (Object.keys(components).length > 0) result.components = components;
+
+    if (source.security) result.security = source.security;
+    if (source.tags) result.tags = source.tags;
+    if (source.externalDocs) result.externalDocs = source.externalDocs;
+    copyExtensions(source, result);
+
+    return { spec: rewriteRefs(result, openapi3RefMap) as OpenAPISpec, warnings: this.warnings };
+  }
+
+  private hostToServers(source: any): Array<{ url: string }> {
+    if (!source.host) {
+      return source.basePath ? [{ url: source.basePath }] : [];
+    }
+    const schemes: string[] = source.schemes && source.schemes.length > 0 ? source.schemes : ['https'];
+    return schemes.map((scheme) => ({ url: `${scheme}://${source.host}${source.basePath || ''}` }));
+  }
+
+  private operationFromSwagger2(
+    operation: any,
+    shared: any[],
+    source: any,
+    consumes: string[],
+    produces: string[],
+    where: string
+  ): any {
+    const result: any = {};
+    for (const key of ['tags', 'summary', 'description', 'externalDocs', 'operationId', 'deprecated', 'security']) {
+      if (operation[key] !== undefined) result[key] = operation[key];
+    }
+
+    // Body and formData parameters become the request body, so path-level ones are merged into
+    // each operation unless the operation overrides them (same name and location)
+    const own: any[] = operation.parameters || [];
+    const key = (parameter: any) => {
+      const resolved = resolveLocalRef(source, parameter);
+      return `${resolved?.in}:${resolved?.name}`;
+    };
+    const ownKeys = new Set(own.map(key));
+    const inherited = shared.filter((parameter) => isBodyOrForm(parameter, source) && !ownKeys.has(key(parameter)));
+    const all = [...inherited, ...own];
+
+    const parameters = all.filter((parameter) => !isBodyOrForm(parameter, source));
+    if (parameters.length > 0) result.parameters = parameters.map((parameter) => this.parameterFromSwagger2(parameter));
+
+    const bodyParameters = all.filter((parameter) => isBodyOrForm(parameter, source));
+    if (bodyParameters.length > 0) {
+      const bodyRef = bodyParameters.find((parameter) => parameter.$ref && resolveLocalRef(source, parameter)?.in === 'body');
+      result.requestBody = bodyRef
+        ? { $ref: bodyRef.$ref.replace('#/parameters/', '#/components/requestBodies/') }
+        : this.bodyFromSwagger2(
+            bodyParameters.map((parameter) => resolveLocalRef(source, parameter)),
+            operation.consumes || consumes
+          );
+    }
+
+    result.responses = {};
+    for (const [status, response] of Object.entries<any>(operation.responses || {})) {
+      result.responses[status] = response.$ref ? response : this.responseFromSwagger2(response, operation.produces || produces);
+    }
+    if (Object.keys(result.responses).length === 0) {
+      this.warn(`Added a default response to ${where}: OpenAPI 3 requires at least one response`);
+      result.responses.default = { description: 'Default response' };
+    }
+    if (operation.schemes) this.warn(`Ignored schemes of ${where}: OpenAPI 3 has no per-operation schemes`);
+
+    copyExtensions(operation, result);
+    return result;
+  }
+
+  private parameterFromSwagger2(parameter: any): any {
+    if (parameter.$ref) return parameter;
+
+    const result: any = { name: parameter.name, in: parameter.in };
+    if (parameter.description) result.description = parameter.description;
+    if (parameter.required) result.required = true;
+    if (parameter.allowEmptyValue) result.allowEmptyValue = true;
+
+    if (parameter.type === 'array') {
+      switch (parameter.collectionFormat) {
+        case 'multi':
+          result.style = 'form';
+          result.explode = true;
+          break;
+        case 'ssv':
+          result.style = 'spaceDelimited';
+          break;
+        case 'pipes':
+          result.style = 'pipeDelimited';
+          break;
+        case 'tsv':
+          this.warn(`Converted tsv collectionFormat of ${parameter.name} to csv: not supported in OpenAPI 3`);
+          result.style = parameter.in === 'query' ? 'form' : 'simple';
+          result.explode = false;
+          break;
+        default:
+          if (parameter.in === 'query') {
+            result.style = 'form';
+            result.explode = false;
+          }
+      }
+    }
+
+    result.schema = simpleSchemaFromSwagger2(parameter);
+    copyExtensions(parameter, result);
+    return result;
+  }
+
+  private bodyFromSwagger2(parameters: any[], consumes: string[]): any {
+    const body = parameters.find((parameter) => parameter.in === 'body');
+    if (body) {
+      const result: any = { content: {} };
+      if (body.description) result.description = body.description;
+      if (body.required) result.required = true;
+      if (body.name && body.name !== 'body') result[BODY_NAME_EXTENSION] = body.name;
+      const mediaTypes = consumes.filter((type) => !FORM_MEDIA_TYPES.includes(type));
+      for (const type of mediaTypes.length > 0 ? mediaTypes : [DEFAULT_MEDIA_TYPE]) {
+        result.content[type] = { schema: schemaFromSwagger2(body.schema || {}) };
+      }
+      return result;
+    }
+
+    const hasFile = parameters.some((parameter) => parameter.type === 'file');
+    const formTypes = consumes.filter((type) => FORM_MEDIA_TYPES.includes(type));
+    const mediaType = hasFile || formTypes.length === 0
+      ? (hasFile ? 'multipart/form-data' : 'application/x-www-form-urlencoded')
+      : formTypes[0];
+
+    const schema: any = { type: 'object', properties: {} };
+    const required: string[] = [];
+    for (const parameter of parameters) {
+      const property = simpleSchemaFromSwagger2(parameter);
+      if (parameter.description) property.description = parameter.description;
+      schema.properties[parameter.name] = property;
+      if (parameter.required) required.push(parameter.name);
+    }
+    if (required.length > 0) schema.required = required;
+
+    return { required: required.length > 0, content: { [mediaType]: { schema } } };
+  }
+
+  private responseFromSwagger2(response: any, produces: string[]): any {
+    const result: any = { description: response.description || '' };
+
+    if (response.schema) {
+      result.content = {};
+      for (const type of produces) {
+        const media: any = { schema: schemaFromSwagger2(response.schema) };
+        if (response.examples?.[type] !== undefined) media.example = response.examples[type];
+        result.content[type] = media;
+      }
+    }
+    if (response.headers) {
+      result.headers = {};
+      for (const [name, header] of Object.entries<any>(response.headers)) {
+        result.headers[name] = {
+          ...(header.description ? { description: header.description } : {}),
+          schema: simpleSchemaFromSwagger2(header),
+        };
+      }
+    }
+    copyExtensions(response, result);
+    return result;
+  }
+
+  private warn(message: string): void {
+    this.warnings.push(message);
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const swagger2RefMap: Array<[string, string]> = [
+  ['#/components/schemas/', '#/definitions/'],
+  ['#/components/parameters/', '#/parameters/'],
+  ['#/components/responses/', '#/responses/'],
+];
+
+const openapi3RefMap: Array<[string, string]> = [
+  ['#/definitions/', '#/components/schemas/'],
+  ['#/parameters/', '#/components/parameters/'],
+  ['#/responses/', '#/components/responses/'],
+];
+
+function rewriteRefs(node: any, map: Array<[string, string]>): any {
+  if (Array.isArray(node)) return node.map((item) => rewriteRefs(item, map));
+  if (!node || typeof node !== 'object') return node;
+
+  const result: any = {};
+  for (const [key, value] of Object.entries(node)) {
+    if (key === '$ref' && typeof value === 'string') {
+      const entry = map.find(([from]) => value.startsWith(from));
+      result.$ref = entry ? entry[1] + value.slice(entry[0].length) : value;
+    } else {
+      result[key] = rewriteRefs(value, map);
+    }
+  }
+  return result;
+}
+
+function resolveLocalRef(spec: any, node: any): any {
+  if (!node || typeof node.$ref !== 'string' || !node.$ref.startsWith('#/')) return node;
+  const target = node.$ref
+    .slice(2)
+    .split('/')
+    .map((segment: string) => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+    .reduce((value: any, segment: string) => value?.[segment], spec);
+  return target ?? node;
+}
+
+function isBodyOrForm(parameter: any, spec: any): boolean {
+  const resolved = resolveLocalRef(spec, parameter);
+  return resolved?.in === 'body' || resolved?.in === 'formData';
+}
+
+function expandServerUrl(server: any): string {
+  let url: string = server.url || '/';
+  for (const [name, variable] of Object.entries<any>(server.variables || {})) {
+    url = url.replace(`{${name}}`, variable.default ?? '');
+  }
+  return url;
+}
+
+function preferJson(mediaTypes: string[]): string {
+  return mediaTypes.find((type) => /^application\/(.+\+)?json/.test(type)) || mediaTypes[0];
+}
+
+function firstMediaSchema(content: any): any {
+  if (!content) return undefined;
+  const types = Object.keys(content);
+  return types.length > 0 ? content[preferJson(types)].schema : undefined;
+}
+
+function firstExampleValue(examples: any): unknown {
+  if (!examples || typeof examples !== 'object') return undefined;
+  const [first] = Object.values<any>(examples);
+  return first?.value;
+}
+
+function copyExtensions(from: any, to: any): void {
+  for (const [key, value] of Object.entries(from)) {
+    if (key.startsWith('x-') && to[key] === undefined) to[key] = value;
+  }
+}
+
+function simpleSchemaFromSwagger2(parameter: any): any {
+  if (parameter.type === 'file') return { type: 'string', format: 'binary' };
+
+  const schema: any = {};
+  for (const keyword of SIMPLE_SCHEMA_KEYWORDS) {
+    if (parameter[keyword] === undefined) continue;
+    schema[keyword] = keyword === 'items' ? simpleSchemaFromSwagger2(parameter.items) : parameter[keyword];
+  }
+  if (parameter['x-nullable']) schema.nullable = true;
+  return schema;
+}
+
+function schemaFromSwagger2(schema: any): any {
+  if (Array.isArray(schema)) return schema.map(schemaFromSwagger2);
+  if (!schema || typeof schema !== 'object') return schema;
+
+  const result: any = {};
+  for (const [key, value] of Object.entries<any>(schema)) {
+    if (key === 'x-nullable') {
+      if (value) result.nullable = true;
+    } else if (key === 'discriminator' && typeof value === 'string') {
+      result.discriminator = { propertyName: value };
+    } else if (key === 'type' && value === 'file') {
+      result.type = 'string';
+      result.format = 'binary';
+    } else if (key === 'properties' && value && typeof value === 'object') {
+      result.properties = {};
+      for (const [name, property] of Object.entries(value)) {
+        result.properties[name] = schemaFromSwagger2(property);
+      }
+    } else if (key === 'items' || key === 'additionalProperties' || key === 'allOf') {
+      result[key] = schemaFromSwagger2(value);
+    } else {
+      result[key] = value;
+    }
+  }
+  return result;
+}
+
+function securitySchemeFromSwagger2(scheme: any): any {
+  const description = scheme.description ? { description: scheme.description } : {};
+
+  if (scheme.type === 'basic') return { type: 'http', scheme: 'basic', ...description };
+  if (scheme.type === 'apiKey') return { type: 'apiKey', name: scheme.name, in: scheme.in, ...description };
+
+  const flowName = Object.entries(OAUTH2_FLOWS).find(([, legacy]) => legacy === scheme.flow)?.[0] || 'implicit';
+  const flow: any = { scopes: scheme.scopes || {} };
+  if (scheme.authorizationUrl) flow.authorizationUrl = scheme.authorizationUrl;
+  if (scheme.tokenUrl) flow.tokenUrl = scheme.tokenUrl;
+  return { type: 'oauth2', flows: { [flowName]: flow }, ...description };
+}
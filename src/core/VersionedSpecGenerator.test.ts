@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { VersionedSpecGenerator } from './VersionedSpecGenerator';
+import type { RouteMetadata } from '../types';
+
+function route(method: string, path: string, metadata?: RouteMetadata['metadata']): RouteMetadata {
+  return { method, path, handler: () => undefined, metadata };
+}
+
+const info = { title: 'Shop API', version: '3.2.0' };
+
+describe('VersionedSpecGenerator', () => {
+  it('writes one spec per path prefix with the prefix moved into the server URL', () => {
+    const generator = new VersionedSpecGenerator({ info, servers: [{ url: 'https://api.example.com/' }] });
+
+    const result = generator.generate([
+      route('GET', '/api/v1/users'),
+      route('GET', '/api/v2/users/:id'),
+      route('GET', '/api/v10/users'),
+      route('GET', '/api/v2/orders'),
+      route('GET', '/health'),
+    ]);
+
+    expect(result.versions.map((version) => version.name)).toEqual(['v1', 'v2', 'v10']);
+    expect(result.default).toBe('v10');
+
+    const v2 = result.versions[1];
+    expect(v2.prefix).toBe('/api/v2');
+    expect(v2.spec.info).toEqual({ title: 'Shop API', version: 'v2' });
+    expect(v2.spec.servers).toEqual([{ url: 'https://api.example.com/api/v2' }]);
+    expect(Object.keys(v2.spec.paths)).toEqual(['/users/{id}', '/orders', '/health']);
+    expect((v2.spec.paths['/health'] as any).servers).toEqual([{ url: 'https://api.example.com/' }]);
+    expect((v2.spec.paths['/orders'] as any).servers).toBeUndefined();
+  });
+
+  it('documents the version header for routes tagged with a version', () => {
+    const generator = new VersionedSpecGenerator({ info }, {
+      header: 'Accept-Version',
+      default: '1',
+      info: { '2': { version: '2.0.0-beta', description: 'Preview' } },
+    });
+
+    const result = generator.generate([
+      route('GET', '/users', { summary: 'List users', version: '1' }),
+      route('GET', '/users', { summary: 'List users with paging', version: '2' }),
+      route('GET', '/status'),
+    ]);
+
+    expect(result.default).toBe('1');
+    const [v1, v2] = result.versions;
+    expect(v1.header).toEqual({ name: 'Accept-Version', value: '1' });
+    expect(v1.spec.servers).toEqual([]);
+    expect(v1.spec.paths['/users'].get.summary).toBe('List users');
+    expect(v2.spec.paths['/users'].get.summary).toBe('List users with paging');
+    expect(v2.spec.paths['/users'].get.parameters).toEqual([
+      { name: 'Accept-Version', in: 'header', required: true, description: 'API version', schema: { type: 'string', enum: ['2'] } },
+    ]);
+    expect(v2.spec.paths['/status'].get.parameters).toEqual([]);
+    expect(v2.spec.info).toEqual({ title: 'Shop API', version: '2.0.0-beta', description: 'Preview' });
+  });
+
+  it('lets a prefixed route win over another path it collides with', () => {
+    const generator = new VersionedSpecGenerator({ info });
+
+    const result = generator.generate([route('GET', '/health'), route('GET', '/v1/health', { summary: 'v1 health' })]);
+
+    expect(result.versions[0].spec.servers).toEqual([{ url: '/v1' }]);
+    expect(Object.keys(result.versions[0].spec.paths)).toEqual(['/health']);
+    expect(result.versions[0].spec.paths['/health'].get.summary).toBe('v1 health');
+  });
+
+  it('supports a custom prefix pattern and returns no versions when none match', () => {
+    const dated = new VersionedSpecGenerator({ info }, { prefixPattern: '^\\d{4}-\\d{2}-\\d{2}$' });
+
+    expect(dated.generate([route('GET', '/2024-01-01/users')]).versions[0].prefix).toBe('/2024-01-01');
+    expect(dated.generate([route('GET', '/v1/users')])).toEqual({ versions: [] });
+  });
+
+  it('creates an index listing every version', () => {
+    const generator = new VersionedSpecGenerator({ info }, { header: 'Accept-Version' });
+    const result = generator.generate([route('GET', '/api/v1/users'), route('GET', '/users', { version: 'v2' })]);
+
+    expect(generator.createIndex(result, (name) => `openapi.${name}.json`)).toEqual({
+      title: 'Shop API',
+      default: 'v2',
+      versions: [
+        { name: 'v1', version: 'v1', url: 'openapi.v1.json', prefix: '/api/v1' },
+        { name: 'v2', version: 'v2', url: 'openapi.v2.json', header: { name: 'Accept-Version', value: 'v2' } },
+      ],
+    });
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * Versioned Spec Generator
+ * Generates one spec per API version instead of a single spec. Versions come from
+ * path prefixes (/api/v1, /api/v2 mounted side by side) or from a version set on the
+ * route (JSDoc @version, @Route({ version })) for APIs that select versions with a
+ * request header. Each spec gets its own info.version and server URL, and an index
+ * lists the versions for createSwaggerUIMiddleware's version switcher.
+ */
+
+import type { GeneratorConfig, OpenAPIServer, OpenAPISpec, RouteMetadata } from '../types';
+import { PathParameterExtractor } from './PathParameterExtractor';
+import { SpecGenerator } from './SpecGenerator';
+
+export interface VersioningOptions {
+  /** Pattern of a path segment naming a version (default: /^v\d+(\.\d+)*$/) */
+  prefixPattern?: string | RegExp;
+  /** Request header selecting the version of routes tagged with one, e.g. 'Accept-Version' */
+  header?: string;
+  /** Version listed first by the index (default: the highest) */
+  default?: string;
+  /** info.version and description per version (default info.version: the version name) */
+  info?: Record<string, { version?: string; description?: string }>;
+}
+
+export interface VersionedSpec {
+  /** Version name, e.g. 'v1' */
+  name: string;
+  /** Path prefix the version is mounted at, e.g. '/api/v1' */
+  prefix?: string;
+  /** Header selecting the version for its routes outside the prefix */
+  header?: { name: string; value: string };
+  spec: OpenAPISpec;
+}
+
+export interface VersionedSpecResult {
+  /** Specs in version order; empty when no route is versioned */
+  versions: VersionedSpec[];
+  default?: string;
+}
+
+export interface VersionIndexEntry {
+  name: string;
+  /** info.version of the version's spec */
+  version: string;
+  /** Spec location, relative to the index */
+  url: string;
+  prefix?: string;
+  header?: { name: string; value: string };
+}
+
+/**
+ * Index document listing the versions of an API
+ */
+export interface VersionIndex {
+  title: string;
+  default: string;
+  versions: VersionIndexEntry[];
+}
+
+interface VersionedRoute {
+  route: RouteMetadata;
+  /** Version the route belongs to; undefined for routes shared by every version */
+  version?: string;
+  /** Version prefix of the route path */
+  prefix?: string;
+  /** Version named by the prefix */
+  prefixVersion?: string;
+}
+
+const DEFAULT_PREFIX_PATTERN = /^v\d+(\.\d+)*$/;
+
+export class VersionedSpecGenerator {
+  private config: GeneratorConfig;
+  private options: VersioningOptions;
+  private prefixPattern: RegExp;
+  private pathExtractor = new PathParameterExtractor();
+
+  constructor(config: GeneratorConfig, options: VersioningOptions = {}) {
+    this.config = config;
+    this.options = options;
+    this.prefixPattern =
+      options.prefixPattern === undefined
+        ? DEFAULT_PREFIX_PATTERN
+        : typeof options.prefixPattern === 'string'
+          ? new RegExp(options.prefixPattern)
+          : options.prefixPattern;
+  }
+
+  /**
+   * Generate a spec per version. Routes that belong to no version (health checks,
+   * auth callbacks) are documented in every version.
+   */
+  generate(routes: RouteMetadata[]): VersionedSpecResult {
+    const versioned = routes.map((route) => this.classify(route));
+    const names = sortVersions([...new Set(versioned.map((entry) => entry.version).filter((name): name is string => !!name))]);
+
+    if (names.length === 0) {
+      return { versions: [] };
+    }
+
+    const versions = names.map((name) => this.generateVersion(name, versioned));
+    const preferred = this.options.default;
+
+    return {
+      versions,
+      default: preferred && names.includes(preferred) ? preferred : names[names.length - 1],
+    };
+  }
+
+  /**
+   * Index document for generated versions; `urlFor` names the file each spec is written to
+   */
+  createIndex(result: VersionedSpecResult, urlFor: (name: string) => string): VersionIndex {
+    return {
+      title: this.config.info.title,
+      default: result.default || '',
+      versions: result.versions.map((version) => ({
+        name: version.name,
+        version: version.spec.info.version,
+        url: urlFor(version.name),
+        ...(version.prefix ? { prefix: version.prefix } : {}),
+        ...(version.header ? { header: version.header } : {}),
+      })),
+    };
+  }
+
+  private classify(route: RouteMetadata): VersionedRoute {
+    const segments = route.path.split('/');
+    const index = segments.findIndex((segment, i) => i > 0 && this.prefixPattern.test(segment));
+    const prefixVersion = index > 0 ? segments[index] : undefined;
+    const prefix = index > 0 ? segments.slice(0, index + 1).join('/') : undefined;
+
+    return {
+      route,
+      version: route.metadata?.version ?? prefixVersion,
+      prefix,
+      prefixVersion,
+    };
+  }
+
+  private generateVersion(name: string, routes: VersionedRoute[]): VersionedSpec {
+    const included = routes.filter((entry) => entry.version === undefined || entry.version === name);
+
+    // The version's server URL ends in its prefix when all its prefixed routes share one
+    const prefixes = new Set(included.filter((entry) => entry.prefixVersion === name).map((entry) => entry.prefix));
+    const prefix = prefixes.size === 1 ? [...prefixes][0] : undefined;
+
+    const baseServers = this.config.servers?.length ? this.config.servers : [{ url: '/' }];
+    const header = this.options.header;
+    let headerUsed = false;
+
+    const versionRoutes: Array<{ route: RouteMetadata; templates: string[]; inPrefix: boolean }> = [];
+    for (const { route, version, prefix: routePrefix, prefixVersion } of included) {
+      const inPrefix = !!prefix && routePrefix === prefix && prefixVersion === name;
+      const path = inPrefix ? route.path.slice(prefix!.length) || '/' : route.path;
+      let metadata = route.metadata;
+
+      // Header-selected routes document the header with the version's value
+      if (header && version !== undefined && prefixVersion !== version) {
+        headerUsed = true;
+        const parameters = (metadata?.parameters || []).filter(
+          (param) => !(param.in === 'header' && param.name.toLowerCase() === header.toLowerCase())
+        );
+        parameters.push({
+          name: header,
+          in: 'header',
+          required: true,
+          description: 'API version',
+          schema: { type: 'string', enum: [name] },
+        });
+        metadata = { ...metadata, parameters };
+      }
+
+      const templates = this.pathExtractor.expandPath(path).map((template) => template.path);
+      versionRoutes.push({ route: { ...route, path, metadata }, templates, inPrefix });
+    }
+
+    // With a prefixed server URL, other paths keep their full path and the base servers;
+    // a route outside the prefix whose path equals a prefixed route's path gives way to it
+    const insidePaths = new Set(versionRoutes.filter((entry) => entry.inPrefix).flatMap((entry) => entry.templates));
+    const outside = new Set<string>();
+    const generated = versionRoutes.filter((entry) => {
+      if (!prefix || entry.inPrefix) return true;
+      if (entry.templates.some((path) => insidePaths.has(path))) return false;
+      entry.templates.forEach((path) => outside.add(path));
+      return true;
+    });
+
+    const info = this.options.info?.[name];
+    const spec = new SpecGenerator({
+      ...this.config,
+      info: {
+        ...this.config.info,
+        version: info?.version || name,
+        ...(info?.description ? { description: info.description } : {}),
+      },
+      servers: prefix ? baseServers.map((server) => withPrefix(server, prefix)) : this.config.servers,
+    }).generate(generated.map((entry) => entry.route));
+
+    for (const path of outside) {
+      (spec.paths[path] as any).servers = baseServers;
+    }
+
+    return {
+      name,
+      ...(prefix ? { prefix } : {}),
+      ...(headerUsed && header ? { header: { name: header, value: name } } : {}),
+      spec,
+    };
+  }
+}
+
+function withPrefix(server: OpenAPIServer, prefix: string): OpenAPIServer {
+  return { ...server, url: `${server.url.replace(/\/+$/, '')}${prefix}` };
+}
+
+/** Natural order, so v2 comes before v10 */
+function sortVersions(names: string[]): string[] {
+  return names.sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+}
@@ -97,6 +97,58 @@ describe('PathParameterExtractor', () => {
     });
   });
 
+  describe('expandPath', () => {
+    const expand = (path: string) => extractor.expandPath(path).map((template) => template.path);
+
+    it('should expand Express 4 and Express 5 optional segments', () => {
+      expect(expand('/files/:name?')).toEqual(['/files', '/files/{name}']);
+      expect(expand('/files{/:name}')).toEqual(['/files', '/files/{name}']);
+      expect(expand('/docs{/:section{/:page}}')).toEqual(['/docs', '/docs/{section}', '/docs/{section}/{page}']);
+      expect(expand('/:lang?')).toEqual(['/', '/{lang}']);
+    });
+
+    it('should only keep the variants Express can match for adjacent optional segments', () => {
+      expect(expand('/search{/:q}{/:page}')).toEqual(['/search', '/search/{q}', '/search/{q}/{page}']);
+      expect(expand('/search/:q?/:page?')).toEqual(['/search', '/search/{q}', '/search/{q}/{page}']);
+      expect(expand('/files{/:name}{.:ext}')).toEqual(['/files', '/files.{ext}', '/files/{name}', '/files/{name}.{ext}']);
+    });
+
+    it('should document wildcards as parameters', () => {
+      const [named] = extractor.expandPath('/assets/*filepath');
+      const [unnamed] = extractor.expandPath('/assets/*');
+
+      expect(named.path).toBe('/assets/{filepath}');
+      expect(named.parameters[0]).toMatchObject({ name: 'filepath', wildcard: true, schema: { type: 'string' } });
+      expect(named.parameters[0].description).toContain("'/'");
+      expect(unnamed.path).toBe('/assets/{0}');
+    });
+
+    it('should type parameters from inline regexes', () => {
+      const [template] = extractor.expandPath('/orders/:id(\\d+)/:status(open|closed)/:code([A-Z]{3})');
+
+      expect(template.path).toBe('/orders/{id}/{status}/{code}');
+      expect(template.parameters.map((param) => param.schema)).toEqual([
+        { type: 'integer' },
+        { type: 'string', enum: ['open', 'closed'] },
+        { type: 'string', pattern: '^(?:[A-Z]{3})$' },
+      ]);
+    });
+
+    it('should keep OpenAPI templates, quoted names and escaped characters', () => {
+      expect(expand('/users/{id}')).toEqual(['/users/{id}']);
+      expect(expand('/teams/:"team-id"')).toEqual(['/teams/{team-id}']);
+      expect(expand('/time\\:now')).toEqual(['/time:now']);
+    });
+
+    it('should keep syntax types ahead of name heuristics in extractPathParameters', () => {
+      const result = extractor.extractPathParameters('/users/:userId/files/*path');
+
+      expect(result.normalized).toBe('/users/{userId}/files/{path}');
+      expect(result.parameters[0].schema.type).toBe('integer');
+      expect(result.parameters[1].description).toContain("'/'");
+    });
+  });
+
   describe('extractQueryParameters', () => {
     it('should extract query parameters from JSDoc', () => {
       const doc = `
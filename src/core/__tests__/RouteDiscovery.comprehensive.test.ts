@@ -994,6 +994,28 @@ describe('RouteDiscovery - Comprehensive Tests', () => {
       expect(routes[0].metadata?.summary).toBe('Get all users');
     });
 
+    it('should match repeated routes to their JSDoc comments in order', () => {
+      const app = express();
+      app.get('/users', (req, res, next) => (req.get('Accept-Version') === '1' ? res.json([]) : next()));
+      app.get('/users', (req, res) => res.json({ items: [] }));
+
+      const comment = { raw: '', filePath: '', line: 0 };
+      const mockParser = {
+        parse: () => [
+          { metadata: { method: 'GET', path: '/users', summary: 'List users (v1)', version: '1' }, comment },
+          { metadata: { method: 'GET', path: '/users', summary: 'List users (v2)', version: '2' }, comment },
+        ],
+      };
+
+      const routes = discovery.discover(app, {
+        enableJsDocParsing: true,
+        jsDocParser: mockParser as any,
+      });
+
+      expect(routes.map((route) => route.metadata?.version)).toEqual(['1', '2']);
+      expect(routes[1].metadata?.summary).toBe('List users (v2)');
+    });
+
     it('should not parse JSDoc when parser not provided', () => {
       const app = express();
       app.get('/users', (req, res) => res.json([]));
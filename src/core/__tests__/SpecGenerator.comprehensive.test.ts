@@ -480,7 +480,7 @@ describe('SpecGenerator - Comprehensive Tests', () => {
       const spec = generator.generate(routes);
 
       // Parameter delimiters are removed
-      expect(spec.paths['/users/:id'].get.operationId).toBe('get_users_id');
+      expect(spec.paths['/users/{id}'].get.operationId).toBe('get_users_id');
     });
   });
 
@@ -491,7 +491,7 @@ describe('SpecGenerator - Comprehensive Tests', () => {
       ];
       const spec = generator.generate(routes);
 
-      const params = spec.paths['/users/:id'].get.parameters;
+      const params = spec.paths['/users/{id}'].get.parameters;
       expect(params).toHaveLength(1);
       expect(params[0].name).toBe('id');
       expect(params[0].in).toBe('path');
@@ -504,7 +504,7 @@ describe('SpecGenerator - Comprehensive Tests', () => {
       ];
       const spec = generator.generate(routes);
 
-      const params = spec.paths['/users/:userId/posts/:postId'].get.parameters;
+      const params = spec.paths['/users/{userId}/posts/{postId}'].get.parameters;
       expect(params).toHaveLength(2);
       expect(params[0].name).toBe('userId');
       expect(params[1].name).toBe('postId');
@@ -531,7 +531,7 @@ describe('SpecGenerator - Comprehensive Tests', () => {
       ];
       const spec = generator.generate(routes);
 
-      const params = spec.paths['/users/:id'].get.parameters;
+      const params = spec.paths['/users/{id}'].get.parameters;
       expect(params[0].description).toBe('User ID');
       expect(params[0].schema.type).toBe('integer');
     });
@@ -790,7 +790,7 @@ describe('SpecGenerator - Comprehensive Tests', () => {
       ];
       const spec = generator.generate(routes);
 
-      expect(spec.paths[longPath]).toBeDefined();
+      expect(spec.paths['/api/v1/organizations/{orgId}/departments/{deptId}/teams/{teamId}/members/{memberId}/settings']).toBeDefined();
     });
 
     it('should handle special characters in paths', () => {
@@ -1136,7 +1136,7 @@ describe('SpecGenerator - Comprehensive Tests', () => {
       ];
       const spec = generator.generate(routes);
 
-      const params = spec.paths['/users/:id'].get.parameters;
+      const params = spec.paths['/users/{id}'].get.parameters;
       expect(params).toHaveLength(3);
       expect(params?.filter((p) => p.in === 'path')).toHaveLength(1);
       expect(params?.filter((p) => p.in === 'query')).toHaveLength(1);
@@ -1170,14 +1170,18 @@ describe('SpecGenerator - Comprehensive Tests', () => {
       expect(params?.[0].schema?.enum).toEqual(['pending', 'processing', 'shipped', 'delivered']);
     });
 
-    it('should handle optional path parameter indicator (for framework compatibility)', () => {
+    it('should expand optional path parameters into separate paths', () => {
       const routes: RouteMetadata[] = [
         { method: 'GET', path: '/files/:filename?', handler: () => {} },
       ];
       const spec = generator.generate(routes);
 
-      // The path is stored as-is; parameter extraction handles the notation
-      expect(spec.paths['/files/:filename?']).toBeDefined();
+      // The optional segment expands into a path with and one without it
+      expect(spec.paths['/files'].get.parameters).toEqual([]);
+      expect(spec.paths['/files/{filename}'].get.parameters).toEqual([
+        { name: 'filename', in: 'path', required: true, schema: { type: 'string' } },
+      ]);
+      expect(spec.paths['/files'].get.operationId).not.toBe(spec.paths['/files/{filename}'].get.operationId);
     });
   });
 
@@ -1377,9 +1381,9 @@ describe('SpecGenerator - Comprehensive Tests', () => {
       ];
       const spec = generator.generate(routes);
 
-      expect(spec.paths['/users/:id'].delete.responses['204'].description).toBe('User deleted successfully');
+      expect(spec.paths['/users/{id}'].delete.responses['204'].description).toBe('User deleted successfully');
       // 204 typically has no content
-      expect(spec.paths['/users/:id'].delete.responses['204'].content).toBeUndefined();
+      expect(spec.paths['/users/{id}'].delete.responses['204'].content).toBeUndefined();
     });
 
     it('should handle 400 Bad Request response', () => {
@@ -1491,7 +1495,7 @@ describe('SpecGenerator - Comprehensive Tests', () => {
       ];
       const spec = generator.generate(routes);
 
-      expect(spec.paths['/users/:id'].get.responses['404'].description).toBe('User not found');
+      expect(spec.paths['/users/{id}'].get.responses['404'].description).toBe('User not found');
     });
 
     it('should handle 500 Internal Server Error response', () => {
@@ -1872,7 +1876,7 @@ describe('SpecGenerator - Comprehensive Tests', () => {
       ];
       const spec = generator.generate(routes);
 
-      const schema = spec.paths['/users/:id'].get.responses['200'].content?.['application/json']?.schema;
+      const schema = spec.paths['/users/{id}'].get.responses['200'].content?.['application/json']?.schema;
       expect(schema?.$ref).toBe('#/components/schemas/User');
     });
 
@@ -2121,7 +2125,9 @@ describe('SpecGenerator - Comprehensive Tests', () => {
       const spec = generator.generate(routes);
 
       const schema = spec.paths['/items'].get.responses['200'].content?.['application/json']?.schema;
-      expect(schema?.properties?.description?.nullable).toBe(true);
+      // The default 3.1 output expresses nullable as a type array
+      expect(schema?.properties?.description?.type).toEqual(['string', 'null']);
+      expect(schema?.properties?.description?.nullable).toBeUndefined();
     });
 
     it('should handle schema with default values', () => {
@@ -2189,8 +2195,8 @@ describe('SpecGenerator - Comprehensive Tests', () => {
       const spec = generator.generate(routes);
 
       const schema = spec.paths['/users'].post.requestBody?.content?.['application/json']?.schema;
-      expect(schema?.properties?.email?.example).toBe('user@example.com');
-      expect(schema?.properties?.age?.example).toBe(25);
+      expect(schema?.properties?.email?.examples).toEqual(['user@example.com']);
+      expect(schema?.properties?.age?.examples).toEqual([25]);
     });
   });
 
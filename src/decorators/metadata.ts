@@ -4,6 +4,8 @@ export interface RouteDecoratorOptions {
   summary?: string;
   description?: string;
   tags?: string[];
+  /** API version the route belongs to, e.g. 'v2' */
+  version?: string;
 }
 
 export interface ParameterDecoratorOptions extends OpenAPIParameter {}
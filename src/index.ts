@@ -1,14 +1,46 @@
-export { RouteDiscovery } from './core/RouteDiscovery';
+export { RouteDiscovery, instrumentRouter } from './core/RouteDiscovery';
 export type { RouteDiscoveryOptions } from './core/RouteDiscovery';
 export { SpecGenerator } from './core/SpecGenerator';
-export { SnapshotStorage } from './core/SnapshotStorage';
+export { SnapshotStorage, matchesRoute } from './core/SnapshotStorage';
+export {
+  FileSystemSnapshotBackend,
+  NdjsonSnapshotBackend,
+  SqliteSnapshotBackend,
+  createSnapshotBackend,
+  detectSnapshotBackend,
+  isSqliteAvailable,
+} from './core/SnapshotBackends';
+export type {
+  SnapshotBackend,
+  SnapshotBackendType,
+  NdjsonBackendOptions,
+  SqliteBackendOptions,
+} from './core/SnapshotBackends';
 export { ExampleMerger } from './core/ExampleMerger';
+export type { ExampleMergerOptions } from './core/ExampleMerger';
+export { RuntimeSpecMerger } from './core/RuntimeSpecMerger';
+export type { RuntimePrecedence, RuntimeMergeOptions, RuntimeMergeResult } from './core/RuntimeSpecMerger';
+export { VersionedSpecGenerator } from './core/VersionedSpecGenerator';
+export type {
+  VersioningOptions,
+  VersionedSpec,
+  VersionedSpecResult,
+  VersionIndex,
+  VersionIndexEntry,
+} from './core/VersionedSpecGenerator';
+export { ComponentExtractor } from './core/ComponentExtractor';
+export { SpecVersionConverter, OPENAPI_VERSIONS } from './core/SpecVersionConverter';
+export type { OpenAPIVersionTarget, SpecConversionResult } from './core/SpecVersionConverter';
+export { Swagger2Converter } from './core/Swagger2Converter';
+export type { SwaggerSpec, Swagger2ConversionResult } from './core/Swagger2Converter';
 
 // Phase 1: Route Enhancement Components
 export { MiddlewareAnalyzer } from './core/MiddlewareAnalyzer';
 export type { MiddlewareMetadata, RouteMiddlewareInfo } from './core/MiddlewareAnalyzer';
+export { applyBodyParsers, detectBodyParser, instrumentBodyParsers } from './core/BodyParserDetector';
+export type { AppliedBodyParser, BodyParserKind, BodyParserMetadata, UploadField } from './core/BodyParserDetector';
 export { PathParameterExtractor } from './core/PathParameterExtractor';
-export type { PathParameter, ParsedPath } from './core/PathParameterExtractor';
+export type { PathParameter, ParsedPath, PathTemplate } from './core/PathParameterExtractor';
 export { RouteMetadataEnricher } from './core/RouteMetadataEnricher';
 export type { EnrichedRouteMetadata } from './core/RouteMetadataEnricher';
 
@@ -22,6 +54,12 @@ export type { ExtractedSchema, RouteSchema } from './schema/SchemaExtractor';
 
 // Phase 3: Type Inference Components
 export { TypeInferenceEngine } from './inference/TypeInferenceEngine';
+export { HandlerTypeAnalyzer } from './inference/HandlerTypeAnalyzer';
+export type {
+  HandlerTypeAnalyzerOptions,
+  HandlerTypeInfo,
+  HandlerTypeAnalysis,
+} from './inference/HandlerTypeAnalyzer';
 export type {
   TypeDefinition,
   InferenceResult,
@@ -30,6 +68,7 @@ export type {
 
 // Validators
 export { ZodAdapter } from './validators/ZodAdapter';
+export type { ZodConversionOptions, ZodSchemaIO } from './validators/ZodAdapter';
 export { JoiAdapter } from './validators/JoiAdapter';
 export { YupAdapter } from './validators/YupAdapter';
 export { ValidatorRegistry, validatorRegistry } from './validators/ValidatorRegistry';
@@ -41,6 +80,12 @@ export type { SwaggerAutoConfig } from './config/ConfigLoader';
 // Middleware
 export { runtimeCapture } from './middleware/runtimeCapture';
 export { createSwaggerUIMiddleware } from './middleware/swaggerUI';
+export { validateRequests } from './middleware/validateRequests';
+export {
+  createResponseContractChecker,
+  consoleContractReporter,
+  jsonFileContractReporter,
+} from './middleware/responseContract';
 
 // Parsers
 export { JsDocParser } from './parsers/JsDocParser';
@@ -56,6 +101,7 @@ export type {
   OpenAPIInfo,
   OpenAPIPath,
   OpenAPIParameter,
+  OpenAPIMediaType,
   OpenAPIRequestBody,
   OpenAPIResponse,
   OpenAPISchema,
@@ -63,10 +109,33 @@ export type {
   OpenAPISecurityScheme,
   RouteMetadata,
   GeneratorConfig,
+  ComponentExtractionOptions,
   ValidatorAdapter,
   ExpressApp,
 } from './types';
 
-export type { RuntimeCaptureConfig } from './middleware/runtimeCapture';
+export type { RuntimeCaptureConfig, RuntimeCaptureMiddleware } from './middleware/runtimeCapture';
+export type {
+  RuntimeCaptureSampling,
+  RuntimeCaptureMetrics,
+  RouteCaptureMetrics,
+} from './middleware/captureSampling';
 export type { SwaggerUIConfig } from './middleware/swaggerUI';
-export type { RuntimeSnapshot, SnapshotStorageConfig } from './core/SnapshotStorage';
+export type {
+  ValidateRequestsOptions,
+  ValidationIssue,
+  ValidationProblem,
+} from './middleware/validateRequests';
+export type {
+  ResponseContractConfig,
+  ResponseContractChecker,
+  ContractReport,
+  ContractIssue,
+  ContractReporter,
+} from './middleware/responseContract';
+export type {
+  RuntimeSnapshot,
+  SnapshotStorageConfig,
+  SnapshotRetention,
+  SnapshotPruneOptions,
+} from './core/SnapshotStorage';
@@ -0,0 +1,217 @@
+/**
+ * Tests for HandlerTypeAnalyzer
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { HandlerTypeAnalyzer, type HandlerTypeAnalysis, type HandlerTypeInfo } from './HandlerTypeAnalyzer';
+import type { RouteMetadata } from '../types';
+
+const MODELS = `
+export enum Role {
+  Admin = 'admin',
+  Member = 'member',
+}
+
+export interface User {
+  /** Unique user id */
+  readonly id: number;
+  /**
+   * Contact address
+   * @format email
+   * @example "ada@example.com"
+   */
+  email: string;
+  nickname?: string | null;
+  role: Role;
+  createdAt: Date;
+  manager?: User;
+}
+
+export type CreateUserDto = Omit<User, 'id' | 'createdAt' | 'manager'>;
+
+export interface Paginated<T> {
+  items: T[];
+  total: number;
+}
+`;
+
+const ROUTES = `
+import { Router, Request, Response } from 'express';
+import { User, CreateUserDto, Paginated } from './models';
+import { getUser } from './controllers';
+
+const router = Router();
+
+interface ListQuery {
+  /** Page size */
+  limit?: number;
+  cursor?: string;
+}
+
+router.get('/users', (req: Request<{}, Paginated<User>, {}, ListQuery>, res: Response) => {
+  res.json({ items: [], total: 0 } as Paginated<User>);
+});
+
+router.post('/users', (req: Request<{}, User, CreateUserDto>, res: Response) => {
+  if (!req.body.email) {
+    return res.status(400).json({ error: 'email is required' });
+  }
+  res.status(201).json(req.body as unknown as User);
+});
+
+router.get('/users/:id', getUser);
+
+router.route('/users/:id/avatar').put((req: Request<{ id: string }, { url: string }>, res: Response) => {
+  res.send({ url: 'https://example.com' });
+});
+
+export default router;
+`;
+
+const CONTROLLERS = `
+import { Request, Response } from 'express';
+import { User } from './models';
+
+interface GetUserRequest extends Request<{ id: string }> {}
+
+export function getUser(req: GetUserRequest, res: Response<User>) {
+  res.json(undefined as any);
+}
+`;
+
+function find(analysis: HandlerTypeAnalysis, method: string, routePath: string): HandlerTypeInfo {
+  return analysis.handlers.find((info) => info.method === method && info.path === routePath)!;
+}
+
+describe('HandlerTypeAnalyzer', () => {
+  let dir: string;
+  let analysis: HandlerTypeAnalysis;
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'handler-types-'));
+    fs.mkdirSync(path.join(dir, 'src'));
+    fs.writeFileSync(path.join(dir, 'src', 'models.ts'), MODELS);
+    fs.writeFileSync(path.join(dir, 'src', 'routes.ts'), ROUTES);
+    fs.writeFileSync(path.join(dir, 'src', 'controllers.ts'), CONTROLLERS);
+
+    analysis = new HandlerTypeAnalyzer({ cwd: dir }).analyze();
+  }, 30000);
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should find route registrations', () => {
+    const routes = analysis.handlers.map((info) => `${info.method} ${info.path}`);
+
+    expect(routes).toEqual(
+      expect.arrayContaining(['GET /users', 'POST /users', 'GET /users/:id', 'PUT /users/:id/avatar'])
+    );
+  });
+
+  it('should read query parameters with JSDoc descriptions', () => {
+    expect(find(analysis, 'GET', '/users').parameters).toEqual([
+      { name: 'limit', in: 'query', description: 'Page size', required: false, schema: { type: 'number' } },
+      { name: 'cursor', in: 'query', required: false, schema: { type: 'string' } },
+    ]);
+  });
+
+  it('should resolve imported interfaces, enums and generic instantiations', () => {
+    const response = find(analysis, 'GET', '/users').responses['200'];
+
+    expect(response.title).toBeUndefined();
+    expect(response.required).toEqual(['items', 'total']);
+
+    const user = response.properties!.items.items!;
+    expect(user.title).toBe('User');
+    expect(user.required).toEqual(['id', 'email', 'role', 'createdAt']);
+    expect(user.properties).toMatchObject({
+      id: { type: 'number', description: 'Unique user id', readOnly: true },
+      email: { type: 'string', description: 'Contact address', format: 'email', example: 'ada@example.com' },
+      nickname: { type: 'string', nullable: true },
+      role: { title: 'Role', type: 'string', enum: ['admin', 'member'] },
+      createdAt: { type: 'string', format: 'date-time' },
+      manager: { $ref: '#/components/schemas/User' },
+    });
+    expect(analysis.schemas.User.title).toBe('User');
+  });
+
+  it('should read request bodies and res.status().json() responses', () => {
+    const info = find(analysis, 'POST', '/users');
+
+    expect(Object.keys(info.requestBody!.properties!).sort()).toEqual(['email', 'nickname', 'role']);
+    expect(Object.keys(info.responses).sort()).toEqual(['201', '400']);
+    expect(info.responses['400']).toEqual({
+      type: 'object',
+      properties: { error: { type: 'string' } },
+      required: ['error'],
+    });
+    expect(info.responses['201'].title).toBe('User');
+  });
+
+  it('should follow imported handlers and interfaces extending Request', () => {
+    const info = find(analysis, 'GET', '/users/:id');
+
+    expect(info.handlerName).toBe('getUser');
+    expect(info.parameters).toEqual([{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }]);
+    // res.json(any) falls back to the Response<User> generic
+    expect(info.responses['200'].title).toBe('User');
+  });
+
+  it('should support router.route() chains and res.send()', () => {
+    const info = find(analysis, 'PUT', '/users/:id/avatar');
+
+    expect(info.responses['200']).toEqual({
+      type: 'object',
+      properties: { url: { type: 'string' } },
+      required: ['url'],
+    });
+  });
+
+  describe('annotateRoutes', () => {
+    const handler = function getUser() {};
+    const routes: RouteMetadata[] = [
+      { method: 'GET', path: '/api/users/:id', handler },
+      { method: 'POST', path: '/api/users', handler: () => {}, metadata: { summary: 'Create', responses: { '201': { description: 'Created' } } } },
+      { method: 'GET', path: '/health', handler: () => {} },
+    ];
+
+    it('should fill in undocumented metadata for routes mounted under a prefix', () => {
+      const [getUser, createUser, health] = new HandlerTypeAnalyzer({ cwd: dir }).annotateRoutes(routes, analysis);
+
+      expect(getUser.metadata!.parameters).toHaveLength(1);
+      expect(getUser.metadata!.responses!['200'].content!['application/json'].schema.title).toBe('User');
+      expect(createUser.metadata!.requestBody!.content['application/json'].schema.properties).toHaveProperty('email');
+      expect(createUser.metadata!.responses).toEqual({ '201': { description: 'Created' } });
+      expect(health).toBe(routes[2]);
+    });
+  });
+
+  describe('cache', () => {
+    it('should reuse results until a file or one of its dependencies changes', () => {
+      const cacheFile = path.join(dir, '.cache', 'types.json');
+      const first = new HandlerTypeAnalyzer({ cwd: dir, cacheFile }).analyze();
+      const cached = JSON.parse(fs.readFileSync(cacheFile, 'utf-8'));
+      const routesEntry = cached.files[path.join(dir, 'src', 'routes.ts')];
+
+      expect(Object.keys(routesEntry.dependencies)).toEqual(
+        expect.arrayContaining([path.join(dir, 'src', 'models.ts'), path.join(dir, 'src', 'controllers.ts')])
+      );
+
+      // A hit does not touch the compiler: stale results prove the cache was used
+      routesEntry.handlers[0].path = '/cached';
+      fs.writeFileSync(cacheFile, JSON.stringify(cached));
+      expect(new HandlerTypeAnalyzer({ cwd: dir, cacheFile }).analyze().handlers.some((h) => h.path === '/cached')).toBe(true);
+
+      // Changing an imported model invalidates the routes entry
+      fs.appendFileSync(path.join(dir, 'src', 'models.ts'), '\nexport type Extra = string;\n');
+      const refreshed = new HandlerTypeAnalyzer({ cwd: dir, cacheFile }).analyze();
+
+      expect(refreshed.handlers.some((h) => h.path === '/cached')).toBe(false);
+      expect(refreshed.handlers).toHaveLength(first.handlers.length);
+    }, 30000);
+  });
+});
@@ -0,0 +1,784 @@
+/**
+ * Handler Type Analyzer
+ * Uses the TypeScript compiler API to read the real types of Express handlers:
+ * Request<Params, ResBody, ReqBody, Query> / Response<ResBody> generics and res.json() arguments.
+ * Imported interfaces, type aliases, enums and generic instantiations are resolved by the checker,
+ * and JSDoc comments on properties become schema descriptions.
+ *
+ * Requires the optional `typescript` peer dependency. Results are cached per file content hash.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { STATUS_CODES } from 'http';
+import { globSync } from 'glob';
+import type * as ts from 'typescript';
+import type { OpenAPIParameter, OpenAPISchema, RouteMetadata } from '../types';
+import { PathParameterExtractor } from '../core/PathParameterExtractor';
+
+export interface HandlerTypeAnalyzerOptions {
+  /** Glob patterns for handler files (default: ['src/**\/*.ts']) */
+  include?: string[];
+  /** Patterns to exclude (default: node_modules, dist, declaration and test files) */
+  exclude?: string[];
+  /** Base directory for globs and tsconfig lookup (default: process.cwd()) */
+  cwd?: string;
+  /** tsconfig.json providing compiler options (default: tsconfig.json in cwd, if present) */
+  tsconfig?: string;
+  /** Persist the per-file cache to this JSON file between runs */
+  cacheFile?: string;
+  /** Maximum depth for nested type resolution (default: 10) */
+  maxDepth?: number;
+}
+
+export interface HandlerTypeInfo {
+  /** HTTP method in upper case */
+  method: string;
+  /** Route path as registered in the source file (relative to its router) */
+  path: string;
+  /** Name of the handler function, when it has one */
+  handlerName?: string;
+  file: string;
+  parameters: OpenAPIParameter[];
+  requestBody?: OpenAPISchema;
+  /** Response body schemas keyed by status code */
+  responses: Record<string, OpenAPISchema>;
+}
+
+export interface HandlerTypeAnalysis {
+  handlers: HandlerTypeInfo[];
+  /** Schemas of recursive named types, referenced with $ref from the handler schemas */
+  schemas: Record<string, OpenAPISchema>;
+}
+
+interface CacheEntry {
+  hash: string;
+  /** Hashes of the other local files whose types the results depend on */
+  dependencies: Record<string, string>;
+  handlers: HandlerTypeInfo[];
+  schemas: Record<string, OpenAPISchema>;
+}
+
+interface FileContext {
+  checker: ts.TypeChecker;
+  file: string;
+  dependencies: Set<string>;
+  schemas: Record<string, OpenAPISchema>;
+  recursive: Set<string>;
+}
+
+const HTTP_METHODS = ['get', 'post', 'put', 'delete', 'patch', 'head', 'options', 'all'];
+const CACHE_VERSION = 1;
+
+export class HandlerTypeAnalyzer {
+  private options: Required<Omit<HandlerTypeAnalyzerOptions, 'tsconfig' | 'cacheFile'>> &
+    Pick<HandlerTypeAnalyzerOptions, 'tsconfig' | 'cacheFile'>;
+  private cache: Map<string, CacheEntry> = new Map();
+  private ts: typeof import('typescript');
+
+  constructor(options: HandlerTypeAnalyzerOptions = {}) {
+    this.options = {
+      include: options.include ?? ['src/**/*.ts'],
+      exclude: options.exclude ?? ['**/node_modules/**', '**/dist/**', '**/*.d.ts', '**/*.test.ts', '**/*.spec.ts'],
+      cwd: options.cwd ?? process.cwd(),
+      tsconfig: options.tsconfig,
+      cacheFile: options.cacheFile,
+      maxDepth: options.maxDepth ?? 10,
+    };
+
+    try {
+      this.ts = require('typescript');
+    } catch {
+      throw new Error("TypeScript type inference requires the 'typescript' package. Install it with: npm install -D typescript");
+    }
+
+    this.loadCache();
+  }
+
+  /**
+   * Analyze all handler files, reusing cached results for unchanged files
+   */
+  analyze(): HandlerTypeAnalysis {
+    const files = globSync(this.options.include, {
+      cwd: this.options.cwd,
+      ignore: this.options.exclude,
+      absolute: true,
+      nodir: true,
+    }).sort();
+
+    const hashes = new Map(files.map((file) => [file, hashFile(file)]));
+    const stale = files.filter((file) => !this.isFresh(this.cache.get(file), hashes.get(file)!));
+
+    if (stale.length > 0) {
+      const program = this.ts.createProgram(stale, this.getCompilerOptions());
+      const checker = program.getTypeChecker();
+
+      for (const file of stale) {
+        const sourceFile = program.getSourceFile(file);
+        if (!sourceFile) continue;
+        this.cache.set(file, this.analyzeFile(sourceFile, checker, hashes.get(file)!));
+      }
+      this.saveCache();
+    }
+
+    const analysis: HandlerTypeAnalysis = { handlers: [], schemas: {} };
+    for (const file of files) {
+      const entry = this.cache.get(file);
+      if (!entry) continue;
+      analysis.handlers.push(...entry.handlers);
+      Object.assign(analysis.schemas, entry.schemas);
+    }
+
+    return analysis;
+  }
+
+  /**
+   * Fill in parameters, request body and responses of discovered routes from the analysis.
+   * Metadata that is already documented (JSDoc, decorators) is left untouched.
+   */
+  annotateRoutes(routes: RouteMetadata[], analysis: HandlerTypeAnalysis): RouteMetadata[] {
+    return routes.map((route) => {
+      const info = this.findHandler(route, analysis.handlers);
+      if (!info) return route;
+
+      const metadata = { ...route.metadata };
+
+      if (!metadata.parameters && info.parameters.length > 0) {
+        const declared = new Set(info.parameters.filter((p) => p.in === 'path').map((p) => p.name));
+        const missing = pathParameterNames(route.path)
+          .filter((name) => !declared.has(name))
+          .map((name): OpenAPIParameter => ({ name, in: 'path', required: true, schema: { type: 'string' } }));
+        metadata.parameters = [...missing, ...info.parameters];
+      }
+
+      if (!metadata.requestBody && info.requestBody) {
+        metadata.requestBody = {
+          required: true,
+          content: { 'application/json': { schema: info.requestBody } },
+        };
+      }
+
+      if (!metadata.responses && Object.keys(info.responses).length > 0) {
+        metadata.responses = {};
+        for (const [code, schema] of Object.entries(info.responses)) {
+          metadata.responses[code] = {
+            description: STATUS_CODES[code] || 'Successful response',
+            ...(Object.keys(schema).length > 0 ? { content: { 'application/json': { schema } } } : {}),
+          };
+        }
+      }
+
+      return { ...route, metadata };
+    });
+  }
+
+  /**
+   * Clear the in-memory cache
+   */
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  // ==========================================================================
+  // Route matching
+  // ==========================================================================
+
+  /**
+   * Match a runtime route to an analyzed handler: same method and the registered path is a
+   * suffix of the full path (routers are mounted under prefixes). Handler names break ties.
+   */
+  private findHandler(route: RouteMetadata, handlers: HandlerTypeInfo[]): HandlerTypeInfo | undefined {
+    const method = route.method.toUpperCase();
+    const fullPath = canonicalPath(route.path);
+
+    const handlerName = (route.handler as any)?.name;
+    const candidates = handlers.filter((info) => {
+      if (info.method !== method && info.method !== 'ALL') return false;
+      const local = canonicalPath(info.path);
+      // Router roots ('/') only match through the handler name
+      if (local === '/') return fullPath === '/' || (!!handlerName && info.handlerName === handlerName);
+      return fullPath === local || fullPath.endsWith(local);
+    });
+    if (candidates.length <= 1) return candidates[0];
+
+    const named = candidates.filter((info) => handlerName && info.handlerName === handlerName);
+    const pool = named.length > 0 ? named : candidates;
+    const longest = Math.max(...pool.map((info) => canonicalPath(info.path).length));
+    const best = pool.filter((info) => canonicalPath(info.path).length === longest);
+
+    return best.length === 1 ? best[0] : undefined;
+  }
+
+  // ==========================================================================
+  // Source analysis
+  // ==========================================================================
+
+  private analyzeFile(sourceFile: ts.SourceFile, checker: ts.TypeChecker, hash: string): CacheEntry {
+    const ts = this.ts;
+    const context: FileContext = {
+      checker,
+      file: sourceFile.fileName,
+      dependencies: new Set(),
+      schemas: {},
+      recursive: new Set(),
+    };
+    const handlers: HandlerTypeInfo[] = [];
+
+    const visit = (node: ts.Node): void => {
+      if (ts.isCallExpression(node) && ts.isPropertyAccessExpression(node.expression)) {
+        const method = node.expression.name.text.toLowerCase();
+        const routePath = HTTP_METHODS.includes(method) ? this.getRoutePath(node) : null;
+        const handlerNode = node.arguments[node.arguments.length - 1];
+        const handler = routePath !== null && handlerNode ? this.resolveHandler(handlerNode, context) : undefined;
+
+        if (routePath !== null && handler) {
+          handlers.push({
+            method: method.toUpperCase(),
+            path: routePath,
+            handlerName: handler.name,
+            file: path.relative(this.options.cwd, sourceFile.fileName),
+            ...this.analyzeHandler(handler.node, context),
+          });
+        }
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+
+    const dependencies: Record<string, string> = {};
+    for (const file of context.dependencies) {
+      if (file !== sourceFile.fileName) {
+        dependencies[file] = hashFile(file);
+      }
+    }
+
+    return { hash, dependencies, handlers, schemas: context.schemas };
+  }
+
+  /**
+   * Path of a route registration: app.get('/path', ...) or router.route('/path').get(...)
+   */
+  private getRoutePath(call: ts.CallExpression): string | null {
+    const ts = this.ts;
+    const first = call.arguments[0];
+    if (first && ts.isStringLiteralLike(first) && call.arguments.length > 1) {
+      return first.text;
+    }
+
+    // router.route('/path').get(handler).post(handler)
+    let receiver = (call.expression as ts.PropertyAccessExpression).expression;
+    while (ts.isCallExpression(receiver) && ts.isPropertyAccessExpression(receiver.expression)) {
+      const name = receiver.expression.name.text;
+      const arg = receiver.arguments[0];
+      if (name === 'route' && arg && ts.isStringLiteralLike(arg)) {
+        return arg.text;
+      }
+      if (!HTTP_METHODS.includes(name.toLowerCase())) break;
+      receiver = receiver.expression.expression;
+    }
+
+    return null;
+  }
+
+  /**
+   * Resolve a handler argument to its function, following identifiers and imports
+   */
+  private resolveHandler(
+    node: ts.Expression,
+    context: FileContext
+  ): { node: ts.SignatureDeclaration & { body?: ts.Node }; name?: string } | undefined {
+    const ts = this.ts;
+
+    if (ts.isArrowFunction(node) || ts.isFunctionExpression(node)) {
+      return { node, name: node.name?.text };
+    }
+
+    if (!ts.isIdentifier(node) && !ts.isPropertyAccessExpression(node)) return undefined;
+
+    let symbol = context.checker.getSymbolAtLocation(node);
+    if (symbol && symbol.flags & ts.SymbolFlags.Alias) {
+      symbol = context.checker.getAliasedSymbol(symbol);
+    }
+    const declaration = symbol?.valueDeclaration || symbol?.declarations?.[0];
+    if (!declaration) return undefined;
+
+    this.trackDependency(declaration, context);
+
+    if (ts.isFunctionDeclaration(declaration) || ts.isMethodDeclaration(declaration)) {
+      return { node: declaration, name: symbol!.name };
+    }
+    if (
+      ts.isVariableDeclaration(declaration) &&
+      declaration.initializer &&
+      (ts.isArrowFunction(declaration.initializer) || ts.isFunctionExpression(declaration.initializer))
+    ) {
+      return { node: declaration.initializer, name: symbol!.name };
+    }
+
+    return undefined;
+  }
+
+  private analyzeHandler(
+    handler: ts.SignatureDeclaration & { body?: ts.Node },
+    context: FileContext
+  ): Pick<HandlerTypeInfo, 'parameters' | 'requestBody' | 'responses'> {
+    const [reqParam, resParam] = handler.parameters;
+    const typeArguments = reqParam ? this.getTypeArguments(reqParam, context) : [];
+    const [responseGeneric] = resParam ? this.getTypeArguments(resParam, context) : [];
+    const declaredResponse = responseGeneric || typeArguments[1];
+    let [params, , reqBody, query] = typeArguments;
+
+    // Request types declared locally (interface X extends Request { body: T }) override the generics
+    if (reqParam) {
+      const requestType = context.checker.getTypeAtLocation(reqParam);
+      params = this.getLocalProperty(requestType, 'params', reqParam, context) || params;
+      reqBody = this.getLocalProperty(requestType, 'body', reqParam, context) || reqBody;
+      query = this.getLocalProperty(requestType, 'query', reqParam, context) || query;
+    }
+
+    const parameters = [
+      ...this.toParameters(params, 'path', reqParam!, context),
+      ...this.toParameters(query, 'query', reqParam!, context),
+    ];
+
+    const responses: Record<string, OpenAPISchema> = {};
+    if (resParam && handler.body && this.ts.isIdentifier(resParam.name)) {
+      for (const { status, type, node } of this.findResponseCalls(handler.body, resParam.name.text, context)) {
+        let schema = this.toSchema(type, node, context, 0, []);
+        if (Object.keys(schema).length === 0 && declaredResponse) {
+          schema = this.toSchema(declaredResponse, resParam, context, 0, []);
+        }
+        const existing = responses[status];
+        if (!existing) {
+          responses[status] = schema;
+        } else if (JSON.stringify(existing) !== JSON.stringify(schema)) {
+          responses[status] = { oneOf: [...(existing.oneOf || [existing]), schema] };
+        }
+      }
+    }
+
+    if (Object.keys(responses).length === 0 && declaredResponse) {
+      responses['200'] = this.toSchema(declaredResponse, (reqParam || resParam)!, context, 0, []);
+    }
+
+    return {
+      parameters,
+      requestBody: reqBody ? this.toSchema(reqBody, reqParam, context, 0, []) : undefined,
+      responses,
+    };
+  }
+
+  private getLocalProperty(type: ts.Type, name: string, node: ts.Node, context: FileContext): ts.Type | undefined {
+    const property = type.getProperty(name);
+    const isLocal = property?.declarations?.some((declaration) => !declaration.getSourceFile().isDeclarationFile);
+    return property && isLocal ? context.checker.getTypeOfSymbolAtLocation(property, node) : undefined;
+  }
+
+  /**
+   * Type arguments of a Request/Response parameter, read from the annotation (also through
+   * a type alias) or from the checker. Unspecified generics (any, ParamsDictionary) are dropped.
+   */
+  private getTypeArguments(param: ts.ParameterDeclaration, context: FileContext): Array<ts.Type | undefined> {
+    const ts = this.ts;
+    const { checker } = context;
+    let typeArguments: ts.Type[] | undefined;
+
+    let typeNode = param.type;
+    for (let hops = 0; typeNode && ts.isTypeReferenceNode(typeNode) && hops < 5; hops++) {
+      if (typeNode.typeArguments) {
+        typeArguments = typeNode.typeArguments.map((arg) => checker.getTypeFromTypeNode(arg));
+        break;
+      }
+      const declaration = checker.getSymbolAtLocation(typeNode.typeName)?.declarations?.[0];
+      if (declaration && ts.isInterfaceDeclaration(declaration)) {
+        // interface CreateUserRequest extends Request<Params, ResBody, ReqBody> {}
+        typeNode = declaration.heritageClauses?.flatMap((clause) => [...clause.types]).find((base) => base.typeArguments);
+        if (typeNode && ts.isExpressionWithTypeArguments(typeNode)) {
+          typeArguments = typeNode.typeArguments!.map((arg) => checker.getTypeFromTypeNode(arg));
+        }
+        break;
+      }
+      typeNode = declaration && ts.isTypeAliasDeclaration(declaration) ? declaration.type : undefined;
+    }
+
+    if (!typeArguments) {
+      const type = checker.getTypeAtLocation(param);
+      if (type.aliasTypeArguments) {
+        typeArguments = [...type.aliasTypeArguments];
+      } else if (type.flags & ts.TypeFlags.Object && (type as ts.ObjectType).objectFlags & ts.ObjectFlags.Reference) {
+        typeArguments = [...checker.getTypeArguments(type as ts.TypeReference)];
+      }
+    }
+
+    return (typeArguments || []).map((type) => (this.isUnspecified(type, checker) ? undefined : type));
+  }
+
+  private isUnspecified(type: ts.Type, checker: ts.TypeChecker): boolean {
+    const ts = this.ts;
+    if (type.flags & (ts.TypeFlags.Any | ts.TypeFlags.Unknown | ts.TypeFlags.Never)) return true;
+    return !!(type.flags & ts.TypeFlags.Object) && checker.getPropertiesOfType(type).length === 0 && !checker.isArrayType(type);
+  }
+
+  /**
+   * Find res.json(x) / res.send(x) calls, including res.status(201).json(x)
+   */
+  private findResponseCalls(
+    body: ts.Node,
+    resName: string,
+    context: FileContext
+  ): Array<{ status: string; type: ts.Type; node: ts.Node }> {
+    const ts = this.ts;
+    const calls: Array<{ status: string; type: ts.Type; node: ts.Node }> = [];
+
+    const visit = (node: ts.Node): void => {
+      if (
+        ts.isCallExpression(node) &&
+        ts.isPropertyAccessExpression(node.expression) &&
+        ['json', 'send'].includes(node.expression.name.text) &&
+        node.arguments.length > 0
+      ) {
+        let status = '200';
+        let receiver = node.expression.expression;
+        while (ts.isCallExpression(receiver) && ts.isPropertyAccessExpression(receiver.expression)) {
+          if (receiver.expression.name.text === 'status' && receiver.arguments[0]) {
+            const statusType = context.checker.getTypeAtLocation(receiver.arguments[0]);
+            status = statusType.isNumberLiteral() ? String(statusType.value) : 'default';
+          }
+          receiver = receiver.expression.expression;
+        }
+
+        if (ts.isIdentifier(receiver) && receiver.text === resName) {
+          calls.push({ status, type: context.checker.getTypeAtLocation(node.arguments[0]), node: node.arguments[0] });
+        }
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(body);
+
+    return calls;
+  }
+
+  private toParameters(
+    type: ts.Type | undefined,
+    location: OpenAPIParameter['in'],
+    node: ts.Node,
+    context: FileContext
+  ): OpenAPIParameter[] {
+    if (!type) return [];
+
+    return context.checker.getPropertiesOfType(type).map((property) => {
+      const schema = this.toSchema(context.checker.getTypeOfSymbolAtLocation(property, node), node, context, 1, []);
+      const description = this.getDescription(property, context);
+      return {
+        name: property.name,
+        in: location,
+        ...(description ? { description } : {}),
+        required: location === 'path' || !(property.flags & this.ts.SymbolFlags.Optional),
+        schema,
+      };
+    });
+  }
+
+  // ==========================================================================
+  // Type conversion
+  // ==========================================================================
+
+  private toSchema(type: ts.Type, node: ts.Node, context: FileContext, depth: number, stack: ts.Type[]): OpenAPISchema {
+    const ts = this.ts;
+    const flags = type.flags;
+
+    if (depth > this.options.maxDepth) return { type: 'object' };
+
+    if (flags & (ts.TypeFlags.Any | ts.TypeFlags.Unknown | ts.TypeFlags.Undefined | ts.TypeFlags.Void | ts.TypeFlags.Never)) {
+      return {};
+    }
+    if (flags & ts.TypeFlags.Null) return { nullable: true, enum: [null] };
+    if (flags & ts.TypeFlags.BooleanLike && !(flags & ts.TypeFlags.Union)) {
+      return flags & ts.TypeFlags.BooleanLiteral
+        ? { type: 'boolean', enum: [(type as any).intrinsicName === 'true'] }
+        : { type: 'boolean' };
+    }
+    if (type.isStringLiteral()) return { type: 'string', enum: [type.value] };
+    if (type.isNumberLiteral()) return { type: 'number', enum: [type.value] };
+    if (flags & ts.TypeFlags.StringLike) return { type: 'string' };
+    if (flags & ts.TypeFlags.NumberLike) return { type: 'number' };
+    if (flags & ts.TypeFlags.BigIntLike) return { type: 'integer', format: 'int64' };
+
+    if (type.isUnion()) return this.unionToSchema(type, node, context, depth, stack);
+
+    if (type.isIntersection() && !type.types.every((member) => member.flags & ts.TypeFlags.Object)) {
+      return { allOf: type.types.map((member) => this.toSchema(member, node, context, depth + 1, stack)) };
+    }
+
+    if (flags & (ts.TypeFlags.Object | ts.TypeFlags.Intersection)) {
+      return this.objectToSchema(type, node, context, depth, stack);
+    }
+
+    return {};
+  }
+
+  private unionToSchema(type: ts.UnionType, node: ts.Node, context: FileContext, depth: number, stack: ts.Type[]): OpenAPISchema {
+    const ts = this.ts;
+    const members = type.types.filter(
+      (member) => !(member.flags & (ts.TypeFlags.Null | ts.TypeFlags.Undefined | ts.TypeFlags.Void))
+    );
+    const nullable = type.types.some((member) => member.flags & ts.TypeFlags.Null);
+    const withNullable = (schema: OpenAPISchema): OpenAPISchema => (nullable ? { ...schema, nullable: true } : schema);
+
+    // boolean is the union true | false
+    const booleans = members.filter((member) => member.flags & ts.TypeFlags.BooleanLiteral);
+    const rest = booleans.length === 2 ? members.filter((member) => !booleans.includes(member)) : members;
+    const options: OpenAPISchema[] = booleans.length === 2 ? [{ type: 'boolean' }] : [];
+
+    if (rest.length > 0 && rest.every((member) => member.isStringLiteral())) {
+      options.push(this.withTypeName({ type: 'string', enum: rest.map((member) => (member as ts.StringLiteralType).value) }, type, context));
+    } else if (rest.length > 0 && rest.every((member) => member.isNumberLiteral())) {
+      options.push(this.withTypeName({ type: 'number', enum: rest.map((member) => (member as ts.NumberLiteralType).value) }, type, context));
+    } else {
+      options.push(...rest.map((member) => this.toSchema(member, node, context, depth + 1, stack)));
+    }
+
+    if (options.length === 0) return nullable ? { nullable: true, enum: [null] } : {};
+    if (options.length === 1) return withNullable(options[0]);
+    return withNullable({ oneOf: options });
+  }
+
+  private objectToSchema(type: ts.Type, node: ts.Node, context: FileContext, depth: number, stack: ts.Type[]): OpenAPISchema {
+    const ts = this.ts;
+    const { checker } = context;
+    const symbolName = type.getSymbol()?.getName();
+
+    if (symbolName === 'Date') return { type: 'string', format: 'date-time' };
+
+    if (checker.isArrayType(type) || checker.isTupleType(type)) {
+      const args = checker.getTypeArguments(type as ts.TypeReference);
+      if (checker.isTupleType(type)) {
+        return {
+          type: 'array',
+          items: { oneOf: args.map((arg) => this.toSchema(arg, node, context, depth + 1, stack)) },
+          minItems: args.length,
+          maxItems: args.length,
+        };
+      }
+      return { type: 'array', items: args[0] ? this.toSchema(args[0], node, context, depth + 1, stack) : {} };
+    }
+
+    const typeArgs = (type as ts.ObjectType).objectFlags & ts.ObjectFlags.Reference
+      ? checker.getTypeArguments(type as ts.TypeReference)
+      : [];
+    if ((symbolName === 'Promise' || symbolName === 'PromiseLike') && typeArgs[0]) {
+      return this.toSchema(typeArgs[0], node, context, depth + 1, stack);
+    }
+    if (symbolName === 'Set' && typeArgs[0]) {
+      return { type: 'array', items: this.toSchema(typeArgs[0], node, context, depth + 1, stack), uniqueItems: true };
+    }
+    if (symbolName === 'Map' && typeArgs[1]) {
+      return { type: 'object', additionalProperties: this.toSchema(typeArgs[1], node, context, depth + 1, stack) };
+    }
+
+    const name = this.getTypeName(type);
+    if (stack.includes(type)) {
+      if (!name) return { type: 'object', description: 'Recursive schema' };
+      context.recursive.add(name);
+      return { $ref: `#/components/schemas/${name}` };
+    }
+
+    for (const declaration of type.getSymbol()?.declarations || []) {
+      this.trackDependency(declaration, context);
+    }
+
+    const nextStack = [...stack, type];
+    const properties: Record<string, OpenAPISchema> = {};
+    const required: string[] = [];
+
+    for (const property of checker.getPropertiesOfType(type)) {
+      const propertyType = checker.getTypeOfSymbolAtLocation(property, node);
+      if (property.flags & ts.SymbolFlags.Method || propertyType.getCallSignatures().length > 0) continue;
+
+      const schema = this.toSchema(propertyType, node, context, depth + 1, nextStack);
+      properties[property.name] = schema.$ref ? schema : { ...schema, ...this.getPropertyAnnotations(property, context) };
+      if (!(property.flags & ts.SymbolFlags.Optional)) {
+        required.push(property.name);
+      }
+    }
+
+    const schema: OpenAPISchema = { type: 'object' };
+    if (Object.keys(properties).length > 0) schema.properties = properties;
+    if (required.length > 0) schema.required = required;
+
+    const indexType = checker.getIndexInfosOfType(type).find((info) => info.keyType.flags & ts.TypeFlags.String)?.type;
+    if (indexType) {
+      schema.additionalProperties = this.toSchema(indexType, node, context, depth + 1, nextStack);
+    }
+
+    const result = this.withTypeName(schema, type, context);
+    if (name && context.recursive.has(name)) {
+      context.schemas[name] = result;
+    }
+    return result;
+  }
+
+  /**
+   * Name of a non-generic interface, class, enum or type alias; anonymous and generic types have none
+   */
+  private getTypeName(type: ts.Type): string | undefined {
+    if (type.aliasSymbol) {
+      return type.aliasTypeArguments?.length ? undefined : type.aliasSymbol.getName();
+    }
+
+    const symbol = type.getSymbol();
+    const name = symbol?.getName();
+    if (!name || name.startsWith('__') || !(symbol!.flags & (this.ts.SymbolFlags.Interface | this.ts.SymbolFlags.Class | this.ts.SymbolFlags.Enum))) {
+      return undefined;
+    }
+    const isGeneric =
+      (type as ts.ObjectType).objectFlags & this.ts.ObjectFlags.Reference &&
+      (type as ts.TypeReference).typeArguments?.length;
+    return isGeneric ? undefined : name;
+  }
+
+  /**
+   * Named types get a title so component extraction can hoist them under their TypeScript name
+   */
+  private withTypeName(schema: OpenAPISchema, type: ts.Type, context: FileContext): OpenAPISchema {
+    const name = this.getTypeName(type);
+    if (type.isUnion() && !type.aliasSymbol) {
+      const enumSymbol = type.getSymbol();
+      if (enumSymbol && enumSymbol.flags & this.ts.SymbolFlags.Enum) {
+        enumSymbol.declarations?.forEach((declaration) => this.trackDependency(declaration, context));
+        return { title: enumSymbol.getName(), ...schema };
+      }
+    }
+    return name ? { title: name, ...schema } : schema;
+  }
+
+  private getDescription(symbol: ts.Symbol, context: FileContext): string | undefined {
+    const text = this.ts.displayPartsToString(symbol.getDocumentationComment(context.checker)).trim();
+    return text || undefined;
+  }
+
+  /**
+   * Description and supported JSDoc tags (@format, @example, @default, @minimum, @maximum,
+   * @minLength, @maxLength, @pattern) of a property; readonly properties are marked readOnly
+   */
+  private getPropertyAnnotations(property: ts.Symbol, context: FileContext): OpenAPISchema {
+    const annotations: OpenAPISchema = {};
+    const description = this.getDescription(property, context);
+    if (description) annotations.description = description;
+
+    for (const tag of property.getJsDocTags(context.checker)) {
+      const value = this.ts.displayPartsToString(tag.text).trim();
+      if (tag.name === 'format' || tag.name === 'pattern') {
+        annotations[tag.name] = value;
+      } else if (tag.name === 'example' || tag.name === 'default') {
+        annotations[tag.name] = parseTagValue(value);
+      } else if (['minimum', 'maximum', 'minLength', 'maxLength'].includes(tag.name) && !Number.isNaN(Number(value))) {
+        annotations[tag.name as 'minimum' | 'maximum' | 'minLength' | 'maxLength'] = Number(value);
+      }
+    }
+
+    const declaration = property.valueDeclaration;
+    if (declaration && this.ts.getCombinedModifierFlags(declaration as ts.Declaration) & this.ts.ModifierFlags.Readonly) {
+      annotations.readOnly = true;
+    }
+
+    return annotations;
+  }
+
+  private trackDependency(declaration: ts.Node, context: FileContext): void {
+    const fileName = declaration.getSourceFile().fileName;
+    if (!fileName.includes('/node_modules/') && !declaration.getSourceFile().isDeclarationFile) {
+      context.dependencies.add(path.resolve(fileName));
+    }
+  }
+
+  // ==========================================================================
+  // Compiler options and cache
+  // ==========================================================================
+
+  private getCompilerOptions(): ts.CompilerOptions {
+    const ts = this.ts;
+    const defaults: ts.CompilerOptions = {
+      target: ts.ScriptTarget.ES2020,
+      module: ts.ModuleKind.CommonJS,
+      moduleResolution: ts.ModuleResolutionKind.NodeJs,
+      strict: true,
+      esModuleInterop: true,
+      skipLibCheck: true,
+    };
+
+    const configPath = this.options.tsconfig
+      ? path.resolve(this.options.cwd, this.options.tsconfig)
+      : path.join(this.options.cwd, 'tsconfig.json');
+    if (!fs.existsSync(configPath)) {
+      return { ...defaults, noEmit: true };
+    }
+
+    const { config, error } = ts.readConfigFile(configPath, ts.sys.readFile);
+    if (error) {
+      throw new Error(`Failed to read ${configPath}: ${ts.flattenDiagnosticMessageText(error.messageText, '\n')}`);
+    }
+    const parsed = ts.parseJsonConfigFileContent(config, ts.sys, path.dirname(configPath));
+    return { ...parsed.options, noEmit: true };
+  }
+
+  private isFresh(entry: CacheEntry | undefined, hash: string): boolean {
+    if (!entry || entry.hash !== hash) return false;
+    return Object.entries(entry.dependencies).every(
+      ([file, dependencyHash]) => fs.existsSync(file) && hashFile(file) === dependencyHash
+    );
+  }
+
+  private loadCache(): void {
+    const { cacheFile } = this.options;
+    if (!cacheFile || !fs.existsSync(cacheFile)) return;
+
+    try {
+      const data = JSON.parse(fs.readFileSync(cacheFile, 'utf-8'));
+      if (data.version === CACHE_VERSION) {
+        this.cache = new Map(Object.entries(data.files || {}));
+      }
+    } catch {
+      // A corrupt cache is rebuilt on the next analyze()
+    }
+  }
+
+  private saveCache(): void {
+    const { cacheFile } = this.options;
+    if (!cacheFile) return;
+
+    fs.mkdirSync(path.dirname(cacheFile), { recursive: true });
+    fs.writeFileSync(
+      cacheFile,
+      JSON.stringify({ version: CACHE_VERSION, files: Object.fromEntries(this.cache) }),
+      'utf-8'
+    );
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function hashFile(file: string): string {
+  return crypto.createHash('sha1').update(fs.readFileSync(file)).digest('hex');
+}
+
+const pathExtractor = new PathParameterExtractor();
+
+function canonicalPath(routePath: string): string {
+  return pathExtractor.normalizePath(routePath).replace(/\{[^}]+\}/g, '{}').replace(/\/+$/, '') || '/';
+}
+
+function pathParameterNames(routePath: string): string[] {
+  return pathExtractor.extractPathParameters(routePath).parameters.map((param) => param.name);
+}
+
+function parseTagValue(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
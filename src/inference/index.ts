@@ -4,6 +4,13 @@
  */
 
 export { TypeInferenceEngine } from './TypeInferenceEngine';
+
+export { HandlerTypeAnalyzer } from './HandlerTypeAnalyzer';
+export type {
+  HandlerTypeAnalyzerOptions,
+  HandlerTypeInfo,
+  HandlerTypeAnalysis,
+} from './HandlerTypeAnalyzer';
 export type {
   TypeDefinition,
   InferenceResult,
@@ -58,13 +58,13 @@ describe('Integration Tests', () => {
 
       const spec = generator.generate(routes);
 
-      const userPath = spec.paths['/users/:id'].get;
+      const userPath = spec.paths['/users/{id}'].get;
       expect(userPath.parameters).toBeDefined();
       expect(userPath.parameters).toHaveLength(1);
       expect(userPath.parameters![0].name).toBe('id');
       expect(userPath.parameters![0].in).toBe('path');
 
-      const commentPath = spec.paths['/posts/:postId/comments/:commentId'].get;
+      const commentPath = spec.paths['/posts/{postId}/comments/{commentId}'].get;
       expect(commentPath.parameters).toHaveLength(2);
     });
 
@@ -92,9 +92,9 @@ describe('Integration Tests', () => {
       const spec = generator.generate(routes);
 
       expect(spec.paths['/users'].get.operationId).toBeDefined();
-      expect(spec.paths['/posts/:id'].post.operationId).toBeDefined();
+      expect(spec.paths['/posts/{id}'].post.operationId).toBeDefined();
       expect(spec.paths['/users'].get.operationId).toContain('get');
-      expect(spec.paths['/posts/:id'].post.operationId).toContain('post');
+      expect(spec.paths['/posts/{id}'].post.operationId).toContain('post');
     });
 
     it('should include default responses', () => {
@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createCaptureSampler, schemaShape } from './captureSampling';
+
+describe('createCaptureSampler', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('should sample every request by default', () => {
+    const sampler = createCaptureSampler();
+
+    expect([1, 2, 3].map(() => sampler.sample('GET', '/users'))).toEqual([true, true, true]);
+    expect(sampler.admit('GET', '/users')).toBe(true);
+    expect(sampler.metrics()).toEqual({ captured: 0, skipped: 0, dropped: 0, routes: { 'GET /users': expect.any(Object) } });
+  });
+
+  it('should sample at the configured rate', () => {
+    vi.spyOn(Math, 'random').mockReturnValueOnce(0.05).mockReturnValueOnce(0.5);
+    const sampler = createCaptureSampler({ rate: 0.1 });
+
+    expect(sampler.sample('GET', '/users')).toBe(true);
+    expect(sampler.sample('GET', '/users')).toBe(false);
+  });
+
+  it('should prefer the first matching route rate', () => {
+    const sampler = createCaptureSampler({ rate: 1, routes: { 'GET /health': 0, '/users/*': 1 } });
+
+    expect(sampler.sample('GET', '/health')).toBe(false);
+    expect(sampler.sample('POST', '/health')).toBe(true);
+    expect(sampler.sample('GET', '/users/1')).toBe(true);
+  });
+
+  it('should stop capturing a route once enough shapes were seen', () => {
+    const sampler = createCaptureSampler({ uniqueShapes: 2 });
+
+    sampler.captured('GET', '/users/:id', 'a');
+    sampler.captured('GET', '/users/:id', 'a');
+    expect(sampler.sample('GET', '/users/1')).toBe(true);
+    expect(sampler.admit('GET', '/users/:id')).toBe(true);
+
+    sampler.captured('GET', '/users/:id', 'b');
+    expect(sampler.sample('GET', '/users/2')).toBe(false);
+    expect(sampler.admit('GET', '/users/:id')).toBe(false);
+    expect(sampler.sample('DELETE', '/users/2')).toBe(true);
+    expect(sampler.sample('GET', '/users/2/orders')).toBe(true);
+    expect(sampler.metrics().routes['GET /users/:id']).toEqual({ captured: 3, skipped: 1, dropped: 0, shapes: 2 });
+  });
+
+  it('should keep one state per route template', () => {
+    const sampler = createCaptureSampler({ uniqueShapes: 1 });
+
+    sampler.captured('GET', '/files/*path', 'a');
+    sampler.captured('GET', '/docs{/:page}', 'a');
+    for (let id = 0; id < 100; id++) {
+      sampler.skipped('GET', '*');
+    }
+
+    expect(sampler.sample('GET', '/files/a/b.txt')).toBe(false);
+    expect(sampler.sample('GET', '/docs')).toBe(false);
+    expect(sampler.sample('GET', '/docs/intro')).toBe(false);
+    expect(Object.keys(sampler.metrics().routes)).toEqual(['GET /files/*path', 'GET /docs{/:page}', 'GET *']);
+  });
+
+  it('should drop captures over the per-minute budget', () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-01-01T00:00:00Z'));
+    const sampler = createCaptureSampler({ budgetPerMinute: 2 });
+
+    expect([1, 2, 3].map(() => sampler.admit('GET', '/users'))).toEqual([true, true, false]);
+
+    vi.setSystemTime(new Date('2024-01-01T00:01:00Z'));
+    expect(sampler.admit('GET', '/users')).toBe(true);
+    expect(sampler.metrics()).toMatchObject({ skipped: 0, dropped: 1 });
+  });
+
+  it('should reset its counters', () => {
+    const sampler = createCaptureSampler({ uniqueShapes: 1 });
+    sampler.captured('GET', '/users', 'a');
+    sampler.dropped('GET', '/users');
+
+    sampler.reset();
+
+    expect(sampler.metrics()).toEqual({ captured: 0, skipped: 0, dropped: 0, routes: {} });
+    expect(sampler.sample('GET', '/users')).toBe(true);
+    expect(sampler.admit('GET', '/users')).toBe(true);
+  });
+});
+
+describe('schemaShape', () => {
+  it('should ignore example values', () => {
+    expect(schemaShape({ type: 'string', example: 'a' })).toBe(schemaShape({ type: 'string', example: 'b' }));
+    expect(schemaShape({ type: 'string' })).not.toBe(schemaShape({ type: 'number' }));
+  });
+});
@@ -0,0 +1,203 @@
+import { matchesRoute } from '../core/SnapshotStorage';
+
+export interface RuntimeCaptureSampling {
+  /** Fraction of requests to capture, from 0 to 1 (default: 1) */
+  rate?: number;
+  /**
+   * Rates for specific routes, keyed by 'METHOD /path' or '/path' patterns as in
+   * SnapshotStorage routeLimits. The first matching key wins over `rate`.
+   */
+  routes?: Record<string, number>;
+  /** Stop capturing a route once this many distinct request/response shapes were seen */
+  uniqueShapes?: number;
+  /** Captures allowed per minute across all routes; requests over budget are dropped */
+  budgetPerMinute?: number;
+}
+
+export interface RouteCaptureMetrics {
+  captured: number;
+  skipped: number;
+  dropped: number;
+  /** Distinct request/response shapes captured */
+  shapes: number;
+}
+
+export interface RuntimeCaptureMetrics {
+  /** Requests whose snapshot was stored */
+  captured: number;
+  /** Requests left out by sampling or because their route has enough shapes */
+  skipped: number;
+  /** Requests that should have been captured but were not: over budget, queue full or failed */
+  dropped: number;
+  /** Captures waiting for their deferred task */
+  pending: number;
+  /**
+   * Counts per route, keyed by method and Express route template ('GET /users/:id').
+   * Requests no route handled, such as 404s and static files, count under 'METHOD *'.
+   */
+  routes: Record<string, RouteCaptureMetrics>;
+}
+
+/**
+ * Decides which requests runtimeCapture inspects and counts the outcomes. State is
+ * kept per route template ('GET /users/:id') rather than per URL, so `uniqueShapes`
+ * saturates and memory stays bounded by the number of routes.
+ */
+export interface CaptureSampler {
+  /**
+   * Whether to record the response of a request, decided before routing from its
+   * path: the sampling rate, and routes whose template already has enough shapes.
+   * Requests left out are counted with `skipped` once their route is known.
+   */
+  sample(method: string, path: string): boolean;
+  /** Whether to capture a recorded response of a route; counts it as skipped or dropped when not */
+  admit(method: string, route: string): boolean;
+  /** Record a request left out by sampling */
+  skipped(method: string, route: string): void;
+  /** Record a stored capture and the shape of its schemas */
+  captured(method: string, route: string, shape: string): void;
+  /** Record an admitted capture that could not be completed */
+  dropped(method: string, route: string): void;
+  metrics(): Omit<RuntimeCaptureMetrics, 'pending'>;
+  reset(): void;
+}
+
+interface RouteState extends RouteCaptureMetrics {
+  shapeKeys: Set<string>;
+  method: string;
+  /** Matches the paths of a route template; absent for the catch-all route */
+  matcher?: RegExp;
+}
+
+const BUDGET_WINDOW_MS = 60 * 1000;
+
+export function createCaptureSampler(sampling: RuntimeCaptureSampling = {}): CaptureSampler {
+  const { rate = 1, routes = {}, uniqueShapes, budgetPerMinute } = sampling;
+  const routeRates = Object.entries(routes);
+  let states = new Map<string, RouteState>();
+  let windowStart = 0;
+  let windowUsed = 0;
+
+  const stateFor = (method: string, route: string): RouteState => {
+    const key = `${method.toUpperCase()} ${route}`;
+    let state = states.get(key);
+    if (!state) {
+      state = {
+        captured: 0,
+        skipped: 0,
+        dropped: 0,
+        shapes: 0,
+        shapeKeys: new Set(),
+        method: method.toUpperCase(),
+        matcher: route.startsWith('/') ? templateMatcher(route) : undefined,
+      };
+      states.set(key, state);
+    }
+    return state;
+  };
+
+  const rateFor = (method: string, path: string): number => {
+    const match = routeRates.find(([pattern]) => matchesRoute(pattern, method, path));
+    return match ? match[1] : rate;
+  };
+
+  const saturated = (state: RouteState): boolean => uniqueShapes !== undefined && state.shapeKeys.size >= uniqueShapes;
+
+  return {
+    sample(method, path) {
+      const routeRate = rateFor(method, path);
+      if (!(routeRate >= 1 || (routeRate > 0 && Math.random() < routeRate))) {
+        return false;
+      }
+
+      if (uniqueShapes !== undefined) {
+        const upper = method.toUpperCase();
+        for (const state of states.values()) {
+          if (state.method === upper && state.matcher?.test(path) && saturated(state)) {
+            return false;
+          }
+        }
+      }
+
+      return true;
+    },
+
+    admit(method, route) {
+      const state = stateFor(method, route);
+      if (saturated(state)) {
+        state.skipped++;
+        return false;
+      }
+
+      if (budgetPerMinute !== undefined) {
+        const now = Date.now();
+        if (now - windowStart >= BUDGET_WINDOW_MS) {
+          windowStart = now;
+          windowUsed = 0;
+        }
+        if (windowUsed >= budgetPerMinute) {
+          state.dropped++;
+          return false;
+        }
+        windowUsed++;
+      }
+
+      return true;
+    },
+
+    skipped(method, route) {
+      stateFor(method, route).skipped++;
+    },
+
+    captured(method, route, shape) {
+      const state = stateFor(method, route);
+      state.captured++;
+      state.shapeKeys.add(shape);
+      state.shapes = state.shapeKeys.size;
+    },
+
+    dropped(method, route) {
+      stateFor(method, route).dropped++;
+    },
+
+    metrics() {
+      const result: Omit<RuntimeCaptureMetrics, 'pending'> = { captured: 0, skipped: 0, dropped: 0, routes: {} };
+      for (const [key, { captured, skipped, dropped, shapes }] of states) {
+        result.routes[key] = { captured, skipped, dropped, shapes };
+        result.captured += captured;
+        result.skipped += skipped;
+        result.dropped += dropped;
+      }
+      return result;
+    },
+
+    reset() {
+      states = new Map();
+      windowStart = 0;
+      windowUsed = 0;
+    },
+  };
+}
+
+/**
+ * Regex for the paths of an Express route template: `:name` parameters, `*name`
+ * wildcards and `{optional}` groups
+ */
+function templateMatcher(template: string): RegExp {
+  const source = template.replace(/:\w+\??|\*\w*|[{}]|[.+?^$()[\]\\|]/g, (token) => {
+    if (token[0] === ':') return token.endsWith('?') ? '[^/]*' : '[^/]+';
+    if (token[0] === '*') return '.+';
+    if (token === '{') return '(?:';
+    if (token === '}') return ')?';
+    return `\\${token}`;
+  });
+  return new RegExp(`^${source}/?$`, 'i');
+}
+
+/**
+ * Identity of a schema without its example values, so requests that only differ in
+ * data count as one shape
+ */
+export function schemaShape(schema: unknown): string {
+  return JSON.stringify(schema, (key, value) => (key === 'example' ? undefined : value)) ?? 'null';
+}
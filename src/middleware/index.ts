@@ -1,5 +1,28 @@
 export { runtimeCapture } from './runtimeCapture';
 export { createSwaggerUIMiddleware } from './swaggerUI';
+export { validateRequests } from './validateRequests';
+export {
+  createResponseContractChecker,
+  consoleContractReporter,
+  jsonFileContractReporter,
+} from './responseContract';
 
-export type { RuntimeCaptureConfig } from './runtimeCapture';
+export type { RuntimeCaptureConfig, RuntimeCaptureMiddleware } from './runtimeCapture';
+export type {
+  RuntimeCaptureSampling,
+  RuntimeCaptureMetrics,
+  RouteCaptureMetrics,
+} from './captureSampling';
 export type { SwaggerUIConfig } from './swaggerUI';
+export type {
+  ValidateRequestsOptions,
+  ValidationIssue,
+  ValidationProblem,
+} from './validateRequests';
+export type {
+  ResponseContractConfig,
+  ResponseContractChecker,
+  ContractReport,
+  ContractIssue,
+  ContractReporter,
+} from './responseContract';
@@ -0,0 +1,236 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import express from 'express';
+import request from 'supertest';
+import { runtimeCapture } from './runtimeCapture';
+import {
+  createResponseContractChecker,
+  jsonFileContractReporter,
+} from './responseContract';
+import type { ContractReport } from './responseContract';
+import type { OpenAPISpec } from '../types';
+
+const spec: OpenAPISpec = {
+  openapi: '3.1.0',
+  info: { title: 'Test API', version: '1.0.0' },
+  paths: {
+    '/users/:id': {
+      get: {
+        responses: {
+          '200': {
+            description: 'OK',
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/User' } } },
+          },
+          '4XX': {
+            description: 'Client error',
+            content: {
+              'application/json': {
+                schema: { type: 'object', properties: { error: { type: 'string' } } },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/users': {
+      get: {
+        responses: {
+          '200': {
+            description: 'OK',
+            content: {
+              'application/json': {
+                schema: { type: 'array', items: { $ref: '#/components/schemas/User' } },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/health': {
+      get: { responses: { '200': { description: 'OK' } } },
+    },
+  },
+  components: {
+    schemas: {
+      User: {
+        type: 'object',
+        properties: {
+          id: { type: 'integer' },
+          name: { type: 'string' },
+          meta: { type: 'object', additionalProperties: true },
+        },
+        required: ['id', 'name'],
+      },
+    },
+  },
+};
+
+describe('createResponseContractChecker', () => {
+  const checker = createResponseContractChecker({ spec });
+
+  it('should accept a conforming response', () => {
+    expect(checker.check('GET', '/users/1', 200, { id: 1, name: 'Alice' })).toBeNull();
+  });
+
+  it('should report undocumented status codes', () => {
+    const report = checker.check('GET', '/users/1', 500, { message: 'boom' });
+
+    expect(report).toMatchObject({ method: 'GET', path: '/users/1', route: '/users/:id', statusCode: 500 });
+    expect(report!.issues).toEqual([
+      expect.objectContaining({ kind: 'undocumented-status', pointer: '' }),
+    ]);
+  });
+
+  it('should match status ranges', () => {
+    expect(checker.check('GET', '/users/1', 404, { error: 'Not found' })).toBeNull();
+  });
+
+  it('should report missing, extra and mistyped fields', () => {
+    const report = checker.check('GET', '/users/1', 200, { id: 'one', extra: true });
+    const kinds = report!.issues.map((issue) => `${issue.kind} ${issue.pointer}`);
+
+    expect(kinds).toEqual(
+      expect.arrayContaining([
+        'missing-field /name',
+        'schema-mismatch /id',
+        'undocumented-field /extra',
+      ])
+    );
+  });
+
+  it('should check array items and respect explicit additionalProperties', () => {
+    const report = checker.check('GET', '/users', 200, [
+      { id: 1, name: 'Alice', meta: { anything: 1 } },
+      { id: 2, name: 'Bob', age: 30 },
+    ]);
+
+    expect(report!.issues).toEqual([
+      { kind: 'undocumented-field', pointer: '/1/age', message: 'Field "age" is not documented' },
+    ]);
+  });
+
+  it('should allow additional properties when configured', () => {
+    const lenient = createResponseContractChecker({ spec, allowAdditionalProperties: true });
+
+    expect(lenient.check('GET', '/users/1', 200, { id: 1, name: 'Alice', extra: true })).toBeNull();
+  });
+
+  it('should ignore undocumented routes and responses without schemas', () => {
+    expect(checker.check('GET', '/unknown', 200, {})).toBeNull();
+    expect(checker.check('GET', '/health', 200, { anything: true })).toBeNull();
+  });
+
+  it('should skip non-JSON responses', () => {
+    expect(checker.check('GET', '/users/1', 200, '<html>', 'text/html')).toBeNull();
+  });
+
+  it('should match parameters embedded in path segments', () => {
+    const versioned = createResponseContractChecker({
+      spec: {
+        ...spec,
+        paths: { '/v{version}/users/{user-id}.json': spec.paths['/users/:id'] },
+      },
+    });
+
+    expect(versioned.check('GET', '/v2/users/1.json', 200, { id: 1, name: 'Alice' })).toBeNull();
+    expect(versioned.check('GET', '/v2/users/1.json', 200, { id: 1 })).toMatchObject({
+      route: '/v{version}/users/{user-id}.json',
+    });
+  });
+});
+
+describe('runtimeCapture contract mode', () => {
+  function createApp(reporter: (report: ContractReport) => void) {
+    const app = express();
+    app.use(runtimeCapture({ enabled: false, contract: { spec, reporter, maxBodySize: 256 } }));
+    app.get('/users', (req, res) => {
+      res.setHeader('Content-Type', 'application/json');
+      if (req.query.large) {
+        res.end(JSON.stringify(Array.from({ length: 20 }, (_, id) => ({ id, name: id }))));
+        return;
+      }
+      res.write('[{"id":1,');
+      res.end('"name":1}]');
+    });
+    app.get('/users/:id', (req, res) => {
+      if (req.params.id === 'bad') {
+        res.json({ id: 'x' });
+      } else if (req.params.id === 'crash') {
+        res.status(500).send({ message: 'boom' });
+      } else {
+        res.json({ id: 1, name: 'Alice' });
+      }
+    });
+    return app;
+  }
+
+  it('should not report conforming responses', async () => {
+    const reporter = vi.fn();
+    const res = await request(createApp(reporter)).get('/users/1');
+
+    expect(res.status).toBe(200);
+    expect(reporter).not.toHaveBeenCalled();
+  });
+
+  it('should report violations without altering the response', async () => {
+    const reporter = vi.fn();
+    const res = await request(createApp(reporter)).get('/users/bad');
+
+    expect(res.body).toEqual({ id: 'x' });
+    expect(reporter).toHaveBeenCalledTimes(1);
+    expect(reporter.mock.calls[0][0].route).toBe('/users/:id');
+  });
+
+  it('should check res.send(object) once', async () => {
+    const reporter = vi.fn();
+    await request(createApp(reporter)).get('/users/crash');
+
+    expect(reporter).toHaveBeenCalledTimes(1);
+    expect(reporter.mock.calls[0][0].issues[0].kind).toBe('undocumented-status');
+  });
+
+  it('should check responses written with res.write and res.end', async () => {
+    const reporter = vi.fn();
+    await request(createApp(reporter)).get('/users');
+
+    expect(reporter).toHaveBeenCalledTimes(1);
+    expect(reporter.mock.calls[0][0]).toMatchObject({ route: '/users', issues: [{ kind: 'schema-mismatch', pointer: '/0/name' }] });
+  });
+
+  it('should only check the status of bodies over maxBodySize', async () => {
+    const reporter = vi.fn();
+    await request(createApp(reporter)).get('/users?large=1');
+
+    expect(reporter).not.toHaveBeenCalled();
+  });
+});
+
+describe('jsonFileContractReporter', () => {
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'contract-'));
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should append one JSON document per report', () => {
+    const file = path.join(tempDir, 'nested', 'violations.jsonl');
+    const reporter = jsonFileContractReporter(file);
+    const report: ContractReport = {
+      method: 'GET',
+      path: '/users/1',
+      route: '/users/:id',
+      statusCode: 500,
+      timestamp: new Date().toISOString(),
+      issues: [],
+    };
+
+    reporter(report);
+    reporter(report);
+
+    const lines = fs.readFileSync(file, 'utf-8').trim().split('\n');
+    expect(lines).toHaveLength(2);
+    expect(JSON.parse(lines[0])).toEqual(report);
+  });
+});
@@ -0,0 +1,266 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import Ajv from 'ajv';
+import type { ValidateFunction } from 'ajv';
+import addFormats from 'ajv-formats';
+import type { OpenAPISpec, OpenAPIResponse } from '../types';
+import {
+  compileRoutes,
+  matchRoute,
+  stripBasePath,
+  toJsonSchema,
+  toJsonSchemaDefinitions,
+  isJsonMediaType,
+} from './specRoutes';
+
+export interface ResponseContractConfig {
+  /** Spec that documents the expected responses */
+  spec: OpenAPISpec;
+  /** Receives a report for every response that breaks the contract (default: console) */
+  reporter?: ContractReporter;
+  /** Accept response fields that the schema does not document (default: false) */
+  allowAdditionalProperties?: boolean;
+  /** Base path the API is mounted under, stripped before matching (e.g. '/api') */
+  basePath?: string;
+  /** Bytes of a response body read for the check; longer bodies are only checked for their status (default: 1 MB) */
+  maxBodySize?: number;
+}
+
+export interface ContractIssue {
+  kind: 'undocumented-status' | 'missing-field' | 'undocumented-field' | 'schema-mismatch';
+  /** JSON pointer into the response body, empty for the body itself */
+  pointer: string;
+  message: string;
+}
+
+export interface ContractReport {
+  method: string;
+  path: string;
+  /** Matching path template from the spec */
+  route: string;
+  statusCode: number;
+  timestamp: string;
+  issues: ContractIssue[];
+}
+
+export type ContractReporter = (report: ContractReport) => void;
+
+/**
+ * Checks a single response against the spec. Routes missing from the spec are ignored.
+ */
+export interface ResponseContractChecker {
+  check(method: string, requestPath: string, statusCode: number, body: unknown, contentType?: string): ContractReport | null;
+}
+
+// ============================================================================
+// Reporters
+// ============================================================================
+
+export function consoleContractReporter(): ContractReporter {
+  return (report) => {
+    console.warn(
+      `[ResponseContract] ${report.method} ${report.path} -> ${report.statusCode} violates ${report.route}`
+    );
+    for (const issue of report.issues) {
+      console.warn(`  - ${issue.kind}${issue.pointer ? ` at ${issue.pointer}` : ''}: ${issue.message}`);
+    }
+  };
+}
+
+/**
+ * Append each report to a file as one JSON document per line
+ */
+export function jsonFileContractReporter(filePath: string): ContractReporter {
+  const resolved = path.resolve(filePath);
+  fs.mkdirSync(path.dirname(resolved), { recursive: true });
+
+  return (report) => {
+    fs.appendFileSync(resolved, JSON.stringify(report) + '\n', 'utf-8');
+  };
+}
+
+// ============================================================================
+// Checker
+// ============================================================================
+
+export function createResponseContractChecker(config: ResponseContractConfig): ResponseContractChecker {
+  const { spec, allowAdditionalProperties = false, basePath = '' } = config;
+
+  const routes = compileRoutes(spec);
+  const definitions = toJsonSchemaDefinitions(spec);
+  const ajv = new Ajv({ allErrors: true, strict: false, logger: false });
+  addFormats(ajv);
+  const validators = new Map<string, ValidateFunction>();
+
+  return {
+    check(method, requestPath, statusCode, body, contentType = '') {
+      const match = matchRoute(routes, stripBasePath(requestPath, basePath), method.toLowerCase());
+      if (!match) {
+        return null;
+      }
+
+      const { route, operation } = match;
+      const report = (issues: ContractIssue[]): ContractReport | null =>
+        issues.length === 0
+          ? null
+          : {
+              method: method.toUpperCase(),
+              path: requestPath,
+              route: route.template,
+              statusCode,
+              timestamp: new Date().toISOString(),
+              issues,
+            };
+
+      const documented = findResponse(operation.responses || {}, statusCode);
+      if (!documented) {
+        return report([
+          {
+            kind: 'undocumented-status',
+            pointer: '',
+            message: `Status ${statusCode} is not documented for ${method.toUpperCase()} ${route.template}`,
+          },
+        ]);
+      }
+
+      const [code, response] = documented;
+      const media = selectMediaType(response, contentType);
+      if (!media || body === undefined) {
+        return null;
+      }
+
+      const key = `${method.toLowerCase()} ${route.template} ${code} ${media}`;
+      if (!validators.has(key)) {
+        const schema = response.content![media].schema;
+        validators.set(key, ajv.compile({ ...toJsonSchema(schema), definitions }));
+      }
+
+      const validate = validators.get(key)!;
+      const issues: ContractIssue[] = [];
+
+      if (!validate(body)) {
+        for (const error of validate.errors || []) {
+          if (error.keyword === 'required') {
+            const missing = (error.params as any).missingProperty;
+            issues.push({
+              kind: 'missing-field',
+              pointer: `${error.instancePath}/${missing}`,
+              message: `Documented field "${missing}" is missing`,
+            });
+          } else {
+            issues.push({
+              kind: 'schema-mismatch',
+              pointer: error.instancePath,
+              message: error.message || 'does not match the documented schema',
+            });
+          }
+        }
+      }
+
+      if (!allowAdditionalProperties) {
+        const schema = toJsonSchema(response.content![media].schema);
+        findUndocumentedFields(body, schema, definitions, '', issues);
+      }
+
+      return report(issues);
+    },
+  };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Resolve the documented response for a status: exact code, then range (2XX), then default
+ */
+function findResponse(
+  responses: Record<string, OpenAPIResponse>,
+  statusCode: number
+): [string, OpenAPIResponse] | null {
+  const exact = String(statusCode);
+  const range = `${exact[0]}XX`;
+
+  for (const candidate of [exact, range, 'default']) {
+    const key = Object.keys(responses).find((code) => code.toUpperCase() === candidate);
+    if (key) return [key, responses[key]];
+  }
+
+  return null;
+}
+
+function selectMediaType(response: OpenAPIResponse, contentType: string): string | null {
+  const declared = Object.keys(response.content || {}).filter(
+    (media) => response.content![media]?.schema
+  );
+  if (declared.length === 0) return null;
+
+  const actual = contentType.split(';')[0].trim().toLowerCase();
+  if (actual) {
+    const exact = declared.find((media) => media.toLowerCase() === actual);
+    if (exact) return isJsonMediaType(exact) ? exact : null;
+    if (!isJsonMediaType(actual)) return null;
+  }
+
+  return declared.find(isJsonMediaType) || null;
+}
+
+/**
+ * Walk the body alongside its schema and report object keys the schema does not declare.
+ * Only objects with declared properties and no explicit additionalProperties are checked.
+ */
+function findUndocumentedFields(
+  value: unknown,
+  schema: any,
+  definitions: Record<string, any>,
+  pointer: string,
+  issues: ContractIssue[],
+  depth = 0
+): void {
+  if (!schema || typeof schema !== 'object' || value === null || typeof value !== 'object' || depth > 32) {
+    return;
+  }
+
+  if (schema.$ref) {
+    const name = String(schema.$ref).replace('#/definitions/', '');
+    findUndocumentedFields(value, definitions[name], definitions, pointer, issues, depth + 1);
+    return;
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.items && !Array.isArray(schema.items)) {
+      value.forEach((item, index) =>
+        findUndocumentedFields(item, schema.items, definitions, `${pointer}/${index}`, issues, depth + 1)
+      );
+    }
+    return;
+  }
+
+  // allOf members each document part of the object, so merge their properties first
+  const members = [schema, ...(schema.allOf || [])].map((member: any) =>
+    member.$ref ? definitions[String(member.$ref).replace('#/definitions/', '')] || {} : member
+  );
+  const properties: Record<string, any> = {};
+  let closed = false;
+  for (const member of members) {
+    if (member.properties) {
+      Object.assign(properties, member.properties);
+      closed = true;
+    }
+    if (member.additionalProperties !== undefined) return;
+  }
+  if (!closed || schema.anyOf || schema.oneOf) return;
+
+  for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+    const childPointer = `${pointer}/${key.replace(/~/g, '~0').replace(/\//g, '~1')}`;
+    if (!(key in properties)) {
+      issues.push({
+        kind: 'undocumented-field',
+        pointer: childPointer,
+        message: `Field "${key}" is not documented`,
+      });
+    } else {
+      findUndocumentedFields(child, properties[key], definitions, childPointer, issues, depth + 1);
+    }
+  }
+}
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { decodeResponseBody } from './responseRecorder';
+import type { RecordedResponse } from './responseRecorder';
+
+function recorded(body: string | Buffer, contentType?: string, truncated = false): RecordedResponse {
+  const buffer = typeof body === 'string' ? Buffer.from(body) : body;
+  return { statusCode: 200, contentType, headers: {}, body: buffer, size: buffer.length, truncated };
+}
+
+describe('decodeResponseBody', () => {
+  it('should parse JSON and keep text as it is', () => {
+    expect(decodeResponseBody(recorded('{"id":1}', 'application/problem+json'))).toEqual({ body: { id: 1 }, binary: false });
+    expect(decodeResponseBody(recorded('<p>hi</p>', 'text/html'))).toEqual({ body: '<p>hi</p>', binary: false });
+    expect(decodeResponseBody(recorded('{"id":1}'))).toEqual({ body: { id: 1 }, binary: false });
+    expect(decodeResponseBody(recorded(''))).toEqual({ body: undefined, binary: false });
+  });
+
+  it('should keep the complete members of truncated JSON', () => {
+    expect(decodeResponseBody(recorded('{"id":1,"name":"a","tags":["x",', 'application/json', true)).body).toEqual({ id: 1, name: 'a' });
+    expect(decodeResponseBody(recorded('[{"s":"a,b"},{"s":"}', 'application/json', true)).body).toEqual([{ s: 'a,b' }]);
+    expect(decodeResponseBody(recorded('{"broken', 'application/json')).body).toBeUndefined();
+  });
+
+  it('should parse NDJSON records and drop a cut-off last line', () => {
+    const body = '{"id":1}\n{"id":2}\n{"id"';
+
+    expect(decodeResponseBody(recorded(body, 'application/x-ndjson', true)).body).toEqual([{ id: 1 }, { id: 2 }]);
+  });
+
+  it('should detect binary bodies by type or invalid UTF-8', () => {
+    expect(decodeResponseBody(recorded('%PDF-1.7', 'application/pdf')).binary).toBe(true);
+    expect(decodeResponseBody(recorded(Buffer.from([0xff, 0xfe, 0x00]))).binary).toBe(true);
+    expect(decodeResponseBody(recorded('<svg/>', 'image/svg+xml')).binary).toBe(false);
+  });
+});
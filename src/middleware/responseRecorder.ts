@@ -0,0 +1,201 @@
+import type { Response } from 'express';
+
+/**
+ * A response as it went over the wire, with the body cut at the capture limit
+ */
+export interface RecordedResponse {
+  statusCode: number;
+  /** Media type without parameters, e.g. 'application/json' */
+  contentType?: string;
+  headers: Record<string, string>;
+  body: Buffer;
+  /** Bytes written in total, including those past the capture limit */
+  size: number;
+  truncated: boolean;
+}
+
+export interface DecodedResponseBody {
+  /** Parsed JSON, NDJSON records as an array, text, or undefined for empty and binary bodies */
+  body: unknown;
+  binary: boolean;
+}
+
+type Chunk = string | Uint8Array;
+
+/**
+ * Patch res.write and res.end so every way of answering - res.send, res.json,
+ * res.end, piped streams, res.sendFile - is recorded once. onEnd runs after the
+ * body has been handed to Node.
+ */
+export function recordResponse(res: Response, maxBytes: number, onEnd: (response: RecordedResponse) => void): void {
+  const chunks: Buffer[] = [];
+  let captured = 0;
+  let size = 0;
+  let ended = false;
+
+  const collect = (chunk: unknown, encoding: unknown): void => {
+    if (chunk === undefined || chunk === null || typeof chunk === 'function') return;
+    const buffer = toBuffer(chunk as Chunk, typeof encoding === 'string' ? (encoding as BufferEncoding) : undefined);
+    size += buffer.length;
+    if (captured < maxBytes) {
+      const slice = buffer.subarray(0, maxBytes - captured);
+      chunks.push(slice);
+      captured += slice.length;
+    }
+  };
+
+  const originalWrite = res.write;
+  if (typeof originalWrite === 'function') {
+    res.write = function (this: Response, chunk: any, ...rest: any[]) {
+      if (!ended) collect(chunk, rest[0]);
+      return (originalWrite as (...args: any[]) => boolean).call(this, chunk, ...rest);
+    } as Response['write'];
+  }
+
+  const originalEnd = res.end;
+  if (typeof originalEnd === 'function') {
+    res.end = function (this: Response, chunk?: any, ...rest: any[]) {
+      const first = ended === false;
+      if (first) {
+        ended = true;
+        collect(chunk, rest[0]);
+      }
+      const result = (originalEnd as (...args: any[]) => Response).call(this, chunk, ...rest);
+      if (first) {
+        const contentType = String(res.getHeader?.('Content-Type') ?? '').split(';')[0].trim().toLowerCase();
+        onEnd({
+          statusCode: res.statusCode,
+          contentType: contentType || undefined,
+          headers: headerValues(res),
+          body: Buffer.concat(chunks),
+          size,
+          truncated: size > captured,
+        });
+      }
+      return result;
+    } as Response['end'];
+  }
+}
+
+/**
+ * Turn a recorded body into something schemas can be inferred from
+ */
+export function decodeResponseBody(response: RecordedResponse): DecodedResponseBody {
+  const { body, contentType, truncated } = response;
+  if (body.length === 0) {
+    return { body: undefined, binary: false };
+  }
+
+  if (isBinary(contentType, body)) {
+    return { body: undefined, binary: true };
+  }
+
+  const text = body.toString('utf-8');
+
+  if (contentType && NDJSON_TYPES.has(contentType)) {
+    const lines = text.split('\n');
+    // The last line of a cut-off stream is incomplete
+    if (truncated) lines.pop();
+    return { body: lines.filter((line) => line.trim()).flatMap((line) => parseJson(line) ?? []), binary: false };
+  }
+
+  if (!contentType || isJsonType(contentType)) {
+    const parsed = parseJson(text) ?? (truncated ? parseJsonPrefix(text) : undefined);
+    if (parsed !== undefined) {
+      return { body: parsed, binary: false };
+    }
+    if (contentType) {
+      return { body: undefined, binary: false };
+    }
+  }
+
+  return { body: truncated ? `${text}...[truncated]` : text, binary: false };
+}
+
+const NDJSON_TYPES = new Set(['application/x-ndjson', 'application/ndjson', 'application/jsonl', 'application/x-jsonlines']);
+
+const BINARY_TYPES = /^(image|audio|video|font)\/|^application\/(octet-stream|pdf|zip|gzip|x-gzip|x-tar|x-7z-compressed|wasm|vnd\.openxmlformats|vnd\.ms-|msword|protobuf|x-protobuf)/;
+
+function isJsonType(contentType: string): boolean {
+  return contentType === 'application/json' || contentType.endsWith('+json');
+}
+
+function isTextType(contentType: string): boolean {
+  return (
+    contentType.startsWith('text/') ||
+    isJsonType(contentType) ||
+    NDJSON_TYPES.has(contentType) ||
+    contentType.endsWith('xml') ||
+    contentType === 'application/javascript' ||
+    contentType === 'application/x-www-form-urlencoded'
+  );
+}
+
+function isBinary(contentType: string | undefined, body: Buffer): boolean {
+  if (contentType && isTextType(contentType)) return false;
+  if (contentType && BINARY_TYPES.test(contentType)) return true;
+
+  // Unknown types count as binary when they are not valid UTF-8
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(body, { stream: true });
+    return false;
+  } catch {
+    return true;
+  }
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Parse the complete members of a JSON array or object cut off mid-stream, e.g.
+ * '[{"id":1},{"id":2},{"i' becomes [{"id":1},{"id":2}]
+ */
+function parseJsonPrefix(text: string): unknown {
+  const start = text.search(/\S/);
+  const open = text[start];
+  if (open !== '[' && open !== '{') return undefined;
+
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let lastBoundary = -1;
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '[' || char === '{') {
+      depth++;
+    } else if (char === ']' || char === '}') {
+      depth--;
+    } else if (char === ',' && depth === 1) {
+      lastBoundary = i;
+    }
+  }
+
+  const end = lastBoundary === -1 ? start + 1 : lastBoundary;
+  return parseJson(`${text.slice(0, end)}${open === '[' ? ']' : '}'}`);
+}
+
+function toBuffer(chunk: Chunk, encoding?: BufferEncoding): Buffer {
+  if (typeof chunk === 'string') return Buffer.from(chunk, encoding || 'utf-8');
+  return Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk.buffer, chunk.byteOffset, chunk.byteLength);
+}
+
+function headerValues(res: Response): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(res.getHeaders?.() ?? {})) {
+    if (value !== undefined) headers[name] = Array.isArray(value) ? value.join(', ') : String(value);
+  }
+  return headers;
+}
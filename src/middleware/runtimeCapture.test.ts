@@ -1,5 +1,13 @@
-import { describe, it, expect, vi } from 'vitest';
+import { describe, it, expect, vi, afterEach, beforeEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Readable } from 'stream';
+import express from 'express';
+import request from 'supertest';
 import { runtimeCapture } from './runtimeCapture';
+import { SnapshotStorage } from '../core/SnapshotStorage';
+import type { RuntimeSnapshot } from '../core/SnapshotStorage';
 import type { Request, Response, NextFunction } from 'express';
 
 describe('runtimeCapture', () => {
@@ -129,3 +137,200 @@ describe('runtimeCapture', () => {
     process.env.NODE_ENV = originalEnv;
   });
 });
+
+describe('runtimeCapture sampling', () => {
+  const createStorage = () => {
+    const stored: RuntimeSnapshot[] = [];
+    const storage = new SnapshotStorage({
+      enabled: true,
+      backend: { name: 'memory', append: (snapshot) => stored.push(snapshot), remove: () => undefined, load: () => [] },
+    });
+    return { storage, stored };
+  };
+
+  const createApp = (middleware: ReturnType<typeof runtimeCapture>) => {
+    const app = express();
+    app.use(express.json());
+    app.use(middleware);
+    const users = express.Router();
+    users.get('/:id', (req, res) => {
+      res.json(req.params.id === 'admin' ? { id: req.params.id, role: 'admin' } : { id: req.params.id });
+    });
+    app.use('/users', users);
+    app.get('/health', (_req, res) => res.send('ok'));
+    return app;
+  };
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should store snapshots after the response is sent', async () => {
+    const { storage, stored } = createStorage();
+    const middleware = runtimeCapture({ enabled: true, snapshotStorage: storage });
+    const app = createApp(middleware);
+
+    await request(app).get('/users/1').expect(200, { id: '1' });
+    await middleware.flush();
+
+    expect(stored).toHaveLength(1);
+    expect(stored[0]).toMatchObject({ method: 'GET', path: '/users/1' });
+    expect(middleware.getMetrics()).toMatchObject({ captured: 1, skipped: 0, dropped: 0, pending: 0 });
+  });
+
+  it('should capture while ending the response when not deferred', () => {
+    const { storage, stored } = createStorage();
+    const middleware = runtimeCapture({ enabled: true, snapshotStorage: storage, defer: false });
+    const res: any = { statusCode: 200, end: vi.fn().mockReturnThis(), getHeader: () => 'application/json' };
+
+    middleware({ method: 'GET', path: '/test', route: { path: '/test' }, query: {}, headers: {} } as Request, res as Response, vi.fn());
+    res.end('{"ok":true}');
+
+    expect(stored).toHaveLength(1);
+    expect(middleware.getMetrics().routes['GET /test']).toEqual({ captured: 1, skipped: 0, dropped: 0, shapes: 1 });
+  });
+
+  it('should skip routes that have shown enough shapes', async () => {
+    const { storage, stored } = createStorage();
+    const middleware = runtimeCapture({ enabled: true, snapshotStorage: storage, sampling: { uniqueShapes: 1, routes: { '/health': 0 } } });
+    const app = createApp(middleware);
+
+    await request(app).get('/users/1');
+    await middleware.flush();
+    await request(app).get('/users/2');
+    await request(app).get('/users/3');
+    await request(app).get('/health');
+    await request(app).get('/missing');
+    await middleware.flush();
+
+    expect(stored).toHaveLength(2);
+    expect(middleware.getMetrics()).toEqual({
+      captured: 2,
+      skipped: 3,
+      dropped: 0,
+      pending: 0,
+      routes: {
+        'GET /users/:id': { captured: 1, skipped: 2, dropped: 0, shapes: 1 },
+        'GET /health': { captured: 0, skipped: 1, dropped: 0, shapes: 0 },
+        'GET *': { captured: 1, skipped: 0, dropped: 0, shapes: 1 },
+      },
+    });
+  });
+
+  it('should drop captures over budget or when too many are pending', async () => {
+    const { storage } = createStorage();
+    const middleware = runtimeCapture({ enabled: true, snapshotStorage: storage, sampling: { budgetPerMinute: 1 } });
+    const app = createApp(middleware);
+
+    await request(app).get('/users/1');
+    await request(app).get('/users/2');
+    await middleware.flush();
+    expect(middleware.getMetrics()).toMatchObject({ captured: 1, dropped: 1 });
+
+    const queued = runtimeCapture({ enabled: true, snapshotStorage: storage, maxPending: 0 });
+    await request(createApp(queued)).get('/users/1');
+    expect(queued.getMetrics()).toMatchObject({ captured: 0, dropped: 1, pending: 0 });
+
+    middleware.resetMetrics();
+    expect(middleware.getMetrics()).toEqual({ captured: 0, skipped: 0, dropped: 0, pending: 0, routes: {} });
+  });
+});
+
+describe('runtimeCapture response paths', () => {
+  let stored: RuntimeSnapshot[];
+  let middleware: ReturnType<typeof runtimeCapture>;
+  let app: express.Express;
+  const png = Buffer.from('89504e470d0a1a0a0000000d49484452', 'hex');
+
+  beforeEach(() => {
+    stored = [];
+    const storage = new SnapshotStorage({
+      enabled: true,
+      backend: { name: 'memory', append: (snapshot) => stored.push(snapshot), remove: () => undefined, load: () => [] },
+    });
+    middleware = runtimeCapture({ enabled: true, snapshotStorage: storage, maxBodySize: 64 });
+    app = express();
+    app.use(middleware);
+    app.get('/json', (_req, res) => {
+      res.setHeader('Set-Cookie', 'session=abc');
+      res.status(201).json({ id: 1, tags: ['a'] });
+    });
+    app.get('/end', (_req, res) => {
+      res.setHeader('Content-Type', 'text/plain');
+      res.end('plain text');
+    });
+    app.get('/chunked', (_req, res) => {
+      res.setHeader('Content-Type', 'application/json');
+      res.write('[{"id":1},');
+      res.write('{"id":2}]');
+      res.end();
+    });
+    app.get('/long', (_req, res) => {
+      res.json(Array.from({ length: 20 }, (_, id) => ({ id })));
+    });
+    app.get('/ndjson', (_req, res) => {
+      res.setHeader('Content-Type', 'application/x-ndjson');
+      Readable.from(Array.from({ length: 10 }, (_, id) => `{"id":${id},"name":"item"}\n`)).pipe(res);
+    });
+    app.get('/image', (_req, res) => {
+      res.type('png').send(png);
+    });
+  });
+
+  const snapshotFor = async (url: string) => {
+    await request(app).get(url);
+    await middleware.flush();
+    return stored[stored.length - 1];
+  };
+
+  it('should record res.json bodies once with status, content type and headers', async () => {
+    const snapshot = await snapshotFor('/json');
+
+    expect(stored).toHaveLength(1);
+    expect(snapshot).toMatchObject({ statusCode: 201, contentType: 'application/json' });
+    expect(snapshot.responseSchema).toMatchObject({ type: 'object', properties: { tags: { type: 'array', example: ['a'] } } });
+    expect(snapshot.responseHeaders).toMatchObject({ 'set-cookie': '***REDACTED***', 'content-type': 'application/json; charset=utf-8' });
+    expect(middleware.getMetrics().captured).toBe(1);
+  });
+
+  it('should record bodies written with res.end and res.write', async () => {
+    expect((await snapshotFor('/end')).responseSchema).toEqual({ type: 'string', example: 'plain text' });
+    expect((await snapshotFor('/chunked')).responseSchema).toEqual({
+      type: 'array',
+      items: { type: 'object', properties: { id: { type: 'number', example: 1 } } },
+    });
+  });
+
+  it('should keep the complete items of JSON cut at maxBodySize', async () => {
+    const snapshot = await snapshotFor('/long');
+
+    expect(snapshot.responseSchema).toEqual({ type: 'array', items: { type: 'object', properties: { id: { type: 'number', example: 0 } } } });
+  });
+
+  it('should record streamed NDJSON records', async () => {
+    const snapshot = await snapshotFor('/ndjson');
+
+    expect(snapshot.contentType).toBe('application/x-ndjson');
+    expect(snapshot.responseSchema.type).toBe('array');
+    expect(snapshot.responseSchema.items.properties).toHaveProperty('name');
+  });
+
+  it('should record binary bodies as binary strings', async () => {
+    const snapshot = await snapshotFor('/image');
+
+    expect(snapshot).toMatchObject({ contentType: 'image/png', responseSchema: { type: 'string', format: 'binary' } });
+  });
+
+  it('should record files sent with res.sendFile', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'runtime-capture-'));
+    fs.writeFileSync(path.join(directory, 'logo.png'), png);
+    app.get('/file', (_req, res) => res.sendFile(path.join(directory, 'logo.png')));
+
+    try {
+      const snapshot = await snapshotFor('/file');
+      expect(snapshot).toMatchObject({ statusCode: 200, contentType: 'image/png', responseSchema: { format: 'binary' } });
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
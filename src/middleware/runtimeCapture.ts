@@ -1,11 +1,44 @@
 import type { Request, Response, NextFunction } from 'express';
 import { SnapshotStorage } from '../core/SnapshotStorage';
+import {
+  createResponseContractChecker,
+  consoleContractReporter,
+} from './responseContract';
+import type { ResponseContractConfig } from './responseContract';
+import { createCaptureSampler, schemaShape } from './captureSampling';
+import type { RuntimeCaptureSampling, RuntimeCaptureMetrics } from './captureSampling';
+import { recordResponse, decodeResponseBody } from './responseRecorder';
+import type { RecordedResponse } from './responseRecorder';
 
 export interface RuntimeCaptureConfig {
   enabled?: boolean;
   sensitiveFields?: string[];
   maxBodySize?: number;
   snapshotStorage?: SnapshotStorage;
+  /**
+   * Check every response against the documented schema for its status code.
+   * Runs even when snapshot capture is disabled, so it can be used in staging.
+   */
+  contract?: ResponseContractConfig;
+  /** Capture only some requests: by rate, per route, until enough shapes or within a budget */
+  sampling?: RuntimeCaptureSampling;
+  /**
+   * When captured requests are analyzed and stored: 'immediate' (default) after the
+   * response is handed to Node, 'microtask' right after the current handler, or
+   * false to do it inside res.send
+   */
+  defer?: 'immediate' | 'microtask' | false;
+  /** Deferred captures allowed to wait at once; further ones are dropped (default: 1000) */
+  maxPending?: number;
+}
+
+export interface RuntimeCaptureMiddleware {
+  (req: Request, res: Response, next: NextFunction): void;
+  /** Captured, skipped and dropped request counts since creation or the last reset */
+  getMetrics(): RuntimeCaptureMetrics;
+  resetMetrics(): void;
+  /** Resolves once every deferred capture has been stored */
+  flush(): Promise<void>;
 }
 
 const DEFAULT_SENSITIVE_FIELDS = [
@@ -18,51 +51,166 @@ const DEFAULT_SENSITIVE_FIELDS = [
   'cookie',
 ];
 
-export function runtimeCapture(config: RuntimeCaptureConfig = {}) {
+export function runtimeCapture(config: RuntimeCaptureConfig = {}): RuntimeCaptureMiddleware {
   const {
     enabled = process.env.NODE_ENV === 'development',
     sensitiveFields = DEFAULT_SENSITIVE_FIELDS,
     maxBodySize = 1024 * 100,
     snapshotStorage,
+    contract,
+    sampling,
+    defer = 'immediate',
+    maxPending = 1000,
   } = config;
 
   // Create default snapshot storage if not provided
   const storage = snapshotStorage || new SnapshotStorage({ enabled });
+  const contractChecker = contract ? createResponseContractChecker(contract) : null;
+  const contractReporter = contract?.reporter || consoleContractReporter();
+  const sampler = createCaptureSampler(sampling);
+  const schedule: (task: () => void) => void =
+    defer === 'microtask' ? queueMicrotask : defer === 'immediate' ? (task) => setImmediate(task) : (task) => task();
+  let pending = 0;
 
-  return (req: Request, res: Response, next: NextFunction): void => {
-    if (!enabled) {
-      next();
-      return;
-    }
-
+  const capture = (req: Request, method: string, path: string, route: string, response: RecordedResponse): void => {
     // Phase 2: Enhanced runtime capture with snapshot storage
     // TODO(Phase 3): Implement sample aggregation and drift analysis
     // TODO(Phase 4): Add hot reload and watch mode integration
-
-    const capturedData = {
-      method: req.method,
-      path: req.path,
-      query: sanitizeObject(req.query, sensitiveFields),
-      headers: sanitizeObject(req.headers, sensitiveFields),
-      body: captureBody(req.body, maxBodySize, sensitiveFields),
-      timestamp: new Date().toISOString(),
-    };
-
-    const originalSend = res.send.bind(res);
-    res.send = function (body: any) {
-      (capturedData as any).response = {
-        statusCode: res.statusCode,
-        body: captureBody(body, maxBodySize, sensitiveFields),
+    try {
+      const { body, binary } = decodeResponseBody(response);
+      const capturedData = {
+        method,
+        path,
+        query: sanitizeObject(req.query, sensitiveFields),
+        headers: sanitizeObject(req.headers, sensitiveFields),
+        body: captureBody(req.body, maxBodySize, sensitiveFields),
+        timestamp: new Date().toISOString(),
+        response: {
+          statusCode: response.statusCode,
+          contentType: response.contentType,
+          headers: sanitizeObject(response.headers, sensitiveFields),
+          body: typeof body === 'object' && body !== null ? sanitizeObject(body as Record<string, any>, sensitiveFields) : body,
+          binary,
+        },
       };
 
       // Store snapshot with inferred schemas
-      storeCapturedData(capturedData, storage);
+      const shape = storeCapturedData(capturedData, storage);
+      if (shape === null) {
+        sampler.dropped(method, route);
+      } else {
+        sampler.captured(method, route, shape);
+      }
+    } catch (error) {
+      sampler.dropped(method, route);
+      if (process.env.DEBUG) {
+        console.error('[RuntimeCapture] Failed to capture request:', error);
+      }
+    }
+  };
 
-      return originalSend(body);
-    };
+  const middleware = (req: Request, res: Response, next: NextFunction): void => {
+    if (contractChecker) {
+      enforceContract(req, res, contractChecker, contractReporter, contract?.maxBodySize ?? 1024 * 1024);
+    }
+
+    // Routers rewrite req.url while they handle a request, so read the path now
+    const { method, path } = req;
+    if (!enabled) {
+      next();
+      return;
+    }
+
+    // The route template is only known once a handler matched, so count skips when the response finishes
+    if (!sampler.sample(method, path)) {
+      res.once('finish', () => sampler.skipped(method, routeTemplate(req)));
+      next();
+      return;
+    }
+
+    recordResponse(res, maxBodySize, (response) => {
+      const route = routeTemplate(req);
+      if (!sampler.admit(method, route)) {
+        return;
+      }
+      if (pending >= maxPending) {
+        sampler.dropped(method, route);
+        return;
+      }
+      pending++;
+      schedule(() => {
+        pending--;
+        capture(req, method, path, route, response);
+      });
+    });
 
     next();
   };
+
+  return Object.assign(middleware, {
+    getMetrics: (): RuntimeCaptureMetrics => ({ ...sampler.metrics(), pending }),
+    resetMetrics: () => sampler.reset(),
+    flush: () =>
+      new Promise<void>((resolve) => {
+        const check = () => (pending === 0 ? resolve() : setImmediate(check));
+        check();
+      }),
+  });
+}
+
+/**
+ * Express route template that handled a request, including the mount path of its
+ * router ('/users/:id'); '*' when no route did
+ */
+function routeTemplate(req: Request): string {
+  const route = req.route?.path;
+  if (typeof route !== 'string') {
+    return '*';
+  }
+  const template = `${req.baseUrl || ''}${route}`;
+  return template.length > 1 ? template.replace(/\/$/, '') : template;
+}
+
+/**
+ * Check the response against the contract once it ends, whether it was sent with
+ * res.send, res.json, res.write/res.end or piped from a stream
+ */
+function enforceContract(
+  req: Request,
+  res: Response,
+  checker: ReturnType<typeof createResponseContractChecker>,
+  reporter: NonNullable<ResponseContractConfig['reporter']>,
+  maxBodySize: number
+): void {
+  const requestPath = `${req.baseUrl || ''}${req.path}`;
+
+  recordResponse(res, maxBodySize, (response) => {
+    try {
+      // A cut-off body would show fields as missing, so only its status is checked
+      const report = checker.check(
+        req.method,
+        requestPath,
+        response.statusCode,
+        response.truncated ? undefined : parseResponseBody(response.body),
+        response.contentType
+      );
+      if (report) {
+        reporter(report);
+      }
+    } catch (error) {
+      if (process.env.DEBUG) {
+        console.error('[RuntimeCapture] Contract check failed:', error);
+      }
+    }
+  });
+}
+
+function parseResponseBody(body: Buffer): unknown {
+  try {
+    return JSON.parse(body.toString('utf-8'));
+  } catch {
+    return undefined;
+  }
 }
 
 function sanitizeObject(
@@ -73,6 +221,10 @@ function sanitizeObject(
     return {};
   }
 
+  if (Array.isArray(obj)) {
+    return obj.map((item) => (typeof item === 'object' && item !== null ? sanitizeObject(item, sensitiveFields) : item));
+  }
+
   const sanitized: Record<string, any> = {};
 
   for (const [key, value] of Object.entries(obj)) {
@@ -114,22 +266,31 @@ function captureBody(body: any, maxSize: number, sensitiveFields: string[]): any
   return typeof parsed === 'object' ? sanitizeObject(parsed, sensitiveFields) : parsed;
 }
 
-function storeCapturedData(data: any, storage: SnapshotStorage): void {
+/**
+ * Store a snapshot of a captured request. Returns the shape of its schemas, or null
+ * when storing failed.
+ */
+function storeCapturedData(data: any, storage: SnapshotStorage): string | null {
   // Phase 2: Store runtime samples with schema inference
   try {
     const requestSchema = inferSchema(data.body);
-    const responseSchema = inferSchema(data.response?.body);
+    const responseSchema = data.response?.binary ? { type: 'string', format: 'binary' } : inferSchema(data.response?.body);
 
     storage.store({
       method: data.method,
       path: data.path,
       requestSchema,
       responseSchema,
+      statusCode: data.response?.statusCode,
+      contentType: data.response?.contentType,
+      responseHeaders: data.response?.headers,
     });
+    return schemaShape({ requestSchema, responseSchema, statusCode: data.response?.statusCode, contentType: data.response?.contentType });
   } catch (error) {
     if (process.env.DEBUG) {
       console.error('[RuntimeCapture] Failed to store snapshot:', error);
     }
+    return null;
   }
 }
 
@@ -152,9 +313,12 @@ function inferSchema(data: any): any {
     case 'object': {
       if (Array.isArray(data)) {
         const itemSchema = data.length > 0 ? inferSchema(data[0]) : {};
+        // Arrays of primitives keep their values so merging can tell whether items repeat
+        const primitives = data.length > 0 && data.every((item) => item === null || typeof item !== 'object');
         return {
           type: 'array',
           items: itemSchema,
+          ...(primitives ? { example: data } : {}),
         };
       }
 
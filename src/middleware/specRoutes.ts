@@ -0,0 +1,189 @@
+import type { OpenAPISpec, OpenAPIPath, OpenAPISchema } from '../types';
+
+/**
+ * Shared helpers for middleware that matches live requests against a spec:
+ * path template matching and OpenAPI-to-JSON-Schema translation for Ajv.
+ */
+
+export interface CompiledRoute {
+  template: string;
+  regex: RegExp;
+  paramNames: string[];
+  operations: Record<string, OpenAPIPath>;
+}
+
+// ============================================================================
+// Route matching
+// ============================================================================
+
+export function compileRoutes(spec: OpenAPISpec): CompiledRoute[] {
+  const routes: Array<CompiledRoute & { literalLength: number }> = [];
+
+  for (const [template, operations] of Object.entries(spec.paths || {})) {
+    const paramNames: string[] = [];
+    let literalLength = 0;
+    const pattern = template
+      .split('/')
+      .map((segment) =>
+        // {param} anywhere in a segment (/files/{name}.json, /v{version}, {user-id}), :param at its start
+        segment
+          .split(PARAM_PATTERN)
+          .map((part, index) => {
+            if (index % 2 === 0) {
+              literalLength += part.length;
+              return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+            }
+            paramNames.push(part.startsWith(':') ? part.slice(1) : part.slice(1, -1));
+            return '([^/]+)';
+          })
+          .join('')
+      )
+      .join('/');
+
+    routes.push({
+      template,
+      regex: new RegExp(`^${pattern}/?$`),
+      paramNames,
+      operations: operations as Record<string, OpenAPIPath>,
+      literalLength,
+    });
+  }
+
+  // Static paths win over parameterised ones (/users/me before /users/:id),
+  // then longer literals (/files/{name}.json before /files/{name})
+  return routes
+    .sort((a, b) => a.paramNames.length - b.paramNames.length || b.literalLength - a.literalLength)
+    .map(({ literalLength: _literalLength, ...route }) => route);
+}
+
+const PARAM_PATTERN = /(^:\w+|\{[^{}/]+\})/;
+
+export function matchRoute(
+  routes: CompiledRoute[],
+  requestPath: string,
+  method: string
+): { route: CompiledRoute; operation: OpenAPIPath; pathParams: Record<string, string> } | null {
+  for (const route of routes) {
+    const operation = route.operations[method];
+    if (!operation) continue;
+
+    const match = route.regex.exec(requestPath);
+    if (!match) continue;
+
+    const pathParams: Record<string, string> = {};
+    route.paramNames.forEach((name, index) => {
+      pathParams[name] = safeDecode(match[index + 1]);
+    });
+
+    return { route, operation, pathParams };
+  }
+
+  return null;
+}
+
+export function stripBasePath(requestPath: string, basePath: string): string {
+  const base = basePath.replace(/\/+$/, '');
+  if (base && requestPath.startsWith(base)) {
+    return requestPath.slice(base.length) || '/';
+  }
+  return requestPath;
+}
+
+// ============================================================================
+// Schema translation
+// ============================================================================
+
+/**
+ * Translate OpenAPI 3.0 schema dialect (nullable, boolean exclusive bounds,
+ * component refs) into JSON Schema that Ajv understands.
+ * OpenAPI 3.1 schemas pass through apart from their $schema and component refs.
+ */
+export function toJsonSchema(schema: OpenAPISchema): any {
+  if (!schema || typeof schema !== 'object') return schema;
+  if (Array.isArray(schema)) return (schema as unknown[]).map((item) => toJsonSchema(item as any));
+
+  const result: any = {};
+  for (const [key, value] of Object.entries(schema)) {
+    if (key === 'discriminator' || key === 'nullable' || key === 'example' || key === '$schema') continue;
+
+    if (key === '$ref' && typeof value === 'string') {
+      result.$ref = value.replace('#/components/schemas/', '#/definitions/');
+    } else if (key === 'properties' && value && typeof value === 'object') {
+      result.properties = {};
+      for (const [name, property] of Object.entries(value)) {
+        result.properties[name] = toJsonSchema(property as OpenAPISchema);
+      }
+    } else if (value && typeof value === 'object') {
+      result[key] = toJsonSchema(value as OpenAPISchema);
+    } else {
+      result[key] = value;
+    }
+  }
+
+  if (schema.exclusiveMinimum === true) {
+    result.exclusiveMinimum = schema.minimum;
+    delete result.minimum;
+  } else if (schema.exclusiveMinimum === false) {
+    delete result.exclusiveMinimum;
+  }
+  if (schema.exclusiveMaximum === true) {
+    result.exclusiveMaximum = schema.maximum;
+    delete result.maximum;
+  } else if (schema.exclusiveMaximum === false) {
+    delete result.exclusiveMaximum;
+  }
+
+  if (schema.nullable) {
+    if (typeof result.type === 'string') {
+      result.type = [result.type, 'null'];
+      if (Array.isArray(result.enum) && !result.enum.includes(null)) result.enum.push(null);
+    } else if (!result.enum) {
+      return { anyOf: [result, { type: 'null' }] };
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Translate components.schemas into Ajv definitions, matching the $ref rewrite in toJsonSchema
+ */
+export function toJsonSchemaDefinitions(spec: OpenAPISpec): Record<string, any> {
+  const definitions: Record<string, any> = {};
+  for (const [name, schema] of Object.entries(spec.components?.schemas || {})) {
+    definitions[name] = toJsonSchema(schema);
+  }
+  return definitions;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Follow local refs (#/components/parameters/..., #/components/requestBodies/...) to
+ * their targets; remote and unresolvable refs yield undefined
+ */
+export function resolveLocalRef(spec: OpenAPISpec, node: any, depth = 0): any {
+  if (!node || typeof node.$ref !== 'string') return node;
+  if (!node.$ref.startsWith('#/') || depth > 10) return undefined;
+
+  const target = node.$ref
+    .slice(2)
+    .split('/')
+    .map((segment: string) => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+    .reduce((value: any, segment: string) => value?.[segment], spec);
+  return resolveLocalRef(spec, target, depth + 1);
+}
+
+export function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+export function isJsonMediaType(contentType: string): boolean {
+  return /^application\/(.+\+)?json$/i.test(contentType.split(';')[0].trim());
+}
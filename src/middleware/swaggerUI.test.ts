@@ -1,4 +1,9 @@
 import { describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import express from 'express';
+import request from 'supertest';
 import { createSwaggerUIMiddleware } from './swaggerUI';
 import type { OpenAPISpec } from '../types';
 
@@ -56,4 +61,41 @@ describe('swaggerUI', () => {
 
     expect(router).toBeDefined();
   });
+
+  describe('versions', () => {
+    const specFor = (version: string): OpenAPISpec => ({ ...mockSpec, info: { title: 'Test API', version } });
+
+    it('should serve every version listed in an index file', async () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'swagger-ui-'));
+      fs.writeFileSync(path.join(dir, 'openapi.v1.json'), JSON.stringify(specFor('v1')));
+      fs.writeFileSync(path.join(dir, 'openapi.v2.json'), JSON.stringify(specFor('v2')));
+      fs.writeFileSync(path.join(dir, 'openapi.versions.json'), JSON.stringify({
+        title: 'Test API',
+        default: 'v2',
+        versions: [
+          { name: 'v1', version: 'v1', url: 'openapi.v1.json', prefix: '/api/v1' },
+          { name: 'v2', version: 'v2', url: 'openapi.v2.json', prefix: '/api/v2' },
+        ],
+      }));
+
+      try {
+        const app = express();
+        app.use(createSwaggerUIMiddleware({ versions: path.join(dir, 'openapi.versions.json') }));
+
+        expect((await request(app).get('/api-docs/v1.json')).body.info.version).toBe('v1');
+        expect((await request(app).get('/api-docs.json')).body.info.version).toBe('v2');
+        expect((await request(app).get('/api-docs/versions.json')).body.default).toBe('v2');
+
+        const init = await request(app).get('/api-docs/swagger-ui-init.js');
+        expect(init.text).toContain('"urls.primaryName": "v2"');
+        expect(init.text).toContain('"url": "/api-docs/v1.json"');
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should require a spec or versions', () => {
+      expect(() => createSwaggerUIMiddleware({})).toThrow('createSwaggerUIMiddleware needs a spec or versions');
+    });
+  });
 });
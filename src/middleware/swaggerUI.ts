@@ -1,19 +1,75 @@
+import * as fs from 'fs';
+import * as path from 'path';
 import type { Request, Response, Router } from 'express';
 import swaggerUi from 'swagger-ui-express';
 import type { OpenAPISpec } from '../types';
+import type { VersionIndex } from '../core/VersionedSpecGenerator';
 
 export interface SwaggerUIConfig {
   routePrefix?: string;
-  spec: OpenAPISpec;
+  /** Spec to show; optional when `versions` is given */
+  spec?: OpenAPISpec;
+  /**
+   * Version index written by `generate --split-versions`, or a path to it. Each
+   * version's spec is served at `<routePrefix>/<name>.json` and the UI shows a
+   * version switcher.
+   */
+  versions?: VersionIndex | string;
   customCss?: string;
   customSiteTitle?: string;
 }
 
 export function createSwaggerUIMiddleware(config: SwaggerUIConfig): Router {
-  const { routePrefix = '/api-docs', spec, customCss, customSiteTitle } = config;
+  const { routePrefix = '/api-docs', customCss, customSiteTitle } = config;
 
   const router = require('express').Router() as Router;
 
+  if (config.versions) {
+    const { index, specs } = loadVersions(config.versions);
+    const primary = specs.get(index.default) || [...specs.values()][0];
+
+    for (const [name, spec] of specs) {
+      router.get(`${routePrefix}/${name}.json`, (_req: Request, res: Response) => {
+        res.setHeader('Content-Type', 'application/json');
+        res.send(JSON.stringify(spec, null, 2));
+      });
+    }
+
+    router.get(`${routePrefix}/versions.json`, (_req: Request, res: Response) => {
+      res.setHeader('Content-Type', 'application/json');
+      res.send(JSON.stringify(index, null, 2));
+    });
+
+    router.use(routePrefix, swaggerUi.serve);
+    router.get(
+      routePrefix,
+      swaggerUi.setup(null, {
+        customCss,
+        customSiteTitle: customSiteTitle || index.title || primary?.info.title,
+        explorer: true,
+        swaggerOptions: {
+          urls: index.versions.map((version) => ({ url: `${routePrefix}/${version.name}.json`, name: version.name })),
+          'urls.primaryName': index.default,
+        },
+      })
+    );
+
+    // The default version stays available at the unversioned URL
+    if (primary) {
+      router.get(`${routePrefix}.json`, (_req: Request, res: Response) => {
+        res.setHeader('Content-Type', 'application/json');
+        res.send(JSON.stringify(primary, null, 2));
+      });
+    }
+
+    return router;
+  }
+
+  const spec = config.spec;
+  if (!spec) {
+    throw new Error('createSwaggerUIMiddleware needs a spec or versions');
+  }
+
   const swaggerOptions = {
     customCss,
     customSiteTitle: customSiteTitle || spec.info.title,
@@ -29,3 +85,29 @@ export function createSwaggerUIMiddleware(config: SwaggerUIConfig): Router {
 
   return router;
 }
+
+/**
+ * Read a version index and the specs it lists. Spec URLs are relative to the index
+ * file, or to the working directory for an index passed as an object.
+ */
+function loadVersions(versions: VersionIndex | string): { index: VersionIndex; specs: Map<string, OpenAPISpec> } {
+  const indexPath = typeof versions === 'string' ? path.resolve(versions) : undefined;
+  const index: VersionIndex = indexPath ? readDocument(indexPath) : (versions as VersionIndex);
+  const baseDir = indexPath ? path.dirname(indexPath) : process.cwd();
+
+  const specs = new Map<string, OpenAPISpec>();
+  for (const version of index.versions || []) {
+    specs.set(version.name, readDocument(path.resolve(baseDir, version.url)));
+  }
+
+  return { index, specs };
+}
+
+function readDocument(filePath: string): any {
+  const content = fs.readFileSync(filePath, 'utf-8');
+  if (filePath.endsWith('.yaml') || filePath.endsWith('.yml')) {
+    const yaml = require('js-yaml');
+    return yaml.load(content);
+  }
+  return JSON.parse(content);
+}
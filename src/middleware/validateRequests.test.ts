@@ -0,0 +1,365 @@
+import { describe, it, expect, vi } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import { validateRequests } from './validateRequests';
+import type { ValidateRequestsOptions } from './validateRequests';
+import type { OpenAPISpec } from '../types';
+
+const spec: OpenAPISpec = {
+  openapi: '3.1.0',
+  info: { title: 'Test API', version: '1.0.0' },
+  paths: {
+    '/users': {
+      get: {
+        parameters: [
+          { name: 'page', in: 'query', schema: { type: 'integer', minimum: 1 } },
+          { name: 'active', in: 'query', schema: { type: 'boolean' } },
+          { name: 'x-tenant', in: 'header', required: true, schema: { type: 'string' } },
+        ],
+        responses: { '200': { description: 'OK' } },
+      },
+      post: {
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': { schema: { $ref: '#/components/schemas/NewUser' } },
+          },
+        },
+        responses: { '201': { description: 'Created' } },
+      },
+    },
+    '/users/me': {
+      get: { responses: { '200': { description: 'OK' } } },
+    },
+    '/users/:id': {
+      get: {
+        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'integer' } }],
+        responses: { '200': { description: 'OK' } },
+      },
+    },
+    '/session': {
+      get: {
+        parameters: [{ name: 'sid', in: 'cookie', required: true, schema: { type: 'string', minLength: 4 } }],
+        responses: { '200': { description: 'OK' } },
+      },
+    },
+    '/health': {
+      post: {
+        'x-validate': false,
+        requestBody: { required: true, content: { 'application/json': { schema: { type: 'object' } } } },
+        responses: { '200': { description: 'OK' } },
+      } as any,
+    },
+  },
+  components: {
+    schemas: {
+      NewUser: {
+        type: 'object',
+        properties: {
+          name: { type: 'string', minLength: 1 },
+          email: { type: 'string', format: 'email' },
+          nickname: { type: 'string', nullable: true },
+        },
+        required: ['name', 'email'],
+      },
+    },
+  },
+};
+
+function createApp(options?: ValidateRequestsOptions) {
+  const app = express();
+  app.use(express.json());
+  app.use(validateRequests(spec, options));
+  app.get('/users', (req, res) => res.json({ query: req.query }));
+  app.post('/users', (req, res) => res.status(201).json(req.body));
+  app.get('/users/me', (_req, res) => res.json({ me: true }));
+  app.get('/users/:id', (req, res) => res.json({ id: req.params.id }));
+  app.get('/session', (_req, res) => res.json({ ok: true }));
+  app.post('/health', (_req, res) => res.json({ ok: true }));
+  app.get('/undocumented', (_req, res) => res.json({ ok: true }));
+  return app;
+}
+
+describe('validateRequests', () => {
+  describe('parameters', () => {
+    it('should coerce query strings to declared types', async () => {
+      const res = await request(createApp())
+        .get('/users?page=2&active=true')
+        .set('x-tenant', 'acme');
+
+      expect(res.status).toBe(200);
+      expect(res.body.query).toEqual({ page: 2, active: true });
+    });
+
+    it('should leave query strings untouched when coercion is disabled', async () => {
+      const res = await request(createApp({ coerceTypes: false }))
+        .get('/users?page=2')
+        .set('x-tenant', 'acme');
+
+      expect(res.status).toBe(400);
+      expect(res.body.errors[0]).toMatchObject({ in: 'query', name: 'page' });
+    });
+
+    it('should reject invalid query and missing header parameters', async () => {
+      const res = await request(createApp()).get('/users?page=0');
+
+      expect(res.status).toBe(400);
+      expect(res.headers['content-type']).toContain('application/problem+json');
+      expect(res.body).toMatchObject({
+        type: 'about:blank',
+        title: 'Request validation failed',
+        status: 400,
+        instance: '/users?page=0',
+      });
+      expect(res.body.errors).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ in: 'query', name: 'page' }),
+          { in: 'header', name: 'x-tenant', message: 'is required' },
+        ])
+      );
+    });
+
+    it('should validate path parameters', async () => {
+      const ok = await request(createApp()).get('/users/42');
+      const bad = await request(createApp()).get('/users/abc');
+
+      expect(ok.status).toBe(200);
+      expect(bad.status).toBe(400);
+      expect(bad.body.errors[0]).toMatchObject({ in: 'path', name: 'id' });
+    });
+
+    it('should prefer static paths over parameterised ones', async () => {
+      const res = await request(createApp()).get('/users/me');
+
+      expect(res.status).toBe(200);
+      expect(res.body).toEqual({ me: true });
+    });
+
+    it('should validate parameters embedded in path segments', async () => {
+      const app = express();
+      app.use(
+        validateRequests({
+          openapi: '3.1.0',
+          info: { title: 'Test API', version: '1.0.0' },
+          paths: {
+            '/files/{name}': {
+              get: { responses: { '200': { description: 'OK' } } },
+            },
+            '/files/{name}.json': {
+              get: {
+                parameters: [{ name: 'name', in: 'path', required: true, schema: { type: 'string', pattern: '^[a-z]+$' } }],
+                responses: { '200': { description: 'OK' } },
+              },
+            },
+            '/v{version}/accounts/{account-id}': {
+              get: {
+                parameters: [
+                  { name: 'version', in: 'path', required: true, schema: { type: 'integer' } },
+                  { name: 'account-id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+                ],
+                responses: { '200': { description: 'OK' } },
+              },
+            },
+          },
+        })
+      );
+      app.use((_req, res) => res.json({ ok: true }));
+      const id = '3f1c2a4e-8b7d-4c6a-9e5f-0a1b2c3d4e5f';
+
+      expect((await request(app).get('/files/report.json')).status).toBe(200);
+      expect((await request(app).get('/files/report1.json')).status).toBe(400);
+      expect((await request(app).get('/files/report1')).status).toBe(200);
+      expect((await request(app).get(`/v2/accounts/${id}`)).status).toBe(200);
+
+      const bad = await request(app).get('/vx/accounts/abc');
+      expect(bad.status).toBe(400);
+      expect(bad.body.errors.map((error: { name: string }) => error.name).sort()).toEqual(['account-id', 'version']);
+    });
+
+    it('should validate cookies', async () => {
+      const ok = await request(createApp()).get('/session').set('Cookie', 'sid=abcdef');
+      const bad = await request(createApp()).get('/session').set('Cookie', 'sid=ab');
+
+      expect(ok.status).toBe(200);
+      expect(bad.status).toBe(400);
+      expect(bad.body.errors[0]).toMatchObject({ in: 'cookie', name: 'sid' });
+    });
+  });
+
+  describe('path item parameters and refs', () => {
+    // The shape Swagger2Converter emits for shared parameters and bodies
+    const refSpec: any = {
+      openapi: '3.0.3',
+      info: { title: 'Pets', version: '1.0.0' },
+      paths: {
+        '/pets/{petId}': {
+          parameters: [{ name: 'petId', in: 'path', required: true, schema: { type: 'integer' } }],
+          get: {
+            parameters: [{ $ref: '#/components/parameters/Fields' }],
+            responses: { '200': { description: 'OK' } },
+          },
+          put: {
+            requestBody: { $ref: '#/components/requestBodies/Pet' },
+            responses: { '200': { description: 'OK' } },
+          },
+        },
+      },
+      components: {
+        parameters: {
+          Fields: { name: 'fields', in: 'query', schema: { type: 'string', enum: ['id', 'name'] } },
+        },
+        requestBodies: {
+          Pet: {
+            required: true,
+            content: { 'application/json': { schema: { type: 'object', required: ['name'], properties: { name: { type: 'string' } } } } },
+          },
+        },
+      },
+    };
+
+    function createRefApp() {
+      const app = express();
+      app.use(express.json());
+      app.use(validateRequests(refSpec));
+      app.get('/pets/:petId', (req, res) => res.json({ id: req.params.petId }));
+      app.put('/pets/:petId', (req, res) => res.json(req.body));
+      return app;
+    }
+
+    it('should validate path item parameters on every operation', async () => {
+      const get = await request(createRefApp()).get('/pets/abc');
+      const put = await request(createRefApp()).put('/pets/abc').send({ name: 'Rex' });
+
+      expect(get.status).toBe(400);
+      expect(get.body.errors).toEqual([expect.objectContaining({ in: 'path', name: 'petId' })]);
+      expect(put.status).toBe(400);
+      expect(put.body.errors).toEqual([expect.objectContaining({ in: 'path', name: 'petId' })]);
+    });
+
+    it('should resolve referenced parameters and request bodies', async () => {
+      const ok = await request(createRefApp()).get('/pets/1?fields=name');
+      const badQuery = await request(createRefApp()).get('/pets/1?fields=owner');
+      const badBody = await request(createRefApp()).put('/pets/1').send({});
+
+      expect(ok.status).toBe(200);
+      expect(badQuery.body.errors).toEqual([expect.objectContaining({ in: 'query', name: 'fields' })]);
+      expect(badBody.body.errors).toEqual([{ in: 'body', name: '/name', message: "must have required property 'name'" }]);
+    });
+  });
+
+  describe('request body', () => {
+    it('should accept a valid body resolved through component refs', async () => {
+      const res = await request(createApp())
+        .post('/users')
+        .send({ name: 'Alice', email: 'alice@example.com', nickname: null });
+
+      expect(res.status).toBe(201);
+    });
+
+    it('should report body errors as JSON pointers', async () => {
+      const res = await request(createApp()).post('/users').send({ name: '', email: 'nope' });
+
+      expect(res.status).toBe(400);
+      expect(res.body.errors).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ in: 'body', name: '/name' }),
+          expect.objectContaining({ in: 'body', name: '/email' }),
+        ])
+      );
+    });
+
+    it('should reject a missing required body', async () => {
+      const res = await request(createApp()).post('/users');
+
+      expect(res.status).toBe(400);
+      expect(res.body.errors).toEqual([{ in: 'body', name: '', message: 'Request body is required' }]);
+    });
+
+    it('should reject undeclared content types with 415', async () => {
+      const res = await request(createApp())
+        .post('/users')
+        .set('Content-Type', 'text/plain')
+        .send('name=Alice');
+
+      expect(res.status).toBe(415);
+      expect(res.body.title).toBe('Unsupported Media Type');
+    });
+
+    it('should skip body validation when disabled', async () => {
+      const res = await request(createApp({ validateBody: false })).post('/users').send({});
+
+      expect(res.status).toBe(201);
+    });
+  });
+
+  describe('opt-out and modes', () => {
+    it('should pass through undocumented routes', async () => {
+      const res = await request(createApp()).get('/undocumented');
+
+      expect(res.status).toBe(200);
+    });
+
+    it('should skip operations marked with x-validate: false', async () => {
+      const res = await request(createApp()).post('/health');
+
+      expect(res.status).toBe(200);
+    });
+
+    it('should skip excluded routes', async () => {
+      const app = createApp({ exclude: ['POST /users', '/users/{id}'] });
+
+      expect((await request(app).post('/users').send({})).status).toBe(201);
+      expect((await request(app).get('/users/abc')).status).toBe(200);
+      expect((await request(app).get('/users?page=0')).status).toBe(400);
+    });
+
+    it('should log instead of rejecting in report mode', async () => {
+      const logger = vi.fn();
+      const res = await request(createApp({ mode: 'report', logger })).post('/users').send({});
+
+      expect(res.status).toBe(201);
+      expect(logger).toHaveBeenCalledTimes(1);
+      expect(logger.mock.calls[0][0]).toMatchObject({ status: 400, instance: '/users' });
+    });
+
+    it('should strip the base path before matching', async () => {
+      const app = express();
+      app.use(express.json());
+      app.use(validateRequests(spec, { basePath: '/api' }));
+      app.get('/api/users/:id', (req, res) => res.json({ id: req.params.id }));
+
+      expect((await request(app).get('/api/users/abc')).status).toBe(400);
+      expect((await request(app).get('/api/users/1')).status).toBe(200);
+    });
+
+    it('should use a custom problem type', async () => {
+      const res = await request(createApp({ problemType: 'https://example.com/problems/validation' }))
+        .get('/users/abc');
+
+      expect(res.body.type).toBe('https://example.com/problems/validation');
+    });
+  });
+
+  describe('startup', () => {
+    const badSpec: OpenAPISpec = {
+      openapi: '3.1.0',
+      info: { title: 'Test API', version: '1.0.0' },
+      paths: {
+        '/files/:name': {
+          get: {
+            parameters: [{ name: 'name', in: 'path', required: true, schema: { type: 'string', pattern: '[' } }],
+            responses: { '200': { description: 'OK' } },
+          },
+        },
+      },
+    };
+
+    it('should throw when a schema cannot be compiled', () => {
+      expect(() => validateRequests(badSpec)).toThrow('validateRequests cannot compile GET /files/:name');
+    });
+
+    it('should not compile excluded operations', () => {
+      expect(() => validateRequests(badSpec, { exclude: ['/files/:name'] })).not.toThrow();
+    });
+  });
+});
@@ -0,0 +1,368 @@
+import type { Request, Response, NextFunction } from 'express';
+import Ajv from 'ajv';
+import type { ValidateFunction, ErrorObject } from 'ajv';
+import addFormats from 'ajv-formats';
+import type { OpenAPISpec, OpenAPIPath, OpenAPIParameter } from '../types';
+import {
+  compileRoutes,
+  matchRoute,
+  stripBasePath,
+  toJsonSchema,
+  toJsonSchemaDefinitions,
+  resolveLocalRef,
+  safeDecode,
+  isJsonMediaType,
+} from './specRoutes';
+
+export interface ValidateRequestsOptions {
+  /** 'enforce' rejects invalid requests, 'report' only logs them (default: 'enforce') */
+  mode?: 'enforce' | 'report';
+  /** Coerce path/query/header/cookie strings to their declared types (default: true) */
+  coerceTypes?: boolean;
+  /** Validate JSON request bodies (default: true) */
+  validateBody?: boolean;
+  /**
+   * Routes to skip, as 'METHOD /path' or '/path' (any method). Paths use the spec's
+   * templates. Operations can also opt out with `x-validate: false`.
+   */
+  exclude?: string[];
+  /** Base path the API is mounted under, stripped before matching (e.g. '/api') */
+  basePath?: string;
+  /** Problem type URI used in RFC 7807 responses (default: 'about:blank') */
+  problemType?: string;
+  /** Receives problems in report mode (default: console.warn) */
+  logger?: (problem: ValidationProblem, req: Request) => void;
+}
+
+export interface ValidationIssue {
+  /** Where the failing value came from */
+  in: 'path' | 'query' | 'header' | 'cookie' | 'body';
+  /** Parameter name or JSON pointer into the body */
+  name: string;
+  message: string;
+}
+
+/**
+ * RFC 7807 problem document returned for invalid requests
+ */
+export interface ValidationProblem {
+  type: string;
+  title: string;
+  status: number;
+  detail: string;
+  instance: string;
+  errors: ValidationIssue[];
+}
+
+interface CompiledOperation {
+  parameters: Partial<Record<ValidationIssue['in'], { validate: ValidateFunction; names: string[] }>>;
+  /** null marks a declared media type that is accepted without structural validation */
+  bodies: Record<string, ValidateFunction | null>;
+  bodyRequired: boolean;
+}
+
+const PARAMETER_LOCATIONS = ['path', 'query', 'header', 'cookie'] as const;
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+
+/**
+ * Validate incoming requests against the operations in an OpenAPI spec.
+ * Requests that do not match any documented path are passed through untouched.
+ * Throws when a schema in the spec cannot be compiled, so a bad spec fails at startup.
+ */
+export function validateRequests(spec: OpenAPISpec, options: ValidateRequestsOptions = {}) {
+  const {
+    mode = 'enforce',
+    coerceTypes = true,
+    validateBody = true,
+    exclude = [],
+    basePath = '',
+    problemType = 'about:blank',
+    logger = (problem: ValidationProblem) =>
+      console.warn(`[validateRequests] ${problem.instance}: ${problem.detail}`, problem.errors),
+  } = options;
+
+  const definitions = toJsonSchemaDefinitions(spec);
+
+  const ajvOptions = { allErrors: true, strict: false, logger: false as const };
+  const paramAjv = new Ajv({ ...ajvOptions, coerceTypes: coerceTypes ? 'array' : false });
+  const bodyAjv = new Ajv(ajvOptions);
+  addFormats(paramAjv);
+  addFormats(bodyAjv);
+
+  const routes = compileRoutes(spec);
+  const excluded = exclude.map(parseExclusion);
+  const compiled = new Map<string, CompiledOperation>();
+
+  for (const route of routes) {
+    for (const method of HTTP_METHODS) {
+      const operation = route.operations[method];
+      if (!operation || (operation as any)['x-validate'] === false || isExcluded(excluded, method, route.template)) {
+        continue;
+      }
+
+      try {
+        compiled.set(
+          `${method} ${route.template}`,
+          compileOperation(spec, route.operations, operation, definitions, paramAjv, bodyAjv)
+        );
+      } catch (error) {
+        throw new Error(
+          `validateRequests cannot compile ${method.toUpperCase()} ${route.template}: ${(error as Error).message}`
+        );
+      }
+    }
+  }
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const requestPath = stripBasePath(`${req.baseUrl || ''}${req.path}`, basePath);
+    const method = req.method.toLowerCase();
+    const match = matchRoute(routes, requestPath, method);
+
+    if (!match) {
+      next();
+      return;
+    }
+
+    const { route, operation, pathParams } = match;
+    if ((operation as any)['x-validate'] === false || isExcluded(excluded, method, route.template)) {
+      next();
+      return;
+    }
+
+    const { parameters, bodies, bodyRequired } = compiled.get(`${method} ${route.template}`)!;
+
+    const errors: ValidationIssue[] = [];
+    let status = 400;
+
+    const sources: Record<(typeof PARAMETER_LOCATIONS)[number], Record<string, unknown>> = {
+      path: pathParams,
+      query: { ...(req.query as Record<string, unknown>) },
+      header: req.headers as Record<string, unknown>,
+      cookie: (req as any).cookies || parseCookies(req.headers.cookie),
+    };
+
+    for (const location of PARAMETER_LOCATIONS) {
+      const validator = parameters[location];
+      if (!validator) continue;
+
+      const data: Record<string, unknown> = {};
+      for (const name of validator.names) {
+        const value = sources[location][location === 'header' ? name.toLowerCase() : name];
+        if (value !== undefined) data[name] = value;
+      }
+
+      if (!validator.validate(data)) {
+        errors.push(...toIssues(validator.validate.errors, location));
+      } else if (location === 'query' && coerceTypes) {
+        // Express 5 exposes req.query as a getter, so shadow it rather than mutating
+        Object.defineProperty(req, 'query', {
+          value: { ...sources.query, ...data },
+          writable: true,
+          configurable: true,
+          enumerable: true,
+        });
+      }
+    }
+
+    if (validateBody && (Object.keys(bodies).length > 0 || bodyRequired)) {
+      // Body parsers leave unrecognised media types unparsed, so trust the headers first
+      const hasBody = hasContent(req) || (req.body !== undefined && !isEmptyObject(req.body));
+      const contentType = (req.headers['content-type'] || '').split(';')[0].trim().toLowerCase();
+
+      if (!hasBody) {
+        if (bodyRequired) {
+          errors.push({ in: 'body', name: '', message: 'Request body is required' });
+        }
+      } else {
+        const validate = selectBodyValidator(bodies, contentType);
+
+        if (validate === undefined) {
+          status = 415;
+          errors.push({
+            in: 'body',
+            name: '',
+            message: `Unsupported content type: ${contentType || 'none'}`,
+          });
+        } else if (validate && !validate(req.body)) {
+          errors.push(...toIssues(validate.errors, 'body'));
+        }
+      }
+    }
+
+    if (errors.length === 0) {
+      next();
+      return;
+    }
+
+    const problem: ValidationProblem = {
+      type: problemType,
+      title: status === 415 ? 'Unsupported Media Type' : 'Request validation failed',
+      status,
+      detail: `${errors.length} validation error${errors.length === 1 ? '' : 's'} in ${req.method} ${route.template}`,
+      instance: req.originalUrl || req.url,
+      errors,
+    };
+
+    if (mode === 'report') {
+      logger(problem, req);
+      next();
+      return;
+    }
+
+    res.status(status);
+    res.setHeader('Content-Type', 'application/problem+json');
+    res.send(JSON.stringify(problem));
+  };
+}
+
+// ============================================================================
+// Exclusions
+// ============================================================================
+
+function parseExclusion(entry: string): { method?: string; path: string } {
+  const [first, second] = entry.trim().split(/\s+/);
+  return second ? { method: first.toLowerCase(), path: second } : { path: first };
+}
+
+function isExcluded(
+  exclusions: Array<{ method?: string; path: string }>,
+  method: string,
+  template: string
+): boolean {
+  const normalized = template.replace(/\{(\w+)\}/g, ':$1');
+  return exclusions.some(
+    (entry) =>
+      (!entry.method || entry.method === method) &&
+      entry.path.replace(/\{(\w+)\}/g, ':$1') === normalized
+  );
+}
+
+// ============================================================================
+// Schema compilation
+// ============================================================================
+
+/**
+ * Compile validators for an operation. Path item parameters apply to every operation
+ * under the path; operation parameters with the same name and location override them.
+ */
+function compileOperation(
+  spec: OpenAPISpec,
+  pathItem: Record<string, any>,
+  operation: OpenAPIPath,
+  definitions: Record<string, any>,
+  paramAjv: Ajv,
+  bodyAjv: Ajv
+): CompiledOperation {
+  const parameters: CompiledOperation['parameters'] = {};
+
+  const declared = new Map<string, OpenAPIParameter>();
+  for (const raw of [...(pathItem.parameters || []), ...(operation.parameters || [])]) {
+    const param = resolveLocalRef(spec, raw) as OpenAPIParameter | undefined;
+    if (param?.name && param.in) declared.set(`${param.in}:${param.name}`, param);
+  }
+
+  for (const location of PARAMETER_LOCATIONS) {
+    const params = [...declared.values()].filter((param) => param.in === location);
+    if (params.length === 0) continue;
+
+    const properties: Record<string, unknown> = {};
+    const required: string[] = [];
+    for (const param of params) {
+      properties[param.name] = toJsonSchema(param.schema || {});
+      if (param.required || location === 'path') required.push(param.name);
+    }
+
+    parameters[location] = {
+      names: params.map((param) => param.name),
+      validate: paramAjv.compile({ type: 'object', properties, required, definitions }),
+    };
+  }
+
+  const requestBody = resolveLocalRef(spec, operation.requestBody) as OpenAPIPath['requestBody'];
+  const bodies: CompiledOperation['bodies'] = {};
+  for (const [contentType, media] of Object.entries(requestBody?.content || {})) {
+    // Only JSON bodies can be validated structurally; other media types are accepted as-is
+    bodies[contentType.toLowerCase()] = isJsonMediaType(contentType) && media.schema
+      ? bodyAjv.compile({ ...toJsonSchema(media.schema), definitions })
+      : null;
+  }
+
+  return { parameters, bodies, bodyRequired: !!requestBody?.required };
+}
+
+/**
+ * Pick the validator for a request content type. Returns null for declared
+ * media types without a structural schema and undefined for undeclared ones.
+ */
+function selectBodyValidator(
+  bodies: CompiledOperation['bodies'],
+  contentType: string
+): ValidateFunction | null | undefined {
+  if (contentType in bodies) return bodies[contentType];
+
+  const [type] = contentType.split('/');
+  for (const [declared, validate] of Object.entries(bodies)) {
+    if (declared === '*/*' || declared === `${type}/*`) return validate;
+  }
+
+  // Clients commonly omit the header for JSON payloads
+  if (!contentType) {
+    const json = Object.keys(bodies).find(isJsonMediaType);
+    if (json) return bodies[json];
+  }
+
+  return undefined;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function toIssues(
+  ajvErrors: ErrorObject[] | null | undefined,
+  location: ValidationIssue['in']
+): ValidationIssue[] {
+  return (ajvErrors || []).map((error) => {
+    const pointer: string = error.instancePath || '';
+
+    if (location === 'body') {
+      const name =
+        error.keyword === 'required' ? `${pointer}/${(error.params as any).missingProperty}` : pointer;
+      return { in: location, name, message: error.message || 'is invalid' };
+    }
+
+    // Parameter validators wrap values in an object keyed by parameter name
+    const name =
+      error.keyword === 'required'
+        ? (error.params as any).missingProperty
+        : decodePointerSegment(pointer.split('/')[1] || '');
+    const message = error.keyword === 'required' ? 'is required' : error.message || 'is invalid';
+    return { in: location, name, message };
+  });
+}
+
+function decodePointerSegment(segment: string): string {
+  return segment.replace(/~1/g, '/').replace(/~0/g, '~');
+}
+
+function parseCookies(header: string | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  if (!header) return cookies;
+
+  for (const part of header.split(';')) {
+    const index = part.indexOf('=');
+    if (index === -1) continue;
+    cookies[part.slice(0, index).trim()] = safeDecode(part.slice(index + 1).trim());
+  }
+
+  return cookies;
+}
+
+function isEmptyObject(value: unknown): boolean {
+  return !!value && typeof value === 'object' && !Array.isArray(value) && Object.keys(value).length === 0;
+}
+
+function hasContent(req: Request): boolean {
+  const length = req.headers['content-length'];
+  return (length !== undefined && length !== '0') || req.headers['transfer-encoding'] !== undefined;
+}
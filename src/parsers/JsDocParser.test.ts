@@ -264,6 +264,22 @@ describe('JsDocTransformer', () => {
     expect(metadata?.security?.[0]).toEqual({ BearerAuth: [] });
   });
 
+  it('should parse @version tag', () => {
+    const source = `
+/**
+ * @openapi
+ * @route GET /users
+ * @version v2
+ */
+    `;
+
+    const extractor = new CommentExtractor();
+    const [comment] = extractor.extractFromSource(source);
+    const metadata = transformer.transform(comment.comment);
+
+    expect(metadata?.version).toBe('v2');
+  });
+
   it('should handle route without method (default to GET)', () => {
     const source = `
 /**
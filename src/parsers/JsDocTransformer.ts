@@ -19,6 +19,7 @@ export interface JsDocMetadata {
   deprecated?: boolean;
   operationId?: string;
   examples?: Record<string, any>;
+  version?: string;
 }
 
 /**
@@ -35,6 +36,7 @@ export interface JsDocMetadata {
  * - @response statusCode - description
  * - @bodyContent {contentType} schemaName
  * - @security schemeName[]
+ * - @version v2 - API version the route belongs to
  */
 export class JsDocTransformer {
   private options: Required<TransformOptions>;
@@ -129,6 +131,12 @@ export class JsDocTransformer {
         });
       }
 
+      // Extract API version
+      const versionTag = comment.tags.find((t) => t.tag === 'version');
+      if (versionTag && versionTag.name) {
+        metadata.version = versionTag.name;
+      }
+
       // Return null if no useful metadata extracted
       if (Object.keys(metadata).length === 0) {
         return null;
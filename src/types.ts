@@ -37,21 +37,35 @@ export interface OpenAPIParameter {
   description?: string;
   required?: boolean;
   schema?: OpenAPISchema;
+  example?: unknown;
+}
+
+export interface OpenAPIMediaType {
+  schema: OpenAPISchema;
+  example?: unknown;
+  examples?: Record<string, { summary?: string; description?: string; value?: unknown }>;
+  /** Specification extensions, e.g. x-body-size-limit */
+  [extension: `x-${string}`]: unknown;
 }
 
 export interface OpenAPIRequestBody {
   description?: string;
   required?: boolean;
-  content: Record<string, { schema: OpenAPISchema }>;
+  content: Record<string, OpenAPIMediaType>;
+  /** Specification extensions, e.g. x-inferred-from */
+  [extension: `x-${string}`]: unknown;
 }
 
 export interface OpenAPIResponse {
   description: string;
-  content?: Record<string, { schema: OpenAPISchema }>;
+  content?: Record<string, OpenAPIMediaType>;
+  [extension: `x-${string}`]: unknown;
 }
 
 export interface OpenAPISchema {
-  type?: string;
+  /** A single type, or an array of types in OpenAPI 3.1 (e.g. ['string', 'null']) */
+  type?: string | string[];
+  title?: string;
   properties?: Record<string, OpenAPISchema>;
   items?: OpenAPISchema;
   required?: string[];
@@ -59,8 +73,14 @@ export interface OpenAPISchema {
   format?: string;
   enum?: unknown[];
   example?: unknown;
+  /** OpenAPI 3.1 replacement for `example` */
+  examples?: unknown[];
+  /** OpenAPI 3.1 single allowed value */
+  const?: unknown;
   default?: unknown;
   $ref?: string;
+  /** JSON Schema dialect of the schema (OpenAPI 3.1) */
+  $schema?: string;
   allOf?: OpenAPISchema[];
   oneOf?: OpenAPISchema[];
   anyOf?: OpenAPISchema[];
@@ -69,22 +89,39 @@ export interface OpenAPISchema {
   maxLength?: number;
   minimum?: number;
   maximum?: number;
+  /** Boolean modifier of `minimum` in OpenAPI 3.0, the bound itself in OpenAPI 3.1 */
+  exclusiveMinimum?: boolean | number;
+  /** Boolean modifier of `maximum` in OpenAPI 3.0, the bound itself in OpenAPI 3.1 */
+  exclusiveMaximum?: boolean | number;
+  multipleOf?: number;
   minItems?: number;
   maxItems?: number;
   additionalProperties?: OpenAPISchema | boolean;
   uniqueItems?: boolean;
+  /** OpenAPI 3.0 only; OpenAPI 3.1 adds 'null' to `type` instead */
   nullable?: boolean;
+  readOnly?: boolean;
+  discriminator?: {
+    propertyName: string;
+    mapping?: Record<string, string>;
+  };
 }
 
 export interface OpenAPISpec {
   openapi: string;
   info: OpenAPIInfo;
+  /** Default `$schema` for schemas in the document (OpenAPI 3.1) */
+  jsonSchemaDialect?: string;
   servers?: OpenAPIServer[];
   paths: Record<string, Record<string, OpenAPIPath>>;
+  /** Requests the API initiates towards its consumers, keyed by name (OpenAPI 3.1) */
+  webhooks?: Record<string, Record<string, OpenAPIPath>>;
   components?: {
     schemas?: Record<string, OpenAPISchema>;
     securitySchemes?: Record<string, OpenAPISecurityScheme>;
   };
+  /** Security requirements applied to operations that do not declare their own */
+  security?: Array<Record<string, string[]>>;
   tags?: Array<{ name: string; description?: string }>;
 }
 
@@ -108,16 +145,31 @@ export interface RouteMetadata {
     parameters?: OpenAPIParameter[];
     requestBody?: OpenAPIRequestBody;
     responses?: Record<string, OpenAPIResponse>;
+    /** API version the route belongs to, for versioned spec generation */
+    version?: string;
   };
 }
 
+export interface ComponentExtractionOptions {
+  /** Hoist nested object schemas that occur at least this many times (default: 2) */
+  minOccurrences?: number;
+}
+
 export interface GeneratorConfig {
   info: OpenAPIInfo;
   servers?: OpenAPIServer[];
   specVersion?: '3.0.0' | '3.1.0';
+  /** Default JSON Schema dialect (3.1 only) */
+  jsonSchemaDialect?: string;
+  /** Webhooks described by the API (3.1 only) */
+  webhooks?: Record<string, Record<string, OpenAPIPath>>;
   enableRuntimeCapture?: boolean;
   securitySchemes?: Record<string, OpenAPISecurityScheme>;
   outputPath?: string;
+  /** Named schemas (OpenAPI, Zod, Joi or Yup) added to components.schemas */
+  schemas?: Record<string, unknown>;
+  /** Hoist request/response schemas into components.schemas and reference them with $ref */
+  extractComponents?: boolean | ComponentExtractionOptions;
 }
 
 export interface ValidatorAdapter {
@@ -27,6 +27,17 @@ export class JoiAdapter implements ValidatorAdapter {
   }
 
   private convertDescription(desc: any): OpenAPISchema {
+    const schema = this.convertType(desc);
+
+    // Labels name the schema when it is hoisted into components
+    if (desc.flags?.label) {
+      schema.title = desc.flags.label;
+    }
+
+    return schema;
+  }
+
+  private convertType(desc: any): OpenAPISchema {
     const schema: OpenAPISchema = {};
 
     // Handle type
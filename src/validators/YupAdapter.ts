@@ -66,6 +66,11 @@ export class YupAdapter implements ValidatorAdapter {
       }
     }
 
+    // Labels name the schema when it is hoisted into components
+    if (desc.label) {
+      schema.title = desc.label;
+    }
+
     // Add default value
     if (desc.default !== undefined) {
       schema.default = desc.default;
@@ -143,6 +143,200 @@ describe('ZodAdapter', () => {
     });
   });
 
+  describe('convert - string and number checks', () => {
+    it('should convert string length, pattern and date formats', () => {
+      expect(adapter.convert(z.string().min(2).max(10).regex(/^[a-z]+$/))).toEqual({
+        type: 'string',
+        minLength: 2,
+        maxLength: 10,
+        pattern: '^[a-z]+$',
+      });
+      expect(adapter.convert(z.string().datetime())).toEqual({ type: 'string', format: 'date-time' });
+    });
+
+    it('should convert number bounds', () => {
+      expect(adapter.convert(z.number().gt(0).lte(100).multipleOf(5))).toEqual({
+        type: 'number',
+        minimum: 0,
+        exclusiveMinimum: true,
+        maximum: 100,
+        multipleOf: 5,
+      });
+    });
+
+    it('should convert coerced primitives to their target type', () => {
+      expect(adapter.convert(z.coerce.number().int())).toEqual({ type: 'number', format: 'int32' });
+      expect(adapter.convert(z.coerce.date())).toEqual({ type: 'string', format: 'date-time' });
+    });
+  });
+
+  describe('convert - composition', () => {
+    it('should convert ZodUnion to oneOf', () => {
+      expect(adapter.convert(z.union([z.string(), z.number()]))).toEqual({
+        oneOf: [{ type: 'string' }, { type: 'number' }],
+      });
+    });
+
+    it('should collapse unions of literals into an enum', () => {
+      expect(adapter.convert(z.union([z.literal('a'), z.literal('b')]))).toEqual({
+        type: 'string',
+        enum: ['a', 'b'],
+      });
+    });
+
+    it('should treat a union with null as nullable', () => {
+      expect(adapter.convert(z.union([z.string(), z.null()]))).toEqual({
+        type: 'string',
+        nullable: true,
+      });
+    });
+
+    it('should convert ZodDiscriminatedUnion with a discriminator', () => {
+      const schema = z.discriminatedUnion('kind', [
+        z.object({ kind: z.literal('cat'), lives: z.number() }),
+        z.object({ kind: z.literal('dog'), breed: z.string() }),
+      ]);
+      const result = adapter.convert(schema);
+
+      expect(result.discriminator).toEqual({ propertyName: 'kind' });
+      expect(result.oneOf).toHaveLength(2);
+      expect(result.oneOf![0].properties!.kind).toEqual({ type: 'string', enum: ['cat'] });
+    });
+
+    it('should convert ZodIntersection to allOf', () => {
+      const schema = z.intersection(z.object({ a: z.string() }), z.object({ b: z.number() }));
+      const result = adapter.convert(schema);
+
+      expect(result.allOf).toHaveLength(2);
+      expect(result.allOf![1].properties).toHaveProperty('b');
+    });
+
+    it('should convert ZodNullable', () => {
+      expect(adapter.convert(z.string().nullable())).toEqual({ type: 'string', nullable: true });
+    });
+  });
+
+  describe('convert - other types', () => {
+    it('should convert ZodLiteral', () => {
+      expect(adapter.convert(z.literal(42))).toEqual({ type: 'number', enum: [42] });
+    });
+
+    it('should convert ZodRecord to additionalProperties', () => {
+      expect(adapter.convert(z.record(z.string(), z.number()))).toEqual({
+        type: 'object',
+        additionalProperties: { type: 'number' },
+      });
+    });
+
+    it('should convert ZodTuple', () => {
+      expect(adapter.convert(z.tuple([z.string(), z.number()]))).toEqual({
+        type: 'array',
+        items: { oneOf: [{ type: 'string' }, { type: 'number' }] },
+        minItems: 2,
+        maxItems: 2,
+      });
+    });
+
+    it('should convert ZodDate', () => {
+      expect(adapter.convert(z.date())).toEqual({ type: 'string', format: 'date-time' });
+    });
+
+    it('should convert ZodNativeEnum without reverse mappings', () => {
+      enum Status {
+        Active,
+        Inactive,
+      }
+      enum Color {
+        Red = 'red',
+        Blue = 'blue',
+      }
+
+      expect(adapter.convert(z.nativeEnum(Status))).toEqual({ type: 'number', enum: [0, 1] });
+      expect(adapter.convert(z.nativeEnum(Color))).toEqual({ type: 'string', enum: ['red', 'blue'] });
+    });
+
+    it('should unwrap branded schemas', () => {
+      expect(adapter.convert(z.string().brand<'UserId'>())).toEqual({ type: 'string' });
+    });
+
+    it('should include default values', () => {
+      expect(adapter.convert(z.string().default('x'))).toEqual({ type: 'string', default: 'x' });
+    });
+
+    it('should break z.lazy() cycles with a component reference', () => {
+      interface Category {
+        name: string;
+        children: Category[];
+      }
+      const category: z.ZodType<Category> = z
+        .object({
+          name: z.string(),
+          children: z.lazy(() => z.array(category)),
+        })
+        .describe('Category');
+
+      const result = adapter.convert(category);
+
+      expect(result.description).toBe('Category');
+      expect(result.properties!.children).toEqual({
+        type: 'array',
+        items: { $ref: '#/components/schemas/Category' },
+      });
+    });
+  });
+
+  describe('convert - metadata', () => {
+    it('should read descriptions from .describe()', () => {
+      const schema = z.object({ email: z.string().email().describe('Login email') });
+      const result = adapter.convert(schema);
+
+      expect(result.properties!.email).toEqual({
+        type: 'string',
+        format: 'email',
+        description: 'Login email',
+      });
+    });
+  });
+
+  describe('convert - input vs output', () => {
+    it('should keep refinements identical on both sides', () => {
+      const schema = z.string().refine((value) => value.length > 0);
+      const { input, output } = adapter.convertInputOutput(schema);
+
+      expect(input).toEqual({ type: 'string' });
+      expect(output).toEqual({ type: 'string' });
+    });
+
+    it('should describe transform input and leave output open', () => {
+      const schema = z.string().transform((value) => value.length);
+      const { input, output } = adapter.convertInputOutput(schema);
+
+      expect(input).toEqual({ type: 'string' });
+      expect(output).toEqual({});
+    });
+
+    it('should use pipeline input and output schemas', () => {
+      const schema = z.string().transform(Number).pipe(z.number().int());
+
+      expect(adapter.convert(schema, { io: 'input' })).toEqual({ type: 'string' });
+      expect(adapter.convert(schema, { io: 'output' })).toEqual({ type: 'number', format: 'int32' });
+    });
+
+    it('should accept anything before a preprocessor', () => {
+      const schema = z.preprocess((value) => String(value), z.string());
+
+      expect(adapter.convert(schema, { io: 'input' })).toEqual({});
+      expect(adapter.convert(schema, { io: 'output' })).toEqual({ type: 'string' });
+    });
+
+    it('should only require defaulted keys in the output', () => {
+      const schema = z.object({ name: z.string(), role: z.string().default('user') });
+
+      expect(adapter.convert(schema, { io: 'input' }).required).toEqual(['name']);
+      expect(adapter.convert(schema, { io: 'output' }).required).toEqual(['name', 'role']);
+    });
+  });
+
   describe('error handling', () => {
     it('should throw error for invalid schema', () => {
       expect(() => adapter.convert({})).toThrow('Invalid Zod schema provided');
@@ -1,47 +1,149 @@
 import type { ValidatorAdapter, OpenAPISchema } from '../types';
 
+/**
+ * Which side of a Zod schema to describe. Transforms, preprocessors, pipelines
+ * and defaults make the accepted input differ from the parsed output.
+ */
+export type ZodSchemaIO = 'input' | 'output';
+
+export interface ZodConversionOptions {
+  /** Describe the accepted input (request bodies) or the parsed output (default: 'input') */
+  io?: ZodSchemaIO;
+}
+
+interface ConversionContext {
+  io: ZodSchemaIO;
+  /** Schemas on the current conversion path, used to break z.lazy() cycles */
+  seen: Set<unknown>;
+}
+
 export class ZodAdapter implements ValidatorAdapter {
   name = 'zod';
 
   detect(schema: unknown): boolean {
-    // Phase 2: Minimal Zod detection
-    // TODO(Phase 2): Robust detection for all Zod schema types
     return (
       schema !== null &&
       typeof schema === 'object' &&
       '_def' in schema &&
-      typeof (schema as any)._def === 'object'
+      typeof (schema as any)._def === 'object' &&
+      typeof (schema as any)._def.typeName === 'string'
     );
   }
 
-  convert(schema: unknown): OpenAPISchema {
-    // Phase 2: Basic Zod to OpenAPI conversion
-    // TODO(Phase 2): Complete implementation with all Zod types
-    // TODO(Phase 2): Handle nested schemas, unions, intersections
-    // TODO(Phase 3): Extract examples and descriptions from Zod metadata
-
+  convert(schema: unknown, options: ZodConversionOptions = {}): OpenAPISchema {
     if (!this.detect(schema)) {
       throw new Error('Invalid Zod schema provided');
     }
 
-    const zodSchema = schema as any;
-    const typeName = zodSchema._def.typeName;
+    return this.convertNode(schema, { io: options.io || 'input', seen: new Set() });
+  }
+
+  /**
+   * Convert both sides of a schema. The two results only differ when the
+   * schema contains transforms, preprocessors, pipelines or defaults.
+   */
+  convertInputOutput(schema: unknown): { input: OpenAPISchema; output: OpenAPISchema } {
+    return {
+      input: this.convert(schema, { io: 'input' }),
+      output: this.convert(schema, { io: 'output' }),
+    };
+  }
+
+  private convertNode(zodSchema: any, ctx: ConversionContext): OpenAPISchema {
+    if (ctx.seen.has(zodSchema)) {
+      // Recursive schemas (via z.lazy) can only be expressed through a named component
+      const name = zodSchema._def.description;
+      return name && /^[A-Z][A-Za-z0-9]*$/.test(name)
+        ? { $ref: `#/components/schemas/${name}` }
+        : { type: 'object', description: 'Recursive schema' };
+    }
+
+    ctx.seen.add(zodSchema);
+    let converted: OpenAPISchema;
+    try {
+      converted = this.convertType(zodSchema, ctx);
+    } finally {
+      ctx.seen.delete(zodSchema);
+    }
+
+    if (zodSchema._def.description && !converted.description && !converted.$ref) {
+      converted.description = zodSchema._def.description;
+    }
+
+    return converted;
+  }
+
+  private convertType(zodSchema: any, ctx: ConversionContext): OpenAPISchema {
+    const def = zodSchema._def;
+    const typeName = def.typeName;
 
     switch (typeName) {
       case 'ZodString':
         return this.convertZodString(zodSchema);
       case 'ZodNumber':
         return this.convertZodNumber(zodSchema);
+      case 'ZodBigInt':
+        return { type: 'integer', format: 'int64' };
+      case 'ZodNaN':
+        return { type: 'number' };
       case 'ZodBoolean':
         return { type: 'boolean' };
-      case 'ZodObject':
-        return this.convertZodObject(zodSchema);
-      case 'ZodArray':
-        return this.convertZodArray(zodSchema);
+      case 'ZodDate':
+        return { type: 'string', format: 'date-time' };
+      case 'ZodNull':
+        return { nullable: true, enum: [null] };
+      case 'ZodAny':
+      case 'ZodUnknown':
+      case 'ZodUndefined':
+      case 'ZodVoid':
+        return {};
+      case 'ZodLiteral':
+        return this.convertLiteralValues([def.value]);
       case 'ZodEnum':
         return this.convertZodEnum(zodSchema);
+      case 'ZodNativeEnum':
+        return this.convertZodNativeEnum(zodSchema);
+      case 'ZodObject':
+        return this.convertZodObject(zodSchema, ctx);
+      case 'ZodArray':
+        return this.convertZodArray(zodSchema, ctx);
+      case 'ZodTuple':
+        return this.convertZodTuple(zodSchema, ctx);
+      case 'ZodSet':
+        return this.convertZodSet(zodSchema, ctx);
+      case 'ZodRecord':
+      case 'ZodMap':
+        return {
+          type: 'object',
+          additionalProperties: this.convertNode(def.valueType, ctx),
+        };
+      case 'ZodUnion':
+        return this.convertZodUnion(zodSchema, ctx);
+      case 'ZodDiscriminatedUnion':
+        return this.convertZodDiscriminatedUnion(zodSchema, ctx);
+      case 'ZodIntersection':
+        return {
+          allOf: [this.convertNode(def.left, ctx), this.convertNode(def.right, ctx)],
+        };
       case 'ZodOptional':
-        return this.convert(zodSchema._def.innerType);
+        return this.convertNode(def.innerType, ctx);
+      case 'ZodNullable':
+        return this.makeNullable(this.convertNode(def.innerType, ctx));
+      case 'ZodDefault':
+        return { ...this.convertNode(def.innerType, ctx), default: def.defaultValue() };
+      case 'ZodCatch':
+      case 'ZodPromise':
+        return this.convertNode(def.innerType ?? def.type, ctx);
+      case 'ZodReadonly':
+        return { ...this.convertNode(def.innerType, ctx), readOnly: true };
+      case 'ZodBranded':
+        return this.convertNode(def.type, ctx);
+      case 'ZodEffects':
+        return this.convertZodEffects(zodSchema, ctx);
+      case 'ZodPipeline':
+        return this.convertNode(ctx.io === 'input' ? def.in : def.out, ctx);
+      case 'ZodLazy':
+        return this.convertNode(def.getter(), ctx);
       default:
         return { type: 'object', description: `Unsupported Zod type: ${typeName}` };
     }
@@ -52,12 +154,41 @@ export class ZodAdapter implements ValidatorAdapter {
 
     const checks = zodSchema._def.checks || [];
     for (const check of checks) {
-      if (check.kind === 'email') {
-        schema.format = 'email';
-      } else if (check.kind === 'uuid') {
-        schema.format = 'uuid';
-      } else if (check.kind === 'url') {
-        schema.format = 'uri';
+      switch (check.kind) {
+        case 'email':
+          schema.format = 'email';
+          break;
+        case 'uuid':
+          schema.format = 'uuid';
+          break;
+        case 'url':
+          schema.format = 'uri';
+          break;
+        case 'datetime':
+          schema.format = 'date-time';
+          break;
+        case 'date':
+          schema.format = 'date';
+          break;
+        case 'time':
+          schema.format = 'time';
+          break;
+        case 'ip':
+          schema.format = check.version === 'v6' ? 'ipv6' : 'ipv4';
+          break;
+        case 'min':
+          schema.minLength = check.value;
+          break;
+        case 'max':
+          schema.maxLength = check.value;
+          break;
+        case 'length':
+          schema.minLength = check.value;
+          schema.maxLength = check.value;
+          break;
+        case 'regex':
+          schema.pattern = check.regex.source;
+          break;
       }
     }
 
@@ -71,38 +202,101 @@ export class ZodAdapter implements ValidatorAdapter {
     for (const check of checks) {
       if (check.kind === 'int') {
         schema.format = 'int32';
+      } else if (check.kind === 'min') {
+        schema.minimum = check.value;
+        if (!check.inclusive) schema.exclusiveMinimum = true;
+      } else if (check.kind === 'max') {
+        schema.maximum = check.value;
+        if (!check.inclusive) schema.exclusiveMaximum = true;
+      } else if (check.kind === 'multipleOf') {
+        schema.multipleOf = check.value;
       }
     }
 
     return schema;
   }
 
-  private convertZodObject(zodSchema: any): OpenAPISchema {
-    const shape = zodSchema._def.shape?.() || {};
+  private convertZodObject(zodSchema: any, ctx: ConversionContext): OpenAPISchema {
+    const def = zodSchema._def;
+    const shape = def.shape?.() || {};
     const properties: Record<string, OpenAPISchema> = {};
     const required: string[] = [];
 
     for (const [key, value] of Object.entries(shape)) {
-      properties[key] = this.convert(value);
+      properties[key] = this.convertNode(value, ctx);
 
-      if (!this.isOptional(value as any)) {
+      if (!this.isOptional(value as any, ctx.io)) {
         required.push(key);
       }
     }
 
-    return {
+    const schema: OpenAPISchema = {
       type: 'object',
       properties,
       ...(required.length > 0 && { required }),
     };
+
+    if (def.catchall && def.catchall._def.typeName !== 'ZodNever') {
+      schema.additionalProperties = this.convertNode(def.catchall, ctx);
+    } else if (def.unknownKeys === 'strict') {
+      schema.additionalProperties = false;
+    } else if (def.unknownKeys === 'passthrough') {
+      schema.additionalProperties = true;
+    }
+
+    return schema;
   }
 
-  private convertZodArray(zodSchema: any): OpenAPISchema {
-    const itemsSchema = zodSchema._def.type;
-    return {
+  private convertZodArray(zodSchema: any, ctx: ConversionContext): OpenAPISchema {
+    const def = zodSchema._def;
+    const schema: OpenAPISchema = {
+      type: 'array',
+      items: this.convertNode(def.type, ctx),
+    };
+
+    if (def.exactLength) {
+      schema.minItems = def.exactLength.value;
+      schema.maxItems = def.exactLength.value;
+    }
+    if (def.minLength) schema.minItems = def.minLength.value;
+    if (def.maxLength) schema.maxItems = def.maxLength.value;
+
+    return schema;
+  }
+
+  private convertZodTuple(zodSchema: any, ctx: ConversionContext): OpenAPISchema {
+    const def = zodSchema._def;
+    const members: OpenAPISchema[] = (def.items || []).map((item: any) => this.convertNode(item, ctx));
+    if (def.rest) {
+      members.push(this.convertNode(def.rest, ctx));
+    }
+
+    const unique = this.dedupe(members);
+    const schema: OpenAPISchema = {
+      type: 'array',
+      items: unique.length === 1 ? unique[0] : { oneOf: unique },
+      minItems: def.items.length,
+    };
+
+    if (!def.rest) {
+      schema.maxItems = def.items.length;
+    }
+
+    return schema;
+  }
+
+  private convertZodSet(zodSchema: any, ctx: ConversionContext): OpenAPISchema {
+    const def = zodSchema._def;
+    const schema: OpenAPISchema = {
       type: 'array',
-      items: this.convert(itemsSchema),
+      items: this.convertNode(def.valueType, ctx),
+      uniqueItems: true,
     };
+
+    if (def.minSize) schema.minItems = def.minSize.value;
+    if (def.maxSize) schema.maxItems = def.maxSize.value;
+
+    return schema;
   }
 
   private convertZodEnum(zodSchema: any): OpenAPISchema {
@@ -113,7 +307,134 @@ export class ZodAdapter implements ValidatorAdapter {
     };
   }
 
-  private isOptional(zodSchema: any): boolean {
-    return zodSchema._def.typeName === 'ZodOptional';
+  private convertZodNativeEnum(zodSchema: any): OpenAPISchema {
+    const enumObject = zodSchema._def.values || {};
+    // Numeric TypeScript enums carry reverse mappings (value -> key) that must be skipped
+    const values = Object.keys(enumObject)
+      .filter((key) => typeof enumObject[enumObject[key]] !== 'number')
+      .map((key) => enumObject[key]);
+
+    return this.convertLiteralValues(values);
+  }
+
+  private convertLiteralValues(values: unknown[]): OpenAPISchema {
+    const nonNull = values.filter((value) => value !== null);
+    const types = new Set(nonNull.map((value) => typeof value));
+    const schema: OpenAPISchema = { enum: values };
+
+    if (types.size === 1) {
+      const type = Array.from(types)[0];
+      if (type === 'string' || type === 'number' || type === 'boolean') {
+        schema.type = type;
+      } else if (type === 'bigint') {
+        schema.type = 'integer';
+      }
+    }
+    if (nonNull.length < values.length) {
+      schema.nullable = true;
+    }
+
+    return schema;
+  }
+
+  private convertZodUnion(zodSchema: any, ctx: ConversionContext): OpenAPISchema {
+    const options: any[] = zodSchema._def.options || [];
+    const nullish = options.filter((option) => this.isNullish(option));
+    const rest = options.filter((option) => !this.isNullish(option));
+    const hasNull = nullish.some((option) => option._def.typeName === 'ZodNull');
+
+    // z.union([z.literal('a'), z.literal('b')]) reads better as a single enum
+    if (rest.length > 0 && rest.every((option) => option._def.typeName === 'ZodLiteral')) {
+      const literal = this.convertLiteralValues(rest.map((option) => option._def.value));
+      return hasNull ? this.makeNullable(literal) : literal;
+    }
+
+    const members = this.dedupe(rest.map((option) => this.convertNode(option, ctx)));
+    const schema: OpenAPISchema = members.length === 1 ? members[0] : { oneOf: members };
+
+    return hasNull ? this.makeNullable(schema) : schema;
+  }
+
+  private convertZodDiscriminatedUnion(zodSchema: any, ctx: ConversionContext): OpenAPISchema {
+    const def = zodSchema._def;
+    const options: any[] = Array.isArray(def.options)
+      ? def.options
+      : Array.from(def.optionsMap?.values() || []);
+
+    return {
+      oneOf: options.map((option) => this.convertNode(option, ctx)),
+      discriminator: { propertyName: def.discriminator },
+    };
+  }
+
+  private convertZodEffects(zodSchema: any, ctx: ConversionContext): OpenAPISchema {
+    const def = zodSchema._def;
+    const effect = def.effect?.type;
+
+    if (effect === 'transform' && ctx.io === 'output') {
+      // The transform function's return shape cannot be inferred at runtime
+      return {};
+    }
+    if (effect === 'preprocess' && ctx.io === 'input') {
+      // Preprocessors accept arbitrary input before validation
+      return {};
+    }
+
+    return this.convertNode(def.schema, ctx);
+  }
+
+  private makeNullable(schema: OpenAPISchema): OpenAPISchema {
+    // Siblings of $ref are ignored, so wrap references before marking them nullable
+    if (schema.$ref) {
+      return { allOf: [schema], nullable: true };
+    }
+    return { ...schema, nullable: true };
+  }
+
+  private dedupe(schemas: OpenAPISchema[]): OpenAPISchema[] {
+    const seen = new Set<string>();
+    return schemas.filter((schema) => {
+      const key = JSON.stringify(schema);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+
+  private isNullish(zodSchema: any): boolean {
+    const typeName = zodSchema._def.typeName;
+    return typeName === 'ZodNull' || typeName === 'ZodUndefined' || typeName === 'ZodVoid';
+  }
+
+  private isOptional(zodSchema: any, io: ZodSchemaIO): boolean {
+    const def = zodSchema._def;
+
+    switch (def.typeName) {
+      case 'ZodOptional':
+      case 'ZodAny':
+      case 'ZodUnknown':
+      case 'ZodUndefined':
+      case 'ZodVoid':
+        return true;
+      case 'ZodDefault':
+      case 'ZodCatch':
+        // Defaults make the key optional on input but always present after parsing
+        return io === 'input' || this.isOptional(def.innerType, io);
+      case 'ZodNullable':
+      case 'ZodReadonly':
+        return this.isOptional(def.innerType, io);
+      case 'ZodBranded':
+        return this.isOptional(def.type, io);
+      case 'ZodEffects':
+        return this.isOptional(def.schema, io);
+      case 'ZodPipeline':
+        return this.isOptional(io === 'input' ? def.in : def.out, io);
+      case 'ZodLazy':
+        return false;
+      case 'ZodUnion':
+        return (def.options || []).some((option: any) => this.isOptional(option, io));
+      default:
+        return false;
+    }
   }
 }
@@ -0,0 +1,175 @@
+import { describe, it, expect, afterAll } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { bundleSpec, dereferenceSpec, splitSpec } from '../../src/cli/bundle';
+
+const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'bundle-'));
+
+afterAll(() => {
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+/**
+ * Write files under a fresh directory; objects are written as JSON, strings as is
+ */
+function writeFiles(name: string, files: Record<string, unknown>): string {
+  const dir = path.join(tempDir, name);
+  for (const [file, content] of Object.entries(files)) {
+    fs.mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+    fs.writeFileSync(path.join(dir, file), typeof content === 'string' ? content : JSON.stringify(content));
+  }
+  return dir;
+}
+
+const ok = (schema: any) => ({ '200': { description: 'OK', content: { 'application/json': { schema } } } });
+
+describe('bundleSpec', () => {
+  it('should pull referenced files into components with internal refs', () => {
+    const dir = writeFiles('multi', {
+      'openapi.json': {
+        openapi: '3.0.3',
+        info: { title: 'Multi', version: '1.0.0' },
+        paths: {
+          '/users': { $ref: './paths/users.json' },
+          '/users/{id}': {
+            get: {
+              parameters: [{ $ref: './common.yaml#/parameters/Id' }],
+              responses: { ...ok({ $ref: './schemas/User.json' }), '404': { $ref: './common.yaml#/responses/NotFound' } },
+            },
+          },
+        },
+        components: { schemas: { Local: { type: 'string' } } },
+      },
+      'paths/users.json': { get: { responses: ok({ type: 'array', items: { $ref: '../schemas/User.json' } }) } },
+      'schemas/User.json': { type: 'object', properties: { address: { $ref: 'Address.json' }, tag: { $ref: '../openapi.json#/components/schemas/Local' } } },
+      'schemas/Address.json': { type: 'object', properties: { city: { type: 'string' } } },
+      'common.yaml': 'parameters:\n  Id: { name: id, in: path, required: true, schema: { type: string } }\nresponses:\n  NotFound: { description: Not found }\n',
+    });
+
+    const result = bundleSpec(path.join(dir, 'openapi.json'));
+    const { spec } = result;
+
+    expect(spec.paths['/users'].get.responses['200'].content['application/json'].schema.items).toEqual({ $ref: '#/components/schemas/User' });
+    expect(spec.paths['/users/{id}'].get.parameters).toEqual([{ $ref: '#/components/parameters/Id' }]);
+    expect(spec.paths['/users/{id}'].get.responses['404']).toEqual({ $ref: '#/components/responses/NotFound' });
+    expect(spec.components.schemas).toEqual({
+      Local: { type: 'string' },
+      User: { type: 'object', properties: { address: { $ref: '#/components/schemas/Address' }, tag: { $ref: '#/components/schemas/Local' } } },
+      Address: { type: 'object', properties: { city: { type: 'string' } } },
+    });
+    expect(spec.components.parameters.Id.name).toBe('id');
+    expect(result.files.map((file) => path.relative(dir, file))).toEqual([
+      'openapi.json',
+      'paths/users.json',
+      path.join('schemas', 'User.json'),
+      path.join('schemas', 'Address.json'),
+      'common.yaml',
+    ]);
+  });
+
+  it('should keep names of root components that point at files and handle cycles', () => {
+    const dir = writeFiles('cycle', {
+      'openapi.json': {
+        openapi: '3.1.0',
+        info: { title: 'Tree', version: '1.0.0' },
+        paths: { '/tree': { get: { responses: ok({ $ref: './node.json' }) } } },
+        components: { schemas: { TreeNode: { $ref: './node.json' } } },
+      },
+      'node.json': { type: 'object', properties: { children: { type: 'array', items: { $ref: './node.json' } } } },
+    });
+
+    const { spec } = bundleSpec(path.join(dir, 'openapi.json'));
+
+    expect(Object.keys(spec.components.schemas)).toEqual(['TreeNode']);
+    expect(spec.components.schemas.TreeNode.properties.children.items).toEqual({ $ref: '#/components/schemas/TreeNode' });
+    expect(spec.paths['/tree'].get.responses['200'].content['application/json'].schema).toEqual({ $ref: '#/components/schemas/TreeNode' });
+  });
+
+  it('should report missing files and leave remote refs alone', () => {
+    const dir = writeFiles('broken', {
+      'openapi.json': {
+        openapi: '3.0.3',
+        info: { title: 'Broken', version: '1.0.0' },
+        paths: { '/a': { get: { responses: ok({ $ref: 'https://example.com/schemas/a.json' }) } } },
+      },
+      'missing.json': { openapi: '3.0.3', info: { title: 'Missing', version: '1.0.0' }, paths: { '/b': { $ref: './nope.json' } } },
+    });
+
+    const result = bundleSpec(path.join(dir, 'openapi.json'));
+
+    expect(result.warnings).toEqual(['Remote $ref left as is: https://example.com/schemas/a.json']);
+    expect(() => bundleSpec(path.join(dir, 'missing.json'))).toThrow('Referenced file not found: nope.json');
+  });
+});
+
+describe('dereferenceSpec', () => {
+  it('should inline refs and keep circular ones', () => {
+    const spec = {
+      openapi: '3.1.0',
+      info: { title: 'Deref', version: '1.0.0' },
+      paths: { '/users': { get: { responses: ok({ $ref: '#/components/schemas/User', description: 'A user' }) } } },
+      components: {
+        schemas: {
+          User: { type: 'object', properties: { id: { type: 'string' }, manager: { $ref: '#/components/schemas/User' } } },
+        },
+      },
+    };
+
+    const result = dereferenceSpec(spec);
+    const schema = result.spec.paths['/users'].get.responses['200'].content['application/json'].schema;
+
+    expect(schema.description).toBe('A user');
+    expect(schema.properties.id).toEqual({ type: 'string' });
+    expect(schema.properties.manager).toEqual({ $ref: '#/components/schemas/User' });
+    expect(result.circular).toEqual(['#/components/schemas/User']);
+  });
+
+  it('should throw for refs that point nowhere', () => {
+    expect(() => dereferenceSpec({ paths: { '/a': { $ref: '#/components/pathItems/A' } } })).toThrow('Unresolved $ref: #/components/pathItems/A');
+  });
+});
+
+describe('splitSpec', () => {
+  const spec = {
+    openapi: '3.0.3',
+    info: { title: 'Split', version: '1.0.0' },
+    paths: {
+      '/users/{id}': { get: { responses: { ...ok({ $ref: '#/components/schemas/User' }), '404': { $ref: '#/components/responses/NotFound' } } } },
+    },
+    components: {
+      schemas: {
+        User: { type: 'object', properties: { pet: { $ref: '#/components/schemas/Pet' } } },
+        Pet: { oneOf: [{ $ref: '#/components/schemas/User' }], discriminator: { propertyName: 'kind', mapping: { user: '#/components/schemas/User' } } },
+      },
+      responses: { NotFound: { description: 'Not found', content: { 'application/json': { schema: { $ref: '#/components/schemas/Pet' } } } } },
+      securitySchemes: { bearer: { type: 'http', scheme: 'bearer' } },
+    },
+  };
+
+  it('should write paths and components to files with relative refs', () => {
+    const { root, files } = splitSpec(spec);
+
+    expect(root).toBe('openapi.yaml');
+    expect(Object.keys(files).sort()).toEqual([
+      'components/responses/NotFound.yaml',
+      'components/schemas/Pet.yaml',
+      'components/schemas/User.yaml',
+      'openapi.yaml',
+      'paths/users_{id}.yaml',
+    ]);
+    expect(files['openapi.yaml'].paths['/users/{id}']).toEqual({ $ref: './paths/users_{id}.yaml' });
+    expect(files['openapi.yaml'].components.securitySchemes).toEqual(spec.components.securitySchemes);
+    expect(files['paths/users_{id}.yaml'].get.responses['404']).toEqual({ $ref: '../components/responses/NotFound.yaml' });
+    expect(files['components/schemas/User.yaml'].properties.pet).toEqual({ $ref: './Pet.yaml' });
+    expect(files['components/schemas/Pet.yaml'].discriminator.mapping).toEqual({ user: './User.yaml' });
+    expect(files['components/responses/NotFound.yaml'].content['application/json'].schema).toEqual({ $ref: '../schemas/Pet.yaml' });
+  });
+
+  it('should bundle back into the original spec', () => {
+    const { files } = splitSpec(spec, { format: 'json' });
+    const dir = writeFiles('roundtrip', files);
+
+    expect(bundleSpec(path.join(dir, 'openapi.json')).spec).toEqual(spec);
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import { generateClient, resolveCodegenTarget } from '../../src/cli/codegen';
+import type { OpenAPISpec } from '../../src/types';
+
+const spec: OpenAPISpec = {
+  openapi: '3.1.0',
+  info: { title: 'Pet Store API', version: '1.0.0' },
+  servers: [{ url: 'https://api.example.com/v1' }],
+  security: [{ bearerAuth: [] }],
+  paths: {
+    '/pets': {
+      get: {
+        operationId: 'list-pets',
+        summary: 'List pets',
+        parameters: [
+          { name: 'limit', in: 'query', schema: { type: 'integer' } },
+          { name: 'X-Request-Id', in: 'header', schema: { type: 'string' } },
+          { name: 'session', in: 'cookie', schema: { type: 'string' } },
+        ],
+        responses: {
+          '200': {
+            description: 'Pets',
+            content: { 'application/json': { schema: { type: 'array', items: { $ref: '#/components/schemas/Pet' } } } },
+          },
+          '404': { description: 'Not found', content: { 'application/json': { schema: { $ref: '#/components/schemas/Problem' } } } },
+        },
+      },
+      post: {
+        security: [{ apiKey: [] }, { basicAuth: [] }],
+        requestBody: { required: true, content: { 'application/json': { schema: { $ref: '#/components/schemas/NewPet' } } } },
+        responses: { '204': { description: 'Created' } },
+      },
+    },
+    '/pets/{petId}': {
+      get: {
+        parameters: [{ name: 'petId', in: 'path', required: true, schema: { type: 'integer' } }],
+        responses: { default: { description: 'Pet', content: { 'application/json': { schema: { $ref: '#/components/schemas/Pet' } } } } },
+      },
+    },
+  },
+  components: {
+    schemas: {
+      Pet: { description: 'A pet', oneOf: [{ $ref: '#/components/schemas/Cat' }, { $ref: '#/components/schemas/Dog' }] },
+      Cat: {
+        type: 'object',
+        required: ['kind'],
+        properties: { kind: { const: 'cat' }, name: { type: ['string', 'null'], description: 'Pet name' } },
+      },
+      Dog: { type: 'object', properties: { kind: { type: 'string', enum: ['dog'] }, tags: { type: 'array', items: { type: 'string' } } } },
+      NewPet: { allOf: [{ $ref: '#/components/schemas/Cat' }, { type: 'object', properties: { note: { type: 'string', nullable: true } } }] },
+      Problem: { type: 'object', required: ['title'], properties: { title: { type: 'string' } }, additionalProperties: { type: 'string' } },
+    },
+    securitySchemes: {
+      bearerAuth: { type: 'http', scheme: 'bearer' },
+      apiKey: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+      basicAuth: { type: 'http', scheme: 'basic' },
+    },
+  },
+};
+
+describe('generateClient', () => {
+  const client = generateClient(spec, { target: 'typescript-fetch' });
+
+  it('should emit interfaces and aliases for component schemas in name order', () => {
+    expect(client.schemas).toBe(5);
+    expect(client.code).toContain(
+      ['export interface Cat {', "  kind: 'cat';", '  /** Pet name */', '  name?: string | null;', '}'].join('\n')
+    );
+    expect(client.code).toContain("export interface Dog {\n  kind?: 'dog';\n  tags?: string[];\n}");
+    expect(client.code).toContain('/** A pet */\nexport type Pet = Cat | Dog;');
+    expect(client.code).toContain('export type NewPet = Cat & {\n  note?: string | null;\n};');
+    expect(client.code).toContain('  [key: string]: string | undefined;');
+    expect(client.code.indexOf('interface Cat')).toBeLessThan(client.code.indexOf('interface Dog'));
+  });
+
+  it('should emit one method per operation named from operationId', () => {
+    expect(client.clientName).toBe('PetStoreApiClient');
+    expect(client.code).toContain('export class PetStoreApiClient {');
+    expect(client.code).toContain('async listPets(params: ListPetsParams = {}, options?: RequestOptions): Promise<ListPetsResponse> {');
+    expect(client.code).toContain('async postPets(params: PostPetsParams, options?: RequestOptions): Promise<PostPetsResponse> {');
+    expect(client.code).toContain('async getPetsByPetId(params: GetPetsByPetIdParams, options?: RequestOptions)');
+  });
+
+  it('should type path, query, header and body parameters', () => {
+    expect(client.code).toContain("export interface ListPetsParams {\n  limit?: number;\n  'X-Request-Id'?: string;\n}");
+    expect(client.code).toContain('export interface PostPetsParams {\n  body: NewPet;\n}');
+    expect(client.code).toContain('path: `/pets/${encodeURIComponent(String(params.petId))}`,');
+    expect(client.code).toContain("headers: { 'X-Request-Id': params['X-Request-Id'] },");
+    expect(client.warnings).toEqual([
+      'Skipped cookie parameter session of listPets: browsers do not let clients set cookies',
+    ]);
+  });
+
+  it('should emit discriminated union responses per status code', () => {
+    expect(client.code).toContain(
+      [
+        'export type ListPetsResponse =',
+        '  | { status: 200; data: Pet[]; headers: ResponseHeaders }',
+        '  | { status: 404; data: Problem; headers: ResponseHeaders };',
+      ].join('\n')
+    );
+    expect(client.code).toContain('  | { status: 204; data: undefined; headers: ResponseHeaders };');
+    expect(client.code).toContain('  | { status: number; data: Pet; headers: ResponseHeaders };');
+  });
+
+  it('should derive credentials and security from securitySchemes', () => {
+    expect(client.code).toContain('  bearerAuth?: Credential;');
+    expect(client.code).toContain('  basicAuth?: { username: string; password: string };');
+    expect(client.code).toContain("security: [['apiKey'], ['basicAuth']],");
+    expect(client.code).toContain("security: [['bearerAuth']],");
+    expect(client.code).toContain("target.headers['X-API-Key'] = await resolveCredential(credentials.apiKey!);");
+  });
+
+  it('should generate axios clients', () => {
+    const axios = generateClient(spec, { target: 'typescript-axios', clientName: 'PetClient' });
+
+    expect(axios.code).toContain("import axios from 'axios';");
+    expect(axios.code).toContain('export class PetClient {');
+    expect(axios.code).toContain('const response = await this.http.request({');
+    expect(axios.code).not.toContain('fetchImpl');
+  });
+
+  it('should produce identical output for identical input', () => {
+    expect(generateClient(spec, { target: 'typescript-fetch' }).code).toBe(client.code);
+  });
+});
+
+describe('resolveCodegenTarget', () => {
+  it('should accept full and short target names', () => {
+    expect(resolveCodegenTarget('typescript-fetch')).toBe('typescript-fetch');
+    expect(resolveCodegenTarget('axios')).toBe('typescript-axios');
+    expect(resolveCodegenTarget('python')).toBeNull();
+  });
+});
@@ -0,0 +1,321 @@
+import { describe, it, expect } from 'vitest';
+import {
+  diffSpecs,
+  toFormatterOptions,
+  formatDiffText,
+  SpecChange,
+} from '../../src/cli/diff';
+import { getFormatter } from '../../src/cli/formatters';
+
+function createSpec(paths: Record<string, any>, schemas: Record<string, any> = {}) {
+  return {
+    openapi: '3.1.0',
+    info: { title: 'Test API', version: '1.0.0' },
+    paths,
+    components: { schemas },
+  };
+}
+
+function json(schema: any) {
+  return { content: { 'application/json': { schema } } };
+}
+
+function find(changes: SpecChange[], id: string): SpecChange | undefined {
+  return changes.find((change) => change.id === id);
+}
+
+describe('diffSpecs', () => {
+  describe('operations', () => {
+    it('should report no changes for identical specs', () => {
+      const spec = createSpec({ '/users': { get: { responses: { '200': { description: 'OK' } } } } });
+      const result = diffSpecs(spec, spec);
+
+      expect(result.changes).toEqual([]);
+      expect(result.summary).toEqual({ breaking: 0, nonBreaking: 0, info: 0 });
+    });
+
+    it('should classify removed operations as breaking and added as non-breaking', () => {
+      const oldSpec = createSpec({ '/users': { get: { responses: {} }, delete: { responses: {} } } });
+      const newSpec = createSpec({ '/users': { get: { responses: {} }, post: { responses: {} } } });
+      const { changes } = diffSpecs(oldSpec, newSpec);
+
+      expect(find(changes, 'operation-removed')).toMatchObject({ severity: 'breaking', path: 'DELETE /users' });
+      expect(find(changes, 'operation-added')).toMatchObject({ severity: 'non-breaking', path: 'POST /users' });
+    });
+
+    it('should match paths regardless of parameter names or syntax', () => {
+      const oldSpec = createSpec({ '/users/{id}': { get: { responses: {} } } });
+      const newSpec = createSpec({ '/users/:userId': { get: { responses: {} } } });
+
+      expect(diffSpecs(oldSpec, newSpec).changes).toEqual([]);
+    });
+
+    it('should report deprecation and docs changes as informational', () => {
+      const oldSpec = createSpec({ '/users': { get: { summary: 'List', responses: {} } } });
+      const newSpec = createSpec({ '/users': { get: { summary: 'List users', deprecated: true, responses: {} } } });
+      const { changes, summary } = diffSpecs(oldSpec, newSpec);
+
+      expect(find(changes, 'operation-deprecated')?.severity).toBe('info');
+      expect(find(changes, 'operation-docs-changed')?.severity).toBe('info');
+      expect(summary.breaking).toBe(0);
+    });
+  });
+
+  describe('parameters', () => {
+    const base = [{ name: 'page', in: 'query', schema: { type: 'integer' } }];
+
+    it('should treat a new required query param as breaking', () => {
+      const oldSpec = createSpec({ '/users': { get: { parameters: base, responses: {} } } });
+      const newSpec = createSpec({
+        '/users': {
+          get: {
+            parameters: [...base, { name: 'tenant', in: 'query', required: true, schema: { type: 'string' } }],
+            responses: {},
+          },
+        },
+      });
+
+      expect(find(diffSpecs(oldSpec, newSpec).changes, 'required-parameter-added')).toMatchObject({
+        severity: 'breaking',
+        path: 'GET /users > query.tenant',
+      });
+    });
+
+    it('should treat a new optional param as non-breaking', () => {
+      const oldSpec = createSpec({ '/users': { get: { parameters: base, responses: {} } } });
+      const newSpec = createSpec({
+        '/users': { get: { parameters: [...base, { name: 'sort', in: 'query', schema: { type: 'string' } }], responses: {} } },
+      });
+
+      expect(find(diffSpecs(oldSpec, newSpec).changes, 'optional-parameter-added')?.severity).toBe('non-breaking');
+    });
+
+    it('should detect removed params, requiredness and type changes', () => {
+      const oldSpec = createSpec({
+        '/users': {
+          get: {
+            parameters: [...base, { name: 'q', in: 'query', schema: { type: 'string' } }],
+            responses: {},
+          },
+        },
+      });
+      const newSpec = createSpec({
+        '/users': {
+          get: { parameters: [{ name: 'page', in: 'query', required: true, schema: { type: 'string' } }], responses: {} },
+        },
+      });
+      const { changes } = diffSpecs(oldSpec, newSpec);
+
+      expect(find(changes, 'parameter-removed')?.severity).toBe('breaking');
+      expect(find(changes, 'parameter-became-required')?.severity).toBe('breaking');
+      expect(find(changes, 'type-changed')).toMatchObject({ severity: 'breaking', message: 'Type changed from integer to string' });
+    });
+
+    it('should include path-level parameters', () => {
+      const oldSpec = createSpec({ '/users': { get: { responses: {} } } });
+      const newSpec = createSpec({
+        '/users': {
+          parameters: [{ name: 'X-Tenant', in: 'header', required: true, schema: { type: 'string' } }],
+          get: { responses: {} },
+        },
+      });
+
+      expect(find(diffSpecs(oldSpec, newSpec).changes, 'required-parameter-added')?.path).toBe('GET /users > header.x-tenant');
+    });
+  });
+
+  describe('request bodies', () => {
+    it('should treat a new required request property as breaking', () => {
+      const oldSpec = createSpec({
+        '/users': { post: { requestBody: json({ type: 'object', properties: { name: { type: 'string' } } }), responses: {} } },
+      });
+      const newSpec = createSpec({
+        '/users': {
+          post: {
+            requestBody: json({
+              type: 'object',
+              properties: { name: { type: 'string' }, email: { type: 'string' } },
+              required: ['email'],
+            }),
+            responses: {},
+          },
+        },
+      });
+
+      expect(find(diffSpecs(oldSpec, newSpec).changes, 'required-property-added')).toMatchObject({
+        severity: 'breaking',
+        path: 'POST /users > requestBody > application/json.email',
+      });
+    });
+
+    it('should detect added and removed request bodies and media types', () => {
+      const oldSpec = createSpec({
+        '/a': { post: { requestBody: json({ type: 'object' }), responses: {} } },
+        '/b': { post: { responses: {} } },
+      });
+      const newSpec = createSpec({
+        '/a': { post: { requestBody: { content: { 'text/plain': { schema: { type: 'string' } } } }, responses: {} } },
+        '/b': { post: { requestBody: { required: true, ...json({ type: 'object' }) }, responses: {} } },
+      });
+      const { changes } = diffSpecs(oldSpec, newSpec);
+
+      expect(find(changes, 'media-type-removed')?.severity).toBe('breaking');
+      expect(find(changes, 'media-type-added')?.severity).toBe('non-breaking');
+      expect(find(changes, 'required-request-body-added')?.severity).toBe('breaking');
+    });
+
+    it('should treat removed request enum values as breaking', () => {
+      const oldSpec = createSpec({
+        '/users': { post: { requestBody: json({ type: 'string', enum: ['a', 'b'] }), responses: {} } },
+      });
+      const newSpec = createSpec({
+        '/users': { post: { requestBody: json({ type: 'string', enum: ['a', 'c'] }), responses: {} } },
+      });
+      const { changes } = diffSpecs(oldSpec, newSpec);
+
+      expect(find(changes, 'enum-value-removed')?.severity).toBe('breaking');
+      expect(find(changes, 'enum-value-added')?.severity).toBe('non-breaking');
+    });
+  });
+
+  describe('responses', () => {
+    const user = { type: 'object', properties: { id: { type: 'integer' }, name: { type: 'string' } }, required: ['id'] };
+
+    it('should classify response field changes', () => {
+      const oldSpec = createSpec({ '/users': { get: { responses: { '200': { description: 'OK', ...json(user) } } } } });
+      const newSpec = createSpec({
+        '/users': {
+          get: {
+            responses: {
+              '200': {
+                description: 'OK',
+                ...json({ type: 'object', properties: { id: { type: 'integer' }, email: { type: 'string' } } }),
+              },
+            },
+          },
+        },
+      });
+      const { changes } = diffSpecs(oldSpec, newSpec);
+
+      expect(find(changes, 'property-removed')).toMatchObject({ severity: 'breaking', path: 'GET /users > responses.200 > application/json.name' });
+      expect(find(changes, 'property-added')?.severity).toBe('non-breaking');
+      expect(find(changes, 'property-became-optional')?.severity).toBe('breaking');
+    });
+
+    it('should follow $refs into components', () => {
+      const ref = { $ref: '#/components/schemas/User' };
+      const oldSpec = createSpec({ '/users': { get: { responses: { '200': { description: 'OK', ...json(ref) } } } } }, { User: user });
+      const newSpec = createSpec(
+        { '/users': { get: { responses: { '200': { description: 'OK', ...json(ref) } } } } },
+        { User: { ...user, properties: { ...user.properties, id: { type: 'string' } } } }
+      );
+
+      expect(find(diffSpecs(oldSpec, newSpec).changes, 'type-changed')?.path).toBe('GET /users > responses.200 > application/json.id');
+    });
+
+    it('should detect removed and added response codes', () => {
+      const oldSpec = createSpec({ '/users': { get: { responses: { '200': { description: 'OK' }, '404': { description: 'Missing' } } } } });
+      const newSpec = createSpec({ '/users': { get: { responses: { '200': { description: 'OK' }, '429': { description: 'Slow down' } } } } });
+      const { changes } = diffSpecs(oldSpec, newSpec);
+
+      expect(find(changes, 'response-removed')?.severity).toBe('breaking');
+      expect(find(changes, 'response-added')?.severity).toBe('non-breaking');
+    });
+
+    it('should not loop on recursive schemas', () => {
+      const node = { type: 'object', properties: { children: { type: 'array', items: { $ref: '#/components/schemas/Node' } } } };
+      const spec = createSpec(
+        { '/tree': { get: { responses: { '200': { description: 'OK', ...json({ $ref: '#/components/schemas/Node' }) } } } } },
+        { Node: node }
+      );
+
+      expect(diffSpecs(spec, spec).changes).toEqual([]);
+    });
+
+    it('should report a change in a recursive schema once', () => {
+      const node = (labelType: string) => ({
+        type: 'object',
+        properties: {
+          label: { type: labelType },
+          parent: { $ref: '#/components/schemas/Node' },
+          children: { type: 'array', items: { $ref: '#/components/schemas/Node' } },
+        },
+      });
+      const paths = { '/tree': { get: { responses: { '200': { description: 'OK', ...json({ $ref: '#/components/schemas/Node' }) } } } } };
+
+      const { changes } = diffSpecs(createSpec(paths, { Node: node('string') }), createSpec(paths, { Node: node('integer') }));
+
+      expect(changes).toEqual([
+        {
+          id: 'type-changed',
+          severity: 'breaking',
+          path: 'GET /tree > responses.200 > application/json.label',
+          message: 'Type changed from string to integer',
+        },
+      ]);
+    });
+
+    it('should report a changed $ref under every property that uses it', () => {
+      const schemas = (zipType: string) => ({
+        Address: { type: 'object', properties: { zip: { type: zipType } } },
+        Person: { type: 'object', properties: { home: { $ref: '#/components/schemas/Address' }, work: { $ref: '#/components/schemas/Address' } } },
+      });
+      const paths = { '/people': { get: { responses: { '200': { description: 'OK', ...json({ $ref: '#/components/schemas/Person' }) } } } } };
+
+      const { changes } = diffSpecs(createSpec(paths, schemas('string')), createSpec(paths, schemas('integer')));
+
+      expect(changes.map((change) => `${change.id} ${change.path}`)).toEqual([
+        'type-changed GET /people > responses.200 > application/json.home.zip',
+        'type-changed GET /people > responses.200 > application/json.work.zip',
+      ]);
+    });
+
+    it('should compare the members of composed schemas', () => {
+      const schemas = (legacy: boolean) => ({
+        Base: { type: 'object', required: ['id'], properties: { id: { type: 'integer' }, ...(legacy ? { email: { type: 'string' } } : {}) } },
+        User: { allOf: [{ $ref: '#/components/schemas/Base' }, { type: 'object', properties: { name: { type: legacy ? 'string' : 'integer' } } }] },
+        Pet: { oneOf: [{ type: 'object', properties: { meow: { type: 'boolean' } } }, { type: 'object', properties: { bark: { type: legacy ? 'boolean' : 'string' } } }] },
+      });
+      const paths = {
+        '/users': { get: { responses: { '200': { description: 'OK', ...json({ $ref: '#/components/schemas/User' }) } } } },
+        '/pets': { get: { responses: { '200': { description: 'OK', ...json({ $ref: '#/components/schemas/Pet' }) } } } },
+      };
+
+      const { changes } = diffSpecs(createSpec(paths, schemas(true)), createSpec(paths, schemas(false)));
+
+      expect(changes.map((change) => `${change.id} ${change.severity} ${change.path}`)).toEqual([
+        'property-removed breaking GET /users > responses.200 > application/json.email',
+        'type-changed breaking GET /users > responses.200 > application/json.name',
+        'type-changed breaking GET /pets > responses.200 > application/json (oneOf 1).bark',
+      ]);
+    });
+  });
+});
+
+describe('diff output', () => {
+  const oldSpec = createSpec({ '/users': { get: { responses: {} }, delete: { responses: {} } } });
+  const newSpec = createSpec({ '/users': { get: { responses: {} } } });
+
+  it('should map severities onto formatter results', () => {
+    const options = toFormatterOptions(diffSpecs(oldSpec, newSpec), 'new.json');
+
+    expect(options.stats).toEqual({ errors: 1, warnings: 0, infos: 0 });
+    expect(options.results[0]).toMatchObject({ ruleId: 'operation-removed', severity: 'error' });
+  });
+
+  it('should render through the shared CI formatters', () => {
+    const options = toFormatterOptions(diffSpecs(oldSpec, newSpec), 'new.json');
+
+    expect(getFormatter('junit')(options)).toContain('<failure');
+    expect(getFormatter('github-actions')(options)).toContain('::error file=new.json');
+    expect(JSON.parse(getFormatter('sarif')(options)).runs[0].results[0].ruleId).toBe('operation-removed');
+  });
+
+  it('should group text output by severity', () => {
+    const text = formatDiffText(diffSpecs(oldSpec, newSpec), 'old.json', 'new.json');
+
+    expect(text).toContain('Breaking changes (1):');
+    expect(text).toContain('1 breaking, 0 non-breaking, 0 informational');
+    expect(formatDiffText(diffSpecs(oldSpec, oldSpec), 'a', 'b')).toContain('No changes detected');
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { fixSpec, applyEdit, describeEdit } from '../../src/cli/fix';
+
+const strict = { groups: ['recommended', 'strict', 'security'] as Array<'recommended' | 'strict' | 'security'> };
+
+function createSpec(paths: Record<string, any>, extra: Record<string, any> = {}) {
+  return {
+    openapi: '3.1.0',
+    info: { title: 'Test API', version: '1.0.0' },
+    paths,
+    ...extra,
+  };
+}
+
+describe('applyEdit', () => {
+  it('should set nested values and delete keys', () => {
+    const target: any = { a: { b: 1 } };
+
+    applyEdit(target, { op: 'set', path: ['a', 'c', 'd'], value: 2 });
+    applyEdit(target, { op: 'delete', path: ['a', 'b'] });
+    applyEdit(target, { op: 'delete', path: ['x', 'y'] });
+
+    expect(target).toEqual({ a: { c: { d: 2 } } });
+    expect(describeEdit({ op: 'set', path: ['tags'], value: ['Users'] })).toBe('set tags = ["Users"]');
+  });
+});
+
+describe('fixSpec', () => {
+  it('should add operationIds, tags and response descriptions', () => {
+    const spec = createSpec({
+      '/users/{id}': { get: { summary: 'Get user', responses: { '200': {}, '404': {} } } },
+    });
+    const result = fixSpec(JSON.stringify(spec, null, 2), 'json', strict);
+    const operation = result.spec.paths['/users/{id}'].get;
+
+    expect(operation.operationId).toBe('getUsersById');
+    expect(operation.tags).toEqual(['Users']);
+    expect(operation.responses).toEqual({ '200': { description: 'OK' }, '404': { description: 'Not Found' } });
+    expect(result.applied.map((f) => f.ruleId).sort()).toEqual([
+      'operation-operationId',
+      'operation-tags',
+      'response-description',
+      'response-description',
+    ]);
+  });
+
+  it('should rename duplicate operationIds without creating new collisions', () => {
+    const spec = createSpec({
+      '/users': {
+        get: { operationId: 'listUsers', responses: { '200': { description: 'OK' } } },
+        post: { operationId: 'listUsers', responses: { '200': { description: 'OK' } } },
+      },
+      '/items': { post: { operationId: 'postUsers', responses: { '200': { description: 'OK' } } } },
+    });
+
+    const result = fixSpec(JSON.stringify(spec), 'json', { groups: ['strict'] });
+    const ids = [
+      result.spec.paths['/users'].get.operationId,
+      result.spec.paths['/users'].post.operationId,
+      result.spec.paths['/items'].post.operationId,
+    ];
+
+    expect(ids).toEqual(['listUsers', 'postUsers2', 'postUsers']);
+  });
+
+  it('should remove empty securitySchemes and report what is left', () => {
+    const spec = createSpec(
+      { '/health': { get: { operationId: 'getHealth', responses: { '200': { description: 'OK' } } } } },
+      { components: { schemas: {}, securitySchemes: {} } }
+    );
+    const result = fixSpec(JSON.stringify(spec), 'json', { groups: ['security'] });
+
+    expect(result.spec.components).toEqual({ schemas: {} });
+    expect(result.applied.map((f) => f.ruleId)).toEqual(['no-empty-security-schemes']);
+    expect(result.remaining.map((f) => f.ruleId)).toEqual(['security-schemes-defined', 'security-operations-covered']);
+  });
+
+  it('should preserve JSON indentation, key order and trailing newline', () => {
+    const content = '{\n    "openapi": "3.1.0",\n    "paths": {\n        "/a": {\n            "get": {\n                "responses": {}, "tags": ["A"]\n            }\n        }\n    },\n    "info": {"title": "T", "version": "1"}\n}\n';
+    const result = fixSpec(content, 'json', { groups: ['strict'] });
+
+    expect(result.content).toMatch(/^\{\n {4}"openapi"/);
+    expect(Object.keys(JSON.parse(result.content))).toEqual(['openapi', 'paths', 'info']);
+    expect(Object.keys(result.spec.paths['/a'].get)).toEqual(['responses', 'tags', 'operationId']);
+    expect(result.content.endsWith('}\n')).toBe(true);
+  });
+
+  it('should preserve YAML comments and key order', () => {
+    const content = [
+      '# Public API',
+      'openapi: 3.1.0',
+      'info:',
+      '  title: Test API # shown in the docs',
+      '  version: 1.0.0',
+      'paths:',
+      '  /users:',
+      '    get:',
+      '      summary: List users',
+      '      responses:',
+      "        '200': {}",
+      '',
+    ].join('\n');
+    const result = fixSpec(content, 'yaml', { groups: ['strict'] });
+
+    expect(result.content).toContain('# Public API');
+    expect(result.content).toContain('title: Test API # shown in the docs');
+    expect(result.content.indexOf('openapi')).toBeLessThan(result.content.indexOf('paths'));
+    expect(result.content).toContain('operationId: getUsers');
+    expect(result.content).toMatch(/tags:\n\s+- Users/);
+    expect(result.spec.paths['/users'].get.responses['200'].description).toBe('OK');
+  });
+
+  it('should leave content untouched when nothing is fixable', () => {
+    const content = JSON.stringify(createSpec({}));
+    const result = fixSpec(content, 'json', strict);
+
+    expect(result.content).toBe(content);
+    expect(result.applied).toEqual([]);
+  });
+});
@@ -0,0 +1,221 @@
+import { describe, it, expect, afterAll } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  lintSpec,
+  loadCustomRules,
+  validateLintConfig,
+  builtinRules,
+  LintFinding,
+} from '../../src/cli/lint';
+import { getFormatter } from '../../src/cli/formatters';
+import { SpecGenerator } from '../../src/core/SpecGenerator';
+
+function createSpec(paths: Record<string, any>, extra: Record<string, any> = {}) {
+  return {
+    openapi: '3.1.0',
+    info: { title: 'Test API', version: '1.0.0' },
+    paths,
+    ...extra,
+  };
+}
+
+function ids(findings: LintFinding[]): string[] {
+  return findings.map((finding) => finding.ruleId);
+}
+
+const documented = {
+  operationId: 'listUsers',
+  summary: 'List users',
+  tags: ['Users'],
+  parameters: [{ name: 'limit', in: 'query', schema: { type: 'integer' } }],
+  responses: {
+    '200': { description: 'OK', content: { 'application/json': { schema: { type: 'array', items: {} } } } },
+    '400': { description: 'Bad request' },
+  },
+};
+
+describe('lintSpec', () => {
+  it('should only run recommended rules by default', () => {
+    const findings = lintSpec({ info: { title: 'Test API' }, paths: { '/Bad_Path': { get: {} } } });
+
+    expect(findings.every((finding) => finding.ruleId === 'openapi-structure')).toBe(true);
+    expect(findings.map((finding) => finding.path)).toEqual(['/openapi', '/info/version']);
+  });
+
+  it('should report nothing for a well documented spec in strict mode', () => {
+    const spec = createSpec({ '/users': { get: documented } });
+
+    expect(lintSpec(spec, { groups: ['recommended', 'strict'] })).toEqual([]);
+  });
+
+  it('should keep the existing strict checks under their own rule ids', () => {
+    const spec = createSpec({
+      '/a': { get: { operationId: 'dup', responses: {} } },
+      '/b': { get: { operationId: 'dup', responses: { '200': { $ref: '#/components/responses/Missing' } } } },
+    });
+    const found = ids(lintSpec(spec, { groups: ['recommended', 'strict'] }));
+
+    expect(found).toEqual(
+      expect.arrayContaining([
+        'no-unresolved-refs',
+        'operation-operationId-unique',
+        'operation-responses',
+        'operation-description',
+        'operation-tags',
+      ])
+    );
+  });
+
+  it('should flag naming conventions', () => {
+    const spec = createSpec(
+      { '/userProfiles/{user_id}': { get: { ...documented, operationId: 'GetUserProfiles' } } },
+      { components: { schemas: { User: { type: 'object', properties: { first_name: { type: 'string' } } } } } }
+    );
+    const findings = lintSpec(spec, { groups: ['strict'] });
+
+    expect(findings.find((f) => f.ruleId === 'path-kebab-case')?.message).toBe('Path segment "userProfiles" is not kebab-case');
+    expect(findings.find((f) => f.ruleId === 'operation-id-casing')?.message).toBe('operationId "GetUserProfiles" is not camelCase or snake_case');
+    expect(findings.find((f) => f.ruleId === 'schema-property-naming')?.path).toBe('/components/schemas/User/properties/first_name');
+  });
+
+  it('should accept the operationIds of a generated spec', () => {
+    const spec = new SpecGenerator({ info: { title: 'Test API', version: '1.0.0' } }).generate([
+      { method: 'GET', path: '/users', handler: () => undefined },
+      { method: 'GET', path: '/users/:id', handler: () => undefined },
+      { method: 'POST', path: '/users/:id/orders', handler: () => undefined },
+      { method: 'GET', path: '/', handler: () => undefined },
+    ]);
+    const findings = lintSpec(spec, { groups: ['recommended', 'strict'] });
+
+    expect(Object.values(spec.paths).flatMap((item: any) => Object.values(item).map((op: any) => op.operationId))).toContain('get_users_id');
+    expect(findings.filter((f) => f.ruleId === 'operation-id-casing')).toEqual([]);
+  });
+
+  it('should flag list endpoints without pagination and operations without error responses', () => {
+    const spec = createSpec({
+      '/users': { get: { ...documented, parameters: [], responses: { '200': documented.responses['200'] } } },
+    });
+    const findings = lintSpec(spec, { groups: ['strict'] });
+
+    expect(findings.find((f) => f.ruleId === 'pagination-params')?.severity).toBe('info');
+    expect(findings.find((f) => f.ruleId === 'error-responses')?.severity).toBe('warning');
+  });
+
+  it('should flag placeholder and repeated descriptions', () => {
+    const spec = createSpec({
+      '/a': { get: { ...documented, description: 'TODO' } },
+      '/b': { get: { ...documented, operationId: 'b', description: 'List users' } },
+    });
+    const messages = lintSpec(spec, { groups: ['strict'] })
+      .filter((f) => f.ruleId === 'description-quality')
+      .map((f) => f.message);
+
+    expect(messages).toEqual(['Description is a placeholder: "TODO"', 'Description repeats the summary']);
+  });
+
+  it('should run security rules when the security group is active', () => {
+    const spec = createSpec({ '/users': { post: documented } });
+    const found = ids(lintSpec(spec, { groups: ['security'] }));
+
+    expect(found).toEqual([
+      'security-schemes-defined',
+      'security-sensitive-endpoints',
+      'security-operations-covered',
+    ]);
+  });
+
+  it('should apply configured severities, options and disabled rules', () => {
+    const spec = createSpec({ '/Users': { get: { ...documented, operationId: 'list_users' } } });
+    const findings = lintSpec(spec, {
+      config: {
+        rules: {
+          'path-kebab-case': 'error',
+          'operation-id-casing': ['warning', { style: 'snake_case' }],
+          'operation-tags': 'off',
+        },
+      },
+    });
+
+    expect(findings).toEqual([
+      expect.objectContaining({ ruleId: 'path-kebab-case', severity: 'error', hint: expect.any(String) }),
+    ]);
+    expect(lintSpec(spec, { groups: ['recommended', 'strict'], config: { rules: { 'path-kebab-case': 'off' } } }).map((f) => f.ruleId))
+      .not.toContain('path-kebab-case');
+  });
+});
+
+describe('validateLintConfig', () => {
+  it('should reject unknown rules and invalid severities', () => {
+    const errors = validateLintConfig({
+      rules: { 'no-such-rule': 'error', 'operation-tags': 'fatal' as any, 'path-kebab-case': ['off'] },
+    });
+
+    expect(errors).toEqual([
+      'Unknown lint rule: no-such-rule',
+      'Invalid severity for lint rule operation-tags: fatal. Must be one of: error, warning, info, off',
+    ]);
+  });
+
+  it('should give every built-in rule a unique id, description and hint', () => {
+    expect(new Set(builtinRules.map((rule) => rule.id)).size).toBe(builtinRules.length);
+    expect(builtinRules.every((rule) => rule.description && rule.hint)).toBe(true);
+  });
+});
+
+describe('loadCustomRules', () => {
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lint-rules-'));
+
+  afterAll(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should load rules from a local module and run them by default', () => {
+    fs.writeFileSync(
+      path.join(tempDir, 'rules.js'),
+      `module.exports = { rules: [{
+        id: 'no-v1-paths',
+        description: 'Paths must not contain /v1',
+        severity: 'error',
+        check(spec, { report }) {
+          for (const key of Object.keys(spec.paths)) {
+            if (key.startsWith('/v1')) report({ path: '/paths/' + key, message: 'Legacy path ' + key });
+          }
+        },
+      }] };`
+    );
+    const rules = [...builtinRules, ...loadCustomRules(['./rules.js'], tempDir)];
+    const findings = lintSpec(createSpec({ '/v1/users': { get: documented } }), { rules });
+
+    expect(findings).toEqual([
+      { ruleId: 'no-v1-paths', severity: 'error', path: '/paths//v1/users', message: 'Legacy path /v1/users', hint: undefined },
+    ]);
+    expect(validateLintConfig({ rules: { 'no-v1-paths': 'warning' } }, rules)).toEqual([]);
+  });
+
+  it('should reject modules without valid rules', () => {
+    fs.writeFileSync(path.join(tempDir, 'bad.js'), 'module.exports = [{ id: 42 }];');
+
+    expect(() => loadCustomRules(['./bad.js'], tempDir)).toThrow('Invalid lint rule in ./bad.js');
+    expect(() => loadCustomRules(['./missing.js'], tempDir)).toThrow('Failed to load lint rules from ./missing.js');
+  });
+});
+
+describe('lint output', () => {
+  it('should carry rule ids and descriptions into SARIF and Checkstyle', () => {
+    const findings = lintSpec(createSpec({ '/users': { post: documented } }), { groups: ['security'] });
+    const options = {
+      specPath: 'openapi.json',
+      results: findings.map((f) => ({ ruleId: f.ruleId, severity: f.severity, message: f.message, path: f.path })),
+      rules: builtinRules,
+    };
+    const sarif = JSON.parse(getFormatter('sarif')(options));
+
+    expect(sarif.runs[0].tool.driver.rules[0]).toMatchObject({
+      id: 'security-schemes-defined',
+      shortDescription: { text: 'Spec defines at least one security scheme' },
+    });
+    expect(getFormatter('checkstyle')(options)).toContain('source="security-sensitive-endpoints"');
+  });
+});
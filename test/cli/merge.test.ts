@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import { mergeSpecs, parseServiceArgument, formatMergeConflicts } from '../../src/cli/merge';
+
+function createSpec(title: string, paths: Record<string, any>, components: Record<string, any> = {}, extra: Record<string, any> = {}) {
+  return {
+    openapi: '3.0.3',
+    info: { title, version: '1.0.0' },
+    paths,
+    components,
+    ...extra,
+  };
+}
+
+function ref(name: string) {
+  return { content: { 'application/json': { schema: { $ref: `#/components/schemas/${name}` } } } };
+}
+
+const ok = { '200': { description: 'OK' } };
+
+describe('mergeSpecs', () => {
+  it('should prefix paths per service and merge tags', () => {
+    const users = createSpec('Users', { '/users': { get: { operationId: 'listUsers', tags: ['users'], responses: ok } } }, {}, {
+      tags: [{ name: 'users' }, { name: 'shared' }],
+    });
+    const billing = createSpec('Billing', { '/': { get: { operationId: 'billingHome', responses: ok } }, '/invoices/{id}': { get: { responses: ok } } }, {}, {
+      tags: [{ name: 'shared', description: 'Shared endpoints' }],
+    });
+
+    const result = mergeSpecs([
+      { name: 'users', spec: users, prefix: '/users-service' },
+      { name: 'billing', spec: billing, prefix: '/billing/' },
+    ]);
+
+    expect(Object.keys(result.spec.paths)).toEqual(['/users-service/users', '/billing', '/billing/invoices/{id}']);
+    expect(result.spec.tags).toEqual([{ name: 'users' }, { name: 'shared', description: 'Shared endpoints' }]);
+    expect(result.summary).toEqual({ services: 2, paths: 3, operations: 3, components: 0 });
+    expect(result.conflicts).toEqual([]);
+  });
+
+  it('should deduplicate identical components and namespace different ones', () => {
+    const error = { type: 'object', properties: { message: { type: 'string' } } };
+    const users = createSpec('Users', { '/users': { get: { responses: { '200': ref('User') } } } }, {
+      schemas: { User: { type: 'object', properties: { id: { type: 'integer' } } }, Error: error },
+    });
+    const billing = createSpec('Billing', { '/invoices': { get: { responses: { '200': ref('Invoice') } } } }, {
+      schemas: {
+        User: { type: 'object', properties: { accountId: { type: 'string' } } },
+        Invoice: { type: 'object', properties: { owner: { $ref: '#/components/schemas/User' } } },
+        Error: error,
+      },
+    });
+
+    const result = mergeSpecs([
+      { name: 'users', spec: users },
+      { name: 'billing-service', spec: billing },
+    ]);
+    const schemas = result.spec.components.schemas;
+
+    expect(Object.keys(schemas)).toEqual(['User', 'Error', 'BillingServiceUser', 'Invoice']);
+    expect(schemas.Invoice.properties.owner.$ref).toBe('#/components/schemas/BillingServiceUser');
+    expect(result.conflicts).toEqual([
+      { type: 'component', name: 'schemas/User', services: ['users', 'billing-service'], resolution: 'renamed to BillingServiceUser in billing-service' },
+    ]);
+  });
+
+  it('should merge security schemes and move service security onto operations', () => {
+    const bearer = { type: 'http', scheme: 'bearer' };
+    const users = createSpec('Users', { '/users': { get: { responses: ok } } }, { securitySchemes: { auth: bearer } }, {
+      security: [{ auth: [] }],
+    });
+    const billing = createSpec('Billing', { '/invoices': { get: { responses: ok }, post: { security: [], responses: ok } } }, {
+      securitySchemes: { auth: { type: 'apiKey', in: 'header', name: 'X-Api-Key' } },
+    }, { security: [{ auth: [] }] });
+
+    const result = mergeSpecs([
+      { name: 'users', spec: users },
+      { name: 'billing', spec: billing },
+    ]);
+
+    expect(Object.keys(result.spec.components.securitySchemes)).toEqual(['auth', 'Billingauth']);
+    expect(result.spec.security).toBeUndefined();
+    expect(result.spec.paths['/users'].get.security).toEqual([{ auth: [] }]);
+    expect(result.spec.paths['/invoices'].get.security).toEqual([{ Billingauth: [] }]);
+    expect(result.spec.paths['/invoices'].post.security).toEqual([]);
+    expect(result.conflicts[0]).toMatchObject({ type: 'securityScheme', name: 'securitySchemes/auth' });
+  });
+
+  it('should report colliding paths and operationIds', () => {
+    const a = createSpec('A', { '/health': { get: { operationId: 'health', responses: ok } }, '/a': { get: { operationId: 'list', responses: ok } } });
+    const b = createSpec('B', { '/health': { get: { operationId: 'bHealth', responses: ok } }, '/b': { get: { operationId: 'list', responses: ok } } });
+
+    const result = mergeSpecs([
+      { name: 'a', spec: a },
+      { name: 'b', spec: b },
+    ]);
+
+    expect(result.spec.paths['/health'].get.operationId).toBe('health');
+    expect(result.spec.paths['/b'].get.operationId).toBe('bList');
+    expect(formatMergeConflicts(result.conflicts)).toEqual([
+      'path GET /health (a, b): kept the operation from a',
+      'operationId list (a, b): renamed to bList in b',
+    ]);
+  });
+
+  it('should write servers per service and upgrade to the newest OpenAPI version', () => {
+    const a = createSpec('A', { '/a': { get: { responses: ok } } }, { schemas: { Name: { type: 'string', nullable: true } } });
+    const b = { ...createSpec('B', { '/b': { get: { responses: ok } } }), openapi: '3.1.0' };
+
+    const result = mergeSpecs(
+      [
+        { name: 'a', spec: a, servers: [{ url: 'https://a.internal' }] },
+        { name: 'b', spec: b },
+      ],
+      { info: { title: 'Portal' }, servers: [{ url: 'https://gateway.example.com' }] }
+    );
+
+    expect(result.spec.openapi).toBe('3.1.0');
+    expect(result.spec.info).toEqual({ title: 'Portal', version: '1.0.0' });
+    expect(result.spec.servers).toEqual([{ url: 'https://gateway.example.com' }]);
+    expect(result.spec.paths['/a'].servers).toEqual([{ url: 'https://a.internal' }]);
+    expect(result.spec.paths['/b'].servers).toBeUndefined();
+    expect(result.spec.components.schemas.Name.type).toEqual(['string', 'null']);
+  });
+
+  it('should throw without specs', () => {
+    expect(() => mergeSpecs([])).toThrow('No specs to merge');
+  });
+});
+
+describe('parseServiceArgument', () => {
+  it('should split an optional prefix', () => {
+    expect(parseServiceArgument('billing.json')).toEqual({ spec: 'billing.json' });
+    expect(parseServiceArgument('specs/billing.yaml=/billing')).toEqual({ spec: 'specs/billing.yaml', prefix: '/billing' });
+  });
+});
@@ -0,0 +1,502 @@
+/**
+ * Tests for the migrate command
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  migrateSwaggerJsdoc,
+  migrateTsoa,
+  migrateExpressOasGenerator,
+  migrateSource,
+  migrateConfig,
+  getDefaultSourcePatterns,
+  createUnifiedDiff,
+  formatMigrationReport,
+  formatLiteral,
+  tsTypeToSchema,
+} from '../../src/cli/migrate';
+import { CommentExtractor } from '../../src/parsers/CommentExtractor';
+import { JsDocTransformer } from '../../src/parsers/JsDocTransformer';
+
+const swaggerJsdocSource = `const router = require('express').Router();
+
+/**
+ * @swagger
+ * /users/{id}:
+ *   parameters:
+ *     - in: path
+ *       name: id
+ *       required: true
+ *       schema:
+ *         type: string
+ *       description: The user id
+ *   get:
+ *     summary: Get a user
+ *     tags: [Users]
+ *     parameters:
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *     responses:
+ *       200:
+ *         description: The user
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/User'
+ *       404:
+ *         description: Not found
+ *     security:
+ *       - bearerAuth: []
+ *   put:
+ *     summary: Update a user
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/UpdateUser'
+ *     responses:
+ *       200:
+ *         description: Updated
+ */
+router.get('/users/:id', getUser);
+`;
+
+const tsoaSource = `import { Body, Controller, Get, Path, Post, Query, Route, SuccessResponse, Response, Tags } from 'tsoa';
+import { User, UserCreationParams } from './user';
+
+@Route('users')
+@Tags('Users')
+export class UsersController extends Controller {
+  /**
+   * Retrieves the details of an existing user.
+   * @param userId The user's identifier
+   */
+  @Get('{userId}')
+  @Response<ValidateErrorJSON>(422, 'Validation Failed')
+  public async getUser(
+    @Path() userId: number,
+    @Query() name?: string
+  ): Promise<User> {
+    return new UsersService().get(userId, name);
+  }
+
+  @SuccessResponse('201', 'Created')
+  @Post()
+  public async createUser(@Body() requestBody: UserCreationParams): Promise<void> {
+    this.setStatus(201);
+  }
+}
+`;
+
+const oasGeneratorSource = `const express = require('express');
+const expressOasGenerator = require('express-oas-generator');
+
+const app = express();
+expressOasGenerator.handleResponses(app, {
+  specOutputPath: './docs/openapi.json',
+  swaggerUiServePath: 'api-docs',
+});
+
+app.get('/health', (req, res) => res.json({ ok: true }));
+
+expressOasGenerator.handleRequests();
+module.exports = app;
+`;
+
+describe('Migrate Command', () => {
+  describe('swagger-jsdoc', () => {
+    it('should replace @swagger YAML blocks with @openapi tag blocks', () => {
+      const result = migrateSwaggerJsdoc(swaggerJsdocSource, 'routes/users.js');
+
+      expect(result.changed).toBe(true);
+      expect(result.converted).toBe(2);
+      expect(result.migrated).not.toContain('@swagger');
+      expect(result.migrated).toContain('@route GET /users/:id');
+      expect(result.migrated).toContain('@route PUT /users/:id');
+    });
+
+    it('should merge path-level parameters into each operation', () => {
+      const { migrated } = migrateSwaggerJsdoc(swaggerJsdocSource, 'routes/users.js');
+
+      expect(migrated.match(/@param \{string\} id\.path\.required - The user id/g)).toHaveLength(2);
+      expect(migrated).toContain('@param {integer} [limit=10].query');
+    });
+
+    it('should convert request body refs, responses and security', () => {
+      const { migrated } = migrateSwaggerJsdoc(swaggerJsdocSource, 'routes/users.js');
+
+      expect(migrated).toContain('@bodyContent {application/json} UpdateUser');
+      expect(migrated).toContain('@response 404 - Not found');
+      expect(migrated).toContain('@security bearerAuth');
+      expect(migrated).toContain('@tags Users');
+    });
+
+    it('should produce comments that JsDocTransformer understands', () => {
+      const { migrated } = migrateSwaggerJsdoc(swaggerJsdocSource, 'routes/users.js');
+      const comments = new CommentExtractor().extractFromSource(migrated);
+      const transformer = new JsDocTransformer();
+      const metadata = comments.map((c) => transformer.transform(c.comment));
+
+      expect(metadata).toHaveLength(2);
+      expect(metadata[0]?.method).toBe('GET');
+      expect(metadata[0]?.path).toBe('/users/:id');
+      expect(metadata[0]?.summary).toBe('Get a user');
+      expect(metadata[0]?.parameters?.find((p) => p.name === 'id')?.required).toBe(true);
+      expect(metadata[1]?.requestBody?.content['application/json'].schema.$ref).toBe('#/components/schemas/UpdateUser');
+    });
+
+    it('should report dropped response content', () => {
+      const { issues } = migrateSwaggerJsdoc(swaggerJsdocSource, 'routes/users.js');
+
+      expect(issues.some((i) => i.construct === 'response-content' && i.message.includes('GET /users/{id}'))).toBe(true);
+    });
+
+    it('should report inline request body schemas', () => {
+      const source = `/**
+ * @swagger
+ * /items:
+ *   post:
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *     responses:
+ *       201:
+ *         description: Created
+ */`;
+      const { migrated, issues } = migrateSwaggerJsdoc(source, 'items.js');
+
+      expect(migrated).toContain('@bodyContent {application/json}');
+      expect(issues.map((i) => i.construct)).toContain('requestBody-schema');
+    });
+
+    it('should leave component-only blocks unchanged and report them', () => {
+      const source = `/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     User:
+ *       type: object
+ */`;
+      const result = migrateSwaggerJsdoc(source, 'schemas.js');
+
+      expect(result.changed).toBe(false);
+      expect(result.issues[0].construct).toBe('components');
+    });
+
+    it('should skip blocks already in @route format', () => {
+      const source = `/**
+ * @openapi
+ * @route GET /users
+ * @response 200 - OK
+ */`;
+      expect(migrateSwaggerJsdoc(source, 'a.js').changed).toBe(false);
+    });
+
+    it('should report unparseable YAML with its line number', () => {
+      const source = `\n\n/**\n * @swagger\n * /users:\n *   get: [\n */`;
+      const result = migrateSwaggerJsdoc(source, 'bad.js');
+
+      expect(result.changed).toBe(false);
+      expect(result.issues[0]).toMatchObject({ construct: 'yaml', line: 3 });
+    });
+
+    it('should preserve indentation of nested comment blocks', () => {
+      const source = `function register(router) {
+  /**
+   * @swagger
+   * /ping:
+   *   get:
+   *     responses:
+   *       200:
+   *         description: pong
+   */
+  router.get('/ping', ping);
+}`;
+      const { migrated } = migrateSwaggerJsdoc(source, 'ping.js');
+
+      expect(migrated).toContain('  /**\n   * @openapi\n   * @route GET /ping\n   * @response 200 - pong\n   */');
+    });
+  });
+
+  describe('tsoa', () => {
+    it('should convert verb decorators into Route, Parameter and Response decorators', () => {
+      const result = migrateTsoa(tsoaSource, 'src/UsersController.ts');
+
+      expect(result.converted).toBe(2);
+      expect(result.migrated).toContain("// GET /users/:userId");
+      expect(result.migrated).toContain(
+        "@Route({ summary: 'Retrieves the details of an existing user.', tags: ['Users'] })"
+      );
+      expect(result.migrated).toContain(
+        "@Parameter({ name: 'userId', in: 'path', description: 'The user\\'s identifier', required: true, schema: { type: 'number' } })"
+      );
+      expect(result.migrated).toContain("@Parameter({ name: 'name', in: 'query', schema: { type: 'string' } })");
+    });
+
+    it('should derive success and error responses', () => {
+      const { migrated } = migrateTsoa(tsoaSource, 'src/UsersController.ts');
+
+      expect(migrated).toContain(
+        "@Response({ statusCode: 200, description: 'Success', schema: { $ref: '#/components/schemas/User' } })"
+      );
+      expect(migrated).toContain(
+        "@Response({ statusCode: 422, description: 'Validation Failed', schema: { $ref: '#/components/schemas/ValidateErrorJSON' } })"
+      );
+      expect(migrated).toContain("@Response({ statusCode: 201, description: 'Created' })");
+    });
+
+    it('should convert @Body parameters into RequestBody decorators', () => {
+      const { migrated } = migrateTsoa(tsoaSource, 'src/UsersController.ts');
+
+      expect(migrated).toContain(
+        "@RequestBody({ required: true, content: { 'application/json': { schema: { $ref: '#/components/schemas/UserCreationParams' } } } })"
+      );
+      expect(migrated).toContain('public async createUser(requestBody: UserCreationParams)');
+    });
+
+    it('should strip parameter decorators from multi-line signatures', () => {
+      const { migrated } = migrateTsoa(tsoaSource, 'src/UsersController.ts');
+
+      expect(migrated).toContain('public async getUser(\n    userId: number,\n    name?: string\n  ): Promise<User>');
+    });
+
+    it('should remove class decorators and report the base path', () => {
+      const result = migrateTsoa(tsoaSource, 'src/UsersController.ts');
+
+      expect(result.migrated).not.toContain("@Route('users')");
+      expect(result.migrated).toContain('export class UsersController extends Controller');
+      expect(result.issues.find((i) => i.construct === 'Route')?.message).toContain('/users');
+    });
+
+    it('should rewrite the tsoa import and keep non-decorator names', () => {
+      const { migrated } = migrateTsoa(tsoaSource, 'src/UsersController.ts');
+
+      expect(migrated).toContain("import { Controller } from 'tsoa';");
+      expect(migrated).toContain("import { Route, Parameter, RequestBody, Response } from 'express-swagger-auto/decorators';");
+    });
+
+    it('should report decorators without an equivalent', () => {
+      const source = `import { Get, Route, Security, Deprecated } from 'tsoa';
+@Route('admin')
+export class AdminController {
+  @Get('stats')
+  @Security('jwt', ['admin'])
+  @Deprecated()
+  public async stats(): Promise<Stats> {}
+}`;
+      const { issues } = migrateTsoa(source, 'Admin.ts');
+
+      expect(issues.map((i) => i.construct)).toEqual(expect.arrayContaining(['Security', 'Deprecated']));
+    });
+
+    it('should leave files without tsoa controllers untouched', () => {
+      const source = `export class Service {\n  @Inject()\n  run() {}\n}\n`;
+      expect(migrateTsoa(source, 'Service.ts').changed).toBe(false);
+    });
+  });
+
+  describe('tsTypeToSchema', () => {
+    it('should map primitives and Date', () => {
+      expect(tsTypeToSchema('string').schema).toEqual({ type: 'string' });
+      expect(tsTypeToSchema('Date').schema).toEqual({ type: 'string', format: 'date-time' });
+    });
+
+    it('should unwrap promises and arrays', () => {
+      expect(tsTypeToSchema('Promise<User[]>').schema).toEqual({
+        type: 'array',
+        items: { $ref: '#/components/schemas/User' },
+      });
+    });
+
+    it('should map string literal unions to enums', () => {
+      expect(tsTypeToSchema("'asc' | 'desc'").schema).toEqual({ type: 'string', enum: ['asc', 'desc'] });
+    });
+
+    it('should mark nullable types', () => {
+      expect(tsTypeToSchema('string | null').schema).toEqual({ type: 'string', nullable: true });
+    });
+
+    it('should return no schema for void', () => {
+      expect(tsTypeToSchema('Promise<void>').schema).toBeUndefined();
+    });
+
+    it('should flag inline object types as inexact', () => {
+      expect(tsTypeToSchema('{ id: string }').exact).toBe(false);
+    });
+  });
+
+  describe('express-oas-generator', () => {
+    it('should replace handleResponses with runtimeCapture middleware', () => {
+      const result = migrateExpressOasGenerator(oasGeneratorSource, 'app.js');
+
+      expect(result.migrated).toContain("const { runtimeCapture } = require('express-swagger-auto');");
+      expect(result.migrated).toContain('app.use(runtimeCapture());');
+      expect(result.migrated).not.toContain('handleResponses');
+    });
+
+    it('should remove handleRequests calls', () => {
+      const result = migrateExpressOasGenerator(oasGeneratorSource, 'app.js');
+
+      expect(result.migrated).not.toContain('handleRequests');
+      expect(result.converted).toBe(2);
+    });
+
+    it('should collect literal options for config migration', () => {
+      const result = migrateExpressOasGenerator(oasGeneratorSource, 'app.js');
+
+      expect(result.legacyOptions).toEqual({ specOutputPath: './docs/openapi.json', swaggerUiServePath: 'api-docs' });
+      expect(result.issues.map((i) => i.construct)).toEqual(['swaggerUiServePath']);
+    });
+
+    it('should support ES module imports', () => {
+      const source = `import oas from 'express-oas-generator';\noas.init(app);\n`;
+      const { migrated } = migrateExpressOasGenerator(source, 'app.mjs');
+
+      expect(migrated).toBe(`import { runtimeCapture } from 'express-swagger-auto';\napp.use(runtimeCapture());\n`);
+    });
+
+    it('should ignore files that do not use express-oas-generator', () => {
+      expect(migrateExpressOasGenerator('const x = 1;\n', 'x.js').changed).toBe(false);
+    });
+  });
+
+  describe('migrateSource', () => {
+    it('should dispatch to the matching migrator', () => {
+      expect(migrateSource('swagger-jsdoc', swaggerJsdocSource, 'a.js').converted).toBe(2);
+      expect(migrateSource('tsoa', tsoaSource, 'a.ts').converted).toBe(2);
+      expect(migrateSource('express-oas-generator', oasGeneratorSource, 'a.js').converted).toBe(2);
+    });
+  });
+
+  describe('migrateConfig', () => {
+    it('should convert swagger-jsdoc options', () => {
+      const { config } = migrateConfig('swagger-jsdoc', {
+        definition: {
+          openapi: '3.0.0',
+          info: { title: 'Users API', version: '1.2.0' },
+          servers: [{ url: 'https://api.example.com' }],
+          components: { securitySchemes: { bearerAuth: { type: 'http', scheme: 'bearer' } } },
+        },
+        apis: ['./routes/*.js'],
+      });
+
+      expect(config).toEqual({
+        strategies: ['jsdoc'],
+        info: { title: 'Users API', version: '1.2.0' },
+        servers: [{ url: 'https://api.example.com' }],
+        security: { detect: true, schemes: ['bearer'] },
+        watch: { paths: ['./routes/*.js'] },
+      });
+    });
+
+    it('should derive servers from Swagger 2.0 host settings', () => {
+      const { config } = migrateConfig('swagger-jsdoc', {
+        swaggerDefinition: { info: { title: 'Legacy' }, host: 'api.example.com', basePath: '/v1', schemes: ['https'] },
+      });
+
+      expect(config.servers).toEqual([{ url: 'https://api.example.com/v1' }]);
+    });
+
+    it('should report swagger-jsdoc definitions that are not carried over', () => {
+      const { issues } = migrateConfig('swagger-jsdoc', {
+        definition: { components: { schemas: { User: {} } } },
+      });
+
+      expect(issues[0].construct).toBe('components.schemas');
+    });
+
+    it('should convert tsoa.json', () => {
+      const { config, issues } = migrateConfig('tsoa', {
+        entryFile: 'src/app.ts',
+        controllerPathGlobs: ['src/**/*Controller.ts'],
+        spec: { outputDirectory: 'build', specVersion: 3, name: 'Users', version: '2.0.0', yaml: true },
+        routes: { routesDir: 'build' },
+      });
+
+      expect(config.input).toBe('src/app.ts');
+      expect(config.output).toBe('./build/openapi.yaml');
+      expect(config.format).toBe('yaml');
+      expect(config.strategies).toEqual(['decorator']);
+      expect(config.info).toEqual({ title: 'Users', version: '2.0.0' });
+      expect(issues.map((i) => i.construct)).toContain('routes');
+    });
+
+    it('should convert express-oas-generator options', () => {
+      const { config } = migrateConfig('express-oas-generator', { specOutputPath: './docs/spec.yaml' });
+
+      expect(config).toEqual({ strategies: ['runtime'], output: './docs/spec.yaml', format: 'yaml' });
+    });
+  });
+
+  describe('getDefaultSourcePatterns', () => {
+    it('should prefer globs from the legacy config', () => {
+      expect(getDefaultSourcePatterns('swagger-jsdoc', { apis: ['./routes/*.js'] })).toEqual(['./routes/*.js']);
+      expect(getDefaultSourcePatterns('tsoa', { controllerPathGlobs: ['src/c/*.ts'] })).toEqual(['src/c/*.ts']);
+    });
+
+    it('should fall back to src globs', () => {
+      expect(getDefaultSourcePatterns('tsoa')).toEqual(['src/**/*.ts']);
+    });
+  });
+
+  describe('createUnifiedDiff', () => {
+    it('should return an empty string for identical content', () => {
+      expect(createUnifiedDiff('a.js', 'x\n', 'x\n')).toBe('');
+    });
+
+    it('should produce hunks with headers and context', () => {
+      const before = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'].join('\n');
+      const after = ['a', 'b', 'c', 'd', 'E', 'f', 'g', 'h'].join('\n');
+      const diff = createUnifiedDiff('file.txt', before, after);
+
+      expect(diff).toBe(['--- a/file.txt', '+++ b/file.txt', '@@ -2,7 +2,7 @@', ' b', ' c', ' d', '-e', '+E', ' f', ' g', ' h'].join('\n'));
+    });
+
+    it('should split distant changes into separate hunks', () => {
+      const before = Array.from({ length: 30 }, (_, i) => `line ${i}`);
+      const after = [...before];
+      after[2] = 'changed 2';
+      after[25] = 'changed 25';
+      const diff = createUnifiedDiff('f', before.join('\n'), after.join('\n'));
+
+      expect(diff.match(/^@@/gm)).toHaveLength(2);
+    });
+  });
+
+  describe('formatLiteral', () => {
+    it('should format nested objects with single quotes', () => {
+      expect(formatLiteral({ a: 'x', 'b-c': [1, true], d: undefined })).toBe("{ a: 'x', 'b-c': [1, true] }");
+    });
+  });
+
+  describe('formatMigrationReport', () => {
+    const file = migrateSwaggerJsdoc(swaggerJsdocSource, 'routes/users.js');
+    const report = {
+      source: 'swagger-jsdoc' as const,
+      dryRun: true,
+      files: [file],
+      config: { config: { strategies: ['jsdoc' as const] }, issues: [], path: '.swagger-autorc', written: false },
+    };
+
+    it('should summarize converted files and untranslated constructs', () => {
+      const output = formatMigrationReport(report);
+
+      expect(output).toContain('Would migrate 2 construct(s) in 1 file(s) from swagger-jsdoc');
+      expect(output).toContain('could not be translated');
+      expect(output).toContain('routes/users.js:3 [response-content]');
+    });
+
+    it('should produce JSON output', () => {
+      const output = JSON.parse(formatMigrationReport(report, 'json'));
+
+      expect(output.files).toEqual([{ file: 'routes/users.js', converted: 2, issues: file.issues.length }]);
+      expect(output.untranslated.length).toBe(file.issues.length);
+    });
+  });
+});
@@ -0,0 +1,198 @@
+import { describe, it, expect, vi } from 'vitest';
+import request from 'supertest';
+import { createMockApp, buildMockResponse, parsePrefer, MockError } from '../../src/cli/mock';
+import type { OpenAPISpec } from '../../src/types';
+
+const spec: OpenAPISpec = {
+  openapi: '3.1.0',
+  info: { title: 'Users', version: '1.0.0' },
+  servers: [{ url: 'http://localhost:3000/api' }],
+  paths: {
+    '/users': {
+      get: {
+        parameters: [{ name: 'limit', in: 'query', schema: { type: 'integer', maximum: 100 } }],
+        responses: {
+          '200': {
+            description: 'Users',
+            headers: { 'X-Total-Count': { schema: { type: 'integer' }, example: 2 } as any },
+            content: {
+              'application/json': {
+                schema: { type: 'array', items: { $ref: '#/components/schemas/User' } },
+                examples: {
+                  two: { value: [{ id: 1, email: 'ada@example.com' }, { id: 2, email: 'grace@example.com' }] },
+                  empty: { $ref: '#/components/examples/Empty' },
+                },
+              },
+            },
+          },
+          '404': {
+            description: 'Not found',
+            content: { 'application/problem+json': { example: { title: 'Not Found', status: 404 } } },
+          },
+        },
+      },
+      post: {
+        requestBody: {
+          required: true,
+          content: { 'application/json': { schema: { $ref: '#/components/schemas/User' } } },
+        },
+        responses: {
+          '201': { description: 'Created', content: { 'application/json': { schema: { $ref: '#/components/schemas/User' } } } },
+          default: { description: 'Error', content: { 'application/json': { schema: { type: 'object' } } } },
+        },
+      },
+    },
+    '/users/{id}': {
+      delete: {
+        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'integer' } }],
+        responses: { '204': { description: 'Deleted' } },
+      },
+    },
+  },
+  components: {
+    schemas: {
+      User: {
+        type: 'object',
+        properties: { id: { type: 'integer' }, email: { type: 'string', format: 'email' } },
+        required: ['email'],
+      },
+    },
+    examples: { Empty: { value: [] } } as any,
+  },
+};
+
+describe('parsePrefer', () => {
+  it('should read code and example preferences', () => {
+    expect(parsePrefer('code=404, example="missing"')).toEqual({ code: '404', example: 'missing' });
+    expect(parsePrefer('respond-async; code=201')).toEqual({ code: '201' });
+    expect(parsePrefer(undefined)).toEqual({});
+  });
+});
+
+describe('buildMockResponse', () => {
+  it('should prefer explicit examples over generated values', () => {
+    const mock = buildMockResponse(spec, spec.paths['/users'].get);
+
+    expect(mock).toEqual({
+      status: 200,
+      headers: { 'X-Total-Count': '2' },
+      contentType: 'application/json',
+      body: [{ id: 1, email: 'ada@example.com' }, { id: 2, email: 'grace@example.com' }],
+      source: 'example',
+    });
+  });
+
+  it('should generate bodies from the schema using field patterns', () => {
+    const mock = buildMockResponse(spec, spec.paths['/users'].post);
+
+    expect(mock.status).toBe(201);
+    expect(mock.source).toBe('generated');
+    expect((mock.body as any).email).toMatch(/@/);
+    // Field-name patterns never override the declared type
+    expect(Number.isInteger((mock.body as any).id)).toBe(true);
+  });
+
+  it('should reject preferences the spec does not document', () => {
+    expect(() => buildMockResponse(spec, spec.paths['/users'].get, { preferences: { code: '500' } })).toThrow(MockError);
+    expect(() => buildMockResponse(spec, spec.paths['/users'].get, { preferences: { example: 'three' } })).toThrow(
+      'No example named three for 200 application/json. Documented: two, empty'
+    );
+  });
+
+  it('should answer undocumented codes from the default response', () => {
+    const mock = buildMockResponse(spec, spec.paths['/users'].post, { preferences: { code: '409' } });
+
+    expect(mock.status).toBe(409);
+  });
+
+  it('should produce identical bodies for the same seed and key', () => {
+    const first = buildMockResponse(spec, spec.paths['/users'].post, { seed: 7, key: 'POST /users' });
+    const second = buildMockResponse(spec, spec.paths['/users'].post, { seed: 7, key: 'POST /users' });
+
+    expect(second.body).toEqual(first.body);
+  });
+
+  it('should produce identical dates for the same seed at different times', () => {
+    const operation = {
+      responses: {
+        '200': {
+          description: 'Event',
+          content: { 'application/json': { schema: { type: 'object', properties: { createdAt: { type: 'string', format: 'date-time' } } } } },
+        },
+      },
+    };
+
+    vi.useFakeTimers({ toFake: ['Date'] });
+    try {
+      vi.setSystemTime(new Date('2025-03-01T00:00:00Z'));
+      const first = buildMockResponse(spec, operation as any, { seed: 7, key: 'GET /events' });
+      vi.setSystemTime(new Date('2025-09-01T12:34:56Z'));
+      const second = buildMockResponse(spec, operation as any, { seed: 7, key: 'GET /events' });
+
+      expect(first.body).toEqual({ createdAt: expect.stringMatching(/^\d{4}-\d{2}-\d{2}T/) });
+      expect(second.body).toEqual(first.body);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe('createMockApp', () => {
+  const app = createMockApp(spec);
+
+  it('should serve operations under the server base path', async () => {
+    const response = await request(app).get('/api/users');
+
+    expect(response.status).toBe(200);
+    expect(response.headers['x-total-count']).toBe('2');
+    expect(response.body).toHaveLength(2);
+  });
+
+  it('should honour Prefer code and example headers', async () => {
+    const notFound = await request(app).get('/api/users').set('Prefer', 'code=404');
+    expect(notFound.status).toBe(404);
+    expect(notFound.headers['content-type']).toMatch(/application\/problem\+json/);
+
+    const empty = await request(app).get('/api/users').set('Prefer', 'example=empty');
+    expect(empty.body).toEqual([]);
+  });
+
+  it('should validate requests against the spec', async () => {
+    const invalidQuery = await request(app).get('/api/users?limit=500');
+    expect(invalidQuery.status).toBe(400);
+
+    const missingBody = await request(app).post('/api/users').send({ id: 1 });
+    expect(missingBody.status).toBe(400);
+
+    const unvalidated = await request(createMockApp(spec, { validate: false })).post('/api/users').send({ id: 1 });
+    expect(unvalidated.status).toBe(201);
+  });
+
+  it('should return empty bodies for 204 responses and 404 problems for unknown paths', async () => {
+    const deleted = await request(app).delete('/api/users/1');
+    expect(deleted.status).toBe(204);
+    expect(deleted.text).toBe('');
+
+    const unknown = await request(app).get('/api/orders');
+    expect(unknown.status).toBe(404);
+    expect(unknown.body.detail).toBe('No documented operation for GET /orders');
+  });
+
+  it('should answer CORS preflights', async () => {
+    const response = await request(app)
+      .options('/api/users')
+      .set('Origin', 'http://localhost:5173')
+      .set('Access-Control-Request-Method', 'POST');
+
+    expect(response.status).toBe(204);
+    expect(response.headers['access-control-allow-origin']).toBe('http://localhost:5173');
+  });
+
+  it('should return the same generated body for repeated requests with a seed', async () => {
+    const seeded = createMockApp(spec, { seed: 42 });
+    const first = await request(seeded).post('/api/users').send({ email: 'a@b.co' });
+    const second = await request(seeded).post('/api/users').send({ email: 'a@b.co' });
+
+    expect(second.body).toEqual(first.body);
+  });
+});
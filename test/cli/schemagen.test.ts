@@ -0,0 +1,255 @@
+import { describe, it, expect } from 'vitest';
+import * as ts from 'typescript';
+import * as zod from 'zod';
+import Joi from 'joi';
+import * as yup from 'yup';
+import { generateValidators, resolveValidatorLibrary } from '../../src/cli/schemagen';
+import { ZodAdapter } from '../../src/validators/ZodAdapter';
+import { SpecVersionConverter } from '../../src/core/SpecVersionConverter';
+import type { OpenAPISpec } from '../../src/types';
+
+const spec: OpenAPISpec = {
+  openapi: '3.1.0',
+  info: { title: 'Pet Store API', version: '1.0.0' },
+  paths: {
+    '/pets': {
+      get: {
+        operationId: 'list-pets',
+        parameters: [
+          { name: 'limit', in: 'query', schema: { type: 'integer', minimum: 1, default: 20 } },
+          { name: 'tags', in: 'query', schema: { type: 'array', items: { type: 'string' } } },
+          { name: 'vaccinated', in: 'query', schema: { type: 'boolean' } },
+          { name: 'X-Request-Id', in: 'header', required: true, schema: { type: 'string' } },
+        ],
+        responses: { '200': { description: 'Pets' } },
+      },
+      post: {
+        requestBody: { required: true, content: { 'application/json': { schema: { $ref: '#/components/schemas/NewPet' } } } },
+        responses: { '201': { description: 'Created' } },
+      },
+    },
+    '/pets/{petId}': {
+      get: {
+        parameters: [{ name: 'petId', in: 'path', required: true, schema: { type: 'integer' } }],
+        responses: { '200': { description: 'Pet' } },
+      },
+    },
+    '/health': { get: { responses: { '200': { description: 'OK' } } } },
+  },
+  components: {
+    schemas: {
+      Pet: {
+        description: 'A pet',
+        oneOf: [{ $ref: '#/components/schemas/Cat' }, { $ref: '#/components/schemas/Dog' }],
+        discriminator: { propertyName: 'kind' },
+      },
+      Cat: {
+        type: 'object',
+        required: ['kind', 'name'],
+        properties: {
+          kind: { const: 'cat' },
+          name: { type: ['string', 'null'], description: 'Pet name', maxLength: 20 },
+          lives: { type: 'integer', format: 'int64', exclusiveMinimum: 0, maximum: 9, default: 9 },
+          born: { type: 'string', format: 'date-time' },
+        },
+      },
+      Dog: {
+        type: 'object',
+        required: ['kind'],
+        properties: {
+          kind: { type: 'string', enum: ['dog'] },
+          tags: { type: 'array', items: { type: 'string', pattern: '^[a-z/]+$' }, minItems: 1, uniqueItems: true },
+          owner: { type: 'string', format: 'email', example: 'ada@example.com' },
+          weight: { type: 'number', format: 'double', multipleOf: 0.5, exclusiveMaximum: 100 },
+        },
+        additionalProperties: false,
+      },
+      NewPet: {
+        allOf: [{ $ref: '#/components/schemas/Cat' }, { type: 'object', properties: { note: { type: 'string', minLength: 1 } } }],
+      },
+      Adoption: {
+        type: 'object',
+        required: ['pet'],
+        properties: {
+          pet: { oneOf: [{ $ref: '#/components/schemas/Pet' }, { type: 'null' }] },
+          reference: { type: ['string', 'number'] },
+          status: { type: 'string', enum: ['pending', 'done', null], default: 'pending' },
+          metadata: { type: 'object' },
+        },
+      },
+      Labels: { type: 'object', additionalProperties: { type: 'string' } },
+      Category: {
+        type: 'object',
+        required: ['name'],
+        properties: { name: { type: 'string' }, children: { type: 'array', items: { $ref: '#/components/schemas/Category' } } },
+      },
+    },
+  },
+};
+
+/**
+ * Transpile and evaluate a generated module against the installed validator libraries
+ */
+function load(code: string): Record<string, any> {
+  const js = ts.transpileModule(code, {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020, esModuleInterop: true },
+  }).outputText;
+  const libraries: Record<string, unknown> = { zod, joi: Joi, yup };
+  const exports: Record<string, any> = {};
+  new Function('require', 'exports', js)((name: string) => libraries[name], exports);
+  return exports;
+}
+
+describe('generateValidators', () => {
+  const validators = generateValidators(spec, { library: 'zod', specName: 'openapi.json' });
+  const module = load(validators.code);
+
+  it('should declare component schemas after the schemas they reference', () => {
+    expect(validators.schemas).toBe(7);
+    expect(validators.code).toContain("import { z } from 'zod';");
+    expect(validators.code).toContain('export const PetSchema = z.discriminatedUnion(\'kind\', [CatSchema, DogSchema]).describe(\'A pet\');');
+    expect(validators.code).toContain('export type Pet = z.infer<typeof PetSchema>;');
+    expect(validators.code).toContain("  name: z.string().max(20).nullable().describe('Pet name'),");
+    expect(validators.code).toContain('  lives: z.number().int().gt(0).max(9).default(9),');
+    expect(validators.code.indexOf('const CatSchema')).toBeLessThan(validators.code.indexOf('const PetSchema'));
+    expect(validators.code.indexOf('const PetSchema')).toBeLessThan(validators.code.indexOf('const AdoptionSchema'));
+  });
+
+  it('should defer recursive references and type them explicitly', () => {
+    expect(validators.code).toContain(
+      [
+        'export interface Category {',
+        '  name: string;',
+        '  children?: Category[];',
+        '}',
+        'export const CategorySchema: z.ZodType<Category, z.ZodTypeDef, unknown> = z.object({',
+        '  name: z.string(),',
+        '  children: z.array(z.lazy(() => CategorySchema)).optional(),',
+        '});',
+      ].join('\n')
+    );
+    expect(module.CategorySchema.safeParse({ name: 'a', children: [{ name: 'b', children: [{ name: 3 }] }] }).success).toBe(false);
+  });
+
+  it('should emit request schemas that coerce Express parameters', () => {
+    expect(validators.operations).toBe(3);
+    expect(validators.code).toContain("    'x-request-id': z.string(),");
+    expect(validators.code).toContain('export type ListPetsRequest = z.infer<typeof ListPetsRequestSchema>;');
+
+    const parsed = module.ListPetsRequestSchema.parse({
+      query: { tags: 'a', vaccinated: 'false' },
+      headers: { 'x-request-id': 'abc', host: 'localhost' },
+    });
+    expect(parsed).toEqual({ query: { limit: 20, tags: ['a'], vaccinated: false }, headers: { 'x-request-id': 'abc' } });
+    expect(module.GetPetsByPetIdRequestSchema.safeParse({ params: { petId: 'abc' } }).success).toBe(false);
+    expect(module.PostPetsRequestSchema.safeParse({ body: { kind: 'cat', name: null, note: '' } }).success).toBe(false);
+  });
+
+  it('should generate Joi modules', () => {
+    const joi = generateValidators(spec, { library: 'joi' });
+    const loaded = load(joi.code);
+
+    expect(joi.code).toContain("import Joi from 'joi';");
+    expect(joi.code).toContain("  children: Joi.array().items(Joi.link('#Category')).optional(),");
+    expect(joi.code).toContain('export interface Dog {');
+    expect(loaded.PetSchema.validate({ kind: 'dog', extra: true }).error).toBeDefined();
+    expect(loaded.ListPetsRequestSchema.validate({ query: { limit: '5', tags: 'a' }, headers: { 'x-request-id': 'abc' } }).value)
+      .toEqual({ query: { limit: 5, tags: ['a'] }, headers: { 'x-request-id': 'abc' } });
+  });
+
+  it('should generate Yup modules and report what Yup cannot express', () => {
+    const yupModule = generateValidators(spec, { library: 'yup' });
+    const loaded = load(yupModule.code);
+
+    expect(yupModule.code).toContain("import * as yup from 'yup';");
+    expect(yupModule.code).toContain('export const NewPetSchema = CatSchema.concat(yup.object({');
+    expect(yupModule.warnings).toEqual(['additionalProperties schema in schema Labels is not enforced by Yup']);
+    expect(loaded.CatSchema.isValidSync({ kind: 'cat', name: 'Tom', lives: 0 })).toBe(false);
+    expect(loaded.PetSchema.isValidSync({ kind: 'cat', name: 'Tom' })).toBe(true);
+    expect(loaded.CategorySchema.isValidSync({ name: 'a', children: [{}] })).toBe(false);
+  });
+
+  it('should produce identical output for identical input', () => {
+    expect(generateValidators(spec, { library: 'zod', specName: 'openapi.json' }).code).toBe(validators.code);
+  });
+});
+
+describe('ZodAdapter round trip', () => {
+  const converter = new SpecVersionConverter();
+  const adapter = new ZodAdapter();
+  const module = load(generateValidators(spec, { library: 'zod' }).code);
+  const zodFormats = ['email', 'uuid', 'uri', 'date-time', 'date', 'time', 'ipv4', 'ipv6'];
+
+  /**
+   * Canonical OpenAPI 3.0 form of a schema. Erases the differences the round trip
+   * cannot preserve: references are inlined, integers become int32 numbers, anyOf
+   * becomes oneOf and annotations Zod cannot carry (examples, unknown formats,
+   * uniqueItems, additionalProperties: true) are dropped.
+   */
+  function canonical(node: any): any {
+    if (node.$ref) {
+      return canonical(converter.convertSchema(spec.components!.schemas![node.$ref.split('/').pop()], '3.0'));
+    }
+
+    const result: any = {};
+    for (const [key, value] of Object.entries<any>(node)) {
+      if (['example', 'title', 'uniqueItems'].includes(key)) continue;
+      if (key === 'properties') {
+        result.properties = Object.fromEntries(Object.entries<any>(value).map(([name, property]) => [name, canonical(property)]));
+      } else if (key === 'items') {
+        result.items = canonical(value);
+      } else if (key === 'additionalProperties') {
+        if (value === false) result.additionalProperties = false;
+        else if (value !== true && Object.keys(value).length > 0) result.additionalProperties = canonical(value);
+      } else if (key === 'allOf' || key === 'oneOf' || key === 'anyOf') {
+        result[key === 'anyOf' ? 'oneOf' : key] = value.map(canonical);
+      } else if (key === 'required') {
+        result.required = [...value].sort();
+      } else if (key === 'pattern') {
+        result.pattern = new RegExp(value).source;
+      } else if (key === 'discriminator') {
+        result.discriminator = { propertyName: value.propertyName };
+      } else {
+        result[key] = value;
+      }
+    }
+
+    if (result.type === 'integer') {
+      result.type = 'number';
+      result.format = 'int32';
+    } else if (result.format && !(result.type === 'string' && zodFormats.includes(result.format)) && result.format !== 'int32') {
+      delete result.format;
+    }
+    if (Array.isArray(result.enum)) {
+      const values = result.enum.filter((value: unknown) => value !== null);
+      if (values.length < result.enum.length) result.nullable = true;
+      if (values.length > 0) result.enum = values;
+      const types = new Set(values.map((value: unknown) => typeof value));
+      if (!result.type && types.size === 1) result.type = [...types][0];
+    }
+    if (result.allOf?.length === 1) {
+      const { allOf, ...rest } = result;
+      return { ...allOf[0], ...rest };
+    }
+    if (result.properties && Object.keys(result.properties).length === 0) delete result.properties;
+    if (result.required?.length === 0) delete result.required;
+    return result;
+  }
+
+  const roundTripped = Object.keys(spec.components!.schemas!).filter((name) => name !== 'Category');
+
+  it.each(roundTripped)('should preserve %s', (name) => {
+    const source = converter.convertSchema(spec.components!.schemas![name], '3.0');
+    const converted = adapter.convert(module[`${name}Schema`]);
+
+    expect(canonical(converted)).toEqual(canonical(source));
+  });
+});
+
+describe('resolveValidatorLibrary', () => {
+  it('should accept validator library names', () => {
+    expect(resolveValidatorLibrary('Zod')).toBe('zod');
+    expect(resolveValidatorLibrary('yup')).toBe('yup');
+    expect(resolveValidatorLibrary('ajv')).toBeNull();
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import {
+  summarizeSnapshots,
+  formatSnapshotSummaryText,
+  parseDuration,
+  parseSnapshotFile,
+  serializeSnapshots,
+} from '../../src/cli/snapshots';
+import type { RuntimeSnapshot } from '../../src/core/SnapshotStorage';
+
+const snapshots: RuntimeSnapshot[] = [
+  { method: 'GET', path: '/users', hash: 'a', timestamp: '2024-01-02T00:00:00.000Z' },
+  { method: 'POST', path: '/users', hash: 'b', timestamp: '2024-01-01T00:00:00.000Z' },
+  { method: 'GET', path: '/users', hash: 'c', timestamp: '2024-01-01T00:00:00.000Z', responseSchema: { type: 'array' } },
+  { method: 'GET', path: '/health', hash: 'd', timestamp: '2024-01-03T00:00:00.000Z' },
+];
+
+describe('summarizeSnapshots', () => {
+  it('should count snapshots per route with their time range', () => {
+    expect(summarizeSnapshots(snapshots)).toEqual([
+      { method: 'GET', path: '/health', count: 1, oldest: '2024-01-03T00:00:00.000Z', newest: '2024-01-03T00:00:00.000Z' },
+      { method: 'GET', path: '/users', count: 2, oldest: '2024-01-01T00:00:00.000Z', newest: '2024-01-02T00:00:00.000Z' },
+      { method: 'POST', path: '/users', count: 1, oldest: '2024-01-01T00:00:00.000Z', newest: '2024-01-01T00:00:00.000Z' },
+    ]);
+  });
+
+  it('should format summaries as text', () => {
+    const text = formatSnapshotSummaryText(summarizeSnapshots(snapshots));
+
+    expect(text).toContain('4 snapshot(s) across 3 route(s)');
+    expect(text).toContain('  GET /users      2  newest 2024-01-02T00:00:00.000Z');
+    expect(formatSnapshotSummaryText([])).toBe('No snapshots captured');
+  });
+});
+
+describe('parseDuration', () => {
+  it('should parse durations with units', () => {
+    expect(parseDuration('7d')).toBe(7 * 24 * 60 * 60 * 1000);
+    expect(parseDuration('12h')).toBe(12 * 60 * 60 * 1000);
+    expect(parseDuration('30m')).toBe(30 * 60 * 1000);
+    expect(parseDuration('1.5s')).toBe(1500);
+    expect(parseDuration('250')).toBe(250);
+  });
+
+  it('should reject unknown durations', () => {
+    expect(() => parseDuration('soon')).toThrow('Invalid duration: soon');
+  });
+});
+
+describe('parseSnapshotFile', () => {
+  it('should round trip JSON and NDJSON exports', () => {
+    expect(parseSnapshotFile(serializeSnapshots(snapshots, 'json'))).toEqual(snapshots);
+    expect(parseSnapshotFile(serializeSnapshots(snapshots, 'ndjson'))).toEqual(snapshots);
+    expect(serializeSnapshots(snapshots, 'ndjson').split('\n')).toHaveLength(5);
+    expect(parseSnapshotFile('  ')).toEqual([]);
+  });
+
+  it('should reject entries that are not snapshots', () => {
+    expect(() => parseSnapshotFile('[{"method":"GET"}]')).toThrow('Entry 1 is not a snapshot');
+    expect(() => parseSnapshotFile('{"method":"GET","path":"/","timestamp":"x"}\n{oops')).toThrow('Invalid JSON on line 2');
+  });
+});
@@ -0,0 +1,180 @@
+import { describe, it, expect } from 'vitest';
+import { generateContractTests, toAppImport } from '../../src/cli/testgen';
+import type { OpenAPISpec } from '../../src/types';
+
+const spec: OpenAPISpec = {
+  openapi: '3.1.0',
+  info: { title: 'Users', version: '1.0.0' },
+  servers: [{ url: 'https://api.example.com/api' }],
+  paths: {
+    '/users': {
+      get: {
+        operationId: 'listUsers',
+        parameters: [
+          { name: 'limit', in: 'query', required: true, schema: { type: 'integer' }, example: 10 },
+          { name: 'X-Request-Id', in: 'header', required: true, schema: { type: 'string' }, example: 'abc' },
+        ],
+        responses: {
+          '200': {
+            description: 'Users',
+            content: { 'application/json': { schema: { type: 'array', items: { $ref: '#/components/schemas/User' } } } },
+          },
+          '4xx': { description: 'Client error' },
+        },
+      },
+      post: {
+        security: [{ bearerAuth: [] }],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/User' },
+              example: { id: 1, email: 'ada@example.com' },
+            } as any,
+          },
+        },
+        responses: { '201': { description: 'Created' } },
+      },
+    },
+    '/users/{id}': {
+      get: {
+        security: [{ bearerAuth: [] }, {}],
+        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'integer' }, example: 42 }],
+        responses: { '200': { description: 'User' } },
+      },
+    },
+  },
+  components: {
+    schemas: {
+      User: { type: 'object', required: ['email'], properties: { id: { type: 'integer' }, email: { type: 'string' } } },
+    },
+    securitySchemes: {
+      bearerAuth: { type: 'http', scheme: 'bearer' },
+      apiKey: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+    },
+  },
+};
+
+describe('generateContractTests', () => {
+  const suite = generateContractTests(spec, { appImport: '../src/app' });
+
+  it('should emit one describe block per operation', () => {
+    expect(suite.operations).toBe(3);
+    expect(suite.code).toContain("describe('GET /users (listUsers)', () => {");
+    expect(suite.code).toContain("describe('POST /users', () => {");
+    expect(suite.code).toContain("describe('GET /users/{id}', () => {");
+  });
+
+  it('should build happy-path requests from examples', () => {
+    expect(suite.code).toContain("await send('get', '/users', { query: { limit: 10 }, headers: { 'X-Request-Id': 'abc' } });");
+    expect(suite.code).toContain(
+      "await send('post', '/users', { body: { id: 1, email: 'ada@example.com' }, auth: ['bearerAuth'] });"
+    );
+    expect(suite.code).toContain("await send('get', '/users/42', { auth: ['bearerAuth'] });");
+  });
+
+  it('should assert responses against their documented schemas', () => {
+    expect(suite.code).toContain(
+      [
+        '  const responses: Record<string, any> = {',
+        "    '200': { type: 'array', items: { $ref: '#/components/schemas/User' } },",
+        "    '4XX': null,",
+        '  };',
+      ].join('\n')
+    );
+    expect(suite.code).toContain('expectDocumentedResponse(response, responses);');
+  });
+
+  it('should emit negative tests for missing required parameters and body fields', () => {
+    expect(suite.code).toContain("it('rejects a missing query parameter limit'");
+    expect(suite.code).toContain("it('rejects a missing header parameter X-Request-Id'");
+    expect(suite.code).toContain("it('rejects a missing request body'");
+    expect(suite.code).toContain("it('rejects a request body without email'");
+    expect(suite.code).toContain("await send('post', '/users', { body: { id: 1 }, auth: ['bearerAuth'] });");
+  });
+
+  it('should follow refs and allOf to required body fields and stop recursive bodies without nulls', () => {
+    const recursive: OpenAPISpec = {
+      ...spec,
+      paths: {
+        '/nodes': {
+          post: {
+            requestBody: {
+              required: true,
+              content: {
+                'application/json': {
+                  schema: {
+                    allOf: [
+                      { $ref: '#/components/schemas/Node' },
+                      { type: 'object', required: ['kind'], properties: { kind: { type: 'string' } } },
+                    ],
+                  },
+                },
+              },
+            },
+            responses: { '201': { description: 'Created' } },
+          },
+        },
+      },
+      components: {
+        schemas: {
+          Node: {
+            type: 'object',
+            required: ['name'],
+            properties: {
+              name: { type: 'string' },
+              owner: { $ref: '#/components/schemas/Node' },
+              children: { type: 'array', items: { $ref: '#/components/schemas/Node' } },
+            },
+          },
+        },
+      },
+    };
+
+    const { code } = generateContractTests(recursive, { appImport: './app' });
+
+    expect(code).toContain("it('rejects a request body without name'");
+    expect(code).toContain("it('rejects a request body without kind'");
+    expect(code).not.toMatch(/(owner|name): null|\[null/);
+  });
+
+  it('should emit auth-required tests only when authentication is mandatory', () => {
+    expect(suite.code.match(/it\('requires authentication'/g)).toHaveLength(1);
+    expect(suite.code).toContain("bearerAuth: { in: 'header', name: 'Authorization', value: `Bearer ${process.env.API_BEARER_AUTH ?? 'test-token'}` },");
+    expect(suite.code).toContain("apiKey: { in: 'header', name: 'X-API-Key', value: process.env.API_API_KEY ?? 'test-api-key' },");
+    expect(suite.tests).toBe(8);
+  });
+
+  it('should load the app like generate and target the server base path', () => {
+    expect(suite.code).toContain("const BASE_PATH = '/api';");
+    expect(suite.code).toContain("const loaded: any = await import('../src/app');");
+    expect(suite.code).toContain("import { describe, it, expect, beforeAll } from 'vitest';");
+  });
+
+  it('should emit jest and JavaScript flavours', () => {
+    const jest = generateContractTests(spec, { appImport: './app.js', framework: 'jest', typescript: false });
+
+    expect(jest.code).not.toContain("from 'vitest'");
+    expect(jest.code).toContain("import request from 'supertest';");
+    expect(jest.code).not.toMatch(/: Record<string, any>|: any\b/);
+  });
+
+  it('should be deterministic for a seed', () => {
+    const operation = spec.paths['/users/{id}'].get;
+    const generated: OpenAPISpec = {
+      ...spec,
+      paths: { '/users/{id}': { get: { ...operation, parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'integer' } }] } } },
+    };
+
+    expect(generateContractTests(generated, { appImport: './app', seed: 3 }).code).toBe(
+      generateContractTests(generated, { appImport: './app', seed: 3 }).code
+    );
+  });
+});
+
+describe('toAppImport', () => {
+  it('should resolve the app relative to the test file', () => {
+    expect(toAppImport('src/app.ts', 'test/contract.test.ts')).toBe('../src/app');
+    expect(toAppImport('app.js', 'contract.test.js')).toBe('./app.js');
+  });
+});
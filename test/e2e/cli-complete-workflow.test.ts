@@ -391,12 +391,12 @@ describe('CLI Complete Workflow E2E', () => {
     });
 
     it('should recognize swagger-jsdoc as source', async () => {
-      const result = await runCommand('node', [cliPath, 'migrate', 'swagger-jsdoc'], {
+      const result = await runCommand('node', [cliPath, 'migrate', 'swagger-jsdoc', '--dry-run'], {
         timeout: 5000,
       });
 
-      // Migrate command shows implementation notice
-      expect(result.stdout).toBeDefined();
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toContain('swagger-jsdoc');
     });
 
     it('should reject unsupported sources', async () => {
@@ -283,7 +283,7 @@ describe('Contract Tests: OpenAPI Compliance', () => {
         { method: 'GET', path: '/users/:id', handler: () => {} },
       ]);
 
-      const pathItem = spec.paths['/users/:id'];
+      const pathItem = spec.paths['/users/{id}'];
       expect(pathItem.get.parameters).toBeDefined();
       expect(pathItem.get.parameters.some((p: any) => p.name === 'id')).toBe(true);
     });
@@ -297,7 +297,7 @@ describe('Contract Tests: OpenAPI Compliance', () => {
         { method: 'GET', path: '/users/:id', handler: () => {} },
       ]);
 
-      const idParam = spec.paths['/users/:id'].get.parameters.find(
+      const idParam = spec.paths['/users/{id}'].get.parameters.find(
         (p: any) => p.name === 'id'
       );
       expect(idParam.required).toBe(true);
@@ -26,7 +26,7 @@ describe('Contract Tests: Schema Consistency', () => {
 
       // Paths should match Express routes
       expect(spec.paths['/users']).toBeDefined();
-      expect(spec.paths['/users/:id']).toBeDefined();
+      expect(spec.paths['/users/{id}']).toBeDefined();
     });
 
     it('should include all registered HTTP methods', () => {
@@ -46,8 +46,8 @@ describe('Contract Tests: Schema Consistency', () => {
 
       expect(spec.paths['/items'].get).toBeDefined();
       expect(spec.paths['/items'].post).toBeDefined();
-      expect(spec.paths['/items/:id'].put).toBeDefined();
-      expect(spec.paths['/items/:id'].delete).toBeDefined();
+      expect(spec.paths['/items/{id}'].put).toBeDefined();
+      expect(spec.paths['/items/{id}'].delete).toBeDefined();
     });
 
     it('should map path parameters consistently', () => {
@@ -61,7 +61,7 @@ describe('Contract Tests: Schema Consistency', () => {
       });
 
       const spec = generator.generate(routes);
-      const path = spec.paths['/users/:userId/posts/:postId'];
+      const path = spec.paths['/users/{userId}/posts/{postId}'];
 
       expect(path.get.parameters).toBeDefined();
       const paramNames = path.get.parameters.map((p: any) => p.name);
@@ -180,7 +180,7 @@ describe('Contract Tests: Schema Consistency', () => {
       });
 
       const spec = generator.generate(routes);
-      const getOp = spec.paths['/users/:id'].get;
+      const getOp = spec.paths['/users/{id}'].get;
 
       expect(getOp.responses['200']).toBeDefined();
       expect(getOp.responses['200'].description).toBe('Success');
@@ -227,7 +227,7 @@ describe('Contract Tests: Schema Consistency', () => {
       });
 
       const spec = generator.generate(routes);
-      const params = spec.paths['/users/:id'].get.parameters;
+      const params = spec.paths['/users/{id}'].get.parameters;
       const idParam = params.find((p: any) => p.name === 'id');
 
       expect(idParam.required).toBe(true);
@@ -245,7 +245,7 @@ describe('Contract Tests: Schema Consistency', () => {
       });
 
       const spec = generator.generate(routes);
-      const params = spec.paths['/users/:userId'].get.parameters;
+      const params = spec.paths['/users/{userId}'].get.parameters;
       const userIdParam = params.find((p: any) => p.name === 'userId');
 
       // ID parameters should be treated as string or integer
@@ -57,7 +57,7 @@ describe('Integration: Spec Generation Workflow', () => {
 
       // Verify paths exist for users resource
       expect(spec.paths['/users']).toBeDefined();
-      expect(spec.paths['/users/:id']).toBeDefined();
+      expect(spec.paths['/users/{id}']).toBeDefined();
     });
 
     it('should include all HTTP methods in paths', () => {
@@ -111,13 +111,13 @@ describe('Integration: Spec Generation Workflow', () => {
       const spec = generator.generate(routes);
 
       // Check path parameters are extracted
-      const userPath = spec.paths['/users/:userId'];
+      const userPath = spec.paths['/users/{userId}'];
       expect(userPath.get.parameters).toBeDefined();
       expect(userPath.get.parameters.length).toBe(1);
       expect(userPath.get.parameters[0].name).toBe('userId');
       expect(userPath.get.parameters[0].in).toBe('path');
 
-      const postsPath = spec.paths['/users/:userId/posts/:postId'];
+      const postsPath = spec.paths['/users/{userId}/posts/{postId}'];
       expect(postsPath.get.parameters.length).toBe(2);
     });
   });